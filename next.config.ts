@@ -21,7 +21,9 @@ const cspProd =
   "object-src 'none'; " +
   "frame-ancestors 'none'; " +
   "base-uri 'self'; " +
-  "form-action 'self';";
+  // The /pay form posts to our checkout route, which redirects to the hosted
+  // Stripe page; form-action also governs that redirect.
+  "form-action 'self' https://checkout.stripe.com;";
 
 const cspDev =
   "default-src 'self' blob: data:; " +
@@ -34,7 +36,7 @@ const cspDev =
   "object-src 'none'; " +
   "frame-ancestors 'none'; " +
   "base-uri 'self'; " +
-  "form-action 'self';";
+  "form-action 'self' https://checkout.stripe.com;";
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
@@ -0,0 +1,238 @@
+// scripts/check-day-planner.ts
+// Runs fixture days through the route planner and asserts the order and start
+// times it proposes: the least-driving order, pinned visits holding their time,
+// busy time kept clear, and the local search on a day too big to try every
+// order of. Drive times come from hand-written matrices or the offline stub
+// provider, so no Google key, network or database.
+// Run with: npm run check:planner
+
+import {
+  planAsBooked,
+  planDay,
+  type DayPlan,
+  type PlanInput,
+  type PlanStop,
+} from "@/features/booking/lib/day-planner";
+import { stubDriveMinutes } from "@/features/calendar/lib/travel-time-provider-stub";
+
+let failures = 0;
+
+/**
+ * Compares two values by their JSON form, recording rather than throwing so
+ * every fixture runs even after one fails.
+ * @param label - Human-readable case name.
+ * @param actual - Value produced by the planner.
+ * @param expected - Value the case should produce.
+ */
+function expectEqual(label: string, actual: unknown, expected: unknown): void {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a === e) {
+    console.log(`  PASS  ${label}`);
+  } else {
+    console.error(`  FAIL  ${label}\n        expected ${e}\n        got      ${a}`);
+    failures++;
+  }
+}
+
+/**
+ * A time on the fixture day, Tuesday 3 November 2026 (NZDT, UTC+13).
+ * @param hhmm - NZ wall time, e.g. "09:30".
+ * @returns The instant.
+ */
+function at(hhmm: string): Date {
+  const [h, m] = hhmm.split(":").map(Number);
+  return new Date(Date.UTC(2026, 10, 3, h - 13, m));
+}
+
+/**
+ * NZ wall time of an instant on the fixture day.
+ * @param date - The instant.
+ * @returns e.g. "09:30".
+ */
+function hhmm(date: Date): string {
+  const mins = (date.getUTCHours() * 60 + date.getUTCMinutes() + 13 * 60) % (24 * 60);
+  return `${String(Math.floor(mins / 60)).padStart(2, "0")}:${String(mins % 60).padStart(2, "0")}`;
+}
+
+/**
+ * A one-hour visit.
+ * @param id - Visit id.
+ * @param point - Matrix index of its address.
+ * @param start - Booked NZ start.
+ * @param movable - Whether the planner may move it.
+ * @returns The stop.
+ */
+function visit(id: string, point: number, start: string, movable = true): PlanStop {
+  const startAt = at(start);
+  return { id, point, startAt, endAt: new Date(startAt.getTime() + 60 * 60_000), movable };
+}
+
+/**
+ * A plan as `id@time` strings, for compact comparisons.
+ * @param plan - Planner output.
+ * @returns Visits in order.
+ */
+function route(plan: DayPlan | null): string[] {
+  return plan ? plan.stops.map((s) => `${s.id}@${hhmm(s.startAt)}`) : [];
+}
+
+/**
+ * Whether a plan keeps every drive and visit clear of busy time and of each
+ * other, inside the day for anything it moved.
+ * @param plan - Planner output.
+ * @param input - What it was planned from.
+ * @returns True when the plan can actually be driven.
+ */
+function drivable(plan: DayPlan, input: PlanInput): boolean {
+  let prevEnd = -Infinity;
+  for (const s of plan.stops) {
+    const leaveBy = s.startAt.getTime() - s.driveInMins * 60_000;
+    if (leaveBy < prevEnd + input.bufferMin * 60_000) return false;
+    if (s.moved) {
+      if (s.startAt < input.dayStart || s.endAt > input.dayEnd) return false;
+      const clash = input.busy.some((b) => b.start < s.endAt && b.end.getTime() > leaveBy);
+      if (clash) return false;
+    }
+    prevEnd = s.endAt.getTime();
+  }
+  return true;
+}
+
+// Base plus three visits: A and C are close together on one side of town, B is
+// on the other, and everything is half an hour from the base.
+const ZIGZAG = [
+  [0, 30, 30, 30],
+  [30, 0, 60, 10],
+  [30, 60, 0, 60],
+  [30, 10, 60, 0],
+];
+
+/**
+ * A fixture day on the zig-zag matrix.
+ * @param stops - The visits.
+ * @param busy - Other commitments.
+ * @returns Planner input.
+ */
+function zigzagDay(stops: PlanStop[], busy: PlanInput["busy"] = []): PlanInput {
+  return {
+    stops,
+    matrix: ZIGZAG,
+    busy,
+    dayStart: at("09:00"),
+    dayEnd: at("17:00"),
+    bufferMin: 0,
+    stepMin: 15,
+  };
+}
+
+/** Runs every fixture and exits non-zero on any failure. */
+function main(): void {
+  // Booked A, B, C crosses town twice. A-C-B drives 50 minutes less and keeps
+  // two of the three customers at their booked time.
+  const zigzag = zigzagDay([
+    visit("A", 1, "09:00"),
+    visit("B", 2, "11:00"),
+    visit("C", 3, "13:00"),
+  ]);
+  expectEqual("as booked drives the zig-zag", planAsBooked(zigzag).driveMins, 180);
+  const best = planDay(zigzag);
+  expectEqual("least driving, fewest moves", route(best), ["A@09:00", "C@13:00", "B@15:00"]);
+  expectEqual("drive saved", best ? planAsBooked(zigzag).driveMins - best.driveMins : null, 50);
+  expectEqual(
+    "only the moved visit is flagged",
+    best?.stops.map((s) => s.moved),
+    [false, false, true],
+  );
+
+  // B pinned at 11: the route has to start there. C can still keep its time
+  // after it, so A is the one that moves.
+  const pinned = zigzagDay([
+    visit("A", 1, "09:00"),
+    visit("B", 2, "11:00", false),
+    visit("C", 3, "13:00"),
+  ]);
+  expectEqual("pinned visit holds its time", route(planDay(pinned)), [
+    "B@11:00",
+    "C@13:00",
+    "A@14:15",
+  ]);
+
+  // Nothing movable: the booked day is the only plan.
+  const fixed = zigzagDay([
+    visit("A", 1, "09:00", false),
+    visit("B", 2, "11:00", false),
+    visit("C", 3, "13:00", false),
+  ]);
+  expectEqual("all pinned keeps the booked order", route(planDay(fixed)), [
+    "A@09:00",
+    "B@11:00",
+    "C@13:00",
+  ]);
+
+  // A dentist appointment 1-2pm: whatever comes back must steer around it.
+  const busyInput = zigzagDay(
+    [visit("A", 1, "09:00"), visit("B", 2, "11:00"), visit("C", 3, "13:00")],
+    [{ start: at("13:00"), end: at("14:00") }],
+  );
+  const aroundBusy = planDay(busyInput);
+  expectEqual("busy time kept clear", aroundBusy ? drivable(aroundBusy, busyInput) : false, true);
+
+  // Pinned visits that can't reach each other make no plan at all.
+  const impossible = zigzagDay([visit("A", 1, "09:00", false), visit("B", 2, "10:30", false)]);
+  expectEqual("unreachable pins plan nothing", planDay(impossible), null);
+
+  // The stub provider: symmetric, zero to itself, and a real drive otherwise.
+  const here = "12 Queen Street, Auckland Central";
+  const there = "4 Beach Road, Mairangi Bay";
+  expectEqual(
+    "stub drive times",
+    [
+      stubDriveMinutes(here, here),
+      stubDriveMinutes(here, there) === stubDriveMinutes(there, here),
+      stubDriveMinutes(here, there) > 0,
+      stubDriveMinutes(here, "  12 QUEEN street,  Auckland Central "),
+    ],
+    [0, true, true, 0],
+  );
+
+  // Ten visits on stub drive times: too many to try every order, so the local
+  // search runs, and on this scatter it finds a shorter route than booked.
+  const addresses = [
+    "1 Base Road, Ponsonby",
+    ...Array.from({ length: 10 }, (_, i) => `${i + 10} Fixture Street, Suburb ${i}`),
+  ];
+  const big: PlanInput = {
+    // Half-hour visits every 100 minutes from 6am, far enough apart to be
+    // drivable in the booked order.
+    stops: addresses.slice(1).map((_, i) => {
+      const startAt = new Date(at("06:00").getTime() + i * 100 * 60_000);
+      return {
+        id: `V${i}`,
+        point: i + 1,
+        startAt,
+        endAt: new Date(startAt.getTime() + 30 * 60_000),
+        movable: true,
+      };
+    }),
+    matrix: addresses.map((a) => addresses.map((b) => stubDriveMinutes(a, b))),
+    busy: [],
+    dayStart: at("06:00"),
+    dayEnd: at("23:45"),
+    bufferMin: 10,
+    stepMin: 15,
+  };
+  const bigPlan = planDay(big);
+  expectEqual(
+    "local search beats the booked order",
+    bigPlan ? bigPlan.driveMins < planAsBooked(big).driveMins : false,
+    true,
+  );
+  expectEqual("local search plan drivable", bigPlan ? drivable(bigPlan, big) : false, true);
+  expectEqual("local search keeps every visit", bigPlan?.stops.length, 10);
+
+  console.log(failures === 0 ? "\nAll fixtures passed." : `\n${failures} fixture(s) failed.`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -84,7 +84,7 @@ const booking = {
   promoTitleAtBooking: "Winter <special>",
   address: "1 Queen Street & Co, Auckland",
   meetingType: "in_person" as const,
-  rescheduleCount: 0,
+  calendarSequence: 0,
 };
 
 const enquiry: BusinessEnquiryData = {
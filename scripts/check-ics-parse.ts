@@ -0,0 +1,301 @@
+// scripts/check-ics-parse.ts
+// Feeds fixture iCalendar documents through parseIcs + expandIcsEvents and
+// asserts the occurrences availability would block: zones and DST, all-day
+// dates, RRULE/EXDATE expansion, RECURRENCE-ID overrides, and what is skipped.
+// Pure functions over strings, so no network and no database.
+// Run with: npm run check:ics
+
+import {
+  buildIcs,
+  buildIcsFeed,
+  expandIcsEvents,
+  icsDateToUtc,
+  parseIcs,
+  type IcsOccurrence,
+} from "@/features/booking/lib/ics";
+
+let failures = 0;
+
+/**
+ * Compares two values by their JSON form, recording rather than throwing so
+ * every fixture runs even after one fails.
+ * @param label - Human-readable case name.
+ * @param actual - Value produced by the parser.
+ * @param expected - Value the case should produce.
+ */
+function expectEqual(label: string, actual: unknown, expected: unknown): void {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a === e) {
+    console.log(`  PASS  ${label}`);
+  } else {
+    console.error(`  FAIL  ${label}\n        expected ${e}\n        got      ${a}`);
+    failures++;
+  }
+}
+
+/**
+ * Wraps VEVENT bodies in a VCALENDAR, CRLF-joined like a real feed.
+ * @param events - Each event's property lines, without BEGIN/END.
+ * @returns The document.
+ */
+function calendar(...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//fixture//EN",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+/**
+ * Parses and expands a document over a window.
+ * @param text - The document.
+ * @param from - Window start (ISO).
+ * @param to - Window end (ISO).
+ * @returns The occurrences.
+ */
+function expand(text: string, from: string, to: string): IcsOccurrence[] {
+  return expandIcsEvents(parseIcs(text), new Date(from), new Date(to));
+}
+
+/**
+ * Occurrence starts as ISO strings, for compact comparisons.
+ * @param occurrences - Expanded occurrences.
+ * @returns ISO start times.
+ */
+function starts(occurrences: IcsOccurrence[]): string[] {
+  return occurrences.map((o) => o.start.toISOString());
+}
+
+/** Runs every fixture and exits non-zero on any failure. */
+function main(): void {
+  // Round trip through the builder: escaping and folding must come back intact.
+  const built = buildIcs({
+    uid: "booking-1@tothepoint",
+    start: new Date("2026-11-02T21:00:00Z"),
+    end: new Date("2026-11-02T22:00:00Z"),
+    summary: "Laptop, printer; and Wi-Fi",
+    description: `Line one\nLine two with a backslash \\ and ${"a long tail ".repeat(12)}`,
+    location: "12 Queen St, Auckland",
+  });
+  const [roundTrip] = parseIcs(built);
+  expectEqual(
+    "builder round trip",
+    [roundTrip?.uid, roundTrip?.summary, roundTrip?.location, roundTrip?.description],
+    [
+      "booking-1@tothepoint",
+      "Laptop, printer; and Wi-Fi",
+      "12 Queen St, Auckland",
+      `Line one\nLine two with a backslash \\ and ${"a long tail ".repeat(12)}`,
+    ],
+  );
+
+  // A multi-event feed reads back as its events, in order.
+  const feed = buildIcsFeed(
+    [
+      {
+        uid: "a",
+        start: new Date("2026-11-02T20:00:00Z"),
+        end: new Date("2026-11-02T21:00:00Z"),
+        summary: "Job",
+      },
+      {
+        uid: "b",
+        start: new Date("2026-11-02T19:30:00Z"),
+        end: new Date("2026-11-02T20:00:00Z"),
+        summary: "Travel",
+      },
+    ],
+    { name: "Bookings", refreshMinutes: 60 },
+  );
+  expectEqual(
+    "feed round trip",
+    parseIcs(feed).map((e) => [e.uid, e.summary, icsDateToUtc(e.start).toISOString()]),
+    [
+      ["a", "Job", "2026-11-02T20:00:00.000Z"],
+      ["b", "Travel", "2026-11-02T19:30:00.000Z"],
+    ],
+  );
+
+  // Zones: TZID, UTC, floating (read as NZ), and a vendor-prefixed TZID.
+  const zoned = parseIcs(
+    calendar(
+      ["UID:tz-1", "DTSTART;TZID=Pacific/Auckland:20261102T100000", "DURATION:PT1H"],
+      ["UID:tz-2", "DTSTART:20261102T100000Z", "DURATION:PT1H"],
+      ["UID:tz-3", "DTSTART:20261102T100000", "DURATION:PT1H"],
+      [
+        "UID:tz-4",
+        'DTSTART;TZID="/mozilla.org/20070129_1/Pacific/Auckland":20260702T090000',
+        "DURATION:PT1H",
+      ],
+    ),
+  );
+  expectEqual(
+    "TZID, UTC, floating and prefixed zones",
+    zoned.map((e) => icsDateToUtc(e.start).toISOString()),
+    [
+      "2026-11-01T21:00:00.000Z",
+      "2026-11-02T10:00:00.000Z",
+      "2026-11-01T21:00:00.000Z",
+      "2026-07-01T21:00:00.000Z",
+    ],
+  );
+
+  // Weekly BYDAY with COUNT, one EXDATE removed.
+  const weekly = expand(
+    calendar([
+      "UID:weekly",
+      "DTSTART;TZID=Pacific/Auckland:20261102T090000",
+      "DTEND;TZID=Pacific/Auckland:20261102T100000",
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5",
+      "EXDATE;TZID=Pacific/Auckland:20261104T090000",
+    ]),
+    "2026-10-01T00:00:00Z",
+    "2026-12-31T00:00:00Z",
+  );
+  expectEqual("weekly BYDAY + COUNT + EXDATE", starts(weekly), [
+    "2026-11-01T20:00:00.000Z",
+    "2026-11-08T20:00:00.000Z",
+    "2026-11-10T20:00:00.000Z",
+    "2026-11-15T20:00:00.000Z",
+  ]);
+  expectEqual(
+    "instance ids carry the original start",
+    [weekly[0]?.id, weekly[0]?.recurringUid],
+    ["weekly_20261101T200000Z", "weekly"],
+  );
+
+  // NZDT ends 5 April 2026: the 9am wall time holds, the UTC instant shifts.
+  const dst = expand(
+    calendar([
+      "UID:dst",
+      "DTSTART;TZID=Pacific/Auckland:20260403T090000",
+      "DURATION:PT30M",
+      "RRULE:FREQ=DAILY;COUNT=4",
+    ]),
+    "2026-04-01T00:00:00Z",
+    "2026-04-10T00:00:00Z",
+  );
+  expectEqual("daily across the DST change", starts(dst), [
+    "2026-04-02T20:00:00.000Z",
+    "2026-04-03T20:00:00.000Z",
+    "2026-04-04T21:00:00.000Z",
+    "2026-04-05T21:00:00.000Z",
+  ]);
+
+  // Monthly on the last Friday, ended by a DATE-only UNTIL (inclusive).
+  const lastFriday = expand(
+    calendar([
+      "UID:last-friday",
+      "DTSTART;TZID=Pacific/Auckland:20261030T140000",
+      "DURATION:PT2H",
+      "RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20270129",
+    ]),
+    "2026-10-01T00:00:00Z",
+    "2027-06-01T00:00:00Z",
+  );
+  expectEqual("monthly -1FR until a date", starts(lastFriday), [
+    "2026-10-30T01:00:00.000Z",
+    "2026-11-27T01:00:00.000Z",
+    "2026-12-25T01:00:00.000Z",
+    "2027-01-29T01:00:00.000Z",
+  ]);
+
+  // A moved instance replaces the original; a cancelled one removes it.
+  const overridden = expand(
+    calendar(
+      [
+        "UID:standup",
+        "DTSTART:20261102T200000Z",
+        "DURATION:PT15M",
+        "RRULE:FREQ=DAILY;COUNT=3",
+        "SUMMARY:Standup",
+      ],
+      [
+        "UID:standup",
+        "RECURRENCE-ID:20261103T200000Z",
+        "DTSTART:20261103T230000Z",
+        "DURATION:PT15M",
+        "SUMMARY:Standup (moved)",
+      ],
+      [
+        "UID:standup",
+        "RECURRENCE-ID:20261104T200000Z",
+        "DTSTART:20261104T200000Z",
+        "DURATION:PT15M",
+        "STATUS:CANCELLED",
+      ],
+    ),
+    "2026-11-01T00:00:00Z",
+    "2026-11-10T00:00:00Z",
+  );
+  expectEqual(
+    "RECURRENCE-ID overrides",
+    overridden.map((o) => [o.start.toISOString(), o.summary, o.id]),
+    [
+      ["2026-11-02T20:00:00.000Z", "Standup", "standup_20261102T200000Z"],
+      ["2026-11-03T23:00:00.000Z", "Standup (moved)", "standup_20261103T200000Z"],
+    ],
+  );
+
+  // All-day dates span NZ midnights, multi-day included.
+  const allDay = expand(
+    calendar(["UID:away", "DTSTART;VALUE=DATE:20261224", "DTEND;VALUE=DATE:20261226"]),
+    "2026-12-01T00:00:00Z",
+    "2027-01-01T00:00:00Z",
+  );
+  expectEqual(
+    "all-day span in NZ",
+    allDay.map((o) => [o.start.toISOString(), o.end.toISOString(), o.allDay]),
+    [["2026-12-23T11:00:00.000Z", "2026-12-25T11:00:00.000Z", true]],
+  );
+
+  // Free and cancelled events block nothing; a nested VALARM is not the event.
+  const skipped = expand(
+    calendar(
+      ["UID:free", "DTSTART:20261102T200000Z", "DURATION:PT1H", "TRANSP:TRANSPARENT"],
+      ["UID:gone", "DTSTART:20261102T200000Z", "DURATION:PT1H", "STATUS:CANCELLED"],
+      [
+        "UID:kept",
+        "DTSTART:20261102T200000Z",
+        "DURATION:PT1H",
+        "SUMMARY:Dentist",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT15M",
+        "DESCRIPTION:Alarm text",
+        "END:VALARM",
+      ],
+    ),
+    "2026-11-01T00:00:00Z",
+    "2026-11-10T00:00:00Z",
+  );
+  expectEqual(
+    "transparent, cancelled and alarms",
+    skipped.map((o) => [o.uid, o.summary, o.description]),
+    [["kept", "Dentist", undefined]],
+  );
+
+  // Only occurrences overlapping the window come back: one that started before
+  // it is kept, one starting exactly at its end is not.
+  const clipped = expand(
+    calendar([
+      "UID:evening",
+      "DTSTART:20261101T080000Z",
+      "DURATION:PT3H",
+      "RRULE:FREQ=DAILY;INTERVAL=2",
+    ]),
+    "2026-11-05T09:00:00Z",
+    "2026-11-09T08:00:00Z",
+  );
+  expectEqual("window clipping", starts(clipped), [
+    "2026-11-05T08:00:00.000Z",
+    "2026-11-07T08:00:00.000Z",
+  ]);
+
+  console.log(failures === 0 ? "\nAll fixtures passed." : `\n${failures} fixture(s) failed.`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -44,7 +44,7 @@ function statusHint(status: number): string {
     case 429:
       return "Rate limited - if the body says retryable, the upstream OpenAI limit persisted through every backoff retry; otherwise the dev-only bypass is not active (the server must run in dev with the same ADMIN_SECRET the harness sends).";
     case 422:
-      return "The route rejected the request (its own validation or parse error). Check the description / input.";
+      return "The route rejected the request (its own validation or parse error). Check the description / input - or, on npm run dev:replay, that the case has a recorded answer (the dev server log names the missing fixture).";
     case 500:
       return "The route threw a server error - check the dev server terminal for the real stack trace. Common causes: a missing or invalid OPENAI_API_KEY on the server, or an OpenAI API failure.";
     default:
@@ -4,11 +4,18 @@
 // `npm run dev` in another terminal). `--self-test` runs the network-free
 // pure-logic checks only.
 //
+// Offline: `npm run dev:record` runs the dev server with every model answer
+// saved under scripts/eval-ai/fixtures; `npm run dev:replay` serves those
+// answers back with no model call, and `--offline` runs the cases once each
+// against it. Re-record after a prompt change - replay warns on fixtures
+// recorded against an older prompt, and the fixture diff shows what moved.
+//
 // Usage:
 //   npm run eval:ai -- --self-test        # pure checks, no server, no API calls
 //   npm run eval:ai                       # full run against http://localhost:3000
 //   npm run eval:ai -- --url=http://localhost:3001
 //   npm run eval:ai -- --runs=3           # repeat each case 3x for reproducibility
+//   npm run eval:ai -- --offline          # replayed answers (needs npm run dev:replay)
 
 import { clampBillableMins } from "@/features/business/lib/pricing-policy";
 import { calcSessionMins } from "@/features/business/lib/time-parse";
@@ -110,21 +117,25 @@ function parseArgs(): {
   runs: number;
   probe: boolean;
   showContext: boolean;
+  offline: boolean;
 } {
   const args = process.argv.slice(2);
   let selfTest = false;
   let url = "http://localhost:3000";
-  let runs = 2;
+  let runs: number | null = null;
   let probe = false;
   let showContext = false;
+  let offline = false;
   for (const arg of args) {
     if (arg === "--self-test") selfTest = true;
     else if (arg.startsWith("--url=")) url = arg.slice(6);
     else if (arg.startsWith("--runs=")) runs = Math.max(1, parseInt(arg.slice(7), 10) || 1);
     else if (arg === "--probe") probe = true;
     else if (arg === "--show-context") showContext = true;
+    else if (arg === "--offline") offline = true;
   }
-  return { selfTest, url, runs, probe, showContext };
+  // A replayed answer is the same every time, so one run per case is enough.
+  return { selfTest, url, runs: runs ?? (offline ? 1 : 2), probe, showContext, offline };
 }
 
 /**
@@ -156,12 +167,14 @@ async function runCase(
  * @param url - Server base URL.
  * @param adminSecret - Admin secret for both routes.
  * @param runs - Repeat count per case (reproducibility).
+ * @param offline - Whether the server replays recorded answers (no paid calls).
  * @returns Raw runs plus the live context used to build expectations.
  */
 async function collectRaw(
   url: string,
   adminSecret: string,
   runs: number,
+  offline: boolean,
 ): Promise<{ ctx: LiveContext; raw: RawRun[]; aborted: boolean }> {
   const { loadLiveContext } = await import("./context");
   const { callEstimate, callParseJob } = await import("./client");
@@ -174,7 +187,9 @@ async function collectRaw(
   const total =
     ctx.benchmarks.length + ESTIMATE_CASES.length + PARSE_CASES.length + CROSS_ROUTE_CASES.length;
   console.log(
-    `Running ${total} cases x ${runs} run(s) = ${total * runs} paid calls. This takes a few minutes.\n`,
+    offline
+      ? `Running ${total} cases x ${runs} run(s) against recorded answers (the server must be on npm run dev:replay).\n`
+      : `Running ${total} cases x ${runs} run(s) = ${total * runs} paid calls. This takes a few minutes.\n`,
   );
 
   let done = 0;
@@ -463,7 +478,7 @@ function printReport(checks: CheckResult[]): void {
 }
 
 (async () => {
-  const { selfTest, probe, url, showContext, runs } = parseArgs();
+  const { selfTest, probe, url, showContext, runs, offline } = parseArgs();
   if (selfTest) {
     process.exit(runSelfTest());
   }
@@ -494,7 +509,7 @@ function printReport(checks: CheckResult[]): void {
       process.exit(0);
     }
     const started = new Date().toISOString();
-    const { ctx, raw, aborted } = await collectRaw(url, adminSecret, runs);
+    const { ctx, raw, aborted } = await collectRaw(url, adminSecret, runs, offline);
     const checks = evaluate(ctx, raw);
     printReport(checks);
 
@@ -514,11 +529,13 @@ function printReport(checks: CheckResult[]): void {
     const completed = raw.filter((r) => !r.error);
     const calls = completed.length * runs;
     console.log(
-      `\n${completed.length}/${raw.length} cases completed, ~${calls} paid calls. Artifact: ${artifact}`,
+      `\n${completed.length}/${raw.length} cases completed, ~${calls} ${offline ? "replayed" : "paid"} calls. Artifact: ${artifact}`,
     );
     if (aborted) {
       console.log(
-        `\n\x1b[33m⚠ run aborted early after repeated consecutive case errors (${raw.filter((r) => r.error).length} errored total) - upstream API likely rate-limited or out of quota. Completed cases are reported above and saved in the artifact.\x1b[0m`,
+        offline
+          ? `\n\x1b[33m⚠ run aborted early after repeated consecutive case errors (${raw.filter((r) => r.error).length} errored total) - the cases likely have no recorded answers yet (record them with npm run dev:record and a normal run) or the server is not on npm run dev:replay.\x1b[0m`
+          : `\n\x1b[33m⚠ run aborted early after repeated consecutive case errors (${raw.filter((r) => r.error).length} errored total) - upstream API likely rate-limited or out of quota. Completed cases are reported above and saved in the artifact.\x1b[0m`,
       );
     }
     if (reproFailed.length > 0) {
@@ -0,0 +1,122 @@
+// scripts/fake-calendar-push.ts
+/**
+ * @description Sends a fake Google Calendar push ping to a running dev server, so
+ * the push sync (cache update + scoped TravelBlock rebuild) can be exercised
+ * offline. The server needs CALENDAR_PUSH=fake, and the calendar needs a channel:
+ * hit GET /api/cron/renew-calendar-channels once first to open one.
+ *
+ * Run:
+ *   npm run fake:calendar-push -- --start=2026-11-02T10:00 --minutes=90 --location="Ponsonby"
+ *   npm run fake:calendar-push -- --remove=<eventId>
+ *
+ * Flags:
+ * - `--calendar=<id>`  Calendar to ping for (default BOOKING_CALENDAR_ID, else "primary").
+ * - `--id=<eventId>`   Event id to add or move (default a fresh fake id).
+ * - `--start=<date>`   Event start; anything `new Date()` parses.
+ * - `--minutes=<n>`    Event length (default 60).
+ * - `--summary=<text>` / `--location=<text>` Event title and venue.
+ * - `--remove=<id>`    Report this event as deleted instead.
+ * - `--url=<origin>`   Server origin (default http://localhost:3000).
+ */
+
+import { buildFakePushNotification } from "@/features/calendar/lib/calendar-push-fake";
+import type { CalendarEvent } from "@/features/calendar/lib/google-calendar";
+import { PrismaClient } from "@prisma/client";
+
+const db = new PrismaClient();
+
+/** Parsed CLI flags. */
+interface PushOptions {
+  calendarId: string;
+  eventId: string;
+  start: string | null;
+  minutes: number;
+  summary: string | null;
+  location: string | null;
+  remove: string | null;
+  url: string;
+}
+
+/**
+ * Parses `--flag=value` CLI arguments.
+ * @returns Parsed options.
+ */
+function parseArgs(): PushOptions {
+  const options: PushOptions = {
+    calendarId: process.env.BOOKING_CALENDAR_ID ?? "primary",
+    eventId: `fake-${Date.now()}`,
+    start: null,
+    minutes: 60,
+    summary: null,
+    location: null,
+    remove: null,
+    url: "http://localhost:3000",
+  };
+  for (const arg of process.argv.slice(2)) {
+    const [flag, ...rest] = arg.split("=");
+    const value = rest.join("=");
+    if (flag === "--calendar") options.calendarId = value;
+    else if (flag === "--id") options.eventId = value;
+    else if (flag === "--start") options.start = value;
+    else if (flag === "--minutes") options.minutes = parseInt(value, 10);
+    else if (flag === "--summary") options.summary = value;
+    else if (flag === "--location") options.location = value;
+    else if (flag === "--remove") options.remove = value;
+    else if (flag === "--url") options.url = value.replace(/\/$/, "");
+  }
+  return options;
+}
+
+/**
+ * Looks up the calendar's fake channel and POSTs one ping describing the change.
+ * @returns Promise that resolves when the server has answered.
+ */
+async function main(): Promise<void> {
+  const options = parseArgs();
+  const state = await db.calendarSyncState.findUnique({
+    where: { calendarId: options.calendarId },
+  });
+  if (!state?.channelId || !state.channelToken || !state.resourceId) {
+    console.error(
+      `No channel for ${options.calendarId} - run /api/cron/renew-calendar-channels with CALENDAR_PUSH=fake first.`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const changed: CalendarEvent[] = [];
+  if (!options.remove) {
+    const start = options.start ? new Date(options.start) : new Date();
+    if (Number.isNaN(start.getTime()) || !(options.minutes > 0)) {
+      console.error("Invalid --start or --minutes.");
+      process.exitCode = 1;
+      return;
+    }
+    changed.push({
+      id: options.eventId,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + options.minutes * 60_000).toISOString(),
+      summary: options.summary ?? undefined,
+      location: options.location ?? undefined,
+      calendarEmail: options.calendarId,
+    });
+  }
+
+  const { body, headers } = buildFakePushNotification(
+    {
+      channelId: state.channelId,
+      channelToken: state.channelToken,
+      resourceId: state.resourceId,
+    },
+    { changed, removedIds: options.remove ? [options.remove] : [] },
+  );
+  const res = await fetch(`${options.url}/api/calendar/webhook`, {
+    method: "POST",
+    headers,
+    body,
+  });
+  console.log(`${res.status} ${await res.text()}`);
+  if (!res.ok) process.exitCode = 1;
+}
+
+main().finally(() => db.$disconnect());
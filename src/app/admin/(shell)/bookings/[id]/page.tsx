@@ -3,23 +3,28 @@
  * @description Detail page for a single booking - the Booking model is the app's
  * richest row (price/promo/rate snapshots, travel mins, cancellation metadata,
  * reminder/review stamps) and this surfaces it. Two-column on lg+: the editable
- * customer card + price snapshot on the left, a context rail (actions, timeline,
- * linked records) on the right. Batch 1 loads the booking; batch 2 runs the
- * linked-record lookups (contact / invoices / review) in parallel. Both are
- * Server-Timing instrumented.
+ * customer card + price snapshot on the left, a context rail (actions, job
+ * authorisation, timeline, linked records) on the right. Batch 1 loads the booking; batch 2 runs the
+ * linked-record lookups (contact / invoices / review / recurring series) in
+ * parallel. Both are Server-Timing instrumented.
  */
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
 import { Card, CardHeader } from "@/features/admin/components/ui/Card";
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { StatusPill, type StatusTone } from "@/features/admin/components/ui/StatusPill";
 import { BookingActions } from "@/features/booking/components/admin/BookingActions";
 import { BookingInfoCard } from "@/features/booking/components/admin/BookingInfoCard";
 import { BookingTimeline } from "@/features/booking/components/admin/BookingTimeline";
+import { SeriesVisitActions } from "@/features/booking/components/admin/SeriesVisitActions";
+import { TechnicianAssignment } from "@/features/booking/components/admin/TechnicianAssignment";
+import { describeSeries, nzStartMinute } from "@/features/booking/lib/booking-series";
 import { formatMins, formatNZD } from "@/features/business/lib/business";
 import { formatQuotedRange } from "@/features/business/lib/estimate-range";
 import { requireAdminAuth } from "@/shared/lib/auth";
 import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
 import { prisma } from "@/shared/lib/prisma";
 import { ServerTimer } from "@/shared/lib/server-timing";
+import { getSettings } from "@/shared/lib/settings/get-settings";
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
@@ -42,6 +47,11 @@ const STATUS_TONE: Record<string, StatusTone> = {
 
 const MEETING_LABEL: Record<string, string> = { in_person: "In-person", remote: "Remote" };
 const DURATION_LABEL: Record<string, string> = { short: "Short job", long: "Long job" };
+const SMS_KIND_LABEL: Record<string, string> = {
+  confirmation: "Confirmation",
+  reminder: "Reminder",
+  review_request: "Review request",
+};
 
 /**
  * A label/value row inside a rail card.
@@ -100,7 +110,7 @@ export default async function BookingDetailPage({
   // Batch 2: linked records, all keyed on the booking so they run in parallel.
   // Contact matches the primary or any alt email (case-insensitive), skipping
   // soft-deleted rows - the same rule the booking>contact sync uses.
-  const [contact, invoices, review] = await timer.measure("batch2", () =>
+  const [contact, invoices, review, series, settings] = await timer.measure("batch2", () =>
     Promise.all([
       booking.email
         ? prisma.contact
@@ -129,12 +139,26 @@ export default async function BookingDetailPage({
           select: { id: true, status: true, verified: true, createdAt: true },
         })
         .catch(() => null),
+      booking.seriesId
+        ? prisma.bookingSeries
+            .findUnique({
+              where: { id: booking.seriesId },
+              select: { frequency: true, anchorDateKey: true, startMinute: true },
+            })
+            .catch(() => null)
+        : Promise.resolve(null),
+      getSettings(),
     ]),
   );
   timer.log("booking-detail");
 
+  const technicians = settings.availability.technicians
+    .filter((t) => t.enabled)
+    .map((t) => ({ id: t.id, name: t.name, color: t.color }));
+
   const isTest = booking.name.toLowerCase().includes("test");
   const tone = STATUS_TONE[booking.status] ?? "neutral";
+  const startMinute = nzStartMinute(booking.startAt);
 
   // Which price-snapshot fields exist decides whether to show the card.
   const hasPriceSnapshot =
@@ -186,6 +210,71 @@ export default async function BookingDetailPage({
             />
           </Card>
 
+          {booking.photos.length > 0 && (
+            <Card>
+              <CardHeader
+                title="Photos"
+                description="Attached by the customer with the booking request."
+              />
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {booking.photos.map((photo) => {
+                  const src = `/api/admin/bookings/${booking.id}/photos/${photo.id}`;
+                  return (
+                    <a
+                      key={photo.id}
+                      href={src}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block overflow-hidden rounded-lg border border-admin-border bg-admin-bg"
+                    >
+                      {/* Plain <img>: the route is admin-auth gated, which
+                          next/image's optimiser can't fetch through. */}
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={src}
+                        alt="Customer photo"
+                        width={photo.width}
+                        height={photo.height}
+                        loading="lazy"
+                        decoding="async"
+                        className="aspect-square h-auto w-full object-cover"
+                      />
+                    </a>
+                  );
+                })}
+              </div>
+            </Card>
+          )}
+
+          {(booking.smsOptIn.length > 0 || booking.smsDeliveries.length > 0) && (
+            <Card>
+              <CardHeader
+                title="Text messages"
+                description={
+                  booking.smsOptIn.length > 0
+                    ? `Opted in: ${booking.smsOptIn.map((k) => SMS_KIND_LABEL[k]).join(", ")}.`
+                    : "Not opted in to any texts."
+                }
+              />
+              {booking.smsDeliveries.length === 0 ? (
+                <p className="text-sm text-admin-muted">No texts sent yet.</p>
+              ) : (
+                <dl className="space-y-1.5 text-sm">
+                  {booking.smsDeliveries.map((d, i) => (
+                    <InfoRow key={`sms-${i}`} label={SMS_KIND_LABEL[d.kind]}>
+                      {d.status === "sent" ? "Sent" : "Failed"} {formatDateTimeShort(d.createdAt)}
+                      {d.error && (
+                        <span className="block text-xs font-normal text-admin-muted">
+                          {d.error}
+                        </span>
+                      )}
+                    </InfoRow>
+                  ))}
+                </dl>
+              )}
+            </Card>
+          )}
+
           {hasPriceSnapshot && (
             <Card>
               <CardHeader
@@ -277,6 +366,92 @@ export default async function BookingDetailPage({
             />
           </Card>
 
+          <Card>
+            <CardHeader
+              title="Job authorisation"
+              description="The customer's signed OK for the work, taken on the tablet."
+            />
+            {booking.authorisations.length > 0 ? (
+              <ul className="mb-3 space-y-2 text-sm">
+                {[...booking.authorisations].reverse().map((a) => (
+                  <li key={a.id}>
+                    <div className="flex items-center justify-between gap-2">
+                      <a
+                        href={`/api/admin/bookings/${booking.id}/authorisations/${a.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-blue-500 hover:text-blue-700"
+                      >
+                        {a.signedName}
+                      </a>
+                      <span className="text-xs text-admin-muted">
+                        {formatDateTimeShort(a.signedAt)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-admin-muted">
+                      {a.scope.length} task{a.scope.length === 1 ? "" : "s"}
+                      {a.driveWebUrl ? (
+                        <>
+                          {" · "}
+                          <a
+                            href={a.driveWebUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-500 hover:text-blue-700"
+                          >
+                            Drive
+                          </a>
+                        </>
+                      ) : (
+                        " · not archived to Drive"
+                      )}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mb-3 text-sm text-admin-faint">Not signed yet.</p>
+            )}
+            {(booking.status === "confirmed" || booking.status === "completed") && (
+              <AdminButton
+                variant={booking.authorisations.length > 0 ? "secondary" : "primary"}
+                href={`/admin/authorise/${booking.id}`}
+              >
+                {booking.authorisations.length > 0 ? "Sign again" : "Get it signed"}
+              </AdminButton>
+            )}
+          </Card>
+
+          {(technicians.length > 0 || booking.technicianId) && (
+            <Card>
+              <CardHeader title="Technician" />
+              <TechnicianAssignment
+                id={booking.id}
+                technicianId={booking.technicianId}
+                technicians={technicians}
+                editable={booking.status === "confirmed" || booking.status === "held"}
+              />
+            </Card>
+          )}
+
+          {series && (
+            <Card>
+              <CardHeader title="Recurring series" />
+              <SeriesVisitActions
+                id={booking.id}
+                description={describeSeries(series)}
+                startTime={`${String(Math.floor(startMinute / 60)).padStart(2, "0")}:${String(startMinute % 60).padStart(2, "0")}`}
+                durationMinutes={Math.round(
+                  (booking.endAt.getTime() - booking.startAt.getTime()) / 60_000,
+                )}
+                editable={
+                  (booking.status === "confirmed" || booking.status === "held") &&
+                  booking.startAt > new Date()
+                }
+              />
+            </Card>
+          )}
+
           <Card>
             <CardHeader title="Timeline" />
             <BookingTimeline
@@ -5,14 +5,20 @@
  * renders the filterable {@link BookingAdminList} (which owns the summary
  * StatCards, search, date-range filter, and sort). The select is kept to just
  * the columns the list shows; the detail page loads the full booking row itself.
+ * The upcoming waitlist for fully-booked days sits above it, grouped by day.
  */
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import {
   BookingAdminList,
   type AdminBookingRow,
 } from "@/features/booking/components/admin/BookingAdminList";
+import {
+  WaitlistPanel,
+  type AdminWaitlistRow,
+} from "@/features/booking/components/admin/WaitlistPanel";
 import { requireAdminAuth } from "@/shared/lib/auth";
 import { prisma } from "@/shared/lib/prisma";
+import { nzTodayKey } from "@/shared/lib/timezone-utils";
 import type { Metadata } from "next";
 import type React from "react";
 
@@ -54,6 +60,25 @@ export default async function AdminBookingsPage(): Promise<React.ReactElement> {
     },
   });
 
+  // Live queue only: today onwards, still waiting or holding an offer.
+  const waitlist = await prisma.waitlistEntry.findMany({
+    where: { dateKey: { gte: nzTodayKey() }, status: { in: ["waiting", "offered"] } },
+    orderBy: [{ dateKey: "asc" }, { createdAt: "asc" }],
+  });
+  const waitlistRows: AdminWaitlistRow[] = waitlist.map((w) => ({
+    id: w.id,
+    name: w.name,
+    email: w.email,
+    phone: w.phone ?? null,
+    dateKey: w.dateKey,
+    timeOfDay: w.timeOfDay,
+    meetingType: w.meetingType,
+    duration: w.duration,
+    status: w.status === "offered" ? "offered" : "waiting",
+    offeredBookingId: w.offeredBookingId ?? null,
+    createdAt: w.createdAt.toISOString(),
+  }));
+
   const bookingRows: AdminBookingRow[] = allBookings.map((b) => ({
     id: b.id,
     name: b.name,
@@ -75,6 +100,12 @@ export default async function AdminBookingsPage(): Promise<React.ReactElement> {
   return (
     <>
       <PageHeader title="Bookings" description="Search, filter, and manage customer bookings." />
+      {waitlistRows.length > 0 && (
+        <div className="mb-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-bold text-russian-violet">Waitlist</h2>
+          <WaitlistPanel entries={waitlistRows} />
+        </div>
+      )}
       <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
         <BookingAdminList bookings={bookingRows} />
       </div>
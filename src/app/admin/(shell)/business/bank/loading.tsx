@@ -0,0 +1,6 @@
+// src/app/admin/(shell)/business/bank/loading.tsx
+/**
+ * @description Bank import loading skeleton (shared admin list shape).
+ */
+
+export { AdminListSkeleton as default } from "@/features/admin/components/AdminListSkeleton";
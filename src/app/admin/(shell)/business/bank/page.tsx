@@ -0,0 +1,35 @@
+// src/app/admin/(shell)/business/bank/page.tsx
+/**
+ * @description Admin bank import page. Renders {@link BankImportView}: upload a
+ * bank CSV, review the proposed invoice and expense matches, record the ticked ones.
+ */
+import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { BankImportView } from "@/features/business/components/BankImportView";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import type { Metadata } from "next";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Bank import - Business",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Admin page for reconciling a bank statement against invoices and expenses.
+ * @returns Bank import page element
+ */
+export default async function BankImportPage(): Promise<React.ReactElement> {
+  await requireAdminAuth();
+
+  return (
+    <>
+      <PageHeader
+        title="Bank import"
+        description="Match a bank statement to open invoices and expenses, then record the lines you confirm."
+      />
+      <BankImportView />
+    </>
+  );
+}
@@ -1,7 +1,7 @@
 // src/app/admin/(shell)/business/calculator/page.tsx
 /**
  * @description Job calculator page. Resolves business identity, pricing
- * policy, rate configs, task templates, and the active promo server-side in
+ * policy, rate configs, task templates, stock, and the active promo server-side in
  * one parallel pass, then hands them to {@link CalculatorView} for AI job
  * parsing and time-tracked quoting - only the slow Google Contacts picker
  * list is left to a client fetch. `?eventId=` (the schedule's "Bill in
@@ -13,7 +13,8 @@ import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { CalculatorView, type EventPrefill } from "@/features/business/components/CalculatorView";
 import { getPolicy } from "@/features/business/lib/pricing-policy.server";
 import { getActivePromo } from "@/features/business/lib/promos";
-import type { RateConfig, TaskTemplate } from "@/features/business/types/business";
+import { stockSellPrice } from "@/features/business/lib/stock";
+import type { RateConfig, StockPartOption, TaskTemplate } from "@/features/business/types/business";
 import { fetchBookingEvent } from "@/features/calendar/lib/google-calendar";
 import { requireAdminAuth } from "@/shared/lib/auth";
 import { getIdentity } from "@/shared/lib/business-identity.server";
@@ -137,17 +138,19 @@ export default async function CalculatorPage({
 }): Promise<React.ReactElement> {
   await requireAdminAuth();
   const { eventId } = await searchParams;
-  const [identity, policy, rateRows, templateRows, promo, eventPrefill] = await Promise.all([
-    getIdentity(),
-    getPolicy(),
-    // Full rows (ids included) - the calculator's rate panel edits by id, so
-    // the trimmed public cache from getRateRows is not enough here.
-    prisma.rateConfig.findMany({ orderBy: { label: "asc" } }),
-    prisma.taskTemplate.findMany({ orderBy: [{ usageCount: "desc" }, { description: "asc" }] }),
-    getActivePromo(),
-    // Bad/stale ids degrade to a normal calculator load.
-    eventId ? buildEventPrefill(eventId) : Promise.resolve(null),
-  ]);
+  const [identity, policy, rateRows, templateRows, stockRows, promo, eventPrefill] =
+    await Promise.all([
+      getIdentity(),
+      getPolicy(),
+      // Full rows (ids included) - the calculator's rate panel edits by id, so
+      // the trimmed public cache from getRateRows is not enough here.
+      prisma.rateConfig.findMany({ orderBy: { label: "asc" } }),
+      prisma.taskTemplate.findMany({ orderBy: [{ usageCount: "desc" }, { description: "asc" }] }),
+      prisma.stockItem.findMany({ where: { isActive: true }, orderBy: { name: "asc" } }),
+      getActivePromo(),
+      // Bad/stale ids degrade to a normal calculator load.
+      eventId ? buildEventPrefill(eventId) : Promise.resolve(null),
+    ]);
   const pricing = {
     gstRegistered: policy.GST_REGISTERED,
     minTravelCharge: policy.MIN_TRAVEL_CHARGE,
@@ -184,6 +187,13 @@ export default async function CalculatorPage({
     createdAt: t.createdAt.toISOString(),
     updatedAt: t.updatedAt.toISOString(),
   }));
+  const initialStockItems: StockPartOption[] = stockRows.map((i) => ({
+    id: i.id,
+    name: i.name,
+    onHand: i.onHand,
+    unitCost: i.unitCost,
+    sellPrice: stockSellPrice(i, policy.GST_REGISTERED),
+  }));
 
   return (
     <>
@@ -202,6 +212,7 @@ export default async function CalculatorPage({
           cancellation={policy.CANCELLATION}
           initialRates={initialRates}
           initialTaskTemplates={initialTaskTemplates}
+          initialStockItems={initialStockItems}
           initialPromo={promo}
           eventPrefill={eventPrefill}
         />
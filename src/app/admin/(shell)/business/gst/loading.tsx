@@ -0,0 +1,6 @@
+// src/app/admin/(shell)/business/gst/loading.tsx
+/**
+ * @description GST return loading skeleton (shared admin list shape).
+ */
+
+export { AdminListSkeleton as default } from "@/features/admin/components/AdminListSkeleton";
@@ -0,0 +1,257 @@
+// src/app/admin/(shell)/business/gst/page.tsx
+/**
+ * @description Admin GST return page. Shows the GST101A boxes for a period
+ * under the configured filing frequency and basis, the transactions behind
+ * them, CSV/PDF exports, and "Mark as filed". A filed period shows its filed
+ * boxes and flags anything that has moved inside it since.
+ */
+import { Card, CardHeader } from "@/features/admin/components/ui/Card";
+import { ADMIN_CONTROL_CLS } from "@/features/admin/components/ui/field-classes";
+import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import { GstFileButton } from "@/features/business/components/GstFileButton";
+import { formatNZD } from "@/features/business/lib/business";
+import {
+  GST101A_BOXES,
+  gstPeriodFromKey,
+  loadGstReturnView,
+  recentGstPeriods,
+  type GstChange,
+  type GstLine,
+} from "@/features/business/lib/gst-return";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import type { Metadata } from "next";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "GST return - Business",
+  robots: { index: false, follow: false },
+};
+
+/** Periods offered in the picker (two years of two-monthly returns). */
+const PERIOD_CHOICES = 12;
+
+const KIND_LABEL: Record<GstLine["kind"], string> = {
+  invoice: "Invoice",
+  "credit-note": "Credit note",
+  income: "Income",
+  expense: "Expense",
+};
+
+const CHANGE_LABEL: Record<GstChange["change"], string> = {
+  added: "Added since filing",
+  removed: "Removed since filing",
+  changed: "Amount changed since filing",
+};
+
+/**
+ * "filed $X, now $Y" for a change, omitting whichever side doesn't exist.
+ * @param change - The change.
+ * @returns Amount summary.
+ */
+function changeAmounts(change: GstChange): string {
+  const parts: string[] = [];
+  if (change.filedAmount !== undefined) parts.push(`filed ${formatNZD(change.filedAmount)}`);
+  if (change.currentAmount !== undefined) parts.push(`now ${formatNZD(change.currentAmount)}`);
+  return parts.join(", ");
+}
+
+const EXPORT_LINK_CLS =
+  "inline-flex h-9 items-center rounded-lg border border-admin-border-strong bg-admin-surface px-4 text-sm font-semibold text-admin-text hover:bg-admin-bg";
+
+/**
+ * One supporting-transaction table.
+ * @param props - Component props.
+ * @param props.title - Card title.
+ * @param props.lines - Transactions.
+ * @returns Card element.
+ */
+function LinesCard({ title, lines }: { title: string; lines: GstLine[] }): React.ReactElement {
+  const total = lines.reduce((s, l) => s + l.amount, 0);
+  return (
+    <Card padding="none">
+      <div className="px-5 py-4">
+        <CardHeader
+          className="mb-0"
+          title={title}
+          description={`${lines.length} line(s), ${formatNZD(total)}`}
+        />
+      </div>
+      {lines.length > 0 && (
+        <div className="overflow-x-auto border-t border-admin-border">
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-admin-border">
+              {lines.map((l) => (
+                <tr key={`${l.kind}-${l.refId}`} className="hover:bg-admin-bg">
+                  <td className="px-4 py-2 text-xs whitespace-nowrap text-admin-muted">
+                    {formatDateShort(l.date)}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-admin-muted">{KIND_LABEL[l.kind]}</td>
+                  <td className="px-4 py-2 font-medium text-admin-text">{l.party}</td>
+                  <td className="px-4 py-2 text-admin-text-secondary">
+                    {l.description}
+                    {l.zeroRated && (
+                      <StatusPill tone="neutral" className="ml-2">
+                        Zero-rated
+                      </StatusPill>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap text-admin-text">
+                    {formatNZD(l.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Admin GST return worksheet for one period.
+ * @param root0 - Page props.
+ * @param root0.searchParams - URL search params (`?period=YYYY-MM`).
+ * @returns GST return page element.
+ */
+export default async function GstReturnPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ period?: string }>;
+}): Promise<React.ReactElement> {
+  await requireAdminAuth();
+  const { period: periodParam } = await searchParams;
+  const { tax, pricing } = await getSettings();
+
+  const now = new Date();
+  const periods = recentGstPeriods(tax.gstFilingFrequency, now, PERIOD_CHOICES);
+  // Default to the latest period that has ended - the one due to be filed.
+  const period =
+    (periodParam && gstPeriodFromKey(periodParam, tax.gstFilingFrequency)) || periods[1];
+  const { worksheet, filed, changes } = await loadGstReturnView(period, tax.gstBasis);
+  const ended = period.end <= now;
+  const exportHref = `/api/business/gst-return/export?period=${period.key}`;
+
+  return (
+    <>
+      <PageHeader
+        title="GST return"
+        description={`GST101A worksheet, ${tax.gstFilingFrequency} on the ${worksheet.basis} basis. Change the frequency and basis under Settings > Tax.`}
+      />
+
+      {!pricing.gstRegistered && (
+        <p className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          GST registration is off in Settings, so invoices carry no GST. The worksheet still adds up
+          the ledger, but there is nothing to file until you register.
+        </p>
+      )}
+
+      <Card className="mb-6">
+        <form method="get" className="flex flex-wrap items-center gap-3">
+          <label htmlFor="gst-period" className="text-sm font-medium text-admin-text">
+            Period
+          </label>
+          <select
+            id="gst-period"
+            name="period"
+            defaultValue={period.key}
+            className={ADMIN_CONTROL_CLS}
+          >
+            {periods.map((p) => (
+              <option key={p.key} value={p.key}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className={EXPORT_LINK_CLS}>
+            Show
+          </button>
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <a href={`${exportHref}&format=csv`} download className={EXPORT_LINK_CLS}>
+              CSV
+            </a>
+            <a href={`${exportHref}&format=pdf`} download className={EXPORT_LINK_CLS}>
+              PDF
+            </a>
+            {!filed && ended && <GstFileButton periodKey={period.key} periodLabel={period.label} />}
+          </div>
+        </form>
+      </Card>
+
+      {changes.length > 0 && (
+        <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <p className="font-medium">
+            {changes.length} transaction(s) in this period changed after it was filed. The boxes
+            below are as filed; if the difference matters, adjust it in your next return.
+          </p>
+          <ul className="mt-1 list-inside list-disc">
+            {changes.map((c) => (
+              <li key={`${c.kind}-${c.refId}`}>
+                {KIND_LABEL[c.kind]} {c.refId.slice(-6)}: {CHANGE_LABEL[c.change]} (
+                {changeAmounts(c)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Card padding="none" className="mb-6">
+        <div className="px-5 py-4">
+          <CardHeader
+            className="mb-0"
+            title={period.label}
+            actions={
+              filed ? (
+                <StatusPill tone="success">Filed {formatDateShort(filed.filedAt)}</StatusPill>
+              ) : ended ? (
+                <StatusPill tone="warning">Ready to file</StatusPill>
+              ) : (
+                <StatusPill tone="info">Period still open</StatusPill>
+              )
+            }
+          />
+        </div>
+        <table className="w-full border-t border-admin-border text-sm">
+          <tbody className="divide-y divide-admin-border">
+            {GST101A_BOXES.map(({ box, key, label }) => {
+              const emphasis = box === 10 || box === 14 || box === 15;
+              return (
+                <tr key={box}>
+                  <td className="w-12 px-4 py-2 text-xs font-semibold text-admin-muted">{box}</td>
+                  <td
+                    className={
+                      emphasis
+                        ? "px-4 py-2 font-semibold text-admin-text"
+                        : "px-4 py-2 text-admin-text"
+                    }
+                  >
+                    {label}
+                  </td>
+                  <td
+                    className={
+                      emphasis
+                        ? "px-4 py-2 text-right font-semibold whitespace-nowrap text-admin-text"
+                        : "px-4 py-2 text-right whitespace-nowrap text-admin-text"
+                    }
+                  >
+                    {formatNZD(worksheet.boxes[key])}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </Card>
+
+      <div className="space-y-6">
+        <LinesCard title="Sales and income" lines={worksheet.sales} />
+        <LinesCard title="Purchases and expenses" lines={worksheet.purchases} />
+      </div>
+    </>
+  );
+}
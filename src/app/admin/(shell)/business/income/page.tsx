@@ -6,6 +6,7 @@
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { IncomeView } from "@/features/business/components/IncomeView";
 import { requireAdminAuth } from "@/shared/lib/auth";
+import { getSettings } from "@/shared/lib/settings/get-settings";
 import type { Metadata } from "next";
 import type React from "react";
 
@@ -22,6 +23,9 @@ export const metadata: Metadata = {
  */
 export default async function IncomePage(): Promise<React.ReactElement> {
   await requireAdminAuth();
+  const { availability } = await getSettings();
+  // Every technician, switched off or not: past income can still be theirs.
+  const technicians = availability.technicians.map((t) => ({ id: t.id, name: t.name }));
 
   return (
     <>
@@ -29,7 +33,7 @@ export default async function IncomePage(): Promise<React.ReactElement> {
         title="Income"
         description="Record income entries; each syncs to the Cashbook sheet. Invoice payments appear here automatically."
       />
-      <IncomeView />
+      <IncomeView technicians={technicians} />
     </>
   );
 }
@@ -3,7 +3,7 @@
 /**
  * @description Action buttons + modals for the invoice detail page: save PDF,
  * open Drive PDF, record payment (via {@link PaymentDialog}), send-to-client,
- * void, and delete-draft. The send flow opens a preview modal with an editable
+ * quote deposit, void, and delete-draft. The send flow opens a preview modal with an editable
  * email body/greeting plus an optional review link based on eligibility; the
  * void flow previews the notification and warns when linked income entries would
  * be left behind. Housed beside the page so it ships in the PageHeader actions
@@ -19,11 +19,7 @@ import { AddToContactsModal } from "@/features/business/components/AddToContacts
 import { PaymentDialog } from "@/features/business/components/invoice/PaymentDialog";
 import { formatNZD } from "@/features/business/lib/business";
 import type { InvoiceReviewEligibility } from "@/features/business/lib/contact-review-token";
-import {
-  DEFAULT_INVOICE_EMAIL_BODY,
-  DEFAULT_QUOTE_EMAIL_BODY,
-  DEFAULT_VOID_EMAIL_BODY,
-} from "@/features/business/lib/invoice-email-defaults";
+import type { InvoiceStatus } from "@/features/business/types/business";
 import { cn } from "@/shared/lib/cn";
 import { formatDateShort } from "@/shared/lib/date-format";
 import { useRouter } from "next/navigation";
@@ -42,9 +38,11 @@ interface InvoiceActionsProps {
   invoiceNumber: string;
   clientName: string;
   clientEmail: string;
-  status: string;
+  status: InvoiceStatus;
   /** Invoice total - passed to {@link PaymentDialog}. */
   total: number;
+  /** Payments received so far (null reads as 0) - passed to {@link PaymentDialog}. */
+  amountPaid?: number | null;
   /** Current notes; edited in place via the "Edit notes" modal (SENT/PAID). */
   notes: string | null;
   /** First-sent stamp; drives the "Re-send" label. */
@@ -61,6 +59,14 @@ interface InvoiceActionsProps {
   reminderCount?: number | null;
   /** True when the row is a quote - swaps email copy, hides payment actions, adds Convert. */
   isQuote?: boolean;
+  /** Deposit the quote asks for on acceptance (null = none); edited via the "Deposit" modal. */
+  depositAmount?: number | null;
+  /** True once the customer has accepted or declined the quote online - the deposit is then fixed. */
+  quoteAnswered?: boolean;
+  /** Saved template wording the send modal starts from (quote wording for a quote). */
+  defaultEmailBody: string;
+  /** Saved template wording the void modal starts from. */
+  defaultVoidEmailBody: string;
 }
 
 const INPUT_CLS = cn(
@@ -81,6 +87,7 @@ const headers = { "Content-Type": "application/json" };
  * @param props.clientEmail - Recipient; "Send" is disabled when empty.
  * @param props.status - Current invoice status (drives which actions show).
  * @param props.total - Invoice total, passed to the payment dialog.
+ * @param props.amountPaid - Payments received so far, passed to the payment dialog.
  * @param props.notes - Current notes, edited via the notes modal (SENT/PAID).
  * @param props.sentAt - First-sent stamp; drives the Send/Re-send label.
  * @param props.paidAt - Payment stamp, passed to the payment dialog.
@@ -89,6 +96,10 @@ const headers = { "Content-Type": "application/json" };
  * @param props.isOverdue - Whether the invoice is SENT and past due.
  * @param props.reminderCount - Reminders already sent (null reads as 0).
  * @param props.isQuote - Whether the row is a quote.
+ * @param props.depositAmount - Deposit the quote asks for on acceptance.
+ * @param props.quoteAnswered - Whether the customer has answered the quote online.
+ * @param props.defaultEmailBody - Saved template wording for the send modal.
+ * @param props.defaultVoidEmailBody - Saved template wording for the void modal.
  * @returns Invoice actions element with its modals.
  */
 export function InvoiceActions({
@@ -99,6 +110,7 @@ export function InvoiceActions({
   clientEmail,
   status,
   total,
+  amountPaid = null,
   notes,
   sentAt,
   paidAt,
@@ -107,6 +119,10 @@ export function InvoiceActions({
   isOverdue = false,
   reminderCount = null,
   isQuote = false,
+  depositAmount = null,
+  quoteAnswered = false,
+  defaultEmailBody,
+  defaultVoidEmailBody,
 }: InvoiceActionsProps): React.ReactElement {
   const router = useRouter();
   const { toast } = useToast();
@@ -125,11 +141,9 @@ export function InvoiceActions({
   const [currentStatus, setCurrentStatus] = useState(status);
   // Operator-typed greeting override. Empty = use the first word of clientName.
   const [greetingName, setGreetingName] = useState("");
-  // Editable email body, pre-populated with the default copy (quote wording
+  // Editable email body, pre-populated with the saved template (quote wording
   // when the row is a quote).
-  const [customBody, setCustomBody] = useState(
-    isQuote ? DEFAULT_QUOTE_EMAIL_BODY : DEFAULT_INVOICE_EMAIL_BODY,
-  );
+  const [customBody, setCustomBody] = useState(defaultEmailBody);
   // Convert-to-invoice confirm + busy flags.
   const [converting, setConverting] = useState(false);
   const [confirmConvertOpen, setConfirmConvertOpen] = useState(false);
@@ -151,10 +165,15 @@ export function InvoiceActions({
   const [notesDraft, setNotesDraft] = useState(notes ?? "");
   const [notesSaving, setNotesSaving] = useState(false);
 
+  // Quote deposit modal.
+  const [depositOpen, setDepositOpen] = useState(false);
+  const [depositDraft, setDepositDraft] = useState(depositAmount ? String(depositAmount) : "");
+  const [depositSaving, setDepositSaving] = useState(false);
+
   // Void modal state.
   const [voidModalOpen, setVoidModalOpen] = useState(false);
   const [voidGreetingName, setVoidGreetingName] = useState("");
-  const [voidCustomBody, setVoidCustomBody] = useState(DEFAULT_VOID_EMAIL_BODY);
+  const [voidCustomBody, setVoidCustomBody] = useState(defaultVoidEmailBody);
   const [voidSendNotification, setVoidSendNotification] = useState(true);
   const [voidPreview, setVoidPreview] = useState<{
     subject: string;
@@ -174,14 +193,14 @@ export function InvoiceActions({
    */
   function openVoidModal(): void {
     setError(null);
-    setVoidCustomBody(DEFAULT_VOID_EMAIL_BODY);
+    setVoidCustomBody(defaultVoidEmailBody);
     setVoidGreetingName("");
     setVoidSendNotification(Boolean(clientEmail));
     setVoidModalOpen(true);
     // Pass the just-reset values explicitly: the setters above have not applied
     // yet, so loadVoidPreview reading component state would post the previous
     // session's edited body/greeting.
-    void loadVoidPreview("", DEFAULT_VOID_EMAIL_BODY);
+    void loadVoidPreview("", defaultVoidEmailBody);
   }
 
   /**
@@ -192,11 +211,11 @@ export function InvoiceActions({
   function resendVoidNotification(): void {
     if (!clientEmail) return;
     setError(null);
-    setVoidCustomBody(DEFAULT_VOID_EMAIL_BODY);
+    setVoidCustomBody(defaultVoidEmailBody);
     setVoidGreetingName("");
     setVoidSendNotification(true);
     setVoidModalOpen(true);
-    void loadVoidPreview("", DEFAULT_VOID_EMAIL_BODY);
+    void loadVoidPreview("", defaultVoidEmailBody);
   }
 
   /**
@@ -514,6 +533,31 @@ export function InvoiceActions({
     }
   }
 
+  /** Sets or clears the quote's deposit via the sparse PATCH; blank clears it. */
+  async function saveDeposit(): Promise<void> {
+    setDepositSaving(true);
+    try {
+      const res = await fetch(`/api/business/invoices/${invoiceId}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ depositAmount: depositDraft.trim() === "" ? null : depositDraft }),
+      });
+      const d = await res.json();
+      if (!res.ok || !d.ok) {
+        toast(d.error ?? "Couldn't save the deposit.", { tone: "error" });
+        setDepositSaving(false);
+        return;
+      }
+      setDepositOpen(false);
+      setDepositSaving(false);
+      toast(d.invoice?.depositAmount ? "Deposit saved." : "Deposit cleared.", { tone: "success" });
+      router.refresh();
+    } catch {
+      toast("Couldn't save the deposit. Check your connection.", { tone: "error" });
+      setDepositSaving(false);
+    }
+  }
+
   // Calculator "Save & send": open the send preview once on mount.
   const didAutoOpen = useRef(false);
   useEffect(() => {
@@ -567,7 +611,12 @@ export function InvoiceActions({
         )}
         {!isPaid && !isVoided && !isQuote && (
           <AdminButton variant="secondary" onClick={() => setPayOpen(true)}>
-            Mark as paid
+            {amountPaid ? "Record another payment" : "Record payment"}
+          </AdminButton>
+        )}
+        {isQuote && !isVoided && !quoteAnswered && (
+          <AdminButton variant="secondary" onClick={() => setDepositOpen(true)}>
+            {depositAmount ? `Deposit ${formatNZD(depositAmount)}` : "Ask for a deposit"}
           </AdminButton>
         )}
         {isQuote && !isVoided && (
@@ -671,6 +720,45 @@ export function InvoiceActions({
         />
       </Modal>
 
+      {/* Quote deposit - charged first when the customer accepts online. */}
+      <Modal
+        open={depositOpen}
+        onClose={() => !depositSaving && setDepositOpen(false)}
+        title="Deposit on acceptance"
+        description="Asked for on the quote page once the customer accepts. Leave blank for none; the Drive PDF re-syncs on save."
+        size="sm"
+        footer={
+          <>
+            <AdminButton
+              variant="secondary"
+              onClick={() => setDepositOpen(false)}
+              disabled={depositSaving}
+            >
+              Cancel
+            </AdminButton>
+            <AdminButton onClick={() => void saveDeposit()} busy={depositSaving}>
+              Save deposit
+            </AdminButton>
+          </>
+        }
+      >
+        <label htmlFor="quote-deposit" className={FIELD_LABEL_CLS}>
+          Deposit (NZD, up to {formatNZD(total)})
+        </label>
+        <input
+          id="quote-deposit"
+          type="number"
+          inputMode="decimal"
+          min={0}
+          max={total}
+          step="0.01"
+          value={depositDraft}
+          onChange={(e) => setDepositDraft(e.target.value)}
+          disabled={depositSaving}
+          className={INPUT_CLS}
+        />
+      </Modal>
+
       {/* Record payment - the real /pay flow (stamps + income + PDF re-sync). */}
       {payOpen && (
         <PaymentDialog
@@ -682,12 +770,13 @@ export function InvoiceActions({
             clientName,
             status: currentStatus,
             paidAt,
+            amountPaid,
           }}
           hasLinkedIncome={linkedIncome.count > 0}
-          onClose={(recorded) => {
+          onClose={(recorded, fullyPaid) => {
             setPayOpen(false);
             if (recorded) {
-              setCurrentStatus("PAID");
+              if (fullyPaid) setCurrentStatus("PAID");
               router.refresh();
             }
           }}
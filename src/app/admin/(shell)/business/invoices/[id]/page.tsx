@@ -2,23 +2,30 @@
 /**
  * @description Detail page for a single saved invoice. Two-column on lg+: the A4
  * preview (mirrors the generated PDF) on the left, a context rail (timeline,
- * payment, linked records) on the right. Data loads in two batches so the preview
+ * customer response to a quote, payment, linked records) on the right. Data loads in two batches so the preview
  * paints from batch 1 while the rail streams via Suspense from batch 2; both are
  * Server-Timing instrumented to catch this page's historically slow loads.
  */
 import { Card, CardHeader } from "@/features/admin/components/ui/Card";
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import { CreditNotesCard } from "@/features/business/components/invoice/CreditNotesCard";
 import { InvoiceStatusBadge } from "@/features/business/components/invoice/InvoiceStatusBadge";
 import { InvoiceTimeline } from "@/features/business/components/invoice/InvoiceTimeline";
 import { formatNZD, lineItemQtyLabel } from "@/features/business/lib/business";
-import { isInvoiceOverdue } from "@/features/business/lib/invoice-status";
+import {
+  invoiceBalanceDue,
+  isInvoiceOverdue,
+  isPartiallyPaid,
+} from "@/features/business/lib/invoice-status";
+import { depositDue, quotePageUrl, quoteState } from "@/features/business/lib/quote-acceptance";
 import { requireAdminAuth } from "@/shared/lib/auth";
 import { getIdentity } from "@/shared/lib/business-identity.server";
 import { cn } from "@/shared/lib/cn";
 import { formatDateShort } from "@/shared/lib/date-format";
 import { prisma } from "@/shared/lib/prisma";
 import { ServerTimer } from "@/shared/lib/server-timing";
+import { getSettings } from "@/shared/lib/settings/get-settings";
 import type { Invoice as PrismaInvoice } from "@prisma/client";
 import type { Metadata } from "next";
 import Image from "next/image";
@@ -83,9 +90,11 @@ function RailSkeleton(): React.ReactElement {
 }
 
 /**
- * Streamed context rail: loads the linked booking + contact (batch 2, keyed off
- * the invoice) and renders the timeline, payment, and linked-records cards. The
- * linked income entries come pre-loaded from batch 1.
+ * Streamed context rail: loads the linked booking, contact and credit notes
+ * (batch 2, keyed off the invoice) and renders the timeline, quote response,
+ * payment, credit notes and linked-records cards. The booking brings its
+ * signed job authorisations, listed with the linked records. The linked income entries come pre-loaded
+ * from batch 1.
  * @param props - Component props.
  * @param props.invoice - The invoice (batch 1).
  * @param props.incomeEntries - Income entries linked to the invoice (batch 1).
@@ -99,13 +108,18 @@ async function InvoiceRail({
   incomeEntries: LinkedIncomeEntry[];
 }): Promise<React.ReactElement> {
   const timer = new ServerTimer();
-  const [booking, contact] = await timer.measure("rail", () =>
+  const [booking, contact, creditNotes] = await timer.measure("rail", () =>
     Promise.all([
       invoice.bookingId
         ? prisma.booking
             .findUnique({
               where: { id: invoice.bookingId },
-              select: { id: true, name: true, startAt: true },
+              select: {
+                id: true,
+                name: true,
+                startAt: true,
+                authorisations: { select: { id: true, signedName: true, signedAt: true } },
+              },
             })
             .catch(() => null)
         : Promise.resolve(null),
@@ -117,6 +131,18 @@ async function InvoiceRail({
             })
             .catch(() => null)
         : Promise.resolve(null),
+      prisma.creditNote.findMany({
+        where: { invoiceId: invoice.id },
+        select: {
+          id: true,
+          number: true,
+          issueDate: true,
+          total: true,
+          reason: true,
+          sentAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+      }),
     ]),
   );
   timer.log("invoice-detail-rail");
@@ -124,6 +150,12 @@ async function InvoiceRail({
   const overdue = isInvoiceOverdue(invoice);
   const isPaid = invoice.status === "PAID";
   const isVoided = invoice.status === "VOIDED";
+  const credited = creditNotes.reduce((sum, n) => sum + n.total, 0);
+  // Quotes, and invoices that began as a quote accepted online.
+  const showResponse = invoice.isQuote === true || invoice.quoteAcceptedAt !== null;
+  const response = showResponse ? quoteState(invoice) : null;
+  const quoteLink = quotePageUrl(invoice.payToken);
+  const deposit = depositDue(invoice);
 
   return (
     <div className="space-y-4">
@@ -143,6 +175,58 @@ async function InvoiceRail({
         />
       </Card>
 
+      {showResponse && (
+        <Card>
+          <CardHeader title="Customer response" />
+          {invoice.quoteAcceptedAt ? (
+            <dl className="space-y-1 text-sm">
+              <InfoRow label="Accepted">{formatDateShort(invoice.quoteAcceptedAt)}</InfoRow>
+              <InfoRow label="Signed as">{invoice.quoteAcceptedName ?? "-"}</InfoRow>
+              {invoice.quoteAcceptedIp && (
+                <InfoRow label="From IP">{invoice.quoteAcceptedIp}</InfoRow>
+              )}
+            </dl>
+          ) : invoice.quoteDeclinedAt ? (
+            <dl className="space-y-1 text-sm">
+              <InfoRow label="Declined">{formatDateShort(invoice.quoteDeclinedAt)}</InfoRow>
+              {invoice.quoteDeclineReason && (
+                <p className="pt-1 text-admin-text-secondary">
+                  &ldquo;{invoice.quoteDeclineReason}&rdquo;
+                </p>
+              )}
+            </dl>
+          ) : (
+            <div className="space-y-2 text-sm">
+              <p className="text-admin-muted">
+                {response === "voided"
+                  ? "Withdrawn - the quote page no longer takes answers."
+                  : response === "expired"
+                    ? "Expired without an answer."
+                    : "Awaiting the customer's answer."}
+              </p>
+              {invoice.quoteRefreshRequestedAt && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <StatusPill tone="warning">FRESH QUOTE ASKED</StatusPill>
+                  <span className="text-admin-muted">
+                    {formatDateShort(invoice.quoteRefreshRequestedAt)}
+                  </span>
+                </div>
+              )}
+              {quoteLink && response === "open" && (
+                <a
+                  href={quoteLink}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-medium text-russian-violet underline"
+                >
+                  Open the customer&apos;s quote page
+                </a>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+
       <Card>
         <CardHeader title="Payment" />
         {isPaid ? (
@@ -163,7 +247,17 @@ async function InvoiceRail({
           <p className="text-sm text-admin-muted">Voided - no payment due.</p>
         ) : (
           <dl className="space-y-1 text-sm">
-            <InfoRow label="Amount due">{formatNZD(invoice.total)}</InfoRow>
+            {(invoice.amountPaid ?? 0) > 0 && (
+              <InfoRow label="Paid so far">{formatNZD(invoice.amountPaid ?? 0)}</InfoRow>
+            )}
+            <InfoRow label="Amount due">{formatNZD(invoiceBalanceDue(invoice))}</InfoRow>
+            {invoice.depositAmount ? (
+              <InfoRow label={invoice.isQuote ? "Deposit on acceptance" : "Deposit still due"}>
+                {formatNZD(
+                  invoice.isQuote ? Math.min(invoice.depositAmount, invoice.total) : deposit,
+                )}
+              </InfoRow>
+            ) : null}
             <InfoRow label="Due">{formatDateShort(invoice.dueDate)}</InfoRow>
             {overdue && (
               <div className="pt-1">
@@ -173,6 +267,21 @@ async function InvoiceRail({
           </dl>
         )}
 
+        {invoice.payments.length > 0 && (
+          <div className="mt-3 border-t border-admin-border pt-3">
+            <p className="mb-1 text-xs font-semibold text-admin-muted uppercase">Payments</p>
+            {invoice.payments.map((p) => (
+              <div key={p.id} className="flex justify-between gap-3 text-sm">
+                <span className="text-admin-text-secondary">
+                  {formatDateShort(p.date)} · {p.method}
+                  {p.reference && ` · ${p.reference}`}
+                </span>
+                <span className="font-medium text-admin-text">{formatNZD(p.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {incomeEntries.length > 0 && (
           <div className="mt-3 border-t border-admin-border pt-3">
             <p className="mb-1 text-xs font-semibold text-admin-muted uppercase">Linked income</p>
@@ -188,6 +297,25 @@ async function InvoiceRail({
         )}
       </Card>
 
+      {(isPaid || creditNotes.length > 0) && !invoice.isQuote && (
+        <CreditNotesCard
+          invoiceId={invoice.id}
+          invoiceNumber={invoice.number}
+          lineItems={invoice.lineItems.map((l) => ({
+            description: l.description,
+            lineTotal: l.lineTotal,
+          }))}
+          remaining={Math.max(0, Math.round((invoice.total - credited) * 100) / 100)}
+          canCredit={isPaid}
+          hasClientEmail={!!invoice.clientEmail}
+          creditNotes={creditNotes.map((n) => ({
+            ...n,
+            issueDate: n.issueDate.toISOString(),
+            sentAt: n.sentAt?.toISOString() ?? null,
+          }))}
+        />
+      )}
+
       <Card>
         <CardHeader title="Linked records" />
         <dl className="space-y-2 text-sm">
@@ -203,6 +331,24 @@ async function InvoiceRail({
               <span className="text-admin-faint">None</span>
             )}
           </InfoRow>
+          {booking && booking.authorisations.length > 0 && (
+            <InfoRow label="Authorisation">
+              {booking.authorisations.map((a) => (
+                <a
+                  key={a.id}
+                  href={`/api/admin/bookings/${booking.id}/authorisations/${a.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-blue-500 hover:text-blue-700"
+                >
+                  Signed by {a.signedName}
+                  <span className="block text-xs font-normal text-admin-muted">
+                    {formatDateShort(a.signedAt)}
+                  </span>
+                </a>
+              ))}
+            </InfoRow>
+          )}
           <InfoRow label="Contact">
             {contact ? (
               <Link
@@ -262,12 +408,14 @@ export default async function InvoiceViewPage({
   const timer = new ServerTimer();
 
   // Batch 1: the A4 preview + header need the invoice and identity; the void
-  // warning + payment card need the linked income. All keyed on the route id, so
-  // they run in parallel with no waterfall.
-  const [invoice, identity, incomeEntries] = await timer.measure("batch1", () =>
+  // warning + payment card need the linked income; the send/void modals start
+  // from the saved email templates. All keyed on the route id, so they run in
+  // parallel with no waterfall.
+  const [invoice, identity, { templates }, incomeEntries] = await timer.measure("batch1", () =>
     Promise.all([
       prisma.invoice.findUnique({ where: { id } }),
       getIdentity(),
+      getSettings(),
       prisma.incomeEntry.findMany({
         where: { invoiceId: id },
         select: { id: true, amount: true, date: true, method: true },
@@ -305,6 +453,7 @@ export default async function InvoiceViewPage({
             clientEmail={invoice.clientEmail}
             status={invoice.status}
             total={invoice.total}
+            amountPaid={invoice.amountPaid}
             notes={invoice.notes}
             sentAt={invoice.sentAt?.toISOString() ?? null}
             paidAt={invoice.paidAt?.toISOString() ?? null}
@@ -313,6 +462,10 @@ export default async function InvoiceViewPage({
             isOverdue={isInvoiceOverdue(invoice)}
             reminderCount={invoice.reminderCount}
             isQuote={invoice.isQuote === true}
+            depositAmount={invoice.depositAmount}
+            quoteAnswered={invoice.quoteAcceptedAt !== null || invoice.quoteDeclinedAt !== null}
+            defaultEmailBody={templates[invoice.isQuote ? "quote" : "invoice"].body}
+            defaultVoidEmailBody={templates.invoiceVoid.body}
           />
         }
       />
@@ -459,6 +612,22 @@ export default async function InvoiceViewPage({
                 {formatNZD(invoice.total)}
               </span>
             </div>
+            {isPartiallyPaid(invoice) && (
+              <>
+                <div className="flex justify-between gap-3">
+                  <span className="text-slate-500">Paid to date</span>
+                  <span className="font-medium whitespace-nowrap text-slate-700">
+                    -{formatNZD(invoice.amountPaid ?? 0)}
+                  </span>
+                </div>
+                <div className="flex justify-between gap-3">
+                  <span className="font-semibold text-slate-800">Balance due</span>
+                  <span className="font-extrabold whitespace-nowrap text-russian-violet">
+                    {formatNZD(invoiceBalanceDue(invoice))}
+                  </span>
+                </div>
+              </>
+            )}
           </div>
 
           <div className="rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-500">
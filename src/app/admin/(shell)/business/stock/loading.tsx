@@ -0,0 +1,6 @@
+// src/app/admin/(shell)/business/stock/loading.tsx
+/**
+ * @description Stock list-view loading skeleton (shared admin list shape).
+ */
+
+export { AdminListSkeleton as default } from "@/features/admin/components/AdminListSkeleton";
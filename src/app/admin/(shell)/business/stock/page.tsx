@@ -0,0 +1,109 @@
+// src/app/admin/(shell)/business/stock/page.tsx
+/**
+ * @description Admin stock page. Loads the stock items, the per-part margin
+ * report and the last few months of expenses (what parts are received from),
+ * maps them to plain rows for the server > client boundary, and renders
+ * {@link StockView}.
+ */
+import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { StockView } from "@/features/business/components/StockView";
+import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { stockMarginReport } from "@/features/business/lib/stock-recording";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Stock - Business",
+  robots: { index: false, follow: false },
+};
+
+/** How far back the receive dialog offers expenses. */
+const RECEIVABLE_EXPENSE_DAYS = 120;
+
+/** Plain-data stock item passed across the server > client boundary. */
+export interface StockRow {
+  id: string;
+  name: string;
+  sku: string | null;
+  supplier: string | null;
+  unitCost: number;
+  markupPercent: number;
+  sellPrice: number | null;
+  onHand: number;
+  reorderLevel: number | null;
+  isActive: boolean;
+}
+
+/** An expense parts can be received from. */
+export interface StockExpenseOption {
+  id: string;
+  date: string;
+  supplier: string;
+  description: string;
+  amountIncl: number;
+  amountExcl: number;
+}
+
+/**
+ * Admin Stock page - stock items with receive/count actions, and margins.
+ * @returns Stock page element.
+ */
+export default async function StockPage(): Promise<React.ReactElement> {
+  await requireAdminAuth();
+
+  const since = new Date();
+  since.setDate(since.getDate() - RECEIVABLE_EXPENSE_DAYS);
+  const [items, margins, expenses, policy] = await Promise.all([
+    prisma.stockItem.findMany({ orderBy: [{ isActive: "desc" }, { name: "asc" }] }),
+    stockMarginReport(),
+    prisma.expenseEntry.findMany({
+      where: { date: { gte: since } },
+      orderBy: { date: "desc" },
+      select: {
+        id: true,
+        date: true,
+        supplier: true,
+        description: true,
+        amountIncl: true,
+        amountExcl: true,
+      },
+    }),
+    getPolicy(),
+  ]);
+
+  const initial: StockRow[] = items.map((i) => ({
+    id: i.id,
+    name: i.name,
+    sku: i.sku,
+    supplier: i.supplier,
+    unitCost: i.unitCost,
+    markupPercent: i.markupPercent,
+    sellPrice: i.sellPrice,
+    onHand: i.onHand,
+    reorderLevel: i.reorderLevel,
+    isActive: i.isActive,
+  }));
+  const expenseOptions: StockExpenseOption[] = expenses.map((e) => ({
+    ...e,
+    date: e.date.toISOString(),
+  }));
+
+  return (
+    <>
+      <PageHeader
+        title="Stock"
+        description="Parts on the shelf. Receive them from an expense, pick them into a job in the calculator, and they come off the shelf when the invoice is sent."
+      />
+      <StockView
+        initial={initial}
+        expenses={expenseOptions}
+        margins={margins}
+        gstRegistered={policy.GST_REGISTERED}
+      />
+    </>
+  );
+}
@@ -2,19 +2,33 @@
 /**
  * @description Customer-360 contact detail. Loads everything the contact touches
  * through the shared {@link loadContact360} matcher - bookings, invoices, income,
- * reviews - summarises it as StatCards, and merges the lot into one interaction
- * timeline. The right rail carries the contact fields and sync/review-link state.
+ * reviews, emails sent - summarises it as StatCards, and merges the lot into one
+ * interaction timeline. The right rail carries the contact fields and sync/review-link state,
+ * plus, for retainer clients, this month's running hour balance, the closed
+ * months the bill-retainers cron has invoiced, and any recurring visit series.
+ * Contacts with invoices get a statement-of-account card (PDF + email).
  */
 import { ContactDetailActions } from "@/features/admin/components/ContactDetailActions";
+import { ContactStatementCard } from "@/features/admin/components/ContactStatementCard";
 import { Card, CardHeader } from "@/features/admin/components/ui/Card";
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { StatCard } from "@/features/admin/components/ui/StatCard";
 import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import { describeSeries } from "@/features/booking/lib/booking-series";
 import { formatNZD } from "@/features/business/lib/business";
+import { buildStatement, defaultStatementRange } from "@/features/business/lib/statement";
 import { loadContact360 } from "@/features/contacts/lib/contact-360";
+import { formatMonthKey } from "@/features/contacts/lib/retainer-usage";
+import {
+  MESSAGE_STATUS_LABEL,
+  messageTemplateLabel,
+} from "@/features/messaging/lib/message-templates";
 import { requireAdminAuth } from "@/shared/lib/auth";
 import { cn } from "@/shared/lib/cn";
-import { formatDateShort } from "@/shared/lib/date-format";
+import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { nzTodayKey } from "@/shared/lib/timezone-utils";
 import type { Metadata } from "next";
 import { notFound } from "next/navigation";
 import type React from "react";
@@ -26,7 +40,7 @@ export const metadata: Metadata = {
   robots: { index: false, follow: false },
 };
 
-type EventKind = "booking" | "invoice" | "payment" | "review";
+type EventKind = "booking" | "invoice" | "payment" | "review" | "message";
 
 /** One merged row in the interaction timeline. */
 interface ContactEvent {
@@ -42,6 +56,7 @@ const KIND_BADGE: Record<EventKind, { letter: string; className: string }> = {
   invoice: { letter: "I", className: "bg-russian-violet/15 text-russian-violet" },
   payment: { letter: "$", className: "bg-emerald-500/15 text-emerald-600" },
   review: { letter: "R", className: "bg-yellow-500/15 text-yellow-600" },
+  message: { letter: "M", className: "bg-slate-500/15 text-slate-600" },
 };
 
 /**
@@ -68,6 +83,15 @@ function InfoRow({
 
 const NONE = <span className="text-admin-faint">None</span>;
 
+/**
+ * Hours to one decimal place, e.g. "1.5h".
+ * @param hours - Hours.
+ * @returns Formatted hours.
+ */
+function formatHours(hours: number): string {
+  return `${Math.round(hours * 10) / 10}h`;
+}
+
 /**
  * Customer-360 contact detail page.
  * @param props - Page props.
@@ -85,7 +109,35 @@ export default async function ContactDetailPage({
   const data = await loadContact360(id);
   if (!data) notFound();
 
-  const { contact, bookings, invoices, income, reviews, totals } = data;
+  const { contact, bookings, invoices, income, reviews, messages, retainer, totals } = data;
+
+  // Statement card figures come from the statement builder itself, so the card
+  // and the PDF it downloads can't disagree on what's owing.
+  const statementRange = defaultStatementRange();
+  const statement = totals.invoices > 0 ? await buildStatement(contact.id, statementRange) : null;
+  const { templates } = await getSettings();
+
+  // Recurring series still running, each with its next upcoming visit.
+  const todayKey = nzTodayKey();
+  const series = await prisma.bookingSeries.findMany({
+    where: {
+      contactId: contact.id,
+      OR: [{ untilDateKey: null }, { untilDateKey: { gte: todayKey } }],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  const nextVisits =
+    series.length > 0
+      ? await prisma.booking.findMany({
+          where: {
+            seriesId: { in: series.map((s) => s.id) },
+            status: "confirmed",
+            startAt: { gte: new Date() },
+          },
+          select: { id: true, seriesId: true, startAt: true },
+          orderBy: { startAt: "asc" },
+        })
+      : [];
 
   // Merge every touch-point into one timeline, most recent first.
   const timeline: ContactEvent[] = [
@@ -116,6 +168,13 @@ export default async function ContactDetailPage({
       title: `Review (${r.status})`,
       detail: r.text.length > 70 ? `${r.text.slice(0, 70)}…` : r.text,
     })),
+    ...messages.map((m) => ({
+      kind: "message" as const,
+      timestamp: m.createdAt,
+      title: m.subject,
+      detail: `${messageTemplateLabel(m.template)} · ${MESSAGE_STATUS_LABEL[m.status]}`,
+      href: `/admin/messages/${m.id}`,
+    })),
   ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
   return (
@@ -141,6 +200,7 @@ export default async function ContactDetailPage({
             retainerTier={contact.retainerTier}
             retainerPrice={contact.retainerPrice}
             retainerHours={contact.retainerHours}
+            retainerOverageRate={contact.retainerOverageRate}
             retainerSince={contact.retainerSince?.toISOString().slice(0, 10) ?? null}
             retainerNotes={contact.retainerNotes}
             siteNotes={contact.siteNotes}
@@ -161,7 +221,7 @@ export default async function ContactDetailPage({
           <div className="p-4 sm:p-5">
             <CardHeader
               title="Timeline"
-              description="Bookings, invoices, payments, and reviews, newest first."
+              description="Bookings, invoices, payments, reviews, and emails, newest first."
             />
           </div>
           {timeline.length === 0 ? (
@@ -228,6 +288,19 @@ export default async function ContactDetailPage({
             </dl>
           </Card>
 
+          {statement && (
+            <ContactStatementCard
+              contactId={contact.id}
+              email={contact.email}
+              owing={statement.openInvoices.reduce((s, i) => s + i.balance, 0)}
+              overdue={statement.overdueTotal}
+              statementSentAt={contact.statementSentAt?.toISOString() ?? null}
+              defaultFrom={statementRange.fromKey}
+              defaultTo={statementRange.toKey}
+              defaultEmailBody={templates.statement.body}
+            />
+          )}
+
           {contact.siteNotes && (
             <Card>
               <CardHeader title="Site notes" description="Environment details from past visits." />
@@ -255,6 +328,57 @@ export default async function ContactDetailPage({
                     ? formatDateShort(contact.retainerSince.toISOString())
                     : NONE}
                 </InfoRow>
+                <InfoRow label="Overage rate">
+                  {contact.retainerOverageRate !== null
+                    ? `${formatNZD(contact.retainerOverageRate)}/h`
+                    : "Standard rate"}
+                </InfoRow>
+                {retainer && (
+                  <InfoRow label={formatMonthKey(retainer.current.monthKey)}>
+                    <span className="inline-flex items-center gap-2">
+                      {retainer.current.remainingHours - retainer.current.scheduledHours < 0 && (
+                        <StatusPill tone="warning">Over</StatusPill>
+                      )}
+                      <span>
+                        {formatHours(retainer.current.usedHours)} used
+                        {retainer.current.scheduledHours > 0
+                          ? ` · ${formatHours(retainer.current.scheduledHours)} booked`
+                          : ""}
+                        {` of ${formatHours(
+                          retainer.current.includedHours + retainer.current.carriedInHours,
+                        )}`}
+                      </span>
+                    </span>
+                  </InfoRow>
+                )}
+                {retainer && retainer.current.carriedInHours > 0 && (
+                  <InfoRow label="Carried in">
+                    {formatHours(retainer.current.carriedInHours)} (lapses month end)
+                  </InfoRow>
+                )}
+                {retainer?.periods.slice(0, 3).map((p) => (
+                  <InfoRow key={p.id} label={formatMonthKey(p.monthKey)}>
+                    <span className="inline-flex items-center gap-2">
+                      {p.overageHours > 0 && (
+                        <StatusPill tone="warning">+{formatHours(p.overageHours)}</StatusPill>
+                      )}
+                      {p.invoiceId ? (
+                        <a
+                          href={`/admin/business/invoices/${p.invoiceId}`}
+                          className="text-blue-500 hover:text-blue-700"
+                        >
+                          {formatHours(p.usedHours)} of{" "}
+                          {formatHours(p.includedHours + p.carriedInHours)}
+                        </a>
+                      ) : (
+                        <span>
+                          {formatHours(p.usedHours)} of{" "}
+                          {formatHours(p.includedHours + p.carriedInHours)}
+                        </span>
+                      )}
+                    </span>
+                  </InfoRow>
+                ))}
                 {contact.retainerNotes && (
                   <div>
                     <dt className="text-admin-muted">Notes</dt>
@@ -267,6 +391,46 @@ export default async function ContactDetailPage({
             </Card>
           )}
 
+          {series.length > 0 && (
+            <Card>
+              <CardHeader
+                title="Recurring visits"
+                description="Visits are booked automatically up to the booking horizon."
+              />
+              <ul className="space-y-3 text-sm">
+                {series.map((s) => {
+                  const next = nextVisits.find((v) => v.seriesId === s.id);
+                  const skipped = s.skippedDateKeys.filter((k) => k >= todayKey);
+                  return (
+                    <li key={s.id}>
+                      <p className="font-medium text-admin-text">{describeSeries(s)}</p>
+                      <p className="text-xs text-admin-muted">
+                        {formatHours(s.durationMinutes / 60)} · {s.address ? s.address : "Remote"}
+                        {s.untilDateKey
+                          ? ` · until ${formatDateShort(`${s.untilDateKey}T12:00:00Z`)}`
+                          : ""}
+                      </p>
+                      {next && (
+                        <a
+                          href={`/admin/bookings/${next.id}`}
+                          className="text-xs text-blue-500 hover:text-blue-700"
+                        >
+                          Next: {formatDateTimeShort(next.startAt)}
+                        </a>
+                      )}
+                      {skipped.length > 0 && (
+                        <p className="mt-1 text-xs text-amber-700">
+                          Not booked (clash):{" "}
+                          {skipped.map((k) => formatDateShort(`${k}T12:00:00Z`)).join(", ")}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </Card>
+          )}
+
           <Card>
             <CardHeader title="Review link" />
             <dl className="space-y-2 text-sm">
@@ -0,0 +1,264 @@
+// src/app/admin/(shell)/messages/[id]/page.tsx
+/**
+ * @description Detail page for one outbox message. The left column renders the
+ * stored HTML exactly as it was sent, inside a sandboxed iframe so the email's
+ * own styles and links can't touch the admin shell; the right rail shows
+ * delivery state, linked records, attachments, resends, and the resend action.
+ */
+import { Card, CardHeader } from "@/features/admin/components/ui/Card";
+import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import { MessageResendButton } from "@/features/messaging/components/admin/MessageResendButton";
+import {
+  MESSAGE_STATUS_LABEL,
+  MESSAGE_STATUS_TONE,
+  messageTemplateLabel,
+} from "@/features/messaging/lib/message-templates";
+import { OUTBOX_MAX_ATTEMPTS } from "@/features/messaging/lib/outbox";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import { formatDateTimeShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Message - Admin",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * A label/value row inside a rail card.
+ * @param props - Component props.
+ * @param props.label - Left-hand label.
+ * @param props.children - Right-hand value.
+ * @returns The row element.
+ */
+function InfoRow({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}): React.ReactElement {
+  return (
+    <div className="flex justify-between gap-3">
+      <span className="text-admin-muted">{label}</span>
+      <span className="min-w-0 text-right font-medium wrap-break-word text-admin-text">
+        {children}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Detail page for a single outbox message.
+ * @param props - Page props.
+ * @param props.params - Route params containing the message id.
+ * @returns Message detail page element.
+ */
+export default async function MessageDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}): Promise<React.ReactElement> {
+  const { id } = await params;
+  await requireAdminAuth();
+
+  const message = await prisma.outboundMessage.findUnique({ where: { id } }).catch(() => null);
+  if (!message) notFound();
+
+  const [booking, invoice, contact, resends] = await Promise.all([
+    message.bookingId
+      ? prisma.booking
+          .findUnique({ where: { id: message.bookingId }, select: { id: true, name: true } })
+          .catch(() => null)
+      : Promise.resolve(null),
+    message.invoiceId
+      ? prisma.invoice
+          .findUnique({ where: { id: message.invoiceId }, select: { id: true, number: true } })
+          .catch(() => null)
+      : Promise.resolve(null),
+    message.contactId
+      ? prisma.contact
+          .findUnique({ where: { id: message.contactId }, select: { id: true, name: true } })
+          .catch(() => null)
+      : Promise.resolve(null),
+    prisma.outboundMessage
+      .findMany({
+        where: { resendOfId: message.id },
+        select: { id: true, status: true, createdAt: true },
+        orderBy: { createdAt: "desc" },
+      })
+      .catch(() => []),
+  ]);
+
+  const retrying = message.status === "pending" && message.attempts > 0;
+
+  return (
+    <div>
+      <PageHeader
+        breadcrumbs={[
+          { label: "Messages", href: "/admin/messages" },
+          { label: messageTemplateLabel(message.template) },
+        ]}
+        title={
+          <span className="flex flex-wrap items-center gap-3">
+            <span>{message.subject}</span>
+            <StatusPill tone={MESSAGE_STATUS_TONE[message.status]}>
+              {MESSAGE_STATUS_LABEL[message.status]}
+            </StatusPill>
+          </span>
+        }
+        description={`To ${message.to} · ${formatDateTimeShort(message.createdAt)}`}
+      />
+
+      <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_340px] lg:items-start lg:gap-6">
+        {/* Left: the email as the recipient saw it. */}
+        <div className="space-y-4">
+          <Card padding="none">
+            {/* Empty sandbox: no scripts, no same-origin access, no top navigation. */}
+            <iframe
+              title="Email preview"
+              srcDoc={message.html}
+              sandbox=""
+              className="h-[70vh] w-full rounded-xl bg-white"
+            />
+          </Card>
+        </div>
+
+        {/* Right: delivery state, linked records, actions. */}
+        <div className="mt-4 space-y-4 lg:mt-0">
+          <Card>
+            <CardHeader title="Actions" />
+            <MessageResendButton id={message.id} to={message.to} />
+          </Card>
+
+          <Card>
+            <CardHeader title="Delivery" />
+            <dl className="space-y-1.5 text-sm">
+              <InfoRow label="Template">{messageTemplateLabel(message.template)}</InfoRow>
+              <InfoRow label="From">{message.from}</InfoRow>
+              {message.replyTo && <InfoRow label="Reply-to">{message.replyTo}</InfoRow>}
+              <InfoRow label="Queued">{formatDateTimeShort(message.createdAt)}</InfoRow>
+              {message.sentAt && (
+                <InfoRow label="Sent">{formatDateTimeShort(message.sentAt)}</InfoRow>
+              )}
+              <InfoRow label="Attempts">
+                {message.attempts} of {OUTBOX_MAX_ATTEMPTS}
+              </InfoRow>
+              {retrying && (
+                <InfoRow label="Next attempt">{formatDateTimeShort(message.nextAttemptAt)}</InfoRow>
+              )}
+              {message.providerMessageId && (
+                <InfoRow label="Resend id">
+                  <span className="font-mono text-xs">{message.providerMessageId}</span>
+                </InfoRow>
+              )}
+              {message.lastError && message.status !== "sent" && (
+                <div className="mt-3 border-t border-admin-border pt-3">
+                  <span className="text-admin-muted">Last error</span>
+                  <p className="mt-1 text-xs wrap-break-word text-coquelicot-600">
+                    {message.lastError}
+                  </p>
+                </div>
+              )}
+            </dl>
+          </Card>
+
+          <Card>
+            <CardHeader title="Linked records" />
+            <dl className="space-y-2 text-sm">
+              <InfoRow label="Contact">
+                {contact ? (
+                  <Link
+                    href={`/admin/contacts/${contact.id}`}
+                    className="text-blue-500 hover:text-blue-700"
+                  >
+                    {contact.name}
+                  </Link>
+                ) : (
+                  <span className="text-admin-faint">None</span>
+                )}
+              </InfoRow>
+              <InfoRow label="Booking">
+                {booking ? (
+                  <Link
+                    href={`/admin/bookings/${booking.id}`}
+                    className="text-blue-500 hover:text-blue-700"
+                  >
+                    {booking.name}
+                  </Link>
+                ) : (
+                  <span className="text-admin-faint">None</span>
+                )}
+              </InfoRow>
+              <InfoRow label="Invoice">
+                {invoice ? (
+                  <Link
+                    href={`/admin/business/invoices/${invoice.id}`}
+                    className="font-mono text-blue-500 hover:text-blue-700"
+                  >
+                    {invoice.number}
+                  </Link>
+                ) : (
+                  <span className="text-admin-faint">None</span>
+                )}
+              </InfoRow>
+              {message.resendOfId && (
+                <InfoRow label="Resend of">
+                  <Link
+                    href={`/admin/messages/${message.resendOfId}`}
+                    className="text-blue-500 hover:text-blue-700"
+                  >
+                    Original message
+                  </Link>
+                </InfoRow>
+              )}
+            </dl>
+          </Card>
+
+          {message.attachments.length > 0 && (
+            <Card>
+              <CardHeader title="Attachments" />
+              <ul className="space-y-1 text-sm">
+                {message.attachments.map((a, i) => (
+                  <li key={`attachment-${i}`} className="flex justify-between gap-3">
+                    <span className="truncate text-admin-text">{a.filename}</span>
+                    <span className="shrink-0 text-xs text-admin-muted">
+                      {Math.max(1, Math.round(a.content.length / 1024))} KB
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          {resends.length > 0 && (
+            <Card>
+              <CardHeader title="Resent as" />
+              <ul className="space-y-1 text-sm">
+                {resends.map((r) => (
+                  <li key={r.id} className="flex items-center justify-between gap-3">
+                    <Link
+                      href={`/admin/messages/${r.id}`}
+                      className="text-blue-500 hover:text-blue-700"
+                    >
+                      {formatDateTimeShort(r.createdAt)}
+                    </Link>
+                    <StatusPill tone={MESSAGE_STATUS_TONE[r.status]}>
+                      {MESSAGE_STATUS_LABEL[r.status]}
+                    </StatusPill>
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
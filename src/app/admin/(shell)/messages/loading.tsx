@@ -0,0 +1,6 @@
+// src/app/admin/(shell)/messages/loading.tsx
+/**
+ * @description Messages list-view loading skeleton (shared admin list shape).
+ */
+
+export { AdminListSkeleton as default } from "@/features/admin/components/AdminListSkeleton";
@@ -0,0 +1,180 @@
+// src/app/admin/(shell)/messages/page.tsx
+/**
+ * @description Admin log of every outgoing email, read from the outbox. Shows
+ * the newest 300 messages with queued/failed/sent counts; the StatCards double
+ * as a `?status=` filter and `?q=` narrows to a recipient. Each row opens the
+ * message detail page (rendered HTML, delivery attempts, resend).
+ */
+import { Card } from "@/features/admin/components/ui/Card";
+import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { StatCard } from "@/features/admin/components/ui/StatCard";
+import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import {
+  MESSAGE_STATUS_LABEL,
+  MESSAGE_STATUS_TONE,
+  messageTemplateLabel,
+} from "@/features/messaging/lib/message-templates";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import { formatDateTimeShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { OutboundMessageStatus, Prisma } from "@prisma/client";
+import type { Metadata } from "next";
+import Link from "next/link";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Messages - Admin",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Narrows the `?status=` param to a real status.
+ * @param raw - The query value.
+ * @returns The status, or null for "all".
+ */
+function parseStatus(raw: string | undefined): OutboundMessageStatus | null {
+  return raw && raw in MESSAGE_STATUS_TONE ? (raw as OutboundMessageStatus) : null;
+}
+
+/**
+ * Builds a list URL keeping the recipient search.
+ * @param status - Status filter, or null for all.
+ * @param q - Recipient search.
+ * @returns Relative URL.
+ */
+function listHref(status: OutboundMessageStatus | null, q: string): string {
+  const params = new URLSearchParams();
+  if (status) params.set("status", status);
+  if (q) params.set("q", q);
+  const qs = params.toString();
+  return qs ? `/admin/messages?${qs}` : "/admin/messages";
+}
+
+/**
+ * Admin Messages page.
+ * @param props - Page props.
+ * @param props.searchParams - `?status=` filter and `?q=` recipient search.
+ * @returns Messages page element.
+ */
+export default async function AdminMessagesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; q?: string }>;
+}): Promise<React.ReactElement> {
+  await requireAdminAuth("/admin/messages");
+  const params = await searchParams;
+  const status = parseStatus(params.status);
+  const q = (params.q ?? "").trim().toLowerCase();
+
+  const where: Prisma.OutboundMessageWhereInput = {
+    ...(status ? { status } : {}),
+    ...(q ? { to: { contains: q } } : {}),
+  };
+
+  const [messages, queuedCount, failedCount, sentCount] = await Promise.all([
+    prisma.outboundMessage.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: 300,
+      select: {
+        id: true,
+        template: true,
+        to: true,
+        subject: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        createdAt: true,
+      },
+    }),
+    prisma.outboundMessage.count({ where: { status: "pending" } }),
+    prisma.outboundMessage.count({ where: { status: "failed" } }),
+    prisma.outboundMessage.count({ where: { status: "sent" } }),
+  ]);
+
+  return (
+    <>
+      <PageHeader
+        title="Messages"
+        description="Every email the site has sent or is still trying to send. Failed sends retry with backoff; anything that runs out of attempts can be resent from its page."
+      />
+
+      <div className="mb-6 grid grid-cols-3 gap-3">
+        <StatCard
+          label="Queued"
+          value={queuedCount}
+          tone={queuedCount > 0 ? "warning" : "default"}
+          href={listHref(status === "pending" ? null : "pending", q)}
+          active={status === "pending"}
+        />
+        <StatCard
+          label="Failed"
+          value={failedCount}
+          tone={failedCount > 0 ? "critical" : "default"}
+          href={listHref(status === "failed" ? null : "failed", q)}
+          active={status === "failed"}
+        />
+        <StatCard
+          label="Sent"
+          value={sentCount}
+          tone="success"
+          href={listHref(status === "sent" ? null : "sent", q)}
+          active={status === "sent"}
+        />
+      </div>
+
+      <Card padding="none">
+        <form method="get" className="border-b border-admin-border p-4 sm:px-6">
+          {status && <input type="hidden" name="status" value={status} />}
+          <input
+            type="search"
+            name="q"
+            defaultValue={q}
+            placeholder="Search by recipient email"
+            aria-label="Search by recipient email"
+            className="w-full rounded-lg border border-admin-border bg-admin-surface px-3 py-2 text-sm text-admin-text focus:border-russian-violet focus:outline-none sm:max-w-sm"
+          />
+        </form>
+        {messages.length === 0 ? (
+          <p className="py-8 text-center text-sm text-admin-faint">
+            {status || q ? "No messages match." : "No messages sent yet."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-admin-border">
+            {messages.map((m) => (
+              <li key={m.id}>
+                <Link
+                  href={`/admin/messages/${m.id}`}
+                  className="flex flex-wrap items-center justify-between gap-x-4 gap-y-1 px-4 py-3 hover:bg-admin-bg sm:px-6"
+                >
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm font-medium text-admin-text">
+                      {m.subject}
+                    </span>
+                    <span className="block truncate text-xs text-admin-muted">
+                      {messageTemplateLabel(m.template)} · {m.to}
+                    </span>
+                    {m.status !== "sent" && m.lastError && (
+                      <span className="block truncate text-xs text-coquelicot-600">
+                        {m.lastError}
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-3 text-xs text-admin-faint">
+                    {m.attempts > 1 && <span>{m.attempts} attempts</span>}
+                    <span>{formatDateTimeShort(m.createdAt)}</span>
+                    <StatusPill tone={MESSAGE_STATUS_TONE[m.status]}>
+                      {MESSAGE_STATUS_LABEL[m.status]}
+                    </StatusPill>
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </>
+  );
+}
@@ -3,7 +3,7 @@
  * @description Admin dashboard. Runs a batch of parallel Prisma queries for
  * booking, review, contact, invoice, and income stats, then renders stat cards,
  * {@link DashboardQuickActions}, and live data panels (upcoming bookings,
- * pending reviews, recent contacts, outstanding invoices).
+ * pending reviews, recent contacts, outstanding invoices, low stock).
  */
 import { DashboardQuickActions } from "@/features/admin/components/DashboardQuickActions";
 import { Card } from "@/features/admin/components/ui/Card";
@@ -11,7 +11,8 @@ import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { StatCard } from "@/features/admin/components/ui/StatCard";
 import { StatusPill } from "@/features/admin/components/ui/StatusPill";
 import { formatNZD } from "@/features/business/lib/business";
-import { NOT_A_QUOTE_FILTER } from "@/features/business/lib/invoice-status";
+import { invoiceBalanceDue, NOT_A_QUOTE_FILTER } from "@/features/business/lib/invoice-status";
+import { isLowStock } from "@/features/business/lib/stock";
 import { requireAdminAuth } from "@/shared/lib/auth";
 import { cn } from "@/shared/lib/cn";
 import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
@@ -115,6 +116,7 @@ export default async function AdminPage(): Promise<React.ReactElement> {
     recentInvoices,
     latestCacheEntry,
     retainerContacts,
+    stockWithReorder,
   ] = await Promise.all([
     prisma.review.count({ where: { status: "pending" } }),
     prisma.review.count({ where: { status: "approved" } }),
@@ -201,6 +203,7 @@ export default async function AdminPage(): Promise<React.ReactElement> {
         id: true,
         number: true,
         total: true,
+        amountPaid: true,
         dueDate: true,
         status: true,
         clientName: true,
@@ -232,6 +235,13 @@ export default async function AdminPage(): Promise<React.ReactElement> {
       orderBy: { name: "asc" },
       select: { id: true, name: true, retainerTier: true, retainerPrice: true },
     }),
+    // Stock items with a reorder level - feeds the "Low stock" panel. The
+    // on-hand vs level comparison runs in JS: Prisma can't compare two fields.
+    prisma.stockItem.findMany({
+      where: { isActive: true, reorderLevel: { not: null } },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, onHand: true, reorderLevel: true, isActive: true },
+    }),
   ]);
 
   // --- Retainers due this month ---
@@ -259,6 +269,8 @@ export default async function AdminPage(): Promise<React.ReactElement> {
     retainersDue = retainerContacts.filter((r) => !invoicedIds.has(r.id));
   }
 
+  const lowStock = stockWithReorder.filter(isLowStock);
+
   // --- Review-link coverage ---
   const sentEmails = new Set<string>([
     ...contactsWithReviewSent.flatMap((c) => (c.email ? [c.email.toLowerCase()] : [])),
@@ -278,7 +290,7 @@ export default async function AdminPage(): Promise<React.ReactElement> {
 
   // --- Derived KPIs for the dashboard sections ---
   const monthRevenue = monthIncome._sum.amount ?? 0;
-  const outstandingTotal = outstandingInvoices.reduce((s, inv) => s + inv.total, 0);
+  const outstandingTotal = outstandingInvoices.reduce((s, inv) => s + invoiceBalanceDue(inv), 0);
   const overdueInvoices = outstandingInvoices.filter(
     (inv) => inv.status === "SENT" && inv.dueDate < now,
   );
@@ -415,6 +427,12 @@ export default async function AdminPage(): Promise<React.ReactElement> {
             {heldCount === 1 ? "" : "s"} to action
           </p>
         )}
+        {lowStock.length > 0 && (
+          <p className="text-sm text-admin-text-secondary">
+            <span className="font-bold text-coquelicot-600">{lowStock.length}</span> part
+            {lowStock.length === 1 ? "" : "s"} low on stock
+          </p>
+        )}
       </div>
 
       <DashboardQuickActions
@@ -537,6 +555,35 @@ export default async function AdminPage(): Promise<React.ReactElement> {
           </Panel>
         )}
 
+        {/* Low stock - parts at or below their reorder level. Hidden while
+            nothing needs reordering. */}
+        {lowStock.length > 0 && (
+          <Panel
+            title="Low stock"
+            badge={<StatusPill tone="warning">{lowStock.length}</StatusPill>}
+            action={{ label: "Stock", href: "/admin/business/stock" }}
+            empty="Nothing to reorder."
+          >
+            <ul className="divide-y divide-admin-border">
+              {lowStock.map((item) => (
+                <li key={item.id} className="flex items-start justify-between gap-3 px-5 py-3">
+                  <p className="min-w-0 truncate text-sm font-medium text-admin-text">
+                    {item.name}
+                  </p>
+                  <p
+                    className={cn(
+                      "shrink-0 text-right text-xs",
+                      item.onHand <= 0 ? "text-coquelicot-600" : "text-admin-muted",
+                    )}
+                  >
+                    {item.onHand} left (reorder at {item.reorderLevel})
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Panel>
+        )}
+
         {/* Recent activity - unified timeline of bookings, reviews, contacts, invoices. */}
         <Panel title="Recent activity" empty="No activity yet.">
           {activity.length === 0 ? null : (
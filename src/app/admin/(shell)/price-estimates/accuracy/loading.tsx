@@ -0,0 +1,6 @@
+// src/app/admin/(shell)/price-estimates/accuracy/loading.tsx
+/**
+ * @description Estimate-accuracy loading skeleton (shared admin list shape).
+ */
+
+export { AdminListSkeleton as default } from "@/features/admin/components/AdminListSkeleton";
@@ -0,0 +1,68 @@
+// src/app/admin/(shell)/price-estimates/accuracy/page.tsx
+/**
+ * @description Estimator accuracy page. Joins every quoted booking to the
+ * invoices that billed it, reports quoted against billed labour overall, per
+ * AI category and per benchmark, and renders {@link EstimateAccuracyView} with
+ * the proposed benchmark and range changes the operator can accept.
+ */
+import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { EstimateAccuracyView } from "@/features/business/components/EstimateAccuracyView";
+import { buildAccuracyReport } from "@/features/business/lib/estimate-accuracy";
+import { loadAccuracySamples } from "@/features/business/lib/estimate-accuracy.server";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import type { Metadata } from "next";
+import Link from "next/link";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Estimate accuracy - Admin",
+  robots: { index: false, follow: false },
+};
+
+/** Most recent jobs listed under the report. */
+const RECENT_JOBS = 50;
+
+/**
+ * Admin estimator accuracy page.
+ * @returns Accuracy page element.
+ */
+export default async function EstimateAccuracyPage(): Promise<React.ReactElement> {
+  await requireAdminAuth("/admin/price-estimates/accuracy");
+
+  const [{ samples, notInvoiced, noLabour }, settings] = await Promise.all([
+    loadAccuracySamples(),
+    getSettings(),
+  ]);
+  const report = buildAccuracyReport(
+    samples,
+    settings.estimator,
+    settings.pricing.billingIncrementMins,
+  );
+
+  return (
+    <>
+      <PageHeader
+        title="Estimate accuracy"
+        description="How the public estimator's quotes compared with what the jobs billed. Built from the quote kept on each booking and its invoices' labour lines."
+        actions={
+          <Link
+            href="/admin/price-estimates"
+            className="rounded-full border border-admin-border bg-admin-surface px-3 py-1 text-xs font-semibold text-admin-muted transition-colors select-none hover:bg-admin-bg"
+          >
+            Estimate log
+          </Link>
+        }
+      />
+      <EstimateAccuracyView
+        report={report}
+        recent={samples.slice(0, RECENT_JOBS)}
+        notInvoiced={notInvoiced}
+        noLabour={noLabour}
+        estimator={settings.estimator}
+      />
+    </>
+  );
+}
@@ -86,17 +86,25 @@ export default async function AdminPriceEstimatesPage({
         title="Price estimates"
         description={`Read-only audit log of public pricing wizard submissions. Rows are deleted after 30 days.${includeDev ? " Showing dev submissions too." : ""}`}
         actions={
-          <Link
-            href={toggleHref}
-            className={cn(
-              "rounded-full border px-3 py-1 text-xs font-semibold transition-colors select-none",
-              includeDev
-                ? "border-coquelicot-500/40 bg-coquelicot-500/10 text-coquelicot-600 hover:bg-coquelicot-500/20"
-                : "border-admin-border bg-admin-surface text-admin-muted hover:bg-admin-bg",
-            )}
-          >
-            {includeDev ? "Hide dev" : devCount > 0 ? `Show dev (${devCount})` : "Show dev"}
-          </Link>
+          <>
+            <Link
+              href="/admin/price-estimates/accuracy"
+              className="rounded-full border border-admin-border bg-admin-surface px-3 py-1 text-xs font-semibold text-admin-muted transition-colors select-none hover:bg-admin-bg"
+            >
+              Accuracy
+            </Link>
+            <Link
+              href={toggleHref}
+              className={cn(
+                "rounded-full border px-3 py-1 text-xs font-semibold transition-colors select-none",
+                includeDev
+                  ? "border-coquelicot-500/40 bg-coquelicot-500/10 text-coquelicot-600 hover:bg-coquelicot-500/20"
+                  : "border-admin-border bg-admin-surface text-admin-muted hover:bg-admin-bg",
+              )}
+            >
+              {includeDev ? "Hide dev" : devCount > 0 ? `Show dev (${devCount})` : "Show dev"}
+            </Link>
+          </>
         }
       />
 
@@ -53,6 +53,9 @@ export default async function AdminReviewsPage({
         firstName: true,
         lastName: true,
         isAnonymous: true,
+        verified: true,
+        rating: true,
+        aspectRatings: true,
         status: true,
         customerRef: true,
         bookingId: true,
@@ -11,7 +11,12 @@ import { ScheduleFindTimes } from "@/features/admin/components/ScheduleFindTimes
 import { WeekView } from "@/features/admin/components/WeekView";
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
 import { scheduleEventsToken } from "@/features/admin/lib/schedule-token";
-import { mondayOf, type WeekEvent, type WeekViewKind } from "@/features/admin/lib/schedule-types";
+import {
+  mondayOf,
+  type WeekEvent,
+  type WeekEventTechnician,
+  type WeekViewKind,
+} from "@/features/admin/lib/schedule-types";
 import { addDays, resolveWeekStart } from "@/features/admin/lib/week";
 import { lookupPublicHolidaysForKeys } from "@/features/business/lib/pricing-policy.server";
 import { getCachedScheduleEvents } from "@/features/calendar/lib/google-calendar";
@@ -55,8 +60,17 @@ export default async function AdminSchedulePage({
   const { weekStart, day } = await searchParams;
   // Live past-edit lock window so the grid's pre-disable + copy match the
   // server-enforced value (scheduling.pastEditLockHours).
-  const { scheduling } = await getSettings();
+  const { scheduling, availability } = await getSettings();
   const lockHours = scheduling.pastEditLockHours;
+  // Technician colour-coding: a booking follows its assigned technician, any
+  // other event the technician whose calendar it came from.
+  const techById = new Map<string, WeekEventTechnician>();
+  const techByCalendar = new Map<string, WeekEventTechnician>();
+  for (const t of availability.technicians.filter((tech) => tech.enabled)) {
+    const tag = { id: t.id, name: t.name, color: t.color };
+    techById.set(t.id, tag);
+    for (const id of t.calendarIds) techByCalendar.set(id, tag);
+  }
 
   const now = new Date();
   // Prefer ?day=YYYY-MM-DD when set so the buffered fetch centres on the
@@ -142,6 +156,7 @@ export default async function AdminSchedulePage({
             address: true,
             notes: true,
             status: true,
+            technicianId: true,
           },
         })
       : [];
@@ -153,6 +168,9 @@ export default async function AdminSchedulePage({
     const durationMs = new Date(e.end).getTime() - new Date(e.start).getTime();
     const kind = kindForCalendar(e.calendarEmail);
     const matchedBooking = kind === "booking" ? bookingByCalId.get(e.id) : null;
+    const technician = matchedBooking?.technicianId
+      ? techById.get(matchedBooking.technicianId)
+      : techByCalendar.get(e.calendarEmail);
     events.push({
       id: e.id,
       kind,
@@ -179,6 +197,7 @@ export default async function AdminSchedulePage({
             status: matchedBooking.status,
           }
         : undefined,
+      technician,
     });
   }
 
@@ -190,12 +209,14 @@ export default async function AdminSchedulePage({
   // whose event is gone are dropped as orphans. Rounded minutes may lag by one cron
   // cycle, so a leg's length can be slightly off until then, but its POSITION is right.
   const rawEventById = new Map(rawEvents.map((e) => [e.id, e]));
+  const technicianByEventId = new Map(events.map((e) => [e.id, e.technician]));
 
   for (const b of travelBlocks) {
     const srcEvent = rawEventById.get(b.sourceEventId);
     if (!srcEvent) continue;
     const evStartMs = new Date(srcEvent.start).getTime();
     const evEndMs = new Date(srcEvent.end).getTime();
+    const technician = technicianByEventId.get(b.sourceEventId);
 
     if (b.beforeEventId && b.roundedMinutes != null) {
       events.push({
@@ -206,6 +227,7 @@ export default async function AdminSchedulePage({
         endAt: new Date(evStartMs).toISOString(),
         location: b.detectedOrigin ?? null,
         isAllDay: false,
+        technician,
       });
     }
     if (b.afterEventId && b.roundedBackMinutes != null && !b.travelBackSuppressed) {
@@ -217,6 +239,7 @@ export default async function AdminSchedulePage({
         endAt: new Date(evEndMs + b.roundedBackMinutes * 60_000).toISOString(),
         location: b.customTravelBackDestination ?? null,
         isAllDay: false,
+        technician,
       });
     }
   }
@@ -2,11 +2,16 @@
 /**
  * @description Admin settings panel. Loads the resolved settings server-side and
  * hands each editable group, paired with its {@link DEFAULT_SETTINGS} fallback,
- * to the tabbed {@link SettingsView} client component.
+ * to the tabbed {@link SettingsView} client component, with the bookings feed
+ * link card below it.
  */
+import { BookingFeedPanel } from "@/features/admin/components/settings/BookingFeedPanel";
 import { SettingsView } from "@/features/admin/components/settings/SettingsView";
 import { PageHeader } from "@/features/admin/components/ui/PageHeader";
+import { bookingFeedUrls, getBookingFeedToken } from "@/features/booking/lib/booking-feed.server";
 import { requireAdminAuth } from "@/shared/lib/auth";
+import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
 import { DEFAULT_SETTINGS } from "@/shared/lib/settings/defaults";
 import { getSettings } from "@/shared/lib/settings/get-settings";
 import type { Metadata } from "next";
@@ -19,6 +24,9 @@ export const metadata: Metadata = {
   robots: { index: false, follow: false },
 };
 
+/** How many recent bookings/invoices the template preview picker offers. */
+const PREVIEW_RECORD_LIMIT = 20;
+
 /**
  * Admin settings panel - loads the resolved settings server-side and hands the
  * editable groups to the tabbed client view. Only the pricing tab is wired so
@@ -27,7 +35,20 @@ export const metadata: Metadata = {
  */
 export default async function SettingsPage(): Promise<React.ReactElement> {
   await requireAdminAuth();
-  const settings = await getSettings();
+  const [settings, bookings, invoices, feedToken] = await Promise.all([
+    getSettings(),
+    prisma.booking.findMany({
+      orderBy: { startAt: "desc" },
+      take: PREVIEW_RECORD_LIMIT,
+      select: { id: true, name: true, startAt: true },
+    }),
+    prisma.invoice.findMany({
+      orderBy: { createdAt: "desc" },
+      take: PREVIEW_RECORD_LIMIT,
+      select: { id: true, number: true, clientName: true, issueDate: true },
+    }),
+    getBookingFeedToken(),
+  ]);
 
   return (
     <>
@@ -52,6 +73,26 @@ export default async function SettingsPage(): Promise<React.ReactElement> {
         taxDefaults={DEFAULT_SETTINGS.tax}
         scheduling={settings.scheduling}
         schedulingDefaults={DEFAULT_SETTINGS.scheduling}
+        templates={settings.templates}
+        templatesDefaults={DEFAULT_SETTINGS.templates}
+        previewBookings={bookings.map((b) => ({
+          id: b.id,
+          label: `${b.name} - ${formatDateTimeShort(b.startAt)}`,
+        }))}
+        previewInvoices={invoices.map((i) => ({
+          id: i.id,
+          label: `${i.number} - ${i.clientName} (${formatDateShort(i.issueDate)})`,
+        }))}
+      />
+      <BookingFeedPanel
+        initial={
+          feedToken
+            ? {
+                urls: bookingFeedUrls(feedToken.token),
+                createdAt: feedToken.createdAt.toISOString(),
+              }
+            : null
+        }
       />
     </>
   );
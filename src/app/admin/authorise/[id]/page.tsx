@@ -0,0 +1,110 @@
+// src/app/admin/authorise/[id]/page.tsx
+/**
+ * @description Tablet page for the customer's written OK at the start of a
+ * visit. Deliberately outside the admin shell, like the login page: the
+ * technician opens it from the booking and hands the tablet over, so no
+ * sidebar full of other customers' jobs is one tap away. Scope comes from the
+ * booking's quoted tasks and the terms from the pricing-policy copy; the
+ * signing itself is {@link JobAuthorisationForm}.
+ */
+
+import { JobAuthorisationForm } from "@/features/booking/components/admin/JobAuthorisationForm";
+import { authorisationTerms, defaultScope } from "@/features/booking/lib/job-authorisation";
+import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { requireAdminAuth } from "@/shared/lib/auth";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { formatDateTimeLong } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Job authorisation",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Job-authorisation signing page.
+ * @param props - Page props.
+ * @param props.params - Route params containing the booking id.
+ * @returns Signing page element.
+ */
+export default async function JobAuthorisationPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}): Promise<React.ReactElement> {
+  const { id } = await params;
+  await requireAdminAuth(`/admin/authorise/${id}`);
+
+  const booking = await prisma.booking
+    .findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        address: true,
+        unit: true,
+        startAt: true,
+        status: true,
+        quotedTasksAtBooking: true,
+        quotedDescriptionAtBooking: true,
+      },
+    })
+    .catch(() => null);
+  if (!booking) notFound();
+
+  const [policy, identity] = await Promise.all([getPolicy(), getIdentity()]);
+  const signable = booking.status === "confirmed" || booking.status === "completed";
+  const address = booking.address
+    ? [booking.unit, booking.address].filter(Boolean).join(", ")
+    : null;
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-4 sm:p-8">
+      <div className="mx-auto w-full max-w-2xl rounded-2xl border border-slate-200 bg-white p-6 shadow-sm sm:p-8">
+        <p className="text-xs font-semibold text-admin-muted uppercase">
+          {identity.company || identity.name}
+        </p>
+        <h1 className="mt-1 text-2xl font-extrabold text-russian-violet">Job authorisation</h1>
+        <dl className="mt-3 space-y-0.5 text-sm text-admin-text">
+          <div>
+            <dt className="inline text-admin-muted">Customer: </dt>
+            <dd className="inline font-medium">{booking.name}</dd>
+          </div>
+          {address && (
+            <div>
+              <dt className="inline text-admin-muted">Address: </dt>
+              <dd className="inline font-medium">{address}</dd>
+            </div>
+          )}
+          <div>
+            <dt className="inline text-admin-muted">Visit: </dt>
+            <dd className="inline font-medium">{formatDateTimeLong(booking.startAt)}</dd>
+          </div>
+        </dl>
+
+        <div className="mt-6 border-t border-slate-200 pt-6">
+          {signable ? (
+            <JobAuthorisationForm
+              bookingId={booking.id}
+              defaultScope={defaultScope(booking)}
+              terms={authorisationTerms(policy.WORKMANSHIP_WINDOW_DAYS)}
+            />
+          ) : (
+            <p className="text-sm text-admin-muted">
+              This booking is {booking.status}, so there is no visit to authorise.{" "}
+              <Link href={`/admin/bookings/${booking.id}`} className="text-blue-500">
+                Back to booking
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,7 @@
  */
 
 import {
-  createBlockedDayEvent,
-  deleteBookingEvent,
-  listBlockedDayRanges,
-  patchBlockedDayRange,
+  blockDayMergingAdjacent,
   SCHEDULE_CALENDAR_TAG,
 } from "@/features/calendar/lib/google-calendar";
 import { errorResponse } from "@/shared/lib/api-response";
@@ -17,7 +14,7 @@ import { isAdminRequest } from "@/shared/lib/auth";
 import { isPastEditWindow, nzDayEndMs } from "@/shared/lib/edit-window";
 import { prisma } from "@/shared/lib/prisma";
 import { getSettings } from "@/shared/lib/settings/get-settings";
-import { addDaysToDateKey, getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
+import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
 import { revalidateTag } from "next/cache";
 import { type NextRequest, NextResponse } from "next/server";
 
@@ -74,60 +71,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   });
   if (conflicting) {
     return NextResponse.json(
-      { ok: false, error: "Day already has a booking - move or cancel it first." },
+      {
+        ok: false,
+        error: "Day already has a booking - move or cancel it first, or use Clear day.",
+      },
       { status: 409 },
     );
   }
 
   const summary = body.summary?.trim() || "Busy";
-  const nextKey = addDaysToDateKey(dateKey, 1);
 
   try {
-    // Merge with any contiguous block so adjacent days collapse into a single
-    // span instead of piling up separate one-day "Busy" events. `before` ends
-    // exactly at D (its last covered day is D-1); `after` starts at D+1. Best
-    // effort: a failed adjacency lookup falls through to a standalone create.
-    let before: Awaited<ReturnType<typeof listBlockedDayRanges>>[number] | null = null;
-    let after: Awaited<ReturnType<typeof listBlockedDayRanges>>[number] | null = null;
-    try {
-      const nearby = await listBlockedDayRanges(
-        addDaysToDateKey(dateKey, -1),
-        addDaysToDateKey(dateKey, 2),
-      );
-      before = nearby.find((b) => b.endDateKey === dateKey) ?? null;
-      after = nearby.find((b) => b.startDateKey === nextKey) ?? null;
-    } catch (err) {
-      console.warn("[admin/blocked-days] Adjacency lookup failed; creating standalone block:", err);
-    }
-
-    let eventId: string;
-    if (before && after) {
-      // Bridge the two blocks: stretch `before` through `after`'s end, drop `after`.
-      await patchBlockedDayRange({
-        eventId: before.eventId,
-        startDateKey: before.startDateKey,
-        endDateKey: after.endDateKey,
-      });
-      await deleteBookingEvent({ eventId: after.eventId });
-      eventId = before.eventId;
-    } else if (before) {
-      await patchBlockedDayRange({
-        eventId: before.eventId,
-        startDateKey: before.startDateKey,
-        endDateKey: nextKey,
-      });
-      eventId = before.eventId;
-    } else if (after) {
-      await patchBlockedDayRange({
-        eventId: after.eventId,
-        startDateKey: dateKey,
-        endDateKey: after.endDateKey,
-      });
-      eventId = after.eventId;
-    } else {
-      ({ eventId } = await createBlockedDayEvent({ dateKey, summary }));
-    }
-
+    const { eventId } = await blockDayMergingAdjacent({ dateKey, summary });
     revalidateTag(SCHEDULE_CALENDAR_TAG, {});
     return NextResponse.json({ ok: true, eventId });
   } catch (err) {
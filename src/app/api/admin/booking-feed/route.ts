@@ -0,0 +1,60 @@
+// src/app/api/admin/booking-feed/route.ts
+/**
+ * @description Admin endpoint for the private bookings feed token (see
+ * booking-feed.server.ts). POST issues a new token - which also revokes the old
+ * one, so every existing subscriber has to be sent the new URL - and DELETE
+ * turns the feed off.
+ */
+
+import {
+  bookingFeedUrls,
+  revokeBookingFeedToken,
+  rotateBookingFeedToken,
+} from "@/features/booking/lib/booking-feed.server";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/admin/booking-feed
+ * Rotates the feed token.
+ * @param request - Incoming admin request.
+ * @returns JSON `{ ok, urls, createdAt }` for the new token, or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    const { token, createdAt } = await rotateBookingFeedToken();
+    return NextResponse.json({
+      ok: true,
+      urls: bookingFeedUrls(token),
+      createdAt: createdAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("[admin/booking-feed] Rotate failed:", error);
+    return errorResponse("Failed to issue a new feed link.", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/booking-feed
+ * Revokes the feed token; the feed URL 404s from then on.
+ * @param request - Incoming admin request.
+ * @returns JSON `{ ok }`, or an error.
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    await revokeBookingFeedToken();
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[admin/booking-feed] Revoke failed:", error);
+    return errorResponse("Failed to turn off the feed.", 500);
+  }
+}
@@ -0,0 +1,137 @@
+// src/app/api/admin/booking-series/route.ts
+/**
+ * @description Admin endpoint to start a recurring booking series from the
+ * manual booking modal. The first visit's date and time set the pattern; the
+ * series is tied to the customer's contact (created if new) and its visits up to
+ * the booking horizon are materialised straight away.
+ */
+
+import { BOOKING_FIELD_LIMITS, validateEmail } from "@/features/booking/lib/booking";
+import {
+  nzStartMinute,
+  SERIES_FREQUENCIES,
+  validateSeriesAnchor,
+  type SeriesFrequency,
+} from "@/features/booking/lib/booking-series";
+import { materialiseSeries } from "@/features/booking/lib/booking-series.server";
+import { SCHEDULE_CALENDAR_TAG } from "@/features/calendar/lib/google-calendar";
+import { findOrCreateContactByEmail } from "@/features/contacts/lib/find-or-create";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { validatePhone } from "@/shared/lib/normalise-phone";
+import { prisma } from "@/shared/lib/prisma";
+import { nzDateKey } from "@/shared/lib/timezone-utils";
+import { revalidateTag } from "next/cache";
+import { NextResponse, type NextRequest } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+interface SeriesPayload {
+  name?: string;
+  email?: string;
+  phone?: string | null;
+  address?: string | null;
+  notes?: string;
+  startAt?: string;
+  durationMinutes?: number;
+  frequency?: string;
+}
+
+/**
+ * POST /api/admin/booking-series
+ * Creates a series and materialises its upcoming visits.
+ * @param request - Incoming admin request.
+ * @returns JSON with the series id, visits created and dates skipped, or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => null)) as SeriesPayload | null;
+  if (!body) {
+    return errorResponse("Invalid request body.", 400);
+  }
+  const name = body.name?.trim() ?? "";
+  const email = body.email?.trim().toLowerCase() ?? "";
+  const phoneRaw = body.phone?.trim() || null;
+  const address = body.address?.trim() || null;
+  const notes = body.notes?.trim() ?? "";
+  const durationMinutes = body.durationMinutes;
+  const frequency = body.frequency as SeriesFrequency;
+
+  if (!name || name.length > BOOKING_FIELD_LIMITS.name) {
+    return errorResponse("Customer name is required.", 400);
+  }
+  const emailCheck = validateEmail(email);
+  if (emailCheck !== "ok") {
+    return errorResponse(
+      emailCheck === "too-long" ? "Email is too long." : "Valid email is required.",
+      400,
+    );
+  }
+  if (notes.length > BOOKING_FIELD_LIMITS.notes) {
+    return errorResponse("Notes too long.", 400);
+  }
+  if (address && address.length > BOOKING_FIELD_LIMITS.address) {
+    return errorResponse("Address too long.", 400);
+  }
+  if (!body.startAt || isNaN(Date.parse(body.startAt))) {
+    return errorResponse("Invalid start time.", 400);
+  }
+  if (durationMinutes !== 60 && durationMinutes !== 120) {
+    return errorResponse("Duration must be 60 or 120 minutes.", 400);
+  }
+  if (!SERIES_FREQUENCIES.includes(frequency)) {
+    return errorResponse("Choose weekly, fortnightly or monthly.", 400);
+  }
+
+  let phoneE164: string | null = null;
+  if (phoneRaw) {
+    const phoneCheck = validatePhone(phoneRaw);
+    if (phoneCheck.result !== "ok") {
+      return errorResponse("Invalid phone number.", 400);
+    }
+    phoneE164 = phoneCheck.e164;
+  }
+
+  const startAt = new Date(body.startAt);
+  if (startAt.getTime() <= Date.now()) {
+    return errorResponse("The first visit must be in the future.", 400);
+  }
+  const anchorDateKey = nzDateKey(startAt);
+  const anchorError = validateSeriesAnchor(frequency, anchorDateKey);
+  if (anchorError) {
+    return errorResponse(anchorError, 400);
+  }
+
+  try {
+    const { contact } = await findOrCreateContactByEmail(email, {
+      name,
+      phone: phoneE164,
+      address,
+    });
+    const series = await prisma.bookingSeries.create({
+      data: {
+        contactId: contact.id,
+        name,
+        email,
+        phone: phoneE164,
+        address,
+        notes,
+        frequency,
+        anchorDateKey,
+        startMinute: nzStartMinute(startAt),
+        durationMinutes,
+      },
+    });
+    const { created, skipped } = await materialiseSeries(series.id);
+
+    revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+    return NextResponse.json({ ok: true, seriesId: series.id, created, skipped });
+  } catch (err) {
+    console.error("[admin/booking-series] Create failed:", err);
+    return errorResponse("Failed to create the series.", 500);
+  }
+}
@@ -0,0 +1,55 @@
+// src/app/api/admin/bookings/[id]/authorisations/[authorisationId]/route.ts
+/**
+ * @description Admin endpoint serving one signed job-authorisation PDF. The
+ * booking and invoice pages both link here rather than at storage, so the
+ * signed documents stay behind admin auth.
+ */
+
+import { parseObjectId } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { getStorage } from "@/shared/lib/storage/storage";
+import { NextRequest } from "next/server";
+
+/**
+ * GET /api/admin/bookings/[id]/authorisations/[authorisationId]
+ * @param request - Next.js request, admin-auth gated.
+ * @param ctx - Route ctx with the booking and authorisation ids.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns The PDF bytes (inline) or an error.
+ */
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string; authorisationId: string }> },
+): Promise<Response> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id, authorisationId } = await ctx.params;
+  if (!parseObjectId(id)) {
+    return errorResponse("Authorisation not found", 404);
+  }
+  const booking = await prisma.booking.findUnique({
+    where: { id },
+    select: { authorisations: true },
+  });
+  const authorisation = booking?.authorisations.find((a) => a.id === authorisationId);
+  if (!authorisation) {
+    return errorResponse("Authorisation not found", 404);
+  }
+
+  const bytes = await getStorage().get(authorisation.key);
+  if (!bytes) {
+    return errorResponse("Authorisation not found", 404);
+  }
+  return new Response(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="authorisation-${authorisation.id}.pdf"`,
+      // Signed once, never changed - but it carries a signature, so never shared caches.
+      "Cache-Control": "private, max-age=86400",
+    },
+  });
+}
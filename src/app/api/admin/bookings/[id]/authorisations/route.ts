@@ -0,0 +1,52 @@
+// src/app/api/admin/bookings/[id]/authorisations/route.ts
+/**
+ * @description Admin API behind the tablet signing page: records the
+ * customer's signed job authorisation on a booking (PDF stored, archived to
+ * Drive, row appended to the booking).
+ */
+
+import { signJobAuthorisation } from "@/features/booking/lib/job-authorisation.server";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * POST /api/admin/bookings/[id]/authorisations
+ * Body: `{ scope: string[], signedName: string, signature: "data:image/png;base64,..." }`.
+ * @param request - Incoming request.
+ * @param params - Route params.
+ * @param params.params - Destructured route params containing booking id.
+ * @returns JSON with the stored authorisation, or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const scope = body?.scope;
+  if (
+    !body ||
+    !Array.isArray(scope) ||
+    !scope.every((l) => typeof l === "string") ||
+    typeof body.signedName !== "string" ||
+    typeof body.signature !== "string"
+  ) {
+    return errorResponse("Invalid request body", 400);
+  }
+
+  const result = await signJobAuthorisation(id, {
+    scope,
+    signedName: body.signedName,
+    signature: body.signature,
+  });
+  if (!result.ok) return errorResponse(result.error, result.status);
+  return NextResponse.json({ ok: true, authorisation: result.authorisation });
+}
@@ -0,0 +1,51 @@
+// src/app/api/admin/bookings/[id]/photos/[photoId]/route.ts
+/**
+ * @description Admin endpoint serving one photo a customer attached to a
+ * booking. Photos stay behind admin auth; the booking page and the owner
+ * notification both point here (via the page) rather than at storage.
+ */
+
+import { parseObjectId } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { getStorage } from "@/shared/lib/storage/storage";
+import { NextRequest } from "next/server";
+
+/**
+ * GET /api/admin/bookings/[id]/photos/[photoId]
+ * @param request - Next.js request, admin-auth gated.
+ * @param ctx - Route ctx with the booking and photo ids.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns The JPEG bytes or an error.
+ */
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string; photoId: string }> },
+): Promise<Response> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id, photoId } = await ctx.params;
+  if (!parseObjectId(id)) {
+    return errorResponse("Photo not found", 404);
+  }
+  const booking = await prisma.booking.findUnique({ where: { id }, select: { photos: true } });
+  const photo = booking?.photos.find((p) => p.id === photoId);
+  if (!photo) {
+    return errorResponse("Photo not found", 404);
+  }
+
+  const bytes = await getStorage().get(photo.key);
+  if (!bytes) {
+    return errorResponse("Photo not found", 404);
+  }
+  return new Response(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": "image/jpeg",
+      // Immutable per id, but never shared caches: customer photos are private.
+      "Cache-Control": "private, max-age=86400",
+    },
+  });
+}
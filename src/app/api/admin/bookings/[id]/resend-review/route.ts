@@ -45,9 +45,9 @@ export async function POST(
     return errorResponse("Booking has no email to send a review request to.", 400);
   }
 
-  // sendCustomerReviewRequest returns false on a Resend failure rather than
-  // throwing; only stamp reviewSentAt when the send actually went out so a failed
-  // send stays retryable.
+  // sendCustomerReviewRequest returns false when the email couldn't be queued
+  // rather than throwing; only stamp reviewSentAt once it is, so a failed send
+  // stays retryable.
   const sent = await sendCustomerReviewRequest(booking);
   if (!sent) {
     return errorResponse("Failed to send review request.", 502);
@@ -3,6 +3,10 @@
  * @description Admin API for editing and cancelling bookings by ID.
  */
 
+import { activeSlotKeyFor } from "@/features/booking/lib/booking";
+import { deleteBookingPhotos } from "@/features/booking/lib/booking-photos.server";
+import { settleDayClearancesForBooking } from "@/features/booking/lib/day-clearance.server";
+import { deleteJobAuthorisationFiles } from "@/features/booking/lib/job-authorisation.server";
 import { createDraftCancellationInvoice } from "@/features/business/lib/cancellation-invoice";
 import { assessCancellation } from "@/features/business/lib/pricing-policy";
 import { getPolicy } from "@/features/business/lib/pricing-policy.server";
@@ -34,6 +38,12 @@ interface PatchPayload {
   cancelMode?: "operator" | "on-behalf";
   /** No-show: always charges callout + travel via the draft-invoice flow. */
   markNoShow?: boolean;
+  /**
+   * Reassigns the booking to a technician (null = unassigned). An operator
+   * override: only a same-start clash with the technician's own bookings is
+   * refused, not their calendars or hours.
+   */
+  technicianId?: string | null;
 }
 
 /**
@@ -69,7 +79,7 @@ export async function PATCH(
   // booking that ended more than the configured window ago. Metadata-only edits
   // (name/email/phone/notes/address corrections) are still allowed.
   const isStateChange = body.status !== undefined || body.markNoShow === true;
-  const { scheduling } = await getSettings();
+  const { scheduling, availability } = await getSettings();
   if (
     isStateChange &&
     isPastEditWindow(booking.endAt.getTime(), Date.now(), scheduling.pastEditLockHours)
@@ -102,6 +112,28 @@ export async function PATCH(
     }
   }
 
+  if (body.technicianId !== undefined && body.technicianId !== booking.technicianId) {
+    const technician = body.technicianId
+      ? availability.technicians.find((t) => t.enabled && t.id === body.technicianId)
+      : null;
+    if (body.technicianId && !technician) {
+      return errorResponse("Unknown technician.", 400);
+    }
+    data.technicianId = technician?.id ?? null;
+    // Active bookings hold their slot per technician; released ones keep their key.
+    if (booking.status === "held" || booking.status === "confirmed") {
+      const slotKey = activeSlotKeyFor(booking.startAt, technician?.id);
+      const clash = await prisma.booking.findFirst({
+        where: { activeSlotKey: slotKey, id: { not: id } },
+        select: { id: true },
+      });
+      if (clash) {
+        return errorResponse("That technician already has a booking at this time.", 409);
+      }
+      data.activeSlotKey = slotKey;
+    }
+  }
+
   if (body.markNoShow && booking.status !== "cancelled") {
     // No-show ~ a customer cancel at startAt: both windows are inside.
     if (booking.calendarEventId) {
@@ -173,6 +205,11 @@ export async function PATCH(
     }).catch((err) => console.error("[admin/bookings] Failed to draft cancellation invoice:", err));
   }
 
+  // A booking leaving the active set may be the last one on a day being cleared.
+  if (updated.status === "cancelled" && booking.status !== "cancelled") {
+    await settleDayClearancesForBooking(id);
+  }
+
   // When transitioning to "completed", send the review request email if one
   // has not already gone out. updateMany with the null-or-missing guard is
   // atomic, so it cannot race with the /api/cron/send-review-emails cron - if
@@ -197,7 +234,7 @@ export async function PATCH(
     if (claim.count > 0) {
       // Claim won - sendCustomerReviewRequest never throws (catches its own
       // errors and logs), so the PATCH response stays successful even if
-      // Resend has a hiccup. Trade-off: a single failed send won't auto-retry.
+      // Resend has a hiccup; the outbox retries a failed delivery.
       await sendCustomerReviewRequest({
         id,
         name: booking.name,
@@ -248,7 +285,7 @@ export async function PATCH(
 
 /**
  * DELETE /api/admin/bookings/[id]
- * Permanently deletes a booking and its calendar event.
+ * Permanently deletes a booking, its calendar event and its attached photos.
  * Requires X-Admin-Secret header.
  * @param request - Incoming request.
  * @param params - Route params.
@@ -284,6 +321,9 @@ export async function DELETE(
   // its contact via contactId/customerRef).
   await prisma.review.updateMany({ where: { bookingId: id }, data: { bookingId: null } });
   await prisma.booking.delete({ where: { id } });
+  await deleteBookingPhotos(booking.photos);
+  await deleteJobAuthorisationFiles(booking.authorisations);
+  await settleDayClearancesForBooking(id);
 
   revalidateTag(SCHEDULE_CALENDAR_TAG, {});
   return NextResponse.json({ ok: true });
@@ -0,0 +1,130 @@
+// src/app/api/admin/bookings/[id]/series/route.ts
+/**
+ * @description Admin edits to a visit that belongs to a recurring series, with
+ * calendar-style scope: PATCH moves "this" visit or "this and following" to a new
+ * time and length; DELETE ends the series from this visit on. Cancelling a
+ * single visit goes through the normal booking cancel.
+ */
+
+import {
+  changeFollowingVisits,
+  moveVisit,
+  type SeriesEditResult,
+} from "@/features/booking/lib/booking-series.server";
+import { parseObjectId } from "@/features/business/lib/validation";
+import { SCHEDULE_CALENDAR_TAG } from "@/features/calendar/lib/google-calendar";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { revalidateTag } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+interface SeriesEditPayload {
+  scope?: "this" | "following";
+  /** New NZ start time, "HH:MM" (24-hour). */
+  time?: string;
+  durationMinutes?: number;
+}
+
+/**
+ * Maps a series edit outcome to the response.
+ * @param result - Outcome from the series helpers.
+ * @returns JSON with the counts, or a 409 carrying the reason.
+ */
+function editResponse(result: SeriesEditResult): NextResponse {
+  if (!result.ok) {
+    return errorResponse(result.error, 409);
+  }
+  revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+  return NextResponse.json(result);
+}
+
+/**
+ * PATCH /api/admin/bookings/[id]/series
+ * Moves this visit, or this and every following visit, to a new time and length.
+ * @param request - Incoming admin request.
+ * @param root0 - Route params.
+ * @param root0.params - Route params with the booking id.
+ * @returns JSON with visits created, skipped and cancelled, or an error.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const id = parseObjectId((await params).id);
+  if (!id) {
+    return errorResponse("Invalid booking id.", 400);
+  }
+  const body = (await request.json().catch(() => null)) as SeriesEditPayload | null;
+  if (!body || (body.scope !== "this" && body.scope !== "following")) {
+    return errorResponse("Choose this visit or this and following.", 400);
+  }
+  const time = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(body.time ?? "");
+  if (!time) {
+    return errorResponse("Invalid start time.", 400);
+  }
+  if (body.durationMinutes !== 60 && body.durationMinutes !== 120) {
+    return errorResponse("Duration must be 60 or 120 minutes.", 400);
+  }
+
+  const booking = await prisma.booking.findUnique({ where: { id } });
+  if (!booking) {
+    return errorResponse("Booking not found.", 404);
+  }
+
+  const change = {
+    startMinute: Number(time[1]) * 60 + Number(time[2]),
+    durationMinutes: body.durationMinutes,
+  };
+  try {
+    return editResponse(
+      body.scope === "this"
+        ? await moveVisit(booking, change)
+        : await changeFollowingVisits(booking, change),
+    );
+  } catch (err) {
+    console.error("[admin/bookings/series] Edit failed:", err);
+    return errorResponse("Failed to update the series.", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/bookings/[id]/series
+ * Ends the series: cancels this visit and every later one, and stops new ones
+ * being created.
+ * @param request - Incoming admin request.
+ * @param root0 - Route params.
+ * @param root0.params - Route params with the booking id.
+ * @returns JSON with the number of visits cancelled, or an error.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const id = parseObjectId((await params).id);
+  if (!id) {
+    return errorResponse("Invalid booking id.", 400);
+  }
+  const booking = await prisma.booking.findUnique({ where: { id } });
+  if (!booking) {
+    return errorResponse("Booking not found.", 404);
+  }
+
+  try {
+    return editResponse(await changeFollowingVisits(booking, null));
+  } catch (err) {
+    console.error("[admin/bookings/series] End series failed:", err);
+    return errorResponse("Failed to end the series.", 500);
+  }
+}
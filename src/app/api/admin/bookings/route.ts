@@ -9,13 +9,14 @@ import {
   BOOKING_CONFIG,
   BOOKING_FIELD_LIMITS,
   buildAppointmentDescription,
+  calendarSequence,
   combineUnitAndAddress,
   validateEmail,
 } from "@/features/booking/lib/booking";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
 import {
   createBookingEvent,
   deleteBookingEvent,
-  fetchAllCalendarEvents,
   SCHEDULE_CALENDAR_TAG,
 } from "@/features/calendar/lib/google-calendar";
 import { findOrCreateContactByEmail } from "@/features/contacts/lib/find-or-create";
@@ -139,7 +140,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const rangeStart = new Date(startAt.getTime() - 60 * 60 * 1000);
     const rangeEnd = new Date(endAt.getTime() + 60 * 60 * 1000);
-    const calendarEvents = await fetchAllCalendarEvents(rangeStart, rangeEnd);
+    const calendarEvents = await fetchAllSourceEvents(rangeStart, rangeEnd);
     const overlap = calendarEvents.find((e) => {
       const eStart = new Date(e.start).getTime();
       const eEnd = new Date(e.end).getTime();
@@ -256,7 +257,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         promoTitleAtBooking: booking.promoTitleAtBooking,
         address: combineUnitAndAddress(booking.unit ?? "", booking.address ?? ""),
         meetingType: booking.meetingType,
-        rescheduleCount: booking.rescheduleCount,
+        calendarSequence: calendarSequence(booking),
       });
     }
 
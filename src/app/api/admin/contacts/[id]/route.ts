@@ -28,6 +28,7 @@ interface ContactPatchBody {
   retainerTier?: string | null;
   retainerPrice?: number | null;
   retainerHours?: number | null;
+  retainerOverageRate?: number | null;
   /** ISO date string (yyyy-mm-dd) or null. */
   retainerSince?: string | null;
   retainerNotes?: string | null;
@@ -110,7 +111,7 @@ export async function PATCH(
 
   // Numeric retainer fields must be finite (NaN from an empty form field must
   // not persist); dates must parse.
-  for (const key of ["retainerPrice", "retainerHours"] as const) {
+  for (const key of ["retainerPrice", "retainerHours", "retainerOverageRate"] as const) {
     const val = body[key];
     if (val !== undefined && val !== null && (typeof val !== "number" || !Number.isFinite(val))) {
       return errorResponse(`Invalid ${key}.`, 400);
@@ -144,6 +145,9 @@ export async function PATCH(
   if (body.retainerTier !== undefined) updateData.retainerTier = body.retainerTier?.trim() || null;
   if (body.retainerPrice !== undefined) updateData.retainerPrice = body.retainerPrice;
   if (body.retainerHours !== undefined) updateData.retainerHours = body.retainerHours;
+  if (body.retainerOverageRate !== undefined) {
+    updateData.retainerOverageRate = body.retainerOverageRate;
+  }
   if (body.retainerSince !== undefined) {
     updateData.retainerSince = body.retainerSince ? new Date(body.retainerSince) : null;
   }
@@ -164,6 +168,7 @@ export async function PATCH(
       retainerTier: true,
       retainerPrice: true,
       retainerHours: true,
+      retainerOverageRate: true,
       retainerSince: true,
       retainerNotes: true,
       siteNotes: true,
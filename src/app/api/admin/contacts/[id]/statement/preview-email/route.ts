@@ -0,0 +1,46 @@
+// src/app/api/admin/contacts/[id]/statement/preview-email/route.ts
+/**
+ * @description Admin endpoint that renders the statement-of-account email for
+ * review without sending it. POST builds the subject + HTML body for the
+ * requested range, applying the optional greetingName / customBody overrides.
+ */
+
+import { buildStatement, parseStatementEmailRequest } from "@/features/business/lib/statement";
+import { buildStatementEmail } from "@/features/reviews/lib/email";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/admin/contacts/[id]/statement/preview-email
+ * Body (optional): `{ from?, to?, greetingName?, customBody? }`.
+ * @param request - Next.js request (admin-auth gated).
+ * @param ctx - Route ctx with the contact id.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns JSON with `{ ok, subject, html, to }` or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await ctx.params;
+  const parsed = await parseStatementEmailRequest(request);
+  if (typeof parsed === "string") {
+    return errorResponse(parsed, 400);
+  }
+  const statement = await buildStatement(id, parsed.range);
+  if (!statement) {
+    return errorResponse("Contact not found", 404);
+  }
+
+  const { subject, html } = await buildStatementEmail({
+    statement,
+    greetingName: parsed.greetingName,
+    customBody: parsed.customBody,
+  });
+  return NextResponse.json({ ok: true, subject, html, to: statement.contact.email });
+}
@@ -0,0 +1,51 @@
+// src/app/api/admin/contacts/[id]/statement/route.ts
+/**
+ * @description Admin endpoint that downloads a contact's statement of account
+ * as a PDF. GET takes an optional `from`/`to` range (YYYY-MM-DD) and renders
+ * the same bytes the client is emailed.
+ */
+
+import { buildStatement, parseStatementRange } from "@/features/business/lib/statement";
+import { generateStatementPdf } from "@/features/business/lib/statement-pdf";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/admin/contacts/[id]/statement?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * @param request - Next.js request, admin-auth gated.
+ * @param ctx - Route ctx with the contact id.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns The PDF as application/pdf or an error.
+ */
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await ctx.params;
+  const { searchParams } = request.nextUrl;
+  const range = parseStatementRange(searchParams.get("from"), searchParams.get("to"));
+  if (typeof range === "string") {
+    return errorResponse(range, 400);
+  }
+  const statement = await buildStatement(id, range);
+  if (!statement) {
+    return errorResponse("Contact not found", 404);
+  }
+
+  const pdfBytes = await generateStatementPdf(statement);
+  return new Response(new Uint8Array(pdfBytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="Statement ${statement.toKey}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
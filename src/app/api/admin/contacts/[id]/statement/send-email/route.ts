@@ -0,0 +1,63 @@
+// src/app/api/admin/contacts/[id]/statement/send-email/route.ts
+/**
+ * @description Admin endpoint that emails a contact their statement of account
+ * with the PDF attached. Re-sending is allowed; each success re-stamps
+ * statementSentAt, which also holds off the monthly cron for this month.
+ */
+
+import {
+  buildStatement,
+  emailStatement,
+  parseStatementEmailRequest,
+} from "@/features/business/lib/statement";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * POST /api/admin/contacts/[id]/statement/send-email
+ * Body (optional): `{ from?, to?, greetingName?, customBody? }`.
+ * @param request - Next.js request (admin-auth gated).
+ * @param ctx - Route ctx with the contact id.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await ctx.params;
+  const parsed = await parseStatementEmailRequest(request);
+  if (typeof parsed === "string") {
+    return errorResponse(parsed, 400);
+  }
+  const statement = await buildStatement(id, parsed.range);
+  if (!statement) {
+    return errorResponse("Contact not found", 404);
+  }
+  if (!statement.contact.email) {
+    return errorResponse("Contact has no email", 400);
+  }
+
+  let ok: boolean;
+  try {
+    ok = await emailStatement(statement, {
+      greetingName: parsed.greetingName,
+      customBody: parsed.customBody,
+    });
+  } catch (err) {
+    console.error(`[statement] PDF generation failed for contact ${id}:`, err);
+    return errorResponse("PDF generation failed", 500);
+  }
+  if (!ok) {
+    return errorResponse("Email send failed", 502);
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -70,6 +70,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     retainerTier?: string;
     retainerPrice?: number;
     retainerHours?: number;
+    retainerOverageRate?: number;
     retainerSince?: Date;
     retainerNotes?: string;
     siteNotes?: string;
@@ -84,11 +85,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   if (!primary.siteNotes && secondary.siteNotes) data.siteNotes = secondary.siteNotes;
   // Retainer arrangement survives a merge: when only the secondary is the
   // retainer client, its whole arrangement moves over as a unit (gated on the
-  // primary's tier so a partial mix of two arrangements can't result).
-  if (!primary.retainerTier && secondary.retainerTier) {
+  // primary's tier so a partial mix of two arrangements can't result). Its
+  // billed months go with it, so the next bill picks up the right carry-in.
+  const movesRetainer = !primary.retainerTier && !!secondary.retainerTier;
+  if (movesRetainer && secondary.retainerTier) {
     data.retainerTier = secondary.retainerTier;
     if (secondary.retainerPrice !== null) data.retainerPrice = secondary.retainerPrice;
     if (secondary.retainerHours !== null) data.retainerHours = secondary.retainerHours;
+    if (secondary.retainerOverageRate !== null) {
+      data.retainerOverageRate = secondary.retainerOverageRate;
+    }
     if (secondary.retainerSince !== null) data.retainerSince = secondary.retainerSince;
     if (secondary.retainerNotes !== null) data.retainerNotes = secondary.retainerNotes;
   }
@@ -135,6 +141,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         where: { contactId: secondaryId },
         data: { contactId: primaryId },
       }),
+      ...(movesRetainer
+        ? [
+            prisma.retainerPeriod.updateMany({
+              where: { contactId: secondaryId },
+              data: { contactId: primaryId },
+            }),
+          ]
+        : []),
       prisma.contact.update({ where: { id: primaryId }, data }),
       prisma.contact.update({ where: { id: secondaryId }, data: { deletedAt: new Date() } }),
     ]);
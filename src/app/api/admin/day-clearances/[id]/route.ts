@@ -0,0 +1,47 @@
+// src/app/api/admin/day-clearances/[id]/route.ts
+/**
+ * @description Admin endpoint to abandon a pending day clearance. Reopens the
+ * day to new bookings; customers who already moved stay moved, and the links in
+ * their emails fall back to the normal manage-booking page.
+ */
+
+import { parseObjectId } from "@/features/business/lib/validation";
+import { SCHEDULE_CALENDAR_TAG } from "@/features/calendar/lib/google-calendar";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { revalidateTag } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * DELETE /api/admin/day-clearances/[id]
+ * Marks a pending clearance abandoned.
+ * @param request - Incoming admin request.
+ * @param root0 - Route params.
+ * @param root0.params - Route params with the clearance id.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const id = parseObjectId((await params).id);
+  if (!id) {
+    return errorResponse("Invalid clearance id.", 400);
+  }
+
+  const { count } = await prisma.dayClearance.updateMany({
+    where: { id, status: "pending" },
+    data: { status: "abandoned", completedAt: new Date() },
+  });
+  if (count === 0) {
+    return errorResponse("No pending clearance with that id.", 404);
+  }
+
+  revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,129 @@
+// src/app/api/admin/day-clearances/route.ts
+/**
+ * @description Admin endpoint behind "Clear day": previews the bookings standing
+ * on a day, and starts a clearance that emails each customer a pick-a-new-time
+ * link. The all-day block is created later, once the day has emptied - see
+ * day-clearance.server.ts.
+ */
+
+import {
+  listBookingsOnDay,
+  settleDayClearance,
+  startDayClearance,
+} from "@/features/booking/lib/day-clearance.server";
+import { SCHEDULE_CALENDAR_TAG } from "@/features/calendar/lib/google-calendar";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { isPastEditWindow, nzDayEndMs } from "@/shared/lib/edit-window";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { revalidateTag } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+const DATE_KEY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface DayClearancePayload {
+  dateKey?: string;
+  summary?: string;
+}
+
+/**
+ * GET /api/admin/day-clearances?dateKey=YYYY-MM-DD
+ * Lists the bookings a clearance of that day would move, plus any clearance
+ * already pending for it.
+ * @param request - Incoming admin request.
+ * @returns JSON `{ ok, bookings, pending }` or an error.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const dateKey = request.nextUrl.searchParams.get("dateKey") ?? "";
+  if (!DATE_KEY_RE.test(dateKey)) {
+    return errorResponse("Invalid date.", 400);
+  }
+
+  const [bookings, pending] = await Promise.all([
+    listBookingsOnDay(dateKey),
+    prisma.dayClearance.findFirst({
+      where: { dateKey, status: "pending" },
+      select: { id: true, createdAt: true },
+    }),
+  ]);
+
+  return NextResponse.json({
+    ok: true,
+    bookings: bookings.map((b) => ({
+      id: b.id,
+      name: b.name,
+      email: b.email,
+      startAt: b.startAt.toISOString(),
+      endAt: b.endAt.toISOString(),
+      status: b.status,
+    })),
+    pending: pending
+      ? { id: pending.id, createdAt: pending.createdAt.toISOString(), remaining: bookings.length }
+      : null,
+  });
+}
+
+/**
+ * POST /api/admin/day-clearances
+ * Starts clearing a day: closes it to new bookings and emails every affected
+ * customer. A day that is already empty is blocked straight away.
+ * @param request - Incoming admin request with `{ dateKey, summary? }`.
+ * @returns JSON `{ ok, clearanceId, emailed, bookingCount, blocked }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => null)) as DayClearancePayload | null;
+  if (!body) {
+    return errorResponse("Invalid request body.", 400);
+  }
+  const dateKey = body.dateKey?.trim() ?? "";
+  if (!DATE_KEY_RE.test(dateKey)) {
+    return errorResponse("Invalid date.", 400);
+  }
+  const summary = body.summary?.trim() || "Busy";
+
+  const { scheduling } = await getSettings();
+  if (isPastEditWindow(nzDayEndMs(dateKey), Date.now(), scheduling.pastEditLockHours)) {
+    return errorResponse(
+      `Can't clear a day more than ${scheduling.pastEditLockHours}h in the past.`,
+      409,
+    );
+  }
+
+  const existing = await prisma.dayClearance.findFirst({
+    where: { dateKey, status: "pending" },
+    select: { id: true },
+  });
+  if (existing) {
+    return errorResponse("This day is already being cleared.", 409);
+  }
+
+  try {
+    const bookings = await listBookingsOnDay(dateKey);
+    const { clearanceId, emailed } = await startDayClearance({ dateKey, summary, bookings });
+    // An empty day (everyone already moved) completes on the spot.
+    const blocked = bookings.length === 0 ? await settleDayClearance(clearanceId) : false;
+    revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+    return NextResponse.json({
+      ok: true,
+      clearanceId,
+      emailed,
+      bookingCount: bookings.length,
+      blocked,
+    });
+  } catch (err) {
+    console.error("[admin/day-clearances] Start failed:", err);
+    return errorResponse("Failed to start clearing the day.", 500);
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/admin/day-plans/[id]/route.ts
+/**
+ * @description Admin endpoint to withdraw a route plan still waiting on
+ * customers. Nothing has moved yet, so nothing is undone; the links in the
+ * proposal emails then say the change isn't going ahead.
+ */
+
+import { withdrawRoutePlan } from "@/features/booking/lib/day-planner.server";
+import { parseObjectId } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * DELETE /api/admin/day-plans/[id]
+ * Marks a pending plan withdrawn.
+ * @param request - Incoming admin request.
+ * @param root0 - Route params.
+ * @param root0.params - Route params with the plan id.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const id = parseObjectId((await params).id);
+  if (!id) {
+    return errorResponse("Invalid plan id.", 400);
+  }
+
+  if (!(await withdrawRoutePlan(id))) {
+    return errorResponse("No pending plan with that id.", 404);
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,133 @@
+// src/app/api/admin/day-plans/route.ts
+/**
+ * @description Admin endpoint behind the day planner: plans a day's in-person
+ * visits for the least driving, and sends a route's plan to the customers
+ * whose times would change. See day-planner.server.ts.
+ */
+
+import type { DayPlan } from "@/features/booking/lib/day-planner";
+import {
+  planDayRoutes,
+  sendRoutePlan,
+  type RouteDay,
+} from "@/features/booking/lib/day-planner.server";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextResponse, type NextRequest } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+const DATE_KEY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface SendPlanPayload {
+  dateKey?: string;
+  technicianId?: string | null;
+  pinnedIds?: string[];
+}
+
+/**
+ * A plan with ISO times for the client.
+ * @param plan - Planner output.
+ * @returns JSON-ready plan.
+ */
+function serializePlan(plan: DayPlan): Record<string, unknown> {
+  return {
+    driveMins: plan.driveMins,
+    stops: plan.stops.map((s) => ({
+      id: s.id,
+      startAt: s.startAt.toISOString(),
+      endAt: s.endAt.toISOString(),
+      driveInMins: s.driveInMins,
+      moved: s.moved,
+    })),
+  };
+}
+
+/**
+ * A route with ISO times for the client.
+ * @param route - Planned route.
+ * @returns JSON-ready route.
+ */
+function serializeRoute(route: RouteDay): Record<string, unknown> {
+  return {
+    technicianId: route.technicianId,
+    technicianName: route.technicianName,
+    visits: route.visits.map((v) => ({
+      ...v,
+      startAt: v.startAt.toISOString(),
+      endAt: v.endAt.toISOString(),
+    })),
+    current: serializePlan(route.current),
+    proposed: route.proposed ? serializePlan(route.proposed) : null,
+    problem: route.problem,
+    pending: route.pending
+      ? {
+          ...route.pending,
+          createdAt: route.pending.createdAt.toISOString(),
+          expiresAt: route.pending.expiresAt.toISOString(),
+          proposals: route.pending.proposals.map((p) => ({
+            ...p,
+            fromStartAt: p.fromStartAt.toISOString(),
+            toStartAt: p.toStartAt.toISOString(),
+          })),
+        }
+      : null,
+  };
+}
+
+/**
+ * GET /api/admin/day-plans?dateKey=YYYY-MM-DD&pinned=id,id
+ * Plans each route on the day, leaving pinned bookings at their time.
+ * @param request - Incoming admin request.
+ * @returns JSON `{ ok, routes }` or an error.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const dateKey = request.nextUrl.searchParams.get("dateKey") ?? "";
+  if (!DATE_KEY_RE.test(dateKey)) {
+    return errorResponse("Invalid date.", 400);
+  }
+  const pinned = (request.nextUrl.searchParams.get("pinned") ?? "").split(",").filter(Boolean);
+
+  try {
+    const routes = await planDayRoutes(dateKey, new Set(pinned));
+    return NextResponse.json({ ok: true, routes: routes.map(serializeRoute) });
+  } catch (error) {
+    console.error("[admin/day-plans] Planning failed:", error);
+    return errorResponse("Failed to plan the day.", 500);
+  }
+}
+
+/**
+ * POST /api/admin/day-plans
+ * Sends one route's plan: emails every customer whose time would change.
+ * @param request - Incoming admin request with `{ dateKey, technicianId, pinnedIds }`.
+ * @returns JSON `{ ok, planId, emailed, proposals }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => null)) as SendPlanPayload | null;
+  const dateKey = body?.dateKey ?? "";
+  if (!DATE_KEY_RE.test(dateKey)) {
+    return errorResponse("Invalid date.", 400);
+  }
+  const pinnedIds = Array.isArray(body?.pinnedIds)
+    ? body.pinnedIds.filter((id): id is string => typeof id === "string")
+    : [];
+
+  try {
+    const result = await sendRoutePlan(dateKey, body?.technicianId ?? null, new Set(pinnedIds));
+    if (!result.ok) return errorResponse(result.error, result.status);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[admin/day-plans] Sending plan failed:", error);
+    return errorResponse("Failed to send the plan.", 500);
+  }
+}
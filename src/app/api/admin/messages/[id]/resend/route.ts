@@ -0,0 +1,49 @@
+// src/app/api/admin/messages/[id]/resend/route.ts
+/**
+ * @description Admin endpoint to resend an outbox email. Sends a fresh copy of
+ * the stored message (same rendered subject, body and attachments) rather than
+ * re-rendering, so the customer gets exactly what the log shows.
+ */
+
+import { parseObjectId } from "@/features/business/lib/validation";
+import { resendMessage } from "@/features/messaging/lib/outbox";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { type NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * POST /api/admin/messages/[id]/resend
+ * Copies the message into a new outbox row and attempts it immediately. A
+ * failed attempt stays queued and is retried by the outbox cron.
+ * @param request - Incoming admin request.
+ * @param root0 - Route params.
+ * @param root0.params - Route params with the message id.
+ * @returns JSON `{ ok, id, sent }` with the new message id, or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const id = parseObjectId((await params).id);
+  if (!id) {
+    return errorResponse("Invalid message id.", 400);
+  }
+
+  try {
+    const result = await resendMessage(id);
+    if (!result) {
+      return errorResponse("Message not found.", 404);
+    }
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error(`[admin/messages] Resend of ${id} failed:`, error);
+    return errorResponse("Failed to resend message.", 500);
+  }
+}
@@ -3,7 +3,7 @@
  * @description Admin endpoint that returns the rendered HTML preview for a past-client review email.
  */
 
-import { buildPastClientReviewEmailHtml } from "@/features/reviews/lib/email";
+import { buildPastClientReviewEmail } from "@/features/reviews/lib/email";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isAdminRequest } from "@/shared/lib/auth";
 import { NextRequest, NextResponse } from "next/server";
@@ -29,7 +29,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     const firstName = name.trim().split(" ")[0];
-    const html = await buildPastClientReviewEmailHtml(firstName, "#preview");
+    const { html } = await buildPastClientReviewEmail(firstName, "#preview");
 
     return NextResponse.json({ ok: true, html });
   } catch (error) {
@@ -0,0 +1,59 @@
+// src/app/api/admin/preview-template-email/route.ts
+/**
+ * @description Admin endpoint that renders an unsaved email template against a
+ * real booking or invoice for the settings panel's live preview. Nothing is
+ * saved or sent.
+ */
+
+import { parseObjectId } from "@/features/business/lib/validation";
+import { renderTemplatePreview } from "@/features/messaging/lib/template-preview";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { EMAIL_TEMPLATE_KEYS, type EmailTemplateKey } from "@/shared/lib/settings/email-templates";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/admin/preview-template-email
+ * Body: `{ key, template: { subject, body }, recordId? }`. Renders against the
+ * chosen booking/invoice, or the latest one when `recordId` is omitted.
+ * @param request - The incoming request.
+ * @returns JSON `{ ok, subject, html }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    key?: unknown;
+    template?: { subject?: unknown; body?: unknown };
+    recordId?: unknown;
+  };
+  if (!EMAIL_TEMPLATE_KEYS.includes(body.key as EmailTemplateKey)) {
+    return errorResponse("Unknown template.", 400);
+  }
+  const subject = body.template?.subject;
+  const text = body.template?.body;
+  if (typeof subject !== "string" || typeof text !== "string") {
+    return errorResponse("Template subject and body are required.", 400);
+  }
+  let recordId: string | undefined;
+  if (body.recordId !== undefined && body.recordId !== "") {
+    const parsed = parseObjectId(body.recordId);
+    if (!parsed) return errorResponse("Invalid record id.", 400);
+    recordId = parsed;
+  }
+
+  try {
+    const result = await renderTemplatePreview(
+      body.key as EmailTemplateKey,
+      { subject, body: text },
+      recordId,
+    );
+    if (!result.ok) return errorResponse(result.error, result.status);
+    return NextResponse.json({ ok: true, subject: result.subject, html: result.html });
+  } catch (error) {
+    console.error("[admin/preview-template-email] Error:", error);
+    return errorResponse("Failed to generate preview.", 500);
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { revalidateReviewPaths } from "@/features/reviews/lib/revalidate";
-import { reviewTextError } from "@/features/reviews/lib/validation";
+import { reviewRatingError, reviewTextError } from "@/features/reviews/lib/validation";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isAdminRequest } from "@/shared/lib/auth";
 import { prisma } from "@/shared/lib/prisma";
@@ -28,11 +28,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       firstName?: string;
       lastName?: string;
       isAnonymous?: boolean;
+      /** Optional here: a past client's review may have come without a score. */
+      rating?: number | null;
     };
 
     const text = body.text?.trim() ?? "";
     const textErr = reviewTextError(text);
     if (textErr) return errorResponse(textErr, 400);
+    const rating = body.rating ?? null;
+    if (rating !== null) {
+      const ratingErr = reviewRatingError(rating);
+      if (ratingErr) return errorResponse(ratingErr, 400);
+    }
 
     const isAnonymous = body.isAnonymous ?? false;
     const firstName = isAnonymous ? null : body.firstName?.trim() || null;
@@ -41,6 +48,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const review = await prisma.review.create({
       data: {
         text,
+        rating,
         firstName,
         lastName,
         isAnonymous,
@@ -54,6 +62,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         lastName: true,
         isAnonymous: true,
         verified: true,
+        rating: true,
         status: true,
         createdAt: true,
       },
@@ -124,7 +124,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Email path: send first, then stamp the send-state only on a successful
     // send. Stamping before the send would mark the customer as "review
-    // requested" even on a Resend failure, so every retry short-circuits at the
+    // requested" even when the email couldn't be queued, so every retry short-circuits at the
     // dedup guard above without ever re-sending.
     const sent = await sendPastClientReviewRequest({
       id: contact.id,
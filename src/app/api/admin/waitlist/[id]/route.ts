@@ -0,0 +1,44 @@
+// src/app/api/admin/waitlist/[id]/route.ts
+/**
+ * @description Admin endpoint to take someone off the waitlist. The entry is
+ * kept (status removed) for the record; a slot already held for them is left
+ * alone - it lapses on its own or can be cancelled from the booking page.
+ */
+
+import { parseObjectId } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * DELETE /api/admin/waitlist/[id]
+ * Marks a waiting or offered entry removed.
+ * @param request - Incoming admin request.
+ * @param root0 - Route params.
+ * @param root0.params - Route params with the entry id.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const id = parseObjectId((await params).id);
+  if (!id) {
+    return errorResponse("Invalid waitlist id.", 400);
+  }
+
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { id, status: { in: ["waiting", "offered"] } },
+    data: { status: "removed" },
+  });
+  if (count === 0) {
+    return errorResponse("No waitlist entry with that id.", 404);
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -3,9 +3,16 @@
  * @description Cancel a booking by cancel token. GET returns startAt +
  * status so the cancel page can render the fee banner before firing. POST
  * cancels, stamps cancellation flags from the server clock, and auto-drafts
- * a DRAFT invoice when the cancel lands inside the fee window.
+ * a DRAFT invoice when the cancel lands inside the fee window. A booking whose
+ * day the operator is clearing cancels free - the operator asked it to move -
+ * as does an unconfirmed waitlist hold. The freed slot goes to the waitlist.
  */
 
+import {
+  findPendingClearanceForBooking,
+  settleDayClearancesForBooking,
+} from "@/features/booking/lib/day-clearance.server";
+import { passSlotToWaitlist } from "@/features/booking/lib/waitlist.server";
 import { createDraftCancellationInvoice } from "@/features/business/lib/cancellation-invoice";
 import { assessCancellation } from "@/features/business/lib/pricing-policy";
 import { getPolicy } from "@/features/business/lib/pricing-policy.server";
@@ -13,6 +20,7 @@ import { deleteBookingEvent } from "@/features/calendar/lib/google-calendar";
 import { errorResponse } from "@/shared/lib/api-response";
 import { prisma } from "@/shared/lib/prisma";
 import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { nzDateKey } from "@/shared/lib/timezone-utils";
 import { NextRequest, NextResponse } from "next/server";
 
 // Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
@@ -22,11 +30,24 @@ interface CancelPayload {
   cancelToken: string;
 }
 
+/**
+ * Whether the operator has asked this booking to move off its day, which waives
+ * any cancellation fee. Only while it still sits on the day being cleared.
+ * @param booking - The booking being cancelled.
+ * @param booking.id - Booking id.
+ * @param booking.startAt - Current start.
+ * @returns True when a pending day clearance is waiting on this booking.
+ */
+async function isBeingCleared(booking: { id: string; startAt: Date }): Promise<boolean> {
+  const clearance = await findPendingClearanceForBooking(booking.id);
+  return clearance !== null && clearance.dateKey === nzDateKey(booking.startAt);
+}
+
 /**
  * GET /api/booking/cancel?token=...
  * Booking info for the confirmation gate. Never mutates state.
  * @param request - Incoming request, expects ?token=... in the query string.
- * @returns JSON `{ ok, startAt, status }` or `{ ok: false, error }`.
+ * @returns JSON `{ ok, startAt, status, feeWaived }` or `{ ok: false, error }`.
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const limited = rateLimitOrReject(request, "booking-cancel-info", 10, 60_000);
@@ -39,7 +60,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   const booking = await prisma.booking.findFirst({
     where: { cancelToken: token },
-    select: { startAt: true, status: true },
+    select: { id: true, startAt: true, status: true },
   });
   if (!booking) {
     return errorResponse("Booking not found.", 404);
@@ -52,6 +73,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     ok: true,
     startAt: booking.startAt.toISOString(),
     status: booking.status,
+    feeWaived: await isBeingCleared(booking),
     cancellation: {
       freeNoticeHours: CANCELLATION.freeNoticeHours,
       travelChargeHours: CANCELLATION.travelChargeHours,
@@ -113,8 +135,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       meetingType: booking.meetingType === "remote" ? "remote" : "in-person",
       policy: CANCELLATION,
     });
-    const lateCancellation = charge.fee > 0;
-    const travelChargeApplies = charge.travelApplies;
+    const feeWaived = booking.status === "held" || (await isBeingCleared(booking));
+    const lateCancellation = !feeWaived && charge.fee > 0;
+    const travelChargeApplies = !feeWaived && charge.travelApplies;
 
     // Cancel the booking
     const updated = await prisma.booking.update({
@@ -142,6 +165,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // The last booking off a day being cleared lets its block go in; otherwise
+    // the slot is open again, so offer it down the waitlist.
+    if (feeWaived) await settleDayClearancesForBooking(booking.id);
+    await passSlotToWaitlist(booking);
+
     return NextResponse.json({
       ok: true,
       lateCancellation,
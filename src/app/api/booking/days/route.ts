@@ -4,7 +4,11 @@
  */
 
 import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
-import { BOOKING_CONFIG, buildAvailableDays } from "@/features/booking/lib/booking";
+import {
+  BOOKING_CONFIG,
+  buildAvailableDays,
+  type SlotBlockingEvent,
+} from "@/features/booking/lib/booking";
 import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
 import { rateLimitOrReject } from "@/shared/lib/rate-limit";
 import { NextRequest, NextResponse } from "next/server";
@@ -18,18 +22,16 @@ export const maxDuration = 60;
  * @param maxDate - End date
  * @returns Array of calendar events or empty array if module not available
  */
-async function fetchCalendarEventsSafe(
-  now: Date,
-  maxDate: Date,
-): Promise<Array<{ id: string; start: string; end: string }>> {
+async function fetchCalendarEventsSafe(now: Date, maxDate: Date): Promise<SlotBlockingEvent[]> {
   try {
     // Try to import the calendar module
-    const { fetchAllCalendarEvents } = await import("@/features/calendar/lib/google-calendar");
-    const rawEvents = await fetchAllCalendarEvents(now, maxDate);
+    const { fetchAllSourceEvents } = await import("@/features/calendar/lib/calendar-sources");
+    const rawEvents = await fetchAllSourceEvents(now, maxDate);
     const events = rawEvents.map((e) => ({
       id: e.id,
       start: e.start,
       end: e.end,
+      calendarEmail: e.calendarEmail,
     }));
     console.log(`[booking/days] ✅ Blocking ${events.length} calendar events`);
     return events;
@@ -5,22 +5,24 @@
 
 import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
 import {
+  activeSlotKeyFor,
   buildAppointmentDescription,
+  calendarSequence,
   parseHourLabel,
   splitUnitFromAddress,
   validateBookingPayloadFields,
   validateBookingRequest,
   type JobDuration,
+  type SlotBlockingEvent,
   type StartMinute,
   type TimeOfDay,
 } from "@/features/booking/lib/booking";
+import { settleDayClearancesForBooking } from "@/features/booking/lib/day-clearance.server";
 import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
+import { keepOrAssignTechnician } from "@/features/booking/lib/technicians.server";
 import { lookupDriveRoundTrip } from "@/features/business/lib/travel-distance";
-import {
-  createBookingEvent,
-  deleteBookingEvent,
-  fetchAllCalendarEvents,
-} from "@/features/calendar/lib/google-calendar";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
+import { createBookingEvent, deleteBookingEvent } from "@/features/calendar/lib/google-calendar";
 import { findOrCreateContactByEmail } from "@/features/contacts/lib/find-or-create";
 import { syncContactToGoogle } from "@/features/contacts/lib/google-contacts";
 import {
@@ -158,12 +160,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const existingForValidation = await loadBlockingBookings(now, { excludeId: booking.id });
 
     // Fetch calendar events, excluding the current booking's event
-    let calendarEvents: Array<{ id: string; start: string; end: string }> = [];
+    let calendarEvents: SlotBlockingEvent[] = [];
     try {
-      const rawEvents = await fetchAllCalendarEvents(now, maxDate);
+      const rawEvents = await fetchAllSourceEvents(now, maxDate);
       calendarEvents = rawEvents
         .filter((e) => e.id !== booking.calendarEventId)
-        .map((e) => ({ id: e.id, start: e.start, end: e.end }));
+        .map((e) => ({ id: e.id, start: e.start, end: e.end, calendarEmail: e.calendarEmail }));
     } catch (error) {
       console.error("[booking/edit] Failed to fetch calendar events:", error);
     }
@@ -199,6 +201,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const startAt = new Date(Date.UTC(year, month - 1, day, startHour - utcOffset, startMinute, 0));
     const endAt = new Date(startAt.getTime() + durationMinutes * 60 * 1000);
 
+    // The booking stays with its technician when they're free at the new time.
+    const technician = await keepOrAssignTechnician(config, booking.technicianId, {
+      candidateIds: validation.technicianIds,
+      startAt,
+      endAt,
+      address: meetingType === "in-person" ? canonicalAddress : null,
+      jobText: [notes, booking.quotedDescriptionAtBooking].filter(Boolean).join("\n"),
+      excludeBookingId: booking.id,
+    });
+
     // Build updated notes
     let bookingNotes = `${notes.trim()}\n\n`;
     const timeLabel =
@@ -274,7 +286,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     let travelMinsBackAtBooking: number | null = null;
     if (meetingType === "in-person" && canonicalAddress) {
       try {
-        const drive = await lookupDriveRoundTrip(canonicalAddress, startAt, endAt);
+        const drive = await lookupDriveRoundTrip(
+          canonicalAddress,
+          startAt,
+          endAt,
+          technician?.baseAddress,
+        );
         if (drive.status === "ok") {
           travelMinsAtBooking = drive.data.there.durationMins;
           travelMinsBackAtBooking = drive.data.back.durationMins;
@@ -294,7 +311,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           startAt,
           endAt,
           calendarEventId,
-          activeSlotKey: startAt.toISOString(),
+          technicianId: technician?.id ?? null,
+          activeSlotKey: activeSlotKeyFor(startAt, technician?.id),
           bufferAfterMin: config.bookingBufferAfterMin,
           rescheduleCount: { increment: 1 },
           phone: phoneE164,
@@ -372,7 +390,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           // The update above incremented it, so the stored count is one ahead
           // of the value loaded into `booking` - use the incremented one or the
           // calendar entry's SEQUENCE won't rise and clients ignore the update.
-          rescheduleCount: booking.rescheduleCount + 1,
+          calendarSequence: calendarSequence(booking) + 1,
         },
         { kind: "rescheduled", previousStartAt },
       ),
@@ -392,6 +410,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       ),
     ]);
 
+    // Moving off a day being cleared may let its block go in.
+    await settleDayClearancesForBooking(booking.id);
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("[booking/edit] Error:", error);
@@ -0,0 +1,35 @@
+// src/app/api/booking/feed/route.ts
+// Token-gated subscribable feed of upcoming bookings (see booking-feed.server.ts).
+// Carries customer contact details, so it is never shared-cacheable, and a bad
+// or revoked token gets the same 404 as no feed at all.
+
+import {
+  buildBookingFeed,
+  isValidBookingFeedToken,
+} from "@/features/booking/lib/booking-feed.server";
+import type { NextRequest } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Streams the bookings feed for `?token=`.
+ * @param request - The incoming request.
+ * @returns The calendar feed, or 404 when the token isn't the live one.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const token = request.nextUrl.searchParams.get("token")?.trim() ?? "";
+  if (!(await isValidBookingFeedToken(token).catch(() => false))) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const ics = await buildBookingFeed(new Date());
+  return new Response(ics, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="bookings.ics"',
+      // Token-bearing and full of customer details: never let a shared cache hold it.
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
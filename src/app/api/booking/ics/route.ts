@@ -4,6 +4,7 @@
 
 import {
   buildAppointmentDescription,
+  calendarSequence,
   combineUnitAndAddress,
   parseBookingNotes,
 } from "@/features/booking/lib/booking";
@@ -37,6 +38,7 @@ export async function GET(request: NextRequest): Promise<Response> {
         notes: true,
         status: true,
         rescheduleCount: true,
+        operatorMoveCount: true,
       },
     })
     .catch(() => null);
@@ -78,8 +80,8 @@ export async function GET(request: NextRequest): Promise<Response> {
     description,
     location,
     url: manageUrl,
-    // Rises on every reschedule, which is what makes clients accept the update.
-    sequence: booking.rescheduleCount,
+    // Rises on every move, which is what makes clients accept the update.
+    sequence: calendarSequence(booking),
     organiserEmail: identity.email,
   });
 
@@ -0,0 +1,49 @@
+// src/app/api/booking/proposal/accept/route.ts
+/**
+ * @description Accepts a route-plan proposal. The booking only moves once every
+ * customer in the plan has accepted; the last acceptance applies the plan and
+ * sends each of them the usual rescheduled confirmation.
+ */
+
+import { answerRescheduleProposal } from "@/features/booking/lib/day-planner.server";
+import { errorResponse } from "@/shared/lib/api-response";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+interface AcceptPayload {
+  token?: string;
+}
+
+/**
+ * POST /api/booking/proposal/accept
+ * Body: { token }. Records the customer's yes.
+ * @param request - Next.js request containing the proposal token.
+ * @returns JSON `{ ok, applied }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "booking-proposal-accept", 5, 60_000);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json().catch(() => null)) as AcceptPayload | null;
+    const token = body?.token?.trim();
+    if (!token) {
+      return errorResponse("Missing proposal token.", 400);
+    }
+
+    const result = await answerRescheduleProposal(token, "accept");
+    if (result.kind === "not-found") {
+      return errorResponse("Proposal not found.", 404);
+    }
+    if (result.kind === "closed") {
+      return errorResponse("Sorry - this change is no longer going ahead.", 409);
+    }
+    return NextResponse.json({ ok: true, applied: result.applied });
+  } catch (error) {
+    console.error("[booking/proposal/accept] Error:", error);
+    return errorResponse("Failed to record your answer. Please try again.", 500);
+  }
+}
@@ -0,0 +1,47 @@
+// src/app/api/booking/proposal/decline/route.ts
+/**
+ * @description Declines a route-plan proposal. The customer keeps their time,
+ * and the plan as a whole is dropped - nobody else in it moves either.
+ */
+
+import { answerRescheduleProposal } from "@/features/booking/lib/day-planner.server";
+import { errorResponse } from "@/shared/lib/api-response";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+
+interface DeclinePayload {
+  token?: string;
+}
+
+/**
+ * POST /api/booking/proposal/decline
+ * Body: { token }. Keeps the booking at its current time.
+ * @param request - Next.js request containing the proposal token.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "booking-proposal-decline", 5, 60_000);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json().catch(() => null)) as DeclinePayload | null;
+    const token = body?.token?.trim();
+    if (!token) {
+      return errorResponse("Missing proposal token.", 400);
+    }
+
+    const result = await answerRescheduleProposal(token, "decline");
+    if (result.kind === "not-found") {
+      return errorResponse("Proposal not found.", 404);
+    }
+    // Declining a plan that has already closed changes nothing - the booking
+    // is at whatever time the closed plan left it, which the page shows.
+    if (result.kind === "closed" && result.status === "applied") {
+      return errorResponse("This change has already been made.", 409);
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[booking/proposal/decline] Error:", error);
+    return errorResponse("Failed to record your answer. Please try again.", 500);
+  }
+}
@@ -5,29 +5,36 @@
 
 import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
 import {
+  activeSlotKeyFor,
   buildAppointmentDescription,
+  calendarSequence,
   combineUnitAndAddress,
   parseHourLabel,
   splitUnitFromAddress,
   validateBookingPayloadFields,
   validateBookingRequest,
   type JobDuration,
+  type SlotBlockingEvent,
   type StartMinute,
   type TimeOfDay,
 } from "@/features/booking/lib/booking";
+import {
+  processBookingPhotos,
+  storeBookingPhotos,
+} from "@/features/booking/lib/booking-photos.server";
 import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
+import { assignTechnician } from "@/features/booking/lib/technicians.server";
 import { formatQuotedRange } from "@/features/business/lib/estimate-range";
 import { lookupPublicHoliday } from "@/features/business/lib/pricing-policy.server";
 import { getActivePromo } from "@/features/business/lib/promos";
 import { lookupDriveRoundTrip } from "@/features/business/lib/travel-distance";
 import { parseObjectId } from "@/features/business/lib/validation";
-import {
-  createBookingEvent,
-  deleteBookingEvent,
-  fetchAllCalendarEvents,
-} from "@/features/calendar/lib/google-calendar";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
+import { createBookingEvent, deleteBookingEvent } from "@/features/calendar/lib/google-calendar";
 import { findOrCreateContactByEmail } from "@/features/contacts/lib/find-or-create";
 import { syncContactToGoogle } from "@/features/contacts/lib/google-contacts";
+import { getOfferedSmsKinds, sendBookingSms } from "@/features/messaging/lib/booking-sms";
+import { parseSmsOptIn } from "@/features/messaging/lib/sms-opt-in";
 import {
   sendCustomerBookingConfirmation,
   sendOwnerBookingNotification,
@@ -42,7 +49,12 @@ import { rateLimitOrReject } from "@/shared/lib/rate-limit";
 import { getSettings } from "@/shared/lib/settings/get-settings";
 import { getSiteUrl } from "@/shared/lib/site-url";
 import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
-import { Prisma, type AiEstimateCategory, type EstimateTask } from "@prisma/client";
+import {
+  Prisma,
+  type AiEstimateCategory,
+  type EstimateConfidence,
+  type EstimateTask,
+} from "@prisma/client";
 import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -72,6 +84,8 @@ interface BookingRequestPayload {
   idempotencyKey?: string;
   /** Id of the PriceEstimateLog the customer saw before booking, if any. */
   estimateId?: string;
+  /** Booking texts the customer ticked; kept only with a phone and while offered. */
+  smsOptIn?: unknown;
 }
 
 /**
@@ -85,7 +99,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   if (limited) return limited;
 
   try {
-    const body = (await request.json()) as BookingRequestPayload;
+    // Photos ride in a multipart body beside the JSON payload (field
+    // "payload"); a booking without photos still posts plain JSON.
+    let body: BookingRequestPayload;
+    let photoFiles: File[] = [];
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const form = await request.formData();
+      const payload = form.get("payload");
+      body = JSON.parse(typeof payload === "string" ? payload : "{}") as BookingRequestPayload;
+      photoFiles = form.getAll("photos").filter((v): v is File => v instanceof File);
+    } else {
+      body = (await request.json()) as BookingRequestPayload;
+    }
     const {
       dateKey,
       timeOfDay,
@@ -100,6 +125,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       website,
       idempotencyKey,
       estimateId,
+      smsOptIn,
     } = body;
 
     if (idempotencyKey) {
@@ -135,6 +161,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return errorResponse(payloadCheck.error, 400);
     }
 
+    // Re-encode before any calendar / DB work so a bad image is a clean 400.
+    const photos = photoFiles.length > 0 ? await processBookingPhotos(photoFiles) : [];
+    if (typeof photos === "string") {
+      return errorResponse(photos, 400);
+    }
+
     // Tidy the name (casing/spacing) and Google-canonicalise a typed address.
     // normaliseAddress only formats an UNAMBIGUOUS match (null on 0 or >1
     // candidates), so we never guess between streets - any real ambiguity was
@@ -161,13 +193,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // Fail closed: the live calendar read is authoritative for real events, so
     // if it errors we cannot rule out a collision - refuse the booking rather
     // than risk a double-book against a manual calendar entry.
-    let calendarEvents: Array<{ id: string; start: string; end: string }>;
+    let calendarEvents: SlotBlockingEvent[];
     try {
-      const rawEvents = await fetchAllCalendarEvents(now, maxDate);
+      const rawEvents = await fetchAllSourceEvents(now, maxDate);
       calendarEvents = rawEvents.map((e) => ({
         id: e.id,
         start: e.start,
         end: e.end,
+        calendarEmail: e.calendarEmail,
       }));
     } catch (error) {
       console.error("[booking/request] Failed to fetch calendar events:", error);
@@ -229,6 +262,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     let quotedMinsAtBooking: number | null = null;
     let quotedCategoryAtBooking: AiEstimateCategory | null = null;
     let quotedTasksAtBooking: EstimateTask[] = [];
+    let quotedConfidenceAtBooking: EstimateConfidence | null = null;
     if (parseObjectId(estimateId)) {
       const est = await prisma.priceEstimateLog
         .findUnique({ where: { id: estimateId } })
@@ -242,9 +276,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         quotedMinsAtBooking = est.aiEstimatedMins;
         quotedCategoryAtBooking = est.aiCategory;
         quotedTasksAtBooking = est.aiTasks;
+        quotedConfidenceAtBooking = est.aiConfidence;
       }
     }
 
+    // With technicians configured, hand the job to the best-placed one of
+    // those free for the slot; null in single-operator mode.
+    const technician = await assignTechnician(config, {
+      candidateIds: validation.technicianIds,
+      startAt,
+      endAt,
+      address: meetingType === "in-person" ? canonicalAddress : null,
+      jobText: [notes, quotedDescriptionAtBooking, ...quotedTasksAtBooking.map((t) => t.label)]
+        .filter(Boolean)
+        .join("\n"),
+    });
+
     // Build notes
     let bookingNotes = `${notes.trim()}\n\n`;
     const timeLabel =
@@ -328,15 +375,21 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // can't reprice an already-quoted booking.
     const travelRatePerHourAtBooking = (await getSettings()).pricing.travelRatePerHour;
 
-    // Drive-time snapshot for in-person bookings: outbound quoted at the
-    // booking's start, return at its end - genuine traffic predictions for
-    // the actual drives. Lets the late-cancel handler bill travel without a
-    // re-lookup. Non-blocking on failure.
+    // Drive-time snapshot for in-person bookings, from the assigned
+    // technician's base: outbound quoted at the booking's start, return at its
+    // end - genuine traffic predictions for the actual drives. Lets the
+    // late-cancel handler bill travel without a re-lookup. Non-blocking on
+    // failure.
     let travelMinsAtBooking: number | null = null;
     let travelMinsBackAtBooking: number | null = null;
     if (meetingType === "in-person" && canonicalAddress) {
       try {
-        const drive = await lookupDriveRoundTrip(canonicalAddress, startAt, endAt);
+        const drive = await lookupDriveRoundTrip(
+          canonicalAddress,
+          startAt,
+          endAt,
+          technician?.baseAddress,
+        );
         if (drive.status === "ok") {
           travelMinsAtBooking = drive.data.there.durationMins;
           travelMinsBackAtBooking = drive.data.back.durationMins;
@@ -368,7 +421,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           cancelToken,
           reviewToken,
           calendarEventId,
-          activeSlotKey: startAt.toISOString(), // Unique constraint for double-booking prevention
+          technicianId: technician?.id ?? null,
+          // Unique constraint for double-booking prevention
+          activeSlotKey: activeSlotKeyFor(startAt, technician?.id),
           bufferBeforeMin: 0,
           bufferAfterMin: config.bookingBufferAfterMin,
           // Notes text above stays dual-written for regex-parsing admin code.
@@ -391,6 +446,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           promoFlatHourlyRateAtBooking: activePromo?.flatHourlyRate ?? null,
           promoPercentDiscountAtBooking: activePromo?.percentDiscount ?? null,
           publicHolidayName,
+          smsOptIn: phoneE164 ? parseSmsOptIn(smsOptIn, await getOfferedSmsKinds()) : [],
           // Snapshot of the public quote the customer saw before booking, plus
           // what they typed to get it and how the AI read it.
           priceEstimateIdAtBooking,
@@ -401,11 +457,25 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           quotedMinsAtBooking,
           quotedCategoryAtBooking,
           quotedTasksAtBooking,
+          quotedConfidenceAtBooking,
         },
       });
 
       console.log(`[booking/request] Created ${duration} booking: ${booking.id}`);
 
+      // Store the photos now the booking id exists. Best effort: a storage
+      // failure loses the photos, never the booking.
+      let photoCount = 0;
+      if (photos.length > 0) {
+        try {
+          const rows = await storeBookingPhotos(booking.id, photos);
+          await prisma.booking.update({ where: { id: booking.id }, data: { photos: rows } });
+          photoCount = rows.length;
+        } catch (photoError) {
+          console.error("[booking/request] Failed to store photos:", photoError);
+        }
+      }
+
       // Upsert contact record - best effort, never fail the booking on write error
       try {
         const { contact } = await findOrCreateContactByEmail(email.trim().toLowerCase(), {
@@ -420,9 +490,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }
 
       // Send confirmation emails before returning so Vercel doesn't kill the
-      // function before the Resend requests complete. Both functions catch all
+      // function before the first delivery attempts complete. Both functions catch all
       // errors internally and never throw. The owner alert always fires; the
-      // customer confirmation honours the notifyConfirmation setting.
+      // customer confirmation honours the notifyConfirmation setting, and the
+      // confirmation text its own setting plus the customer's opt-in.
       const { comms } = await getSettings();
       await Promise.all([
         sendOwnerBookingNotification({
@@ -435,6 +506,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           cancelToken: booking.cancelToken,
           address: combineUnitAndAddress(booking.unit ?? "", booking.address ?? ""),
           meetingType: booking.meetingType,
+          photoCount,
         }),
         ...(comms.notifyConfirmation
           ? [
@@ -449,10 +521,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
                 promoTitleAtBooking: booking.promoTitleAtBooking,
                 address: combineUnitAndAddress(booking.unit ?? "", booking.address ?? ""),
                 meetingType: booking.meetingType,
-                rescheduleCount: booking.rescheduleCount,
+                calendarSequence: calendarSequence(booking),
               }),
             ]
           : []),
+        sendBookingSms("confirmation", booking),
       ]);
 
       return NextResponse.json({
@@ -464,7 +537,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       // Handle unique constraint violation (concurrent booking for same slot)
       if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
         console.warn("[booking/request] Concurrent booking conflict", {
-          activeSlotKey: startAt.toISOString(),
+          activeSlotKey: activeSlotKeyFor(startAt, technician?.id),
           email: email.trim().toLowerCase(),
           timestamp: new Date().toISOString(),
         });
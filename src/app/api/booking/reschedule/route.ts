@@ -0,0 +1,293 @@
+// src/app/api/booking/reschedule/route.ts
+/**
+ * @description Moves a booking whose day is being cleared onto a time the
+ * customer picked from the pick-a-new-time page. Unlike /api/booking/edit this
+ * only changes the time, and skips the reschedule cutoff / max-changes gate -
+ * the operator asked for the move, so it must never count against the customer.
+ */
+
+import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
+import {
+  activeSlotKeyFor,
+  buildAppointmentDescription,
+  calendarSequence,
+  combineUnitAndAddress,
+  hourLabel,
+  parseBookingNotes,
+  validateBookingRequest,
+  type SlotBlockingEvent,
+} from "@/features/booking/lib/booking";
+import {
+  durationBand,
+  findPendingClearanceForBooking,
+  settleDayClearancesForBooking,
+} from "@/features/booking/lib/day-clearance.server";
+import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
+import { keepOrAssignTechnician } from "@/features/booking/lib/technicians.server";
+import { lookupDriveRoundTrip } from "@/features/business/lib/travel-distance";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
+import {
+  createBookingEvent,
+  deleteBookingEvent,
+  SCHEDULE_CALENDAR_TAG,
+} from "@/features/calendar/lib/google-calendar";
+import {
+  sendCustomerBookingConfirmation,
+  sendOwnerBookingNotification,
+} from "@/features/reviews/lib/email";
+import { errorResponse } from "@/shared/lib/api-response";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import { getPacificAucklandOffset, nzDateKey } from "@/shared/lib/timezone-utils";
+import { Prisma } from "@prisma/client";
+import { revalidateTag } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+interface ReschedulePayload {
+  cancelToken?: string;
+  /** UTC ISO start of the picked slot. */
+  startIso?: string;
+}
+
+/**
+ * POST /api/booking/reschedule
+ * Body: { cancelToken, startIso }. Moves the booking to the picked start,
+ * keeping its length, then settles the day clearance it was waiting on.
+ * @param request - Next.js request containing the picked slot.
+ * @returns JSON `{ ok, startAt }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "booking-reschedule", 5, 60_000);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json().catch(() => null)) as ReschedulePayload | null;
+    const cancelToken = body?.cancelToken?.trim();
+    const startAt = body?.startIso ? new Date(body.startIso) : null;
+    if (!cancelToken || !startAt || Number.isNaN(startAt.getTime())) {
+      return errorResponse("Missing or invalid time.", 400);
+    }
+
+    const booking = await prisma.booking.findFirst({ where: { cancelToken } });
+    if (!booking) {
+      return errorResponse("Booking not found.", 404);
+    }
+    if (booking.status !== "held" && booking.status !== "confirmed") {
+      return errorResponse("This booking can no longer be moved.", 400);
+    }
+    const clearance = await findPendingClearanceForBooking(booking.id);
+    if (!clearance || nzDateKey(booking.startAt) !== clearance.dateKey) {
+      return errorResponse(
+        "This booking doesn't need moving any more. Use the change-booking link to pick another time.",
+        409,
+      );
+    }
+
+    // Re-derive the form-shaped slot from the instant so the same validator the
+    // booking form goes through rules on it - the suggestion may have gone stale.
+    const { config } = await getAvailabilityConfig();
+    const dateKey = nzDateKey(startAt);
+    const [year, month, day] = dateKey.split("-").map(Number);
+    const startHour = (startAt.getUTCHours() + getPacificAucklandOffset(year, month, day)) % 24;
+    const startMinute = startAt.getUTCMinutes();
+    const timeOfDay = hourLabel(startHour);
+    const duration = durationBand(booking.startAt, booking.endAt, config.durations.short);
+    const lengthMs = booking.endAt.getTime() - booking.startAt.getTime();
+    const endAt = new Date(startAt.getTime() + lengthMs);
+
+    const now = new Date();
+    const maxDate = new Date(now.getTime() + config.maxAdvanceDays * 24 * 60 * 60 * 1000);
+    const existing = await loadBlockingBookings(now, { excludeId: booking.id });
+    let calendarEvents: SlotBlockingEvent[] = [];
+    try {
+      const rawEvents = await fetchAllSourceEvents(now, maxDate);
+      calendarEvents = rawEvents
+        .filter((e) => e.id !== booking.calendarEventId)
+        .map((e) => ({ id: e.id, start: e.start, end: e.end, calendarEmail: e.calendarEmail }));
+    } catch (error) {
+      console.error("[booking/reschedule] Failed to fetch calendar events:", error);
+    }
+
+    const validation = validateBookingRequest(
+      dateKey,
+      timeOfDay,
+      startMinute,
+      duration,
+      existing,
+      calendarEvents,
+      now,
+      config,
+    );
+    if (!validation.valid) {
+      return errorResponse("That time has just been taken - please pick another.", 409);
+    }
+
+    // Keep the notes' "[time - length]" line in step with the move; everything
+    // else (what the customer told me, address, phone) is unchanged.
+    const timeLabel =
+      startMinute === 0
+        ? timeOfDay
+        : timeOfDay.replace(/(am|pm)$/i, `:${String(startMinute).padStart(2, "0")}$1`);
+    const bookingNotes = (booking.notes ?? "").replace(
+      /^\[[^\]\n]+ - ([^\]\n]+)\]$/m,
+      `[${timeLabel} - $1]`,
+    );
+
+    const parsed = parseBookingNotes(booking.notes);
+    const isRemote = booking.meetingType
+      ? booking.meetingType === "remote"
+      : parsed.meetingType === "remote";
+    const fullAddress = booking.address
+      ? combineUnitAndAddress(booking.unit ?? "", booking.address)
+      : parsed.address;
+
+    // The booking stays with its technician when they're free at the new time.
+    const technician = await keepOrAssignTechnician(config, booking.technicianId, {
+      candidateIds: validation.technicianIds,
+      startAt,
+      endAt,
+      address: isRemote ? null : fullAddress || null,
+      jobText: [parsed.userNotes, booking.quotedDescriptionAtBooking].filter(Boolean).join("\n"),
+      excludeBookingId: booking.id,
+    });
+
+    const identity = await getIdentity();
+    const siteUrl = getSiteUrl();
+    const calendarDescription = buildAppointmentDescription({
+      company: identity.company,
+      phone: identity.phone,
+      email: identity.email,
+      isRemote,
+      userNotes: parsed.userNotes,
+      manageUrl: `${siteUrl}/booking/edit?token=${encodeURIComponent(booking.cancelToken)}`,
+      cancelUrl: `${siteUrl}/booking/cancel?token=${encodeURIComponent(booking.cancelToken)}`,
+    });
+
+    // Replace the calendar event: delete the old one, then create at the new time.
+    if (booking.calendarEventId) {
+      try {
+        await deleteBookingEvent({ eventId: booking.calendarEventId });
+      } catch (err) {
+        console.error("[booking/reschedule] Failed to delete old calendar event:", err);
+      }
+    }
+
+    let calendarEventId: string | null = null;
+    try {
+      const lengthMins = Math.round(lengthMs / 60_000);
+      const calendarResult = await createBookingEvent({
+        summary: `Tech Support: ${booking.name} - ${duration === "short" ? "Standard" : "Extended"} ${lengthMins} min`,
+        description: calendarDescription,
+        startAt,
+        endAt,
+        timeZone: config.timeZone,
+        attendeeEmail: booking.email,
+        attendeeName: booking.name,
+        location: !isRemote && fullAddress ? fullAddress : undefined,
+      });
+      calendarEventId = calendarResult.eventId;
+    } catch (calendarError) {
+      console.error("[booking/reschedule] Failed to create new calendar event:", calendarError);
+      return errorResponse("Failed to update calendar event. Please try again.", 500);
+    }
+
+    // Re-snapshot both drive legs for the new times so a late cancel bills the
+    // right travel. Non-blocking on error, like the edit route.
+    let travelMinsAtBooking = booking.travelMinsAtBooking;
+    let travelMinsBackAtBooking = booking.travelMinsBackAtBooking;
+    if (!isRemote && fullAddress) {
+      try {
+        const drive = await lookupDriveRoundTrip(
+          fullAddress,
+          startAt,
+          endAt,
+          technician?.baseAddress,
+        );
+        if (drive.status === "ok") {
+          travelMinsAtBooking = drive.data.there.durationMins;
+          travelMinsBackAtBooking = drive.data.back.durationMins;
+        }
+      } catch (err) {
+        console.warn("[booking/reschedule] travel-time snapshot failed:", err);
+      }
+    }
+
+    const previousStartAt = booking.startAt;
+    try {
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: {
+          notes: bookingNotes,
+          startAt,
+          endAt,
+          calendarEventId,
+          technicianId: technician?.id ?? null,
+          activeSlotKey: activeSlotKeyFor(startAt, technician?.id),
+          // The operator's move, not the customer's: it raises the calendar
+          // SEQUENCE without using up one of their reschedules.
+          operatorMoveCount: { increment: 1 },
+          travelMinsAtBooking,
+          travelMinsBackAtBooking,
+        },
+      });
+      console.log(`[booking/reschedule] Moved booking ${booking.id} off ${clearance.dateKey}`);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        // Lost the slot race; the replacement event is now an orphan.
+        if (calendarEventId) {
+          await deleteBookingEvent({ eventId: calendarEventId }).catch((err) =>
+            console.error("[booking/reschedule] Failed to delete orphaned calendar event:", err),
+          );
+        }
+        return errorResponse("That time has just been taken - please pick another.", 409);
+      }
+      throw error;
+    }
+
+    await Promise.all([
+      sendCustomerBookingConfirmation(
+        {
+          id: booking.id,
+          name: booking.name,
+          email: booking.email,
+          notes: bookingNotes,
+          startAt,
+          endAt,
+          cancelToken: booking.cancelToken,
+          promoTitleAtBooking: booking.promoTitleAtBooking,
+          address: fullAddress,
+          meetingType: booking.meetingType,
+          calendarSequence: calendarSequence(booking) + 1,
+        },
+        { kind: "rescheduled", previousStartAt },
+      ),
+      sendOwnerBookingNotification(
+        {
+          id: booking.id,
+          name: booking.name,
+          email: booking.email,
+          notes: bookingNotes,
+          startAt,
+          endAt,
+          cancelToken: booking.cancelToken,
+          address: fullAddress,
+          meetingType: booking.meetingType,
+        },
+        { kind: "rescheduled", previousStartAt },
+      ),
+    ]);
+
+    await settleDayClearancesForBooking(booking.id);
+    revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+
+    return NextResponse.json({ ok: true, startAt: startAt.toISOString() });
+  } catch (error) {
+    console.error("[booking/reschedule] Error:", error);
+    return errorResponse("Failed to move booking. Please try again.", 500);
+  }
+}
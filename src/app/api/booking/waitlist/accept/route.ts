@@ -0,0 +1,221 @@
+// src/app/api/booking/waitlist/accept/route.ts
+/**
+ * @description Confirms a waitlist offer. The held booking already owns the slot,
+ * so this finishes what /api/booking/request does at booking time - calendar
+ * event, rate / promo / travel snapshots, contact upsert, confirmation emails -
+ * and flips it to confirmed, provided the hold hasn't lapsed in the meantime.
+ */
+
+import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
+import {
+  buildAppointmentDescription,
+  calendarSequence,
+  combineUnitAndAddress,
+  parseBookingNotes,
+} from "@/features/booking/lib/booking";
+import { lookupPublicHoliday } from "@/features/business/lib/pricing-policy.server";
+import { getActivePromo } from "@/features/business/lib/promos";
+import { lookupDriveRoundTrip } from "@/features/business/lib/travel-distance";
+import {
+  createBookingEvent,
+  deleteBookingEvent,
+  SCHEDULE_CALENDAR_TAG,
+} from "@/features/calendar/lib/google-calendar";
+import { findOrCreateContactByEmail } from "@/features/contacts/lib/find-or-create";
+import { syncContactToGoogle } from "@/features/contacts/lib/google-contacts";
+import {
+  sendCustomerBookingConfirmation,
+  sendOwnerBookingNotification,
+} from "@/features/reviews/lib/email";
+import { errorResponse } from "@/shared/lib/api-response";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import { revalidateTag } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+interface AcceptPayload {
+  cancelToken?: string;
+}
+
+/**
+ * POST /api/booking/waitlist/accept
+ * Body: { cancelToken }. Confirms the held waitlist booking.
+ * @param request - Next.js request containing the offer's token.
+ * @returns JSON `{ ok, startAt }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "booking-waitlist-accept", 5, 60_000);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json().catch(() => null)) as AcceptPayload | null;
+    const cancelToken = body?.cancelToken?.trim();
+    if (!cancelToken) {
+      return errorResponse("Missing offer token.", 400);
+    }
+
+    const booking = await prisma.booking.findFirst({ where: { cancelToken } });
+    if (!booking) {
+      return errorResponse("Offer not found.", 404);
+    }
+    if (booking.status === "confirmed") {
+      return NextResponse.json({ ok: true, startAt: booking.startAt.toISOString() });
+    }
+    const now = new Date();
+    if (booking.status !== "held" || !booking.holdExpiresAt || booking.holdExpiresAt <= now) {
+      return errorResponse("Sorry - this offer has expired and the time has been passed on.", 409);
+    }
+
+    const parsed = parseBookingNotes(booking.notes);
+    const isRemote = booking.meetingType === "remote";
+    const fullAddress = booking.address
+      ? combineUnitAndAddress(booking.unit ?? "", booking.address)
+      : "";
+
+    const { config } = await getAvailabilityConfig();
+    const identity = await getIdentity();
+    const siteUrl = getSiteUrl();
+    const calendarDescription = buildAppointmentDescription({
+      company: identity.company,
+      phone: identity.phone,
+      email: identity.email,
+      isRemote,
+      userNotes: parsed.userNotes,
+      manageUrl: `${siteUrl}/booking/edit?token=${encodeURIComponent(booking.cancelToken)}`,
+      cancelUrl: `${siteUrl}/booking/cancel?token=${encodeURIComponent(booking.cancelToken)}`,
+    });
+
+    let calendarEventId: string | null = null;
+    try {
+      const lengthMins = Math.round((booking.endAt.getTime() - booking.startAt.getTime()) / 60_000);
+      const calendarResult = await createBookingEvent({
+        summary: `Tech Support: ${booking.name} - ${booking.duration === "long" ? "Extended" : "Standard"} ${lengthMins} min`,
+        description: calendarDescription,
+        startAt: booking.startAt,
+        endAt: booking.endAt,
+        timeZone: config.timeZone,
+        attendeeEmail: booking.email,
+        attendeeName: booking.name,
+        location: !isRemote && fullAddress ? fullAddress : undefined,
+      });
+      calendarEventId = calendarResult.eventId;
+    } catch (calendarError) {
+      console.error("[booking/waitlist/accept] Failed to create calendar event:", calendarError);
+      return errorResponse("Failed to create calendar event. Please try again.", 500);
+    }
+
+    // Same best-effort snapshots the request route takes at booking time, so a
+    // waitlist booking is priced and cancel-billed like any other.
+    const [rates, activePromo, settings] = await Promise.all([
+      prisma.rateConfig.findMany().catch((err) => {
+        console.warn("[booking/waitlist/accept] RateConfig snapshot fetch failed:", err);
+        return [] as Awaited<ReturnType<typeof prisma.rateConfig.findMany>>;
+      }),
+      getActivePromo().catch((err) => {
+        console.warn("[booking/waitlist/accept] active promo fetch failed:", err);
+        return null;
+      }),
+      getSettings(),
+    ]);
+    const baseRow = rates.find((r) => r.ratePerHour !== null && r.isDefault) ?? null;
+
+    let travelMinsAtBooking: number | null = null;
+    let travelMinsBackAtBooking: number | null = null;
+    if (!isRemote && fullAddress) {
+      try {
+        const drive = await lookupDriveRoundTrip(fullAddress, booking.startAt, booking.endAt);
+        if (drive.status === "ok") {
+          travelMinsAtBooking = drive.data.there.durationMins;
+          travelMinsBackAtBooking = drive.data.back.durationMins;
+        }
+      } catch (err) {
+        console.warn("[booking/waitlist/accept] travel-time snapshot failed:", err);
+      }
+    }
+    const holiday = await lookupPublicHoliday(booking.startAt).catch((err) => {
+      console.warn("[booking/waitlist/accept] public-holiday lookup failed:", err);
+      return null;
+    });
+
+    // Guard on the hold still being live: the release-holds cron may have lapsed
+    // it (and passed the slot on) while the calendar call was in flight.
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, status: "held", holdExpiresAt: { gt: new Date() } },
+      data: {
+        status: "confirmed",
+        holdExpiresAt: null,
+        calendarEventId,
+        travelMinsAtBooking,
+        travelMinsBackAtBooking,
+        baseRateAtBooking: baseRow?.ratePerHour ?? null,
+        travelRatePerHourAtBooking: settings.pricing.travelRatePerHour,
+        promoIdAtBooking: activePromo?.id ?? null,
+        promoTitleAtBooking: activePromo?.title ?? null,
+        promoFlatHourlyRateAtBooking: activePromo?.flatHourlyRate ?? null,
+        promoPercentDiscountAtBooking: activePromo?.percentDiscount ?? null,
+        publicHolidayName: holiday?.name ?? null,
+      },
+    });
+    if (count === 0) {
+      if (calendarEventId) {
+        await deleteBookingEvent({ eventId: calendarEventId }).catch((err) =>
+          console.error("[booking/waitlist/accept] Failed to delete orphaned calendar event:", err),
+        );
+      }
+      return errorResponse("Sorry - this offer has expired and the time has been passed on.", 409);
+    }
+
+    await prisma.waitlistEntry.updateMany({
+      where: { offeredBookingId: booking.id, status: "offered" },
+      data: { status: "booked" },
+    });
+    console.log(`[booking/waitlist/accept] Confirmed waitlist booking ${booking.id}`);
+
+    try {
+      const { contact } = await findOrCreateContactByEmail(booking.email, {
+        name: booking.name,
+        phone: booking.phone,
+        address: fullAddress || null,
+      });
+      await syncContactToGoogle(contact.id);
+    } catch (contactError) {
+      console.error("[booking/waitlist/accept] Failed to upsert contact:", contactError);
+    }
+
+    const emailData = {
+      id: booking.id,
+      name: booking.name,
+      email: booking.email,
+      notes: booking.notes ?? "",
+      startAt: booking.startAt,
+      endAt: booking.endAt,
+      cancelToken: booking.cancelToken,
+      address: fullAddress,
+      meetingType: booking.meetingType,
+    };
+    await Promise.all([
+      sendOwnerBookingNotification(emailData),
+      ...(settings.comms.notifyConfirmation
+        ? [
+            sendCustomerBookingConfirmation({
+              ...emailData,
+              promoTitleAtBooking: activePromo?.title ?? null,
+              calendarSequence: calendarSequence(booking),
+            }),
+          ]
+        : []),
+    ]);
+
+    revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+    return NextResponse.json({ ok: true, startAt: booking.startAt.toISOString() });
+  } catch (error) {
+    console.error("[booking/waitlist/accept] Error:", error);
+    return errorResponse("Failed to confirm the booking. Please try again.", 500);
+  }
+}
@@ -0,0 +1,65 @@
+// src/app/api/booking/waitlist/decline/route.ts
+/**
+ * @description Turns down a waitlist offer. Releases the held slot straight away
+ * (no cancellation fee - the hold was never confirmed) and offers it to the next
+ * matching waitlister instead of waiting for the hold to lapse.
+ */
+
+import { passSlotToWaitlist } from "@/features/booking/lib/waitlist.server";
+import { errorResponse } from "@/shared/lib/api-response";
+import { prisma } from "@/shared/lib/prisma";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+interface DeclinePayload {
+  cancelToken?: string;
+}
+
+/**
+ * POST /api/booking/waitlist/decline
+ * Body: { cancelToken }. Releases the held waitlist booking.
+ * @param request - Next.js request containing the offer's token.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "booking-waitlist-decline", 5, 60_000);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json().catch(() => null)) as DeclinePayload | null;
+    const cancelToken = body?.cancelToken?.trim();
+    if (!cancelToken) {
+      return errorResponse("Missing offer token.", 400);
+    }
+
+    const booking = await prisma.booking.findFirst({
+      where: { cancelToken },
+      select: { id: true, startAt: true, meetingType: true },
+    });
+    if (!booking) {
+      return errorResponse("Offer not found.", 404);
+    }
+
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, status: "held" },
+      data: {
+        status: "cancelled",
+        activeSlotKey: `released:${booking.id}`,
+        cancelledAt: new Date(),
+        cancelledBy: "customer",
+      },
+    });
+    if (count === 0) {
+      return errorResponse("This offer is no longer open.", 409);
+    }
+
+    await passSlotToWaitlist(booking);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[booking/waitlist/decline] Error:", error);
+    return errorResponse("Failed to decline the offer. Please try again.", 500);
+  }
+}
@@ -0,0 +1,123 @@
+// src/app/api/booking/waitlist/route.ts
+/**
+ * @description Join the waitlist for a fully-booked day. Stores a WaitlistEntry
+ * with the same details the booking form collects; when a slot on that day frees
+ * up, waitlist.server offers it as a held booking. Re-joining the same day with
+ * the same email updates the existing entry rather than queueing twice.
+ */
+
+import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
+import { validateBookingPayloadFields, type JobDuration } from "@/features/booking/lib/booking";
+import { errorResponse } from "@/shared/lib/api-response";
+import { normaliseAddress } from "@/shared/lib/normalise-address";
+import { normaliseName } from "@/shared/lib/normalise-name";
+import { validatePhone } from "@/shared/lib/normalise-phone";
+import { prisma } from "@/shared/lib/prisma";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { addDaysToDateKey, nzTodayKey } from "@/shared/lib/timezone-utils";
+import type { WaitlistTimeOfDay } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+const TIMES_OF_DAY: readonly WaitlistTimeOfDay[] = ["any", "morning", "afternoon"];
+
+interface WaitlistPayload {
+  dateKey: string;
+  timeOfDay: WaitlistTimeOfDay;
+  duration: JobDuration;
+  meetingType: "in-person" | "remote";
+  name: string;
+  email: string;
+  phone?: string;
+  address?: string;
+  notes: string;
+  /** Honeypot field - real users never fill this; bots usually do. */
+  website?: string;
+}
+
+/**
+ * POST /api/booking/waitlist
+ * Adds (or refreshes) a waitlist entry for one day.
+ * @param request - Next.js request containing the waitlist details.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "booking-waitlist", 5, 60_000);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json().catch(() => null)) as WaitlistPayload | null;
+    if (!body) {
+      return errorResponse("Invalid request.", 400);
+    }
+    const { dateKey, timeOfDay, duration, meetingType, name, email, phone, address, notes } = body;
+
+    if (typeof body.website === "string" && body.website.trim().length > 0) {
+      console.warn("[booking/waitlist] Honeypot tripped; faking success.");
+      return NextResponse.json({ ok: true });
+    }
+
+    const phoneValidation = validatePhone(phone ?? "");
+    if (phoneValidation.result === "invalid") {
+      return errorResponse("Please enter a valid phone number, or leave it blank.", 400);
+    }
+
+    const payloadCheck = validateBookingPayloadFields(
+      { name, email, notes, dateKey, timeOfDay, duration, meetingType, address, phone },
+      { requireEmail: true },
+    );
+    if (!payloadCheck.valid) {
+      return errorResponse(payloadCheck.error, 400);
+    }
+    if (!TIMES_OF_DAY.includes(timeOfDay) || (duration !== "short" && duration !== "long")) {
+      return errorResponse("Please pick a time of day and job length.", 400);
+    }
+
+    // Only days the booking form could offer: today through the booking window.
+    const { config, acceptingBookings } = await getAvailabilityConfig();
+    if (!acceptingBookings) {
+      return errorResponse("Online booking is currently paused.", 400);
+    }
+    const todayKey = nzTodayKey();
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(dateKey) ||
+      dateKey < todayKey ||
+      dateKey > addDaysToDateKey(todayKey, config.maxAdvanceDays)
+    ) {
+      return errorResponse("Please pick a day within the booking window.", 400);
+    }
+
+    const cleanEmail = email.trim().toLowerCase();
+    const cleanAddress =
+      meetingType === "in-person" && address?.trim()
+        ? ((await normaliseAddress(address.trim())) ?? address.trim())
+        : null;
+    const data = {
+      name: normaliseName(name) || name.trim(),
+      email: cleanEmail,
+      phone: phoneValidation.e164 || null,
+      dateKey,
+      timeOfDay,
+      meetingType: meetingType === "in-person" ? ("in_person" as const) : ("remote" as const),
+      duration,
+      address: cleanAddress,
+      notes: notes.trim(),
+    };
+
+    // One place in the queue per customer per day: a second join just updates
+    // the preferences and keeps the original position.
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: { email: cleanEmail, dateKey, status: "waiting" },
+      select: { id: true },
+    });
+    if (existing) {
+      await prisma.waitlistEntry.update({ where: { id: existing.id }, data });
+    } else {
+      await prisma.waitlistEntry.create({ data });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[booking/waitlist] Error:", error);
+    return errorResponse("Failed to join the waitlist. Please try again.", 500);
+  }
+}
@@ -0,0 +1,110 @@
+// src/app/api/business/bank-import/confirm/route.ts
+/**
+ * @description Admin bank-statement confirm. POST records the lines the
+ * operator ticked on the preview: credits pay their invoice (PAID claim +
+ * income entry), debits become expenses (advancing a due subscription). Every
+ * write goes through the shared ledger writers, so the sheets stay in sync.
+ */
+
+import { recordBankLines, type ConfirmedBankLine } from "@/features/business/lib/bank-reconcile";
+import { EXPENSE_CATEGORIES, PAYMENT_METHODS } from "@/features/business/lib/constants";
+import {
+  parseAmount,
+  parseDate,
+  parseObjectId,
+  parseRate,
+} from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling: each line is a DB write plus a Sheets append (and a Drive upload for paid invoices).
+export const maxDuration = 60;
+
+/** Lines per request; a month's statement fits, and the writes stay inside maxDuration. */
+const MAX_LINES = 100;
+
+/**
+ * Validates one confirmed line from the request body.
+ * @param raw - One element of `lines`.
+ * @returns The typed line, or an error message.
+ */
+function parseLine(raw: unknown): ConfirmedBankLine | string {
+  if (!raw || typeof raw !== "object") return "Invalid line";
+  const line = raw as Record<string, unknown>;
+  const date = typeof line.date === "string" ? parseDate(`${line.date}T00:00:00.000Z`) : null;
+  if (!date) return "Invalid date";
+  const reference = typeof line.reference === "string" ? line.reference.trim().slice(0, 200) : "";
+
+  if (line.kind === "income") {
+    const amount = parseAmount(line.amount);
+    const invoiceId = parseObjectId(line.invoiceId);
+    if (!amount) return "Invalid amount";
+    if (!invoiceId) return "Pick an invoice for every ticked credit";
+    return { kind: "income", date, amount, invoiceId, reference };
+  }
+
+  if (line.kind === "expense") {
+    const amountIncl = parseAmount(line.amountIncl);
+    const gstRate = parseRate(line.gstRate);
+    const supplier = typeof line.supplier === "string" ? line.supplier.trim() : "";
+    const description = typeof line.description === "string" ? line.description.trim() : "";
+    const category = typeof line.category === "string" ? line.category : "";
+    const method = typeof line.method === "string" ? line.method : "";
+    if (!amountIncl) return "Invalid amount";
+    if (gstRate === null) return "Invalid GST rate";
+    if (!supplier || !description) return "Supplier and description are required";
+    if (!(EXPENSE_CATEGORIES as readonly string[]).includes(category)) return "Invalid category";
+    if (!(PAYMENT_METHODS as readonly string[]).includes(method)) return "Invalid payment method";
+    const subscriptionId =
+      line.subscriptionId === null || line.subscriptionId === undefined
+        ? null
+        : parseObjectId(line.subscriptionId);
+    return {
+      kind: "expense",
+      date,
+      amountIncl,
+      supplier,
+      description,
+      category,
+      gstRate,
+      method,
+      subscriptionId,
+      reference,
+    };
+  }
+
+  return "Invalid line kind";
+}
+
+/**
+ * POST /api/business/bank-import/confirm
+ * Body: `{ lines }` - the ticked proposals as edited on the preview. Income
+ * lines carry `{ kind: "income", date, amount, invoiceId, reference }`;
+ * expense lines carry the recordExpense fields plus `subscriptionId`.
+ * @param request - Next.js request (admin-auth gated).
+ * @returns JSON `{ ok, incomeRecorded, expensesRecorded, skipped, sheetSyncWarning }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { lines?: unknown };
+  if (!Array.isArray(body.lines) || body.lines.length === 0) {
+    return errorResponse("No lines to record", 400);
+  }
+  if (body.lines.length > MAX_LINES) {
+    return errorResponse(`Record at most ${MAX_LINES} lines at a time`, 400);
+  }
+
+  const lines: ConfirmedBankLine[] = [];
+  for (const [i, raw] of body.lines.entries()) {
+    const parsed = parseLine(raw);
+    if (typeof parsed === "string") return errorResponse(`Line ${i + 1}: ${parsed}`, 400);
+    lines.push(parsed);
+  }
+
+  const result = await recordBankLines(lines);
+  return NextResponse.json({ ok: true, ...result });
+}
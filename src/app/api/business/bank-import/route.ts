@@ -0,0 +1,51 @@
+// src/app/api/business/bank-import/route.ts
+/**
+ * @description Admin bank-statement preview. POST takes the CSV text of an ASB,
+ * ANZ, Kiwibank or BNZ export, parses it, and returns a proposal per line -
+ * credits matched to open invoices, debits pre-filled as expenses. Nothing is
+ * written; the operator confirms through ./confirm.
+ */
+
+import { parseBankCsv } from "@/features/business/lib/bank-csv";
+import { buildBankProposals } from "@/features/business/lib/bank-reconcile";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// A year of daily transactions is well under this; anything bigger is the wrong file.
+const MAX_CSV_CHARS = 2_000_000;
+
+/**
+ * POST /api/business/bank-import
+ * Body: `{ csv }` - the raw file text.
+ * @param request - Next.js request (admin-auth gated).
+ * @returns JSON `{ ok, bank, proposals, errors }` or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { csv?: unknown };
+  if (typeof body.csv !== "string" || body.csv.trim() === "") {
+    return errorResponse("CSV text is required", 400);
+  }
+  if (body.csv.length > MAX_CSV_CHARS) {
+    return errorResponse("CSV file is too large", 413);
+  }
+
+  let statement;
+  try {
+    statement = parseBankCsv(body.csv);
+  } catch (err) {
+    return errorResponse(err instanceof Error ? err.message : "Unreadable CSV", 400);
+  }
+
+  const proposals = await buildBankProposals(statement.transactions);
+  return NextResponse.json({
+    ok: true,
+    bank: statement.bank,
+    proposals,
+    errors: statement.errors,
+  });
+}
@@ -0,0 +1,47 @@
+// src/app/api/business/credit-notes/[id]/pdf/route.ts
+/**
+ * @description Admin endpoint that downloads a credit note's PDF. GET renders
+ * it through the invoice PDF generator's credit-note layout, the same bytes
+ * the client is emailed.
+ */
+
+import { serializeCreditNote } from "@/features/business/lib/credit-notes";
+import { generateInvoicePdf } from "@/features/business/lib/invoice-pdf";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { NextRequest } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/business/credit-notes/[id]/pdf
+ * @param request - Next.js request, admin-auth gated.
+ * @param ctx - Route ctx with the credit note id.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns The PDF as application/pdf or an error.
+ */
+export async function GET(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await ctx.params;
+  const note = await prisma.creditNote.findUnique({ where: { id } });
+  if (!note) {
+    return errorResponse("Credit note not found", 404);
+  }
+
+  const pdfBytes = await generateInvoicePdf(serializeCreditNote(note));
+  return new Response(new Uint8Array(pdfBytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="Credit note ${note.number}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
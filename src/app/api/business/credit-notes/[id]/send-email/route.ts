@@ -0,0 +1,55 @@
+// src/app/api/business/credit-notes/[id]/send-email/route.ts
+/**
+ * @description Admin endpoint that emails a credit note to the client with
+ * its PDF attached, via the invoice email builder's credit-note wording.
+ * Re-sending is allowed; each success re-stamps sentAt.
+ */
+
+import { emailCreditNote } from "@/features/business/lib/credit-notes";
+import { parseInvoiceEmailOverrides } from "@/features/business/lib/invoice-email-request";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * POST /api/business/credit-notes/[id]/send-email
+ * Body (optional): `{ greetingName?, customBody? }`.
+ * @param request - Next.js request (admin-auth gated).
+ * @param ctx - Route ctx with the credit note id.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns JSON `{ ok }` or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await ctx.params;
+  const note = await prisma.creditNote.findUnique({ where: { id } });
+  if (!note) {
+    return errorResponse("Credit note not found", 404);
+  }
+  if (!note.clientEmail) {
+    return errorResponse("Credit note has no client email", 400);
+  }
+
+  const { greetingName, customBody } = await parseInvoiceEmailOverrides(request);
+  let ok: boolean;
+  try {
+    ok = await emailCreditNote(note, { greetingName, customBody });
+  } catch (err) {
+    console.error(`[credit-notes] PDF generation failed for ${note.number}:`, err);
+    return errorResponse("PDF generation failed", 500);
+  }
+  if (!ok) {
+    return errorResponse("Email send failed", 502);
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,112 @@
+// src/app/api/business/gst-return/export/route.ts
+/**
+ * @description Admin GST return export. GET downloads one period's GST101A
+ * worksheet as CSV (boxes, then every supporting line) or as a PDF. A filed
+ * period exports its filed boxes, matching what went to IRD.
+ */
+
+import {
+  GST101A_BOXES,
+  gstPeriodFromKey,
+  loadGstReturnView,
+} from "@/features/business/lib/gst-return";
+import { generateGstReturnPdf } from "@/features/business/lib/gst-return-pdf";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { formatDateSlash } from "@/shared/lib/date-format";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { NextRequest } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * Escapes a value for CSV: guards against formula injection, wraps in double
+ * quotes, and escapes inner quotes.
+ * @param value - The value to escape.
+ * @returns CSV-safe string.
+ */
+function csvCell(value: string | number): string {
+  let str = String(value);
+  // Customer and supplier names are free text; a leading =, +, - or @ would run
+  // as a formula in a spreadsheet. Plain numbers pass so a refund stays negative.
+  if (/^[=+\-@]/.test(str) && !/^-\d+(\.\d+)?$/.test(str)) {
+    str = `'${str}`;
+  }
+  return `"${str.replace(/"/g, '""')}"`;
+}
+
+/**
+ * GET /api/business/gst-return/export?period=YYYY-MM&format=csv|pdf
+ * `period` is the key of the first month under the current filing frequency.
+ * @param request - Next.js request (admin-auth gated).
+ * @returns The file as an attachment, or an error.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { tax } = await getSettings();
+  const params = request.nextUrl.searchParams;
+  const period = gstPeriodFromKey(params.get("period") ?? "", tax.gstFilingFrequency);
+  if (!period) {
+    return errorResponse("Invalid GST period", 400);
+  }
+  const format = params.get("format") ?? "csv";
+  if (format !== "csv" && format !== "pdf") {
+    return errorResponse("Format must be csv or pdf", 400);
+  }
+
+  const { worksheet, filed } = await loadGstReturnView(period, tax.gstBasis);
+  const filename = `GST return ${period.key}`;
+
+  if (format === "pdf") {
+    const pdfBytes = await generateGstReturnPdf(worksheet, filed?.filedAt ?? null);
+    return new Response(new Uint8Array(pdfBytes), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  const rows: string[] = [
+    [csvCell("Box"), csvCell("Description"), csvCell("Amount")].join(","),
+    ...GST101A_BOXES.map(({ box, key, label }) =>
+      [csvCell(box), csvCell(label), csvCell(worksheet.boxes[key].toFixed(2))].join(","),
+    ),
+    "",
+    ["Section", "Type", "Date", "Party", "Description", "Amount", "GST", "Zero-rated"]
+      .map(csvCell)
+      .join(","),
+  ];
+  for (const [section, lines] of [
+    ["Sales", worksheet.sales],
+    ["Purchases", worksheet.purchases],
+  ] as const) {
+    for (const l of lines) {
+      rows.push(
+        [
+          csvCell(section),
+          csvCell(l.kind),
+          csvCell(formatDateSlash(l.date, { utc: true })),
+          csvCell(l.party),
+          csvCell(l.description),
+          csvCell(l.amount.toFixed(2)),
+          csvCell(l.gst.toFixed(2)),
+          csvCell(l.zeroRated ? "Yes" : "No"),
+        ].join(","),
+      );
+    }
+  }
+
+  return new Response(rows.join("\r\n"), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
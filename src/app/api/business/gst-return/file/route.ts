@@ -0,0 +1,48 @@
+// src/app/api/business/gst-return/file/route.ts
+/**
+ * @description Admin GST return filing. POST marks a finished period as filed
+ * with IRD: the boxes and the transactions behind them are frozen, and any
+ * later edit inside the period shows on the worksheet as a change instead of
+ * silently moving the filed figures.
+ */
+
+import {
+  fileGstReturn,
+  gstPeriodFromKey,
+  loadGstWorksheet,
+} from "@/features/business/lib/gst-return";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/business/gst-return/file
+ * Body: `{ period }` - the period key ("YYYY-MM" of its first month) under the
+ * current filing frequency and basis.
+ * @param request - Next.js request (admin-auth gated).
+ * @returns JSON `{ ok, filedAt }`, 409 when the period is already filed, or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { period?: unknown };
+  const { tax } = await getSettings();
+  const period =
+    typeof body.period === "string" ? gstPeriodFromKey(body.period, tax.gstFilingFrequency) : null;
+  if (!period) {
+    return errorResponse("Invalid GST period", 400);
+  }
+  if (period.end > new Date()) {
+    return errorResponse("This period hasn't ended yet", 400);
+  }
+
+  const worksheet = await loadGstWorksheet(period, tax.gstBasis);
+  const filed = await fileGstReturn(worksheet, tax.gstFilingFrequency);
+  if (!filed) {
+    return errorResponse("This period has already been filed", 409);
+  }
+  return NextResponse.json({ ok: true, filedAt: filed.filedAt.toISOString() });
+}
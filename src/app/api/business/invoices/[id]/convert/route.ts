@@ -3,19 +3,13 @@
  * @description Converts an accepted quote into a real invoice: allocates the
  * next TTP number (quote counter untouched), clears the quote flag, restamps
  * issue/due dates from today, and re-syncs the PDF to Drive under the new
- * number. The row keeps its id, so links and history carry over.
+ * number. The row keeps its id, so links and history carry over. Shares
+ * {@link convertQuoteToInvoice} with the customer's online acceptance.
  */
 
-import { syncInvoicePdfToDriveById } from "@/features/business/lib/invoice-drive-sync";
-import {
-  getNextInvoiceNumber,
-  writeBackInvoiceCounter,
-} from "@/features/business/lib/invoice-numbering";
+import { convertQuoteToInvoice } from "@/features/business/lib/quote-acceptance.server";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isAdminRequest } from "@/shared/lib/auth";
-import { getIdentity } from "@/shared/lib/business-identity.server";
-import { prisma } from "@/shared/lib/prisma";
-import { Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 
 // Raise the serverless ceiling: the awaited Drive re-upload can be slow.
@@ -38,74 +32,8 @@ export async function POST(
   }
 
   const { id } = await params.params;
-  let existing;
-  try {
-    existing = await prisma.invoice.findUnique({ where: { id } });
-  } catch {
-    // Malformed ObjectId throws P2023; treat as not found.
-    return errorResponse("Invoice not found.", 404);
-  }
-  if (!existing) return errorResponse("Invoice not found.", 404);
-  if (!existing.isQuote) {
-    return errorResponse("This is already an invoice.", 409);
-  }
-  if (existing.status === "VOIDED") {
-    return errorResponse("A voided quote can't be converted.", 409);
-  }
-
-  const previousNumber = existing.number;
-  const identity = await getIdentity();
-  const now = new Date();
-  const dueDate = new Date(now.getTime() + identity.paymentTermsDays * 24 * 60 * 60 * 1000);
-
-  // Allocate a real invoice number with the same collision-retry loop as
-  // creation; the quote counter is not touched.
-  let converted: Awaited<ReturnType<typeof prisma.invoice.update>> | null = null;
-  let sheetNextCount: number | null = null;
-  let sheetSyncWarning = false;
-  for (let attempt = 0; attempt < 5; attempt++) {
-    const alloc = await getNextInvoiceNumber();
-    sheetNextCount = alloc.sheetNextCount;
-    sheetSyncWarning = alloc.sheetSyncWarning;
-    try {
-      converted = await prisma.invoice.update({
-        where: { id },
-        data: {
-          number: alloc.number,
-          isQuote: null,
-          quoteValidUntil: null,
-          // The customer's payment clock starts at conversion, not at the
-          // original quote date - restamp both dates from today.
-          issueDate: now,
-          dueDate,
-          // Back to DRAFT regardless of whether the quote was emailed: the
-          // operator reviews and sends the real invoice as its own step.
-          status: "DRAFT",
-          sentAt: null,
-        },
-      });
-      break;
-    } catch (err) {
-      if (
-        err instanceof Prisma.PrismaClientKnownRequestError &&
-        err.code === "P2002" &&
-        attempt < 4
-      ) {
-        console.warn(`[invoices/convert] Number ${alloc.number} collided; re-allocating.`);
-        continue;
-      }
-      throw err;
-    }
-  }
-  if (!converted) {
-    return errorResponse("Could not allocate a unique invoice number", 500);
-  }
-
-  await writeBackInvoiceCounter(sheetNextCount);
-  console.log(`[invoices/convert] Quote ${previousNumber} converted to ${converted.number}.`);
-
-  // Re-render + re-upload the PDF under the new number (awaited; never throws).
-  await syncInvoicePdfToDriveById(id, "[invoices/convert]");
-
-  return NextResponse.json({ ok: true, invoice: converted, previousNumber, sheetSyncWarning });
+  const result = await convertQuoteToInvoice(id, "[invoices/convert]");
+  if (!result.ok) return errorResponse(result.error, result.status);
+  const { invoice, previousNumber, sheetSyncWarning } = result;
+  return NextResponse.json({ ok: true, invoice, previousNumber, sheetSyncWarning });
 }
@@ -0,0 +1,109 @@
+// src/app/api/business/invoices/[id]/credit-notes/route.ts
+/**
+ * @description Admin credit-note issue. POST credits line items of a paid
+ * invoice, or a set amount, as a numbered CN- document; the refund lands in
+ * the ledger as a negative income entry. Optionally emails the credit note
+ * straight away.
+ */
+
+import { INCOME_METHODS } from "@/features/business/lib/constants";
+import {
+  creditableProblem,
+  creditedTotal,
+  emailCreditNote,
+  issueCreditNote,
+  type CreditSelection,
+} from "@/features/business/lib/credit-notes";
+import { parseAmount, parseDate } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { nzTodayKey } from "@/shared/lib/timezone-utils";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling: a Sheets append plus, when emailing, PDF + Resend.
+export const maxDuration = 60;
+
+/**
+ * POST /api/business/invoices/[id]/credit-notes
+ * Body: `{ lineIndexes? | amount?, reason, method, date?, sendEmail? }`. Exactly
+ * one of `lineIndexes` (positions in the invoice's line items) or `amount`;
+ * `method` is an INCOME_METHODS value; `date` (YYYY-MM-DD) defaults to today.
+ * @param request - Next.js request (admin-auth gated).
+ * @param ctx - Route ctx with the invoice id.
+ * @param ctx.params - Resolved Next.js dynamic route params.
+ * @returns JSON `{ ok, creditNote, emailed, sheetSyncWarning }` or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  ctx: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  const { id } = await ctx.params;
+  const invoice = await prisma.invoice.findUnique({ where: { id } });
+  if (!invoice) return errorResponse("Invoice not found", 404);
+  const problem = creditableProblem(invoice, await creditedTotal(invoice.id));
+  if (problem) return errorResponse(problem, 409);
+
+  const body = (await request.json().catch(() => ({}))) as {
+    lineIndexes?: unknown;
+    amount?: unknown;
+    reason?: unknown;
+    method?: unknown;
+    date?: unknown;
+    sendEmail?: unknown;
+  };
+  let selection: CreditSelection;
+  if (Array.isArray(body.lineIndexes)) {
+    if (!body.lineIndexes.every((i): i is number => typeof i === "number")) {
+      return errorResponse("Invalid line selection", 400);
+    }
+    selection = { kind: "lines", lineIndexes: body.lineIndexes };
+  } else {
+    const amount = parseAmount(body.amount);
+    if (!amount) return errorResponse("Enter an amount or pick lines to credit", 400);
+    selection = { kind: "amount", amount };
+  }
+  const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 300) : "";
+  if (!reason) return errorResponse("A reason is required", 400);
+  const method = typeof body.method === "string" ? body.method : "";
+  if (!(INCOME_METHODS as readonly string[]).includes(method)) {
+    return errorResponse("Invalid refund method", 400);
+  }
+  const dateKey = typeof body.date === "string" && body.date ? body.date : nzTodayKey();
+  const date = parseDate(`${dateKey}T00:00:00.000Z`);
+  if (!date) return errorResponse("Invalid date", 400);
+
+  const result = await issueCreditNote(invoice, {
+    selection,
+    reason,
+    refundMethod: method,
+    date,
+  });
+  if (typeof result === "string") return errorResponse(result, 400);
+
+  // Best-effort: the credit note and ledger row stand even if the email fails;
+  // the operator can re-send from the invoice page.
+  let emailed = false;
+  if (body.sendEmail === true && invoice.clientEmail) {
+    try {
+      emailed = await emailCreditNote(result.creditNote);
+    } catch (err) {
+      console.error(`[credit-notes] Email failed for ${result.creditNote.number}:`, err);
+    }
+  }
+
+  return NextResponse.json({
+    ok: true,
+    creditNote: {
+      id: result.creditNote.id,
+      number: result.creditNote.number,
+      total: result.creditNote.total,
+    },
+    emailed,
+    sheetSyncWarning: result.sheetSyncWarning,
+  });
+}
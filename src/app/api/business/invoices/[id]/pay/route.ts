@@ -1,15 +1,22 @@
 // src/app/api/business/invoices/[id]/pay/route.ts
 /**
- * @description Records a payment against an invoice: atomically claims the PAID
- * stamp (idempotent under double-clicks / retries), creates or updates the
- * linked income-ledger entry, and re-syncs the PAID-watermarked PDF to Drive.
- * The DB stamp is authoritative; the income + Drive steps are best-effort and
- * never roll back the payment.
+ * @description Records a payment against an invoice. On an open invoice the
+ * payment (the balance, or a part of it) goes on the invoice's payment ledger
+ * through recordInvoicePayment, with its own income entry, and the one that
+ * clears the balance stamps PAID. On a legacy PAID row with no payment stamp it
+ * backfills the stamp instead: atomically claims it (idempotent under
+ * double-clicks / retries), creates or updates the linked income-ledger entry,
+ * and re-syncs the PAID-watermarked PDF to Drive. The DB write is
+ * authoritative; the income + Drive steps are best-effort and never roll back
+ * the payment.
  */
 
+import { formatNZD } from "@/features/business/lib/business";
 import { INCOME_METHODS } from "@/features/business/lib/constants";
 import { recordIncome } from "@/features/business/lib/income-recording";
 import { syncInvoicePdfToDriveById } from "@/features/business/lib/invoice-drive-sync";
+import { recordInvoicePayment } from "@/features/business/lib/invoice-payment";
+import { invoiceBalanceDue } from "@/features/business/lib/invoice-status";
 import {
   formatDateForSheet,
   resolveSheetIdForDate,
@@ -25,14 +32,15 @@ export const maxDuration = 60;
 
 /**
  * POST /api/business/invoices/[id]/pay
- * Body: `{ paidAt?, method, reference?, createIncome? }`. `method` must be an
- * INCOME_METHODS value; `paidAt` defaults to now; `createIncome` defaults true
- * except on an already-PAID invoice (where a non-dialog caller must not silently
- * create a second ledger row).
+ * Body: `{ paidAt?, amount?, method, reference?, createIncome? }`. `method` must
+ * be an INCOME_METHODS value; `paidAt` defaults to now; `amount` defaults to
+ * the balance due and can't exceed it; `createIncome` defaults true except on
+ * an already-PAID invoice (where a non-dialog caller must not silently create
+ * a second ledger row).
  * @param request - Next.js request (admin-auth gated).
  * @param ctx - Route ctx with the invoice id.
  * @param ctx.params - Resolved Next.js dynamic route params.
- * @returns JSON `{ ok, invoice, incomeEntry, incomeAction, sheetWarning }` or an error.
+ * @returns JSON `{ ok, invoice, incomeEntry, incomeAction, sheetWarning, fullyPaid }` or an error.
  */
 export async function POST(
   request: NextRequest,
@@ -54,6 +62,7 @@ export async function POST(
 
   const body = (await request.json().catch(() => ({}))) as {
     paidAt?: unknown;
+    amount?: unknown;
     method?: unknown;
     reference?: unknown;
     createIncome?: unknown;
@@ -72,10 +81,44 @@ export async function POST(
   // can't double-count a ledger row that was entered by hand.
   const createIncome = typeof body.createIncome === "boolean" ? body.createIncome : !alreadyPaid;
 
-  // Atomic claim: stamp the payment only where paidAt is still empty. Covers a
-  // fresh payment (status flips to PAID) and a backfill onto a legacy PAID row
-  // (paidAt still empty). A concurrent double-click or a re-pay finds paidAt
-  // already set > count 0 > returns current state without a second income row.
+  if (!alreadyPaid) {
+    const balance = invoiceBalanceDue(invoice);
+    const amount = body.amount === undefined ? balance : Number(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return errorResponse("Invalid amount", 400);
+    // Half-cent slack for a balance typed back in from its formatted form.
+    if (amount > balance + 0.005) {
+      return errorResponse(`That's more than the ${formatNZD(balance)} still owed.`, 400);
+    }
+    const result = await recordInvoicePayment(
+      invoice,
+      { paidAt, amount: Math.min(amount, balance), method, reference, createIncome },
+      "[invoice-pay]",
+    );
+    if (!result.claimed) {
+      return errorResponse(
+        "Another payment was recorded on this invoice meanwhile. Reload and try again.",
+        409,
+      );
+    }
+    const [updated, incomeEntry] = await Promise.all([
+      prisma.invoice.findUnique({ where: { id } }),
+      result.payment?.incomeEntryId
+        ? prisma.incomeEntry.findUnique({ where: { id: result.payment.incomeEntryId } })
+        : Promise.resolve(null),
+    ]);
+    return NextResponse.json({
+      ok: true,
+      invoice: updated,
+      incomeEntry,
+      incomeAction: incomeEntry ? "created" : "skipped",
+      sheetWarning: result.sheetSyncWarning,
+      fullyPaid: result.fullyPaid,
+    });
+  }
+
+  // Legacy backfill. Atomic claim: stamp the payment only where paidAt is still
+  // empty. A concurrent double-click or a re-pay finds paidAt already set >
+  // count 0 > returns current state without a second income row.
   //
   // "Empty" must match BOTH an explicit null AND a missing field: on the
   // schemaless Mongo store, invoices created before paidAt existed (and any the
@@ -165,5 +208,12 @@ export async function POST(
   await syncInvoicePdfToDriveById(id, "[invoice-pay]");
 
   const updated = await prisma.invoice.findUnique({ where: { id } });
-  return NextResponse.json({ ok: true, invoice: updated, incomeEntry, incomeAction, sheetWarning });
+  return NextResponse.json({
+    ok: true,
+    invoice: updated,
+    incomeEntry,
+    incomeAction,
+    sheetWarning,
+    fullyPaid: true,
+  });
 }
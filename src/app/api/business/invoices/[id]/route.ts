@@ -1,7 +1,7 @@
 // src/app/api/business/invoices/[id]/route.ts
 /**
  * @description Admin endpoint for a single invoice. GET returns it. PATCH applies
- * a status-only change, a contactId backfill, or a full field update, enforcing transition rules
+ * a status-only change, a contactId backfill, a quote deposit, or a full field update, enforcing transition rules
  * via {@link validateTransition} (VOIDED is terminal) and recomputing totals on
  * line-item changes. DELETE removes DRAFT invoices only; SENT/PAID/VOIDED are
  * audit-protected. Field-changing paths re-sync the PDF to Drive.
@@ -10,6 +10,7 @@
 import { calcInvoiceTotals, isValidLineItem } from "@/features/business/lib/business";
 import { syncInvoicePdfToDriveById } from "@/features/business/lib/invoice-drive-sync";
 import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { issueInvoiceStock } from "@/features/business/lib/stock-recording";
 import { parseDate, parseObjectId } from "@/features/business/lib/validation";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isAdminRequest } from "@/shared/lib/auth";
@@ -35,8 +36,11 @@ interface StatusPatch {
  * timestamps to match the target status. voidedAt stamps on entering VOIDED and
  * clears otherwise (preserved exactly). sentAt stamps the first time the invoice
  * reaches SENT. paidAt stamps the first time it reaches PAID; leaving PAID clears
- * the whole payment record (paidAt + method + reference) so a re-opened invoice
- * carries no stale payment. All status-flipping paths funnel through here.
+ * the stamps that marking it paid set (paidAt + method + reference). The
+ * payment ledger is never touched: each entry has its own income row, and
+ * validateTransition refuses to re-open a PAID invoice that has payments
+ * recorded (a voided part-paid invoice keeps its history). All status-flipping
+ * paths funnel through here.
  * @param next - Target InvoiceStatus.
  * @param current - The invoice's current lifecycle timestamps.
  * @param current.sentAt - Current sentAt (null until first SENT); keeps an existing stamp.
@@ -75,15 +79,27 @@ function isInvoiceStatus(value: unknown): value is InvoiceStatus {
 /**
  * Returns null when the transition is allowed, or an error message when it's
  * not. VOIDED is terminal - once a tax invoice is cancelled the audit trail
- * must remain (NZ IRD record-retention); issue a fresh invoice instead.
- * @param current - The invoice's current status.
+ * must remain (NZ IRD record-retention); issue a fresh invoice instead. A PAID
+ * invoice with payments recorded can't go back to DRAFT/SENT either: it would
+ * show the full balance again, so the reminder and statement crons would chase
+ * money already received, and each payment's income row would be left behind.
+ * @param current - The invoice's current status and amount paid.
+ * @param current.status - Current status.
+ * @param current.amountPaid - Sum of the payment ledger (null on legacy rows).
  * @param next - The requested target status.
  * @returns Error message, or null when allowed.
  */
-function validateTransition(current: InvoiceStatus, next: InvoiceStatus): string | null {
-  if (current === "VOIDED" && next !== "VOIDED") {
+function validateTransition(
+  current: { status: InvoiceStatus; amountPaid: number | null },
+  next: InvoiceStatus,
+): string | null {
+  if (current.status === "VOIDED" && next !== "VOIDED") {
     return "Voided invoices are terminal; issue a new invoice instead of re-opening this one.";
   }
+  const reopens = current.status === "PAID" && (next === "DRAFT" || next === "SENT");
+  if (reopens && (current.amountPaid ?? 0) > 0) {
+    return "This invoice has payments recorded; void and reissue.";
+  }
   return null;
 }
 
@@ -139,6 +155,10 @@ export async function PATCH(
       sentAt: true,
       paidAt: true,
       isQuote: true,
+      amountPaid: true,
+      total: true,
+      quoteAcceptedAt: true,
+      quoteDeclinedAt: true,
     },
   });
   if (!current) {
@@ -177,6 +197,14 @@ export async function PATCH(
         { status: 409 },
       );
     }
+    // A draft with a part payment on it is locked the same way: a new total
+    // could fall below what's already been paid.
+    if ((current.amountPaid ?? 0) > 0 && editsContent) {
+      return NextResponse.json(
+        { error: "This invoice has payments recorded; void and reissue." },
+        { status: 409 },
+      );
+    }
     const { clientName, clientEmail, issueDate, dueDate, lineItems, notes, status } = body;
     // Validate replacement line items before they reach calcInvoiceTotals /
     // prisma.update - a non-finite numeric would persist NaN totals.
@@ -196,7 +224,7 @@ export async function PATCH(
     }
     if (status !== undefined) {
       if (!isInvoiceStatus(status)) return errorResponse("Invalid status", 400);
-      const err = validateTransition(current.status, status);
+      const err = validateTransition(current, status);
       if (err) return errorResponse(err, 409);
     }
     // GST mode is driven by the live pricing settings (gstRegistered); the
@@ -245,6 +273,30 @@ export async function PATCH(
     return NextResponse.json({ ok: true, invoice });
   }
 
+  // Deposit-only patch: the amount the public quote page asks for on
+  // acceptance. Fixed once the customer has answered, so what they signed for
+  // is what they're charged; 0 or null clears it.
+  if (body.depositAmount !== undefined && body.status === undefined) {
+    if (!current.isQuote || current.status === "VOIDED") {
+      return errorResponse("Only an open quote can ask for a deposit.", 409);
+    }
+    if (current.quoteAcceptedAt || current.quoteDeclinedAt) {
+      return errorResponse("The customer has already answered this quote.", 409);
+    }
+    const raw = body.depositAmount;
+    const amount = raw === null || raw === "" ? 0 : Number(raw);
+    if (!Number.isFinite(amount) || amount < 0 || amount > current.total) {
+      return errorResponse("Deposit must be between $0 and the quote total.", 400);
+    }
+    const invoice = await prisma.invoice.update({
+      where: { id },
+      data: { depositAmount: amount > 0 ? Math.round(amount * 100) / 100 : null },
+    });
+    // The PDF's quote callout states the deposit.
+    await syncInvoicePdfToDriveById(id, "[invoice-patch]");
+    return NextResponse.json({ ok: true, invoice });
+  }
+
   // Status-only patch (the list-view dropdown). Intentionally does NOT
   // trigger the void notification flow (that lives at /void); statusDataFor
   // stamps/clears voidedAt so the detail page label stays in sync.
@@ -257,7 +309,7 @@ export async function PATCH(
   if (current.isQuote && status === "PAID") {
     return errorResponse("Convert the quote to an invoice before recording payment.", 409);
   }
-  const transitionErr = validateTransition(current.status, status);
+  const transitionErr = validateTransition(current, status);
   if (transitionErr) {
     return errorResponse(transitionErr, 409);
   }
@@ -265,6 +317,13 @@ export async function PATCH(
     where: { id },
     data: statusDataFor(status, current),
   });
+  // Marked sent or paid without going through send-email: the picked parts
+  // still leave the shelf. The helper claims a stamp, so it never issues twice.
+  if (current.status === "DRAFT" && (status === "SENT" || status === "PAID")) {
+    await issueInvoiceStock(id).catch((err) =>
+      console.error(`[invoice-patch] Stock issue failed for ${invoice.number}:`, err),
+    );
+  }
   // Status changes (Mark as paid, etc.) should be reflected in the Drive archive copy.
   await syncInvoicePdfToDriveById(id, "[invoice-patch]");
   return NextResponse.json({ ok: true, invoice });
@@ -3,7 +3,8 @@
  * @description Admin endpoint that emails an invoice to the client. POST
  * re-generates the PDF, sends it (with the review link when the customer is
  * eligible and the operator left it on), flips the invoice status to SENT, stamps
- * reviewLinkSentAt when the review line was included, and re-syncs the PDF to Drive.
+ * reviewLinkSentAt when the review line was included, takes any stock-picked
+ * parts off the shelf, and re-syncs the PDF to Drive.
  */
 
 import { getInvoiceReviewEligibility } from "@/features/business/lib/contact-review-token";
@@ -14,6 +15,8 @@ import {
   toInvoiceEmailPayload,
 } from "@/features/business/lib/invoice-email-request";
 import { generateInvoicePdf, serializeInvoice } from "@/features/business/lib/invoice-pdf";
+import { ensureInvoicePayToken } from "@/features/business/lib/online-payment";
+import { issueInvoiceStock } from "@/features/business/lib/stock-recording";
 import { sendInvoiceEmail } from "@/features/reviews/lib/email";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isAdminRequest } from "@/shared/lib/auth";
@@ -43,10 +46,12 @@ export async function POST(
 
   // Load the invoice
   const { id } = await ctx.params;
-  const invoice = await prisma.invoice.findUnique({ where: { id } });
-  if (!invoice) {
+  const found = await prisma.invoice.findUnique({ where: { id } });
+  if (!found) {
     return errorResponse("Invoice not found", 404);
   }
+  // Rows issued before pay links get their token now, so this send carries one.
+  const invoice = await ensureInvoicePayToken(found);
   if (!invoice.clientEmail) {
     return errorResponse("Invoice has no client email", 400);
   }
@@ -118,6 +123,13 @@ export async function POST(
     select: { updatedAt: true, sentAt: true },
   });
 
+  // Sending takes the invoice's stock-picked parts off the shelf. Only the
+  // first send does (the helper claims a stamp), and never for a quote.
+  // Best-effort: the email has gone either way.
+  await issueInvoiceStock(invoice.id).catch((err) =>
+    console.error(`[invoice-email] Stock issue failed for ${invoice.number}:`, err),
+  );
+
   // Sync the freshly-sent PDF to Drive so the archive matches what the client
   // received. Best-effort - the email is the critical path.
   await syncInvoicePdfToDrive(invoice, pdfBytes, "[invoice-email]");
@@ -82,6 +82,8 @@ export async function POST(
   if (sendNotification && pdfBytes && updated.clientEmail) {
     notified = await sendVoidNotification({
       invoice: {
+        id: updated.id,
+        contactId: updated.contactId,
         number: updated.number,
         clientName: updated.clientName,
         clientEmail: updated.clientEmail,
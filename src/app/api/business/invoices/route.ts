@@ -150,6 +150,21 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     GST_REGISTERED,
   );
 
+  // The job's technician, for per-technician reporting: from the linked
+  // booking, or the booking behind the linked calendar event.
+  const bookingIdValue = parseObjectId(bookingId);
+  const calendarEventIdValue =
+    typeof calendarEventId === "string" && calendarEventId ? calendarEventId : null;
+  const sourceBooking =
+    bookingIdValue || calendarEventIdValue
+      ? await prisma.booking.findFirst({
+          where: bookingIdValue
+            ? { id: bookingIdValue }
+            : { calendarEventId: calendarEventIdValue },
+          select: { technicianId: true },
+        })
+      : null;
+
   // Allocate a number and create the invoice, retrying on a unique-number
   // collision. Concurrent creates or a stale sheet counter can mint the same
   // number; the unique index rejects the loser, and getNextInvoiceNumber
@@ -185,9 +200,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           // id, which would 500 the create; it also throws at read time
           // otherwise); calendarEventId is a free-form Google id.
           contactId: parseObjectId(contactId),
-          bookingId: parseObjectId(bookingId),
-          calendarEventId:
-            typeof calendarEventId === "string" && calendarEventId ? calendarEventId : null,
+          bookingId: bookingIdValue,
+          calendarEventId: calendarEventIdValue,
+          technicianId: sourceBooking?.technicianId ?? null,
         },
       });
       break;
@@ -7,6 +7,7 @@
  */
 
 import { composeDescription, effectiveHourlyRate } from "@/features/business/lib/business";
+import { getLlmProvider, isLlmRateLimited } from "@/features/business/lib/llm-provider";
 import { clampBillableMins } from "@/features/business/lib/pricing-policy";
 import {
   buildParseJobContext,
@@ -25,7 +26,6 @@ import { prisma } from "@/shared/lib/prisma";
 import { getSettings } from "@/shared/lib/settings/get-settings";
 import { getPacificAucklandOffset, nzDateParts } from "@/shared/lib/timezone-utils";
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 
 // Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
 export const maxDuration = 60;
@@ -104,7 +104,8 @@ function findTemplateByTags<T extends { device: string | null; action: string |
 }
 
 /**
- * POST /api/business/parse-job - Parses a plain-English job description using gpt-4.1.
+ * POST /api/business/parse-job - Parses a plain-English job description with the
+ * configured model (see {@link getLlmProvider}).
  * Pre-computes session total from time ranges and attaches travel info from the AI-extracted
  * destination, falling back to the caller-supplied `fallbackDestination` when the text names none.
  * @param request - Incoming Next.js request with input string in body
@@ -162,8 +163,6 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
   }
 
-  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   try {
     // Load rates, templates and settings
     const [rates, templates, settings] = await Promise.all([
@@ -223,21 +222,24 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       userContent += `\n\n[User clarifications: ${clarifications}]`;
     }
 
-    // Call the model and parse the response. gpt-4.1 (not -mini) is deliberate:
-    // the 2026-07-24 eval showed mini obeying an injected negative-duration
-    // correction (parse-injection-negative) that 4.1 correctly ignores.
-    const completion = await client.chat.completions.create({
-      model: "gpt-4.1",
-      max_tokens: 1000,
+    // Call the model and parse the response. The model is a setting, defaulting
+    // to gpt-4.1 for the reason noted in the settings defaults. Replay keys on
+    // the operator's text and answers only: the context block carries the time
+    // of day, so the full message never matches a recording twice.
+    const text = await getLlmProvider(settings.estimator.ai).complete({
+      purpose: "parse-job",
+      model: settings.estimator.ai.parseJobModel,
+      maxTokens: 1000,
       temperature: 0,
-      response_format: { type: "json_object" },
+      format: { type: "json_object" },
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: userContent },
       ],
+      timeoutMs: 40_000,
+      retries: 2,
+      replayKey: JSON.stringify({ input: input.trim(), answers: safeAnswers }),
     });
-
-    const text = completion.choices[0]?.message?.content ?? "";
     const parsed = JSON.parse(text) as ParseJobResponse & { clarify?: ParseJobQuestion[] };
 
     if (!parsed || typeof parsed !== "object") throw new Error("Invalid response shape");
@@ -646,9 +648,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json({ ok: true, result: parsed });
   } catch (err) {
     console.error("[parse-job] failed:", err);
-    // Upstream OpenAI 429s are transient: mark them retryable so callers can
-    // back off and retry instead of reading a rate limit as a parse failure.
-    if (err instanceof OpenAI.RateLimitError) {
+    // A model 429 that outlasted the provider's backoff is still transient: mark
+    // it retryable so callers can back off and retry instead of reading a rate
+    // limit as a parse failure.
+    if (isLlmRateLimited(err)) {
       return NextResponse.json(
         { ok: false, error: "AI rate limited - try again shortly", retryable: true },
         { status: 429 },
@@ -0,0 +1,52 @@
+// src/app/api/business/stock/[id]/receive/route.ts
+/**
+ * @description Admin endpoint that receives parts into stock from a recorded
+ * expense. POST takes `{ expenseId, qty, unitCost? }`; the unit cost defaults
+ * to the expense amount over the quantity, and the item's average cost is
+ * re-worked from it by {@link receiveStock}.
+ */
+
+import { receiveStock } from "@/features/business/lib/stock-recording";
+import { parseAmount, parseObjectId } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/business/stock/[id]/receive
+ * @param request - Incoming request with `{ expenseId, qty, unitCost? }`.
+ * @param root0 - Route context.
+ * @param root0.params - Route params containing the item ID.
+ * @returns JSON with the updated item, or an error.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+  const id = parseObjectId((await params).id);
+  if (!id) return errorResponse("Stock item not found", 404);
+  const body = (await request.json().catch(() => null)) as {
+    expenseId?: unknown;
+    qty?: unknown;
+    unitCost?: unknown;
+  } | null;
+
+  const expenseId = parseObjectId(body?.expenseId);
+  if (!expenseId) return errorResponse("Pick the expense the parts came in on.", 400);
+  const qty = Number(body?.qty);
+  if (!Number.isInteger(qty) || qty < 1) {
+    return errorResponse("Quantity must be a whole number of at least 1.", 400);
+  }
+  let unitCost: number | null = null;
+  if (body?.unitCost != null && body.unitCost !== "") {
+    unitCost = parseAmount(body.unitCost);
+    if (unitCost === null) return errorResponse("Invalid unit cost", 400);
+  }
+
+  const result = await receiveStock(id, { expenseId, qty, unitCost });
+  if (!result.ok) return errorResponse(result.error, result.status);
+  return NextResponse.json({ ok: true, item: result.item });
+}
@@ -0,0 +1,56 @@
+// src/app/api/business/stock/[id]/route.ts
+/**
+ * @description Admin single-stock-item endpoint. PATCH applies a sparse update
+ * of the item's details; an `onHand` in the body is a stock count, written
+ * through {@link adjustStockCount} so the difference lands in the movement
+ * ledger. Items aren't deleted - their movements carry the margin history -
+ * so retiring one is `isActive: false`.
+ */
+
+import { parseStockItemFields, type StockItemBody } from "@/features/business/lib/stock";
+import { adjustStockCount } from "@/features/business/lib/stock-recording";
+import { parseObjectId } from "@/features/business/lib/validation";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * PATCH /api/business/stock/[id] - Partial update and/or stock count.
+ * @param request - Incoming request with partial StockItemBody plus optional `onHand` and `note`.
+ * @param root0 - Route context.
+ * @param root0.params - Route params containing the item ID.
+ * @returns JSON with the updated item.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+  const id = parseObjectId((await params).id);
+  if (!id) return errorResponse("Stock item not found", 404);
+  const body = (await request.json().catch(() => null)) as
+    (StockItemBody & { onHand?: unknown; note?: unknown }) | null;
+  if (!body) return errorResponse("Invalid request body", 400);
+  const parsed = parseStockItemFields(body);
+  if (!parsed.ok) return errorResponse(parsed.error, 400);
+
+  const existing = await prisma.stockItem.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) return errorResponse("Stock item not found", 404);
+
+  if (Object.keys(parsed.fields).length > 0) {
+    await prisma.stockItem.update({ where: { id }, data: parsed.fields });
+  }
+  if (body.onHand !== undefined) {
+    const onHand = Number(body.onHand);
+    if (!Number.isInteger(onHand)) return errorResponse("onHand must be a whole number", 400);
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : "Count";
+    const result = await adjustStockCount(id, onHand, note);
+    if (!result.ok) return errorResponse(result.error, result.status);
+  }
+
+  const item = await prisma.stockItem.findUniqueOrThrow({ where: { id } });
+  return NextResponse.json({ ok: true, item });
+}
@@ -0,0 +1,69 @@
+// src/app/api/business/stock/route.ts
+/**
+ * @description Admin stock collection endpoint. GET lists every stock item
+ * (active first, then by name); POST creates one from a {@link StockItemBody}
+ * via {@link parseStockItemFields}, recording an opening count when the body
+ * carries a quantity already on the shelf.
+ */
+
+import { parseStockItemFields, type StockItemBody } from "@/features/business/lib/stock";
+import { adjustStockCount } from "@/features/business/lib/stock-recording";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isAdminRequest } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/business/stock - Lists all stock items.
+ * @param request - Incoming request.
+ * @returns JSON with items array.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+  const items = await prisma.stockItem.findMany({
+    orderBy: [{ isActive: "desc" }, { name: "asc" }],
+  });
+  return NextResponse.json({ ok: true, items });
+}
+
+/**
+ * POST /api/business/stock - Creates a stock item.
+ * @param request - Incoming request with StockItemBody plus optional `onHand`.
+ * @returns JSON with the created item.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse("Unauthorized", 401);
+  }
+  const body = (await request.json().catch(() => null)) as
+    (StockItemBody & { onHand?: unknown }) | null;
+  if (!body) return errorResponse("Invalid request body", 400);
+  const parsed = parseStockItemFields(body);
+  if (!parsed.ok) return errorResponse(parsed.error, 400);
+  const { fields } = parsed;
+  if (!fields.name) return errorResponse("name is required", 400);
+  const opening = body.onHand === undefined || body.onHand === "" ? 0 : Number(body.onHand);
+  if (!Number.isInteger(opening) || opening < 0) {
+    return errorResponse("onHand must be a whole number", 400);
+  }
+
+  const created = await prisma.stockItem.create({
+    data: {
+      name: fields.name,
+      sku: fields.sku ?? null,
+      supplier: fields.supplier ?? null,
+      unitCost: fields.unitCost ?? 0,
+      markupPercent: fields.markupPercent ?? 0,
+      sellPrice: fields.sellPrice ?? null,
+      reorderLevel: fields.reorderLevel ?? null,
+      isActive: fields.isActive ?? true,
+    },
+  });
+  if (opening === 0) {
+    return NextResponse.json({ ok: true, item: created }, { status: 201 });
+  }
+  const result = await adjustStockCount(created.id, opening, "Opening count");
+  return NextResponse.json({ ok: true, item: result.ok ? result.item : created }, { status: 201 });
+}
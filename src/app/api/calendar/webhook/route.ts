@@ -0,0 +1,43 @@
+// src/app/api/calendar/webhook/route.ts
+/**
+ * @description Google Calendar push receiver. Google pings this whenever a
+ * watched calendar changes; the ping is verified against its stored channel and
+ * the calendar is synced incrementally. Answers 200 for anything handled or
+ * deliberately ignored, 400 for a forged or malformed ping, 503 when push sync
+ * is off, and 500 when the sync failed (the next ping, or the daily refresh,
+ * catches up).
+ */
+
+import { getCalendarPushMode, handleCalendarPush } from "@/features/calendar/lib/calendar-sync";
+import { errorResponse } from "@/shared/lib/api-response";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * POST /api/calendar/webhook
+ * @param request - Push notification from Google (or a fake ping in dev).
+ * @returns JSON `{ ok, result }`, or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!getCalendarPushMode()) {
+    return errorResponse("Calendar push is not configured.", 503);
+  }
+
+  const rawBody = await request.text();
+  try {
+    const outcome = await handleCalendarPush(rawBody, request.headers);
+    if (outcome.kind === "invalid") {
+      console.warn(`[calendar/webhook] Rejected ping: ${outcome.reason}`);
+      return errorResponse("Invalid notification.", 400);
+    }
+    if (outcome.kind === "ignored") {
+      return NextResponse.json({ ok: true, result: "ignored" });
+    }
+    return NextResponse.json({ ok: true, result: outcome.result });
+  } catch (err) {
+    console.error("[calendar/webhook] Sync failed:", err);
+    return errorResponse("Failed to sync calendar.", 500);
+  }
+}
@@ -0,0 +1,36 @@
+// src/app/api/cron/bill-retainers/route.ts
+/**
+ * @description Cron endpoint (Bearer-authorised) that closes last month's
+ * retainer hours and raises each retainer client's monthly invoice - a draft, or
+ * sent straight away per the pricing settings. Run daily at 8am NZ time via
+ * cron-job.org alongside record-subscriptions; only the first run of a month
+ * bills anything, later runs retry any contact that failed.
+ */
+
+import { billRetainers } from "@/features/business/lib/retainer-billing";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isCronAuthorized } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/bill-retainers
+ * Bills every retainer contact for the NZ month just ended.
+ * @param request - Incoming cron request.
+ * @returns JSON with the month closed, invoices raised, skips, and any errors.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isCronAuthorized(request)) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    const run = await billRetainers();
+    return NextResponse.json({ ok: true, ...run });
+  } catch (error) {
+    console.error("[cron/bill-retainers] Error:", error);
+    return errorResponse("Failed to bill retainers", 500);
+  }
+}
@@ -0,0 +1,35 @@
+// src/app/api/cron/dispatch-outbox/route.ts
+/**
+ * @description Cron that retries queued outbox emails whose backoff has
+ * elapsed. Most mail goes out on its inline first attempt; this only picks up
+ * the ones that failed (Resend outage, rate limit) or were orphaned mid-send.
+ * Called every 5 minutes via cron-job.org; each run handles one bounded batch.
+ */
+
+import { dispatchDueMessages } from "@/features/messaging/lib/outbox";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isCronAuthorized } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/dispatch-outbox
+ * @param request - Incoming cron request.
+ * @returns JSON `{ ok, sent, failed }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isCronAuthorized(request)) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    const results = await dispatchDueMessages();
+    console.log(`[cron/dispatch-outbox] done: sent=${results.sent} failed=${results.failed}`);
+    return NextResponse.json({ ok: true, ...results });
+  } catch (error) {
+    console.error("[cron/dispatch-outbox] error:", error);
+    return errorResponse("Failed to dispatch outbox", 500);
+  }
+}
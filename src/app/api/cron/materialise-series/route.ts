@@ -0,0 +1,38 @@
+// src/app/api/cron/materialise-series/route.ts
+/**
+ * @description Cron endpoint that rolls recurring booking series forward,
+ * creating each series' visits as the booking horizon reaches them. Called
+ * externally via cron-job.org once a day, after the calendar cache refresh so
+ * new visits are checked against current events.
+ */
+
+import { materialiseAllSeries } from "@/features/booking/lib/booking-series.server";
+import { SCHEDULE_CALENDAR_TAG } from "@/features/calendar/lib/google-calendar";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isCronAuthorized } from "@/shared/lib/auth";
+import { revalidateTag } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/materialise-series
+ * Creates the next visits for every open recurring series.
+ * @param request - The incoming cron request.
+ * @returns JSON with series processed and visits created / skipped.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isCronAuthorized(request)) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    const result = await materialiseAllSeries();
+    if (result.created > 0) revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("[cron/materialise-series] Error:", error);
+    return errorResponse("Failed to materialise series", 500);
+  }
+}
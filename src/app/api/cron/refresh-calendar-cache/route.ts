@@ -4,6 +4,8 @@
  * Called externally via cron-job.org every 30 minutes. The cache backs
  * booking-page availability; the admin schedule reads Google live through
  * getCachedScheduleEvents, so it stays current regardless of this cadence.
+ * With CALENDAR_PUSH on, changes reach the cache through the push webhook
+ * within seconds and this can drop to a daily reconciliation run.
  */
 
 import { refreshCalendarCache } from "@/features/calendar/lib/calendar-cache";
@@ -1,9 +1,12 @@
 // src/app/api/cron/release-holds/route.ts
 /**
  * @description Cron endpoint to release expired booking holds.
- * Called externally via cron-job.org every 15 minutes.
+ * Called externally via cron-job.org every 15 minutes. A lapsed hold that was a
+ * waitlist offer passes its slot to the next person on that day's waitlist.
  */
 
+import { settleDayClearancesForBooking } from "@/features/booking/lib/day-clearance.server";
+import { passSlotToWaitlist } from "@/features/booking/lib/waitlist.server";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isCronAuthorized } from "@/shared/lib/auth";
 import { prisma } from "@/shared/lib/prisma";
@@ -30,7 +33,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         status: "held",
         holdExpiresAt: { lte: now },
       },
-      select: { id: true },
+      select: { id: true, startAt: true, meetingType: true },
     });
 
     const ids = expired.map((b) => b.id);
@@ -40,7 +43,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       // findMany and this write (slow calendar-create straddling expiry) is not
       // clobbered back to cancelled. updateMany accepts the non-unique guard;
       // the per-id activeSlotKey stays unique to satisfy the slot constraint.
-      await Promise.all(
+      const results = await Promise.all(
         ids.map((id) =>
           prisma.booking.updateMany({
             where: { id, status: "held", holdExpiresAt: { lte: now } },
@@ -48,6 +51,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           }),
         ),
       );
+      // A lapsed hold may have been the last booking on a day being cleared, or
+      // a waitlist offer whose slot now goes to the next in line. Sequential so
+      // the waitlist's calendar reads stay bounded.
+      for (const [i, booking] of expired.entries()) {
+        await settleDayClearancesForBooking(booking.id);
+        if (results[i].count > 0) await passSlotToWaitlist(booking);
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,34 @@
+// src/app/api/cron/renew-calendar-channels/route.ts
+/**
+ * @description Cron endpoint that keeps a Google push channel open on every
+ * configured calendar. Channels last about a week, so a daily run replaces each
+ * one well before it lapses. No-op while CALENDAR_PUSH is unset.
+ */
+
+import { renewCalendarChannels } from "@/features/calendar/lib/calendar-sync";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isCronAuthorized } from "@/shared/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/renew-calendar-channels
+ * Opens or replaces push channels that are missing or close to expiry.
+ * @param request - The incoming cron request.
+ * @returns JSON response with renewal counts.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isCronAuthorized(request)) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    const result = await renewCalendarChannels();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("[cron/renew-calendar-channels] Error:", error);
+    return errorResponse("Failed to renew calendar channels", 500);
+  }
+}
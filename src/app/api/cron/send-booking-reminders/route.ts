@@ -1,9 +1,11 @@
 // src/app/api/cron/send-booking-reminders/route.ts
 /**
- * @description Cron that sends a 24h-out email reminder for confirmed bookings.
+ * @description Cron that sends a 24h-out email reminder for confirmed bookings,
+ * plus a text reminder to customers who opted in to one.
  *
- * Window: bookings starting in 13-25 hours from now, not previously emailed.
- * Idempotent via Booking.emailReminderSentAt. Lower bound =
+ * Window: bookings starting in 13-25 hours from now, not previously reminded.
+ * Idempotent via Booking.emailReminderSentAt and smsReminderSentAt - one stamp
+ * per channel, so a failed text never re-sends the email. Lower bound =
  * CANCELLATION.freeNoticeHours + 1 so reminders always land while the customer
  * can still cancel free - reading the $30 fee in a reminder would read as a
  * bait-and-switch.
@@ -15,8 +17,9 @@
  * which on whole-hour inputs allows a window just 1 hour wide.
  */
 
-import { combineUnitAndAddress } from "@/features/booking/lib/booking";
+import { calendarSequence, combineUnitAndAddress } from "@/features/booking/lib/booking";
 import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { sendBookingSms } from "@/features/messaging/lib/booking-sms";
 import { sendBookingReminderEmail } from "@/features/reviews/lib/email";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isCronAuthorized } from "@/shared/lib/auth";
@@ -30,7 +33,7 @@ export const maxDuration = 60;
 /**
  * GET /api/cron/send-booking-reminders
  * @param request - Incoming cron request.
- * @returns JSON `{ ok, emailsSent, failed, errors }`.
+ * @returns JSON `{ ok, emailsSent, smsSent, failed, errors }`.
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   if (!isCronAuthorized(request)) {
@@ -40,7 +43,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
     // Load settings and policy
     const { comms } = await getSettings();
-    if (!comms.notifyReminder) {
+    if (!comms.notifyReminder && !comms.smsReminderEnabled) {
       return NextResponse.json({ ok: true, skipped: "reminders disabled", emailsSent: 0 });
     }
 
@@ -53,31 +56,34 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const upperTime = new Date(now.getTime() + comms.reminderLeadHours * 60 * 60 * 1000);
 
     // Find bookings needing reminders
-    const emailCandidates = await prisma.booking.findMany({
-      where: {
-        status: "confirmed",
-        startAt: { gt: fromTime, lte: upperTime },
-        OR: [{ emailReminderSentAt: null }, { emailReminderSentAt: { isSet: false } }],
-      },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        notes: true,
-        startAt: true,
-        endAt: true,
-        cancelToken: true,
-        promoTitleAtBooking: true,
-        address: true,
-        unit: true,
-        meetingType: true,
-        rescheduleCount: true,
-      },
-    });
+    const emailCandidates = !comms.notifyReminder
+      ? []
+      : await prisma.booking.findMany({
+          where: {
+            status: "confirmed",
+            startAt: { gt: fromTime, lte: upperTime },
+            OR: [{ emailReminderSentAt: null }, { emailReminderSentAt: { isSet: false } }],
+          },
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            notes: true,
+            startAt: true,
+            endAt: true,
+            cancelToken: true,
+            promoTitleAtBooking: true,
+            address: true,
+            unit: true,
+            meetingType: true,
+            rescheduleCount: true,
+            operatorMoveCount: true,
+          },
+        });
 
     console.log(`[cron/send-booking-reminders] found ${emailCandidates.length} email candidate(s)`);
 
-    const results = { emailsSent: 0, failed: 0, errors: [] as string[] };
+    const results = { emailsSent: 0, smsSent: 0, failed: 0, errors: [] as string[] };
 
     // Send each reminder email
     for (const b of emailCandidates) {
@@ -93,13 +99,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           promoTitleAtBooking: b.promoTitleAtBooking,
           address: combineUnitAndAddress(b.unit ?? "", b.address ?? ""),
           meetingType: b.meetingType,
-          rescheduleCount: b.rescheduleCount,
+          calendarSequence: calendarSequence(b),
         });
-        // Only stamp sent-at after Resend accepts the send. Stamping before
-        // would silently drop the reminder forever on a transient hiccup,
-        // since the next cron run would skip a non-null timestamp. A duplicate
-        // send (if the cron times out between the send and the update) is
-        // recoverable; a missed appointment reminder isn't.
+        // Only stamp sent-at once the outbox has the email (it retries
+        // delivery itself). Stamping before would silently drop the reminder
+        // forever on a transient hiccup, since the next cron run would skip a
+        // non-null timestamp. A duplicate send (if the cron times out between
+        // the send and the update) is recoverable; a missed reminder isn't.
         if (ok) {
           await prisma.booking.update({
             where: { id: b.id },
@@ -116,8 +122,43 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       }
     }
 
+    // Text reminders: same window, their own sent-at stamp.
+    const smsCandidates = !comms.smsReminderEnabled
+      ? []
+      : await prisma.booking.findMany({
+          where: {
+            status: "confirmed",
+            startAt: { gt: fromTime, lte: upperTime },
+            smsOptIn: { has: "reminder" },
+            phone: { not: null },
+            OR: [{ smsReminderSentAt: null }, { smsReminderSentAt: { isSet: false } }],
+          },
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+            startAt: true,
+            cancelToken: true,
+            reviewToken: true,
+            smsOptIn: true,
+          },
+        });
+
+    // sendBookingSms never throws. Only a delivered text is stamped, so a
+    // failed one is retried on the next run, as with the email above.
+    for (const b of smsCandidates) {
+      const outcome = await sendBookingSms("reminder", b);
+      if (outcome === "sent") {
+        await prisma.booking.update({ where: { id: b.id }, data: { smsReminderSentAt: now } });
+        results.smsSent++;
+      } else if (outcome === "failed") {
+        results.failed++;
+        results.errors.push(`sms ${b.id}: send failed`);
+      }
+    }
+
     console.log(
-      `[cron/send-booking-reminders] done: emails=${results.emailsSent} failed=${results.failed}`,
+      `[cron/send-booking-reminders] done: emails=${results.emailsSent} sms=${results.smsSent} failed=${results.failed}`,
     );
     return NextResponse.json({ ok: true, ...results });
   } catch (error) {
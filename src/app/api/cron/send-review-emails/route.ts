@@ -1,12 +1,14 @@
 // src/app/api/cron/send-review-emails/route.ts
 /**
  * @description Cron job that sends review request emails once a booking has been
- * finished for the configured delay. Called externally via cron-job.org hourly.
+ * finished for the configured delay, plus the review text to customers who
+ * opted in to it. Called externally via cron-job.org hourly.
  * The query is unbounded catch-up work ("ended long enough ago and not yet
  * emailed"), so the cadence only shifts when a mail goes out, never whether it
  * does - safe to slow further if function CPU ever needs trimming again.
  */
 
+import { sendBookingSms } from "@/features/messaging/lib/booking-sms";
 import { sendCustomerReviewRequest } from "@/features/reviews/lib/email";
 import { errorResponse } from "@/shared/lib/api-response";
 import { isCronAuthorized } from "@/shared/lib/auth";
@@ -32,7 +34,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
     // Load settings and compute the cutoff
     const { comms } = await getSettings();
-    if (!comms.notifyReviewRequest) {
+    if (!comms.notifyReviewRequest && !comms.smsReviewRequestEnabled) {
       return NextResponse.json({ ok: true, skipped: "review requests disabled", sent: 0 });
     }
 
@@ -54,12 +56,21 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         },
         status: { in: ["confirmed", "completed"] },
         OR: [{ reviewSentAt: null }, { reviewSentAt: { isSet: false } }],
+        // With email requests off only a text can go out, so leave bookings that
+        // can't receive one untouched for when email is switched back on.
+        ...(comms.notifyReviewRequest
+          ? {}
+          : { smsOptIn: { has: "review_request" }, phone: { not: null } }),
       },
       select: {
         id: true,
         name: true,
         email: true,
         reviewToken: true,
+        phone: true,
+        startAt: true,
+        cancelToken: true,
+        smsOptIn: true,
       },
     });
 
@@ -143,30 +154,43 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       found: bookingsToEmail.length,
       suppressed: toSuppress.length,
       sent: 0,
+      smsSent: 0,
       failed: 0,
       errors: [] as string[],
     };
 
     for (const booking of toSend) {
       try {
+        if (!comms.notifyReviewRequest) {
+          // Text-only: stamp once the text has actually gone, so a booking the
+          // provider skipped or rejected is still asked by email later.
+          if ((await sendBookingSms("review_request", booking)) !== "sent") continue;
+          await prisma.booking.update({
+            where: { id: booking.id },
+            data: { reviewSentAt: now },
+          });
+          results.smsSent++;
+          continue;
+        }
+
         // Mark as sent FIRST so a crash between the write and the send can never
-        // double-email. If the send itself reports failure we stamp
-        // reviewSendFailedAt so the retry pass below gives it exactly one more go.
+        // double-email. A failed delivery stays queued in the outbox, which
+        // retries it with backoff, so there is no retry pass here.
         await prisma.booking.update({
           where: { id: booking.id },
           data: { reviewSentAt: now },
         });
 
-        const ok = await sendCustomerReviewRequest(booking);
-        if (ok) {
+        // The text rides on the same sent-at stamp: one ask per booking,
+        // whichever channels it goes out on. sendBookingSms never throws.
+        if ((await sendBookingSms("review_request", booking)) === "sent") results.smsSent++;
+
+        // False only when the email could be neither queued nor sent directly.
+        if (await sendCustomerReviewRequest(booking)) {
           results.sent++;
         } else {
-          await prisma.booking.update({
-            where: { id: booking.id },
-            data: { reviewSendFailedAt: now },
-          });
           results.failed++;
-          results.errors.push(`Booking ${booking.id}: send failed (will retry once)`);
+          results.errors.push(`Booking ${booking.id}: email could not be queued`);
         }
       } catch (error) {
         console.error(`[review-email] Failed for booking ${booking.id}:`, error);
@@ -175,36 +199,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       }
     }
 
-    // Retry pass: bookings whose previous send reported failure get one more
-    // attempt. The flag is cleared either way (cap of one retry) so a persistent
-    // failure gives up rather than emailing forever.
-    const failedBookings = await prisma.booking.findMany({
-      where: { reviewSendFailedAt: { not: null } },
-      select: { id: true, name: true, email: true, reviewToken: true },
-    });
-    let retried = 0;
-    for (const booking of failedBookings) {
-      const ok = await sendCustomerReviewRequest(booking);
-      await prisma.booking.update({
-        where: { id: booking.id },
-        data: { reviewSendFailedAt: null },
-      });
-      if (ok) {
-        retried++;
-        results.sent++;
-      } else {
-        console.warn(`[review-email] Giving up on booking ${booking.id} after one retry.`);
-      }
-    }
-
     console.log(
-      `[cron/send-review-emails] done: sent=${results.sent} suppressed=${results.suppressed} failed=${results.failed} retried=${retried}`,
+      `[cron/send-review-emails] done: sent=${results.sent} sms=${results.smsSent} suppressed=${results.suppressed} failed=${results.failed}`,
     );
 
     return NextResponse.json({
       ok: true,
       ...results,
-      retried,
     });
   } catch (error) {
     console.error("[review-email] Cron error:", error);
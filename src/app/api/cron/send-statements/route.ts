@@ -0,0 +1,116 @@
+// src/app/api/cron/send-statements/route.ts
+// Daily cron sending the monthly statement of account to every contact with an
+// overdue balance, from the comms-settings statement day onwards. Idempotent
+// via Contact.statementSentAt: one statement per contact per NZ month.
+
+import { isInvoiceOverdue, NOT_A_QUOTE_FILTER } from "@/features/business/lib/invoice-status";
+import {
+  buildStatement,
+  defaultStatementRange,
+  emailStatement,
+} from "@/features/business/lib/statement";
+import { errorResponse } from "@/shared/lib/api-response";
+import { isCronAuthorized } from "@/shared/lib/auth";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { nzDateKey, nzDateParts } from "@/shared/lib/timezone-utils";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/send-statements
+ * @param request - Incoming cron request.
+ * @returns JSON `{ ok, sent, skipped, failed, errors }`.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!isCronAuthorized(request)) {
+    return errorResponse("Unauthorized", 401);
+  }
+
+  try {
+    const { comms } = await getSettings();
+    if (!comms.statementsEnabled) {
+      return NextResponse.json({ ok: true, skipped: "statements disabled", sent: 0 });
+    }
+    const now = new Date();
+    if (nzDateParts(now)[2] < comms.statementDayOfMonth) {
+      return NextResponse.json({ ok: true, skipped: "before statement day", sent: 0 });
+    }
+    const monthKey = nzDateKey(now).slice(0, 7);
+
+    // Coarse filter in the query; the balance-aware overdue check runs per row.
+    const candidates = await prisma.invoice.findMany({
+      where: { status: "SENT", dueDate: { lt: now }, ...NOT_A_QUOTE_FILTER },
+      select: {
+        status: true,
+        dueDate: true,
+        total: true,
+        amountPaid: true,
+        contactId: true,
+        clientEmail: true,
+      },
+    });
+    const overdue = candidates.filter((inv) => isInvoiceOverdue(inv, now));
+
+    // Resolve each overdue invoice to its contact: the link first, then a
+    // case-insensitive email match for invoices from before the contactId backfill.
+    const contactIds = new Set(overdue.flatMap((inv) => (inv.contactId ? [inv.contactId] : [])));
+    const unlinkedEmails = [
+      ...new Set(overdue.filter((inv) => !inv.contactId).map((inv) => inv.clientEmail)),
+    ].filter(Boolean);
+    if (unlinkedEmails.length > 0) {
+      const matched = await prisma.contact.findMany({
+        where: {
+          deletedAt: null,
+          OR: unlinkedEmails.map((e) => ({ email: { equals: e, mode: "insensitive" as const } })),
+        },
+        select: { id: true },
+      });
+      for (const c of matched) contactIds.add(c.id);
+    }
+
+    const contacts = await prisma.contact.findMany({
+      where: { id: { in: [...contactIds] }, deletedAt: null },
+      select: { id: true, name: true, email: true, statementSentAt: true },
+    });
+    const range = defaultStatementRange(now);
+    const results = { sent: 0, skipped: 0, failed: 0, errors: [] as string[] };
+
+    for (const contact of contacts) {
+      if (
+        !contact.email ||
+        (contact.statementSentAt && nzDateKey(contact.statementSentAt).startsWith(monthKey))
+      ) {
+        results.skipped++;
+        continue;
+      }
+      try {
+        const statement = await buildStatement(contact.id, range, now);
+        if (!statement || statement.overdueTotal <= 0) {
+          results.skipped++;
+          continue;
+        }
+        if (await emailStatement(statement)) {
+          results.sent++;
+          console.log(`[cron/send-statements] sent statement to ${contact.name}`);
+        } else {
+          results.failed++;
+          results.errors.push(`${contact.name}: email send failed`);
+        }
+      } catch (err) {
+        results.failed++;
+        results.errors.push(`${contact.name}: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    }
+
+    console.log(
+      `[cron/send-statements] done: ${results.sent} sent, ${results.skipped} skipped, ${results.failed} failed`,
+    );
+    return NextResponse.json({ ok: true, ...results });
+  } catch (error) {
+    console.error("[cron/send-statements] Error:", error);
+    return errorResponse("Internal error", 500);
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/pay/checkout/route.ts
+/**
+ * @description Public endpoint behind the "Pay by card" button on /pay. The
+ * button is a plain form post, so this answers with redirects rather than JSON:
+ * on to the provider's hosted checkout, or back to the pay page with an error
+ * flag when checkout can't open.
+ */
+
+import { startInvoiceCheckout } from "@/features/business/lib/online-payment";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/pay/checkout
+ * Form body: `token` (the invoice's pay token).
+ * @param request - Incoming form post.
+ * @returns 303 to the provider checkout, or back to /pay with `status=error`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "pay-checkout", 10, 60_000);
+  if (limited) return limited;
+
+  const form = await request.formData().catch(() => null);
+  const token = form?.get("token");
+  if (typeof token !== "string" || !token) {
+    return NextResponse.redirect(`${getSiteUrl()}/pay`, 303);
+  }
+  const back = `${getSiteUrl()}/pay?token=${encodeURIComponent(token)}`;
+
+  try {
+    const result = await startInvoiceCheckout(token);
+    if (!result.ok) {
+      return NextResponse.redirect(`${back}&status=error`, 303);
+    }
+    return NextResponse.redirect(result.url, 303);
+  } catch (err) {
+    console.error("[pay/checkout] Checkout failed:", err);
+    return NextResponse.redirect(`${back}&status=error`, 303);
+  }
+}
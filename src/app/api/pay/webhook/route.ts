@@ -0,0 +1,46 @@
+// src/app/api/pay/webhook/route.ts
+/**
+ * @description Payment provider webhook. Hands the raw body to the configured
+ * provider to verify and parse, and records a completed payment against its
+ * invoice. Answers 200 for anything handled or deliberately ignored, so the
+ * provider stops retrying; 400 for a bad signature; 500 when recording failed,
+ * so the provider retries (recording is idempotent).
+ */
+
+import { recordOnlinePayment } from "@/features/business/lib/online-payment";
+import { getPaymentProvider } from "@/features/business/lib/payment-provider";
+import { errorResponse } from "@/shared/lib/api-response";
+import { NextRequest, NextResponse } from "next/server";
+
+// Raise the serverless ceiling so a slow upstream call (LLM / Google API / PDF) cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * POST /api/pay/webhook
+ * @param request - Provider webhook delivery.
+ * @returns JSON `{ ok, result }`, or an error.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const provider = getPaymentProvider();
+  if (!provider) {
+    return errorResponse("Online payment is not configured.", 503);
+  }
+
+  const rawBody = await request.text();
+  const parsed = await provider.parseWebhook(rawBody, request.headers);
+  if (parsed.kind === "invalid") {
+    console.warn(`[pay/webhook] Rejected ${provider.name} delivery: ${parsed.reason}`);
+    return errorResponse("Invalid webhook.", 400);
+  }
+  if (parsed.kind === "ignored") {
+    return NextResponse.json({ ok: true, result: "ignored" });
+  }
+
+  try {
+    const result = await recordOnlinePayment(parsed.event);
+    return NextResponse.json({ ok: true, result });
+  } catch (err) {
+    console.error(`[pay/webhook] Recording ${parsed.event.sessionId} failed:`, err);
+    return errorResponse("Failed to record payment.", 500);
+  }
+}
@@ -10,7 +10,7 @@
 import { errorResponse } from "@/shared/lib/api-response";
 import { prisma } from "@/shared/lib/prisma";
 import { rateLimitOrReject } from "@/shared/lib/rate-limit";
-import { AiEstimateCategory } from "@prisma/client";
+import { AiEstimateCategory, EstimateConfidence } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 
 interface LogBody {
@@ -19,6 +19,7 @@ interface LogBody {
   aiCategory?: unknown;
   aiExplanation?: unknown;
   aiTasks?: unknown;
+  aiConfidence?: unknown;
   address?: unknown;
   travelMins?: unknown;
   travelMinsBack?: unknown;
@@ -80,6 +81,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   const aiExplanation =
     typeof body.aiExplanation === "string" ? body.aiExplanation.trim().slice(0, 400) : "";
   const aiTasks = cleanTasks(body.aiTasks);
+  // Picks the range band the customer was shown; the accuracy report checks
+  // each band against the billed job. Anything unrecognised stays unrecorded.
+  const aiConfidence =
+    Object.values(EstimateConfidence).find((c) => c === body.aiConfidence) ?? null;
 
   const address =
     typeof body.address === "string" && body.address.trim()
@@ -119,6 +124,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         aiCategory,
         aiExplanation,
         aiTasks,
+        aiConfidence,
         address,
         travelMins,
         travelMinsBack,
@@ -0,0 +1,44 @@
+// src/app/api/quote/pdf/route.ts
+/**
+ * @description Public PDF behind the /quote page, keyed on the quote's token.
+ * Renders with the same generator as the emailed attachment, inline so the
+ * page can show it in a frame. Once the quote is converted the same link
+ * serves the invoice it became.
+ */
+
+import { generateInvoicePdf, serializeInvoice } from "@/features/business/lib/invoice-pdf";
+import { errorResponse } from "@/shared/lib/api-response";
+import { prisma } from "@/shared/lib/prisma";
+import { rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { NextRequest } from "next/server";
+
+// Raise the serverless ceiling so a slow PDF render cannot 504 on the default timeout.
+export const maxDuration = 60;
+
+/**
+ * GET /api/quote/pdf?token=<payToken>
+ * @param request - Incoming request carrying the token.
+ * @returns The PDF inline, or an error.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const limited = rateLimitOrReject(request, "quote-pdf", 20, 60_000);
+  if (limited) return limited;
+
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token) return errorResponse("Quote not found", 404);
+  const invoice = await prisma.invoice.findFirst({ where: { payToken: token } });
+  // Only rows that were quotes: a plain invoice's token opens /pay, not this.
+  if (!invoice || (!invoice.isQuote && !invoice.quoteAcceptedAt)) {
+    return errorResponse("Quote not found", 404);
+  }
+
+  const pdfBytes = await generateInvoicePdf(serializeInvoice(invoice));
+  const label = invoice.isQuote ? "Quote" : "Invoice";
+  return new Response(new Uint8Array(pdfBytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${label} ${invoice.number}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
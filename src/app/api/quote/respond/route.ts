@@ -0,0 +1,119 @@
+// src/app/api/quote/respond/route.ts
+/**
+ * @description Public endpoint behind the Accept / Decline / "request a fresh
+ * quote" forms on /quote. Like the pay checkout, the forms are plain posts, so
+ * this answers with a redirect back to the quote page carrying a status flag.
+ * Acceptance is signed by the typed name plus the "I accept" tick, and stored
+ * with the time and client IP; the owner is emailed about every answer.
+ */
+
+import {
+  acceptQuote,
+  declineQuote,
+  requestFreshQuote,
+} from "@/features/business/lib/quote-acceptance.server";
+import { sendOwnerQuoteResponseNotification } from "@/features/reviews/lib/email";
+import { getClientIp, rateLimitOrReject } from "@/shared/lib/rate-limit";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import type { Invoice } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+// Acceptance converts the quote and re-uploads its PDF to Drive, awaited.
+export const maxDuration = 60;
+
+/**
+ * Reads a string field from the form, "" when absent.
+ * @param form - Posted form data.
+ * @param key - Field name.
+ * @returns The field's value.
+ */
+function field(form: FormData | null, key: string): string {
+  const value = form?.get(key);
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * The owner notification for an answer.
+ * @param invoice - The row after the answer was recorded.
+ * @param quoteNumber - The Q- number the customer answered.
+ * @param outcome - What they did.
+ * @returns Notification payload.
+ */
+function notification(
+  invoice: Invoice,
+  quoteNumber: string,
+  outcome: "accepted" | "declined" | "refresh",
+): Parameters<typeof sendOwnerQuoteResponseNotification>[0] {
+  return {
+    invoiceId: invoice.id,
+    quoteNumber,
+    invoiceNumber: invoice.isQuote ? null : invoice.number,
+    clientName: invoice.clientName,
+    clientEmail: invoice.clientEmail,
+    total: invoice.total,
+    outcome,
+    signedName: invoice.quoteAcceptedName,
+    reason: invoice.quoteDeclineReason,
+    depositAmount: invoice.depositAmount,
+  };
+}
+
+/**
+ * POST /api/quote/respond
+ * Form body: `token`, `action` (accept | decline | refresh), and for accept
+ * `name` + `agree`, for decline an optional `reason`.
+ * @param request - Incoming form post.
+ * @returns 303 back to /quote with `status` set to the outcome.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const limited = rateLimitOrReject(request, "quote-respond", 10, 60_000);
+  if (limited) return limited;
+
+  const form = await request.formData().catch(() => null);
+  const token = field(form, "token");
+  if (!token) return NextResponse.redirect(`${getSiteUrl()}/quote`, 303);
+  const back = `${getSiteUrl()}/quote?token=${encodeURIComponent(token)}`;
+  const action = field(form, "action");
+
+  try {
+    if (action === "accept") {
+      if (field(form, "agree") !== "on") {
+        return NextResponse.redirect(`${back}&status=signature`, 303);
+      }
+      const result = await acceptQuote(token, {
+        name: field(form, "name"),
+        ip: getClientIp(request),
+      });
+      if (!result.ok) {
+        const status = result.status === 400 ? "signature" : "error";
+        return NextResponse.redirect(`${back}&status=${status}`, 303);
+      }
+      await sendOwnerQuoteResponseNotification(
+        notification(result.invoice, result.quoteNumber, "accepted"),
+      );
+      return NextResponse.redirect(`${back}&status=accepted`, 303);
+    }
+    if (action === "decline") {
+      const result = await declineQuote(token, field(form, "reason"));
+      if (!result.ok) return NextResponse.redirect(`${back}&status=error`, 303);
+      await sendOwnerQuoteResponseNotification(
+        notification(result.invoice, result.quoteNumber, "declined"),
+      );
+      return NextResponse.redirect(`${back}&status=declined`, 303);
+    }
+    if (action === "refresh") {
+      const result = await requestFreshQuote(token);
+      if (!result.ok) return NextResponse.redirect(`${back}&status=error`, 303);
+      if (result.firstAsk) {
+        await sendOwnerQuoteResponseNotification(
+          notification(result.invoice, result.invoice.number, "refresh"),
+        );
+      }
+      return NextResponse.redirect(`${back}&status=requested`, 303);
+    }
+    return NextResponse.redirect(back, 303);
+  } catch (err) {
+    console.error("[quote/respond] Answer failed:", err);
+    return NextResponse.redirect(`${back}&status=error`, 303);
+  }
+}
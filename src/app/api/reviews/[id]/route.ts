@@ -4,7 +4,11 @@
  */
 
 import { revalidateReviewPaths } from "@/features/reviews/lib/revalidate";
-import { reviewTextError } from "@/features/reviews/lib/validation";
+import {
+  parseAspectRatings,
+  reviewRatingError,
+  reviewTextError,
+} from "@/features/reviews/lib/validation";
 import { errorResponse } from "@/shared/lib/api-response";
 import { prisma } from "@/shared/lib/prisma";
 import { rateLimitOrReject } from "@/shared/lib/rate-limit";
@@ -27,12 +31,16 @@ export async function PATCH(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { text, firstName, lastName, isAnonymous, customerRef } = body;
+    const { text, firstName, lastName, isAnonymous, customerRef, rating } = body;
 
     // Same 10-1000 char rule as the create path (reviewTextError), so a review
     // that was accepted on submit can always be edited.
     const textErr = reviewTextError(text);
     if (textErr) return errorResponse(textErr, 400);
+    const ratingErr = reviewRatingError(rating);
+    if (ratingErr) return errorResponse(ratingErr, 400);
+    const aspectRatings = parseAspectRatings(body.aspectRatings);
+    if (typeof aspectRatings === "string") return errorResponse(aspectRatings, 400);
 
     // Find review and check customerRef
     const review = await prisma.review.findUnique({ where: { id } });
@@ -65,6 +73,8 @@ export async function PATCH(
       where: { id },
       data: {
         text: text.trim(),
+        rating,
+        aspectRatings,
         firstName: isAnonymous ? null : firstName?.trim() || null,
         lastName: isAnonymous ? null : lastName?.trim() || null,
         isAnonymous: !!isAnonymous,
@@ -87,6 +97,7 @@ export async function PATCH(
         lastName: ln,
         isAnonymous: anon,
         verified,
+        rating: stars,
       } = updated;
       void import("@/features/reviews/lib/email").then((m) =>
         m.sendOwnerReviewNotification({
@@ -96,6 +107,7 @@ export async function PATCH(
           lastName: ln,
           isAnonymous: anon,
           verified: !!verified,
+          rating: stars,
         }),
       );
     } catch (e) {
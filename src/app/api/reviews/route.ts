@@ -5,7 +5,11 @@
 
 import { sendOwnerReviewNotification } from "@/features/reviews/lib/email";
 import { revalidateReviewPaths } from "@/features/reviews/lib/revalidate";
-import { reviewTextError } from "@/features/reviews/lib/validation";
+import {
+  parseAspectRatings,
+  reviewRatingError,
+  reviewTextError,
+} from "@/features/reviews/lib/validation";
 import { errorResponse } from "@/shared/lib/api-response";
 import { normaliseContactPhone } from "@/shared/lib/normalise-phone";
 import { prisma as prismaClient } from "@/shared/lib/prisma";
@@ -38,6 +42,8 @@ export function createReviewsHandlers(prisma = prismaClient): {
             lastName: true,
             isAnonymous: true,
             verified: true,
+            rating: true,
+            aspectRatings: true,
             createdAt: true,
           },
         });
@@ -74,6 +80,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       firstName?: string;
       lastName?: string;
       isAnonymous?: boolean;
+      rating?: unknown;
+      aspectRatings?: unknown;
       bookingId?: string;
       contactId?: string;
       reviewToken?: string;
@@ -84,6 +92,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const text = body.text?.trim() ?? "";
     const textErr = reviewTextError(text);
     if (textErr) return errorResponse(textErr, 400);
+    const ratingErr = reviewRatingError(body.rating);
+    if (ratingErr) return errorResponse(ratingErr, 400);
+    const aspectRatings = parseAspectRatings(body.aspectRatings);
+    if (typeof aspectRatings === "string") return errorResponse(aspectRatings, 400);
+    const rating = body.rating as number;
 
     const firstName = body.firstName?.trim() || null;
     const lastName = body.lastName?.trim() || null;
@@ -216,6 +229,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const review = await prisma.review.create({
       data: {
         text,
+        rating,
+        aspectRatings,
         firstName: isAnonymous ? null : firstName,
         lastName: isAnonymous ? null : lastName,
         isAnonymous,
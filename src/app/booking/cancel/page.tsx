@@ -29,7 +29,7 @@ interface CancellationInfo {
 
 type LoadState =
   | { kind: "loading" }
-  | { kind: "ready"; startAt: Date; policy: CancellationInfo }
+  | { kind: "ready"; startAt: Date; policy: CancellationInfo; feeWaived: boolean }
   | { kind: "alreadyCancelled" }
   | { kind: "error"; message: string };
 
@@ -42,15 +42,25 @@ type SubmitState =
  * @param props - Component props.
  * @param props.startAt - Booking start time.
  * @param props.policy - Live cancellation figures from the cancel-info API.
+ * @param props.feeWaived - True when the operator asked this booking to move, so no fee applies.
  * @returns Banner element for the current cancellation timing.
  */
 function FeeBanner({
   startAt,
   policy,
+  feeWaived,
 }: {
   startAt: Date;
   policy: CancellationInfo;
+  feeWaived: boolean;
 }): React.ReactElement {
+  if (feeWaived) {
+    return (
+      <div className="rounded-lg border-2 border-moonstone-500/50 bg-moonstone-400/10 p-4 text-base text-rich-black sm:text-lg">
+        <strong>No fee</strong> applies - I asked to move this appointment, so cancelling is on me.
+      </div>
+    );
+  }
   const now = new Date();
   const inTravel = isWithinTravelWindow(startAt, now, policy.travelChargeHours);
   const inCancel = isWithinCancellationWindow(startAt, now, policy.freeNoticeHours);
@@ -114,6 +124,7 @@ function CancelContent(): React.ReactElement {
           startAt?: string;
           status?: string;
           cancellation?: CancellationInfo;
+          feeWaived?: boolean;
           error?: string;
         };
         if (cancelled) return;
@@ -129,6 +140,7 @@ function CancelContent(): React.ReactElement {
           kind: "ready",
           startAt: new Date(data.startAt),
           policy: data.cancellation ?? CANCELLATION,
+          feeWaived: data.feeWaived === true,
         });
       } catch {
         if (cancelled) return;
@@ -214,7 +226,11 @@ function CancelContent(): React.ReactElement {
                     You're about to cancel your appointment for{" "}
                     <strong>{formatDateShort(load.startAt)}</strong>.
                   </p>
-                  <FeeBanner startAt={load.startAt} policy={load.policy} />
+                  <FeeBanner
+                    startAt={load.startAt}
+                    policy={load.policy}
+                    feeWaived={load.feeWaived}
+                  />
                   {submit.kind === "error" && (
                     <p className="text-sm text-coquelicot-500">{submit.message}</p>
                   )}
@@ -231,7 +247,11 @@ function CancelContent(): React.ReactElement {
                         wants when they land here - offer it before cancelling. */}
                     {token && (
                       <Button
-                        href={`/booking/edit?token=${encodeURIComponent(token)}`}
+                        href={
+                          load.feeWaived
+                            ? `/booking/reschedule?token=${encodeURIComponent(token)}`
+                            : `/booking/edit?token=${encodeURIComponent(token)}`
+                        }
                         variant="secondary"
                         size="sm"
                       >
@@ -14,10 +14,11 @@ import {
   parseBookingNotes,
   type BookableDay,
   type JobDuration,
+  type SlotBlockingEvent,
   type TimeOfDay,
 } from "@/features/booking/lib/booking";
 import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
-import { fetchAllCalendarEvents } from "@/features/calendar/lib/google-calendar";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
 import { Button } from "@/shared/components/Button";
 import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
 import { getIdentity } from "@/shared/lib/business-identity.server";
@@ -65,22 +66,28 @@ async function getAvailableDays(excludeBookingId: string): Promise<BookableDay[]
     loadBlockingBookings(now, { excludeId: excludeBookingId }),
     prisma.calendarEventCache.findMany({
       where: { expiresAt: { gt: now }, endAt: { gte: now } },
-      select: { eventId: true, startAt: true, endAt: true },
+      select: { eventId: true, startAt: true, endAt: true, calendarEmail: true },
     }),
   ]);
 
-  let calendarEvents: Array<{ id: string; start: string; end: string }>;
+  let calendarEvents: SlotBlockingEvent[];
 
   if (cachedEvents.length > 0) {
     calendarEvents = cachedEvents.map((e) => ({
       id: e.eventId,
       start: e.startAt.toISOString(),
       end: e.endAt.toISOString(),
+      calendarEmail: e.calendarEmail,
     }));
   } else {
     try {
-      const liveEvents = await fetchAllCalendarEvents(now, maxDate);
-      calendarEvents = liveEvents.map((e) => ({ id: e.id, start: e.start, end: e.end }));
+      const liveEvents = await fetchAllSourceEvents(now, maxDate);
+      calendarEvents = liveEvents.map((e) => ({
+        id: e.id,
+        start: e.start,
+        end: e.end,
+        calendarEmail: e.calendarEmail,
+      }));
     } catch {
       calendarEvents = [];
     }
@@ -194,6 +201,7 @@ export default async function EditBookingPage({
       isTomorrow: false,
       isWeekend: [0, 6].includes(booking.startAt.getDay()),
       hasAnySlots: true,
+      fullyBooked: false,
       timeWindows: TIME_OF_DAY_OPTIONS.map((t) => {
         const isSelected = t.value === timeOfDay;
         const subSlots = availabilityConfig.subSlotMinutes.map((m) => ({
@@ -8,14 +8,18 @@
  */
 
 import BookingForm from "@/features/booking/components/BookingForm";
+import WaitlistForm from "@/features/booking/components/WaitlistForm";
 import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
 import {
   buildAvailableDays,
   hourLabel,
   type BookableDay,
-  type ExistingBooking,
+  type SlotBlockingEvent,
 } from "@/features/booking/lib/booking";
-import { fetchAllCalendarEvents } from "@/features/calendar/lib/google-calendar";
+import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
+import { calendarCacheExpiry, upsertCachedEvent } from "@/features/calendar/lib/calendar-cache";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
+import { getOfferedSmsKinds } from "@/features/messaging/lib/booking-sms";
 import { BreadcrumbJsonLd } from "@/shared/components/BreadcrumbJsonLd";
 import { CARD, FrostedSection, PageShell, SOFT_CARD } from "@/shared/components/PageLayout";
 import { PixelEvent } from "@/shared/components/PixelEvent";
@@ -46,7 +50,7 @@ export const metadata: Metadata = {
 export const dynamic = "force-dynamic";
 
 interface CalendarFetchResult {
-  events: Array<{ id: string; start: string; end: string }>;
+  events: SlotBlockingEvent[];
   /** True when cache was empty AND live fetch failed; UI should hide slots. */
   degraded: boolean;
 }
@@ -61,41 +65,26 @@ const STALE_SERVE_WINDOW_MS = 2 * 60 * 60 * 1000;
  * Shared by the blocking cold-cache path and the stale-serve background refresh.
  * @param now - Current date
  * @param maxDate - Maximum booking date
- * @returns Live events from the Google Calendar API.
+ * @returns Live events from Google and the external calendars.
  */
-async function fetchLiveAndCache(
-  now: Date,
-  maxDate: Date,
-): Promise<Array<{ id: string; start: string; end: string }>> {
-  const liveEvents = await fetchAllCalendarEvents(now, maxDate);
+async function fetchLiveAndCache(now: Date, maxDate: Date): Promise<SlotBlockingEvent[]> {
+  const liveEvents = await fetchAllSourceEvents(now, maxDate);
   console.log(`[booking/page] Fetched ${liveEvents.length} live calendar events`);
 
-  // Populate cache in background so the next request is fast.
-  // Matches the cron writer's 30-min TTL (cron runs every 15 min).
-  const cacheExpiry = new Date(now.getTime() + 30 * 60 * 1000);
-  void Promise.all(
-    liveEvents.map((e) =>
-      prisma.calendarEventCache.upsert({
-        where: { eventId_calendarEmail: { eventId: e.id, calendarEmail: e.calendarEmail } },
-        create: {
-          eventId: e.id,
-          calendarEmail: e.calendarEmail,
-          startAt: new Date(e.start),
-          endAt: new Date(e.end),
-          fetchedAt: now,
-          expiresAt: cacheExpiry,
-        },
-        update: {
-          startAt: new Date(e.start),
-          endAt: new Date(e.end),
-          fetchedAt: now,
-          expiresAt: cacheExpiry,
-        },
-      }),
-    ),
-  ).catch((err) => console.error("[booking/page] Failed to populate calendar cache:", err));
-
-  return liveEvents.map((e) => ({ id: e.id, start: e.start, end: e.end }));
+  // Populate cache in background so the next request is fast, with the same
+  // expiry the cron writer would use.
+  void calendarCacheExpiry(now)
+    .then((cacheExpiry) =>
+      Promise.all(liveEvents.map((e) => upsertCachedEvent(e, now, cacheExpiry))),
+    )
+    .catch((err) => console.error("[booking/page] Failed to populate calendar cache:", err));
+
+  return liveEvents.map((e) => ({
+    id: e.id,
+    start: e.start,
+    end: e.end,
+    calendarEmail: e.calendarEmail,
+  }));
 }
 
 /**
@@ -110,13 +99,19 @@ async function getCalendarEvents(now: Date, maxDate: Date): Promise<CalendarFetc
   // One read covers fresh and stale rows; expiresAt decides which path below.
   const cachedEvents = await prisma.calendarEventCache.findMany({
     where: {
-      fetchedAt: { gt: new Date(now.getTime() - STALE_SERVE_WINDOW_MS) },
+      // Unexpired rows count however old: under push sync an untouched event
+      // keeps its original fetchedAt for as long as it stays unchanged.
+      OR: [
+        { expiresAt: { gt: now } },
+        { fetchedAt: { gt: new Date(now.getTime() - STALE_SERVE_WINDOW_MS) } },
+      ],
       endAt: { gte: now },
     },
     select: {
       eventId: true,
       startAt: true,
       endAt: true,
+      calendarEmail: true,
       expiresAt: true,
     },
   });
@@ -140,6 +135,7 @@ async function getCalendarEvents(now: Date, maxDate: Date): Promise<CalendarFetc
         id: e.eventId,
         start: e.startAt.toISOString(),
         end: e.endAt.toISOString(),
+        calendarEmail: e.calendarEmail,
       })),
       degraded: false,
     };
@@ -187,33 +183,13 @@ async function getAvailableDays(): Promise<{
 
   const maxDate = new Date(now.getTime() + config.maxAdvanceDays * 24 * 60 * 60 * 1000);
 
-  // Load blocking bookings and calendar events
-  const [existingBookings, calendar] = await Promise.all([
-    prisma.booking.findMany({
-      where: {
-        status: { in: ["held", "confirmed"] },
-        endAt: { gte: now },
-      },
-      select: {
-        id: true,
-        startAt: true,
-        endAt: true,
-        bufferBeforeMin: true,
-        bufferAfterMin: true,
-      },
-    }),
+  // Load blocking bookings (incl. days being cleared) and calendar events
+  const [existingForSlots, calendar] = await Promise.all([
+    loadBlockingBookings(now),
     getCalendarEvents(now, maxDate),
   ]);
 
   // Build the bookable-day grid
-  const existingForSlots: ExistingBooking[] = existingBookings.map((b) => ({
-    id: b.id,
-    startAt: b.startAt,
-    endAt: b.endAt,
-    bufferBeforeMin: b.bufferBeforeMin,
-    bufferAfterMin: b.bufferAfterMin,
-  }));
-
   const built = buildAvailableDays(existingForSlots, calendar.events, now, config);
   return {
     days: built.days,
@@ -250,6 +226,7 @@ async function BookingFormIsland(): Promise<React.ReactElement> {
   } = await getAvailableDays();
   // Pricing context for the inline "get a rough estimate" affordance.
   const settings = await getSettings();
+  const smsKinds = await getOfferedSmsKinds();
   // Explain the same-day closure from the live availability settings rather
   // than baked-in defaults, so editing either value updates the banner.
   const sameDayReasons: string[] = [];
@@ -260,6 +237,10 @@ async function BookingFormIsland(): Promise<React.ReactElement> {
     sameDayReasons.push(`${hourLabel(sameDayCutoffHour)} cut-off`);
   }
   const sameDayDetail = sameDayReasons.length ? ` (${sameDayReasons.join(", ")})` : "";
+  // Open days with nothing left - the ones a customer can queue for.
+  const fullDays = days
+    .filter((d) => d.fullyBooked)
+    .map((d) => ({ dateKey: d.dateKey, fullLabel: d.fullLabel }));
   if (!acceptingBookings) {
     return (
       <div
@@ -302,7 +283,9 @@ async function BookingFormIsland(): Promise<React.ReactElement> {
         minBillableMins={settings.pricing.minBillableMins}
         minTravelCharge={settings.pricing.minTravelCharge}
         travelRatePerHour={settings.pricing.travelRatePerHour}
+        smsKinds={smsKinds}
       />
+      {fullDays.length > 0 && <WaitlistForm days={fullDays} durations={durations} />}
     </div>
   );
 }
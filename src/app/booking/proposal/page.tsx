@@ -0,0 +1,116 @@
+// src/app/booking/proposal/page.tsx
+/**
+ * @description Route-change proposal page reached from the "could I come at a
+ * different time?" email. Shows the current and proposed times with accept /
+ * keep-my-time buttons; an accepted proposal waiting on the rest of the day, a
+ * change already made, and a plan that fell through each say so instead.
+ */
+
+import RescheduleProposalActions from "@/features/booking/components/RescheduleProposalActions";
+import { Button } from "@/shared/components/Button";
+import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
+import { cn } from "@/shared/lib/cn";
+import { formatDateTimeLong } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+// Token-gated page reached from booking emails: keep it out of search results.
+export const metadata: Metadata = {
+  title: "A different time for your visit",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Route-change proposal page.
+ * @param props - Page props.
+ * @param props.searchParams - URL search params carrying the proposal token.
+ * @returns Page element.
+ */
+export default async function RescheduleProposalPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}): Promise<React.ReactElement> {
+  const params = await searchParams;
+  const token = Array.isArray(params.token) ? params.token[0] : params.token;
+  if (!token) notFound();
+
+  const proposal = await prisma.rescheduleProposal.findUnique({ where: { token } });
+  if (!proposal) notFound();
+  const [plan, booking] = await Promise.all([
+    prisma.routePlan.findUnique({
+      where: { id: proposal.planId },
+      select: { status: true, expiresAt: true },
+    }),
+    prisma.booking.findUnique({
+      where: { id: proposal.bookingId },
+      select: { name: true, startAt: true, status: true, cancelToken: true },
+    }),
+  ]);
+  if (!plan || !booking) notFound();
+
+  // Answers close at the deadline even before anything marks the plan expired.
+  const open = plan.status === "pending" && plan.expiresAt > new Date();
+  const applied = plan.status === "applied";
+  const firstName = booking.name.split(" ")[0];
+  const manageToken = encodeURIComponent(booking.cancelToken);
+
+  return (
+    <PageShell>
+      <FrostedSection>
+        <div className="flex flex-col gap-6 sm:gap-8">
+          <section className={cn(CARD, "animate-fade-in")}>
+            <h1 className="mb-3 text-2xl font-extrabold text-russian-violet sm:text-3xl md:text-4xl">
+              A different time for your visit
+            </h1>
+            <p className="text-sm text-rich-black sm:text-base">
+              {open && proposal.status === "accepted" ? (
+                <>
+                  Thanks {firstName} - you&apos;ve said yes to{" "}
+                  <strong>{formatDateTimeLong(proposal.toStartAt)}</strong>. I&apos;ll confirm once
+                  the rest of the day is sorted; until then your booking stays at{" "}
+                  <strong>{formatDateTimeLong(booking.startAt)}</strong>.
+                </>
+              ) : open ? (
+                <>
+                  Hi {firstName} - could I come at{" "}
+                  <strong>{formatDateTimeLong(proposal.toStartAt)}</strong> instead of{" "}
+                  <strong>{formatDateTimeLong(proposal.fromStartAt)}</strong>? It saves a lot of
+                  driving between jobs that day. If it doesn&apos;t suit, your booking stays exactly
+                  as it is.
+                </>
+              ) : applied ? (
+                <>
+                  You&apos;re booked in for <strong>{formatDateTimeLong(booking.startAt)}</strong>.
+                </>
+              ) : (
+                <>
+                  This change isn&apos;t going ahead - your booking stays at{" "}
+                  <strong>{formatDateTimeLong(booking.startAt)}</strong>.
+                </>
+              )}
+            </p>
+          </section>
+
+          <section className={cn(CARD, "animate-slide-up animate-fill-both animate-delay-100")}>
+            {open ? (
+              <RescheduleProposalActions token={token} accepted={proposal.status === "accepted"} />
+            ) : booking.status === "confirmed" ? (
+              <Button href={`/booking/edit?token=${manageToken}`} variant="secondary" size="sm">
+                Change booking
+              </Button>
+            ) : (
+              <Button href="/booking" variant="secondary" size="sm">
+                Book another time
+              </Button>
+            )}
+          </section>
+        </div>
+      </FrostedSection>
+    </PageShell>
+  );
+}
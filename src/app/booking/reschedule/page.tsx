@@ -0,0 +1,130 @@
+// src/app/booking/reschedule/page.tsx
+/**
+ * @description Pick-a-new-time page reached from the clear-day email. Lists live
+ * replacement times for a booking whose day the operator is clearing; outside a
+ * pending clearance it points the customer at the normal edit page instead.
+ */
+
+import ReschedulePicker, {
+  type RescheduleOption,
+} from "@/features/booking/components/ReschedulePicker";
+import {
+  findPendingClearanceForBooking,
+  suggestionsForBooking,
+} from "@/features/booking/lib/day-clearance.server";
+import { Button } from "@/shared/components/Button";
+import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
+import { cn } from "@/shared/lib/cn";
+import { formatDateTimeLong } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import { nzDateKey } from "@/shared/lib/timezone-utils";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+// Token-gated page reached from booking emails: keep it out of search results.
+export const metadata: Metadata = {
+  title: "Pick a new time",
+  robots: { index: false, follow: false },
+};
+
+// More than the email offers, since this list is live and the customer is here to choose.
+const PAGE_SUGGESTION_COUNT = 8;
+
+/**
+ * Pick-a-new-time page.
+ * @param props - Page props.
+ * @param props.searchParams - URL search params: the cancel token and an optional preselected start.
+ * @returns Page element.
+ */
+export default async function RescheduleBookingPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}): Promise<React.ReactElement> {
+  const params = await searchParams;
+  const cancelToken = Array.isArray(params.token) ? params.token[0] : params.token;
+  const startParam = Array.isArray(params.start) ? params.start[0] : params.start;
+  if (!cancelToken) notFound();
+
+  const booking = await prisma.booking.findFirst({
+    where: { cancelToken },
+    select: { id: true, name: true, startAt: true, endAt: true, status: true, address: true },
+  });
+  if (!booking || booking.status === "cancelled") notFound();
+
+  const clearance = await findPendingClearanceForBooking(booking.id);
+  const needsMove =
+    (booking.status === "held" || booking.status === "confirmed") &&
+    clearance !== null &&
+    clearance.dateKey === nzDateKey(booking.startAt);
+
+  const options: RescheduleOption[] = needsMove
+    ? (await suggestionsForBooking(booking, PAGE_SUGGESTION_COUNT)).map((s) => ({
+        startIso: s.startIso,
+        dayLabel: s.dayLabel,
+        timeLabel: s.timeLabel,
+      }))
+    : [];
+  // Only preselect the emailed time when it is still genuinely free.
+  const initialStartIso =
+    startParam && options.some((o) => o.startIso === startParam) ? startParam : null;
+  const token = encodeURIComponent(cancelToken);
+
+  return (
+    <PageShell>
+      <FrostedSection>
+        <div className="flex flex-col gap-6 sm:gap-8">
+          <section className={cn(CARD, "animate-fade-in")}>
+            <h1 className="mb-3 text-2xl font-extrabold text-russian-violet sm:text-3xl md:text-4xl">
+              Pick a new time
+            </h1>
+            <p className="text-sm text-rich-black sm:text-base">
+              {needsMove ? (
+                <>
+                  Sorry {booking.name.split(" ")[0]} - I can no longer make{" "}
+                  <strong>{formatDateTimeLong(booking.startAt)}</strong>. Your booking stays in
+                  place until you pick one of the times below, and there&apos;s no charge for moving
+                  it.
+                </>
+              ) : (
+                <>
+                  Your booking for <strong>{formatDateTimeLong(booking.startAt)}</strong>{" "}
+                  doesn&apos;t need moving any more.
+                </>
+              )}
+            </p>
+          </section>
+
+          <section className={cn(CARD, "animate-slide-up animate-fill-both animate-delay-100")}>
+            {needsMove && options.length > 0 && (
+              <ReschedulePicker
+                cancelToken={cancelToken}
+                options={options}
+                initialStartIso={initialStartIso}
+              />
+            )}
+            {needsMove && options.length === 0 && (
+              <p className="text-base text-rich-black/80 sm:text-lg">
+                There are no open times online right now. Reply to my email or give me a call and
+                I&apos;ll find one with you.
+              </p>
+            )}
+            <div className="mt-6 flex flex-wrap gap-3">
+              {!needsMove && (
+                <Button href={`/booking/edit?token=${token}`} variant="secondary" size="sm">
+                  Change booking
+                </Button>
+              )}
+              <Button href={`/booking/cancel?token=${token}`} variant="ghost" size="sm">
+                Cancel instead
+              </Button>
+            </div>
+          </section>
+        </div>
+      </FrostedSection>
+    </PageShell>
+  );
+}
@@ -0,0 +1,99 @@
+// src/app/booking/waitlist/page.tsx
+/**
+ * @description Waitlist offer page reached from the "a spot opened up" email.
+ * Shows the held time and how long it is held for, with confirm / decline
+ * buttons; a lapsed, declined or already-confirmed offer says so instead.
+ */
+
+import WaitlistOfferActions from "@/features/booking/components/WaitlistOfferActions";
+import { Button } from "@/shared/components/Button";
+import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
+import { cn } from "@/shared/lib/cn";
+import { formatDateTimeLong, formatDateTimeShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+// Token-gated page reached from booking emails: keep it out of search results.
+export const metadata: Metadata = {
+  title: "A time has opened up",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Waitlist offer page.
+ * @param props - Page props.
+ * @param props.searchParams - URL search params carrying the offer token.
+ * @returns Page element.
+ */
+export default async function WaitlistOfferPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}): Promise<React.ReactElement> {
+  const params = await searchParams;
+  const cancelToken = Array.isArray(params.token) ? params.token[0] : params.token;
+  if (!cancelToken) notFound();
+
+  const booking = await prisma.booking.findFirst({
+    where: { cancelToken },
+    select: { name: true, startAt: true, status: true, holdExpiresAt: true },
+  });
+  if (!booking) notFound();
+
+  // Still open only while the hold is live; the cron lapses it shortly after.
+  const holdUntil =
+    booking.status === "held" && booking.holdExpiresAt && booking.holdExpiresAt > new Date()
+      ? booking.holdExpiresAt
+      : null;
+  const token = encodeURIComponent(cancelToken);
+
+  return (
+    <PageShell>
+      <FrostedSection>
+        <div className="flex flex-col gap-6 sm:gap-8">
+          <section className={cn(CARD, "animate-fade-in")}>
+            <h1 className="mb-3 text-2xl font-extrabold text-russian-violet sm:text-3xl md:text-4xl">
+              A time has opened up
+            </h1>
+            <p className="text-sm text-rich-black sm:text-base">
+              {holdUntil ? (
+                <>
+                  Good news {booking.name.split(" ")[0]} -{" "}
+                  <strong>{formatDateTimeLong(booking.startAt)}</strong> is free, and I&apos;m
+                  holding it for you until <strong>{formatDateTimeShort(holdUntil)}</strong>.
+                </>
+              ) : booking.status === "confirmed" ? (
+                <>
+                  You&apos;re booked in for <strong>{formatDateTimeLong(booking.startAt)}</strong>.
+                </>
+              ) : (
+                <>
+                  Sorry - this offer has closed and the time has been passed on. If you still need a
+                  hand, pick another time on the booking page.
+                </>
+              )}
+            </p>
+          </section>
+
+          <section className={cn(CARD, "animate-slide-up animate-fill-both animate-delay-100")}>
+            {holdUntil ? (
+              <WaitlistOfferActions cancelToken={cancelToken} />
+            ) : booking.status === "confirmed" ? (
+              <Button href={`/booking/edit?token=${token}`} variant="secondary" size="sm">
+                Change booking
+              </Button>
+            ) : (
+              <Button href="/booking" variant="secondary" size="sm">
+                Book another time
+              </Button>
+            )}
+          </section>
+        </div>
+      </FrostedSection>
+    </PageShell>
+  );
+}
@@ -4,6 +4,7 @@
  */
 
 import { getPublicPricing } from "@/features/business/lib/pricing-policy.server";
+import { getReviewSchema } from "@/features/reviews/lib/review-schema.server";
 import { GoogleTag } from "@/shared/components/GoogleTag";
 import { MetaPixel } from "@/shared/components/MetaPixel";
 import { NavBar } from "@/shared/components/NavBar";
@@ -133,11 +134,16 @@ export default async function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>): Promise<React.ReactElement> {
-  // Live identity + weekly hours + rates so the JSON-LD never drifts from the
-  // settings or the rate config.
-  const [{ availability, identity }, pricing] = await Promise.all([
+  // Live identity + weekly hours + rates + ratings so the JSON-LD never drifts
+  // from the settings, the rate config or the approved reviews. A review query
+  // failure only drops the rating markup, never the page.
+  const [{ availability, identity }, pricing, reviewSchema] = await Promise.all([
     getSettings(),
     getPublicPricing(),
+    getReviewSchema().catch((err: unknown) => {
+      console.error("[layout] review schema failed:", err);
+      return null;
+    }),
   ]);
   // schema.org telephone, derived from the editable tel: link (strip the scheme).
   const telephone = identity.phoneTel.replace(/^tel:/, "");
@@ -310,6 +316,9 @@ export default async function RootLayout({
     },
     // sameAs deliberately omitted until real profiles exist (Google Business
     // Profile, Facebook, etc.) - a placeholder URL helps nothing.
+    // aggregateRating + review only once a verified star-rated review exists:
+    // an empty aggregate is invalid markup.
+    ...reviewSchema,
   };
 
   const websiteJsonLd = {
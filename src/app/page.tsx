@@ -59,7 +59,14 @@ const getApprovedReviews = unstable_cache(
   async () =>
     prisma.review.findMany({
       orderBy: { createdAt: "desc" },
-      select: { id: true, text: true, firstName: true, lastName: true, isAnonymous: true },
+      select: {
+        id: true,
+        text: true,
+        firstName: true,
+        lastName: true,
+        isAnonymous: true,
+        rating: true,
+      },
       where: { status: "approved" },
       take: 50,
     }),
@@ -110,6 +117,7 @@ export default async function Home(): Promise<React.ReactElement> {
       lastName: r.lastName?.trim() || null,
       isAnonymous: r.isAnonymous,
     }),
+    rating: r.rating ?? null,
   }));
 
   const hasReviews = items.length > 0;
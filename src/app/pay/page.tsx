@@ -0,0 +1,167 @@
+// src/app/pay/page.tsx
+/**
+ * @description Pay-this-invoice page reached from the invoice email and PDF.
+ * Shows the invoice summary and a "Pay by card" button that posts to the
+ * checkout route; the provider sends the customer back here with a status flag.
+ * The invoice only flips to paid once the provider's webhook lands, so the
+ * success banner says "received" even while the row still reads unpaid.
+ */
+
+import { formatNZD } from "@/features/business/lib/business";
+import { invoiceBalanceDue } from "@/features/business/lib/invoice-status";
+import { cardAmountDue, payableProblem } from "@/features/business/lib/online-payment";
+import { getPaymentProvider } from "@/features/business/lib/payment-provider";
+import { depositDue } from "@/features/business/lib/quote-acceptance";
+import { Button } from "@/shared/components/Button";
+import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { cn } from "@/shared/lib/cn";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+// Token-gated page reached from invoice emails: keep it out of search results.
+export const metadata: Metadata = {
+  title: "Pay invoice",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Pay-invoice page.
+ * @param props - Page props.
+ * @param props.searchParams - URL search params: the pay token and an optional return status.
+ * @returns Page element.
+ */
+export default async function PayInvoicePage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}): Promise<React.ReactElement> {
+  const params = await searchParams;
+  const token = Array.isArray(params.token) ? params.token[0] : params.token;
+  const status = Array.isArray(params.status) ? params.status[0] : params.status;
+
+  const invoice = token
+    ? await prisma.invoice.findFirst({
+        where: { payToken: token },
+        select: {
+          number: true,
+          clientName: true,
+          total: true,
+          amountPaid: true,
+          dueDate: true,
+          status: true,
+          isQuote: true,
+          depositAmount: true,
+        },
+      })
+    : null;
+  const identity = await getIdentity();
+  const problem = invoice ? payableProblem(invoice) : null;
+  const canPay = invoice !== null && problem === null && getPaymentProvider() !== null;
+  const balance = invoice ? invoiceBalanceDue(invoice) : 0;
+  // An accepted quote that asked for a deposit takes that first.
+  const deposit = invoice ? depositDue(invoice) : 0;
+  const chargeNow = invoice ? cardAmountDue(invoice) : 0;
+
+  return (
+    <PageShell>
+      <FrostedSection>
+        <div className="flex flex-col gap-6 sm:gap-8">
+          <section className={cn(CARD, "animate-fade-in")}>
+            <h1 className="mb-3 text-2xl font-extrabold text-russian-violet sm:text-3xl md:text-4xl">
+              {invoice ? `Invoice ${invoice.number}` : "Pay an invoice"}
+            </h1>
+            {!invoice ? (
+              <p className="text-sm text-rich-black sm:text-base">
+                This payment link isn&apos;t valid. Please use the link in your invoice email, or
+                get in touch and I&apos;ll sort it out.
+              </p>
+            ) : (
+              <dl className="space-y-1 text-sm text-rich-black sm:text-base">
+                <div className="flex justify-between gap-4">
+                  <dt>For</dt>
+                  <dd className="font-semibold">{invoice.clientName}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt>Total</dt>
+                  <dd className="font-semibold">{formatNZD(invoice.total)}</dd>
+                </div>
+                {(invoice.amountPaid ?? 0) > 0 && problem === null && (
+                  <>
+                    <div className="flex justify-between gap-4">
+                      <dt>Paid so far</dt>
+                      <dd className="font-semibold">{formatNZD(invoice.amountPaid ?? 0)}</dd>
+                    </div>
+                    <div className="flex justify-between gap-4">
+                      <dt>Balance due</dt>
+                      <dd className="font-semibold">{formatNZD(balance)}</dd>
+                    </div>
+                  </>
+                )}
+                {deposit > 0 && problem === null && (
+                  <div className="flex justify-between gap-4">
+                    <dt>Deposit due now</dt>
+                    <dd className="font-semibold">{formatNZD(deposit)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between gap-4">
+                  <dt>Due</dt>
+                  <dd className="font-semibold">{formatDateShort(invoice.dueDate)}</dd>
+                </div>
+              </dl>
+            )}
+          </section>
+
+          {invoice && (
+            <section className={cn(CARD, "animate-slide-up animate-fill-both animate-delay-100")}>
+              {problem === "paid" || status === "success" ? (
+                <p className="text-base text-rich-black sm:text-lg">
+                  {problem === "paid"
+                    ? "This invoice is paid - thank you!"
+                    : "Payment received - thank you! A receipt is on its way from the card processor."}
+                </p>
+              ) : problem === "voided" || problem === "quote" ? (
+                <p className="text-base text-rich-black sm:text-lg">
+                  This {problem === "quote" ? "quote" : "invoice"} isn&apos;t payable. If you think
+                  that&apos;s wrong, just reply to the email it came with.
+                </p>
+              ) : (
+                <>
+                  {status === "cancelled" && (
+                    <p className="mb-4 text-sm text-rich-black/80">
+                      Payment was cancelled - nothing has been charged.
+                    </p>
+                  )}
+                  {status === "error" && (
+                    <p className="mb-4 text-sm text-rich-black/80">
+                      Card payment couldn&apos;t start just now. Please try again, or pay by bank
+                      transfer below.
+                    </p>
+                  )}
+                  {canPay && (
+                    <form action="/api/pay/checkout" method="post" className="mb-6">
+                      <input type="hidden" name="token" value={token} />
+                      <Button type="submit" variant="primary">
+                        Pay {deposit > 0 ? "the deposit of " : ""}
+                        {formatNZD(chargeNow)} by card
+                      </Button>
+                    </form>
+                  )}
+                  <p className="text-sm text-rich-black sm:text-base">
+                    <strong>Bank transfer:</strong> {identity.name}, account{" "}
+                    <strong>{identity.bankAccount}</strong>, reference{" "}
+                    <strong>{invoice.number}</strong>.
+                  </p>
+                </>
+              )}
+            </section>
+          )}
+        </div>
+      </FrostedSection>
+    </PageShell>
+  );
+}
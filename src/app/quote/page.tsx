@@ -0,0 +1,311 @@
+// src/app/quote/page.tsx
+/**
+ * @description Accept-or-decline page reached from the quote email and PDF.
+ * Shows the quote PDF with plain Accept and Decline forms that post to
+ * /api/quote/respond, which sends the customer back here with a status flag.
+ * Once accepted the page becomes the next-steps page: the deposit (if one was
+ * asked for) and a link to book the work. An expired quote offers a "request a
+ * fresh quote" button instead of the forms.
+ */
+
+import { formatNZD } from "@/features/business/lib/business";
+import { payableProblem } from "@/features/business/lib/online-payment";
+import { getPaymentProvider } from "@/features/business/lib/payment-provider";
+import {
+  DECLINE_REASON_MAX_LENGTH,
+  depositDue,
+  quoteState,
+  SIGNATURE_MAX_LENGTH,
+} from "@/features/business/lib/quote-acceptance";
+import { Button } from "@/shared/components/Button";
+import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { cn } from "@/shared/lib/cn";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { Metadata } from "next";
+import type React from "react";
+
+export const dynamic = "force-dynamic";
+
+// Token-gated page reached from quote emails: keep it out of search results.
+export const metadata: Metadata = {
+  title: "Your quote",
+  robots: { index: false, follow: false },
+};
+
+const INPUT_CLASS = cn(
+  "w-full rounded-md border border-seasalt-200/80 bg-seasalt px-4 py-3 text-base text-rich-black",
+  "focus:border-russian-violet focus:ring-1 focus:ring-russian-violet/30 focus:outline-none",
+);
+
+/**
+ * Quote page.
+ * @param props - Page props.
+ * @param props.searchParams - URL search params: the quote token and an optional return status.
+ * @returns Page element.
+ */
+export default async function QuotePage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}): Promise<React.ReactElement> {
+  const params = await searchParams;
+  const token = Array.isArray(params.token) ? params.token[0] : params.token;
+  const status = Array.isArray(params.status) ? params.status[0] : params.status;
+
+  const quote = token
+    ? await prisma.invoice.findFirst({
+        where: { payToken: token },
+        select: {
+          number: true,
+          clientName: true,
+          total: true,
+          amountPaid: true,
+          dueDate: true,
+          status: true,
+          isQuote: true,
+          quoteValidUntil: true,
+          quoteAcceptedAt: true,
+          quoteAcceptedName: true,
+          quoteDeclinedAt: true,
+          quoteRefreshRequestedAt: true,
+          depositAmount: true,
+        },
+      })
+    : null;
+  const identity = await getIdentity();
+  const state = quote ? quoteState(quote) : null;
+  const deposit = quote ? depositDue(quote) : 0;
+  const canPayDeposit =
+    quote !== null &&
+    deposit > 0 &&
+    payableProblem(quote) === null &&
+    getPaymentProvider() !== null;
+  const pdfHref = token ? `/api/quote/pdf?token=${encodeURIComponent(token)}` : "";
+
+  return (
+    <PageShell>
+      <FrostedSection>
+        <div className="flex flex-col gap-6 sm:gap-8">
+          <section className={cn(CARD, "animate-fade-in")}>
+            <h1 className="mb-3 text-2xl font-extrabold text-russian-violet sm:text-3xl md:text-4xl">
+              {quote ? `Your quote${quote.isQuote ? ` ${quote.number}` : ""}` : "Your quote"}
+            </h1>
+            {!quote ? (
+              <p className="text-sm text-rich-black sm:text-base">
+                This quote link isn&apos;t valid. Please use the link in your quote email, or get in
+                touch and I&apos;ll sort it out.
+              </p>
+            ) : (
+              <>
+                <dl className="mb-4 space-y-1 text-sm text-rich-black sm:text-base">
+                  <div className="flex justify-between gap-4">
+                    <dt>For</dt>
+                    <dd className="font-semibold">{quote.clientName}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt>Total</dt>
+                    <dd className="font-semibold">{formatNZD(quote.total)}</dd>
+                  </div>
+                  {quote.depositAmount ? (
+                    <div className="flex justify-between gap-4">
+                      <dt>Deposit on acceptance</dt>
+                      <dd className="font-semibold">
+                        {formatNZD(Math.min(quote.depositAmount, quote.total))}
+                      </dd>
+                    </div>
+                  ) : null}
+                  {quote.isQuote && quote.quoteValidUntil && (
+                    <div className="flex justify-between gap-4">
+                      <dt>Valid until</dt>
+                      <dd className="font-semibold">{formatDateShort(quote.quoteValidUntil)}</dd>
+                    </div>
+                  )}
+                </dl>
+                {state !== "invoiced" && (
+                  <>
+                    <iframe
+                      src={pdfHref}
+                      title="Quote PDF"
+                      className="hidden h-144 w-full rounded-md border border-seasalt-200/80 bg-white sm:block"
+                    />
+                    <p className="mt-3 text-sm text-rich-black/80">
+                      <a href={pdfHref} className="font-semibold text-russian-violet underline">
+                        Open or download the quote (PDF)
+                      </a>
+                    </p>
+                  </>
+                )}
+              </>
+            )}
+          </section>
+
+          {quote && (
+            <section className={cn(CARD, "animate-slide-up animate-fill-both animate-delay-100")}>
+              {status === "error" && (
+                <p className="mb-4 text-sm text-rich-black/80">
+                  That didn&apos;t go through just now. Please try again, or reply to the quote
+                  email.
+                </p>
+              )}
+
+              {state === "open" && (
+                <div className="flex flex-col gap-8">
+                  <form action="/api/quote/respond" method="post" className="flex flex-col gap-3">
+                    <input type="hidden" name="token" value={token} />
+                    <input type="hidden" name="action" value="accept" />
+                    <h2 className="text-lg font-bold text-russian-violet">Accept this quote</h2>
+                    {status === "signature" && (
+                      <p className="text-sm text-rich-black/80">
+                        To accept, type your full name and tick the box below.
+                      </p>
+                    )}
+                    <label htmlFor="quote-name" className="text-sm font-semibold text-rich-black">
+                      Type your full name to sign
+                    </label>
+                    <input
+                      id="quote-name"
+                      name="name"
+                      type="text"
+                      autoComplete="name"
+                      required
+                      minLength={2}
+                      maxLength={SIGNATURE_MAX_LENGTH}
+                      className={INPUT_CLASS}
+                    />
+                    <label className="flex items-start gap-2 text-sm text-rich-black">
+                      <input type="checkbox" name="agree" required className="mt-1" />
+                      <span>
+                        I accept this quote for {formatNZD(quote.total)} and its terms
+                        {quote.depositAmount
+                          ? `, including a deposit of ${formatNZD(Math.min(quote.depositAmount, quote.total))}`
+                          : ""}
+                        .
+                      </span>
+                    </label>
+                    <div>
+                      <Button type="submit" variant="primary">
+                        Accept quote
+                      </Button>
+                    </div>
+                  </form>
+
+                  <form action="/api/quote/respond" method="post" className="flex flex-col gap-3">
+                    <input type="hidden" name="token" value={token} />
+                    <input type="hidden" name="action" value="decline" />
+                    <h2 className="text-lg font-bold text-russian-violet">Not going ahead?</h2>
+                    <label htmlFor="quote-reason" className="text-sm text-rich-black">
+                      Let me know why, if you like (optional)
+                    </label>
+                    <textarea
+                      id="quote-reason"
+                      name="reason"
+                      rows={3}
+                      maxLength={DECLINE_REASON_MAX_LENGTH}
+                      className={INPUT_CLASS}
+                    />
+                    <div>
+                      <Button type="submit" variant="secondary">
+                        Decline quote
+                      </Button>
+                    </div>
+                  </form>
+                </div>
+              )}
+
+              {state === "accepted" && (
+                <div className="flex flex-col gap-4 text-sm text-rich-black sm:text-base">
+                  <p className="text-base sm:text-lg">
+                    {status === "accepted" ? "Thanks - quote accepted!" : "This quote is accepted."}{" "}
+                    Signed by <strong>{quote.quoteAcceptedName}</strong>
+                    {quote.quoteAcceptedAt ? ` on ${formatDateShort(quote.quoteAcceptedAt)}` : ""}.
+                  </p>
+                  {deposit > 0 && (
+                    <div className="flex flex-col gap-3">
+                      <p>
+                        A deposit of <strong>{formatNZD(deposit)}</strong> is due now.
+                      </p>
+                      {canPayDeposit && (
+                        <form action="/api/pay/checkout" method="post">
+                          <input type="hidden" name="token" value={token} />
+                          <Button type="submit" variant="primary">
+                            Pay the deposit of {formatNZD(deposit)} by card
+                          </Button>
+                        </form>
+                      )}
+                      <p>
+                        <strong>Bank transfer:</strong> {identity.name}, account{" "}
+                        <strong>{identity.bankAccount}</strong>, reference{" "}
+                        <strong>{quote.number}</strong>.
+                      </p>
+                    </div>
+                  )}
+                  <p>Next, pick a time that suits you for the work.</p>
+                  <div>
+                    <Button href="/booking" variant={deposit > 0 ? "secondary" : "primary"}>
+                      Book a time
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {state === "expired" &&
+                (quote.quoteRefreshRequestedAt || status === "requested" ? (
+                  <p className="text-base text-rich-black sm:text-lg">
+                    This quote has expired. Thanks - I&apos;ve been asked for a fresh one and will
+                    be in touch.
+                  </p>
+                ) : (
+                  <form action="/api/quote/respond" method="post" className="flex flex-col gap-3">
+                    <input type="hidden" name="token" value={token} />
+                    <input type="hidden" name="action" value="refresh" />
+                    <p className="text-base text-rich-black sm:text-lg">
+                      This quote expired on{" "}
+                      {quote.quoteValidUntil
+                        ? formatDateShort(quote.quoteValidUntil)
+                        : "its end date"}
+                      . Prices may have changed - ask for a fresh one and I&apos;ll send it over.
+                    </p>
+                    <div>
+                      <Button type="submit" variant="primary">
+                        Request a fresh quote
+                      </Button>
+                    </div>
+                  </form>
+                ))}
+
+              {state === "declined" && (
+                <p className="text-base text-rich-black sm:text-lg">
+                  {status === "declined"
+                    ? "Thanks for letting me know. If anything changes, just get in touch."
+                    : "This quote was declined. If you've changed your mind, just reply to the quote email."}
+                </p>
+              )}
+
+              {state === "voided" && (
+                <p className="text-base text-rich-black sm:text-lg">
+                  This quote has been withdrawn. If you think that&apos;s wrong, just reply to the
+                  email it came with.
+                </p>
+              )}
+
+              {state === "invoiced" && (
+                <p className="text-base text-rich-black sm:text-lg">
+                  This quote has already been turned into an invoice.{" "}
+                  <a
+                    href={`/pay?token=${encodeURIComponent(token ?? "")}`}
+                    className="font-semibold text-russian-violet underline"
+                  >
+                    View and pay the invoice
+                  </a>
+                  .
+                </p>
+              )}
+            </section>
+          )}
+        </div>
+      </FrostedSection>
+    </PageShell>
+  );
+}
@@ -4,6 +4,7 @@
  */
 
 import ReviewFormProtected from "@/features/reviews/components/ReviewForm";
+import type { ReviewAspectRatings } from "@/features/reviews/lib/validation";
 import { Button } from "@/shared/components/Button";
 import { CARD, FrostedSection, PageShell } from "@/shared/components/PageLayout";
 import { cn } from "@/shared/lib/cn";
@@ -49,6 +50,8 @@ export default async function ReviewPage({
     firstName: string | null;
     lastName: string | null;
     isAnonymous: boolean;
+    rating: number | null;
+    aspectRatings: ReviewAspectRatings | null;
   } | null = null;
 
   // If token provided, validate against both Booking and Contact in parallel.
@@ -78,7 +81,15 @@ export default async function ReviewPage({
       // Fetch speculatively - only used if the token maps to an already-reviewed source
       prisma.review.findFirst({
         where: { customerRef: token },
-        select: { id: true, text: true, firstName: true, lastName: true, isAnonymous: true },
+        select: {
+          id: true,
+          text: true,
+          firstName: true,
+          lastName: true,
+          isAnonymous: true,
+          rating: true,
+          aspectRatings: true,
+        },
       }),
     ]);
     // Legacy fallback: a soft-deleted contact whose token was never folded into
@@ -114,7 +125,15 @@ export default async function ReviewPage({
         (await prisma.review.findFirst({
           where: { contactId: contact.id },
           orderBy: { createdAt: "desc" },
-          select: { id: true, text: true, firstName: true, lastName: true, isAnonymous: true },
+          select: {
+            id: true,
+            text: true,
+            firstName: true,
+            lastName: true,
+            isAnonymous: true,
+            rating: true,
+            aspectRatings: true,
+          },
         }));
       alreadyReviewed = !!contact.reviewLinkSubmittedAt || !!contactReview;
       if (alreadyReviewed) existingReview = contactReview;
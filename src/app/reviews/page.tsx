@@ -45,6 +45,8 @@ export default async function ReviewsPage(): Promise<React.ReactElement> {
       firstName: true,
       lastName: true,
       isAnonymous: true,
+      rating: true,
+      aspectRatings: true,
       createdAt: true,
     },
     where: { status: "approved" },
@@ -55,6 +57,8 @@ export default async function ReviewsPage(): Promise<React.ReactElement> {
     text: r.text.trim().replace(/\s+/g, " "),
     firstName: r.firstName?.trim() || null,
     lastName: r.lastName?.trim() || null,
+    rating: r.rating ?? null,
+    aspectRatings: r.aspectRatings ?? null,
     // Dates can't cross the server > client boundary as Date objects.
     createdAt: r.createdAt.toISOString(),
   }));
@@ -17,13 +17,17 @@ import {
   FaArrowTrendUp,
   FaArrowUpRightFromSquare,
   FaBars,
+  FaBoxesStacked,
   FaBriefcase,
+  FaBuildingColumns,
   FaCalculator,
   FaCalendarDays,
   FaCalendarWeek,
+  FaEnvelope,
   FaFileInvoiceDollar,
   FaGaugeHigh,
   FaGear,
+  FaLandmark,
   FaMagnifyingGlassDollar,
   FaReceipt,
   FaRoute,
@@ -40,10 +44,14 @@ type AdminPage =
   | "bookings"
   | "travel"
   | "price-estimates"
+  | "messages"
   | "business"
   | "business-income"
   | "business-expenses"
   | "business-invoices"
+  | "business-stock"
+  | "business-bank"
+  | "business-gst"
   | "business-calculator"
   | "promos"
   | "settings";
@@ -98,6 +106,12 @@ const NAV_ITEMS: NavItem[] = [
     icon: <FaMagnifyingGlassDollar className="shrink-0" />,
     path: "/admin/price-estimates",
   },
+  {
+    page: "messages",
+    label: "Messages",
+    icon: <FaEnvelope className="shrink-0" />,
+    path: "/admin/messages",
+  },
 ];
 
 const BUSINESS_NAV_ITEMS: NavItem[] = [
@@ -125,6 +139,24 @@ const BUSINESS_NAV_ITEMS: NavItem[] = [
     icon: <FaFileInvoiceDollar className="shrink-0" />,
     path: "/admin/business/invoices",
   },
+  {
+    page: "business-stock",
+    label: "Stock",
+    icon: <FaBoxesStacked className="shrink-0" />,
+    path: "/admin/business/stock",
+  },
+  {
+    page: "business-bank",
+    label: "Bank import",
+    icon: <FaBuildingColumns className="shrink-0" />,
+    path: "/admin/business/bank",
+  },
+  {
+    page: "business-gst",
+    label: "GST return",
+    icon: <FaLandmark className="shrink-0" />,
+    path: "/admin/business/gst",
+  },
   {
     page: "business-calculator",
     label: "Calculator",
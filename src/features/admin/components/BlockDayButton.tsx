@@ -6,6 +6,7 @@
  * header, and a full-width labelled button used by the mobile day-agenda view.
  */
 
+import { ClearDayButton } from "@/features/admin/components/ClearDayButton";
 import { cn } from "@/shared/lib/cn";
 import type React from "react";
 import { FaBan, FaCircleCheck } from "react-icons/fa6";
@@ -63,9 +64,9 @@ export interface BlockDayButtonProps {
 }
 
 /**
- * Block/unblock-day toggle. Renders nothing for a day that can't be toggled:
- * more than 18h in the past, or a free day that already has a booking (a full-day
- * Busy would bury the appointment).
+ * Block/unblock-day toggle. Renders nothing for a day more than 18h in the past.
+ * A free day that already has a booking can't be blocked outright (a full-day
+ * Busy would bury the appointment), so it gets the Clear-day action instead.
  * @param props - Component props.
  * @param props.dateKey - NZ YYYY-MM-DD for the target day.
  * @param props.busyEventId - Existing all-day event id, or null.
@@ -77,7 +78,7 @@ export interface BlockDayButtonProps {
  * @param props.onChanged - Called after a successful change.
  * @param props.onOptimisticChange - Optimistic state hint fired on click.
  * @param props.variant - Visual variant; defaults to "icon".
- * @returns The button, or null when the day is hidden (past / has a booking).
+ * @returns The button, the Clear-day action, or null when the day is locked.
  */
 export function BlockDayButton({
   dateKey,
@@ -92,10 +93,13 @@ export function BlockDayButton({
   variant = "icon",
 }: BlockDayButtonProps): React.ReactElement | null {
   const isBlocked = blocked ?? busyEventId != null;
-  // Hide the toggle entirely for a day that can't be blocked: more than 18h in
-  // the past (locked), or a free day that already has a booking (a full-day Busy
-  // would bury the appointment). The routes enforce the same rules server-side.
-  if (locked || (hasBookings && !isBlocked)) return null;
+  // Hide the toggle entirely for a day more than 18h in the past (locked). A free
+  // day that already has a booking can't take a full-day Busy (it would bury the
+  // appointment) - offer to clear it instead. The routes enforce both server-side.
+  if (locked) return null;
+  if (hasBookings && !isBlocked) {
+    return <ClearDayButton dateKey={dateKey} onChanged={onChanged} variant={variant} />;
+  }
   // Disable only while THIS day's own request is in flight (other days stay live).
   // An optimistic-only block (shown blocked, no real event id yet - e.g. lost to a
   // merge) stays clickable; onClick clears it locally.
@@ -0,0 +1,247 @@
+"use client";
+// src/features/admin/components/ClearDayButton.tsx
+/**
+ * @description "Clear day" action for a day that already has bookings, shown in
+ * place of the block toggle (which can't bury a booking under a Busy event). The
+ * dialog lists the bookings on the day; confirming emails each customer a
+ * pick-a-new-time link and closes the day to new bookings, and the block goes in
+ * by itself once the last booking has moved or cancelled. A day already being
+ * cleared shows its progress with a "Stop clearing" escape hatch instead.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Modal } from "@/features/admin/components/ui/Modal";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { cn } from "@/shared/lib/cn";
+import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
+import type React from "react";
+import { useCallback, useState } from "react";
+import { FaCalendarXmark } from "react-icons/fa6";
+
+/** One booking on the day, as returned by the preview endpoint. */
+interface DayBookingRow {
+  id: string;
+  name: string;
+  email: string;
+  startAt: string;
+  status: string;
+}
+
+/** Preview payload from GET /api/admin/day-clearances. */
+interface ClearDayPreview {
+  bookings: DayBookingRow[];
+  pending: { id: string; createdAt: string; remaining: number } | null;
+}
+
+/** Props for {@link ClearDayButton}. */
+interface ClearDayButtonProps {
+  /** NZ YYYY-MM-DD for the target day. */
+  dateKey: string;
+  /** Called after the clearance starts or stops, so the parent can refresh. */
+  onChanged: () => void;
+  /** "icon" = compact 24px button for grid headers, "full" = labelled button. */
+  variant?: "icon" | "full";
+}
+
+/**
+ * Clear-day trigger + dialog.
+ * @param props - Component props.
+ * @param props.dateKey - NZ YYYY-MM-DD for the target day.
+ * @param props.onChanged - Refresh hook fired after a change.
+ * @param props.variant - Visual variant; defaults to "icon".
+ * @returns The trigger button and (when open) its dialog.
+ */
+export function ClearDayButton({
+  dateKey,
+  onChanged,
+  variant = "icon",
+}: ClearDayButtonProps): React.ReactElement {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<ClearDayPreview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  /** Opens the dialog and loads the bookings on the day. */
+  async function openDialog(): Promise<void> {
+    setOpen(true);
+    setPreview(null);
+    setLoadError(null);
+    try {
+      const res = await fetch(`/api/admin/day-clearances?dateKey=${encodeURIComponent(dateKey)}`);
+      const data = (await res.json()) as { ok?: boolean; error?: string } & ClearDayPreview;
+      if (!res.ok || !data.ok) {
+        setLoadError(data.error ?? "Failed to load the day's bookings.");
+        return;
+      }
+      setPreview({ bookings: data.bookings, pending: data.pending });
+    } catch {
+      setLoadError("Network error - try again.");
+    }
+  }
+
+  const close = useCallback(() => {
+    if (!busy) setOpen(false);
+  }, [busy]);
+
+  /** Starts the clearance: emails every customer and closes the day. */
+  async function startClearing(): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/admin/day-clearances", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dateKey }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        error?: string;
+        emailed?: number;
+        bookingCount?: number;
+        blocked?: boolean;
+      };
+      if (!res.ok || !data.ok) {
+        toast(data.error ?? "Failed to start clearing the day.", { tone: "error" });
+        return;
+      }
+      const emailed = data.emailed ?? 0;
+      const total = data.bookingCount ?? 0;
+      toast(
+        data.blocked
+          ? "Day was already clear - blocked."
+          : `Emailed ${emailed} of ${total} ${total === 1 ? "customer" : "customers"}. The day blocks once they've moved.`,
+        { tone: emailed < total ? "warning" : "success" },
+      );
+      setOpen(false);
+      onChanged();
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Abandons the pending clearance, reopening the day to bookings.
+   * @param clearanceId - The pending clearance's id.
+   */
+  async function stopClearing(clearanceId: string): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/day-clearances/${encodeURIComponent(clearanceId)}`, {
+        method: "DELETE",
+      });
+      const data = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (!res.ok || !data.ok) {
+        toast(data.error ?? "Failed to stop clearing the day.", { tone: "error" });
+        return;
+      }
+      toast("Stopped clearing - the day is open for bookings again.", { tone: "success" });
+      setOpen(false);
+      onChanged();
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const label = "Clear day - ask customers to move";
+  const pending = preview?.pending ?? null;
+
+  return (
+    <>
+      {variant === "full" ? (
+        <button
+          type="button"
+          onClick={() => void openDialog()}
+          aria-label={label}
+          className="inline-flex h-11 w-full items-center justify-center gap-2 rounded-md border border-admin-border bg-admin-surface px-3 text-sm font-semibold text-admin-text transition-colors hover:bg-admin-bg"
+        >
+          <FaCalendarXmark className="h-4 w-4" />
+          Clear day
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={() => void openDialog()}
+          aria-label={label}
+          title={label}
+          className={cn(
+            "inline-flex h-6 w-6 items-center justify-center rounded text-admin-faint transition-colors",
+            "hover:bg-admin-border hover:text-admin-text",
+          )}
+        >
+          <FaCalendarXmark className="h-3 w-3" />
+        </button>
+      )}
+
+      <Modal
+        open={open}
+        onClose={close}
+        title={`Clear ${formatDateShort(`${dateKey}T12:00:00Z`)}`}
+        description={
+          pending
+            ? "Customers have been asked to move. The day blocks once they have."
+            : "Each customer gets an email with suggested times and a link to pick a new one. The day closes to new bookings straight away and blocks once everyone has moved or cancelled."
+        }
+        footer={
+          pending ? (
+            <>
+              <AdminButton variant="secondary" onClick={close} disabled={busy}>
+                Close
+              </AdminButton>
+              <AdminButton
+                variant="danger"
+                onClick={() => void stopClearing(pending.id)}
+                busy={busy}
+              >
+                Stop clearing
+              </AdminButton>
+            </>
+          ) : (
+            <>
+              <AdminButton variant="secondary" onClick={close} disabled={busy}>
+                Cancel
+              </AdminButton>
+              <AdminButton onClick={() => void startClearing()} busy={busy} disabled={!preview}>
+                Email customers
+              </AdminButton>
+            </>
+          )
+        }
+      >
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+        {!loadError && !preview && <p className="text-sm text-admin-muted">Loading...</p>}
+        {preview && (
+          <>
+            {pending && (
+              <p className="mb-3 text-sm text-admin-text-secondary">
+                Started {formatDateTimeShort(pending.createdAt)} - {pending.remaining}{" "}
+                {pending.remaining === 1 ? "booking" : "bookings"} still on the day.
+              </p>
+            )}
+            {preview.bookings.length === 0 ? (
+              <p className="text-sm text-admin-muted">No bookings left on this day.</p>
+            ) : (
+              <ul className="divide-y divide-admin-border rounded-md border border-admin-border">
+                {preview.bookings.map((b) => (
+                  <li key={b.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-admin-text">{b.name}</p>
+                      <p className="truncate text-xs text-admin-muted">{b.email}</p>
+                    </div>
+                    <span className="shrink-0 text-xs text-admin-text-secondary">
+                      {formatDateTimeShort(b.startAt)}
+                      {b.status === "held" && " (held)"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </Modal>
+    </>
+  );
+}
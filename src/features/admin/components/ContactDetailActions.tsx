@@ -35,6 +35,8 @@ interface ContactDetailActionsProps {
   retainerPrice: number | null;
   /** Included support hours per month, or null. */
   retainerHours: number | null;
+  /** Hourly rate for hours past the allowance, or null for the standard rate. */
+  retainerOverageRate: number | null;
   /** Retainer start date as yyyy-mm-dd, or null. */
   retainerSince: string | null;
   /** Free-text notes on the arrangement, or null. */
@@ -61,6 +63,7 @@ const inputClass =
  * @param props.retainerTier - Retainer tier label, or null.
  * @param props.retainerPrice - Agreed monthly price, or null.
  * @param props.retainerHours - Included hours per month, or null.
+ * @param props.retainerOverageRate - Overage hourly rate, or null.
  * @param props.retainerSince - Retainer start date (yyyy-mm-dd), or null.
  * @param props.retainerNotes - Arrangement notes, or null.
  * @param props.siteNotes - Environment notes, or null.
@@ -76,6 +79,7 @@ export function ContactDetailActions({
   retainerTier,
   retainerPrice,
   retainerHours,
+  retainerOverageRate,
   retainerSince,
   retainerNotes,
   siteNotes,
@@ -94,6 +98,7 @@ export function ContactDetailActions({
     retainerTier: retainerTier ?? "",
     retainerPrice: retainerPrice !== null ? String(retainerPrice) : "",
     retainerHours: retainerHours !== null ? String(retainerHours) : "",
+    retainerOverageRate: retainerOverageRate !== null ? String(retainerOverageRate) : "",
     retainerSince: retainerSince ?? "",
     retainerNotes: retainerNotes ?? "",
     siteNotes: siteNotes ?? "",
@@ -107,11 +112,13 @@ export function ContactDetailActions({
     }
     const price = form.retainerPrice.trim() ? Number(form.retainerPrice) : null;
     const hours = form.retainerHours.trim() ? Number(form.retainerHours) : null;
+    const overageRate = form.retainerOverageRate.trim() ? Number(form.retainerOverageRate) : null;
     if (
       (price !== null && !Number.isFinite(price)) ||
-      (hours !== null && !Number.isFinite(hours))
+      (hours !== null && !Number.isFinite(hours)) ||
+      (overageRate !== null && !Number.isFinite(overageRate))
     ) {
-      toast("Retainer price and hours must be numbers.", { tone: "error" });
+      toast("Retainer price, hours and rate must be numbers.", { tone: "error" });
       return;
     }
     setBusy("save");
@@ -128,6 +135,7 @@ export function ContactDetailActions({
           retainerTier: form.retainerTier || null,
           retainerPrice: form.retainerTier ? price : null,
           retainerHours: form.retainerTier ? hours : null,
+          retainerOverageRate: form.retainerTier ? overageRate : null,
           retainerSince: form.retainerTier ? form.retainerSince || null : null,
           retainerNotes: form.retainerTier ? form.retainerNotes || null : null,
           siteNotes: form.siteNotes || null,
@@ -298,15 +306,31 @@ export function ContactDetailActions({
                       />
                     </label>
                   </div>
-                  <label className="flex flex-col gap-1 text-sm">
-                    <span className="font-medium text-admin-muted">Since</span>
-                    <input
-                      type="date"
-                      value={form.retainerSince}
-                      onChange={(e) => setForm((f) => ({ ...f, retainerSince: e.target.value }))}
-                      className={inputClass}
-                    />
-                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-sm">
+                      <span className="font-medium text-admin-muted">Since</span>
+                      <input
+                        type="date"
+                        value={form.retainerSince}
+                        onChange={(e) => setForm((f) => ({ ...f, retainerSince: e.target.value }))}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm">
+                      <span className="font-medium text-admin-muted">Overage $/hr</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={form.retainerOverageRate}
+                        onChange={(e) =>
+                          setForm((f) => ({ ...f, retainerOverageRate: e.target.value }))
+                        }
+                        className={inputClass}
+                        placeholder="Standard rate"
+                      />
+                    </label>
+                  </div>
                   <label className="flex flex-col gap-1 text-sm">
                     <span className="font-medium text-admin-muted">Notes</span>
                     <textarea
@@ -0,0 +1,291 @@
+"use client";
+// src/features/admin/components/ContactStatementCard.tsx
+/**
+ * @description Statement of account rail card on the customer-360 page: what
+ * the contact owes now, a date range, a PDF download and an email flow that
+ * previews the rendered email (editable greeting and message) before sending.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Card, CardHeader } from "@/features/admin/components/ui/Card";
+import { ADMIN_INPUT_CLS } from "@/features/admin/components/ui/field-classes";
+import { Modal } from "@/features/admin/components/ui/Modal";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { formatNZD } from "@/features/business/lib/business";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+/** Props for {@link ContactStatementCard}. */
+interface ContactStatementCardProps {
+  contactId: string;
+  /** Contact's primary email, or null (hides the email flow). */
+  email: string | null;
+  /** Sum of every open invoice's balance. */
+  owing: number;
+  /** Part of `owing` that's past due. */
+  overdue: number;
+  /** When a statement was last emailed (ISO), or null. */
+  statementSentAt: string | null;
+  /** Default range start, YYYY-MM-DD. */
+  defaultFrom: string;
+  /** Default range end, YYYY-MM-DD. */
+  defaultTo: string;
+  /** Saved statement template wording the email modal starts from. */
+  defaultEmailBody: string;
+}
+
+const FIELD_LABEL_CLS = "mb-2 block text-xs font-semibold text-admin-muted uppercase";
+
+/**
+ * Statement summary, range picker, PDF download and email-with-preview.
+ * @param props - Component props.
+ * @param props.contactId - Contact id.
+ * @param props.email - Contact's primary email, or null.
+ * @param props.owing - Total still owing.
+ * @param props.overdue - Overdue part of the total.
+ * @param props.statementSentAt - Last statement email (ISO), or null.
+ * @param props.defaultFrom - Default range start.
+ * @param props.defaultTo - Default range end.
+ * @param props.defaultEmailBody - Saved statement template wording.
+ * @returns Card element.
+ */
+export function ContactStatementCard({
+  contactId,
+  email,
+  owing,
+  overdue,
+  statementSentAt,
+  defaultFrom,
+  defaultTo,
+  defaultEmailBody,
+}: ContactStatementCardProps): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(defaultTo);
+  const [downloading, setDownloading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [greetingName, setGreetingName] = useState("");
+  const [customBody, setCustomBody] = useState(defaultEmailBody);
+  const [sending, setSending] = useState(false);
+
+  /** Downloads the statement PDF for the chosen range. */
+  async function downloadPdf(): Promise<void> {
+    setDownloading(true);
+    try {
+      const qs = new URLSearchParams({ from, to });
+      const res = await fetch(`/api/admin/contacts/${contactId}/statement?${qs.toString()}`);
+      if (!res.ok) {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(d.error ?? "Could not download PDF");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Statement ${to}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast(err instanceof Error ? err.message : "Could not download PDF", { tone: "error" });
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  /** Opens the email modal (if closed) and fetches the rendered email. */
+  async function loadPreview(): Promise<void> {
+    setOpen(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/contacts/${contactId}/statement/preview-email`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ from, to, greetingName, customBody }),
+      });
+      const d = (await res.json()) as {
+        ok: boolean;
+        error?: string;
+        subject?: string;
+        html?: string;
+      };
+      if (!d.ok || d.subject === undefined || d.html === undefined) {
+        throw new Error(d.error ?? "Could not load preview");
+      }
+      setPreview({ subject: d.subject, html: d.html });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load preview");
+    }
+  }
+
+  /** Sends the previewed statement email. */
+  async function send(): Promise<void> {
+    setSending(true);
+    try {
+      const res = await fetch(`/api/admin/contacts/${contactId}/statement/send-email`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ from, to, greetingName, customBody }),
+      });
+      const d = (await res.json()) as { ok: boolean; error?: string };
+      if (!d.ok) {
+        toast(d.error ?? "Couldn't send the statement.", { tone: "error" });
+        return;
+      }
+      toast("Statement emailed.", { tone: "success" });
+      setOpen(false);
+      setPreview(null);
+      router.refresh();
+    } catch {
+      toast("Couldn't send. Check your connection.", { tone: "error" });
+    } finally {
+      setSending(false);
+    }
+  }
+
+  /** Closes the email modal without sending. */
+  function close(): void {
+    if (sending) return;
+    setOpen(false);
+    setPreview(null);
+    setError(null);
+  }
+
+  return (
+    <Card>
+      <CardHeader title="Statement" description="Invoices, payments and credits with a balance." />
+      <dl className="mb-4 space-y-2 text-sm">
+        <div className="flex justify-between gap-3">
+          <dt className="text-admin-muted">Owing</dt>
+          <dd className="font-medium text-admin-text">{formatNZD(owing)}</dd>
+        </div>
+        {overdue > 0 && (
+          <div className="flex justify-between gap-3">
+            <dt className="text-admin-muted">Overdue</dt>
+            <dd className="font-medium text-coquelicot-800">{formatNZD(overdue)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between gap-3">
+          <dt className="text-admin-muted">Last sent</dt>
+          <dd className="font-medium text-admin-text">
+            {statementSentAt ? formatDateShort(statementSentAt) : "Never"}
+          </dd>
+        </div>
+      </dl>
+      <div className="mb-3 grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-xs">
+          <span className="font-medium text-admin-muted">From</span>
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className={ADMIN_INPUT_CLS}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs">
+          <span className="font-medium text-admin-muted">To</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className={ADMIN_INPUT_CLS}
+          />
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <AdminButton
+          size="sm"
+          variant="secondary"
+          busy={downloading}
+          disabled={!from || !to}
+          onClick={() => void downloadPdf()}
+        >
+          PDF
+        </AdminButton>
+        {email && (
+          <AdminButton size="sm" disabled={!from || !to} onClick={() => void loadPreview()}>
+            Email statement
+          </AdminButton>
+        )}
+      </div>
+
+      <Modal
+        open={open}
+        onClose={close}
+        title="Send statement"
+        description={
+          <>
+            To: <span className="font-medium">{email}</span>
+          </>
+        }
+        size="lg"
+        footer={
+          <>
+            <AdminButton variant="secondary" onClick={close} disabled={sending}>
+              Cancel
+            </AdminButton>
+            <AdminButton onClick={() => void send()} busy={sending} disabled={!!error || !preview}>
+              Send email
+            </AdminButton>
+          </>
+        }
+      >
+        {!preview && !error && (
+          <p className="py-6 text-center text-sm text-admin-muted">Loading preview...</p>
+        )}
+        {error && (
+          <p className="rounded-lg border border-coquelicot-200 bg-coquelicot-100 px-4 py-3 text-sm text-coquelicot-800">
+            {error}
+          </p>
+        )}
+        {preview && (
+          <div>
+            <label htmlFor="statement-greeting" className={FIELD_LABEL_CLS}>
+              Greeting (the person you&apos;re emailing)
+            </label>
+            <input
+              id="statement-greeting"
+              type="text"
+              value={greetingName}
+              onChange={(e) => setGreetingName(e.target.value)}
+              onBlur={() => void loadPreview()}
+              placeholder="Leave blank to use the first word of the contact name"
+              disabled={sending}
+              className={`${ADMIN_INPUT_CLS} mb-4`}
+            />
+            <label htmlFor="statement-body" className={FIELD_LABEL_CLS}>
+              Message
+            </label>
+            <textarea
+              id="statement-body"
+              rows={3}
+              value={customBody}
+              onChange={(e) => setCustomBody(e.target.value)}
+              onBlur={() => void loadPreview()}
+              disabled={sending}
+              className={`${ADMIN_INPUT_CLS} mb-4 resize-y`}
+            />
+            <p className={FIELD_LABEL_CLS}>Subject</p>
+            <p className="mb-4 text-sm font-medium text-admin-text">{preview.subject}</p>
+            <p className={FIELD_LABEL_CLS}>Body</p>
+            <div className="rounded-lg border border-admin-border bg-admin-bg p-2">
+              <iframe
+                title="Statement email preview"
+                srcDoc={preview.html}
+                sandbox="allow-same-origin"
+                className="h-105 w-full rounded bg-white"
+              />
+            </div>
+          </div>
+        )}
+      </Modal>
+    </Card>
+  );
+}
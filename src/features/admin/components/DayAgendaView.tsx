@@ -9,15 +9,19 @@
 import { BlockDayButton } from "@/features/admin/components/BlockDayButton";
 import { EventActionSheet } from "@/features/admin/components/EventActionSheet";
 import { ManualBookingModal } from "@/features/admin/components/ManualBookingModal";
+import { PlanDayButton } from "@/features/admin/components/PlanDayButton";
 import { useOptimisticDayBlocks } from "@/features/admin/hooks/use-optimistic-day-blocks";
 import {
   KIND_BAR_BG,
   KIND_STYLES,
   LegendDot,
   NZ_TZ,
+  TechnicianLegendDot,
   formatTimeRange,
   mondayOf,
   optimisticBusyEvent,
+  technicianAccent,
+  technicianLegend,
   type WeekEvent,
 } from "@/features/admin/lib/schedule-types";
 import { cn } from "@/shared/lib/cn";
@@ -218,6 +222,7 @@ export function DayAgendaView({
         : allDayEvents;
   const isToday = selectedDayKey === todayKey;
   const hasBookings = timedEvents.some((e) => e.kind === "booking");
+  const dayLocked = isPastEditWindow(nzDayEndMs(selectedDayKey), renderedAt, lockHours);
   const bookingCount = timedEvents.filter((e) => e.kind === "booking").length;
 
   // 7-day strip data: the Monday-to-Sunday week containing the selected day,
@@ -578,19 +583,22 @@ export function DayAgendaView({
         </div>
       )}
 
-      <div data-no-swipe className="mb-4">
+      <div data-no-swipe className="mb-4 flex flex-col gap-2">
         <BlockDayButton
           dateKey={selectedDayKey}
           busyEventId={busyEvent?.id ?? null}
           blocked={effectiveBlocked}
           hasBookings={hasBookings}
-          locked={isPastEditWindow(nzDayEndMs(selectedDayKey), renderedAt, lockHours)}
+          locked={dayLocked}
           pending={pendingDays.has(selectedDayKey)}
           onPending={setPending}
           onChanged={debouncedRefresh}
           onOptimisticChange={applyOptimisticBlock}
           variant="full"
         />
+        {hasBookings && !dayLocked && (
+          <PlanDayButton dateKey={selectedDayKey} onChanged={debouncedRefresh} />
+        )}
       </div>
 
       {visibleAllDayEvents.length > 0 && (
@@ -603,6 +611,7 @@ export function DayAgendaView({
                 "rounded-md border px-3 py-2 text-sm font-semibold",
                 KIND_STYLES[ev.kind],
               )}
+              style={technicianAccent(ev)}
               title={ev.title}
             >
               <div className="truncate">{ev.title}</div>
@@ -674,6 +683,13 @@ export function DayAgendaView({
                 )}
               >
                 <div className={cn("w-1.5 shrink-0", KIND_BAR_BG[ev.kind])} />
+                {ev.technician && (
+                  <div
+                    className="w-1 shrink-0"
+                    style={{ backgroundColor: ev.technician.color }}
+                    title={ev.technician.name}
+                  />
+                )}
                 <div className="min-w-0 flex-1 px-3 py-2">
                   <div className="flex items-center justify-between gap-2">
                     <div className="text-xs font-semibold text-admin-muted">
@@ -766,6 +782,9 @@ export function DayAgendaView({
         <LegendDot kind="car" label="No car" />
         <LegendDot kind="personal" label="Personal" />
         <LegendDot kind="travel" label="Travel" />
+        {technicianLegend(events).map((t) => (
+          <TechnicianLegendDot key={t.id} technician={t} />
+        ))}
       </div>
 
       {modalStartAt && (
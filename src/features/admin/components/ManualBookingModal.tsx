@@ -3,29 +3,45 @@
 /**
  * @description Modal for adding a booking from the admin schedule view. Used when
  * Harrison takes a booking over the phone or by email - prefills date/time from
- * the clicked slot and POSTs to the admin booking-create endpoint.
+ * the clicked slot and POSTs to the admin booking-create endpoint. Choosing a
+ * repeat turns it into a recurring series instead (the chosen start is the
+ * first visit), created through the admin booking-series endpoint.
  */
 
 import { AdminButton } from "@/features/admin/components/ui/AdminButton";
 import { Modal } from "@/features/admin/components/ui/Modal";
+import { useToast } from "@/features/admin/components/ui/Toast";
 import AddressAutocomplete from "@/features/booking/components/AddressAutocomplete";
 import {
   combineUnitAndAddress,
   splitUnitFromAddress,
   validateEmail,
 } from "@/features/booking/lib/booking";
+import {
+  describeSeries,
+  nzStartMinute,
+  validateSeriesAnchor,
+  type SeriesFrequency,
+} from "@/features/booking/lib/booking-series";
 import { EmailInput } from "@/shared/components/EmailInput";
 import { Field } from "@/shared/components/Field";
 import { PhoneInput } from "@/shared/components/PhoneInput";
 import { cn } from "@/shared/lib/cn";
 import { formatNZPhone, validatePhone } from "@/shared/lib/normalise-phone";
-import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
+import { getPacificAucklandOffset, nzDateKey } from "@/shared/lib/timezone-utils";
 import { useRouter } from "next/navigation";
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
 
 const NZ_TZ = "Pacific/Auckland";
 
+const REPEAT_OPTIONS: ReadonlyArray<{ value: SeriesFrequency | "none"; label: string }> = [
+  { value: "none", label: "Does not repeat" },
+  { value: "weekly", label: "Weekly" },
+  { value: "fortnightly", label: "Fortnightly" },
+  { value: "monthly", label: "Monthly" },
+];
+
 interface ContactSuggestion {
   id: string;
   name: string;
@@ -55,6 +71,7 @@ export function ManualBookingModal({
   initialDurationMinutes = 60,
 }: ManualBookingModalProps): React.ReactElement {
   const router = useRouter();
+  const { toast } = useToast();
   const nameRef = useRef<HTMLInputElement>(null);
   const nameWrapRef = useRef<HTMLDivElement>(null);
   // Lets the footer's Create button submit the form that lives in the modal body.
@@ -77,6 +94,7 @@ export function ManualBookingModal({
   const [estimateHint, setEstimateHint] = useState<string | null>(null);
   const lastEstimatedNotes = useRef("");
   const [sendConfirmation, setSendConfirmation] = useState(true);
+  const [repeat, setRepeat] = useState<SeriesFrequency | "none">("none");
   const [startAtLocal, setStartAtLocal] = useState(() => toLocalInputValue(startAtIso));
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -164,10 +182,19 @@ export function ManualBookingModal({
       return;
     }
     const phoneE164 = phoneCheck.e164;
+    const startAt = fromLocalInputValue(startAtLocal);
+    if (repeat !== "none") {
+      const anchorError = validateSeriesAnchor(repeat, nzDateKey(startAt));
+      if (anchorError) {
+        setError(anchorError);
+        return;
+      }
+      await submitSeries(repeat, startAt, phoneE164);
+      return;
+    }
 
     setSubmitting(true);
     try {
-      const startAt = fromLocalInputValue(startAtLocal);
       const res = await fetch("/api/admin/bookings", {
         method: "POST",
         headers: {
@@ -199,6 +226,62 @@ export function ManualBookingModal({
     }
   }
 
+  /**
+   * Creates a recurring series starting at the chosen time, then reports how
+   * many visits were booked and which dates were skipped for a clash.
+   * @param frequency - Repeat cadence.
+   * @param startAt - First visit.
+   * @param phoneE164 - Normalised phone, or empty.
+   * @returns Promise that resolves once the request settles.
+   */
+  async function submitSeries(
+    frequency: SeriesFrequency,
+    startAt: Date,
+    phoneE164: string,
+  ): Promise<void> {
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/admin/booking-series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          email: email.trim().toLowerCase(),
+          phone: phoneE164 || null,
+          address: combineUnitAndAddress(unit, address) || null,
+          notes: notes.trim(),
+          startAt: startAt.toISOString(),
+          durationMinutes,
+          frequency,
+        }),
+      });
+      const data = (await res.json()) as {
+        ok: boolean;
+        error?: string;
+        created?: number;
+        skipped?: string[];
+      };
+      if (!res.ok || !data.ok) {
+        setError(data.error ?? "Failed to create the series.");
+        setSubmitting(false);
+        return;
+      }
+      const skipped = data.skipped ?? [];
+      toast(
+        skipped.length > 0
+          ? `Series created - ${data.created ?? 0} visits booked, ${skipped.length} skipped for a clash (${skipped.join(", ")}).`
+          : `Series created - ${data.created ?? 0} visits booked.`,
+        { tone: skipped.length > 0 ? "warning" : "success" },
+      );
+      router.refresh();
+      onClose();
+    } catch (err) {
+      console.error("[ManualBookingModal] series submit failed", err);
+      setError("Network error - try again.");
+      setSubmitting(false);
+    }
+  }
+
   return (
     <Modal
       open
@@ -219,7 +302,7 @@ export function ManualBookingModal({
             busy={submitting}
             onClick={() => formRef.current?.requestSubmit()}
           >
-            Create booking
+            {repeat === "none" ? "Create booking" : "Create series"}
           </AdminButton>
         </>
       }
@@ -259,6 +342,35 @@ export function ManualBookingModal({
           </Field>
         </div>
 
+        <Field label="Repeats" htmlFor="mb-repeat">
+          <select
+            id="mb-repeat"
+            value={repeat}
+            onChange={(e) => setRepeat(e.target.value as SeriesFrequency | "none")}
+            className={textInputClasses}
+          >
+            {REPEAT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          {repeat !== "none" && startAtLocal && (
+            <p className="mt-1 text-xs text-admin-muted">
+              {(() => {
+                const first = fromLocalInputValue(startAtLocal);
+                return describeSeries({
+                  frequency: repeat,
+                  anchorDateKey: nzDateKey(first),
+                  startMinute: nzStartMinute(first),
+                });
+              })()}
+              . Visits are booked up to the booking horizon and kept rolling forward; any that clash
+              are skipped.
+            </p>
+          )}
+        </Field>
+
         <Field label="Customer name" htmlFor="mb-name" required>
           <div
             ref={nameWrapRef}
@@ -385,15 +497,17 @@ export function ManualBookingModal({
           />
         </Field>
 
-        <label className="flex items-center gap-2 text-sm text-admin-text">
-          <input
-            type="checkbox"
-            checked={sendConfirmation}
-            onChange={(e) => setSendConfirmation(e.target.checked)}
-            className="h-4 w-4 rounded border-admin-border-strong"
-          />
-          Send confirmation email to customer
-        </label>
+        {repeat === "none" && (
+          <label className="flex items-center gap-2 text-sm text-admin-text">
+            <input
+              type="checkbox"
+              checked={sendConfirmation}
+              onChange={(e) => setSendConfirmation(e.target.checked)}
+              className="h-4 w-4 rounded border-admin-border-strong"
+            />
+            Send confirmation email to customer
+          </label>
+        )}
 
         {error && (
           <p
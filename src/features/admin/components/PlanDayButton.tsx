@@ -0,0 +1,344 @@
+"use client";
+// src/features/admin/components/PlanDayButton.tsx
+/**
+ * @description "Plan route" action for a day with bookings. The dialog shows
+ * each route's visits as booked next to the least-driving order the planner
+ * found, with a "can move" toggle per visit (held and too-soon visits stay
+ * put). Sending emails every customer whose time would change; nothing moves
+ * until they've all said yes. A route already waiting on answers shows who has
+ * replied, with a "Withdraw" escape hatch instead.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Modal } from "@/features/admin/components/ui/Modal";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { cn } from "@/shared/lib/cn";
+import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
+import type React from "react";
+import { useCallback, useState } from "react";
+import { FaRoute } from "react-icons/fa6";
+
+/** One visit on a route, as returned by the planning endpoint. */
+interface RouteVisitRow {
+  bookingId: string;
+  name: string;
+  address: string;
+  startAt: string;
+  endAt: string;
+  locked: boolean;
+  pinned: boolean;
+}
+
+/** A planned order, with ISO times. */
+interface PlanRow {
+  driveMins: number;
+  stops: Array<{ id: string; startAt: string; driveInMins: number; moved: boolean }>;
+}
+
+/** One route on the day, as returned by GET /api/admin/day-plans. */
+interface RouteRow {
+  technicianId: string | null;
+  technicianName: string | null;
+  visits: RouteVisitRow[];
+  current: PlanRow;
+  proposed: PlanRow | null;
+  problem: string | null;
+  pending: {
+    id: string;
+    expiresAt: string;
+    driveMinsBefore: number;
+    driveMinsAfter: number;
+    proposals: Array<{
+      bookingId: string;
+      name: string;
+      toStartAt: string;
+      status: "pending" | "accepted" | "declined";
+    }>;
+  } | null;
+}
+
+/** Props for {@link PlanDayButton}. */
+interface PlanDayButtonProps {
+  /** NZ YYYY-MM-DD for the target day. */
+  dateKey: string;
+  /** Called after a plan is sent or withdrawn, so the parent can refresh. */
+  onChanged: () => void;
+}
+
+/**
+ * Plan-route trigger + dialog.
+ * @param props - Component props.
+ * @param props.dateKey - NZ YYYY-MM-DD for the target day.
+ * @param props.onChanged - Refresh hook fired after a change.
+ * @returns The trigger button and (when open) its dialog.
+ */
+export function PlanDayButton({ dateKey, onChanged }: PlanDayButtonProps): React.ReactElement {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [routes, setRoutes] = useState<RouteRow[] | null>(null);
+  const [pinned, setPinned] = useState<Set<string>>(new Set());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  /**
+   * Plans the day, leaving pinned visits at their time.
+   * @param pins - Bookings the operator has pinned.
+   */
+  async function load(pins: Set<string>): Promise<void> {
+    setLoadError(null);
+    try {
+      const params = new URLSearchParams({ dateKey, pinned: [...pins].join(",") });
+      const res = await fetch(`/api/admin/day-plans?${params.toString()}`);
+      const data = (await res.json()) as { ok?: boolean; error?: string; routes?: RouteRow[] };
+      if (!res.ok || !data.ok || !data.routes) {
+        setLoadError(data.error ?? "Failed to plan the day.");
+        return;
+      }
+      setRoutes(data.routes);
+    } catch {
+      setLoadError("Network error - try again.");
+    }
+  }
+
+  /** Opens the dialog with nothing pinned. */
+  function openDialog(): void {
+    setOpen(true);
+    setRoutes(null);
+    setPinned(new Set());
+    void load(new Set());
+  }
+
+  const close = useCallback(() => {
+    if (!busy) setOpen(false);
+  }, [busy]);
+
+  /**
+   * Flips a visit between movable and pinned, then re-plans.
+   * @param bookingId - The visit's booking.
+   */
+  function togglePin(bookingId: string): void {
+    const next = new Set(pinned);
+    if (next.has(bookingId)) next.delete(bookingId);
+    else next.add(bookingId);
+    setPinned(next);
+    void load(next);
+  }
+
+  /**
+   * Emails the customers on one route their proposed times.
+   * @param route - The route to send.
+   */
+  async function sendPlan(route: RouteRow): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/admin/day-plans", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dateKey,
+          technicianId: route.technicianId,
+          pinnedIds: [...pinned],
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        error?: string;
+        emailed?: number;
+        proposals?: number;
+      };
+      if (!res.ok || !data.ok) {
+        toast(data.error ?? "Failed to send the plan.", { tone: "error" });
+        return;
+      }
+      const emailed = data.emailed ?? 0;
+      const total = data.proposals ?? 0;
+      toast(
+        `Emailed ${emailed} of ${total} ${total === 1 ? "customer" : "customers"}. The route changes once they've all said yes.`,
+        { tone: emailed < total ? "warning" : "success" },
+      );
+      onChanged();
+      await load(pinned);
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Withdraws a plan still waiting on customers; bookings stay as they are.
+   * @param planId - The pending plan's id.
+   */
+  async function withdrawPlan(planId: string): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/day-plans/${encodeURIComponent(planId)}`, {
+        method: "DELETE",
+      });
+      const data = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (!res.ok || !data.ok) {
+        toast(data.error ?? "Failed to withdraw the plan.", { tone: "error" });
+        return;
+      }
+      toast("Plan withdrawn - bookings stay as they are.", { tone: "success" });
+      onChanged();
+      await load(pinned);
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Renders one route: the booked order beside the proposal, or the pending plan.
+   * @param route - The route.
+   * @param withHeading - Name whose route it is; off for a lone operator's day.
+   * @returns The route's section.
+   */
+  function renderRoute(route: RouteRow, withHeading: boolean): React.ReactElement {
+    const names = new Map(route.visits.map((v) => [v.bookingId, v.name]));
+    const saving = route.proposed ? route.current.driveMins - route.proposed.driveMins : 0;
+    const moves = route.proposed?.stops.filter((s) => s.moved).length ?? 0;
+    return (
+      <section
+        key={route.technicianId ?? "unassigned"}
+        className="rounded-md border border-admin-border p-3"
+      >
+        {withHeading && (
+          <h3 className="mb-2 text-sm font-semibold text-admin-text">
+            {route.technicianName ?? "Unassigned"}
+          </h3>
+        )}
+
+        {route.pending ? (
+          <>
+            <p className="mb-2 text-sm text-admin-text-secondary">
+              Waiting on customers until {formatDateTimeShort(route.pending.expiresAt)} - saves{" "}
+              {route.pending.driveMinsBefore - route.pending.driveMinsAfter} min of driving.
+            </p>
+            <ul className="mb-2 divide-y divide-admin-border rounded-md border border-admin-border">
+              {route.pending.proposals.map((p) => (
+                <li key={p.bookingId} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className="truncate text-sm text-admin-text">
+                    {p.name} to {formatDateTimeShort(p.toStartAt)}
+                  </span>
+                  <span
+                    className={cn(
+                      "shrink-0 text-xs font-semibold",
+                      p.status === "accepted" && "text-green-700",
+                      p.status === "declined" && "text-red-600",
+                      p.status === "pending" && "text-admin-muted",
+                    )}
+                  >
+                    {p.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <AdminButton
+              variant="danger"
+              onClick={() => void withdrawPlan(route.pending!.id)}
+              busy={busy}
+            >
+              Withdraw
+            </AdminButton>
+          </>
+        ) : (
+          <>
+            <ul className="mb-2 divide-y divide-admin-border rounded-md border border-admin-border">
+              {route.current.stops.map((s) => {
+                const visit = route.visits.find((v) => v.bookingId === s.id);
+                return (
+                  <li key={s.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-admin-text">
+                        {formatDateTimeShort(s.startAt)} {visit?.name}
+                      </p>
+                      <p className="truncate text-xs text-admin-muted">{visit?.address}</p>
+                    </div>
+                    <label className="flex shrink-0 items-center gap-1 text-xs text-admin-text-secondary">
+                      <input
+                        type="checkbox"
+                        checked={!visit?.pinned}
+                        disabled={busy || visit?.locked}
+                        onChange={() => togglePin(s.id)}
+                      />
+                      {visit?.locked ? "Locked" : "Can move"}
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="mb-2 text-xs text-admin-muted">
+              As booked: {route.current.driveMins} min of driving.
+            </p>
+            {route.problem && <p className="text-sm text-admin-text-secondary">{route.problem}</p>}
+            {route.proposed && moves === 0 && (
+              <p className="text-sm text-admin-text-secondary">
+                Already the shortest route that fits.
+              </p>
+            )}
+            {route.proposed && moves > 0 && (
+              <>
+                <p className="mb-1 text-sm font-semibold text-admin-text">
+                  Proposed: {route.proposed.driveMins} min ({saving} min less)
+                </p>
+                <ol className="mb-2 list-decimal pl-5 text-sm text-admin-text-secondary">
+                  {route.proposed.stops.map((s) => (
+                    <li key={s.id} className={cn(s.moved && "font-semibold text-admin-text")}>
+                      {formatDateTimeShort(s.startAt)} {names.get(s.id)}
+                      {s.moved && " (moves)"}
+                    </li>
+                  ))}
+                </ol>
+                <AdminButton onClick={() => void sendPlan(route)} busy={busy}>
+                  Send proposals
+                </AdminButton>
+              </>
+            )}
+          </>
+        )}
+      </section>
+    );
+  }
+
+  const label = "Plan route - least driving";
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openDialog}
+        aria-label={label}
+        className="inline-flex h-11 w-full items-center justify-center gap-2 rounded-md border border-admin-border bg-admin-surface px-3 text-sm font-semibold text-admin-text transition-colors hover:bg-admin-bg"
+      >
+        <FaRoute className="h-4 w-4" />
+        Plan route
+      </button>
+
+      <Modal
+        open={open}
+        onClose={close}
+        title={`Plan ${formatDateShort(`${dateKey}T12:00:00Z`)}`}
+        description="The order with the least driving, keeping customers at their booked time where it can. Customers whose time would change are asked by email; nothing moves until they've all said yes."
+        footer={
+          <AdminButton variant="secondary" onClick={close} disabled={busy}>
+            Close
+          </AdminButton>
+        }
+      >
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+        {!loadError && !routes && <p className="text-sm text-admin-muted">Planning...</p>}
+        {routes && routes.length === 0 && (
+          <p className="text-sm text-admin-muted">No in-person visits on this day.</p>
+        )}
+        {routes && routes.length > 0 && (
+          <div className="flex flex-col gap-3">
+            {routes.map((r) => renderRoute(r, routes.length > 1 || r.technicianName !== null))}
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
@@ -14,10 +14,13 @@ import {
   LegendDot,
   NZ_TZ,
   OPTIMISTIC_BUSY_PREFIX,
+  TechnicianLegendDot,
   formatHour,
   formatTimeRange,
   mondayOf,
   optimisticBusyEvent,
+  technicianAccent,
+  technicianLegend,
   type WeekEvent,
   type WeekViewKind,
 } from "@/features/admin/lib/schedule-types";
@@ -468,6 +471,9 @@ export function WeekView({
               <LegendDot kind="car" label="No car (Car cal)" />
               <LegendDot kind="personal" label="Personal" />
               <LegendDot kind="travel" label="Travel" />
+              {technicianLegend(events).map((t) => (
+                <TechnicianLegendDot key={t.id} technician={t} />
+              ))}
               <span className="ml-auto text-admin-faint">
                 Click an empty slot to add · click a booking to edit
               </span>
@@ -558,7 +564,7 @@ function DayColumn({
               KIND_STYLES[ev.kind],
               canOpen && "cursor-pointer",
             )}
-            style={{ top: `${top}px`, height: `${height}px` }}
+            style={{ top: `${top}px`, height: `${height}px`, ...technicianAccent(ev) }}
             title={`${ev.title}${ev.location ? `\n${ev.location}` : ""}${bookingId ? "\nClick to open" : calendarLink ? "\nClick to open in Google Calendar" : ""}`}
           >
             <div className="truncate font-semibold">{ev.title}</div>
@@ -5,10 +5,13 @@
  * switch + paused message, the per-weekday hours (with optional midday break and
  * day-off), the booking-window rules, job durations, and daily caps. Saves
  * through the shared settings form hook; guardrails (e.g. a day too short for a
- * job) come back from the API and surface inline.
+ * job) come back from the API and surface inline. The weekly hours rows live in
+ * WeeklyHoursField, the ICS / CalDAV calendar list in ExternalCalendarsField and
+ * the technician list in TechniciansField.
  */
 
 import { AvailabilityPreview } from "@/features/admin/components/settings/AvailabilityPreview";
+import { ExternalCalendarsField } from "@/features/admin/components/settings/ExternalCalendarsField";
 import {
   FieldShell,
   NumberField,
@@ -17,11 +20,17 @@ import {
 } from "@/features/admin/components/settings/SettingsFields";
 import { SettingsFooter } from "@/features/admin/components/settings/SettingsFooter";
 import { SettingsHistory } from "@/features/admin/components/settings/SettingsHistory";
+import { TechniciansField } from "@/features/admin/components/settings/TechniciansField";
 import { useSettingsForm } from "@/features/admin/components/settings/useSettingsForm";
+import {
+  DAY_ORDER,
+  HourSelect,
+  WeeklyHoursField,
+} from "@/features/admin/components/settings/WeeklyHoursField";
 import { hourLabel } from "@/features/booking/lib/booking";
 import { cn } from "@/shared/lib/cn";
 import { AVAILABILITY_FIELD_META } from "@/shared/lib/settings/field-meta";
-import type { AvailabilitySettings, DayWindow, MorningGuard } from "@/shared/lib/settings/types";
+import type { AvailabilitySettings, MorningGuard } from "@/shared/lib/settings/types";
 import type React from "react";
 
 interface Props {
@@ -29,64 +38,6 @@ interface Props {
   defaults: AvailabilitySettings;
 }
 
-/** Weekday order shown in the editor (Mon-Sun) with their `getUTCDay()` index. */
-const DAY_ORDER: { index: number; name: string }[] = [
-  { index: 1, name: "Monday" },
-  { index: 2, name: "Tuesday" },
-  { index: 3, name: "Wednesday" },
-  { index: 4, name: "Thursday" },
-  { index: 5, name: "Friday" },
-  { index: 6, name: "Saturday" },
-  { index: 0, name: "Sunday" },
-];
-
-/**
- * Labels an hour for the close dropdown, where 24 means midnight (end of day).
- * @param h - Hour 1-24.
- * @returns Display label.
- */
-function closeLabel(h: number): string {
-  return h === 24 ? "12am" : hourLabel(h);
-}
-
-interface HourSelectProps {
-  value: number;
-  onChange: (h: number) => void;
-  /** Inclusive hour range for the options. */
-  from: number;
-  to: number;
-  /** Use the close-style label (24 = midnight). */
-  close?: boolean;
-}
-
-/**
- * Small hour dropdown used for open/close/break times.
- * @param props - Component props.
- * @param props.value - Selected hour.
- * @param props.onChange - Called with the new hour.
- * @param props.from - First selectable hour.
- * @param props.to - Last selectable hour.
- * @param props.close - Whether to label 24 as midnight.
- * @returns Hour select element.
- */
-function HourSelect({ value, onChange, from, to, close }: HourSelectProps): React.ReactElement {
-  const opts: number[] = [];
-  for (let h = from; h <= to; h++) opts.push(h);
-  return (
-    <select
-      value={value}
-      onChange={(e) => onChange(Number(e.target.value))}
-      className="rounded-lg border border-admin-border-strong px-2 py-2 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none"
-    >
-      {opts.map((h) => (
-        <option key={h} value={h}>
-          {close ? closeLabel(h) : hourLabel(h)}
-        </option>
-      ))}
-    </select>
-  );
-}
-
 /**
  * Availability settings tab.
  * @param props - Component props.
@@ -99,18 +50,6 @@ export function AvailabilityTab({ initial, defaults }: Props): React.ReactElemen
   const { draft, setDraft, fieldErrors } = form;
   const m = AVAILABILITY_FIELD_META;
 
-  /**
-   * Patches one weekday's window in the draft.
-   * @param index - The weekday's `getUTCDay()` index.
-   * @param patch - Partial day-window fields to merge.
-   * @returns void
-   */
-  const setDay = (index: number, patch: Partial<DayWindow>): void =>
-    setDraft((p) => ({
-      ...p,
-      schedule: { ...p.schedule, [index]: { ...p.schedule[index], ...patch } },
-    }));
-
   /**
    * Merges a top-level availability patch into the draft.
    * @param patch - Partial availability fields.
@@ -206,89 +145,7 @@ export function AvailabilityTab({ initial, defaults }: Props): React.ReactElemen
         Set the hours you take bookings each day. Turn a day off, or add a midday break that splits
         it into two windows.
       </p>
-      <div className="mt-3 space-y-2">
-        {DAY_ORDER.map(({ index, name }) => {
-          const d = draft.schedule[index];
-          return (
-            <div key={index} className="rounded-lg border border-admin-border p-3">
-              <div className="flex flex-wrap items-center gap-3">
-                <span className="w-24 text-sm font-semibold text-admin-text">{name}</span>
-                <button
-                  type="button"
-                  role="switch"
-                  aria-checked={d.enabled}
-                  onClick={() => setDay(index, { enabled: !d.enabled })}
-                  className={cn(
-                    "relative inline-flex h-6 w-11 items-center rounded-full transition-colors",
-                    d.enabled ? "bg-russian-violet" : "bg-admin-border-strong",
-                  )}
-                >
-                  <span
-                    className={cn(
-                      "inline-block h-4 w-4 rounded-full bg-admin-surface shadow transition-[translate]",
-                      d.enabled ? "translate-x-6" : "translate-x-1",
-                    )}
-                  />
-                </button>
-                {d.enabled ? (
-                  <div className="flex flex-wrap items-center gap-2 text-sm text-admin-text-secondary">
-                    <HourSelect
-                      value={d.open}
-                      from={0}
-                      to={23}
-                      onChange={(h) => setDay(index, { open: h })}
-                    />
-                    <span>to</span>
-                    <HourSelect
-                      value={d.close}
-                      from={1}
-                      to={24}
-                      close
-                      onChange={(h) => setDay(index, { close: h })}
-                    />
-                    <label className="ml-2 flex items-center gap-1.5">
-                      <input
-                        type="checkbox"
-                        checked={d.break !== null}
-                        onChange={(e) =>
-                          setDay(index, {
-                            break: e.target.checked ? { start: 13, end: 14 } : null,
-                          })
-                        }
-                      />
-                      Break
-                    </label>
-                    {d.break && (
-                      <span className="flex items-center gap-2">
-                        <HourSelect
-                          value={d.break.start}
-                          from={d.open}
-                          to={d.close}
-                          onChange={(h) =>
-                            setDay(index, { break: { start: h, end: d.break!.end } })
-                          }
-                        />
-                        <span>to</span>
-                        <HourSelect
-                          value={d.break.end}
-                          from={d.open}
-                          to={d.close}
-                          close
-                          onChange={(h) =>
-                            setDay(index, { break: { start: d.break!.start, end: h } })
-                          }
-                        />
-                      </span>
-                    )}
-                  </div>
-                ) : (
-                  <span className="text-sm text-admin-faint italic">Day off</span>
-                )}
-              </div>
-            </div>
-          );
-        })}
-      </div>
+      <WeeklyHoursField schedule={draft.schedule} onChange={(schedule) => setTop({ schedule })} />
 
       {/* Booking rules */}
       <h3 className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase">
@@ -405,6 +262,15 @@ export function AvailabilityTab({ initial, defaults }: Props): React.ReactElemen
           customised={draft.maxBillableHoursPerDay !== defaults.maxBillableHoursPerDay}
           onChange={(v) => setTop({ maxBillableHoursPerDay: v })}
         />
+        <NumberField
+          id="waitlistHoldHours"
+          meta={m.waitlistHoldHours}
+          value={draft.waitlistHoldHours}
+          min={1}
+          error={fieldErrors.waitlistHoldHours}
+          customised={draft.waitlistHoldHours !== defaults.waitlistHoldHours}
+          onChange={(v) => setTop({ waitlistHoldHours: v ?? 1 })}
+        />
       </div>
 
       {/* Morning guards - protect early slots once the night-before arrives.
@@ -519,6 +385,36 @@ export function AvailabilityTab({ initial, defaults }: Props): React.ReactElemen
         </button>
       </div>
 
+      {/* id matches the `externalCalendars` field-meta key so search can scroll here. */}
+      <h3
+        id="externalCalendars"
+        tabIndex={-1}
+        className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase"
+      >
+        {m.externalCalendars.title}
+      </h3>
+      <ExternalCalendarsField
+        calendars={draft.externalCalendars}
+        fieldErrors={fieldErrors}
+        onChange={(externalCalendars) => setTop({ externalCalendars })}
+      />
+
+      {/* id matches the `technicians` field-meta key so search can scroll here. */}
+      <h3
+        id="technicians"
+        tabIndex={-1}
+        className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase"
+      >
+        {m.technicians.title}
+      </h3>
+      <TechniciansField
+        technicians={draft.technicians}
+        externalCalendars={draft.externalCalendars}
+        sharedSchedule={draft.schedule}
+        fieldErrors={fieldErrors}
+        onChange={(technicians) => setTop({ technicians })}
+      />
+
       <AvailabilityPreview config={draft} />
 
       <SettingsFooter form={form} />
@@ -0,0 +1,133 @@
+"use client";
+// src/features/admin/components/settings/BookingFeedPanel.tsx
+/**
+ * @description Settings card for the private bookings feed: shows the current
+ * subscription link, and issues a new one or turns the feed off. Not a settings
+ * group - the token is a secret, so it lives outside versioned settings and
+ * their history, and each action takes effect immediately rather than on Save.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { ConfirmDialog } from "@/features/admin/components/ui/ConfirmDialog";
+import { apiFetch } from "@/shared/lib/api-client";
+import { formatDateShort } from "@/shared/lib/date-format";
+import type React from "react";
+import { useState } from "react";
+
+/** The live feed link, as the server hands it over. */
+export interface BookingFeedState {
+  urls: { https: string; webcal: string };
+  /** ISO time the token was issued. */
+  createdAt: string;
+}
+
+/**
+ * Bookings feed card.
+ * @param props - Component props.
+ * @param props.initial - The current feed link, or null when the feed is off.
+ * @returns Feed card element.
+ */
+export function BookingFeedPanel({
+  initial,
+}: {
+  initial: BookingFeedState | null;
+}): React.ReactElement {
+  const [feed, setFeed] = useState(initial);
+  const [confirming, setConfirming] = useState<"rotate" | "revoke" | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  /** Runs the confirmed action against the feed endpoint. */
+  async function handleConfirm(): Promise<void> {
+    setBusy(true);
+    setError(null);
+    if (confirming === "revoke") {
+      const res = await apiFetch("/api/admin/booking-feed", { method: "DELETE" });
+      if (res.ok) setFeed(null);
+      else setError(res.error);
+    } else {
+      const res = await apiFetch<BookingFeedState>("/api/admin/booking-feed", { method: "POST" });
+      if (res.ok) setFeed({ urls: res.data.urls, createdAt: res.data.createdAt });
+      else setError(res.error);
+    }
+    setBusy(false);
+    setConfirming(null);
+  }
+
+  /** Copies the subscription link and shows brief confirmation. */
+  async function handleCopy(): Promise<void> {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.urls.webcal);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  return (
+    <div className="mt-6 rounded-xl border border-admin-border bg-admin-surface p-5 shadow-sm sm:p-6">
+      <h2 id="bookingFeed" tabIndex={-1} className="text-lg font-bold text-russian-violet">
+        Bookings calendar feed
+      </h2>
+      <p className="mt-1 text-sm text-admin-muted">
+        A private link anyone can subscribe to from Apple, Outlook or Google Calendar to see
+        upcoming bookings - customer details, address, quote, notes and travel time included. No
+        Google access needed. Anyone holding the link can read it, so share it only with people who
+        should see customer details.
+      </p>
+
+      {feed ? (
+        <>
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feed.urls.webcal}
+              aria-label="Feed subscription link"
+              onFocus={(e) => e.target.select()}
+              className="min-w-0 flex-1 rounded-lg border border-admin-border bg-admin-bg px-3 py-1.5 font-mono text-xs text-admin-text"
+            />
+            <AdminButton variant="secondary" size="xs" onClick={handleCopy}>
+              {copied ? "Copied!" : "Copy link"}
+            </AdminButton>
+          </div>
+          <p className="mt-2 text-xs text-admin-faint">
+            Issued {formatDateShort(feed.createdAt)}. Apps that can't open webcal:// links can use{" "}
+            <span className="font-mono break-all">{feed.urls.https}</span>
+          </p>
+        </>
+      ) : (
+        <p className="mt-4 text-sm text-admin-text-secondary">The feed is off.</p>
+      )}
+
+      {error && <p className="mt-2 text-sm font-medium text-coquelicot-500">{error}</p>}
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <AdminButton variant="secondary" size="sm" onClick={() => setConfirming("rotate")}>
+          {feed ? "Issue new link" : "Turn on feed"}
+        </AdminButton>
+        {feed && (
+          <AdminButton variant="danger" size="sm" onClick={() => setConfirming("revoke")}>
+            Turn off feed
+          </AdminButton>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={confirming !== null}
+        title={confirming === "revoke" ? "Turn off the bookings feed?" : "Issue a new feed link?"}
+        body={
+          confirming === "revoke"
+            ? "Every subscribed calendar stops updating. You can turn the feed back on later, with a new link."
+            : feed
+              ? "The current link stops working straight away; anyone subscribed needs the new one."
+              : "Anyone with the new link will be able to read upcoming bookings."
+        }
+        confirmLabel={confirming === "revoke" ? "Turn off" : "Issue link"}
+        tone={confirming === "revoke" || feed ? "danger" : "default"}
+        busy={busy}
+        onConfirm={() => void handleConfirm()}
+        onCancel={() => setConfirming(null)}
+      />
+    </div>
+  );
+}
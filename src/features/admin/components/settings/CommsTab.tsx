@@ -2,7 +2,8 @@
 // src/features/admin/components/settings/CommsTab.tsx
 /**
  * @description Editor for the comms & automation group: which emails send
- * (confirmation, reminder, review request) and their timings. Saves through
+ * (confirmation, reminder, review request), which opt-in texts send, and
+ * their timings. Saves through
  * the shared settings form hook.
  */
 
@@ -89,6 +90,33 @@ export function CommsTab({ initial, defaults }: Props): React.ReactElement {
         />
       </div>
 
+      <h3 className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase">
+        Which texts send
+      </h3>
+      <div className="mt-2 divide-y divide-admin-border">
+        <ToggleField
+          id="smsConfirmationEnabled"
+          meta={m.smsConfirmationEnabled}
+          value={draft.smsConfirmationEnabled}
+          customised={draft.smsConfirmationEnabled !== defaults.smsConfirmationEnabled}
+          onChange={(v) => set({ smsConfirmationEnabled: v })}
+        />
+        <ToggleField
+          id="smsReminderEnabled"
+          meta={m.smsReminderEnabled}
+          value={draft.smsReminderEnabled}
+          customised={draft.smsReminderEnabled !== defaults.smsReminderEnabled}
+          onChange={(v) => set({ smsReminderEnabled: v })}
+        />
+        <ToggleField
+          id="smsReviewRequestEnabled"
+          meta={m.smsReviewRequestEnabled}
+          value={draft.smsReviewRequestEnabled}
+          customised={draft.smsReviewRequestEnabled !== defaults.smsReviewRequestEnabled}
+          onChange={(v) => set({ smsReviewRequestEnabled: v })}
+        />
+      </div>
+
       <h3 className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase">
         Timings
       </h3>
@@ -164,6 +192,29 @@ export function CommsTab({ initial, defaults }: Props): React.ReactElement {
         />
       </div>
 
+      <h3 className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase">
+        Statements of account
+      </h3>
+      <div className="mt-2 divide-y divide-admin-border">
+        <ToggleField
+          id="statementsEnabled"
+          meta={m.statementsEnabled}
+          value={draft.statementsEnabled}
+          customised={draft.statementsEnabled !== defaults.statementsEnabled}
+          onChange={(v) => set({ statementsEnabled: v })}
+        />
+        <NumberField
+          id="statementDayOfMonth"
+          meta={m.statementDayOfMonth}
+          value={draft.statementDayOfMonth}
+          min={1}
+          max={28}
+          error={fieldErrors.statementDayOfMonth}
+          customised={draft.statementDayOfMonth !== defaults.statementDayOfMonth}
+          onChange={(v) => set({ statementDayOfMonth: v ?? 1 })}
+        />
+      </div>
+
       <SettingsFooter form={form} />
 
       <SettingsHistory group="comms" onRestore={(v: CommsSettings) => setDraft(v)} />
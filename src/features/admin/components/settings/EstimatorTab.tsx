@@ -2,21 +2,37 @@
 // src/features/admin/components/settings/EstimatorTab.tsx
 /**
  * @description Editor for the price-estimator group - the task-duration benchmark
- * list the public estimator uses. Tracks dirty state via {@link useSettingsForm} and
+ * list the public estimator uses, and the model backend it and the admin job
+ * parser call. Tracks dirty state via {@link useSettingsForm} and
  * saves to the admin settings route, surfacing inline row errors, guardrail
  * blocks, and warnings (with a "save anyway" confirm).
  */
 
 import { BenchmarkListField } from "@/features/admin/components/settings/BenchmarkListField";
 import { EstimatorPreview } from "@/features/admin/components/settings/EstimatorPreview";
-import { NumberField, SettingsTabBody } from "@/features/admin/components/settings/SettingsFields";
+import {
+  NumberField,
+  SelectField,
+  SettingsTabBody,
+  TextField,
+} from "@/features/admin/components/settings/SettingsFields";
 import { SettingsFooter } from "@/features/admin/components/settings/SettingsFooter";
 import { SettingsHistory } from "@/features/admin/components/settings/SettingsHistory";
 import { useSettingsForm } from "@/features/admin/components/settings/useSettingsForm";
 import { ESTIMATOR_FIELD_META } from "@/shared/lib/settings/field-meta";
-import type { EstimatorSettings } from "@/shared/lib/settings/types";
+import type {
+  AiModelSettings,
+  EstimatorSettings,
+  LlmProviderChoice,
+} from "@/shared/lib/settings/types";
 import type React from "react";
 
+const PROVIDER_OPTIONS: { value: LlmProviderChoice; label: string }[] = [
+  { value: "openai", label: "OpenAI" },
+  { value: "local", label: "Local server (OpenAI-compatible)" },
+  { value: "replay", label: "Replay recorded responses (dev only)" },
+];
+
 interface Props {
   initial: EstimatorSettings;
   defaults: EstimatorSettings;
@@ -51,6 +67,14 @@ export function EstimatorTab({ initial, defaults }: Props): React.ReactElement {
       range: { ...p.range, [level]: { ...p.range[level], [key]: value } },
     }));
 
+  /**
+   * Merges a patch into the AI model config.
+   * @param patch - Partial AI model fields.
+   * @returns void
+   */
+  const setAi = (patch: Partial<AiModelSettings>): void =>
+    setDraft((p) => ({ ...p, ai: { ...p.ai, ...patch } }));
+
   return (
     <SettingsTabBody changed={form.changedPaths}>
       {/* id matches the `benchmarks` field-meta key so search can scroll here;
@@ -195,6 +219,54 @@ export function EstimatorTab({ initial, defaults }: Props): React.ReactElement {
         </div>
       </div>
 
+      {/* Model backend shared by the public estimator and the admin job parser. */}
+      <div className="mt-8">
+        <h3 className="text-lg font-semibold text-russian-violet">AI model</h3>
+        <p className="mt-1 text-sm text-admin-muted">
+          Which model answers the estimator and the calculator&apos;s job parser. API keys stay in
+          the server environment.
+        </p>
+        <div className="divide-y divide-admin-border">
+          <SelectField
+            id="ai.provider"
+            meta={m["ai.provider"]}
+            value={draft.ai.provider}
+            options={PROVIDER_OPTIONS}
+            error={fieldErrors["ai.provider"]}
+            customised={draft.ai.provider !== defaults.ai.provider}
+            onChange={(v) => setAi({ provider: v })}
+          />
+          <TextField
+            id="ai.parseJobModel"
+            meta={m["ai.parseJobModel"]}
+            value={draft.ai.parseJobModel}
+            error={fieldErrors["ai.parseJobModel"]}
+            customised={draft.ai.parseJobModel !== defaults.ai.parseJobModel}
+            onChange={(v) => setAi({ parseJobModel: v })}
+          />
+          <TextField
+            id="ai.estimateModel"
+            meta={m["ai.estimateModel"]}
+            value={draft.ai.estimateModel}
+            error={fieldErrors["ai.estimateModel"]}
+            customised={draft.ai.estimateModel !== defaults.ai.estimateModel}
+            onChange={(v) => setAi({ estimateModel: v })}
+          />
+          {draft.ai.provider === "local" && (
+            <TextField
+              id="ai.localBaseUrl"
+              meta={m["ai.localBaseUrl"]}
+              value={draft.ai.localBaseUrl}
+              type="url"
+              placeholder="http://localhost:11434/v1"
+              error={fieldErrors["ai.localBaseUrl"]}
+              customised={draft.ai.localBaseUrl !== defaults.ai.localBaseUrl}
+              onChange={(v) => setAi({ localBaseUrl: v })}
+            />
+          )}
+        </div>
+      </div>
+
       <EstimatorPreview estimator={draft} />
 
       <SettingsFooter form={form} />
@@ -0,0 +1,215 @@
+"use client";
+// src/features/admin/components/settings/ExternalCalendarsField.tsx
+/**
+ * @description Repeatable-row editor for the read-only ICS / CalDAV calendars
+ * that block availability alongside Google. Each row is an on/off switch, a
+ * label, the source kind and URL, the CalDAV login (username + the env var
+ * holding the password), and whether all-day events block. Row-level errors are
+ * keyed `externalCalendars.<index>.<field>` to match the validator.
+ */
+
+import { cn } from "@/shared/lib/cn";
+import { AVAILABILITY_FIELD_META } from "@/shared/lib/settings/field-meta";
+import type { ExternalCalendar } from "@/shared/lib/settings/types";
+import type React from "react";
+
+interface Props {
+  calendars: ExternalCalendar[];
+  /** Field path > message, e.g. "externalCalendars.1.url". */
+  fieldErrors: Record<string, string>;
+  onChange: (next: ExternalCalendar[]) => void;
+}
+
+/** Row fields whose errors show under the row, in display order. */
+const ROW_FIELDS = ["id", "label", "kind", "url", "username", "passwordEnv", "enabled"] as const;
+
+/**
+ * Editable list of external calendar rows.
+ * @param props - Component props.
+ * @param props.calendars - Current calendar rows.
+ * @param props.fieldErrors - Inline validation errors keyed by field path.
+ * @param props.onChange - Called with the next calendar list on any edit.
+ * @returns External calendars editor element.
+ */
+export function ExternalCalendarsField({
+  calendars,
+  fieldErrors,
+  onChange,
+}: Props): React.ReactElement {
+  const meta = AVAILABILITY_FIELD_META.externalCalendars;
+
+  /**
+   * Patches one calendar row by index.
+   * @param i - Row index to update.
+   * @param patch - Partial fields to merge into that row.
+   */
+  const update = (i: number, patch: Partial<ExternalCalendar>): void => {
+    onChange(calendars.map((c, idx) => (idx === i ? { ...c, ...patch } : c)));
+  };
+  /**
+   * Removes the calendar row at the given index.
+   * @param i - Row index to remove.
+   */
+  const remove = (i: number): void => {
+    onChange(calendars.filter((_, idx) => idx !== i));
+  };
+  /** Appends a fresh ICS row with an unused id. */
+  const add = (): void => {
+    let n = calendars.length + 1;
+    while (calendars.some((c) => c.id === `calendar-${n}`)) n++;
+    onChange([
+      ...calendars,
+      {
+        id: `calendar-${n}`,
+        enabled: true,
+        label: "",
+        kind: "ics",
+        url: "",
+        username: "",
+        passwordEnv: "",
+        blockAllDay: false,
+      },
+    ]);
+  };
+
+  /**
+   * Input class string, reddened when the field has a validation error.
+   * @param err - The field's error message, if any.
+   * @returns The composed className.
+   */
+  const inputClass = (err?: string): string =>
+    cn(
+      "rounded-lg border px-3 py-1.5 text-sm text-admin-text focus:ring-2 focus:ring-russian-violet/30 focus:outline-none",
+      err ? "border-coquelicot-600" : "border-admin-border",
+    );
+
+  return (
+    <div>
+      <p className="mt-1 text-sm text-admin-muted">{meta.description}</p>
+      {fieldErrors.externalCalendars && (
+        <p className="mt-1 text-xs font-medium text-red-600">{fieldErrors.externalCalendars}</p>
+      )}
+
+      <div className="mt-3 space-y-2">
+        {calendars.map((c, i) => {
+          /**
+           * This row's error for one field.
+           * @param field - Row field name.
+           * @returns The message, if any.
+           */
+          const err = (field: string): string | undefined =>
+            fieldErrors[`externalCalendars.${i}.${field}`];
+          const rowError = ROW_FIELDS.map(err).find(Boolean);
+          return (
+            <div key={i} className="rounded-lg border border-admin-border p-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={c.enabled}
+                  aria-label={`Read ${c.label || "calendar"}`}
+                  onClick={() => update(i, { enabled: !c.enabled })}
+                  className={cn(
+                    "relative inline-flex h-6 w-11 items-center rounded-full transition-colors",
+                    c.enabled ? "bg-russian-violet" : "bg-admin-border-strong",
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "inline-block h-4 w-4 rounded-full bg-admin-surface shadow transition-[translate]",
+                      c.enabled ? "translate-x-6" : "translate-x-1",
+                    )}
+                  />
+                </button>
+                <input
+                  type="text"
+                  value={c.label}
+                  placeholder="e.g. Sam - iCloud"
+                  aria-label="Calendar name"
+                  onChange={(e) => update(i, { label: e.target.value })}
+                  className={cn(inputClass(err("label")), "flex-1")}
+                />
+                <input
+                  type="text"
+                  value={c.id}
+                  aria-label="Calendar id"
+                  title="Stable id used to tag cached events"
+                  onChange={(e) => update(i, { id: e.target.value.toLowerCase() })}
+                  className={cn(inputClass(err("id")), "w-36 font-mono")}
+                />
+                <button
+                  type="button"
+                  onClick={() => remove(i)}
+                  className="text-sm font-medium text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-admin-text-secondary">
+                <select
+                  value={c.kind}
+                  aria-label="Calendar type"
+                  onChange={(e) => update(i, { kind: e.target.value as ExternalCalendar["kind"] })}
+                  className="rounded-lg border border-admin-border px-2 py-2 text-sm text-admin-text focus:ring-2 focus:ring-russian-violet/30 focus:outline-none"
+                >
+                  <option value="ics">ICS feed</option>
+                  <option value="caldav">CalDAV</option>
+                </select>
+                <input
+                  type="url"
+                  value={c.url}
+                  placeholder={
+                    c.kind === "ics"
+                      ? "webcal://p01-caldav.icloud.com/published/2/..."
+                      : "https://caldav.fastmail.com/dav/calendars/user/.../Default/"
+                  }
+                  aria-label="Calendar URL"
+                  onChange={(e) => update(i, { url: e.target.value.trim() })}
+                  className={cn(inputClass(err("url")), "min-w-0 flex-1")}
+                />
+              </div>
+              {c.kind === "caldav" && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-admin-text-secondary">
+                  <input
+                    type="text"
+                    value={c.username}
+                    placeholder="Username"
+                    aria-label="CalDAV username"
+                    autoComplete="off"
+                    onChange={(e) => update(i, { username: e.target.value })}
+                    className={cn(inputClass(err("username")), "flex-1")}
+                  />
+                  <span>password from env</span>
+                  <input
+                    type="text"
+                    value={c.passwordEnv}
+                    placeholder="CALDAV_SAM_PASSWORD"
+                    aria-label="Env var holding the CalDAV password"
+                    onChange={(e) => update(i, { passwordEnv: e.target.value.toUpperCase() })}
+                    className={cn(inputClass(err("passwordEnv")), "w-56 font-mono")}
+                  />
+                </div>
+              )}
+              <label className="mt-3 flex items-center gap-2 text-sm text-admin-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={c.blockAllDay}
+                  onChange={(e) => update(i, { blockAllDay: e.target.checked })}
+                />
+                All-day events block the whole day
+              </label>
+              {rowError && <p className="mt-2 text-xs font-medium text-red-600">{rowError}</p>}
+            </div>
+          );
+        })}
+        <button
+          type="button"
+          onClick={add}
+          className="rounded-lg border border-admin-border px-3 py-1.5 text-sm font-medium text-admin-text hover:border-russian-violet"
+        >
+          + Add calendar
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -300,6 +300,30 @@ export function PricingTab({ initial, defaults }: Props): React.ReactElement {
         />
       </div>
 
+      <h3 className="mt-6 text-xs font-bold tracking-wide text-russian-violet uppercase">
+        Retainer billing
+      </h3>
+      <div className="divide-y divide-admin-border">
+        <ToggleField
+          id="retainer.autoSendInvoice"
+          meta={m["retainer.autoSendInvoice"]}
+          value={draft.retainer.autoSendInvoice}
+          customised={draft.retainer.autoSendInvoice !== defaults.retainer.autoSendInvoice}
+          onChange={(v) =>
+            setDraft((p) => ({ ...p, retainer: { ...p.retainer, autoSendInvoice: v } }))
+          }
+        />
+        <ToggleField
+          id="retainer.carryUnusedHours"
+          meta={m["retainer.carryUnusedHours"]}
+          value={draft.retainer.carryUnusedHours}
+          customised={draft.retainer.carryUnusedHours !== defaults.retainer.carryUnusedHours}
+          onChange={(v) =>
+            setDraft((p) => ({ ...p, retainer: { ...p.retainer, carryUnusedHours: v } }))
+          }
+        />
+      </div>
+
       <PricingPreview config={draft} />
 
       <SettingsFooter form={form} />
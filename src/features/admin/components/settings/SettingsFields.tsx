@@ -330,3 +330,55 @@ export function ToggleField({
     </FieldShell>
   );
 }
+
+interface SelectFieldProps<T extends string> {
+  id: string;
+  meta: FieldMeta;
+  value: T;
+  options: ReadonlyArray<{ value: T; label: string }>;
+  onChange: (value: T) => void;
+  error?: string;
+  customised?: boolean;
+}
+
+/**
+ * Settings select for a fixed set of string values.
+ * @param props - Component props.
+ * @param props.id - Select id.
+ * @param props.meta - Field metadata.
+ * @param props.value - Current value.
+ * @param props.options - Allowed values with their labels.
+ * @param props.onChange - Called with the chosen value.
+ * @param props.error - Inline validation error.
+ * @param props.customised - Whether the value differs from default.
+ * @returns Select field element.
+ */
+export function SelectField<T extends string>({
+  id,
+  meta,
+  value,
+  options,
+  onChange,
+  error,
+  customised,
+}: SelectFieldProps<T>): React.ReactElement {
+  return (
+    <FieldShell id={id} meta={meta} error={error} customised={customised}>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value as T)}
+        className={cn(
+          "w-full rounded-lg border bg-admin-surface px-3 py-2.5 text-base focus:ring-2 focus:ring-russian-violet/30 focus:outline-none sm:w-auto",
+          error ? "border-coquelicot-600" : "border-admin-border-strong",
+        )}
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </FieldShell>
+  );
+}
@@ -7,12 +7,14 @@
  */
 
 import { SettingsSearch } from "@/features/admin/components/settings/SettingsSearch";
+import type { PreviewRecordOption } from "@/features/admin/components/settings/TemplatePreview";
 import { SettingsAllContext } from "@/features/admin/components/settings/useSettingsForm";
 import { cn } from "@/shared/lib/cn";
 import { GROUP_META } from "@/shared/lib/settings/field-meta";
 import type {
   AvailabilitySettings,
   CommsSettings,
+  EmailTemplatesSettings,
   EstimatorSettings,
   IdentitySettings,
   PricingSettings,
@@ -69,6 +71,10 @@ const TaxTab = dynamic(
   () => import("@/features/admin/components/settings/TaxTab").then((m) => m.TaxTab),
   { loading: TabLoading },
 );
+const TemplatesTab = dynamic(
+  () => import("@/features/admin/components/settings/TemplatesTab").then((m) => m.TemplatesTab),
+  { loading: TabLoading },
+);
 
 /** Tab order shown in the settings bar. */
 const TAB_ORDER: SettingsGroup[] = [
@@ -80,6 +86,7 @@ const TAB_ORDER: SettingsGroup[] = [
   "comms",
   "scheduling",
   "reviews",
+  "templates",
 ];
 
 /** Groups with a working editor; the rest render the placeholder. */
@@ -92,6 +99,7 @@ const IMPLEMENTED: ReadonlySet<SettingsGroup> = new Set<SettingsGroup>([
   "comms",
   "reviews",
   "scheduling",
+  "templates",
 ]);
 
 interface Props {
@@ -111,6 +119,12 @@ interface Props {
   taxDefaults: TaxSettings;
   scheduling: SchedulingSettings;
   schedulingDefaults: SchedulingSettings;
+  templates: EmailTemplatesSettings;
+  templatesDefaults: EmailTemplatesSettings;
+  /** Recent bookings the templates preview can render against. */
+  previewBookings: PreviewRecordOption[];
+  /** Recent invoices the templates preview can render against. */
+  previewInvoices: PreviewRecordOption[];
 }
 
 /**
@@ -132,6 +146,10 @@ interface Props {
  * @param props.taxDefaults - Code default tax settings.
  * @param props.scheduling - Resolved current scheduling settings.
  * @param props.schedulingDefaults - Code default scheduling settings.
+ * @param props.templates - Resolved current email templates.
+ * @param props.templatesDefaults - Code default email templates.
+ * @param props.previewBookings - Recent bookings for the template preview.
+ * @param props.previewInvoices - Recent invoices for the template preview.
  * @returns Settings view element.
  */
 export function SettingsView({
@@ -151,6 +169,10 @@ export function SettingsView({
   taxDefaults,
   scheduling,
   schedulingDefaults,
+  templates,
+  templatesDefaults,
+  previewBookings,
+  previewInvoices,
 }: Props): React.ReactElement {
   const [active, setActive] = useState<SettingsGroup>("availability");
   const [focusTarget, setFocusTarget] = useState<{ id: string; nonce: number } | null>(null);
@@ -196,6 +218,7 @@ export function SettingsView({
     identity,
     tax,
     scheduling,
+    templates,
   };
 
   return (
@@ -247,6 +270,13 @@ export function SettingsView({
               <TaxTab initial={tax} defaults={taxDefaults} />
             ) : active === "scheduling" ? (
               <SchedulingTab initial={scheduling} defaults={schedulingDefaults} />
+            ) : active === "templates" ? (
+              <TemplatesTab
+                initial={templates}
+                defaults={templatesDefaults}
+                bookingOptions={previewBookings}
+                invoiceOptions={previewInvoices}
+              />
             ) : (
               <p className="py-8 text-center text-sm text-admin-faint">
                 This section is still managed in code - its editor is coming in a later step.
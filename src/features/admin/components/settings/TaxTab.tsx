@@ -2,19 +2,35 @@
 // src/features/admin/components/settings/TaxTab.tsx
 /**
  * @description Editor for the tax-planner group: the income-tax / ACC /
- * KiwiSaver reserve rates (stored as fractions). These feed the dashboard tax
- * planner and the per-FY tax reserve; a per-FY workbook rate, when present,
- * still takes precedence over these.
+ * KiwiSaver reserve rates (stored as fractions), which feed the dashboard tax
+ * planner and the per-FY tax reserve (a per-FY workbook rate, when present,
+ * still takes precedence), plus the GST filing frequency and basis the GST
+ * return worksheet works to.
  */
 
-import { NumberField, SettingsTabBody } from "@/features/admin/components/settings/SettingsFields";
+import {
+  NumberField,
+  SelectField,
+  SettingsTabBody,
+} from "@/features/admin/components/settings/SettingsFields";
 import { SettingsFooter } from "@/features/admin/components/settings/SettingsFooter";
 import { SettingsHistory } from "@/features/admin/components/settings/SettingsHistory";
 import { useSettingsForm } from "@/features/admin/components/settings/useSettingsForm";
 import { TAX_FIELD_META } from "@/shared/lib/settings/field-meta";
-import type { TaxSettings } from "@/shared/lib/settings/types";
+import type { GstBasis, GstFilingFrequency, TaxSettings } from "@/shared/lib/settings/types";
 import type React from "react";
 
+const FREQUENCY_OPTIONS: { value: GstFilingFrequency; label: string }[] = [
+  { value: "monthly", label: "Monthly" },
+  { value: "two-monthly", label: "Two-monthly" },
+  { value: "six-monthly", label: "Six-monthly" },
+];
+
+const BASIS_OPTIONS: { value: GstBasis; label: string }[] = [
+  { value: "payments", label: "Payments basis" },
+  { value: "invoice", label: "Invoice basis" },
+];
+
 interface Props {
   initial: TaxSettings;
   defaults: TaxSettings;
@@ -77,6 +93,24 @@ export function TaxTab({ initial, defaults }: Props): React.ReactElement {
           customised={draft.kiwiSaver !== defaults.kiwiSaver}
           onChange={(v) => set({ kiwiSaver: (v ?? 0) / 100 })}
         />
+        <SelectField
+          id="gstFilingFrequency"
+          meta={m.gstFilingFrequency}
+          value={draft.gstFilingFrequency}
+          options={FREQUENCY_OPTIONS}
+          error={fieldErrors.gstFilingFrequency}
+          customised={draft.gstFilingFrequency !== defaults.gstFilingFrequency}
+          onChange={(v) => set({ gstFilingFrequency: v })}
+        />
+        <SelectField
+          id="gstBasis"
+          meta={m.gstBasis}
+          value={draft.gstBasis}
+          options={BASIS_OPTIONS}
+          error={fieldErrors.gstBasis}
+          customised={draft.gstBasis !== defaults.gstBasis}
+          onChange={(v) => set({ gstBasis: v })}
+        />
       </div>
 
       <SettingsFooter form={form} />
@@ -0,0 +1,286 @@
+"use client";
+// src/features/admin/components/settings/TechniciansField.tsx
+/**
+ * @description Repeatable-row editor for technicians. Each row is an on/off
+ * switch, a name, id and colour, the calendars that are theirs (ticked from the
+ * external calendars, plus any Google calendar ids typed in), their base
+ * address, skill tags, and optionally their own weekly hours in place of the
+ * shared ones. Row-level errors are keyed `technicians.<index>.<field>` to match
+ * the validator.
+ */
+
+import { WeeklyHoursField } from "@/features/admin/components/settings/WeeklyHoursField";
+import { cn } from "@/shared/lib/cn";
+import { AVAILABILITY_FIELD_META } from "@/shared/lib/settings/field-meta";
+import type { ExternalCalendar, Technician, WeeklySchedule } from "@/shared/lib/settings/types";
+import type React from "react";
+
+interface Props {
+  technicians: Technician[];
+  /** External calendars that can be ticked as a technician's own. */
+  externalCalendars: ExternalCalendar[];
+  /** Shared weekly hours, the starting point for a technician's own. */
+  sharedSchedule: WeeklySchedule;
+  /** Field path > message, e.g. "technicians.1.color". */
+  fieldErrors: Record<string, string>;
+  onChange: (next: Technician[]) => void;
+}
+
+/** Colours handed to new rows in turn. */
+const PALETTE = ["#2563eb", "#16a34a", "#db2777", "#ea580c", "#7c3aed", "#0891b2"];
+
+/**
+ * The tag an external calendar's events carry - `externalCalendarKey` in
+ * calendar-sources, which is server-only.
+ * @param calendar - Settings entry.
+ * @returns `<kind>:<id>`.
+ */
+function calendarKey(calendar: ExternalCalendar): string {
+  return `${calendar.kind}:${calendar.id}`;
+}
+
+/**
+ * Splits a comma-separated input into trimmed, non-empty entries.
+ * @param value - Raw input.
+ * @returns The entries.
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Editable list of technician rows.
+ * @param props - Component props.
+ * @param props.technicians - Current technician rows.
+ * @param props.externalCalendars - External calendars offered as checkboxes.
+ * @param props.sharedSchedule - Shared weekly hours, copied when a row gets its own.
+ * @param props.fieldErrors - Inline validation errors keyed by field path.
+ * @param props.onChange - Called with the next technician list on any edit.
+ * @returns Technicians editor element.
+ */
+export function TechniciansField({
+  technicians,
+  externalCalendars,
+  sharedSchedule,
+  fieldErrors,
+  onChange,
+}: Props): React.ReactElement {
+  const meta = AVAILABILITY_FIELD_META.technicians;
+  const externalKeys = new Set(externalCalendars.map(calendarKey));
+
+  /**
+   * Patches one technician row by index.
+   * @param i - Row index to update.
+   * @param patch - Partial fields to merge into that row.
+   */
+  const update = (i: number, patch: Partial<Technician>): void => {
+    onChange(technicians.map((t, idx) => (idx === i ? { ...t, ...patch } : t)));
+  };
+  /**
+   * Removes the technician row at the given index.
+   * @param i - Row index to remove.
+   */
+  const remove = (i: number): void => {
+    onChange(technicians.filter((_, idx) => idx !== i));
+  };
+  /** Appends a fresh row with an unused id and the next palette colour. */
+  const add = (): void => {
+    let n = technicians.length + 1;
+    while (technicians.some((t) => t.id === `tech-${n}`)) n++;
+    onChange([
+      ...technicians,
+      {
+        id: `tech-${n}`,
+        enabled: true,
+        name: "",
+        color: PALETTE[technicians.length % PALETTE.length],
+        calendarIds: [],
+        schedule: null,
+        baseAddress: "",
+        skills: [],
+      },
+    ]);
+  };
+
+  /**
+   * Input class string, reddened when the field has a validation error.
+   * @param err - The field's error message, if any.
+   * @returns The composed className.
+   */
+  const inputClass = (err?: string): string =>
+    cn(
+      "rounded-lg border px-3 py-1.5 text-sm text-admin-text focus:ring-2 focus:ring-russian-violet/30 focus:outline-none",
+      err ? "border-coquelicot-600" : "border-admin-border",
+    );
+
+  return (
+    <div>
+      <p className="mt-1 text-sm text-admin-muted">{meta.description}</p>
+      {fieldErrors.technicians && (
+        <p className="mt-1 text-xs font-medium text-red-600">{fieldErrors.technicians}</p>
+      )}
+
+      <div className="mt-3 space-y-2">
+        {technicians.map((t, i) => {
+          /**
+           * This row's error for one field.
+           * @param field - Row field name.
+           * @returns The message, if any.
+           */
+          const err = (field: string): string | undefined =>
+            fieldErrors[`technicians.${i}.${field}`];
+          // Schedule errors are keyed per day, so match the whole row prefix.
+          const rowError = Object.entries(fieldErrors).find(([key]) =>
+            key.startsWith(`technicians.${i}.`),
+          )?.[1];
+          const otherCalendarIds = t.calendarIds.filter((id) => !externalKeys.has(id));
+          return (
+            <div key={i} className="rounded-lg border border-admin-border p-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={t.enabled}
+                  aria-label={`Take bookings for ${t.name || "technician"}`}
+                  onClick={() => update(i, { enabled: !t.enabled })}
+                  className={cn(
+                    "relative inline-flex h-6 w-11 items-center rounded-full transition-colors",
+                    t.enabled ? "bg-russian-violet" : "bg-admin-border-strong",
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "inline-block h-4 w-4 rounded-full bg-admin-surface shadow transition-[translate]",
+                      t.enabled ? "translate-x-6" : "translate-x-1",
+                    )}
+                  />
+                </button>
+                <input
+                  type="color"
+                  value={t.color}
+                  aria-label="Colour"
+                  onChange={(e) => update(i, { color: e.target.value })}
+                  className="h-8 w-10 cursor-pointer rounded border border-admin-border bg-admin-surface"
+                />
+                <input
+                  type="text"
+                  value={t.name}
+                  placeholder="e.g. Sam"
+                  aria-label="Technician name"
+                  onChange={(e) => update(i, { name: e.target.value })}
+                  className={cn(inputClass(err("name")), "flex-1")}
+                />
+                <input
+                  type="text"
+                  value={t.id}
+                  aria-label="Technician id"
+                  title="Stable id stored on bookings, invoices and income"
+                  onChange={(e) => update(i, { id: e.target.value.toLowerCase() })}
+                  className={cn(inputClass(err("id")), "w-32 font-mono")}
+                />
+                <button
+                  type="button"
+                  onClick={() => remove(i)}
+                  className="text-sm font-medium text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-admin-text-secondary">
+                <input
+                  type="text"
+                  value={t.baseAddress}
+                  placeholder="Base address (blank = business base)"
+                  aria-label="Base address"
+                  onChange={(e) => update(i, { baseAddress: e.target.value })}
+                  className={cn(inputClass(err("baseAddress")), "min-w-0 flex-1")}
+                />
+                {/* Comma lists commit on blur; keyed on the committed value so a
+                    restore from history refreshes them. */}
+                <input
+                  key={t.skills.join(",")}
+                  type="text"
+                  defaultValue={t.skills.join(", ")}
+                  placeholder="Skills, e.g. mac, networking, printers"
+                  aria-label="Skills"
+                  onBlur={(e) => update(i, { skills: splitList(e.target.value) })}
+                  className={cn(inputClass(err("skills")), "min-w-0 flex-1")}
+                />
+              </div>
+
+              <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-admin-text-secondary">
+                <span className="font-medium text-admin-text">Calendars</span>
+                {externalCalendars.map((c) => {
+                  const key = calendarKey(c);
+                  return (
+                    <label key={key} className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={t.calendarIds.includes(key)}
+                        onChange={(e) =>
+                          update(i, {
+                            calendarIds: e.target.checked
+                              ? [...t.calendarIds, key]
+                              : t.calendarIds.filter((id) => id !== key),
+                          })
+                        }
+                      />
+                      {c.label || c.id}
+                    </label>
+                  );
+                })}
+                <input
+                  key={otherCalendarIds.join(",")}
+                  type="text"
+                  defaultValue={otherCalendarIds.join(", ")}
+                  placeholder="Google calendar ids, comma-separated"
+                  aria-label="Google calendar ids"
+                  onBlur={(e) =>
+                    update(i, {
+                      calendarIds: [
+                        ...t.calendarIds.filter((id) => externalKeys.has(id)),
+                        ...splitList(e.target.value),
+                      ],
+                    })
+                  }
+                  className={cn(inputClass(err("calendarIds")), "min-w-0 flex-1 font-mono")}
+                />
+              </div>
+
+              <label className="mt-3 flex items-center gap-2 text-sm text-admin-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={t.schedule !== null}
+                  onChange={(e) =>
+                    update(i, {
+                      schedule: e.target.checked ? structuredClone(sharedSchedule) : null,
+                    })
+                  }
+                />
+                Own hours (otherwise the weekly hours above)
+              </label>
+              {t.schedule && (
+                <WeeklyHoursField
+                  schedule={t.schedule}
+                  onChange={(schedule) => update(i, { schedule })}
+                />
+              )}
+              {rowError && <p className="mt-2 text-xs font-medium text-red-600">{rowError}</p>}
+            </div>
+          );
+        })}
+        <button
+          type="button"
+          onClick={add}
+          className="rounded-lg border border-admin-border px-3 py-1.5 text-sm font-medium text-admin-text hover:border-russian-violet"
+        >
+          + Add technician
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+// src/features/admin/components/settings/TemplatePreview.tsx
+/**
+ * @description Live preview for one email template: the unsaved draft rendered
+ * server-side against a real booking or invoice, shown in a sandboxed iframe.
+ * Re-renders shortly after typing stops, so the operator sees the customer's
+ * email as they edit without a request per keystroke.
+ */
+
+import { apiFetch } from "@/shared/lib/api-client";
+import type { EmailTemplateKey } from "@/shared/lib/settings/email-templates";
+import type { EmailTemplate } from "@/shared/lib/settings/types";
+import type React from "react";
+import { useEffect, useState } from "react";
+
+/** A booking or invoice the preview can render against. */
+export interface PreviewRecordOption {
+  id: string;
+  label: string;
+}
+
+/** Pause after the last keystroke before the preview re-renders. */
+const PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * Rendered preview of one template draft.
+ * @param props - Component props.
+ * @param props.templateKey - Which template is being previewed.
+ * @param props.template - The draft subject + body.
+ * @param props.records - Recent records to render against, newest first.
+ * @param props.recordNoun - "booking" or "invoice", for the picker label.
+ * @returns Preview panel element.
+ */
+export function TemplatePreview({
+  templateKey,
+  template,
+  records,
+  recordNoun,
+}: {
+  templateKey: EmailTemplateKey;
+  template: EmailTemplate;
+  records: PreviewRecordOption[];
+  recordNoun: string;
+}): React.ReactElement {
+  const [recordId, setRecordId] = useState(records[0]?.id ?? "");
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { subject, body } = template;
+  useEffect(() => {
+    let cancelled = false;
+    const t = setTimeout(() => {
+      void (async () => {
+        const res = await apiFetch<{ subject: string; html: string }>(
+          "/api/admin/preview-template-email",
+          { method: "POST", json: { key: templateKey, template: { subject, body }, recordId } },
+        );
+        if (cancelled) return;
+        if (res.ok) {
+          setPreview(res.data);
+          setError(null);
+        } else {
+          setError(res.error);
+        }
+      })();
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [templateKey, subject, body, recordId]);
+
+  return (
+    <div className="mt-3 rounded-lg border border-admin-border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs font-bold tracking-wide text-russian-violet uppercase">Preview</p>
+        {records.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-admin-muted">
+            Render against {recordNoun}
+            <select
+              value={recordId}
+              onChange={(e) => setRecordId(e.target.value)}
+              className="rounded-lg border border-admin-border-strong px-2 py-1.5 text-sm text-admin-text focus:ring-2 focus:ring-russian-violet/30 focus:outline-none"
+            >
+              {records.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      {error && <p className="mt-2 text-sm font-medium text-coquelicot-500">{error}</p>}
+      {preview ? (
+        <>
+          <p className="mt-3 text-sm text-admin-text">
+            <span className="text-admin-muted">Subject:</span> {preview.subject}
+          </p>
+          {/* Empty sandbox: the rendered email can't run scripts or reach the admin. */}
+          <iframe
+            title="Email template preview"
+            srcDoc={preview.html}
+            sandbox=""
+            className="mt-2 h-[60vh] w-full rounded-lg border border-admin-border bg-white"
+          />
+        </>
+      ) : (
+        !error && <p className="py-8 text-center text-sm text-admin-faint">Rendering…</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+// src/features/admin/components/settings/TemplatesTab.tsx
+/**
+ * @description Editor for the email templates group: the subject and wording of
+ * every customer email, each with its available placeholders and an on-demand
+ * live preview against a real booking or invoice. Saves through the shared
+ * settings form hook, so edits are validated and versioned like any other group.
+ */
+
+import {
+  FieldShell,
+  SettingsTabBody,
+  TextField,
+} from "@/features/admin/components/settings/SettingsFields";
+import { SettingsFooter } from "@/features/admin/components/settings/SettingsFooter";
+import { SettingsHistory } from "@/features/admin/components/settings/SettingsHistory";
+import {
+  type PreviewRecordOption,
+  TemplatePreview,
+} from "@/features/admin/components/settings/TemplatePreview";
+import { useSettingsForm } from "@/features/admin/components/settings/useSettingsForm";
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { cn } from "@/shared/lib/cn";
+import {
+  EMAIL_TEMPLATE_KEYS,
+  EMAIL_TEMPLATE_SOURCE,
+  EMAIL_TEMPLATE_VARIABLES,
+  type EmailTemplateKey,
+  IDENTITY_PLACEHOLDERS,
+} from "@/shared/lib/settings/email-templates";
+import { TEMPLATES_FIELD_META } from "@/shared/lib/settings/field-meta";
+import type { EmailTemplate, EmailTemplatesSettings } from "@/shared/lib/settings/types";
+import type React from "react";
+import { useState } from "react";
+
+interface Props {
+  initial: EmailTemplatesSettings;
+  defaults: EmailTemplatesSettings;
+  /** Recent bookings the booking templates can preview against. */
+  bookingOptions: PreviewRecordOption[];
+  /** Recent invoices the invoice templates can preview against. */
+  invoiceOptions: PreviewRecordOption[];
+}
+
+/**
+ * Email templates settings tab.
+ * @param props - Component props.
+ * @param props.initial - Server-resolved current templates.
+ * @param props.defaults - Code default templates.
+ * @param props.bookingOptions - Recent bookings for the preview picker.
+ * @param props.invoiceOptions - Recent invoices for the preview picker.
+ * @returns Templates tab element.
+ */
+export function TemplatesTab({
+  initial,
+  defaults,
+  bookingOptions,
+  invoiceOptions,
+}: Props): React.ReactElement {
+  const form = useSettingsForm("templates", initial, defaults);
+  const { draft, setDraft, fieldErrors } = form;
+  const m = TEMPLATES_FIELD_META;
+  // One preview at a time: each is a live server render, and the page is long enough.
+  const [previewing, setPreviewing] = useState<EmailTemplateKey | null>(null);
+
+  /**
+   * Merges a patch into one template of the draft.
+   * @param key - Template to edit.
+   * @param patch - Partial subject/body.
+   * @returns void
+   */
+  const set = (key: EmailTemplateKey, patch: Partial<EmailTemplate>): void =>
+    setDraft((p) => ({ ...p, [key]: { ...p[key], ...patch } }));
+
+  return (
+    <SettingsTabBody changed={form.changedPaths}>
+      <div className="divide-y divide-admin-border">
+        {EMAIL_TEMPLATE_KEYS.map((key) => {
+          const template = draft[key];
+          const source = EMAIL_TEMPLATE_SOURCE[key];
+          const placeholders = [
+            ...IDENTITY_PLACEHOLDERS.map((name) => ({ name, hint: "From business identity" })),
+            ...Object.entries(EMAIL_TEMPLATE_VARIABLES[key]).map(([name, hint]) => ({
+              name,
+              hint,
+            })),
+          ];
+          return (
+            <div key={key} className="py-2">
+              <TextField
+                id={`${key}.subject`}
+                meta={m[`${key}.subject`]}
+                value={template.subject}
+                error={fieldErrors[`${key}.subject`]}
+                customised={template.subject !== defaults[key].subject}
+                onChange={(v) => set(key, { subject: v })}
+              />
+              <FieldShell
+                id={`${key}.body`}
+                meta={m[`${key}.body`]}
+                error={fieldErrors[`${key}.body`]}
+                customised={template.body !== defaults[key].body}
+              >
+                <textarea
+                  id={`${key}.body`}
+                  value={template.body}
+                  rows={Math.min(10, Math.max(3, template.body.split("\n").length + 1))}
+                  onChange={(e) => set(key, { body: e.target.value })}
+                  className={cn(
+                    "w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none",
+                    fieldErrors[`${key}.body`]
+                      ? "border-coquelicot-600"
+                      : "border-admin-border-strong",
+                  )}
+                />
+              </FieldShell>
+              <div className="flex flex-wrap items-start justify-between gap-3 pb-4">
+                <p className="text-xs text-admin-faint">
+                  Placeholders:{" "}
+                  {placeholders.map((p, i) => (
+                    <span key={p.name}>
+                      {i > 0 && " "}
+                      <code title={p.hint} className="text-admin-muted">
+                        {`{${p.name}}`}
+                      </code>
+                    </span>
+                  ))}
+                </p>
+                <AdminButton
+                  variant="secondary"
+                  size="xs"
+                  onClick={() => setPreviewing(previewing === key ? null : key)}
+                >
+                  {previewing === key ? "Hide preview" : "Preview"}
+                </AdminButton>
+              </div>
+              {previewing === key && (
+                <div className="pb-4">
+                  <TemplatePreview
+                    templateKey={key}
+                    template={template}
+                    records={source === "booking" ? bookingOptions : invoiceOptions}
+                    recordNoun={source}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <SettingsFooter form={form} />
+
+      <SettingsHistory group="templates" onRestore={(v: EmailTemplatesSettings) => setDraft(v)} />
+    </SettingsTabBody>
+  );
+}
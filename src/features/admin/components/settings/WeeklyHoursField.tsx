@@ -0,0 +1,185 @@
+"use client";
+// src/features/admin/components/settings/WeeklyHoursField.tsx
+/**
+ * @description Per-weekday hours editor: an on/off switch per day, open and
+ * close hours, and an optional midday break. Used for the shared weekly hours
+ * and for a technician's own hours; the hour dropdown and weekday order are
+ * shared with the morning-guard rows.
+ */
+
+import { hourLabel } from "@/features/booking/lib/booking";
+import { cn } from "@/shared/lib/cn";
+import type { DayWindow, WeeklySchedule } from "@/shared/lib/settings/types";
+import type React from "react";
+
+/** Weekday order shown in the editor (Mon-Sun) with their `getUTCDay()` index. */
+export const DAY_ORDER: { index: number; name: string }[] = [
+  { index: 1, name: "Monday" },
+  { index: 2, name: "Tuesday" },
+  { index: 3, name: "Wednesday" },
+  { index: 4, name: "Thursday" },
+  { index: 5, name: "Friday" },
+  { index: 6, name: "Saturday" },
+  { index: 0, name: "Sunday" },
+];
+
+/**
+ * Labels an hour for the close dropdown, where 24 means midnight (end of day).
+ * @param h - Hour 1-24.
+ * @returns Display label.
+ */
+function closeLabel(h: number): string {
+  return h === 24 ? "12am" : hourLabel(h);
+}
+
+interface HourSelectProps {
+  value: number;
+  onChange: (h: number) => void;
+  /** Inclusive hour range for the options. */
+  from: number;
+  to: number;
+  /** Use the close-style label (24 = midnight). */
+  close?: boolean;
+}
+
+/**
+ * Small hour dropdown used for open/close/break times.
+ * @param props - Component props.
+ * @param props.value - Selected hour.
+ * @param props.onChange - Called with the new hour.
+ * @param props.from - First selectable hour.
+ * @param props.to - Last selectable hour.
+ * @param props.close - Whether to label 24 as midnight.
+ * @returns Hour select element.
+ */
+export function HourSelect({
+  value,
+  onChange,
+  from,
+  to,
+  close,
+}: HourSelectProps): React.ReactElement {
+  const opts: number[] = [];
+  for (let h = from; h <= to; h++) opts.push(h);
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="rounded-lg border border-admin-border-strong px-2 py-2 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none"
+    >
+      {opts.map((h) => (
+        <option key={h} value={h}>
+          {close ? closeLabel(h) : hourLabel(h)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Weekly hours rows, Monday to Sunday.
+ * @param props - Component props.
+ * @param props.schedule - Current hours per weekday.
+ * @param props.onChange - Called with the next schedule on any edit.
+ * @returns Weekly hours editor element.
+ */
+export function WeeklyHoursField({
+  schedule,
+  onChange,
+}: {
+  schedule: WeeklySchedule;
+  onChange: (next: WeeklySchedule) => void;
+}): React.ReactElement {
+  /**
+   * Patches one weekday's window.
+   * @param index - The weekday's `getUTCDay()` index.
+   * @param patch - Partial day-window fields to merge.
+   * @returns void
+   */
+  const setDay = (index: number, patch: Partial<DayWindow>): void =>
+    onChange({ ...schedule, [index]: { ...schedule[index], ...patch } });
+
+  return (
+    <div className="mt-3 space-y-2">
+      {DAY_ORDER.map(({ index, name }) => {
+        const d = schedule[index];
+        return (
+          <div key={index} className="rounded-lg border border-admin-border p-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="w-24 text-sm font-semibold text-admin-text">{name}</span>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={d.enabled}
+                onClick={() => setDay(index, { enabled: !d.enabled })}
+                className={cn(
+                  "relative inline-flex h-6 w-11 items-center rounded-full transition-colors",
+                  d.enabled ? "bg-russian-violet" : "bg-admin-border-strong",
+                )}
+              >
+                <span
+                  className={cn(
+                    "inline-block h-4 w-4 rounded-full bg-admin-surface shadow transition-[translate]",
+                    d.enabled ? "translate-x-6" : "translate-x-1",
+                  )}
+                />
+              </button>
+              {d.enabled ? (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-admin-text-secondary">
+                  <HourSelect
+                    value={d.open}
+                    from={0}
+                    to={23}
+                    onChange={(h) => setDay(index, { open: h })}
+                  />
+                  <span>to</span>
+                  <HourSelect
+                    value={d.close}
+                    from={1}
+                    to={24}
+                    close
+                    onChange={(h) => setDay(index, { close: h })}
+                  />
+                  <label className="ml-2 flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={d.break !== null}
+                      onChange={(e) =>
+                        setDay(index, {
+                          break: e.target.checked ? { start: 13, end: 14 } : null,
+                        })
+                      }
+                    />
+                    Break
+                  </label>
+                  {d.break && (
+                    <span className="flex items-center gap-2">
+                      <HourSelect
+                        value={d.break.start}
+                        from={d.open}
+                        to={d.close}
+                        onChange={(h) => setDay(index, { break: { start: h, end: d.break!.end } })}
+                      />
+                      <span>to</span>
+                      <HourSelect
+                        value={d.break.end}
+                        from={d.open}
+                        to={d.close}
+                        close
+                        onChange={(h) =>
+                          setDay(index, { break: { start: d.break!.start, end: h } })
+                        }
+                      />
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <span className="text-sm text-admin-faint italic">Day off</span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
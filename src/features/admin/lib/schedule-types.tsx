@@ -30,6 +30,14 @@ export interface WeekEventBooking {
   status: BookingStatus;
 }
 
+/** The technician an event belongs to, for colour-coding. */
+export interface WeekEventTechnician {
+  id: string;
+  name: string;
+  /** Hex colour from settings. */
+  color: string;
+}
+
 export interface WeekEvent {
   id: string;
   kind: WeekViewKind;
@@ -47,6 +55,11 @@ export interface WeekEvent {
   isAllDay: boolean;
   /** Populated for `kind === "booking"` events. Optional otherwise. */
   booking?: WeekEventBooking;
+  /**
+   * Set when technicians are configured: the booking's technician, the owner
+   * of the calendar the event came from, or (for travel) its event's.
+   */
+  technician?: WeekEventTechnician;
 }
 
 /** Id prefix for a placeholder block shown while an optimistic block syncs. */
@@ -127,6 +140,49 @@ export function LegendDot({ kind, label }: LegendDotProps): React.ReactElement {
   );
 }
 
+/**
+ * Inline accent marking a technician's event: a stripe down the left edge in
+ * their colour, over the kind's own styling.
+ * @param ev - Event to style.
+ * @returns Style to spread into the event element's `style`, or an empty object.
+ */
+export function technicianAccent(ev: WeekEvent): React.CSSProperties {
+  return ev.technician ? { boxShadow: `inset 4px 0 0 ${ev.technician.color}` } : {};
+}
+
+/**
+ * The technicians appearing among some events, in first-seen order, for the
+ * legend.
+ * @param events - Events on screen.
+ * @returns Distinct technicians.
+ */
+export function technicianLegend(events: WeekEvent[]): WeekEventTechnician[] {
+  const byId = new Map<string, WeekEventTechnician>();
+  for (const ev of events) {
+    if (ev.technician && !byId.has(ev.technician.id)) byId.set(ev.technician.id, ev.technician);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Legend swatch for one technician.
+ * @param props - Component props.
+ * @param props.technician - Technician to show.
+ * @returns Legend dot element.
+ */
+export function TechnicianLegendDot({
+  technician,
+}: {
+  technician: WeekEventTechnician;
+}): React.ReactElement {
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: technician.color }} />
+      {technician.name}
+    </span>
+  );
+}
+
 /**
  * Formats an hour-of-day as a 12h label with am/pm.
  * @param hour - Hour-of-day 0-23.
@@ -6,6 +6,7 @@
 "use client";
 
 import AddressAutocomplete from "@/features/booking/components/AddressAutocomplete";
+import BookingPhotoPicker from "@/features/booking/components/BookingPhotoPicker";
 import {
   BOOKING_FIELD_LIMITS,
   combineUnitAndAddress,
@@ -17,8 +18,10 @@ import {
   type StartMinute,
   type TimeOfDay,
 } from "@/features/booking/lib/booking";
+import { bookingPhotosError } from "@/features/booking/lib/booking-photos";
 import { fetchQuickEstimate } from "@/features/business/lib/quick-estimate";
 import { parseObjectId } from "@/features/business/lib/validation";
+import { SMS_OPT_IN_LABELS } from "@/features/messaging/lib/sms-opt-in";
 import { Button } from "@/shared/components/Button";
 import { EmailInput } from "@/shared/components/EmailInput";
 import { PhoneInput } from "@/shared/components/PhoneInput";
@@ -28,6 +31,7 @@ import { isPlausibleName, normaliseName } from "@/shared/lib/normalise-name";
 import { validatePhone } from "@/shared/lib/normalise-phone";
 import type { EstimatorRange } from "@/shared/lib/settings/types";
 import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
+import type { SmsMessageKind } from "@prisma/client";
 import { useRouter, useSearchParams } from "next/navigation";
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
@@ -123,6 +127,8 @@ export interface BookingFormProps {
   travelRatePerHour?: number;
   /** Low-end floor fraction (live setting) for the inline estimate. */
   lowEndFloorFactor?: number;
+  /** Texts the customer can opt in to (new bookings only); empty hides the choice. */
+  smsKinds?: SmsMessageKind[];
 }
 
 /**
@@ -137,6 +143,7 @@ export interface BookingFormProps {
  * @param props.minTravelCharge - Travel floor for the inline estimate.
  * @param props.travelRatePerHour - Travel $/hr for the inline estimate.
  * @param props.lowEndFloorFactor - Low-end floor fraction for the inline estimate.
+ * @param props.smsKinds - Texts offered for opt-in; empty or omitted hides the choice.
  * @returns Booking form element
  */
 export default function BookingForm({
@@ -149,6 +156,7 @@ export default function BookingForm({
   minTravelCharge,
   travelRatePerHour,
   lowEndFloorFactor,
+  smsKinds = [],
 }: BookingFormProps): React.ReactElement {
   const router = useRouter();
   const isEditMode = Boolean(cancelToken);
@@ -219,6 +227,10 @@ export default function BookingForm({
   const [name, setName] = useState(initialValues?.name ?? "");
   const [email, setEmail] = useState(initialValues?.email ?? "");
   const [phone, setPhone] = useState(initialValues?.phone ?? "");
+  // Texts the customer ticked. Only sent while the phone is valid, since the
+  // checkboxes hide otherwise.
+  const [smsOptIn, setSmsOptIn] = useState<SmsMessageKind[]>([]);
+  const showSmsOptIn = !isEditMode && smsKinds.length > 0 && validatePhone(phone).result === "ok";
   const [meetingType, setMeetingType] = useState<"in-person" | "remote" | "">(
     initialValues?.meetingType ?? "",
   );
@@ -245,6 +257,9 @@ export default function BookingForm({
   const [emailSuggestion, setEmailSuggestion] = useState<string | null>(null);
   const [emailSuggestionAcked, setEmailSuggestionAcked] = useState(false);
   const [notes, setNotes] = useState(initialValues?.notes ?? "");
+  // New bookings only; files can't go in the localStorage draft, so a
+  // restored draft comes back without them.
+  const [photos, setPhotos] = useState<File[]>([]);
   // Honeypot value - see the hidden input in the form markup below.
   const [website, setWebsite] = useState("");
   const [submitting, setSubmitting] = useState(false);
@@ -718,6 +733,8 @@ export default function BookingForm({
     } else if (notes.trim().length < BOOKING_FIELD_LIMITS.notesMin) {
       fe.notes = `Please describe the issue in at least ${BOOKING_FIELD_LIMITS.notesMin} characters so I have enough context.`;
     }
+    const photoError = isEditMode ? null : bookingPhotosError(photos);
+    if (photoError) fe.photos = photoError;
 
     setFieldErrors(fe);
     if (Object.keys(fe).length > 0) return;
@@ -807,16 +824,27 @@ export default function BookingForm({
             meetingType,
             address: meetingType === "in-person" ? combineUnitAndAddress(unit, address) : undefined,
             notes: notes.trim(),
+            smsOptIn: showSmsOptIn ? smsOptIn : [],
             website,
             idempotencyKey,
             estimateId,
           };
 
-      const res = await fetch(endpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
+      // With photos attached the payload rides as a JSON field of a multipart
+      // body (the browser sets the boundary header); otherwise plain JSON.
+      let res: Response;
+      if (!isEditMode && photos.length > 0) {
+        const form = new FormData();
+        form.append("payload", JSON.stringify(payload));
+        for (const photo of photos) form.append("photos", photo);
+        res = await fetch(endpoint, { method: "POST", body: form });
+      } else {
+        res = await fetch(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+      }
 
       const data = (await res.json()) as { ok?: boolean; error?: string; cancelToken?: string };
 
@@ -1266,6 +1294,26 @@ export default function BookingForm({
               Needed so I can contact you on arrival (running late, gate codes, etc.).
             </p>
           )}
+          {showSmsOptIn && (
+            <fieldset className="mt-1 flex flex-col gap-1.5">
+              <legend className="sr-only">Text messages</legend>
+              {smsKinds.map((kind) => (
+                <label key={kind} className="flex items-center gap-2 text-sm text-rich-black/80">
+                  <input
+                    type="checkbox"
+                    checked={smsOptIn.includes(kind)}
+                    onChange={(e) =>
+                      setSmsOptIn((prev) =>
+                        e.target.checked ? [...prev, kind] : prev.filter((k) => k !== kind),
+                      )
+                    }
+                    className="h-4 w-4 rounded border-seasalt-200"
+                  />
+                  {SMS_OPT_IN_LABELS[kind]}
+                </label>
+              ))}
+            </fieldset>
+          )}
         </div>
 
         {/* Meeting Type */}
@@ -1606,6 +1654,19 @@ export default function BookingForm({
           )}
         </div>
 
+        {!isEditMode && (
+          <BookingPhotoPicker
+            id="booking-photos"
+            photos={photos}
+            onChange={(next) => {
+              setPhotos(next);
+              clearFieldError("photos");
+            }}
+            error={fieldErrors.photos}
+            disabled={submitting}
+          />
+        )}
+
         {canInlineEstimate && (
           <div className="flex flex-col gap-2">
             <div className="flex flex-col gap-0.5">
@@ -1829,6 +1890,7 @@ export default function BookingForm({
                   meetingType: "booking-meeting-type",
                   address: "booking-address",
                   notes: "booking-notes",
+                  photos: "booking-photos",
                 };
                 const anchor = anchors[key];
                 return (
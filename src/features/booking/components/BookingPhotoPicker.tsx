@@ -0,0 +1,140 @@
+// src/features/booking/components/BookingPhotoPicker.tsx
+/**
+ * @description Optional photo attachments on the booking form: a file picker
+ * plus thumbnails with a remove button each. Holds no state of its own - the
+ * form owns the File list so it can validate and post it. Limits come from
+ * BOOKING_PHOTO_LIMITS, the same ones the request route enforces.
+ */
+
+"use client";
+
+import { BOOKING_PHOTO_LIMITS, BOOKING_PHOTO_TYPES } from "@/features/booking/lib/booking-photos";
+import { cn } from "@/shared/lib/cn";
+import type React from "react";
+import { useEffect, useState } from "react";
+import { FaXmark } from "react-icons/fa6";
+
+/**
+ * Reads a file as a data URL for its thumbnail. Data URLs, unlike object URLs,
+ * need no revoking, so a removed photo can't leak its blob.
+ * @param file - The picked image.
+ * @returns The data URL.
+ */
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener("load", () => resolve(reader.result as string));
+    reader.addEventListener("error", () =>
+      reject(reader.error ?? new Error("Could not read file")),
+    );
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Photo picker with thumbnails.
+ * @param props - Component props.
+ * @param props.id - Id of the file input (the error summary links to it).
+ * @param props.photos - Currently attached files.
+ * @param props.onChange - Called with the new file list.
+ * @param props.error - Validation message to show, if any.
+ * @param props.disabled - Disables adding and removing.
+ * @returns Picker element.
+ */
+export default function BookingPhotoPicker({
+  id,
+  photos,
+  onChange,
+  error,
+  disabled,
+}: {
+  id: string;
+  photos: File[];
+  onChange: (photos: File[]) => void;
+  error?: string;
+  disabled?: boolean;
+}): React.ReactElement {
+  // Thumbnails trail the file list by one read; the stale-guard drops a read
+  // that finishes after the list has moved on.
+  const [previews, setPreviews] = useState<string[]>([]);
+  useEffect(() => {
+    let stale = false;
+    Promise.all(photos.map(readAsDataUrl))
+      .then((urls) => {
+        if (!stale) setPreviews(urls);
+      })
+      .catch(() => {
+        if (!stale) setPreviews([]);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [photos]);
+
+  const full = photos.length >= BOOKING_PHOTO_LIMITS.maxCount;
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label htmlFor={id} className="text-base font-semibold text-rich-black">
+        Photos or screenshots <span className="font-normal text-rich-black/50">(optional)</span>
+      </label>
+      <p className="text-sm text-rich-black/70">
+        An error message or the back of a device can save a trip. Up to{" "}
+        {BOOKING_PHOTO_LIMITS.maxCount} images, {BOOKING_PHOTO_LIMITS.maxBytes / (1024 * 1024)} MB
+        each.
+      </p>
+      {photos.length > 0 && (
+        <ul className="flex flex-wrap gap-3">
+          {photos.map((file, i) => (
+            <li key={`${file.name}-${file.lastModified}-${i}`} className="relative">
+              {previews[i] ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={previews[i]}
+                  alt={file.name}
+                  className="h-20 w-20 rounded-md border border-seasalt-200/80 object-cover"
+                />
+              ) : (
+                <div className="h-20 w-20 rounded-md border border-seasalt-200/80 bg-seasalt" />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(photos.filter((_, j) => j !== i))}
+                disabled={disabled}
+                aria-label={`Remove ${file.name}`}
+                className="absolute -top-2 -right-2 rounded-full bg-rich-black/80 p-1 text-white hover:bg-rich-black disabled:opacity-50"
+              >
+                <FaXmark className="h-3 w-3" aria-hidden />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        id={id}
+        type="file"
+        accept={BOOKING_PHOTO_TYPES.join(",")}
+        multiple
+        disabled={disabled || full}
+        onChange={(e) => {
+          const picked = Array.from(e.target.files ?? []);
+          // Reset so picking the same file again after removing it still fires.
+          e.target.value = "";
+          if (picked.length > 0) onChange([...photos, ...picked]);
+        }}
+        aria-invalid={!!error || undefined}
+        aria-describedby={error ? `${id}-error` : undefined}
+        className={cn(
+          "text-base text-rich-black file:mr-3 file:rounded-md file:border file:border-russian-violet/40",
+          "file:bg-transparent file:px-4 file:py-2 file:text-sm file:font-semibold file:text-russian-violet",
+          "hover:file:bg-russian-violet/5 disabled:opacity-50",
+        )}
+      />
+      {error && (
+        <p id={`${id}-error`} className="text-sm text-coquelicot-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
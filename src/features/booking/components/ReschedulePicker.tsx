@@ -0,0 +1,123 @@
+// src/features/booking/components/ReschedulePicker.tsx
+/**
+ * @description Pick-a-new-time list for a booking whose day is being cleared.
+ * Renders the live suggestions as one-tap choices (the one preselected from the
+ * email link highlighted), then posts the pick to /api/booking/reschedule. A
+ * slot taken in the meantime comes back as an error and the customer picks again.
+ */
+
+"use client";
+
+import { Button } from "@/shared/components/Button";
+import { cn } from "@/shared/lib/cn";
+import type React from "react";
+import { useState } from "react";
+
+/** One offered time, as serialised by the page. */
+export interface RescheduleOption {
+  /** UTC ISO start. */
+  startIso: string;
+  /** "Wed 16 Jul". */
+  dayLabel: string;
+  /** "9:00am". */
+  timeLabel: string;
+}
+
+/** Props for {@link ReschedulePicker}. */
+interface ReschedulePickerProps {
+  /** The booking's cancel token. */
+  cancelToken: string;
+  /** Times on offer, soonest first. */
+  options: RescheduleOption[];
+  /** Start preselected from the email link, when it is still on offer. */
+  initialStartIso: string | null;
+}
+
+type SubmitState =
+  | { kind: "idle" }
+  | { kind: "submitting" }
+  | { kind: "done"; option: RescheduleOption }
+  | { kind: "error"; message: string };
+
+/**
+ * Slot list + confirm button for the pick-a-new-time page.
+ * @param props - Component props.
+ * @param props.cancelToken - The booking's cancel token.
+ * @param props.options - Times on offer.
+ * @param props.initialStartIso - Start preselected from the email link.
+ * @returns The picker element.
+ */
+export default function ReschedulePicker({
+  cancelToken,
+  options,
+  initialStartIso,
+}: ReschedulePickerProps): React.ReactElement {
+  const [selected, setSelected] = useState<string | null>(initialStartIso);
+  const [submit, setSubmit] = useState<SubmitState>({ kind: "idle" });
+
+  /** Posts the selected slot. */
+  async function confirm(): Promise<void> {
+    const option = options.find((o) => o.startIso === selected);
+    if (!option) return;
+    setSubmit({ kind: "submitting" });
+    try {
+      const res = await fetch("/api/booking/reschedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cancelToken, startIso: option.startIso }),
+      });
+      const data = (await res.json()) as { ok?: boolean; error?: string };
+      if (data.ok) {
+        setSubmit({ kind: "done", option });
+      } else {
+        setSubmit({ kind: "error", message: data.error || "Could not move your booking." });
+      }
+    } catch {
+      setSubmit({ kind: "error", message: "Network error." });
+    }
+  }
+
+  if (submit.kind === "done") {
+    return (
+      <div className="rounded-lg border-2 border-moonstone-500/50 bg-moonstone-400/10 p-4 text-base text-rich-black sm:text-lg">
+        All sorted - you're now booked for{" "}
+        <strong>
+          {submit.option.dayLabel} at {submit.option.timeLabel}
+        </strong>
+        . A new calendar invite is on its way.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="grid gap-2 sm:grid-cols-2">
+        {options.map((o) => (
+          <li key={o.startIso}>
+            <button
+              type="button"
+              onClick={() => setSelected(o.startIso)}
+              aria-pressed={selected === o.startIso}
+              className={cn(
+                "w-full rounded-lg border-2 px-4 py-3 text-left text-base transition-colors",
+                selected === o.startIso
+                  ? "border-russian-violet bg-russian-violet/10 text-russian-violet"
+                  : "border-seasalt-200/60 bg-seasalt text-rich-black hover:border-russian-violet/40",
+              )}
+            >
+              <span className="font-semibold">{o.dayLabel}</span> at {o.timeLabel}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {submit.kind === "error" && <p className="text-sm text-coquelicot-500">{submit.message}</p>}
+      <Button
+        onClick={() => void confirm()}
+        disabled={!selected || submit.kind === "submitting"}
+        size="sm"
+      >
+        {submit.kind === "submitting" ? "Moving..." : "Move my booking"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+// src/features/booking/components/RescheduleProposalActions.tsx
+/**
+ * @description Accept / keep-my-time buttons for a route-plan proposal. Posts to
+ * /api/booking/proposal/accept or /decline with the proposal's token and swaps
+ * to the outcome message; a plan that closed in the meantime comes back as an error.
+ */
+
+"use client";
+
+import { Button } from "@/shared/components/Button";
+import type React from "react";
+import { useState } from "react";
+
+type ActionState =
+  | { kind: "idle" }
+  | { kind: "submitting"; action: "accept" | "decline" }
+  | { kind: "done"; action: "accept" | "decline"; applied: boolean }
+  | { kind: "error"; message: string };
+
+/**
+ * Accept/decline controls for the proposal page.
+ * @param props - Component props.
+ * @param props.token - The proposal's token.
+ * @param props.accepted - Whether the customer has already said yes (they can still back out).
+ * @returns The action buttons or the outcome message.
+ */
+export default function RescheduleProposalActions({
+  token,
+  accepted,
+}: {
+  token: string;
+  accepted: boolean;
+}): React.ReactElement {
+  const [state, setState] = useState<ActionState>({ kind: "idle" });
+
+  /**
+   * Posts the customer's answer.
+   * @param action - Accept the new time or keep the current one.
+   */
+  async function respond(action: "accept" | "decline"): Promise<void> {
+    setState({ kind: "submitting", action });
+    try {
+      const res = await fetch(`/api/booking/proposal/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = (await res.json()) as { ok?: boolean; error?: string; applied?: boolean };
+      if (data.ok) {
+        setState({ kind: "done", action, applied: data.applied === true });
+      } else {
+        setState({ kind: "error", message: data.error || "Something went wrong." });
+      }
+    } catch {
+      setState({ kind: "error", message: "Network error." });
+    }
+  }
+
+  if (state.kind === "done") {
+    return (
+      <div className="rounded-lg border-2 border-moonstone-500/50 bg-moonstone-400/10 p-4 text-base text-rich-black sm:text-lg">
+        {state.action === "decline"
+          ? "No problem - your booking stays exactly as it is."
+          : state.applied
+            ? "All set - your booking has moved, and an updated confirmation is on its way."
+            : "Thanks! I'll confirm once the rest of the day is sorted - until then your booking stays at its current time."}
+      </div>
+    );
+  }
+
+  const busy = state.kind === "submitting";
+  return (
+    <div className="space-y-3">
+      {state.kind === "error" && <p className="text-sm text-coquelicot-500">{state.message}</p>}
+      <div className="flex flex-wrap gap-3">
+        {!accepted && (
+          <Button onClick={() => void respond("accept")} disabled={busy} size="sm">
+            {busy && state.action === "accept" ? "Saving..." : "Yes, the new time suits"}
+          </Button>
+        )}
+        <Button onClick={() => void respond("decline")} disabled={busy} variant="ghost" size="sm">
+          {busy && state.action === "decline" ? "Saving..." : "Keep my current time"}
+        </Button>
+      </div>
+    </div>
+  );
+}
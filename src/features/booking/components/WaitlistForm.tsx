@@ -0,0 +1,370 @@
+// src/features/booking/components/WaitlistForm.tsx
+/**
+ * @description "Join the waitlist" form shown under the booking form when one or
+ * more days in the window are fully booked. Collapsed behind a prompt by default
+ * so it never competes with the form above; posts to /api/booking/waitlist and
+ * swaps for a confirmation card on success. Follows the public BookingForm field
+ * conventions (text-base sizing, shared EmailInput/PhoneInput, hidden honeypot).
+ */
+
+"use client";
+
+import { BOOKING_FIELD_LIMITS, validateEmail } from "@/features/booking/lib/booking";
+import { Button } from "@/shared/components/Button";
+import { EmailInput } from "@/shared/components/EmailInput";
+import { PhoneInput } from "@/shared/components/PhoneInput";
+import { cn } from "@/shared/lib/cn";
+import type React from "react";
+import { useState } from "react";
+import { FaCircleCheck } from "react-icons/fa6";
+
+/** A fully-booked day the customer can queue for. */
+export interface WaitlistDay {
+  dateKey: string;
+  /** "Wednesday, Jul 16". */
+  fullLabel: string;
+}
+
+type TimePref = "any" | "morning" | "afternoon";
+
+const TIME_OPTIONS: ReadonlyArray<{ value: TimePref; label: string }> = [
+  { value: "any", label: "Any time" },
+  { value: "morning", label: "Morning" },
+  { value: "afternoon", label: "Afternoon" },
+];
+
+const INPUT_CLASS = cn(
+  "rounded-md border border-seasalt-200/80 bg-seasalt px-4 py-3 text-base text-rich-black",
+  "focus:border-russian-violet focus:ring-1 focus:ring-russian-violet/30 focus:outline-none",
+);
+
+/**
+ * Selection-button classes shared by every choice row on the form.
+ * @param selected - Whether the option is the current pick.
+ * @returns Class string.
+ */
+function choiceClass(selected: boolean): string {
+  return cn(
+    "rounded-lg border px-4 py-2.5 text-base font-medium whitespace-nowrap transition-colors",
+    selected
+      ? "border-russian-violet bg-russian-violet/10 text-russian-violet"
+      : "border-seasalt-200/60 bg-seasalt text-rich-black hover:border-russian-violet/40",
+  );
+}
+
+/**
+ * Waitlist join form for fully-booked days.
+ * @param props - Component props.
+ * @param props.days - Fully-booked days in the booking window.
+ * @param props.durations - Live job durations (minutes) for the length labels.
+ * @param props.durations.short - Standard job length.
+ * @param props.durations.long - Extended job length.
+ * @returns Waitlist prompt, form, or confirmation card.
+ */
+export default function WaitlistForm({
+  days,
+  durations,
+}: {
+  days: WaitlistDay[];
+  durations: { short: number; long: number };
+}): React.ReactElement {
+  const [open, setOpen] = useState(false);
+  const [dateKey, setDateKey] = useState(days[0]?.dateKey ?? "");
+  const [timeOfDay, setTimeOfDay] = useState<TimePref>("any");
+  const [duration, setDuration] = useState<"short" | "long">("short");
+  const [meetingType, setMeetingType] = useState<"in-person" | "remote">("in-person");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+  const [notes, setNotes] = useState("");
+  const [website, setWebsite] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Validates the obvious gaps client-side and posts the entry.
+   * @param e - Form submit event.
+   */
+  async function handleSubmit(e: React.SubmitEvent<HTMLFormElement>): Promise<void> {
+    e.preventDefault();
+    if (submitting) return;
+    if (!name.trim() || !notes.trim()) {
+      setError("Please fill in your name and what you need help with.");
+      return;
+    }
+    if (validateEmail(email) !== "ok") {
+      setError("Please enter a valid email address.");
+      return;
+    }
+    if (meetingType === "in-person" && (!address.trim() || !phone.trim())) {
+      setError("An address and phone number are needed for in-person appointments.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/booking/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dateKey,
+          timeOfDay,
+          duration,
+          meetingType,
+          name: name.trim(),
+          email: email.trim(),
+          phone: phone.trim() || undefined,
+          address: meetingType === "in-person" ? address.trim() : undefined,
+          notes: notes.trim(),
+          website,
+        }),
+      });
+      const data = (await res.json()) as { ok?: boolean; error?: string };
+      if (!res.ok || !data.ok) {
+        setError(data.error || "Could not join the waitlist. Please try again.");
+        setSubmitting(false);
+        return;
+      }
+      setSubmitted(true);
+    } catch {
+      setError("Network error. Please try again.");
+      setSubmitting(false);
+    }
+  }
+
+  if (submitted) {
+    const day = days.find((d) => d.dateKey === dateKey);
+    return (
+      <div
+        role="status"
+        className="flex flex-col items-center gap-3 rounded-lg border border-moonstone-500/40 bg-moonstone-400/10 p-6 text-center"
+      >
+        <FaCircleCheck className="h-10 w-10 text-moonstone-400" aria-hidden />
+        <p className="text-lg font-semibold text-rich-black sm:text-xl">You're on the waitlist</p>
+        <p className="max-w-xl text-base text-rich-black/80 sm:text-lg">
+          If a time opens up on {day?.fullLabel ?? "that day"}, I'll email you and hold it for you
+          for a few hours while you confirm.
+        </p>
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <div className="flex flex-col gap-3 rounded-lg border border-seasalt-200/80 bg-white/30 p-4 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-base text-rich-black/80">
+          Day you wanted fully booked? Join the waitlist and I'll email you if a time frees up.
+        </p>
+        <Button variant="secondary" size="sm" onClick={() => setOpen(true)}>
+          Join the waitlist
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5" autoComplete="off">
+      <h2 className="text-xl font-bold text-russian-violet sm:text-2xl">Join the waitlist</h2>
+
+      {/* Honeypot: visually hidden + off-screen + tab-skipped + aria-hidden. */}
+      <div
+        aria-hidden="true"
+        style={{ position: "absolute", left: "-9999px", width: 1, height: 1, overflow: "hidden" }}
+      >
+        <label htmlFor="waitlist-website">Website (leave blank)</label>
+        <input
+          id="waitlist-website"
+          name="website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-base font-semibold text-rich-black">
+          Which day? <span className="text-coquelicot-500">*</span>
+        </span>
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(12rem,1fr))] gap-2">
+          {days.map((d) => (
+            <button
+              key={d.dateKey}
+              type="button"
+              aria-pressed={dateKey === d.dateKey}
+              onClick={() => setDateKey(d.dateKey)}
+              className={choiceClass(dateKey === d.dateKey)}
+            >
+              {d.fullLabel}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="flex flex-col gap-2">
+          <span className="text-base font-semibold text-rich-black">Time of day</span>
+          <div className="flex flex-wrap gap-2">
+            {TIME_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                aria-pressed={timeOfDay === opt.value}
+                onClick={() => setTimeOfDay(opt.value)}
+                className={choiceClass(timeOfDay === opt.value)}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-base font-semibold text-rich-black">How long?</span>
+          <div className="flex flex-wrap gap-2">
+            {(["short", "long"] as const).map((d) => (
+              <button
+                key={d}
+                type="button"
+                aria-pressed={duration === d}
+                onClick={() => setDuration(d)}
+                className={choiceClass(duration === d)}
+              >
+                {d === "short" ? "Standard" : "Extended"} ({durations[d]} min)
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-base font-semibold text-rich-black">
+          Meeting type <span className="text-coquelicot-500">*</span>
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {(["in-person", "remote"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              aria-pressed={meetingType === t}
+              onClick={() => setMeetingType(t)}
+              className={choiceClass(meetingType === t)}
+            >
+              {t === "in-person" ? "In-person" : "Remote"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="flex flex-col gap-1.5">
+          <label htmlFor="waitlist-name" className="text-base font-semibold text-rich-black">
+            Name <span className="text-coquelicot-500">*</span>
+          </label>
+          <input
+            id="waitlist-name"
+            type="text"
+            autoComplete="name"
+            required
+            aria-required
+            maxLength={BOOKING_FIELD_LIMITS.name}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label htmlFor="waitlist-email" className="text-base font-semibold text-rich-black">
+            Email <span className="text-coquelicot-500">*</span>
+          </label>
+          <EmailInput
+            id="waitlist-email"
+            value={email}
+            onChange={setEmail}
+            required
+            errorMessages={{ invalid: "Please enter a valid email address." }}
+            className={cn(
+              "border border-seasalt-200/80 bg-seasalt px-4 py-3 text-base text-rich-black",
+              "focus:border-russian-violet focus:ring-1 focus:ring-russian-violet/30",
+            )}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="flex flex-col gap-1.5">
+          <label htmlFor="waitlist-phone" className="text-base font-semibold text-rich-black">
+            Phone{" "}
+            {meetingType === "in-person" ? (
+              <span className="text-coquelicot-500">*</span>
+            ) : (
+              <span className="text-base text-rich-black/70">(optional)</span>
+            )}
+          </label>
+          <PhoneInput
+            id="waitlist-phone"
+            value={phone}
+            onChange={setPhone}
+            errorMessages={{ invalid: "Please enter a valid phone number." }}
+            className={cn(
+              "border border-seasalt-200/80 bg-seasalt px-4 py-3 text-base text-rich-black",
+              "focus:border-russian-violet focus:ring-1 focus:ring-russian-violet/30",
+            )}
+          />
+        </div>
+        {meetingType === "in-person" && (
+          <div className="flex flex-col gap-1.5">
+            <label htmlFor="waitlist-address" className="text-base font-semibold text-rich-black">
+              Address <span className="text-coquelicot-500">*</span>
+            </label>
+            <input
+              id="waitlist-address"
+              type="text"
+              autoComplete="street-address"
+              required
+              aria-required
+              maxLength={BOOKING_FIELD_LIMITS.address}
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <label htmlFor="waitlist-notes" className="text-base font-semibold text-rich-black">
+          What do you need help with? <span className="text-coquelicot-500">*</span>
+        </label>
+        <textarea
+          id="waitlist-notes"
+          required
+          aria-required
+          rows={3}
+          maxLength={BOOKING_FIELD_LIMITS.notes}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className={cn(INPUT_CLASS, "resize-y")}
+        />
+      </div>
+
+      {error && (
+        <p role="alert" className="text-base font-medium text-coquelicot-400">
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <Button type="submit" variant="primary" size="md" disabled={submitting}>
+          {submitting ? "Joining..." : "Join the waitlist"}
+        </Button>
+        <Button type="button" variant="ghost" size="md" onClick={() => setOpen(false)}>
+          Never mind
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,80 @@
+// src/features/booking/components/WaitlistOfferActions.tsx
+/**
+ * @description Confirm / decline buttons for a waitlist offer. Posts to
+ * /api/booking/waitlist/accept or /decline with the offer's token and swaps to
+ * the outcome message; an offer that lapsed in the meantime comes back as an error.
+ */
+
+"use client";
+
+import { Button } from "@/shared/components/Button";
+import type React from "react";
+import { useState } from "react";
+
+type ActionState =
+  | { kind: "idle" }
+  | { kind: "submitting"; action: "accept" | "decline" }
+  | { kind: "done"; action: "accept" | "decline" }
+  | { kind: "error"; message: string };
+
+/**
+ * Accept/decline controls for the waitlist offer page.
+ * @param props - Component props.
+ * @param props.cancelToken - The held booking's token.
+ * @returns The action buttons or the outcome message.
+ */
+export default function WaitlistOfferActions({
+  cancelToken,
+}: {
+  cancelToken: string;
+}): React.ReactElement {
+  const [state, setState] = useState<ActionState>({ kind: "idle" });
+
+  /**
+   * Posts the customer's answer.
+   * @param action - Accept or decline the offer.
+   */
+  async function respond(action: "accept" | "decline"): Promise<void> {
+    setState({ kind: "submitting", action });
+    try {
+      const res = await fetch(`/api/booking/waitlist/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cancelToken }),
+      });
+      const data = (await res.json()) as { ok?: boolean; error?: string };
+      if (data.ok) {
+        setState({ kind: "done", action });
+      } else {
+        setState({ kind: "error", message: data.error || "Something went wrong." });
+      }
+    } catch {
+      setState({ kind: "error", message: "Network error." });
+    }
+  }
+
+  if (state.kind === "done") {
+    return (
+      <div className="rounded-lg border-2 border-moonstone-500/50 bg-moonstone-400/10 p-4 text-base text-rich-black sm:text-lg">
+        {state.action === "accept"
+          ? "You're booked in - a confirmation and calendar invite are on their way."
+          : "No worries - I've passed the time on. You're off the waitlist for this day."}
+      </div>
+    );
+  }
+
+  const busy = state.kind === "submitting";
+  return (
+    <div className="space-y-3">
+      {state.kind === "error" && <p className="text-sm text-coquelicot-500">{state.message}</p>}
+      <div className="flex flex-wrap gap-3">
+        <Button onClick={() => void respond("accept")} disabled={busy} size="sm">
+          {busy && state.action === "accept" ? "Confirming..." : "Yes, book me in"}
+        </Button>
+        <Button onClick={() => void respond("decline")} disabled={busy} variant="ghost" size="sm">
+          {busy && state.action === "decline" ? "Declining..." : "No thanks"}
+        </Button>
+      </div>
+    </div>
+  );
+}
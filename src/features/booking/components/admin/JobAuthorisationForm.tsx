@@ -0,0 +1,192 @@
+"use client";
+// src/features/booking/components/admin/JobAuthorisationForm.tsx
+/**
+ * @description The signing form on the tablet job-authorisation page. The
+ * technician checks the scope (pre-filled from the booking's quoted tasks),
+ * then hands the tablet over: the customer reads the terms, types their name
+ * and signs on the {@link SignaturePad}. Validation runs through the same
+ * {@link jobAuthorisationError} the route uses; on success the form swaps for
+ * a confirmation with the signed PDF.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { ADMIN_INPUT_CLS } from "@/features/admin/components/ui/field-classes";
+import { SignaturePad } from "@/features/booking/components/admin/SignaturePad";
+import {
+  type AuthorisationTerm,
+  JOB_AUTHORISATION_LIMITS,
+  jobAuthorisationError,
+  normaliseScope,
+} from "@/features/booking/lib/job-authorisation";
+import { cn } from "@/shared/lib/cn";
+import type React from "react";
+import { useState } from "react";
+
+/** Props for {@link JobAuthorisationForm}. */
+interface JobAuthorisationFormProps {
+  bookingId: string;
+  /** Scope the technician starts from, one task per line. */
+  defaultScope: string[];
+  /** Policy terms printed under the scope. */
+  terms: AuthorisationTerm[];
+}
+
+const FIELD_LABEL_CLS = "mb-2 block text-xs font-semibold text-admin-muted uppercase";
+
+/**
+ * Renders `**…**` segments from pricing-policy copy as `<strong>` spans.
+ * @param text - Copy string containing zero or more `**…**` segments.
+ * @returns Array of React nodes ready to drop into a `<p>`.
+ */
+function renderEmphasised(text: string): React.ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*)/g).map((part, i) => {
+    const m = part.match(/^\*\*([^*]+)\*\*$/);
+    return m ? <strong key={i}>{m[1]}</strong> : <span key={i}>{part}</span>;
+  });
+}
+
+/**
+ * Job-authorisation signing form.
+ * @param props - Component props.
+ * @param props.bookingId - Booking being authorised.
+ * @param props.defaultScope - Pre-filled scope lines.
+ * @param props.terms - Policy terms shown above the signature.
+ * @returns Form element, or the confirmation once signed.
+ */
+export function JobAuthorisationForm({
+  bookingId,
+  defaultScope,
+  terms,
+}: JobAuthorisationFormProps): React.ReactElement {
+  const [scopeText, setScopeText] = useState(defaultScope.join("\n"));
+  const [signedName, setSignedName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signedId, setSignedId] = useState<string | null>(null);
+
+  /** Validates locally, then posts the authorisation. */
+  async function submit(): Promise<void> {
+    const scope = normaliseScope(scopeText.split("\n"));
+    const invalid = jobAuthorisationError({ scope, signedName, hasSignature: signature !== null });
+    if (invalid || !signature) {
+      setError(invalid ?? "Please sign in the box.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}/authorisations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope, signedName, signature }),
+      });
+      const d = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        authorisation?: { id: string };
+        error?: string;
+      };
+      if (!res.ok || !d.ok || !d.authorisation) {
+        setError(d.error ?? "Couldn't save the authorisation. Please try again.");
+        setSaving(false);
+        return;
+      }
+      setSignedId(d.authorisation.id);
+    } catch {
+      setError("Couldn't save the authorisation. Check the connection and try again.");
+      setSaving(false);
+    }
+  }
+
+  if (signedId) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-lg font-bold text-russian-violet">Thank you - the work is authorised.</p>
+        <p className="text-sm text-admin-muted">
+          The signed copy is saved to the booking. Please hand the tablet back.
+        </p>
+        <div className="flex flex-wrap justify-center gap-2">
+          <AdminButton
+            variant="secondary"
+            href={`/api/admin/bookings/${bookingId}/authorisations/${signedId}`}
+            prefetch={false}
+          >
+            Open signed PDF
+          </AdminButton>
+          <AdminButton href={`/admin/bookings/${bookingId}`}>Back to booking</AdminButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label htmlFor="auth-scope" className={FIELD_LABEL_CLS}>
+          Work to be done - one task per line
+        </label>
+        <textarea
+          id="auth-scope"
+          rows={Math.min(8, Math.max(3, defaultScope.length + 1))}
+          value={scopeText}
+          onChange={(e) => setScopeText(e.target.value)}
+          disabled={saving}
+          maxLength={
+            JOB_AUTHORISATION_LIMITS.maxScopeLines * JOB_AUTHORISATION_LIMITS.maxLineLength
+          }
+          className={cn(ADMIN_INPUT_CLS, "resize-y text-base")}
+        />
+      </div>
+
+      <div className="space-y-4">
+        {terms.map((term) => (
+          <section key={term.title}>
+            <h2 className="mb-1 text-sm font-bold text-russian-violet">{term.title}</h2>
+            <div className="space-y-2 text-sm whitespace-pre-line text-admin-text">
+              {term.body.split(/\n\n+/).map((p, i) => (
+                <p key={i}>{renderEmphasised(p)}</p>
+              ))}
+            </div>
+          </section>
+        ))}
+        <p className="text-sm font-medium text-admin-text">
+          By signing I confirm I have read the above, I authorise the work listed, and I am the
+          owner of the equipment or have the owner&apos;s permission.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="auth-name" className={FIELD_LABEL_CLS}>
+          Your full name
+        </label>
+        <input
+          id="auth-name"
+          type="text"
+          autoComplete="name"
+          value={signedName}
+          onChange={(e) => setSignedName(e.target.value)}
+          disabled={saving}
+          maxLength={JOB_AUTHORISATION_LIMITS.maxNameLength}
+          className={cn(ADMIN_INPUT_CLS, "text-base")}
+        />
+      </div>
+
+      <div>
+        <span className={FIELD_LABEL_CLS}>Signature</span>
+        <SignaturePad onChange={setSignature} disabled={saving} />
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm font-medium text-coquelicot-600">
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <AdminButton onClick={() => void submit()} busy={saving}>
+          Sign and authorise
+        </AdminButton>
+      </div>
+    </div>
+  );
+}
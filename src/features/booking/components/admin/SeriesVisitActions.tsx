@@ -0,0 +1,197 @@
+"use client";
+// src/features/booking/components/admin/SeriesVisitActions.tsx
+/**
+ * @description Recurring-series controls on the booking detail page for a visit
+ * that came from a series. "Change time" moves either this visit only or this
+ * and every following visit (the series is split from here); "End series" cancels
+ * this visit and all later ones behind a {@link ConfirmDialog}. After a
+ * following-visits change the page moves to the visit that replaced this one.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { ConfirmDialog } from "@/features/admin/components/ui/ConfirmDialog";
+import { ADMIN_INPUT_CLS } from "@/features/admin/components/ui/field-classes";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { cn } from "@/shared/lib/cn";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+/** Props for {@link SeriesVisitActions}. */
+interface SeriesVisitActionsProps {
+  /** Booking id of this visit. */
+  id: string;
+  /** The series' cadence in words. */
+  description: string;
+  /** This visit's NZ start time, "HH:MM". */
+  startTime: string;
+  /** This visit's length in minutes. */
+  durationMinutes: number;
+  /** Whether the visit can still be changed (upcoming and not cancelled). */
+  editable: boolean;
+}
+
+/** Success body from the series edit endpoint. */
+interface SeriesEditResponse {
+  ok: boolean;
+  error?: string;
+  created?: number;
+  skipped?: string[];
+  cancelled?: number;
+  visitId?: string | null;
+}
+
+type Scope = "this" | "following";
+
+/**
+ * Series edit controls for one visit.
+ * @param props - Component props.
+ * @param props.id - Booking id of this visit.
+ * @param props.description - The series' cadence in words.
+ * @param props.startTime - This visit's NZ start time.
+ * @param props.durationMinutes - This visit's length in minutes.
+ * @param props.editable - Whether the visit can still be changed.
+ * @returns The series card body.
+ */
+export function SeriesVisitActions({
+  id,
+  description,
+  startTime,
+  durationMinutes: initialDuration,
+  editable,
+}: SeriesVisitActionsProps): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [time, setTime] = useState(startTime);
+  const [durationMinutes, setDurationMinutes] = useState(initialDuration);
+  const [scope, setScope] = useState<Scope>("this");
+  const [busy, setBusy] = useState(false);
+  const [confirmEnd, setConfirmEnd] = useState(false);
+
+  const unchanged = time === startTime && durationMinutes === initialDuration;
+
+  /**
+   * Sends an edit or end request and reports the outcome.
+   * @param method - PATCH to change the time, DELETE to end the series.
+   */
+  async function send(method: "PATCH" | "DELETE"): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/bookings/${encodeURIComponent(id)}/series`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PATCH" ? JSON.stringify({ scope, time, durationMinutes }) : undefined,
+      });
+      const data = (await res.json().catch(() => ({}))) as SeriesEditResponse;
+      if (!res.ok || !data.ok) {
+        toast(data.error ?? "Failed to update the series.", { tone: "error" });
+        return;
+      }
+      const skipped = data.skipped ?? [];
+      if (method === "DELETE") {
+        toast(`Series ended - ${data.cancelled ?? 0} visits cancelled.`, { tone: "success" });
+      } else if (skipped.length > 0) {
+        toast(`Updated - ${skipped.length} visits skipped for a clash (${skipped.join(", ")}).`, {
+          tone: "warning",
+        });
+      } else {
+        toast(scope === "this" ? "Visit moved." : "This and following visits updated.", {
+          tone: "success",
+        });
+      }
+      setConfirmEnd(false);
+      if (data.visitId && data.visitId !== id) {
+        router.push(`/admin/bookings/${data.visitId}`);
+      } else {
+        router.refresh();
+      }
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="font-medium text-admin-text">{description}</p>
+      {editable ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="mb-1 block text-xs text-admin-muted">Start</span>
+              <input
+                type="time"
+                value={time}
+                step={900}
+                onChange={(e) => setTime(e.target.value)}
+                className={ADMIN_INPUT_CLS}
+              />
+            </label>
+            <label className="block">
+              <span className="mb-1 block text-xs text-admin-muted">Length</span>
+              <select
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                className={ADMIN_INPUT_CLS}
+              >
+                <option value={60}>1 hour</option>
+                <option value={120}>2 hours</option>
+              </select>
+            </label>
+          </div>
+          <div className="flex gap-2" role="radiogroup" aria-label="Apply to">
+            {(
+              [
+                ["this", "This visit"],
+                ["following", "This and following"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={scope === value}
+                onClick={() => setScope(value)}
+                className={cn(
+                  "flex-1 rounded-lg border px-2 py-1.5 text-xs font-medium",
+                  scope === value
+                    ? "border-russian-violet bg-russian-violet/10 text-russian-violet"
+                    : "border-admin-border text-admin-text-secondary hover:bg-admin-bg",
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col gap-2">
+            <AdminButton
+              variant="secondary"
+              busy={busy}
+              disabled={unchanged}
+              onClick={() => void send("PATCH")}
+            >
+              Change time
+            </AdminButton>
+            <AdminButton variant="danger" onClick={() => setConfirmEnd(true)} disabled={busy}>
+              End series from here
+            </AdminButton>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-admin-muted">Past and cancelled visits can&apos;t be changed.</p>
+      )}
+
+      <ConfirmDialog
+        open={confirmEnd}
+        title="End the series from this visit?"
+        body="This visit and every later one are cancelled (no fee), and no more visits are booked."
+        confirmLabel="End series"
+        tone="danger"
+        busy={busy}
+        onConfirm={() => void send("DELETE")}
+        onCancel={() => !busy && setConfirmEnd(false)}
+      />
+    </div>
+  );
+}
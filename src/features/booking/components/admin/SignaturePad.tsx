@@ -0,0 +1,158 @@
+"use client";
+// src/features/booking/components/admin/SignaturePad.tsx
+/**
+ * @description Touch signature pad for the job-authorisation page. Pointer
+ * events cover finger, stylus and mouse alike; ink goes onto a transparent
+ * canvas (the server reads "no opaque pixel" as unsigned) sized to the device
+ * pixel ratio so strokes stay sharp on a tablet. Reports a PNG data URL after
+ * each stroke, or null once cleared.
+ */
+
+import { cn } from "@/shared/lib/cn";
+import type React from "react";
+import { useCallback, useEffect, useRef } from "react";
+
+/** Ink colour - russian-violet, as on the PDF. */
+const INK = "#0c0a3e";
+
+/** Props for {@link SignaturePad}. */
+interface SignaturePadProps {
+  /** Called with the PNG data URL after each stroke, or null when cleared. */
+  onChange: (dataUrl: string | null) => void;
+  /** Disables drawing (while the form submits). */
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Signature pad with a Clear button.
+ * @param props - Component props.
+ * @param props.onChange - Receives the PNG data URL after each stroke, or null when cleared.
+ * @param props.disabled - Disables drawing when true.
+ * @param props.className - Extra classes for the wrapper.
+ * @returns Signature pad element.
+ */
+export function SignaturePad({
+  onChange,
+  disabled = false,
+  className,
+}: SignaturePadProps): React.ReactElement {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawing = useRef(false);
+  const last = useRef<{ x: number; y: number } | null>(null);
+
+  // Match the backing store to the rendered size x DPR once mounted; a resize
+  // would blank the canvas, so it is only done while it is still empty.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = Math.round(rect.width * ratio);
+    canvas.height = Math.round(rect.height * ratio);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = INK;
+  }, []);
+
+  /**
+   * Pointer position in CSS pixels relative to the canvas.
+   * @param e - Pointer event.
+   * @returns Canvas-relative point.
+   */
+  function point(e: React.PointerEvent<HTMLCanvasElement>): { x: number; y: number } {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  /**
+   * Starts a stroke, with a dot so a single tap still leaves ink.
+   * @param e - Pointer event.
+   */
+  function handleDown(e: React.PointerEvent<HTMLCanvasElement>): void {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const p = point(e);
+    last.current = p;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    ctx.fillStyle = INK;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 1.2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  /**
+   * Extends the stroke to the pointer.
+   * @param e - Pointer event.
+   */
+  function handleMove(e: React.PointerEvent<HTMLCanvasElement>): void {
+    if (!drawing.current || !last.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const p = point(e);
+    ctx.beginPath();
+    ctx.moveTo(last.current.x, last.current.y);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    last.current = p;
+  }
+
+  /**
+   * Ends the stroke and reports the signature so far.
+   * @param e - Pointer event.
+   */
+  function handleUp(e: React.PointerEvent<HTMLCanvasElement>): void {
+    if (!drawing.current) return;
+    drawing.current = false;
+    last.current = null;
+    onChange(e.currentTarget.toDataURL("image/png"));
+  }
+
+  const clear = useCallback((): void => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    onChange(null);
+  }, [onChange]);
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <canvas
+        ref={canvasRef}
+        aria-label="Signature pad - sign with your finger"
+        role="img"
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerCancel={handleUp}
+        className={cn(
+          "h-44 w-full rounded-lg border-2 border-dashed border-admin-border-strong bg-white",
+          // No scrolling or zooming while signing on a touch screen.
+          "touch-none",
+          disabled && "opacity-60",
+        )}
+      />
+      <div className="flex items-center justify-between text-xs text-admin-muted">
+        <span>Sign above with your finger or a stylus.</span>
+        <button
+          type="button"
+          onClick={clear}
+          disabled={disabled}
+          className="font-semibold text-russian-violet hover:underline disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
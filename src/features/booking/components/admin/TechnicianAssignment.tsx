@@ -0,0 +1,99 @@
+"use client";
+// src/features/booking/components/admin/TechnicianAssignment.tsx
+/**
+ * @description Technician picker on the booking detail page. Saving reassigns
+ * the booking straight away; the server refuses a technician who already has a
+ * booking at the same start time.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { ADMIN_CONTROL_CLS } from "@/features/admin/components/ui/field-classes";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { apiFetch } from "@/shared/lib/api-client";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+/** Props for {@link TechnicianAssignment}. */
+interface TechnicianAssignmentProps {
+  /** Booking id. */
+  id: string;
+  /** The booking's current technician, if any. */
+  technicianId: string | null;
+  /** Technicians that can be chosen. */
+  technicians: Array<{ id: string; name: string; color: string }>;
+  /** Whether the booking can still be reassigned (held or confirmed). */
+  editable: boolean;
+}
+
+/**
+ * Technician picker for one booking.
+ * @param props - Component props.
+ * @param props.id - Booking id.
+ * @param props.technicianId - The booking's current technician.
+ * @param props.technicians - Technicians that can be chosen.
+ * @param props.editable - Whether the booking can still be reassigned.
+ * @returns The picker.
+ */
+export function TechnicianAssignment({
+  id,
+  technicianId,
+  technicians,
+  editable,
+}: TechnicianAssignmentProps): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState(technicianId ?? "");
+  const [busy, setBusy] = useState(false);
+
+  const current = technicians.find((t) => t.id === technicianId);
+
+  /** Saves the chosen technician. */
+  async function save(): Promise<void> {
+    setBusy(true);
+    const res = await apiFetch(`/api/admin/bookings/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      json: { technicianId: selected || null },
+    });
+    setBusy(false);
+    if (!res.ok) {
+      toast(res.error, { tone: "error" });
+      return;
+    }
+    toast(selected ? "Technician assigned." : "Technician removed.", { tone: "success" });
+    router.refresh();
+  }
+
+  if (!editable) {
+    return (
+      <p className="text-sm text-admin-text">{current?.name ?? technicianId ?? "Unassigned"}</p>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+        aria-label="Technician"
+        className={`${ADMIN_CONTROL_CLS} min-w-0 flex-1`}
+      >
+        <option value="">Unassigned</option>
+        {technicians.map((t) => (
+          <option key={t.id} value={t.id}>
+            {t.name}
+          </option>
+        ))}
+      </select>
+      <AdminButton
+        size="sm"
+        variant="secondary"
+        busy={busy}
+        disabled={selected === (technicianId ?? "")}
+        onClick={() => void save()}
+      >
+        Save
+      </AdminButton>
+    </div>
+  );
+}
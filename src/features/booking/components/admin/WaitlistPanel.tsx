@@ -0,0 +1,157 @@
+"use client";
+// src/features/booking/components/admin/WaitlistPanel.tsx
+/**
+ * @description Upcoming waitlist on the admin bookings page, grouped by day in
+ * queue order. Each entry shows the customer's preferences and whether a freed
+ * slot is currently held for them; "Remove" takes someone off the list (behind a
+ * {@link ConfirmDialog}). Offers themselves are made automatically when a
+ * cancellation or lapsed hold frees a slot.
+ */
+
+import { ConfirmDialog } from "@/features/admin/components/ui/ConfirmDialog";
+import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { formatDateShort, formatDateTimeShort } from "@/shared/lib/date-format";
+import Link from "next/link";
+import type React from "react";
+import { useMemo, useState } from "react";
+
+export interface AdminWaitlistRow {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  /** NZ day wanted (YYYY-MM-DD). */
+  dateKey: string;
+  timeOfDay: "any" | "morning" | "afternoon";
+  meetingType: "in_person" | "remote";
+  duration: "short" | "long";
+  status: "waiting" | "offered";
+  /** Held booking behind a live offer, for the link to its detail page. */
+  offeredBookingId: string | null;
+  createdAt: string;
+}
+
+const TIME_LABEL: Record<AdminWaitlistRow["timeOfDay"], string> = {
+  any: "Any time",
+  morning: "Morning",
+  afternoon: "Afternoon",
+};
+
+/**
+ * Waitlist grouped by day, with a remove action per entry.
+ * @param props - Component props.
+ * @param props.entries - Waiting and offered entries for today onwards, queue order.
+ * @returns The waitlist panel element.
+ */
+export function WaitlistPanel({
+  entries: initial,
+}: {
+  entries: AdminWaitlistRow[];
+}): React.ReactElement {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AdminWaitlistRow[]>(initial);
+  const [removing, setRemoving] = useState<AdminWaitlistRow | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const byDay = useMemo(() => {
+    const groups = new Map<string, AdminWaitlistRow[]>();
+    for (const e of entries) {
+      const list = groups.get(e.dateKey) ?? [];
+      list.push(e);
+      groups.set(e.dateKey, list);
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [entries]);
+
+  /** Removes the entry awaiting confirmation. */
+  async function confirmRemove(): Promise<void> {
+    if (!removing) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/waitlist/${encodeURIComponent(removing.id)}`, {
+        method: "DELETE",
+      });
+      const data = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (!res.ok || !data.ok) {
+        toast(data.error ?? "Failed to remove from the waitlist.", { tone: "error" });
+        return;
+      }
+      const removedId = removing.id;
+      setEntries((prev) => prev.filter((e) => e.id !== removedId));
+      toast(`${removing.name} removed from the waitlist.`, { tone: "success" });
+      setRemoving(null);
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500">Nobody is waiting on a full day.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {byDay.map(([dateKey, dayEntries]) => (
+        <div key={dateKey}>
+          <h3 className="mb-2 text-xs font-bold tracking-wide text-russian-violet uppercase">
+            {formatDateShort(`${dateKey}T12:00:00Z`)}{" "}
+            <span className="font-medium text-slate-400">· {dayEntries.length} in line</span>
+          </h3>
+          <ol className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+            {dayEntries.map((e, i) => (
+              <li key={e.id} className="flex flex-wrap items-center gap-3 px-3 py-2 text-sm">
+                <span className="w-5 shrink-0 text-xs font-semibold text-slate-400">{i + 1}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-semibold text-slate-800">{e.name}</p>
+                  <p className="truncate text-xs text-slate-500">
+                    {e.email}
+                    {e.phone && ` · ${e.phone}`}
+                  </p>
+                </div>
+                <span className="text-xs text-slate-600">
+                  {TIME_LABEL[e.timeOfDay]} · {e.duration === "short" ? "Standard" : "Extended"} ·{" "}
+                  {e.meetingType === "remote" ? "Remote" : "In-person"}
+                </span>
+                <span className="text-xs text-slate-400">
+                  Joined {formatDateTimeShort(e.createdAt)}
+                </span>
+                {e.status === "offered" && e.offeredBookingId ? (
+                  <Link href={`/admin/bookings/${e.offeredBookingId}`}>
+                    <StatusPill tone="warning">Slot held</StatusPill>
+                  </Link>
+                ) : (
+                  <StatusPill tone="neutral">Waiting</StatusPill>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setRemoving(e)}
+                  className="text-xs font-medium text-slate-500 underline hover:text-coquelicot-500"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+
+      <ConfirmDialog
+        open={removing !== null}
+        title="Remove from the waitlist?"
+        body={
+          removing?.status === "offered"
+            ? "They won't be offered any more slots. The slot already held for them stays held until it lapses or you cancel that booking."
+            : "They won't be offered a slot if one frees up on this day."
+        }
+        confirmLabel="Remove"
+        tone="danger"
+        busy={busy}
+        onConfirm={() => void confirmRemove()}
+        onCancel={() => !busy && setRemoving(null)}
+      />
+    </div>
+  );
+}
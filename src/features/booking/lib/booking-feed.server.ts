@@ -0,0 +1,224 @@
+// src/features/booking/lib/booking-feed.server.ts
+/**
+ * @description Private subscribable calendar of upcoming confirmed bookings, for
+ * someone who needs the operator's jobs in their own calendar app (a second
+ * technician, family) without Google access. One secret token, kept in the
+ * Setting table, gates the feed URL; rotating it revokes every existing
+ * subscription at once, and revoking turns the feed off. Each booking carries
+ * its contact details, quoted range and the customer's notes, and its travel
+ * legs appear as separate events.
+ */
+
+import {
+  calendarSequence,
+  combineUnitAndAddress,
+  parseBookingNotes,
+} from "@/features/booking/lib/booking";
+import { buildIcsFeed, type IcsEvent } from "@/features/booking/lib/ics";
+import { formatQuotedRange } from "@/features/business/lib/estimate-range";
+import { getBookingCalendarId } from "@/features/calendar/lib/google-calendar";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import { randomBytes, timingSafeEqual } from "crypto";
+
+/** Setting-table key holding the current token. */
+const FEED_TOKEN_KEY = "booking-feed-token";
+
+/** Poll interval suggested to subscribing apps. */
+const FEED_REFRESH_MINUTES = 60;
+
+/** The live feed token and when it was issued. */
+export interface BookingFeedToken {
+  token: string;
+  createdAt: Date;
+}
+
+/**
+ * Reads the current feed token.
+ * @returns The token, or null when the feed is off.
+ */
+export async function getBookingFeedToken(): Promise<BookingFeedToken | null> {
+  const row = await prisma.setting.findUnique({ where: { key: FEED_TOKEN_KEY } });
+  if (!row) return null;
+  try {
+    const parsed = JSON.parse(row.value) as { token: string; createdAtISO: string };
+    return { token: parsed.token, createdAt: new Date(parsed.createdAtISO) };
+  } catch (err) {
+    console.error("[booking-feed] failed to parse stored token:", err);
+    return null;
+  }
+}
+
+/**
+ * Issues a fresh token, replacing (and so revoking) any previous one.
+ * @returns The new token.
+ */
+export async function rotateBookingFeedToken(): Promise<BookingFeedToken> {
+  const next = { token: randomBytes(24).toString("base64url"), createdAt: new Date() };
+  const value = JSON.stringify({ token: next.token, createdAtISO: next.createdAt.toISOString() });
+  await prisma.setting.upsert({
+    where: { key: FEED_TOKEN_KEY },
+    update: { value },
+    create: { key: FEED_TOKEN_KEY, value },
+  });
+  return next;
+}
+
+/** Turns the feed off: every subscription stops updating on its next poll. */
+export async function revokeBookingFeedToken(): Promise<void> {
+  await prisma.setting.deleteMany({ where: { key: FEED_TOKEN_KEY } });
+}
+
+/**
+ * Constant-time check of a presented token against the live one.
+ * @param candidate - Token from the request.
+ * @returns True when the feed is on and the token matches.
+ */
+export async function isValidBookingFeedToken(candidate: string): Promise<boolean> {
+  const current = await getBookingFeedToken();
+  if (!current || !candidate) return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(current.token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * The subscription URL for a token. Calendar apps want the webcal:// form to
+ * offer "subscribe" rather than a one-off import.
+ * @param token - Feed token.
+ * @returns Both forms of the URL.
+ */
+export function bookingFeedUrls(token: string): { https: string; webcal: string } {
+  const https = `${getSiteUrl()}/api/booking/feed?token=${encodeURIComponent(token)}`;
+  return { https, webcal: https.replace(/^https?:\/\//, "webcal://") };
+}
+
+/**
+ * Builds the feed: every confirmed booking that hasn't ended, plus the travel
+ * legs around it. Travel legs are anchored to the booking's own times, as the
+ * schedule does, so a moved booking never strands its travel mid-job.
+ * @param now - Current time.
+ * @returns The `.ics` document.
+ */
+export async function buildBookingFeed(now: Date): Promise<string> {
+  const [bookings, identity, settings] = await Promise.all([
+    prisma.booking.findMany({
+      where: { status: "confirmed", endAt: { gte: now } },
+      orderBy: { startAt: "asc" },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        phone: true,
+        startAt: true,
+        endAt: true,
+        address: true,
+        unit: true,
+        meetingType: true,
+        notes: true,
+        rescheduleCount: true,
+        operatorMoveCount: true,
+        calendarEventId: true,
+        quotedLowAtBooking: true,
+        quotedHighAtBooking: true,
+        quotedTravelAtBooking: true,
+        technicianId: true,
+      },
+    }),
+    getIdentity(),
+    getSettings(),
+  ]);
+  const technicianNames = new Map(settings.availability.technicians.map((t) => [t.id, t.name]));
+
+  const eventIds = bookings.flatMap((b) => (b.calendarEventId ? [b.calendarEventId] : []));
+  const travelBlocks = eventIds.length
+    ? await prisma.travelBlock.findMany({
+        where: {
+          sourceEventId: { in: eventIds },
+          calendarEmail: getBookingCalendarId(),
+          ignored: false,
+        },
+        select: {
+          sourceEventId: true,
+          roundedMinutes: true,
+          roundedBackMinutes: true,
+          travelBackSuppressed: true,
+          detectedOrigin: true,
+          customOrigin: true,
+          customTravelBackDestination: true,
+        },
+      })
+    : [];
+  const travelByEventId = new Map(travelBlocks.map((t) => [t.sourceEventId, t]));
+
+  const site = getSiteUrl();
+  const events: IcsEvent[] = [];
+  for (const b of bookings) {
+    const parsed = parseBookingNotes(b.notes);
+    const isRemote = b.meetingType === "remote";
+    const where = combineUnitAndAddress(b.unit ?? "", b.address ?? parsed.address);
+    const phone = b.phone ?? parsed.phone;
+    const quoted =
+      b.quotedLowAtBooking != null && b.quotedHighAtBooking != null
+        ? formatQuotedRange(b.quotedLowAtBooking, b.quotedHighAtBooking, b.quotedTravelAtBooking)
+        : null;
+
+    const description = [
+      `Customer: ${b.name}`,
+      b.technicianId && `Technician: ${technicianNames.get(b.technicianId) ?? b.technicianId}`,
+      phone && `Phone: ${phone}`,
+      `Email: ${b.email}`,
+      isRemote ? "Remote session" : where && `Address: ${where}`,
+      quoted && `Quoted: ${quoted}`,
+      parsed.userNotes && `\nNotes:\n${parsed.userNotes}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const sequence = calendarSequence(b);
+    events.push({
+      // Same UID as the customer's own .ics, so the event is the same booking
+      // for anyone holding both.
+      uid: `booking-${b.id}@tothepointtech.co.nz`,
+      start: b.startAt,
+      end: b.endAt,
+      summary: isRemote ? `${b.name} (remote)` : b.name,
+      description,
+      location: isRemote || !where ? undefined : where,
+      url: `${site}/admin/bookings/${b.id}`,
+      sequence,
+    });
+
+    const travel = b.calendarEventId ? travelByEventId.get(b.calendarEventId) : undefined;
+    if (!travel || isRemote) continue;
+    if (travel.roundedMinutes != null) {
+      const origin = travel.customOrigin ?? travel.detectedOrigin;
+      events.push({
+        uid: `travel-before-${b.id}@tothepointtech.co.nz`,
+        start: new Date(b.startAt.getTime() - travel.roundedMinutes * 60_000),
+        end: b.startAt,
+        summary: `Travel to ${b.name}`,
+        description: origin ? `From ${origin}` : undefined,
+        sequence,
+      });
+    }
+    if (travel.roundedBackMinutes != null && !travel.travelBackSuppressed) {
+      const destination = travel.customTravelBackDestination ?? "home";
+      events.push({
+        uid: `travel-after-${b.id}@tothepointtech.co.nz`,
+        start: b.endAt,
+        end: new Date(b.endAt.getTime() + travel.roundedBackMinutes * 60_000),
+        summary: `Travel back to ${destination}`,
+        sequence,
+      });
+    }
+  }
+
+  return buildIcsFeed(events, {
+    name: `${identity.company} bookings`,
+    refreshMinutes: FEED_REFRESH_MINUTES,
+    stamp: now,
+  });
+}
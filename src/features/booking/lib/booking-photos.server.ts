@@ -0,0 +1,114 @@
+// src/features/booking/lib/booking-photos.server.ts
+/**
+ * @description Server side of booking photo attachments. Every upload is
+ * decoded and re-encoded to a fresh JPEG with sharp: the decoded format is
+ * sniffed rather than trusting the MIME type, EXIF (GPS, camera serials) is
+ * dropped, and nothing from the original file survives byte-for-byte, so a
+ * polyglot or payload-carrying "image" can't reach storage. Bytes go through
+ * the storage adapter; the booking row keeps only the metadata.
+ */
+
+import { BOOKING_PHOTO_LIMITS, bookingPhotosError } from "@/features/booking/lib/booking-photos";
+import { getStorage } from "@/shared/lib/storage/storage";
+import type { BookingPhoto } from "@prisma/client";
+import { randomUUID } from "crypto";
+import "server-only";
+import sharp from "sharp";
+
+/** A photo decoded and re-encoded, ready to store. */
+export interface ProcessedBookingPhoto {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/** Formats sharp must decode an upload as; anything else is rejected. */
+const DECODED_FORMATS = new Set(["jpeg", "png", "webp"]);
+
+/** Decompression-bomb guard: refuse inputs over this many pixels. */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+/**
+ * Validates and re-encodes the photos from a booking request.
+ * @param files - Files from the multipart body.
+ * @returns The re-encoded photos, or a user-facing error.
+ */
+export async function processBookingPhotos(
+  files: File[],
+): Promise<ProcessedBookingPhoto[] | string> {
+  const limitError = bookingPhotosError(files);
+  if (limitError) return limitError;
+
+  const out: ProcessedBookingPhoto[] = [];
+  for (const file of files) {
+    try {
+      const input = Buffer.from(await file.arrayBuffer());
+      const image = sharp(input, { failOn: "error", limitInputPixels: MAX_INPUT_PIXELS });
+      const { format } = await image.metadata();
+      if (!format || !DECODED_FORMATS.has(format)) {
+        return "Photos must be JPEG, PNG or WebP images.";
+      }
+      // rotate() bakes the EXIF orientation into the pixels before the
+      // metadata is dropped (sharp writes none unless asked).
+      const { data, info } = await image
+        .rotate()
+        .resize({
+          width: BOOKING_PHOTO_LIMITS.maxEdgePx,
+          height: BOOKING_PHOTO_LIMITS.maxEdgePx,
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .jpeg({ quality: 82, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true });
+      out.push({ data, width: info.width, height: info.height });
+    } catch (err) {
+      console.warn("[booking-photos] Could not decode upload:", err);
+      return "One of the photos couldn't be read. Please try a different image.";
+    }
+  }
+  return out;
+}
+
+/**
+ * Writes processed photos to storage under the booking.
+ * @param bookingId - Owning booking.
+ * @param photos - Output of {@link processBookingPhotos}.
+ * @returns The rows to store on `Booking.photos`.
+ */
+export async function storeBookingPhotos(
+  bookingId: string,
+  photos: ProcessedBookingPhoto[],
+): Promise<BookingPhoto[]> {
+  const storage = getStorage();
+  const rows: BookingPhoto[] = [];
+  for (const photo of photos) {
+    const id = randomUUID();
+    const key = `bookings/${bookingId}/${id}.jpg`;
+    await storage.put(key, photo.data);
+    rows.push({
+      id,
+      key,
+      width: photo.width,
+      height: photo.height,
+      sizeBytes: photo.data.length,
+      createdAt: new Date(),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Removes a booking's photos from storage. Best effort: a failed delete is
+ * logged, never thrown, so it can't block deleting the booking itself.
+ * @param photos - The booking's photo rows.
+ */
+export async function deleteBookingPhotos(photos: Pick<BookingPhoto, "key">[]): Promise<void> {
+  const storage = getStorage();
+  await Promise.all(
+    photos.map((p) =>
+      storage
+        .delete(p.key)
+        .catch((err) => console.error(`[booking-photos] Failed to delete ${p.key}:`, err)),
+    ),
+  );
+}
@@ -0,0 +1,39 @@
+// src/features/booking/lib/booking-photos.ts
+/**
+ * @description Limits for the photos a customer can attach to a booking
+ * request. Shared by the booking form (instant feedback) and the request
+ * route (authoritative check), so the two can never disagree.
+ */
+
+/** How many photos, how large, and what the server re-encodes them to. */
+export const BOOKING_PHOTO_LIMITS = {
+  maxCount: 3,
+  maxBytes: 5 * 1024 * 1024,
+  /** Longest edge after re-encoding, in pixels. */
+  maxEdgePx: 2000,
+} as const;
+
+/** MIME types the form accepts; the server also sniffs the decoded format. */
+export const BOOKING_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+/**
+ * Validates a set of attached photos against {@link BOOKING_PHOTO_LIMITS}.
+ * @param files - The attached files (browser `File`s or anything with a type and size).
+ * @returns A user-facing error, or null when every photo is acceptable.
+ */
+export function bookingPhotosError(
+  files: ReadonlyArray<{ type: string; size: number }>,
+): string | null {
+  if (files.length > BOOKING_PHOTO_LIMITS.maxCount) {
+    return `Please attach at most ${BOOKING_PHOTO_LIMITS.maxCount} photos.`;
+  }
+  for (const file of files) {
+    if (!(BOOKING_PHOTO_TYPES as readonly string[]).includes(file.type)) {
+      return "Photos must be JPEG, PNG or WebP images.";
+    }
+    if (file.size > BOOKING_PHOTO_LIMITS.maxBytes) {
+      return `Each photo must be ${BOOKING_PHOTO_LIMITS.maxBytes / (1024 * 1024)} MB or smaller.`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,545 @@
+// src/features/booking/lib/booking-series.server.ts
+/**
+ * @description Recurring booking series. A series is materialised as ordinary
+ * confirmed Booking rows (each with its own calendar event) up to the booking
+ * horizon ahead - the same horizon the calendar cache covers, so every visit is
+ * checked against cached calendar events, travel padding and other bookings
+ * before it is created. A date that clashes is skipped and recorded on the
+ * series rather than double-booked. Edits work on the materialised rows: "this"
+ * moves one visit, "this and following" ends the series before the visit and
+ * starts a new one from it.
+ */
+
+import { BOOKING_CONFIG, buildAppointmentDescription } from "@/features/booking/lib/booking";
+import { occurrenceDateKeys, seriesStartAt } from "@/features/booking/lib/booking-series";
+import { settleDayClearancesForBooking } from "@/features/booking/lib/day-clearance.server";
+import { loadClearingDayBlockers } from "@/features/booking/lib/existing-bookings.server";
+import { createBookingEvent, deleteBookingEvent } from "@/features/calendar/lib/google-calendar";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import { addDaysToDateKey, nzDateKey } from "@/shared/lib/timezone-utils";
+import { Prisma, type Booking, type BookingSeries } from "@prisma/client";
+import { randomUUID } from "crypto";
+
+/** Outcome of materialising one series. */
+export interface MaterialiseResult {
+  created: number;
+  /** Visit dates passed over because the time was already taken. */
+  skipped: string[];
+}
+
+/** Outcome of a series edit; errors are meant for the operator. */
+export type SeriesEditResult =
+  | {
+      ok: true;
+      created: number;
+      skipped: string[];
+      cancelled: number;
+      /** The visit now standing in for the edited one, if there is one. */
+      visitId: string | null;
+    }
+  | { ok: false; error: string };
+
+/** Something already occupying time, as epoch ms. */
+interface BusyInterval {
+  start: number;
+  end: number;
+  label: string;
+}
+
+/**
+ * Everything that can clash with a visit between two instants: held and
+ * confirmed bookings (with their buffers), days being cleared, cached calendar
+ * events, and travel padding around calendar events.
+ * @param from - Window start.
+ * @param to - Window end.
+ * @param excludeBookingId - Booking being moved, so it doesn't clash with itself.
+ * @returns Busy intervals in no particular order.
+ */
+async function loadBusyIntervals(
+  from: Date,
+  to: Date,
+  excludeBookingId?: string,
+): Promise<BusyInterval[]> {
+  const [bookings, clearing, cached, travelBlocks, excluded] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        ...(excludeBookingId ? { id: { not: excludeBookingId } } : {}),
+        status: { in: ["held", "confirmed"] },
+        startAt: { lt: to },
+        endAt: { gt: from },
+      },
+      select: {
+        name: true,
+        startAt: true,
+        endAt: true,
+        bufferBeforeMin: true,
+        bufferAfterMin: true,
+      },
+    }),
+    loadClearingDayBlockers(from),
+    prisma.calendarEventCache.findMany({
+      where: { startAt: { lt: to }, endAt: { gt: from } },
+      select: { eventId: true, startAt: true, endAt: true },
+    }),
+    prisma.travelBlock.findMany({
+      where: { ignored: false, eventStartAt: { lt: to }, eventEndAt: { gt: from } },
+      select: {
+        summary: true,
+        eventStartAt: true,
+        eventEndAt: true,
+        roundedMinutes: true,
+        roundedBackMinutes: true,
+        beforeEventId: true,
+        afterEventId: true,
+        travelBackSuppressed: true,
+      },
+    }),
+    excludeBookingId
+      ? prisma.booking.findUnique({
+          where: { id: excludeBookingId },
+          select: { calendarEventId: true },
+        })
+      : Promise.resolve(null),
+  ]);
+
+  const busy: BusyInterval[] = bookings.map((b) => ({
+    start: b.startAt.getTime() - b.bufferBeforeMin * 60_000,
+    end: b.endAt.getTime() + b.bufferAfterMin * 60_000,
+    label: `a booking with ${b.name}`,
+  }));
+  for (const c of clearing) {
+    busy.push({
+      start: c.startAt.getTime(),
+      end: c.endAt.getTime(),
+      label: "a day being cleared",
+    });
+  }
+  // The moved booking's own calendar event is still cached at its old time.
+  const excludedEventId = excluded?.calendarEventId ?? null;
+  for (const e of cached) {
+    if (e.eventId === excludedEventId) continue;
+    busy.push({ start: e.startAt.getTime(), end: e.endAt.getTime(), label: "a calendar event" });
+  }
+  // Same leg guards as the slot suggester: a leg only blocks when its rounded
+  // minutes are set, and the return leg not at all when it is suppressed.
+  for (const b of travelBlocks) {
+    const what = b.summary ? `travel for "${b.summary}"` : "travel time";
+    if (b.beforeEventId && b.roundedMinutes != null && b.roundedMinutes > 0) {
+      busy.push({
+        start: b.eventStartAt.getTime() - b.roundedMinutes * 60_000,
+        end: b.eventStartAt.getTime(),
+        label: what,
+      });
+    }
+    if (
+      b.afterEventId &&
+      !b.travelBackSuppressed &&
+      b.roundedBackMinutes != null &&
+      b.roundedBackMinutes > 0
+    ) {
+      busy.push({
+        start: b.eventEndAt.getTime(),
+        end: b.eventEndAt.getTime() + b.roundedBackMinutes * 60_000,
+        label: what,
+      });
+    }
+  }
+  return busy;
+}
+
+/**
+ * First busy interval overlapping a visit.
+ * @param busy - Busy intervals.
+ * @param startAt - Visit start.
+ * @param endAt - Visit end.
+ * @returns The clashing interval's label, or null when the time is free.
+ */
+function findClash(busy: BusyInterval[], startAt: Date, endAt: Date): string | null {
+  const s = startAt.getTime();
+  const e = endAt.getTime();
+  return busy.find((b) => b.start < e && b.end > s)?.label ?? null;
+}
+
+/**
+ * Creates one visit: calendar event first, then the booking row. The slot key
+ * is unique, so a visit racing another booking onto the same start loses with
+ * P2002 and its calendar event is removed again. A calendar failure throws, so
+ * the caller can stop and retry the remaining dates later.
+ * @param series - Series the visit belongs to.
+ * @param startAt - Visit start.
+ * @param endAt - Visit end.
+ * @param bufferAfterMin - Buffer after the visit, from the availability settings.
+ * @returns "created", or "taken" when the slot race was lost.
+ */
+async function createVisit(
+  series: BookingSeries,
+  startAt: Date,
+  endAt: Date,
+  bufferAfterMin: number,
+): Promise<"created" | "taken"> {
+  const cancelToken = randomUUID();
+  const identity = await getIdentity();
+  const siteUrl = getSiteUrl();
+  const description = buildAppointmentDescription({
+    company: identity.company,
+    phone: identity.phone,
+    email: identity.email,
+    isRemote: !series.address,
+    userNotes: series.notes,
+    manageUrl: `${siteUrl}/booking/edit?token=${encodeURIComponent(cancelToken)}`,
+    cancelUrl: `${siteUrl}/booking/cancel?token=${encodeURIComponent(cancelToken)}`,
+  });
+
+  const hours = series.durationMinutes / 60;
+  const { eventId } = await createBookingEvent({
+    summary: `Tech Support: ${series.name} - ${hours === 1 ? "1 hour" : `${hours} hours`}`,
+    description,
+    startAt,
+    endAt,
+    timeZone: BOOKING_CONFIG.timeZone,
+    attendeeEmail: series.email,
+    attendeeName: series.name,
+    location: series.address ?? undefined,
+  });
+
+  // Same notes layout as a manual admin booking, so parseBookingNotes reads it.
+  let notes = series.notes ? `${series.notes}\n\n` : "";
+  notes += `[Recurring visit - ${series.durationMinutes} min]\n`;
+  notes += `Meeting type: ${series.address ? "In-person" : "Remote"}\n`;
+  if (series.address) notes += `Address: ${series.address}\n`;
+
+  try {
+    await prisma.booking.create({
+      data: {
+        name: series.name,
+        email: series.email,
+        phone: series.phone,
+        address: series.address,
+        meetingType: series.address ? "in_person" : "remote",
+        notes,
+        startAt,
+        endAt,
+        status: "confirmed",
+        cancelToken,
+        calendarEventId: eventId,
+        activeSlotKey: startAt.toISOString(),
+        bufferBeforeMin: 0,
+        bufferAfterMin,
+        seriesId: series.id,
+      },
+    });
+    return "created";
+  } catch (err) {
+    await deleteBookingEvent({ eventId }).catch((cleanupErr) =>
+      console.error("[booking-series] Failed to clean up orphan calendar event:", cleanupErr),
+    );
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return "taken";
+    }
+    throw err;
+  }
+}
+
+/**
+ * Creates the series' visits from where the last run stopped up to the booking
+ * horizon. The range is claimed first (guarded on the previous high-water mark),
+ * so the cron and an admin edit running together can't both create the same
+ * visits. A calendar failure stops the run and hands the unprocessed dates back
+ * for the next one.
+ * @param seriesId - Series to materialise.
+ * @param now - Current instant; visits that would already have started are skipped.
+ * @returns Visits created and dates skipped for a clash.
+ */
+export async function materialiseSeries(
+  seriesId: string,
+  now: Date = new Date(),
+): Promise<MaterialiseResult> {
+  const result: MaterialiseResult = { created: 0, skipped: [] };
+  const series = await prisma.bookingSeries.findUnique({ where: { id: seriesId } });
+  if (!series) return result;
+
+  const { availability } = await getSettings();
+  const horizonKey = addDaysToDateKey(nzDateKey(now), availability.maxAdvanceDays);
+  if (series.materialisedThrough && series.materialisedThrough >= horizonKey) return result;
+
+  const fromKey = series.materialisedThrough
+    ? addDaysToDateKey(series.materialisedThrough, 1)
+    : series.anchorDateKey;
+  const claim = await prisma.bookingSeries.updateMany({
+    where: { id: series.id, materialisedThrough: series.materialisedThrough },
+    data: { materialisedThrough: horizonKey },
+  });
+  if (claim.count === 0) return result;
+
+  const visits = occurrenceDateKeys(series, fromKey, horizonKey)
+    .map((dateKey) => {
+      const startAt = seriesStartAt(dateKey, series.startMinute);
+      return {
+        dateKey,
+        startAt,
+        endAt: new Date(startAt.getTime() + series.durationMinutes * 60_000),
+      };
+    })
+    .filter((v) => v.startAt > now);
+  if (visits.length === 0) return result;
+
+  const busy = await loadBusyIntervals(visits[0].startAt, visits[visits.length - 1].endAt);
+  for (const visit of visits) {
+    if (findClash(busy, visit.startAt, visit.endAt)) {
+      result.skipped.push(visit.dateKey);
+      continue;
+    }
+    try {
+      const outcome = await createVisit(
+        series,
+        visit.startAt,
+        visit.endAt,
+        availability.bookingBufferAfterMin,
+      );
+      if (outcome === "taken") {
+        result.skipped.push(visit.dateKey);
+        continue;
+      }
+      result.created++;
+      busy.push({
+        start: visit.startAt.getTime(),
+        end: visit.endAt.getTime() + availability.bookingBufferAfterMin * 60_000,
+        label: `a booking with ${series.name}`,
+      });
+    } catch (err) {
+      console.error(`[booking-series] Calendar event failed for ${series.id}:`, err);
+      await prisma.bookingSeries.update({
+        where: { id: series.id },
+        data: { materialisedThrough: addDaysToDateKey(visit.dateKey, -1) },
+      });
+      break;
+    }
+  }
+
+  if (result.skipped.length > 0) {
+    await prisma.bookingSeries.update({
+      where: { id: series.id },
+      data: { skippedDateKeys: { push: result.skipped } },
+    });
+  }
+  return result;
+}
+
+/**
+ * Materialises every series that still has visits to come. Sequential - each
+ * visit is a Google Calendar call, and the volume is a handful of clients.
+ * @param now - Current instant.
+ * @returns Series processed plus visits created and skipped across them.
+ */
+export async function materialiseAllSeries(
+  now: Date = new Date(),
+): Promise<{ series: number; created: number; skipped: number }> {
+  const todayKey = nzDateKey(now);
+  const open = await prisma.bookingSeries.findMany({
+    where: { OR: [{ untilDateKey: null }, { untilDateKey: { gte: todayKey } }] },
+    select: { id: true },
+  });
+  let created = 0;
+  let skipped = 0;
+  for (const { id } of open) {
+    try {
+      const result = await materialiseSeries(id, now);
+      created += result.created;
+      skipped += result.skipped.length;
+    } catch (err) {
+      console.error(`[booking-series] Materialise failed for ${id}:`, err);
+    }
+  }
+  return { series: open.length, created, skipped };
+}
+
+/**
+ * Operator-cancels the series' upcoming visits from a start instant onwards:
+ * removes their calendar events (and the cached copies, so the time reads free
+ * straight away) and frees their slots.
+ * @param seriesId - Series whose visits to cancel.
+ * @param fromStartAt - First visit start to cancel.
+ * @returns How many visits were cancelled.
+ */
+async function cancelVisitsFrom(seriesId: string, fromStartAt: Date): Promise<number> {
+  const visits = await prisma.booking.findMany({
+    where: { seriesId, startAt: { gte: fromStartAt }, status: { in: ["held", "confirmed"] } },
+    select: { id: true, calendarEventId: true },
+  });
+  let cancelled = 0;
+  for (const visit of visits) {
+    const { count } = await prisma.booking.updateMany({
+      where: { id: visit.id, status: { in: ["held", "confirmed"] } },
+      data: {
+        status: "cancelled",
+        activeSlotKey: `released:${visit.id}`,
+        cancelledAt: new Date(),
+        cancelledBy: "operator",
+      },
+    });
+    if (count === 0) continue;
+    cancelled++;
+    if (visit.calendarEventId) {
+      try {
+        await deleteBookingEvent({ eventId: visit.calendarEventId });
+      } catch (err) {
+        console.error("[booking-series] Failed to delete calendar event:", err);
+      }
+    }
+    await settleDayClearancesForBooking(visit.id);
+  }
+  const eventIds = visits.flatMap((v) => (v.calendarEventId ? [v.calendarEventId] : []));
+  if (eventIds.length > 0) {
+    await prisma.calendarEventCache.deleteMany({ where: { eventId: { in: eventIds } } });
+  }
+  return cancelled;
+}
+
+/**
+ * Loads a visit's series, or explains why the visit can't be edited as one.
+ * @param booking - The visit.
+ * @returns The series, or an error message.
+ */
+async function loadSeriesForVisit(booking: Booking): Promise<BookingSeries | string> {
+  if (!booking.seriesId) return "This booking isn't part of a recurring series.";
+  if (booking.status !== "confirmed" && booking.status !== "held") {
+    return "Only upcoming visits can be changed.";
+  }
+  const series = await prisma.bookingSeries.findUnique({ where: { id: booking.seriesId } });
+  return series ?? "The series for this booking no longer exists.";
+}
+
+/**
+ * "This and following": ends the series the day before this visit, cancels this
+ * and every later visit, and - unless the series is simply being ended - starts
+ * a new series from this visit's date with the new time and length.
+ * @param booking - The visit the change starts from.
+ * @param change - New start time and length, or null to end the series here.
+ * @param change.startMinute - Minutes after NZ midnight.
+ * @param change.durationMinutes - Visit length.
+ * @returns Visits cancelled, plus visits created and skipped by the new series.
+ */
+export async function changeFollowingVisits(
+  booking: Booking,
+  change: { startMinute: number; durationMinutes: number } | null,
+): Promise<SeriesEditResult> {
+  const series = await loadSeriesForVisit(booking);
+  if (typeof series === "string") return { ok: false, error: series };
+
+  const dateKey = nzDateKey(booking.startAt);
+  await prisma.bookingSeries.update({
+    where: { id: series.id },
+    data: { untilDateKey: addDaysToDateKey(dateKey, -1) },
+  });
+  const cancelled = await cancelVisitsFrom(series.id, booking.startAt);
+  if (!change) return { ok: true, created: 0, skipped: [], cancelled, visitId: null };
+
+  const next = await prisma.bookingSeries.create({
+    data: {
+      contactId: series.contactId,
+      name: series.name,
+      email: series.email,
+      phone: series.phone,
+      address: series.address,
+      notes: series.notes,
+      frequency: series.frequency,
+      anchorDateKey: dateKey,
+      startMinute: change.startMinute,
+      durationMinutes: change.durationMinutes,
+      untilDateKey: series.untilDateKey,
+    },
+  });
+  const { created, skipped } = await materialiseSeries(next.id);
+  const replacement = await prisma.booking.findFirst({
+    where: { seriesId: next.id, status: "confirmed" },
+    orderBy: { startAt: "asc" },
+    select: { id: true, startAt: true },
+  });
+  const visitId = replacement && nzDateKey(replacement.startAt) === dateKey ? replacement.id : null;
+  return { ok: true, created, skipped, cancelled, visitId };
+}
+
+/**
+ * "This visit only": moves one visit to a new time on the same day. The series
+ * is untouched, and because its dates are already materialised the next run
+ * won't put the visit back. The new calendar event is created before the old
+ * one is removed, so a failure never leaves the visit without one.
+ * @param booking - The visit to move.
+ * @param change - New start time and length.
+ * @param change.startMinute - Minutes after NZ midnight.
+ * @param change.durationMinutes - Visit length.
+ * @returns The edit outcome.
+ */
+export async function moveVisit(
+  booking: Booking,
+  change: { startMinute: number; durationMinutes: number },
+): Promise<SeriesEditResult> {
+  const series = await loadSeriesForVisit(booking);
+  if (typeof series === "string") return { ok: false, error: series };
+
+  const startAt = seriesStartAt(nzDateKey(booking.startAt), change.startMinute);
+  const endAt = new Date(startAt.getTime() + change.durationMinutes * 60_000);
+  if (startAt <= new Date()) {
+    return { ok: false, error: "That time has already passed." };
+  }
+  const busy = await loadBusyIntervals(startAt, endAt, booking.id);
+  const clash = findClash(busy, startAt, endAt);
+  if (clash) return { ok: false, error: `That time clashes with ${clash}.` };
+
+  const identity = await getIdentity();
+  const siteUrl = getSiteUrl();
+  const hours = change.durationMinutes / 60;
+  let calendarEventId: string;
+  try {
+    const result = await createBookingEvent({
+      summary: `Tech Support: ${booking.name} - ${hours === 1 ? "1 hour" : `${hours} hours`}`,
+      description: buildAppointmentDescription({
+        company: identity.company,
+        phone: identity.phone,
+        email: identity.email,
+        isRemote: !booking.address,
+        userNotes: series.notes,
+        manageUrl: `${siteUrl}/booking/edit?token=${encodeURIComponent(booking.cancelToken)}`,
+        cancelUrl: `${siteUrl}/booking/cancel?token=${encodeURIComponent(booking.cancelToken)}`,
+      }),
+      startAt,
+      endAt,
+      timeZone: BOOKING_CONFIG.timeZone,
+      attendeeEmail: booking.email,
+      attendeeName: booking.name,
+      location: booking.address ?? undefined,
+    });
+    calendarEventId = result.eventId;
+  } catch (err) {
+    console.error("[booking-series] Calendar event create failed:", err);
+    return { ok: false, error: "Failed to update the calendar event." };
+  }
+
+  try {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { startAt, endAt, calendarEventId, activeSlotKey: startAt.toISOString() },
+    });
+  } catch (err) {
+    await deleteBookingEvent({ eventId: calendarEventId }).catch((cleanupErr) =>
+      console.error("[booking-series] Failed to clean up orphan calendar event:", cleanupErr),
+    );
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return { ok: false, error: "That time was just taken." };
+    }
+    throw err;
+  }
+
+  if (booking.calendarEventId) {
+    try {
+      await deleteBookingEvent({ eventId: booking.calendarEventId });
+    } catch (err) {
+      console.error("[booking-series] Failed to delete old calendar event:", err);
+    }
+    await prisma.calendarEventCache.deleteMany({ where: { eventId: booking.calendarEventId } });
+  }
+  return { ok: true, created: 0, skipped: [], cancelled: 0, visitId: booking.id };
+}
@@ -0,0 +1,238 @@
+// src/features/booking/lib/booking-series.ts
+/**
+ * @description Date maths for recurring booking series: which NZ days a series
+ * lands on, the UTC instant of each visit, and the human-readable cadence.
+ * Pure so the admin UI can preview a series with the same rules the server
+ * materialises it by.
+ */
+
+import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
+
+/** Repeat cadence, mirroring the Prisma `SeriesFrequency` enum. */
+export type SeriesFrequency = "weekly" | "fortnightly" | "monthly";
+
+/** The parts of a series that decide when its visits fall. */
+export interface SeriesPattern {
+  frequency: SeriesFrequency;
+  /** First visit's NZ date (YYYY-MM-DD). */
+  anchorDateKey: string;
+  /** Last NZ date a visit may fall on (inclusive), or null when open-ended. */
+  untilDateKey: string | null;
+}
+
+export const SERIES_FREQUENCIES: ReadonlyArray<SeriesFrequency> = [
+  "weekly",
+  "fortnightly",
+  "monthly",
+];
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Splits a YYYY-MM-DD key into numbers.
+ * @param dateKey - NZ date key.
+ * @returns Tuple of [year, month (1-12), day].
+ */
+function keyParts(dateKey: string): [number, number, number] {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return [y, m, d];
+}
+
+/**
+ * Whole days since the epoch for a date key (UTC noon, so DST never matters).
+ * @param dateKey - NZ date key.
+ * @returns Day number.
+ */
+function dayNumber(dateKey: string): number {
+  const [y, m, d] = keyParts(dateKey);
+  return Math.floor(Date.UTC(y, m - 1, d, 12) / DAY_MS);
+}
+
+/**
+ * Formats year/month/day back into a key, normalising overflow.
+ * @param y - Full year.
+ * @param m - Month 1-12 (overflow wraps).
+ * @param d - Day of month (overflow wraps).
+ * @returns YYYY-MM-DD key.
+ */
+function formatKey(y: number, m: number, d: number): string {
+  return new Date(Date.UTC(y, m - 1, d, 12)).toISOString().slice(0, 10);
+}
+
+/**
+ * Day of week for a date key.
+ * @param dateKey - NZ date key.
+ * @returns 0 (Sunday) to 6 (Saturday).
+ */
+export function weekdayOf(dateKey: string): number {
+  const [y, m, d] = keyParts(dateKey);
+  return new Date(Date.UTC(y, m - 1, d, 12)).getUTCDay();
+}
+
+/**
+ * Which week of its month a date falls in (1st Tuesday, 2nd Tuesday, ...).
+ * @param dateKey - NZ date key.
+ * @returns 1-5.
+ */
+export function weekOfMonth(dateKey: string): number {
+  return Math.ceil(keyParts(dateKey)[2] / 7);
+}
+
+/**
+ * Checks an anchor date can start a series of the given frequency. Monthly
+ * series repeat on the nth weekday, and a 5th weekday doesn't exist in most
+ * months, so they have to start in the first four weeks.
+ * @param frequency - Repeat cadence.
+ * @param anchorDateKey - Proposed first visit.
+ * @returns An error message, or null when valid.
+ */
+export function validateSeriesAnchor(
+  frequency: SeriesFrequency,
+  anchorDateKey: string,
+): string | null {
+  if (frequency === "monthly" && weekOfMonth(anchorDateKey) > 4) {
+    return "Monthly visits must start in the first four weeks of a month.";
+  }
+  return null;
+}
+
+/**
+ * The nth given weekday of a month.
+ * @param year - Full year.
+ * @param month - Month 1-12 (overflow wraps).
+ * @param weekday - 0 (Sunday) to 6 (Saturday).
+ * @param nth - 1-4.
+ * @returns YYYY-MM-DD key.
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): string {
+  const first = formatKey(year, month, 1);
+  const offset = (weekday - weekdayOf(first) + 7) % 7;
+  const [y, m] = keyParts(first);
+  return formatKey(y, m, 1 + offset + (nth - 1) * 7);
+}
+
+/**
+ * Visit dates of a series between two NZ dates (both inclusive), clipped to the
+ * series' own anchor and end date.
+ * @param pattern - Series cadence and bounds.
+ * @param fromKey - First date to consider.
+ * @param toKey - Last date to consider.
+ * @returns Ascending YYYY-MM-DD keys.
+ */
+export function occurrenceDateKeys(
+  pattern: SeriesPattern,
+  fromKey: string,
+  toKey: string,
+): string[] {
+  const start = fromKey > pattern.anchorDateKey ? fromKey : pattern.anchorDateKey;
+  const end =
+    pattern.untilDateKey !== null && pattern.untilDateKey < toKey ? pattern.untilDateKey : toKey;
+  if (start > end) return [];
+
+  const keys: string[] = [];
+  if (pattern.frequency === "monthly") {
+    const weekday = weekdayOf(pattern.anchorDateKey);
+    const nth = weekOfMonth(pattern.anchorDateKey);
+    const [ay, am] = keyParts(pattern.anchorDateKey);
+    for (let i = 0; ; i++) {
+      const key = nthWeekdayOfMonth(ay, am + i, weekday, nth);
+      if (key > end) break;
+      if (key >= start) keys.push(key);
+    }
+    return keys;
+  }
+
+  const step = pattern.frequency === "weekly" ? 7 : 14;
+  const anchorDay = dayNumber(pattern.anchorDateKey);
+  const skip = Math.ceil((dayNumber(start) - anchorDay) / step);
+  const [ay, am, ad] = keyParts(pattern.anchorDateKey);
+  for (let i = skip; ; i++) {
+    const key = formatKey(ay, am, ad + i * step);
+    if (key > end) break;
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * UTC instant of an NZ wall-clock time on a given day. Uses that day's own
+ * offset, so a visit keeps its local time across a daylight-saving change.
+ * @param dateKey - NZ date key.
+ * @param startMinute - Minutes after NZ midnight.
+ * @returns The visit's start as a UTC Date.
+ */
+export function seriesStartAt(dateKey: string, startMinute: number): Date {
+  const [y, m, d] = keyParts(dateKey);
+  const offset = getPacificAucklandOffset(y, m, d);
+  return new Date(Date.UTC(y, m - 1, d, -offset, startMinute, 0));
+}
+
+const nzClockFormat = new Intl.DateTimeFormat("en-NZ", {
+  timeZone: "Pacific/Auckland",
+  hour: "numeric",
+  minute: "numeric",
+  hourCycle: "h23",
+});
+
+/**
+ * NZ wall-clock time of an instant as minutes after midnight - the inverse of
+ * {@link seriesStartAt} for a visit's own day.
+ * @param date - The instant to read.
+ * @returns Minutes after NZ midnight.
+ */
+export function nzStartMinute(date: Date): number {
+  const parts = nzClockFormat.formatToParts(date);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Formats minutes-after-midnight as "9:30am".
+ * @param startMinute - Minutes after NZ midnight.
+ * @returns Lowercase am/pm time.
+ */
+export function formatStartMinute(startMinute: number): string {
+  const h = Math.floor(startMinute / 60);
+  const m = startMinute % 60;
+  const suffix = h < 12 ? "am" : "pm";
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  return `${h12}:${String(m).padStart(2, "0")}${suffix}`;
+}
+
+/**
+ * Cadence in words, e.g. "Every second Tuesday at 9:30am".
+ * @param series - Frequency, anchor and start time.
+ * @param series.frequency - Repeat cadence.
+ * @param series.anchorDateKey - First visit's NZ date.
+ * @param series.startMinute - Minutes after NZ midnight.
+ * @returns Human-readable description.
+ */
+export function describeSeries(series: {
+  frequency: SeriesFrequency;
+  anchorDateKey: string;
+  startMinute: number;
+}): string {
+  const weekday = WEEKDAY_NAMES[weekdayOf(series.anchorDateKey)];
+  const at = formatStartMinute(series.startMinute);
+  switch (series.frequency) {
+    case "weekly":
+      return `Every ${weekday} at ${at}`;
+    case "fortnightly":
+      return `Every second ${weekday} at ${at}`;
+    case "monthly":
+      return `${ORDINALS[weekOfMonth(series.anchorDateKey) - 1]} ${weekday} of each month at ${at}`;
+  }
+}
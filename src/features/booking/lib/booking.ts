@@ -3,7 +3,7 @@
  * @description Booking system with duration selection (1hr quick jobs vs 2hr standard jobs).
  */
 
-import type { AvailabilitySettings, MorningGuard } from "@/shared/lib/settings/types";
+import type { AvailabilitySettings, MorningGuard, Technician } from "@/shared/lib/settings/types";
 import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
 
 /**
@@ -272,6 +272,7 @@ export interface BookableDay {
   isWeekend: boolean;
   timeWindows: TimeWindow[];
   hasAnySlots: boolean; // True if any time slots are available
+  fullyBooked: boolean; // Open day with nothing left (cap hit or every slot taken) - waitlist-able
 }
 
 export interface BuildAvailableDaysResult {
@@ -290,6 +291,22 @@ export interface ExistingBooking {
   endAt: Date;
   bufferBeforeMin: number;
   bufferAfterMin: number;
+  /** Google event for the booking, so its calendar copy isn't counted twice per technician. */
+  calendarEventId?: string | null;
+  /** Assigned technician; absent or null blocks every technician. */
+  technicianId?: string | null;
+}
+
+/**
+ * A calendar event that blocks slots. `calendarEmail` names the calendar it
+ * came from and decides which technicians it blocks; without it the event
+ * blocks everyone.
+ */
+export interface SlotBlockingEvent {
+  id: string;
+  start: string;
+  end: string;
+  calendarEmail?: string;
 }
 
 /**
@@ -305,7 +322,7 @@ function isSlotFree(
   slotStart: Date,
   slotEnd: Date,
   existingBookings: ExistingBooking[],
-  calendarEvents: Array<{ id: string; start: string; end: string }>,
+  calendarEvents: SlotBlockingEvent[],
   bufferMin: number,
 ): boolean {
   for (const booking of existingBookings) {
@@ -378,7 +395,149 @@ function isSlotMorningGuarded(
 }
 
 /**
- * Build available days with duration-aware slot checking.
+ * The technicians currently taking bookings. Empty means the single-operator
+ * mode: the shared schedule, with every booking and event blocking it.
+ * @param config - Booking configuration settings.
+ * @returns Enabled technicians, in settings order.
+ */
+export function activeTechnicians(config: AvailabilityConfig): Technician[] {
+  return (config.technicians ?? []).filter((t) => t.enabled);
+}
+
+/**
+ * The value for Booking.activeSlotKey, whose unique index stops two bookings
+ * taking one slot. Assigned bookings key on their technician too, so two
+ * technicians can each take the same start time.
+ * @param startAt - Booking start.
+ * @param technicianId - Assigned technician, if any.
+ * @returns The slot key.
+ */
+export function activeSlotKeyFor(startAt: Date, technicianId?: string | null): string {
+  return technicianId ? `${startAt.toISOString()}|${technicianId}` : startAt.toISOString();
+}
+
+/**
+ * The calendar SEQUENCE for a booking: every move, whether the customer or the
+ * operator made it. Clients ignore an update whose SEQUENCE didn't rise.
+ * @param booking - The booking's move counters.
+ * @param booking.rescheduleCount - Customer reschedules.
+ * @param booking.operatorMoveCount - Operator-requested moves.
+ * @returns The revision number.
+ */
+export function calendarSequence(booking: {
+  rescheduleCount: number;
+  operatorMoveCount: number;
+}): number {
+  return booking.rescheduleCount + booking.operatorMoveCount;
+}
+
+/**
+ * Narrows the shared blockers to what occupies one technician: their own and
+ * unassigned bookings, and every event except those on another technician's
+ * calendars. A booking's own Google event (and its travel legs) follow the
+ * booking, so a colleague's job on the shared booking calendar doesn't block.
+ * @param tech - Technician being built.
+ * @param technicians - Every active technician.
+ * @param existingBookings - All blocking bookings.
+ * @param calendarEvents - All blocking events.
+ * @returns The technician's bookings and events.
+ */
+export function blockersForTechnician(
+  tech: Technician,
+  technicians: Technician[],
+  existingBookings: ExistingBooking[],
+  calendarEvents: SlotBlockingEvent[],
+): { bookings: ExistingBooking[]; events: SlotBlockingEvent[] } {
+  const own = new Set(tech.calendarIds);
+  const others = new Set(technicians.filter((t) => t.id !== tech.id).flatMap((t) => t.calendarIds));
+  const calendarOf = new Map(calendarEvents.map((e) => [e.id, e.calendarEmail]));
+  const ownerByEventId = new Map<string, string | null>();
+  for (const b of existingBookings) {
+    if (b.calendarEventId) ownerByEventId.set(b.calendarEventId, b.technicianId ?? null);
+  }
+  /**
+   * Whether a booking assigned to `techId` occupies this technician.
+   * @param techId - The booking's technician, if any.
+   * @returns True for their own and unassigned bookings.
+   */
+  const occupies = (techId: string | null | undefined): boolean => !techId || techId === tech.id;
+
+  return {
+    bookings: existingBookings.filter((b) => occupies(b.technicianId)),
+    events: calendarEvents.filter((e) => {
+      // Travel legs are cached under the booking calendar; judge them by the
+      // calendar of the event they lead to.
+      const sourceId = e.id.replace(/^travel-(?:before|after):/, "");
+      const calendar =
+        sourceId === e.id ? e.calendarEmail : (calendarOf.get(sourceId) ?? e.calendarEmail);
+      if (calendar && others.has(calendar) && !own.has(calendar)) return false;
+      const owner = ownerByEventId.get(sourceId);
+      return owner === undefined || occupies(owner);
+    }),
+  };
+}
+
+/**
+ * Unions per-technician day lists: a sub-slot is open when any technician has
+ * it, and a day is listed when any technician lists it. Windows from differing
+ * hours interleave by start hour.
+ * @param results - One build per technician.
+ * @param maxDays - Day-count cap, as a single build applies it.
+ * @returns The combined days.
+ */
+function mergeBookableDays(
+  results: BuildAvailableDaysResult[],
+  maxDays: number,
+): BuildAvailableDaysResult {
+  const byKey = new Map<string, BookableDay>();
+  for (const { days } of results) {
+    for (const day of days) {
+      const seen = byKey.get(day.dateKey);
+      if (!seen) {
+        byKey.set(day.dateKey, {
+          ...day,
+          timeWindows: day.timeWindows.map((w) => ({
+            ...w,
+            subSlots: w.subSlots.map((ss) => ({ ...ss })),
+          })),
+        });
+        continue;
+      }
+      for (const w of day.timeWindows) {
+        const match = seen.timeWindows.find((x) => x.startHour === w.startHour);
+        if (!match) {
+          seen.timeWindows.push({ ...w, subSlots: w.subSlots.map((ss) => ({ ...ss })) });
+          continue;
+        }
+        for (const ss of w.subSlots) {
+          const sub = match.subSlots.find((x) => x.minute === ss.minute);
+          if (!sub) {
+            match.subSlots.push({ ...ss });
+            continue;
+          }
+          sub.availableShort ||= ss.availableShort;
+          sub.availableLong ||= ss.availableLong;
+        }
+        match.subSlots.sort((a, b) => a.minute - b.minute);
+        match.availableShort = match.subSlots.some((x) => x.availableShort);
+        match.availableLong = match.subSlots.some((x) => x.availableLong);
+      }
+      seen.timeWindows.sort((a, b) => a.startHour - b.startHour);
+      seen.hasAnySlots = seen.timeWindows.some((w) => w.availableShort || w.availableLong);
+      // Open for someone with nothing left for anyone.
+      seen.fullyBooked = (seen.fullyBooked || day.fullyBooked) && !seen.hasAnySlots;
+    }
+  }
+  const days = [...byKey.values()]
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+    .slice(0, maxDays);
+  return { days, sameDayClosed: results.every((r) => r.sameDayClosed) };
+}
+
+/**
+ * Build available days with duration-aware slot checking. With technicians
+ * configured, each is built on their own hours against their own blockers
+ * (daily caps included) and the result is the union.
  * @param existingBookings - Array of existing bookings from database
  * @param calendarEvents - Array of calendar events to block
  * @param now - Current date/time
@@ -387,7 +546,42 @@ function isSlotMorningGuarded(
  */
 export function buildAvailableDays(
   existingBookings: ExistingBooking[],
-  calendarEvents: Array<{ id: string; start: string; end: string }>,
+  calendarEvents: SlotBlockingEvent[],
+  now: Date,
+  config: AvailabilityConfig,
+): BuildAvailableDaysResult {
+  const technicians = activeTechnicians(config);
+  if (technicians.length === 0) {
+    return buildDaysForSchedule(existingBookings, calendarEvents, now, config);
+  }
+  return mergeBookableDays(
+    technicians.map((tech) => {
+      const { bookings, events } = blockersForTechnician(
+        tech,
+        technicians,
+        existingBookings,
+        calendarEvents,
+      );
+      return buildDaysForSchedule(bookings, events, now, {
+        ...config,
+        schedule: tech.schedule ?? config.schedule,
+      });
+    }),
+    config.maxAdvanceDays,
+  );
+}
+
+/**
+ * Builds the bookable days for one schedule and one set of blockers.
+ * @param existingBookings - Bookings occupying this schedule.
+ * @param calendarEvents - Events occupying this schedule.
+ * @param now - Current date/time.
+ * @param config - Booking configuration, with the schedule to build.
+ * @returns Bookable days + a flag indicating whether today was filtered out.
+ */
+function buildDaysForSchedule(
+  existingBookings: ExistingBooking[],
+  calendarEvents: SlotBlockingEvent[],
   now: Date,
   config: AvailabilityConfig,
 ): BuildAvailableDaysResult {
@@ -461,7 +655,8 @@ export function buildAvailableDays(
       dayBookings.reduce((sum, b) => sum + (b.endAt.getTime() - b.startAt.getTime()) / 60000, 0) >=
         config.maxBillableHoursPerDay * 60;
 
-    if (window?.enabled === true && !jobsCapHit && !hoursCapHit) {
+    const dayOpen = window?.enabled === true;
+    if (dayOpen && !jobsCapHit && !hoursCapHit) {
       const closeMins = window.close * 60;
       const breakStartMins = window.break ? window.break.start * 60 : null;
       const breakEndMins = window.break ? window.break.end * 60 : null;
@@ -572,6 +767,7 @@ export function buildAvailableDays(
       isWeekend,
       timeWindows,
       hasAnySlots,
+      fullyBooked: dayOpen && !hasAnySlots,
     });
   }
 
@@ -579,7 +775,9 @@ export function buildAvailableDays(
 }
 
 /**
- * Validate booking request
+ * Validate booking request. With technicians configured the slot is checked
+ * for each one on their own hours and blockers, and is valid when any of them
+ * can take it.
  * @param dateKey - Selected date in YYYY-MM-DD format
  * @param timeOfDay - Selected time slot value
  * @param startMinute - Minutes past the hour (0, 15, 30, or 45)
@@ -588,7 +786,8 @@ export function buildAvailableDays(
  * @param calendarEvents - Array of calendar events to check against
  * @param now - Current date/time
  * @param config - Booking configuration settings
- * @returns Validation result with success flag and optional error message
+ * @returns Validation result: on success the ids of the technicians free for
+ *   the slot (empty in single-operator mode), otherwise the first error.
  */
 export function validateBookingRequest(
   dateKey: string,
@@ -596,7 +795,71 @@ export function validateBookingRequest(
   startMinute: StartMinute,
   duration: JobDuration,
   existingBookings: ExistingBooking[],
-  calendarEvents: Array<{ id: string; start: string; end: string }>,
+  calendarEvents: SlotBlockingEvent[],
+  now: Date,
+  config: AvailabilityConfig,
+): { valid: true; technicianIds: string[] } | { valid: false; error: string } {
+  const technicians = activeTechnicians(config);
+  if (technicians.length === 0) {
+    const result = validateSlotForSchedule(
+      dateKey,
+      timeOfDay,
+      startMinute,
+      duration,
+      existingBookings,
+      calendarEvents,
+      now,
+      config,
+    );
+    return result.valid ? { valid: true, technicianIds: [] } : result;
+  }
+
+  const technicianIds: string[] = [];
+  let firstError: string | null = null;
+  for (const tech of technicians) {
+    const { bookings, events } = blockersForTechnician(
+      tech,
+      technicians,
+      existingBookings,
+      calendarEvents,
+    );
+    const result = validateSlotForSchedule(
+      dateKey,
+      timeOfDay,
+      startMinute,
+      duration,
+      bookings,
+      events,
+      now,
+      { ...config, schedule: tech.schedule ?? config.schedule },
+    );
+    if (result.valid) technicianIds.push(tech.id);
+    else firstError ??= result.error;
+  }
+  return technicianIds.length > 0
+    ? { valid: true, technicianIds }
+    : { valid: false, error: firstError ?? "This time slot is no longer available" };
+}
+
+/**
+ * Validates a slot against one schedule and one set of blockers.
+ * @param dateKey - Selected date in YYYY-MM-DD format.
+ * @param timeOfDay - Selected time slot value.
+ * @param startMinute - Minutes past the hour.
+ * @param duration - Job duration (short or long).
+ * @param existingBookings - Bookings occupying this schedule.
+ * @param calendarEvents - Events occupying this schedule.
+ * @param now - Current date/time.
+ * @param config - Booking configuration, with the schedule to check.
+ * @returns Validation result with success flag and optional error message.
+ */
+function validateSlotForSchedule(
+  dateKey: string,
+  timeOfDay: TimeOfDay,
+  startMinute: StartMinute,
+  duration: JobDuration,
+  existingBookings: ExistingBooking[],
+  calendarEvents: SlotBlockingEvent[],
   now: Date,
   config: AvailabilityConfig,
 ): { valid: true } | { valid: false; error: string } {
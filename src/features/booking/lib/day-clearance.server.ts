@@ -0,0 +1,223 @@
+// src/features/booking/lib/day-clearance.server.ts
+/**
+ * @description The "clear this day" workflow. Blocking a day that already has
+ * bookings used to mean phoning each customer; instead the operator starts a
+ * DayClearance, every affected customer is emailed a pick-a-new-time link keyed
+ * on their cancelToken, and the all-day block goes in by itself once the last
+ * booking has moved or cancelled. While pending, loadBlockingBookings closes the
+ * day to new bookings so it can't refill in the meantime.
+ */
+
+import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
+import { suggestSlots } from "@/features/booking/lib/suggest-slots.server";
+import {
+  blockDayMergingAdjacent,
+  SCHEDULE_CALENDAR_TAG,
+} from "@/features/calendar/lib/google-calendar";
+import { sendRescheduleRequestEmail } from "@/features/reviews/lib/email";
+import { prisma } from "@/shared/lib/prisma";
+import { nzMidnightUtc } from "@/shared/lib/timezone-utils";
+import { revalidateTag } from "next/cache";
+
+// Times offered per customer in the email; the pick page lists more, live.
+const EMAIL_SUGGESTION_COUNT = 3;
+
+/** A booking standing on a day being cleared. */
+export interface DayBooking {
+  id: string;
+  name: string;
+  email: string;
+  startAt: Date;
+  endAt: Date;
+  status: "held" | "confirmed" | "cancelled" | "completed";
+  cancelToken: string;
+  address: string | null;
+  notes: string | null;
+}
+
+/**
+ * Lists the held and confirmed bookings overlapping one NZ day - the ones that
+ * stand between the operator and a block on it.
+ * @param dateKey - NZ day (YYYY-MM-DD).
+ * @returns Bookings on the day, earliest first.
+ */
+export async function listBookingsOnDay(dateKey: string): Promise<DayBooking[]> {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return prisma.booking.findMany({
+    where: {
+      status: { in: ["held", "confirmed"] },
+      startAt: { lt: nzMidnightUtc(y, m, d + 1) },
+      endAt: { gt: nzMidnightUtc(y, m, d) },
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      startAt: true,
+      endAt: true,
+      status: true,
+      cancelToken: true,
+      address: true,
+      notes: true,
+    },
+    orderBy: { startAt: "asc" },
+  });
+}
+
+/**
+ * Maps a booking's actual length onto the slot engine's short/long band, so a
+ * custom-length booking is only offered slots it fits in.
+ * @param startAt - Booking start.
+ * @param endAt - Booking end.
+ * @param shortMins - The configured short duration in minutes.
+ * @returns "short" when it fits the short band, else "long".
+ */
+export function durationBand(startAt: Date, endAt: Date, shortMins: number): "short" | "long" {
+  return (endAt.getTime() - startAt.getTime()) / 60_000 <= shortMins ? "short" : "long";
+}
+
+/**
+ * Finds replacement times for one booking on a day being cleared. The day itself
+ * is already closed by the clearance's blocker, so it never comes back.
+ * @param booking - The booking to move.
+ * @param limit - Max slots to return.
+ * @returns Suggested slots, soonest first.
+ */
+export async function suggestionsForBooking(
+  booking: Pick<DayBooking, "id" | "startAt" | "endAt" | "address">,
+  limit: number,
+): Promise<Awaited<ReturnType<typeof suggestSlots>>["slots"]> {
+  const { config } = await getAvailabilityConfig();
+  const { slots } = await suggestSlots({
+    duration: durationBand(booking.startAt, booking.endAt, config.durations.short),
+    limit,
+    address: booking.address ?? undefined,
+    excludeBookingId: booking.id,
+  });
+  return slots;
+}
+
+/**
+ * Starts clearing a day: records the clearance (which closes the day to new
+ * bookings) and emails every affected customer a pick-a-new-time link with a few
+ * suggested times. Emails never throw, and a Resend outage only delays them in
+ * the outbox, so the clearance stays in place either way.
+ * @param params - Clearance parameters.
+ * @param params.dateKey - NZ day to clear (YYYY-MM-DD).
+ * @param params.summary - Title for the eventual all-day block.
+ * @param params.bookings - The bookings currently on the day.
+ * @returns The clearance id and how many customers were emailed.
+ */
+export async function startDayClearance(params: {
+  dateKey: string;
+  summary: string;
+  bookings: DayBooking[];
+}): Promise<{ clearanceId: string; emailed: number }> {
+  const clearance = await prisma.dayClearance.create({
+    data: {
+      dateKey: params.dateKey,
+      summary: params.summary,
+      bookingIds: params.bookings.map((b) => b.id),
+    },
+    select: { id: true },
+  });
+
+  // Sequential to keep the Google / Distance Matrix fan-out bounded. Two customers
+  // may be offered the same time - the first to pick gets it, and the pick page
+  // re-checks the slot live before moving anything.
+  let emailed = 0;
+  for (const booking of params.bookings) {
+    const slots = await suggestionsForBooking(booking, EMAIL_SUGGESTION_COUNT).catch((err) => {
+      console.warn(`[day-clearance] Suggestions failed for booking ${booking.id}:`, err);
+      return [];
+    });
+    const sent = await sendRescheduleRequestEmail({
+      id: booking.id,
+      name: booking.name,
+      email: booking.email,
+      startAt: booking.startAt,
+      cancelToken: booking.cancelToken,
+      suggestedStarts: slots.map((s) => s.startIso),
+    });
+    if (sent) emailed++;
+  }
+
+  return { clearanceId: clearance.id, emailed };
+}
+
+/**
+ * Completes a pending clearance when its day has emptied: claims the row first
+ * (so two settles racing can't both create a block), then blocks the day. A
+ * failed block releases the claim so the next move or cancel retries it.
+ * @param clearanceId - DayClearance id.
+ * @returns True when this call completed the clearance.
+ */
+export async function settleDayClearance(clearanceId: string): Promise<boolean> {
+  const clearance = await prisma.dayClearance.findUnique({ where: { id: clearanceId } });
+  if (!clearance || clearance.status !== "pending") return false;
+
+  const remaining = await listBookingsOnDay(clearance.dateKey);
+  if (remaining.length > 0) return false;
+
+  const claimed = await prisma.dayClearance.updateMany({
+    where: { id: clearanceId, status: "pending" },
+    data: { status: "completed", completedAt: new Date() },
+  });
+  if (claimed.count === 0) return false;
+
+  try {
+    const { eventId } = await blockDayMergingAdjacent({
+      dateKey: clearance.dateKey,
+      summary: clearance.summary,
+    });
+    await prisma.dayClearance.update({
+      where: { id: clearanceId },
+      data: { blockEventId: eventId },
+    });
+    revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+    console.log(`[day-clearance] ${clearance.dateKey} cleared and blocked (${eventId})`);
+    return true;
+  } catch (err) {
+    console.error(`[day-clearance] Block failed for ${clearance.dateKey}; reopening:`, err);
+    await prisma.dayClearance.update({
+      where: { id: clearanceId },
+      data: { status: "pending", completedAt: null },
+    });
+    return false;
+  }
+}
+
+/**
+ * Settles any pending clearance that was waiting on this booking. Called after a
+ * booking moves or cancels; never throws, so it can't fail the caller's action.
+ * @param bookingId - The booking that just moved or cancelled.
+ * @returns Promise that resolves once every affected clearance was checked.
+ */
+export async function settleDayClearancesForBooking(bookingId: string): Promise<void> {
+  try {
+    const clearances = await prisma.dayClearance.findMany({
+      where: { status: "pending", bookingIds: { has: bookingId } },
+      select: { id: true },
+    });
+    for (const c of clearances) {
+      await settleDayClearance(c.id);
+    }
+  } catch (err) {
+    console.error(`[day-clearance] Settle failed for booking ${bookingId}:`, err);
+  }
+}
+
+/**
+ * The pending clearance a booking is waiting on, if any - what the pick-a-time
+ * page checks before offering to move it.
+ * @param bookingId - Booking id.
+ * @returns The clearance's id and day, or null when the booking isn't being moved.
+ */
+export async function findPendingClearanceForBooking(
+  bookingId: string,
+): Promise<{ id: string; dateKey: string } | null> {
+  return prisma.dayClearance.findFirst({
+    where: { status: "pending", bookingIds: { has: bookingId } },
+    select: { id: true, dateKey: true },
+  });
+}
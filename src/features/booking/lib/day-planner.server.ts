@@ -0,0 +1,803 @@
+// src/features/booking/lib/day-planner.server.ts
+/**
+ * @description Server side of the day planner: gathers one NZ day's in-person
+ * visits per technician (or for the single operator), prices the drives between
+ * them through the cached travel matrix, and runs day-planner.ts over them.
+ * Sending a plan emails each customer whose time would change; the plan is all
+ * or nothing - the bookings only move once every one of them has said yes, and
+ * one "keep my time" (or silence past the deadline) drops the whole plan so the
+ * remaining visits can't end up double-booked against a half-applied order.
+ */
+
+import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
+import {
+  activeSlotKeyFor,
+  activeTechnicians,
+  blockersForTechnician,
+  buildAppointmentDescription,
+  calendarSequence,
+  combineUnitAndAddress,
+  hourLabel,
+  parseBookingNotes,
+  type AvailabilityConfig,
+  type SlotBlockingEvent,
+} from "@/features/booking/lib/booking";
+import {
+  planAsBooked,
+  planDay,
+  type DayPlan,
+  type PlanInterval,
+  type PlanStop,
+} from "@/features/booking/lib/day-planner";
+import { lookupDriveRoundTrip } from "@/features/business/lib/travel-distance";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
+import {
+  createBookingEvent,
+  deleteBookingEvent,
+  SCHEDULE_CALENDAR_TAG,
+} from "@/features/calendar/lib/google-calendar";
+import { buildTravelMatrix } from "@/features/calendar/lib/travel-matrix.server";
+import {
+  sendCustomerBookingConfirmation,
+  sendOwnerBookingNotification,
+  sendRescheduleProposalEmail,
+} from "@/features/reviews/lib/email";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import { getPacificAucklandOffset, nzDateParts, nzMidnightUtc } from "@/shared/lib/timezone-utils";
+import type { Booking, RoutePlanStatus } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { revalidateTag } from "next/cache";
+
+/** Start-time grid for moved visits, in minutes. */
+const PLAN_STEP_MIN = 15;
+/** How long customers have to answer, at most. */
+const PROPOSAL_TTL_HOURS = 48;
+/** Answers close this long before the earliest affected visit. */
+const PROPOSAL_CUTOFF_HOURS = 12;
+
+/** One in-person visit as the planner dialog lists it. */
+export interface RouteVisit {
+  bookingId: string;
+  name: string;
+  address: string;
+  startAt: Date;
+  endAt: Date;
+  /** Held, or too soon to ask the customer: the planner can't move it. */
+  locked: boolean;
+  /** Kept at its time by the planner - locked, or pinned by the operator. */
+  pinned: boolean;
+}
+
+/** A plan already sent for the route and still waiting on customers. */
+export interface PendingRoutePlan {
+  id: string;
+  createdAt: Date;
+  expiresAt: Date;
+  driveMinsBefore: number;
+  driveMinsAfter: number;
+  proposals: Array<{
+    bookingId: string;
+    name: string;
+    fromStartAt: Date;
+    toStartAt: Date;
+    status: "pending" | "accepted" | "declined";
+  }>;
+}
+
+/** One person's route for the day. */
+export interface RouteDay {
+  /** Null in single-operator mode, and for unassigned visits alongside technicians. */
+  technicianId: string | null;
+  technicianName: string | null;
+  visits: RouteVisit[];
+  current: DayPlan;
+  /** Null when no plan could be made - see `problem`. */
+  proposed: DayPlan | null;
+  /** Why there's no proposal, for the dialog. */
+  problem: string | null;
+  pending: PendingRoutePlan | null;
+}
+
+/** Outcome of sending a plan to customers. */
+export type SendRoutePlanResult =
+  | { ok: true; planId: string; emailed: number; proposals: number }
+  | { ok: false; error: string; status: number };
+
+/** Outcome of a customer's answer. */
+export type ProposalAnswerResult =
+  | { kind: "not-found" }
+  | { kind: "closed"; status: RoutePlanStatus }
+  | { kind: "recorded"; applied: boolean };
+
+/** The booking fields the planner reads. */
+type PlannerBooking = Pick<
+  Booking,
+  | "id"
+  | "name"
+  | "email"
+  | "startAt"
+  | "endAt"
+  | "status"
+  | "address"
+  | "unit"
+  | "notes"
+  | "meetingType"
+  | "technicianId"
+  | "calendarEventId"
+>;
+
+const PLANNER_BOOKING_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  startAt: true,
+  endAt: true,
+  status: true,
+  address: true,
+  unit: true,
+  notes: true,
+  meetingType: true,
+  technicianId: true,
+  calendarEventId: true,
+} as const;
+
+/**
+ * The address a booking's visit is at, or null for a remote job.
+ * @param booking - The booking.
+ * @returns Full address, or null.
+ */
+function visitAddress(booking: PlannerBooking): string | null {
+  const parsed = parseBookingNotes(booking.notes);
+  const isRemote = booking.meetingType
+    ? booking.meetingType === "remote"
+    : parsed.meetingType === "remote";
+  if (isRemote) return null;
+  const address = booking.address
+    ? combineUnitAndAddress(booking.unit ?? "", booking.address)
+    : parsed.address;
+  return address.trim() || null;
+}
+
+/**
+ * Instant for an NZ wall-clock hour on a day.
+ * @param dateKey - NZ day (YYYY-MM-DD).
+ * @param hour - NZ hour, may be fractional.
+ * @returns The instant.
+ */
+function nzHourOnDay(dateKey: string, hour: number): Date {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(
+    Date.UTC(y, m - 1, d, 0, Math.round((hour - getPacificAucklandOffset(y, m, d)) * 60)),
+  );
+}
+
+/**
+ * Moves any pending plan past its deadline to expired.
+ * @param where - Narrowing, e.g. one plan id.
+ * @param where.id - Plan id.
+ */
+async function expireLapsedPlans(where: { id?: string } = {}): Promise<void> {
+  await prisma.routePlan.updateMany({
+    where: { ...where, status: "pending", expiresAt: { lte: new Date() } },
+    data: { status: "expired", settledAt: new Date() },
+  });
+}
+
+/**
+ * The pending plan for one route, with its proposals.
+ * @param dateKey - NZ day.
+ * @param technicianId - Whose route.
+ * @param names - Customer names by booking id.
+ * @returns The plan, or null.
+ */
+async function findPendingPlan(
+  dateKey: string,
+  technicianId: string | null,
+  names: Map<string, string>,
+): Promise<PendingRoutePlan | null> {
+  const plan = await prisma.routePlan.findFirst({
+    where: { dateKey, technicianId, status: "pending" },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!plan) return null;
+  const proposals = await prisma.rescheduleProposal.findMany({
+    where: { planId: plan.id },
+    orderBy: { toStartAt: "asc" },
+  });
+  return {
+    id: plan.id,
+    createdAt: plan.createdAt,
+    expiresAt: plan.expiresAt,
+    driveMinsBefore: plan.driveMinsBefore,
+    driveMinsAfter: plan.driveMinsAfter,
+    proposals: proposals.map((p) => ({
+      bookingId: p.bookingId,
+      name: names.get(p.bookingId) ?? "Customer",
+      fromStartAt: p.fromStartAt,
+      toStartAt: p.toStartAt,
+      status: p.status,
+    })),
+  };
+}
+
+/**
+ * Plans one route: the visits, their drive matrix, busy time and window.
+ * @param params - Route parameters.
+ * @param params.config - Availability config.
+ * @param params.dateKey - NZ day.
+ * @param params.technician - Whose route, or null.
+ * @param params.base - Where the day starts and ends.
+ * @param params.bookings - The route's bookings on the day, in-person and remote.
+ * @param params.busy - Busy time from calendars.
+ * @param params.pinnedIds - Bookings the operator wants left alone.
+ * @param params.earliestMove - Nothing may move to, or from, before this.
+ * @returns The route, without its pending plan.
+ */
+async function planRoute(params: {
+  config: AvailabilityConfig;
+  dateKey: string;
+  technician: { id: string; name: string; schedule: AvailabilityConfig["schedule"] | null } | null;
+  base: string;
+  bookings: PlannerBooking[];
+  busy: PlanInterval[];
+  pinnedIds: Set<string>;
+  earliestMove: Date;
+}): Promise<Omit<RouteDay, "pending">> {
+  const { dateKey, technician, bookings } = params;
+  const visits: RouteVisit[] = [];
+  const busy = [...params.busy];
+  for (const b of bookings) {
+    const address = visitAddress(b);
+    if (!address) {
+      // A remote job takes the time but no drive.
+      busy.push({ start: b.startAt, end: b.endAt });
+      continue;
+    }
+    const locked = b.status !== "confirmed" || b.startAt < params.earliestMove;
+    visits.push({
+      bookingId: b.id,
+      name: b.name,
+      address,
+      startAt: b.startAt,
+      endAt: b.endAt,
+      locked,
+      pinned: locked || params.pinnedIds.has(b.id),
+    });
+  }
+
+  const base = {
+    technicianId: technician?.id ?? null,
+    technicianName: technician?.name ?? null,
+    visits,
+  };
+  const empty: DayPlan = { stops: [], driveMins: 0 };
+  if (visits.length === 0) {
+    return { ...base, current: empty, proposed: null, problem: "No in-person visits." };
+  }
+
+  // Opening hours bound moved visits; widened to the booked visits so a job
+  // booked outside them by hand doesn't make the day unplannable.
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  const window = (technician?.schedule ?? params.config.schedule)[weekday];
+  const firstStart = Math.min(...visits.map((v) => v.startAt.getTime()));
+  const lastEnd = Math.max(...visits.map((v) => v.endAt.getTime()));
+  const open = window?.enabled ? nzHourOnDay(dateKey, window.open).getTime() : firstStart;
+  const close = window?.enabled ? nzHourOnDay(dateKey, window.close).getTime() : lastEnd;
+  if (window?.enabled && window.break) {
+    busy.push({
+      start: nzHourOnDay(dateKey, window.break.start),
+      end: nzHourOnDay(dateKey, window.break.end),
+    });
+  }
+  const dayStart = new Date(Math.max(Math.min(open, firstStart), params.earliestMove.getTime()));
+  const dayEnd = new Date(Math.max(close, lastEnd));
+
+  if (!params.base) {
+    const current = { stops: [], driveMins: 0 };
+    return { ...base, current, proposed: null, problem: "No base address is set." };
+  }
+
+  const matrix = await buildTravelMatrix(
+    [params.base, ...visits.map((v) => v.address)],
+    new Date(Math.max(dayStart.getTime(), Date.now())),
+  );
+  const unpriced = visits.filter(
+    (_, i) => matrix[0][i + 1] === null || matrix[i + 1].some((mins) => mins === null),
+  );
+  const stops: PlanStop[] = visits.map((v, i) => ({
+    id: v.bookingId,
+    point: i + 1,
+    startAt: v.startAt,
+    endAt: v.endAt,
+    movable: !v.pinned,
+  }));
+  const input = {
+    stops,
+    // Unpriced pairs only reach the planner when there's nothing to plan.
+    matrix: matrix.map((row) => row.map((mins) => mins ?? 0)),
+    busy,
+    dayStart,
+    dayEnd,
+    bufferMin: params.config.bookingBufferAfterMin,
+    stepMin: PLAN_STEP_MIN,
+  };
+  const current = planAsBooked(input);
+  if (unpriced.length > 0) {
+    return {
+      ...base,
+      current,
+      proposed: null,
+      problem: `Couldn't price the drive to ${unpriced.map((v) => v.address).join("; ")}.`,
+    };
+  }
+  const proposed = planDay(input);
+  return {
+    ...base,
+    current,
+    proposed,
+    problem: proposed ? null : "The pinned visits can't all be reached in time.",
+  };
+}
+
+/**
+ * Plans every route on a day.
+ * @param dateKey - NZ day (YYYY-MM-DD).
+ * @param pinnedIds - Bookings the operator wants left at their time.
+ * @returns One route per technician with visits (or the single operator's).
+ */
+export async function planDayRoutes(dateKey: string, pinnedIds: Set<string>): Promise<RouteDay[]> {
+  await expireLapsedPlans();
+  const [{ config }, identity] = await Promise.all([getAvailabilityConfig(), getIdentity()]);
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const dayFrom = nzMidnightUtc(y, m, d);
+  const dayTo = nzMidnightUtc(y, m, d + 1);
+
+  const bookings = await prisma.booking.findMany({
+    where: { status: { in: ["held", "confirmed"] }, startAt: { gte: dayFrom, lt: dayTo } },
+    select: PLANNER_BOOKING_SELECT,
+    orderBy: { startAt: "asc" },
+  });
+
+  // Busy time from every calendar, less the bookings' own events - those are
+  // the visits being planned.
+  const bookingEventIds = new Set(bookings.map((b) => b.calendarEventId).filter(Boolean));
+  const events = await fetchAllSourceEvents(dayFrom, dayTo).catch((err) => {
+    console.error("[day-planner] Failed to fetch calendar events:", err);
+    return [];
+  });
+  const slotEvents: SlotBlockingEvent[] = events
+    .filter((e) => !bookingEventIds.has(e.id))
+    .map((e) => ({ id: e.id, start: e.start, end: e.end, calendarEmail: e.calendarEmail }));
+
+  /**
+   * Converts calendar events to planner intervals.
+   * @param list - Events.
+   * @returns Intervals.
+   */
+  const toBusy = (list: SlotBlockingEvent[]): PlanInterval[] =>
+    list.map((e) => ({ start: new Date(e.start), end: new Date(e.end) }));
+
+  const homeAddress = identity.baseAddress.line || process.env.HOME_ADDRESS || "";
+  const earliestMove = new Date(Date.now() + config.minHoursNotice * 60 * 60 * 1000);
+  const names = new Map(bookings.map((b) => [b.id, b.name]));
+  const techs = activeTechnicians(config);
+
+  const routes: Array<Omit<RouteDay, "pending">> = [];
+  if (techs.length === 0) {
+    routes.push(
+      await planRoute({
+        config,
+        dateKey,
+        technician: null,
+        base: homeAddress,
+        bookings,
+        busy: toBusy(slotEvents),
+        pinnedIds,
+        earliestMove,
+      }),
+    );
+  } else {
+    for (const tech of techs) {
+      const own = bookings.filter((b) => b.technicianId === tech.id);
+      if (own.length === 0) continue;
+      routes.push(
+        await planRoute({
+          config,
+          dateKey,
+          technician: tech,
+          base: tech.baseAddress.trim() || homeAddress,
+          bookings: own,
+          busy: toBusy(blockersForTechnician(tech, techs, [], slotEvents).events),
+          pinnedIds,
+          earliestMove,
+        }),
+      );
+    }
+    const unassigned = bookings.filter(
+      (b) => !b.technicianId || !techs.some((t) => t.id === b.technicianId),
+    );
+    if (unassigned.length > 0) {
+      routes.push(
+        await planRoute({
+          config,
+          dateKey,
+          technician: null,
+          base: homeAddress,
+          bookings: unassigned,
+          busy: toBusy(slotEvents),
+          pinnedIds,
+          earliestMove,
+        }),
+      );
+    }
+  }
+
+  return Promise.all(
+    routes.map(async (r) => ({
+      ...r,
+      pending: await findPendingPlan(dateKey, r.technicianId, names),
+    })),
+  );
+}
+
+/**
+ * Sends a route's plan: records it and emails every customer whose visit would
+ * move. Re-plans from scratch rather than trusting the dialog, so a day that
+ * changed since it was opened is planned as it is now.
+ * @param dateKey - NZ day (YYYY-MM-DD).
+ * @param technicianId - Whose route; null for the single operator.
+ * @param pinnedIds - Bookings the operator wants left at their time.
+ * @returns The plan and how many customers were emailed, or an error.
+ */
+export async function sendRoutePlan(
+  dateKey: string,
+  technicianId: string | null,
+  pinnedIds: Set<string>,
+): Promise<SendRoutePlanResult> {
+  const routes = await planDayRoutes(dateKey, pinnedIds);
+  const route = routes.find((r) => r.technicianId === technicianId);
+  if (!route) return { ok: false, error: "No visits to plan on this day.", status: 404 };
+  if (route.pending) {
+    return {
+      ok: false,
+      error: "A plan for this day is already waiting on customers.",
+      status: 409,
+    };
+  }
+  if (!route.proposed) {
+    return { ok: false, error: route.problem ?? "No plan could be made.", status: 409 };
+  }
+  const moved = route.proposed.stops.filter((s) => s.moved);
+  if (moved.length === 0 || route.proposed.driveMins >= route.current.driveMins) {
+    return { ok: false, error: "The day is already in its best order.", status: 409 };
+  }
+
+  const visits = new Map(route.visits.map((v) => [v.bookingId, v]));
+  const earliest = Math.min(
+    ...moved.flatMap((s) => [s.startAt.getTime(), visits.get(s.id)?.startAt.getTime() ?? Infinity]),
+  );
+  const expiresAt = new Date(
+    Math.min(
+      Date.now() + PROPOSAL_TTL_HOURS * 60 * 60 * 1000,
+      earliest - PROPOSAL_CUTOFF_HOURS * 60 * 60 * 1000,
+    ),
+  );
+  if (expiresAt.getTime() <= Date.now() + 60 * 60 * 1000) {
+    return { ok: false, error: "Too close to the day to ask customers now.", status: 409 };
+  }
+
+  const plan = await prisma.routePlan.create({
+    data: {
+      dateKey,
+      technicianId,
+      driveMinsBefore: route.current.driveMins,
+      driveMinsAfter: route.proposed.driveMins,
+      expiresAt,
+    },
+    select: { id: true },
+  });
+
+  const bookings = await prisma.booking.findMany({
+    where: { id: { in: moved.map((s) => s.id) } },
+    select: { id: true, name: true, email: true, startAt: true },
+  });
+  const byId = new Map(bookings.map((b) => [b.id, b]));
+
+  // Sequential, like the clear-day emails, to keep the outbox writes ordered.
+  let emailed = 0;
+  for (const stop of moved) {
+    const booking = byId.get(stop.id);
+    if (!booking) continue;
+    const token = randomUUID();
+    await prisma.rescheduleProposal.create({
+      data: {
+        planId: plan.id,
+        bookingId: booking.id,
+        token,
+        fromStartAt: booking.startAt,
+        toStartAt: stop.startAt,
+        toEndAt: stop.endAt,
+      },
+    });
+    const sent = await sendRescheduleProposalEmail({
+      id: booking.id,
+      name: booking.name,
+      email: booking.email,
+      startAt: booking.startAt,
+      proposedStartAt: stop.startAt,
+      token,
+    });
+    if (sent) emailed++;
+  }
+
+  return { ok: true, planId: plan.id, emailed, proposals: moved.length };
+}
+
+/**
+ * Withdraws a pending plan; nothing has moved, so nothing needs undoing.
+ * @param planId - Plan id.
+ * @returns True when a pending plan was withdrawn.
+ */
+export async function withdrawRoutePlan(planId: string): Promise<boolean> {
+  const { count } = await prisma.routePlan.updateMany({
+    where: { id: planId, status: "pending" },
+    data: { status: "withdrawn", settledAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Records a customer's answer. A decline drops the plan; the last acceptance
+ * applies it.
+ * @param token - Proposal token from the email link.
+ * @param answer - The customer's answer.
+ * @returns What happened.
+ */
+export async function answerRescheduleProposal(
+  token: string,
+  answer: "accept" | "decline",
+): Promise<ProposalAnswerResult> {
+  const proposal = await prisma.rescheduleProposal.findUnique({ where: { token } });
+  if (!proposal) return { kind: "not-found" };
+  await expireLapsedPlans({ id: proposal.planId });
+  const plan = await prisma.routePlan.findUnique({
+    where: { id: proposal.planId },
+    select: { status: true },
+  });
+  if (!plan) return { kind: "not-found" };
+
+  // Answering twice the same way is a no-op (a double tap, a second device).
+  const repeat = proposal.status === (answer === "accept" ? "accepted" : "declined");
+  if (plan.status !== "pending") {
+    return repeat && plan.status === "applied"
+      ? { kind: "recorded", applied: true }
+      : { kind: "closed", status: plan.status };
+  }
+  if (repeat) return { kind: "recorded", applied: false };
+
+  // A yes can still become a no while the plan waits on others.
+  const { count } = await prisma.rescheduleProposal.updateMany({
+    where: {
+      id: proposal.id,
+      status: { in: answer === "decline" ? ["pending", "accepted"] : ["pending"] },
+    },
+    data: { status: answer === "accept" ? "accepted" : "declined", respondedAt: new Date() },
+  });
+  if (count === 0) return { kind: "closed", status: plan.status };
+
+  if (answer === "decline") {
+    await prisma.routePlan.updateMany({
+      where: { id: proposal.planId, status: "pending" },
+      data: { status: "declined", settledAt: new Date() },
+    });
+    console.log(`[day-planner] Plan ${proposal.planId} declined for booking ${proposal.bookingId}`);
+    return { kind: "recorded", applied: false };
+  }
+
+  const waiting = await prisma.rescheduleProposal.count({
+    where: { planId: proposal.planId, status: "pending" },
+  });
+  if (waiting > 0) return { kind: "recorded", applied: false };
+  return { kind: "recorded", applied: await applyRoutePlan(proposal.planId) };
+}
+
+/**
+ * Keeps a booking's "[time - length]" notes line in step with a move.
+ * @param notes - Booking notes.
+ * @param startAt - New start.
+ * @returns Updated notes.
+ */
+function relabelNotesTime(notes: string | null, startAt: Date): string {
+  const [y, m, d] = nzDateParts(startAt);
+  const hour = (startAt.getUTCHours() + getPacificAucklandOffset(y, m, d)) % 24;
+  const minute = startAt.getUTCMinutes();
+  const label =
+    minute === 0
+      ? hourLabel(hour)
+      : hourLabel(hour).replace(/(am|pm)$/i, `:${String(minute).padStart(2, "0")}$1`);
+  return (notes ?? "").replace(/^\[[^\]\n]+ - ([^\]\n]+)\]$/m, `[${label} - $1]`);
+}
+
+/**
+ * Applies a fully-accepted plan: claims it, checks the day still matches what
+ * was planned, then moves every booking - calendar event, slot key, notes,
+ * travel snapshot - and sends the usual rescheduled emails. A day that changed
+ * underneath the plan expires it instead, and nothing moves.
+ * @param planId - Plan id.
+ * @returns True when the bookings moved.
+ */
+async function applyRoutePlan(planId: string): Promise<boolean> {
+  const { count } = await prisma.routePlan.updateMany({
+    where: { id: planId, status: "pending" },
+    data: { status: "applied", settledAt: new Date() },
+  });
+  if (count === 0) return false;
+
+  const proposals = await prisma.rescheduleProposal.findMany({ where: { planId } });
+  const bookings = await prisma.booking.findMany({
+    where: { id: { in: proposals.map((p) => p.bookingId) } },
+  });
+  const byId = new Map(bookings.map((b) => [b.id, b]));
+
+  /**
+   * Marks the plan expired because the day moved on without it.
+   * @param reason - For the log.
+   * @returns Always false.
+   */
+  const abandon = async (reason: string): Promise<boolean> => {
+    await prisma.routePlan.update({ where: { id: planId }, data: { status: "expired" } });
+    console.warn(`[day-planner] Plan ${planId} not applied: ${reason}`);
+    return false;
+  };
+
+  for (const p of proposals) {
+    const booking = byId.get(p.bookingId);
+    if (!booking || booking.status !== "confirmed") return abandon(`booking ${p.bookingId} gone`);
+    if (booking.startAt.getTime() !== p.fromStartAt.getTime()) {
+      return abandon(`booking ${p.bookingId} moved since`);
+    }
+  }
+
+  // Anything outside the plan that now overlaps a new time sinks it.
+  const moving = new Set(proposals.map((p) => p.bookingId));
+  const from = new Date(Math.min(...proposals.map((p) => p.toStartAt.getTime())));
+  const to = new Date(Math.max(...proposals.map((p) => p.toEndAt.getTime())));
+  const others = await prisma.booking.findMany({
+    where: {
+      status: { in: ["held", "confirmed"] },
+      startAt: { lt: to },
+      endAt: { gt: from },
+      id: { notIn: [...moving] },
+    },
+    select: { id: true, startAt: true, endAt: true, technicianId: true },
+  });
+  for (const p of proposals) {
+    const techId = byId.get(p.bookingId)?.technicianId ?? null;
+    const clash = others.find(
+      (o) =>
+        o.startAt < p.toEndAt &&
+        o.endAt > p.toStartAt &&
+        (!o.technicianId || !techId || o.technicianId === techId),
+    );
+    if (clash) return abandon(`booking ${clash.id} now overlaps ${p.bookingId}`);
+  }
+
+  // Free every moving booking's slot key first, so two visits swapping times
+  // don't trip the unique index on each other.
+  await Promise.all(
+    proposals.map((p) =>
+      prisma.booking.update({
+        where: { id: p.bookingId },
+        data: { activeSlotKey: `moving:${p.bookingId}` },
+      }),
+    ),
+  );
+
+  const { config } = await getAvailabilityConfig();
+  const identity = await getIdentity();
+  const siteUrl = getSiteUrl();
+  const techs = activeTechnicians(config);
+
+  for (const p of proposals) {
+    const booking = byId.get(p.bookingId);
+    if (!booking) continue;
+    const parsed = parseBookingNotes(booking.notes);
+    const fullAddress = visitAddress(booking) ?? "";
+    const notes = relabelNotesTime(booking.notes, p.toStartAt);
+    const lengthMins = Math.round((p.toEndAt.getTime() - p.toStartAt.getTime()) / 60_000);
+
+    if (booking.calendarEventId) {
+      await deleteBookingEvent({ eventId: booking.calendarEventId }).catch((err) =>
+        console.error("[day-planner] Failed to delete old calendar event:", err),
+      );
+    }
+    let calendarEventId: string | null = null;
+    try {
+      const created = await createBookingEvent({
+        summary: `Tech Support: ${booking.name} - ${booking.duration === "long" ? "Extended" : "Standard"} ${lengthMins} min`,
+        description: buildAppointmentDescription({
+          company: identity.company,
+          phone: identity.phone,
+          email: identity.email,
+          isRemote: false,
+          userNotes: parsed.userNotes,
+          manageUrl: `${siteUrl}/booking/edit?token=${encodeURIComponent(booking.cancelToken)}`,
+          cancelUrl: `${siteUrl}/booking/cancel?token=${encodeURIComponent(booking.cancelToken)}`,
+        }),
+        startAt: p.toStartAt,
+        endAt: p.toEndAt,
+        timeZone: config.timeZone,
+        attendeeEmail: booking.email,
+        attendeeName: booking.name,
+        location: fullAddress || undefined,
+      });
+      calendarEventId = created.eventId;
+    } catch (err) {
+      // The booking still moves; the calendar-cache refresh and the owner email
+      // make the missing event visible.
+      console.error("[day-planner] Failed to create calendar event:", err);
+    }
+
+    let travelMinsAtBooking = booking.travelMinsAtBooking;
+    let travelMinsBackAtBooking = booking.travelMinsBackAtBooking;
+    if (fullAddress) {
+      const base = techs.find((t) => t.id === booking.technicianId)?.baseAddress;
+      const drive = await lookupDriveRoundTrip(fullAddress, p.toStartAt, p.toEndAt, base).catch(
+        () => null,
+      );
+      if (drive?.status === "ok") {
+        travelMinsAtBooking = drive.data.there.durationMins;
+        travelMinsBackAtBooking = drive.data.back.durationMins;
+      }
+    }
+
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: {
+        notes,
+        startAt: p.toStartAt,
+        endAt: p.toEndAt,
+        calendarEventId,
+        activeSlotKey: activeSlotKeyFor(p.toStartAt, booking.technicianId),
+        // An operator move: raises the calendar SEQUENCE without using up one
+        // of the customer's reschedules.
+        operatorMoveCount: { increment: 1 },
+        travelMinsAtBooking,
+        travelMinsBackAtBooking,
+      },
+    });
+
+    const emailData = {
+      id: booking.id,
+      name: booking.name,
+      email: booking.email,
+      notes,
+      startAt: p.toStartAt,
+      endAt: p.toEndAt,
+      cancelToken: booking.cancelToken,
+      address: fullAddress,
+      meetingType: booking.meetingType,
+    };
+    await Promise.all([
+      sendCustomerBookingConfirmation(
+        {
+          ...emailData,
+          promoTitleAtBooking: booking.promoTitleAtBooking,
+          calendarSequence: calendarSequence(booking) + 1,
+        },
+        { kind: "rescheduled", previousStartAt: booking.startAt },
+      ),
+      sendOwnerBookingNotification(emailData, {
+        kind: "rescheduled",
+        previousStartAt: booking.startAt,
+      }),
+    ]);
+  }
+
+  console.log(`[day-planner] Applied plan ${planId}: moved ${proposals.length} booking(s)`);
+  revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+  return true;
+}
@@ -0,0 +1,327 @@
+// src/features/booking/lib/day-planner.ts
+/**
+ * @description Route planning for one person's in-person visits on one day.
+ * Travel blocks price each visit's legs on their own, and the smart origin and
+ * return chaining only ever look one event either side; this looks at the whole
+ * day: the order of visits (out from the base and back) with the least total
+ * driving, and start times that fit it. Pinned visits keep their time; movable
+ * ones keep theirs too where the new order allows, otherwise they take the
+ * nearest start on the grid that does. Every order is tried for a normal day's
+ * handful of visits; a bigger day is improved from the booked order by
+ * swapping and reversing runs of visits until nothing helps.
+ *
+ * Pure - the caller supplies the drive-time matrix - so the fixture check can
+ * drive it without Google or a database.
+ */
+
+/** One visit on the day. */
+export interface PlanStop {
+  id: string;
+  /** Row and column of the visit's address in the matrix; 0 is the base. */
+  point: number;
+  startAt: Date;
+  endAt: Date;
+  /** False pins the visit at its booked time. */
+  movable: boolean;
+}
+
+/** Time a moved visit, or the drive to it, must stay clear of. */
+export interface PlanInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface PlanInput {
+  stops: PlanStop[];
+  /** `matrix[i][j]` = drive minutes from point i to point j. */
+  matrix: number[][];
+  /** Other commitments: remote jobs, personal events, a midday break. */
+  busy: PlanInterval[];
+  /** Earliest a moved visit may start. */
+  dayStart: Date;
+  /** Latest a moved visit may end. */
+  dayEnd: Date;
+  /** Minutes kept free after each visit before driving on. */
+  bufferMin: number;
+  /** Start-time grid for moved visits, in minutes. */
+  stepMin: number;
+}
+
+/** A visit's place in a plan. */
+export interface PlannedStop {
+  id: string;
+  startAt: Date;
+  endAt: Date;
+  /** Drive from the previous visit, or from the base for the first. */
+  driveInMins: number;
+  /** True when the start differs from the booked one. */
+  moved: boolean;
+}
+
+/** A day's visits in order, with the driving it takes. */
+export interface DayPlan {
+  stops: PlannedStop[];
+  /** Base to first visit, between visits, and last visit home. */
+  driveMins: number;
+}
+
+/** Above this many visits, local search stands in for trying every order. */
+const MAX_EXHAUSTIVE_STOPS = 8;
+/** Improvement passes the local search may make. */
+const MAX_SEARCH_PASSES = 50;
+const MINUTE_MS = 60_000;
+
+/** A scheduled order with what it costs the customers. */
+interface Candidate {
+  plan: DayPlan;
+  /** Visits whose time changed. */
+  moves: number;
+  /** Total time visits shifted by, in ms. */
+  shiftMs: number;
+}
+
+/**
+ * Rounds a time up onto the grid.
+ * @param ms - Epoch ms.
+ * @param stepMs - Grid step in ms.
+ * @returns The first grid point at or after `ms`.
+ */
+function ceilTo(ms: number, stepMs: number): number {
+  return Math.ceil(ms / stepMs) * stepMs;
+}
+
+/**
+ * Rounds a time down onto the grid.
+ * @param ms - Epoch ms.
+ * @param stepMs - Grid step in ms.
+ * @returns The last grid point at or before `ms`.
+ */
+function floorTo(ms: number, stepMs: number): number {
+  return Math.floor(ms / stepMs) * stepMs;
+}
+
+/**
+ * Total drive for visits taken in this order, from the base and back.
+ * @param order - Visits in driving order.
+ * @param matrix - Drive minutes between points.
+ * @returns Minutes.
+ */
+function routeDriveMins(order: PlanStop[], matrix: number[][]): number {
+  if (order.length === 0) return 0;
+  let total = 0;
+  let at = 0;
+  for (const stop of order) {
+    total += matrix[at][stop.point];
+    at = stop.point;
+  }
+  return total + matrix[at][0];
+}
+
+/**
+ * Fits start times to an order. A backward pass finds how late each visit can
+ * start and still reach everything after it; the forward pass then keeps each
+ * movable visit's booked time when it lies between the earliest arrival and
+ * that latest start, clamps it into range when not, and steps it past any busy
+ * time its drive or visit would overlap.
+ * @param order - Visits in driving order.
+ * @param input - Planner input.
+ * @returns The scheduled visits, or null when the order can't be made to fit.
+ */
+function scheduleOrder(order: PlanStop[], input: PlanInput): PlannedStop[] | null {
+  const stepMs = input.stepMin * MINUTE_MS;
+  const bufferMs = input.bufferMin * MINUTE_MS;
+  const dayStart = input.dayStart.getTime();
+  const dayEnd = input.dayEnd.getTime();
+  const durations = order.map((s) => s.endAt.getTime() - s.startAt.getTime());
+  const legMins = order.map((s, i) => input.matrix[i === 0 ? 0 : order[i - 1].point][s.point]);
+
+  const latest: number[] = new Array<number>(order.length);
+  for (let i = order.length - 1; i >= 0; i--) {
+    const stop = order[i];
+    const reach =
+      i === order.length - 1
+        ? Infinity
+        : latest[i + 1] - legMins[i + 1] * MINUTE_MS - bufferMs - durations[i];
+    if (stop.movable) {
+      latest[i] = floorTo(Math.min(dayEnd - durations[i], reach), stepMs);
+    } else {
+      if (reach < stop.startAt.getTime()) return null;
+      latest[i] = stop.startAt.getTime();
+    }
+  }
+
+  const planned: PlannedStop[] = [];
+  let prevEnd = -Infinity;
+  for (const [i, stop] of order.entries()) {
+    const legMs = legMins[i] * MINUTE_MS;
+    const ready = i === 0 ? -Infinity : prevEnd + bufferMs + legMs;
+    const booked = stop.startAt.getTime();
+    let start = booked;
+    if (!stop.movable) {
+      if (booked < ready) return null;
+    } else {
+      const earliest = ceilTo(Math.max(dayStart, ready), stepMs);
+      if (earliest > latest[i]) return null;
+      start = Math.min(Math.max(booked, earliest), latest[i]);
+      // Step past busy time until the drive in and the visit are both clear.
+      for (;;) {
+        const end = start + durations[i];
+        const clash = input.busy.find(
+          (b) => b.start.getTime() < end && b.end.getTime() > start - legMs,
+        );
+        if (!clash) break;
+        start = ceilTo(clash.end.getTime() + legMs, stepMs);
+        if (start > latest[i]) return null;
+      }
+    }
+    prevEnd = start + durations[i];
+    planned.push({
+      id: stop.id,
+      startAt: new Date(start),
+      endAt: new Date(prevEnd),
+      driveInMins: legMins[i],
+      moved: start !== booked,
+    });
+  }
+  return planned;
+}
+
+/**
+ * Schedules and scores an order.
+ * @param order - Visits in driving order.
+ * @param input - Planner input.
+ * @returns The candidate, or null when the order can't be made to fit.
+ */
+function evaluate(order: PlanStop[], input: PlanInput): Candidate | null {
+  const stops = scheduleOrder(order, input);
+  if (!stops) return null;
+  let moves = 0;
+  let shiftMs = 0;
+  for (const [i, s] of stops.entries()) {
+    const diff = Math.abs(s.startAt.getTime() - order[i].startAt.getTime());
+    if (diff > 0) moves++;
+    shiftMs += diff;
+  }
+  return { plan: { stops, driveMins: routeDriveMins(order, input.matrix) }, moves, shiftMs };
+}
+
+/**
+ * Ranks candidates: least driving, then fewest customers moved, then the
+ * smallest total shift.
+ * @param a - Challenger.
+ * @param b - Current best, if any.
+ * @returns True when `a` should replace `b`.
+ */
+function beats(a: Candidate, b: Candidate | null): boolean {
+  if (!b) return true;
+  if (a.plan.driveMins !== b.plan.driveMins) return a.plan.driveMins < b.plan.driveMins;
+  if (a.moves !== b.moves) return a.moves < b.moves;
+  return a.shiftMs < b.shiftMs;
+}
+
+/**
+ * The day as booked: visits in start order at their booked times.
+ * @param input - Planner input.
+ * @returns The current plan.
+ */
+export function planAsBooked(input: PlanInput): DayPlan {
+  const order = [...input.stops].sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+  return {
+    stops: order.map((s, i) => ({
+      id: s.id,
+      startAt: s.startAt,
+      endAt: s.endAt,
+      driveInMins: input.matrix[i === 0 ? 0 : order[i - 1].point][s.point],
+      moved: false,
+    })),
+    driveMins: routeDriveMins(order, input.matrix),
+  };
+}
+
+/**
+ * Tries every order, skipping any whose driving so far already exceeds the
+ * best found.
+ * @param input - Planner input.
+ * @returns The best candidate, or null when no order fits.
+ */
+function searchExhaustive(input: PlanInput): Candidate | null {
+  let best: Candidate | null = null;
+  const order: PlanStop[] = [];
+  const used = new Array<boolean>(input.stops.length).fill(false);
+
+  /**
+   * Extends the partial order by each unused visit in turn.
+   * @param at - Point the partial route ends at.
+   * @param driven - Minutes driven so far.
+   */
+  const extend = (at: number, driven: number): void => {
+    if (best && driven > best.plan.driveMins) return;
+    if (order.length === input.stops.length) {
+      const candidate = evaluate(order, input);
+      if (candidate && beats(candidate, best)) best = candidate;
+      return;
+    }
+    for (const [i, stop] of input.stops.entries()) {
+      if (used[i]) continue;
+      used[i] = true;
+      order.push(stop);
+      extend(stop.point, driven + input.matrix[at][stop.point]);
+      order.pop();
+      used[i] = false;
+    }
+  };
+
+  extend(0, 0);
+  return best;
+}
+
+/**
+ * Improves the booked order by relocating single visits and reversing runs of
+ * them, keeping any change that fits and ranks better, until a pass finds none.
+ * @param input - Planner input.
+ * @returns The best candidate found, or null when not even the booked order fits.
+ */
+function searchLocal(input: PlanInput): Candidate | null {
+  let order = [...input.stops].sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+  let best = evaluate(order, input);
+  if (!best) return null;
+  const n = order.length;
+
+  for (let pass = 0; pass < MAX_SEARCH_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const relocated = [...order];
+        const [moved] = relocated.splice(i, 1);
+        relocated.splice(j, 0, moved);
+        const reversed =
+          i < j
+            ? [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)]
+            : null;
+        for (const next of reversed ? [relocated, reversed] : [relocated]) {
+          const candidate = evaluate(next, input);
+          if (candidate && beats(candidate, best)) {
+            best = candidate;
+            order = next;
+            improved = true;
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+}
+
+/**
+ * Plans the day with the least driving.
+ * @param input - Planner input.
+ * @returns The best plan, or null when no order fits - not even the booked one.
+ */
+export function planDay(input: PlanInput): DayPlan | null {
+  if (input.stops.length === 0) return { stops: [], driveMins: 0 };
+  const best =
+    input.stops.length <= MAX_EXHAUSTIVE_STOPS ? searchExhaustive(input) : searchLocal(input);
+  return best?.plan ?? null;
+}
@@ -8,9 +8,36 @@
 
 import type { ExistingBooking } from "@/features/booking/lib/booking";
 import { prisma } from "@/shared/lib/prisma";
+import { nzDateKey, nzMidnightUtc } from "@/shared/lib/timezone-utils";
 
 /**
- * Loads held and confirmed bookings that have not finished yet.
+ * Whole-day blockers for days with a pending clear-day request, so a day being
+ * emptied can't refill with new bookings before its block goes in. Ids carry a
+ * `clearing:` prefix so they never collide with a real booking id, and no buffer
+ * applies - the blocker already spans the whole NZ day.
+ * @param now - Cutoff instant; clearances for days already past are ignored.
+ * @returns One synthetic {@link ExistingBooking} per day being cleared.
+ */
+export async function loadClearingDayBlockers(now: Date): Promise<ExistingBooking[]> {
+  const clearances = await prisma.dayClearance.findMany({
+    where: { status: "pending", dateKey: { gte: nzDateKey(now) } },
+    select: { id: true, dateKey: true },
+  });
+  return clearances.map((c) => {
+    const [y, m, d] = c.dateKey.split("-").map(Number);
+    return {
+      id: `clearing:${c.id}`,
+      startAt: nzMidnightUtc(y, m, d),
+      endAt: nzMidnightUtc(y, m, d + 1),
+      bufferBeforeMin: 0,
+      bufferAfterMin: 0,
+    };
+  });
+}
+
+/**
+ * Loads held and confirmed bookings that have not finished yet, plus a blocker
+ * for every day that is being cleared.
  *
  * Only these can conflict: cancelled and completed bookings free their slot,
  * and anything already ended cannot overlap a future one.
@@ -23,14 +50,26 @@ export async function loadBlockingBookings(
   now: Date,
   options: { excludeId?: string } = {},
 ): Promise<ExistingBooking[]> {
-  return prisma.booking.findMany({
-    where: {
-      ...(options.excludeId ? { id: { not: options.excludeId } } : {}),
-      status: { in: ["held", "confirmed"] },
-      endAt: { gte: now },
-    },
-    // Selects exactly the ExistingBooking fields, so the result needs no
-    // re-projection at the call sites.
-    select: { id: true, startAt: true, endAt: true, bufferBeforeMin: true, bufferAfterMin: true },
-  });
+  const [bookings, clearing] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        ...(options.excludeId ? { id: { not: options.excludeId } } : {}),
+        status: { in: ["held", "confirmed"] },
+        endAt: { gte: now },
+      },
+      // Selects exactly the ExistingBooking fields, so the result needs no
+      // re-projection at the call sites.
+      select: {
+        id: true,
+        startAt: true,
+        endAt: true,
+        bufferBeforeMin: true,
+        bufferAfterMin: true,
+        calendarEventId: true,
+        technicianId: true,
+      },
+    }),
+    loadClearingDayBlockers(now),
+  ]);
+  return [...bookings, ...clearing];
 }
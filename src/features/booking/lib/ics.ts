@@ -1,5 +1,8 @@
 // src/features/booking/lib/ics.ts - minimal dependency-free RFC 5545 builder
-// (TEXT escaping, CRLF folding, UTC stamps, stable UID).
+// (TEXT escaping, CRLF folding, UTC stamps, stable UID; single events and
+// subscribable multi-event feeds) and the matching parser
+// for read-only feeds (unfolding, TZID/floating/all-day times, RRULE + EXDATE
+// expansion, RECURRENCE-ID overrides). Run `npm run check:ics` after changes.
 
 /** A single calendar event to serialise. */
 export interface IcsEvent {
@@ -15,7 +18,7 @@ export interface IcsEvent {
   description?: string;
   /** Optional location (the appointment address for in-person jobs). */
   location?: string;
-  /** Revision counter (rescheduleCount) - without a rise, clients ignore updates. */
+  /** Revision counter (calendarSequence) - without a rise, clients ignore updates. */
   sequence?: number;
   /** Organiser email, surfaced as ORGANIZER. */
   organiserEmail?: string;
@@ -82,21 +85,13 @@ function foldLine(line: string): string {
 }
 
 /**
- * Serialises one event as a complete `.ics` document. METHOD:PUBLISH (not
- * REQUEST) because this is an add-to-my-calendar file, not an invitation that
- * expects an RSVP - Google Calendar already invites the attendee separately.
+ * The VEVENT block for one event.
  * @param event - The event to serialise.
- * @returns The `.ics` file contents, CRLF-delimited.
+ * @param stamp - DTSTAMP for the event.
+ * @returns Unfolded content lines, BEGIN to END.
  */
-export function buildIcs(event: IcsEvent): string {
-  const stamp = event.stamp ?? new Date();
-
+function eventLines(event: IcsEvent, stamp: Date): string[] {
   const lines: string[] = [
-    "BEGIN:VCALENDAR",
-    "VERSION:2.0",
-    "PRODID:-//To the Point Tech//Booking//EN",
-    "CALSCALE:GREGORIAN",
-    "METHOD:PUBLISH",
     "BEGIN:VEVENT",
     `UID:${escapeText(event.uid)}`,
     `DTSTAMP:${formatUtc(stamp)}`,
@@ -112,13 +107,72 @@ export function buildIcs(event: IcsEvent): string {
   // URI value, not TEXT - escaping it would corrupt the query string.
   if (event.url) lines.push(`URL:${event.url}`);
 
-  lines.push("STATUS:CONFIRMED", "END:VEVENT", "END:VCALENDAR");
+  lines.push("STATUS:CONFIRMED", "END:VEVENT");
+  return lines;
+}
 
-  // Trailing CRLF: the spec expects every content line, including the last, to
-  // be terminated.
+/**
+ * Folds and CRLF-joins content lines. Trailing CRLF: the spec expects every
+ * content line, including the last, to be terminated.
+ * @param lines - Unfolded content lines.
+ * @returns The document text.
+ */
+function serialise(lines: string[]): string {
   return `${lines.map(foldLine).join("\r\n")}\r\n`;
 }
 
+/**
+ * Serialises one event as a complete `.ics` document. METHOD:PUBLISH (not
+ * REQUEST) because this is an add-to-my-calendar file, not an invitation that
+ * expects an RSVP - Google Calendar already invites the attendee separately.
+ * @param event - The event to serialise.
+ * @returns The `.ics` file contents, CRLF-delimited.
+ */
+export function buildIcs(event: IcsEvent): string {
+  return serialise([
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//To the Point Tech//Booking//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...eventLines(event, event.stamp ?? new Date()),
+    "END:VCALENDAR",
+  ]);
+}
+
+/**
+ * Serialises many events as one subscribable calendar. The name and refresh
+ * hints are what calendar apps show and poll by when the URL is added as a
+ * subscription rather than imported once.
+ * @param events - The events; each keeps its own stable UID.
+ * @param options - Feed-level fields.
+ * @param options.name - Calendar name shown by the subscribing app.
+ * @param options.refreshMinutes - Suggested poll interval.
+ * @param options.stamp - Generation time (DTSTAMP) for every event; defaults to now.
+ * @returns The `.ics` feed contents, CRLF-delimited.
+ */
+export function buildIcsFeed(
+  events: IcsEvent[],
+  options: { name: string; refreshMinutes: number; stamp?: Date },
+): string {
+  const stamp = options.stamp ?? new Date();
+  // Apple reads X-PUBLISHED-TTL, RFC 7986 clients REFRESH-INTERVAL; send both.
+  const interval = `PT${options.refreshMinutes}M`;
+  return serialise([
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//To the Point Tech//Booking feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `NAME:${escapeText(options.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${interval}`,
+    `X-PUBLISHED-TTL:${interval}`,
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ]);
+}
+
 /**
  * Builds a Google Calendar "add event" URL - the no-download path for people
  * who live in Google Calendar and would be confused by an `.ics` file.
@@ -138,3 +192,704 @@ export function googleCalendarUrl(
   if (event.location) params.set("location", event.location);
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
 }
+
+// --- Parser ---
+
+/** Zone for floating times and all-day dates: the business runs on NZ time. */
+const DEFAULT_TIME_ZONE = "Pacific/Auckland";
+
+/** Hard stop on recurrence periods walked per series, against runaway rules. */
+const MAX_RECURRENCE_PERIODS = 50_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** RRULE weekday codes in `getUTCDay()` order. */
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/** A DATE or DATE-TIME exactly as written in a feed, before any zone is applied. */
+export interface IcsDateValue {
+  year: number;
+  /** Month 1-12. */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** IANA zone from TZID, "UTC" for a trailing Z, or null for floating time (read as NZ). */
+  timeZone: string | null;
+  /** True for a VALUE=DATE (all-day) value. */
+  allDay: boolean;
+}
+
+/** One VEVENT as read from a feed, before recurrence expansion. */
+export interface ParsedIcsEvent {
+  uid: string;
+  start: IcsDateValue;
+  /** DTEND, when the event gave one. */
+  end: IcsDateValue | null;
+  /** DURATION in ms, when the event gave that instead of DTEND. */
+  durationMs: number | null;
+  summary?: string;
+  description?: string;
+  location?: string;
+  /** STATUS, upper-cased (e.g. "CANCELLED"). */
+  status?: string;
+  /** TRANSP:TRANSPARENT - shown as free, so it blocks nothing. */
+  transparent: boolean;
+  /** Raw RRULE value, e.g. "FREQ=WEEKLY;BYDAY=MO,WE". */
+  rrule?: string;
+  /** Instances removed from the series. */
+  exdates: IcsDateValue[];
+  /** Set on an override that replaces one instance of a recurring event. */
+  recurrenceId?: IcsDateValue;
+}
+
+/** One concrete occurrence inside the requested window. */
+export interface IcsOccurrence {
+  /** UID, suffixed with the instance's original start for a recurring event. */
+  id: string;
+  uid: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  summary?: string;
+  description?: string;
+  location?: string;
+  /** The series UID, for an instance of a recurring event. */
+  recurringUid?: string;
+}
+
+/** One property line split into its parts. */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Undoes CRLF folding: a line starting with a space or tab continues the one
+ * before it. Tolerates bare LF, which some servers emit.
+ * @param text - Raw feed text.
+ * @returns Unfolded, non-empty content lines.
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+/**
+ * Splits a string on a separator, ignoring separators inside double quotes
+ * (parameter values such as ALTREP URLs may contain `:` or `;`).
+ * @param input - Text to split.
+ * @param separator - Single-character separator.
+ * @param limit - Stop after this many parts; the remainder stays in the last one.
+ * @returns The parts.
+ */
+function splitUnquoted(input: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parses `NAME;PARAM=x;PARAM2="y":value`.
+ * @param line - One unfolded content line.
+ * @returns The parts, or null for a line with no value separator.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  const [head, value] = splitUnquoted(line, ":", 2);
+  if (value === undefined) return null;
+  const [name, ...rawParams] = splitUnquoted(head, ";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value };
+}
+
+/**
+ * Reverses {@link escapeText}.
+ * @param value - Escaped TEXT value.
+ * @returns Plain text.
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+/**
+ * Parses a DATE ("20261102") or DATE-TIME ("20261102T100000", optionally "Z").
+ * @param value - Raw property value (the first, for a comma list).
+ * @param params - The property's parameters (TZID, VALUE).
+ * @returns The value, or null when it doesn't parse.
+ */
+function parseDateValue(value: string, params: Record<string, string>): IcsDateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, se, z] = match;
+  const allDay = h === undefined || params.VALUE === "DATE";
+  return {
+    year: Number(y),
+    month: Number(mo),
+    day: Number(d),
+    hour: allDay ? 0 : Number(h),
+    minute: allDay ? 0 : Number(mi),
+    second: allDay ? 0 : Number(se),
+    timeZone: allDay ? null : z ? "UTC" : (params.TZID ?? null),
+    allDay,
+  };
+}
+
+/**
+ * Parses an RFC 5545 DURATION ("PT1H30M", "P1D", "P2W", "-PT15M").
+ * @param value - Raw DURATION value.
+ * @returns Length in ms, or null when it doesn't parse.
+ */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    Number(w ?? 0) * 7 * DAY_MS +
+    Number(d ?? 0) * DAY_MS +
+    Number(h ?? 0) * 60 * 60 * 1000 +
+    Number(m ?? 0) * 60 * 1000 +
+    Number(s ?? 0) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Reads every VEVENT from an iCalendar document. Properties of nested
+ * components (VALARM) are skipped, VTIMEZONE blocks are ignored in favour of
+ * the IANA zone database, and a VEVENT without a UID or a parseable DTSTART is
+ * dropped.
+ * @param text - The `.ics` document.
+ * @returns Events in document order, overrides included.
+ */
+export function parseIcs(text: string): ParsedIcsEvent[] {
+  const events: ParsedIcsEvent[] = [];
+  let current: Partial<ParsedIcsEvent> | null = null;
+  // Depth inside the current VEVENT: 1 = its own properties, >1 = a VALARM etc.
+  let depth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+    const { name, params, value } = prop;
+
+    if (name === "BEGIN") {
+      if (current) depth++;
+      else if (value.trim().toUpperCase() === "VEVENT") {
+        current = { exdates: [], transparent: false, end: null, durationMs: null };
+        depth = 1;
+      }
+      continue;
+    }
+    if (name === "END") {
+      if (!current) continue;
+      depth--;
+      if (depth === 0) {
+        if (current.uid && current.start) events.push(current as ParsedIcsEvent);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || depth !== 1) continue;
+
+    switch (name) {
+      case "UID":
+        current.uid = value.trim();
+        break;
+      case "DTSTART":
+        current.start = parseDateValue(value, params) ?? undefined;
+        break;
+      case "DTEND":
+        current.end = parseDateValue(value, params);
+        break;
+      case "DURATION":
+        current.durationMs = parseDuration(value);
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(value);
+        break;
+      case "STATUS":
+        current.status = value.trim().toUpperCase();
+        break;
+      case "TRANSP":
+        current.transparent = value.trim().toUpperCase() === "TRANSPARENT";
+        break;
+      case "RRULE":
+        current.rrule = value.trim();
+        break;
+      case "EXDATE":
+        for (const part of value.split(",")) {
+          const date = parseDateValue(part, params);
+          if (date) current.exdates!.push(date);
+        }
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = parseDateValue(value, params) ?? undefined;
+        break;
+    }
+  }
+  return events;
+}
+
+// Formatters per zone; null marks a zone name Intl doesn't know.
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * A formatter reading wall-clock parts in a zone. Unknown names get one retry
+ * with their last two path segments, which rescues prefixed ids such as
+ * "/mozilla.org/20070129_1/Pacific/Auckland".
+ * @param timeZone - Zone name from a TZID.
+ * @returns The formatter, or null when the zone is unknown.
+ */
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  const cached = zoneFormatters.get(timeZone);
+  if (cached !== undefined) return cached;
+  const candidates = [timeZone, timeZone.split("/").slice(-2).join("/")];
+  let formatter: Intl.DateTimeFormat | null = null;
+  for (const candidate of candidates) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: candidate,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+      break;
+    } catch {
+      // RangeError: not an IANA zone (e.g. a Windows name) - try the next form.
+    }
+  }
+  zoneFormatters.set(timeZone, formatter);
+  return formatter;
+}
+
+/**
+ * A zone's UTC offset at an instant.
+ * @param instantMs - The instant.
+ * @param formatter - Formatter for the zone.
+ * @returns Offset in ms (positive east of UTC).
+ */
+function offsetAt(instantMs: number, formatter: Intl.DateTimeFormat): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instantMs))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const wallAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallAsUtc - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * Converts a feed date to the instant it names. A wall-clock time in a zone is
+ * resolved with a two-pass offset lookup so times either side of a DST change
+ * land correctly; floating times, all-day dates and unknown zones read as NZ.
+ * @param value - Parsed date value.
+ * @returns The UTC instant.
+ */
+export function icsDateToUtc(value: IcsDateValue): Date {
+  const wall = Date.UTC(
+    value.year,
+    value.month - 1,
+    value.day,
+    value.hour,
+    value.minute,
+    value.second,
+  );
+  if (value.timeZone === "UTC") return new Date(wall);
+  const formatter =
+    zoneFormatter(value.timeZone ?? DEFAULT_TIME_ZONE) ?? zoneFormatter(DEFAULT_TIME_ZONE)!;
+  const firstGuess = wall - offsetAt(wall, formatter);
+  return new Date(wall - offsetAt(firstGuess, formatter));
+}
+
+/** A parsed RRULE, limited to the parts this expander honours. */
+interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  /** Last instant an occurrence may start at (inclusive). */
+  until: number | null;
+  /** Weekdays (0 = Sunday), with an nth-in-month ordinal for MONTHLY/YEARLY. */
+  byDay: Array<{ weekday: number; ordinal: number | null }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  /** First day of the week for WEEKLY intervals (0 = Sunday). */
+  weekStart: number;
+}
+
+/**
+ * Parses an RRULE value. Sub-daily frequencies and BYSETPOS/BYHOUR-style parts
+ * aren't supported; an unsupported FREQ makes the event a single occurrence.
+ * @param rule - Raw RRULE value.
+ * @returns The rule, or null when FREQ is missing or unsupported.
+ */
+function parseRrule(rule: string): RecurrenceRule | null {
+  const parts = new Map(
+    rule.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    }),
+  );
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+  /**
+   * A comma-separated rule part as a list.
+   * @param key - Rule part name, e.g. "BYDAY".
+   * @returns Its items; empty when absent.
+   */
+  const list = (key: string): string[] => (parts.get(key) ?? "").split(",").filter(Boolean);
+  const untilRaw = parts.get("UNTIL");
+  const untilValue = untilRaw ? parseDateValue(untilRaw, {}) : null;
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.get("INTERVAL") ?? 1) || 1),
+    count: parts.has("COUNT") ? Number(parts.get("COUNT")) : null,
+    // A DATE-only UNTIL includes that whole day.
+    until: untilValue
+      ? icsDateToUtc(untilValue).getTime() + (untilValue.allDay ? DAY_MS - 1 : 0)
+      : null,
+    byDay: list("BYDAY").flatMap((code) => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+      if (!match) return [];
+      return [
+        { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : null },
+      ];
+    }),
+    byMonthDay: list("BYMONTHDAY").map(Number).filter(Number.isFinite),
+    byMonth: list("BYMONTH").map(Number).filter(Number.isFinite),
+    weekStart: Math.max(0, WEEKDAY_CODES.indexOf(parts.get("WKST") ?? "MO")),
+  };
+}
+
+/**
+ * Days in a month.
+ * @param year - Full year.
+ * @param month - Month 1-12.
+ * @returns 28-31.
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * The days of one month a MONTHLY (or per-month YEARLY) rule selects.
+ * @param year - Full year.
+ * @param month - Month 1-12.
+ * @param rule - The rule.
+ * @param startDay - DTSTART's day of month, the default selection.
+ * @returns Wall-date midnights (as UTC ms), ascending.
+ */
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const dim = daysInMonth(year, month);
+  /**
+   * Midnight of a day in this month.
+   * @param day - Day of month.
+   * @returns Wall-date midnight as UTC ms.
+   */
+  const dayMs = (day: number): number => Date.UTC(year, month - 1, day);
+  let days: number[];
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map((d) => (d < 0 ? dim + 1 + d : d)).filter((d) => d >= 1 && d <= dim);
+    if (rule.byDay.length > 0) {
+      const weekdays = new Set(rule.byDay.map((b) => b.weekday));
+      days = days.filter((d) => weekdays.has(new Date(dayMs(d)).getUTCDay()));
+    }
+  } else if (rule.byDay.length > 0) {
+    days = [];
+    const firstWeekday = new Date(dayMs(1)).getUTCDay();
+    for (const { weekday, ordinal } of rule.byDay) {
+      const first = 1 + ((weekday - firstWeekday + 7) % 7);
+      const all: number[] = [];
+      for (let d = first; d <= dim; d += 7) all.push(d);
+      if (ordinal === null) days.push(...all);
+      else {
+        const picked = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+        if (picked !== undefined) days.push(picked);
+      }
+    }
+  } else {
+    days = startDay <= dim ? [startDay] : [];
+  }
+  return [...new Set(days)].sort((a, b) => a - b).map(dayMs);
+}
+
+/**
+ * Wall-clock starts of a series, from DTSTART up to (about) the window end.
+ * COUNT is honoured from DTSTART, not from the window, so a counted series
+ * ends where it would in any calendar app.
+ * @param start - DTSTART.
+ * @param rule - Parsed RRULE.
+ * @param windowEnd - Stop once periods pass this instant.
+ * @returns Wall-clock starts (as UTC ms of the wall time), ascending.
+ */
+function expandRule(start: IcsDateValue, rule: RecurrenceRule, windowEnd: Date): number[] {
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  const timeOfDay = ((start.hour * 60 + start.minute) * 60 + start.second) * 1000;
+  const startWall = startDay + timeOfDay;
+  // Wall time runs at most ~14h ahead of UTC; a day's slack covers any zone.
+  const stopWall = windowEnd.getTime() + DAY_MS;
+  const startWeekday = new Date(startDay).getUTCDay();
+  const byMonth = new Set(rule.byMonth);
+  const weekdays = new Set(rule.byDay.map((b) => b.weekday));
+
+  const starts: number[] = [];
+  let emitted = 0;
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    let periodStart: number;
+    let candidates: number[];
+    const step = period * rule.interval;
+    switch (rule.freq) {
+      case "DAILY":
+        periodStart = startDay + step * DAY_MS;
+        candidates = [periodStart];
+        break;
+      case "WEEKLY": {
+        const weekOffset = (startWeekday - rule.weekStart + 7) % 7;
+        periodStart = startDay - weekOffset * DAY_MS + step * 7 * DAY_MS;
+        const days = weekdays.size > 0 ? [...weekdays] : [startWeekday];
+        candidates = days
+          .map((wd) => periodStart + ((wd - rule.weekStart + 7) % 7) * DAY_MS)
+          .sort((a, b) => a - b);
+        break;
+      }
+      case "MONTHLY": {
+        const monthIndex = start.month - 1 + step;
+        const year = start.year + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        periodStart = Date.UTC(year, month - 1, 1);
+        candidates = monthDays(year, month, rule, start.day);
+        break;
+      }
+      case "YEARLY": {
+        const year = start.year + step;
+        periodStart = Date.UTC(year, 0, 1);
+        const months =
+          rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+        candidates = months.flatMap((month) => monthDays(year, month, rule, start.day));
+        break;
+      }
+    }
+    if (periodStart > stopWall) break;
+
+    for (const day of candidates) {
+      const date = new Date(day);
+      if (byMonth.size > 0 && !byMonth.has(date.getUTCMonth() + 1)) continue;
+      if (rule.freq === "DAILY") {
+        if (weekdays.size > 0 && !weekdays.has(date.getUTCDay())) continue;
+        if (rule.byMonthDay.length > 0 && !rule.byMonthDay.includes(date.getUTCDate())) continue;
+      }
+      const wall = day + timeOfDay;
+      if (wall < startWall) continue;
+      if (rule.count !== null && emitted >= rule.count) return starts;
+      if (rule.until !== null && wallToUtc(wall, start).getTime() > rule.until) return starts;
+      emitted++;
+      starts.push(wall);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Resolves a wall-clock time in a template value's zone.
+ * @param wall - Wall time as UTC ms.
+ * @param template - Value supplying the zone and all-day flag.
+ * @returns The instant.
+ */
+function wallToUtc(wall: number, template: IcsDateValue): Date {
+  const d = new Date(wall);
+  return icsDateToUtc({
+    ...template,
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+    second: d.getUTCSeconds(),
+  });
+}
+
+/**
+ * An event's length. All-day spans are kept in whole days (so a multi-day
+ * block survives a DST change); timed spans are exact. An event with neither
+ * DTEND nor DURATION lasts a day when all-day and is instantaneous otherwise.
+ * @param event - Parsed event.
+ * @returns Length in ms, or in days for an all-day event.
+ */
+function eventLength(event: ParsedIcsEvent): { ms: number } | { days: number } {
+  if (event.start.allDay) {
+    if (event.end) {
+      const startDay = Date.UTC(event.start.year, event.start.month - 1, event.start.day);
+      const endDay = Date.UTC(event.end.year, event.end.month - 1, event.end.day);
+      return { days: Math.max(1, Math.round((endDay - startDay) / DAY_MS)) };
+    }
+    return { days: Math.max(1, Math.round((event.durationMs ?? DAY_MS) / DAY_MS)) };
+  }
+  if (event.end) {
+    return { ms: icsDateToUtc(event.end).getTime() - icsDateToUtc(event.start).getTime() };
+  }
+  return { ms: event.durationMs ?? 0 };
+}
+
+/**
+ * Builds one occurrence of an event starting at a wall-clock time.
+ * @param event - Parsed event (the override's own fields for an override).
+ * @param wall - Start wall time as UTC ms.
+ * @param id - Occurrence id.
+ * @param recurringUid - Series UID when this is a recurring instance.
+ * @returns The occurrence.
+ */
+function toOccurrence(
+  event: ParsedIcsEvent,
+  wall: number,
+  id: string,
+  recurringUid: string | undefined,
+): IcsOccurrence {
+  const length = eventLength(event);
+  const start = wallToUtc(wall, event.start);
+  const end =
+    "days" in length
+      ? wallToUtc(wall + length.days * DAY_MS, event.start)
+      : new Date(start.getTime() + length.ms);
+  return {
+    id,
+    uid: event.uid,
+    start,
+    end,
+    allDay: event.start.allDay,
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    recurringUid,
+  };
+}
+
+/**
+ * Wall time of a parsed value, as UTC ms.
+ * @param value - Parsed value.
+ * @returns Wall time.
+ */
+function wallOf(value: IcsDateValue): number {
+  return Date.UTC(value.year, value.month - 1, value.day, value.hour, value.minute, value.second);
+}
+
+/**
+ * Turns parsed events into the concrete occurrences that overlap a window:
+ * recurring series are expanded, EXDATEs removed, and instances with a
+ * RECURRENCE-ID override replaced by the override. Cancelled and transparent
+ * (free) events, and zero-length ones, block nothing and are left out.
+ * @param events - Output of {@link parseIcs} (may mix several documents).
+ * @param windowStart - Window start.
+ * @param windowEnd - Window end.
+ * @returns Occurrences overlapping the window, by start time.
+ */
+export function expandIcsEvents(
+  events: ParsedIcsEvent[],
+  windowStart: Date,
+  windowEnd: Date,
+): IcsOccurrence[] {
+  const overridesByUid = new Map<string, ParsedIcsEvent[]>();
+  for (const event of events) {
+    if (!event.recurrenceId) continue;
+    overridesByUid.set(event.uid, [...(overridesByUid.get(event.uid) ?? []), event]);
+  }
+  const masterUids = new Set(events.filter((e) => e.rrule && !e.recurrenceId).map((e) => e.uid));
+
+  const occurrences: IcsOccurrence[] = [];
+  /**
+   * Whether an event takes time at all.
+   * @param event - Parsed event.
+   * @returns False for cancelled or transparent events.
+   */
+  const blocks = (event: ParsedIcsEvent): boolean =>
+    event.status !== "CANCELLED" && !event.transparent;
+
+  for (const event of events) {
+    if (event.recurrenceId) {
+      // Overrides of a series are emitted alongside their master below; an
+      // orphan (master outside this feed) stands on its own.
+      if (masterUids.has(event.uid) || !blocks(event)) continue;
+      occurrences.push(
+        toOccurrence(
+          event,
+          wallOf(event.start),
+          `${event.uid}_${formatUtc(icsDateToUtc(event.recurrenceId))}`,
+          event.uid,
+        ),
+      );
+      continue;
+    }
+
+    const rule = event.rrule ? parseRrule(event.rrule) : null;
+    if (!rule) {
+      if (blocks(event))
+        occurrences.push(toOccurrence(event, wallOf(event.start), event.uid, undefined));
+      continue;
+    }
+    if (event.status === "CANCELLED") continue;
+
+    const excluded = new Set(event.exdates.map((d) => icsDateToUtc(d).getTime()));
+    const overrides = new Map(
+      (overridesByUid.get(event.uid) ?? []).map((o) => [
+        icsDateToUtc(o.recurrenceId!).getTime(),
+        o,
+      ]),
+    );
+    for (const wall of expandRule(event.start, rule, windowEnd)) {
+      const original = wallToUtc(wall, event.start);
+      if (excluded.has(original.getTime())) continue;
+      const id = `${event.uid}_${formatUtc(original)}`;
+      const override = overrides.get(original.getTime());
+      if (override) {
+        if (blocks(override))
+          occurrences.push(toOccurrence(override, wallOf(override.start), id, event.uid));
+      } else if (!event.transparent) {
+        occurrences.push(toOccurrence(event, wall, id, event.uid));
+      }
+    }
+  }
+
+  return occurrences
+    .filter((o) => o.end > o.start && o.end > windowStart && o.start < windowEnd)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
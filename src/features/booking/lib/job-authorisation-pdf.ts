@@ -0,0 +1,275 @@
+// src/features/booking/lib/job-authorisation-pdf.ts
+/**
+ * @description Signed job authorisation as an A4 PDF: business and customer
+ * details, the work agreed to, the policy terms, then the drawn signature with
+ * the typed name and time. Plain pdf-lib text in the invoice PDF's palette;
+ * pages are added if a long scope runs on.
+ */
+import type { AuthorisationTerm } from "@/features/booking/lib/job-authorisation";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { formatDateTimeLong } from "@/shared/lib/date-format";
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "pdf-lib";
+
+// Same palette as invoice-pdf.ts.
+const BRAND = rgb(12 / 255, 10 / 255, 62 / 255); // russian-violet #0c0a3e
+const DARK = rgb(30 / 255, 41 / 255, 59 / 255); // slate-800 #1e293b
+const MID = rgb(100 / 255, 116 / 255, 139 / 255); // slate-500 #64748b
+const LIGHT = rgb(203 / 255, 213 / 255, 225 / 255); // slate-300 #cbd5e1
+
+const MARGIN = 42;
+const PAGE_W = 595.28;
+const PAGE_H = 841.89;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const ROW_H = 15;
+const SIGNATURE_W = 220;
+const SIGNATURE_H = 70;
+
+/** Everything printed on the document. */
+export interface JobAuthorisationDoc {
+  /** Authorisation id, printed as the reference. */
+  id: string;
+  customerName: string;
+  address: string | null;
+  /** Booked start of the visit. */
+  visitAt: Date;
+  technicianName: string | null;
+  scope: string[];
+  terms: AuthorisationTerm[];
+  signedName: string;
+  signedAt: Date;
+  /** PNG bytes from the signature pad. */
+  signaturePng: Buffer;
+}
+
+/** Drawing state threaded through the sections; `page` changes on overflow. */
+interface AuthorisationPdfCtx {
+  doc: PDFDocument;
+  page: PDFPage;
+  font: PDFFont;
+  bold: PDFFont;
+  y: number;
+}
+
+/**
+ * Replaces characters the standard (WinAnsi) fonts can't encode, so a stray
+ * emoji in a name can't fail the whole render. Intl's narrow no-break space
+ * (in "2:30 pm") becomes a plain space first.
+ * @param text - Source text.
+ * @returns Encodable text.
+ */
+function pdfSafe(text: string): string {
+  return text.replace(/[\u2009\u202F]/g, " ").replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+/**
+ * Greedy word-wrap: packs words into lines that fit within maxW at size.
+ * @param text - Source string to wrap.
+ * @param maxW - Maximum line width in PDF points.
+ * @param size - Font size in PDF points.
+ * @param font - Font used to measure widths.
+ * @returns Array of line strings (always at least one element).
+ */
+function wrapText(text: string, maxW: number, size: number, font: PDFFont): string[] {
+  const words = pdfSafe(text).split(/\s+/);
+  const lines: string[] = [];
+  let cur = "";
+  for (const w of words) {
+    const test = cur ? `${cur} ${w}` : w;
+    if (font.widthOfTextAtSize(test, size) <= maxW) {
+      cur = test;
+    } else {
+      if (cur) lines.push(cur);
+      cur = w;
+    }
+  }
+  if (cur) lines.push(cur);
+  return lines.length ? lines : [""];
+}
+
+/**
+ * Starts a new page when fewer than `needed` points remain above the margin.
+ * @param ctx - PDF drawing context.
+ * @param needed - Height the next block needs.
+ */
+function ensureSpace(ctx: AuthorisationPdfCtx, needed: number): void {
+  if (ctx.y - needed >= MARGIN) return;
+  ctx.page = ctx.doc.addPage([PAGE_W, PAGE_H]);
+  ctx.y = PAGE_H - MARGIN;
+}
+
+/**
+ * Draws text at the current row.
+ * @param ctx - PDF drawing context.
+ * @param text - Text to draw (already encodable).
+ * @param x - Left edge x.
+ * @param size - Font size.
+ * @param font - Font.
+ * @param color - Text colour (defaults to DARK).
+ */
+function drawAt(
+  ctx: AuthorisationPdfCtx,
+  text: string,
+  x: number,
+  size: number,
+  font: PDFFont,
+  color = DARK,
+): void {
+  ctx.page.drawText(text, { x, y: ctx.y, size, font, color });
+}
+
+/**
+ * Draws a section heading with a thin rule under it.
+ * @param ctx - PDF drawing context.
+ * @param title - Heading text.
+ */
+function drawHeading(ctx: AuthorisationPdfCtx, title: string): void {
+  ensureSpace(ctx, ROW_H * 3);
+  ctx.y -= 10;
+  drawAt(ctx, title, MARGIN, 12, ctx.bold, BRAND);
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: ctx.y - 5 },
+    end: { x: MARGIN + CONTENT_W, y: ctx.y - 5 },
+    thickness: 0.5,
+    color: LIGHT,
+  });
+  ctx.y -= ROW_H + 4;
+}
+
+/**
+ * Draws wrapped text, breaking onto a new page as needed.
+ * @param ctx - PDF drawing context.
+ * @param text - Text to wrap.
+ * @param x - Left edge x.
+ * @param size - Font size.
+ * @param color - Text colour (defaults to DARK).
+ */
+function drawWrapped(
+  ctx: AuthorisationPdfCtx,
+  text: string,
+  x: number,
+  size: number,
+  color = DARK,
+): void {
+  for (const line of wrapText(text, MARGIN + CONTENT_W - x, size, ctx.font)) {
+    ensureSpace(ctx, ROW_H);
+    drawAt(ctx, line, x, size, ctx.font, color);
+    ctx.y -= ROW_H - 2;
+  }
+}
+
+/**
+ * Draws the signature block: the drawn signature scaled into its box, then
+ * the typed name and the time of signing.
+ * @param ctx - PDF drawing context.
+ * @param doc - The document being rendered.
+ */
+async function drawSignature(ctx: AuthorisationPdfCtx, doc: JobAuthorisationDoc): Promise<void> {
+  ensureSpace(ctx, SIGNATURE_H + ROW_H * 5);
+  drawHeading(ctx, "Signed");
+  const image = await ctx.doc.embedPng(doc.signaturePng);
+  const scale = Math.min(SIGNATURE_W / image.width, SIGNATURE_H / image.height, 1);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  const boxTop = ctx.y + 8;
+  ctx.page.drawImage(image, {
+    x: MARGIN,
+    y: boxTop - SIGNATURE_H + (SIGNATURE_H - h) / 2,
+    width: w,
+    height: h,
+  });
+  ctx.y = boxTop - SIGNATURE_H - 6;
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: ctx.y + 2 },
+    end: { x: MARGIN + SIGNATURE_W, y: ctx.y + 2 },
+    thickness: 0.75,
+    color: MID,
+  });
+  ctx.y -= ROW_H;
+  drawAt(ctx, pdfSafe(doc.signedName), MARGIN, 10, ctx.bold);
+  ctx.y -= ROW_H - 2;
+  drawAt(ctx, pdfSafe(`Signed ${formatDateTimeLong(doc.signedAt)}`), MARGIN, 9, ctx.font, MID);
+  ctx.y -= ROW_H - 2;
+}
+
+/**
+ * Renders a signed job authorisation.
+ * @param doc - What was agreed and signed.
+ * @returns PDF content as a Buffer.
+ */
+export async function generateJobAuthorisationPdf(doc: JobAuthorisationDoc): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const ctx: AuthorisationPdfCtx = {
+    doc: pdf,
+    page: pdf.addPage([PAGE_W, PAGE_H]),
+    font: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    y: PAGE_H - MARGIN - 14,
+  };
+  const identity = await getIdentity();
+
+  drawAt(ctx, "JOB AUTHORISATION", MARGIN, 16, ctx.bold, BRAND);
+  const company = pdfSafe(identity.company || identity.name);
+  drawAt(
+    ctx,
+    company,
+    MARGIN + CONTENT_W - ctx.bold.widthOfTextAtSize(company, 11),
+    11,
+    ctx.bold,
+    BRAND,
+  );
+  ctx.y -= 22;
+
+  const details: Array<[string, string]> = [
+    ["Customer", doc.customerName],
+    ...(doc.address ? ([["Address", doc.address]] as Array<[string, string]>) : []),
+    ["Visit", formatDateTimeLong(doc.visitAt)],
+    ...(doc.technicianName
+      ? ([["Technician", doc.technicianName]] as Array<[string, string]>)
+      : []),
+  ];
+  for (const [label, value] of details) {
+    drawAt(ctx, label, MARGIN, 9, ctx.bold, MID);
+    drawWrapped(ctx, value, MARGIN + 80, 10);
+  }
+
+  drawHeading(ctx, "Work I'm authorising");
+  for (const line of doc.scope) {
+    ensureSpace(ctx, ROW_H);
+    drawAt(ctx, "-", MARGIN + 4, 10, ctx.font);
+    drawWrapped(ctx, line, MARGIN + 16, 10);
+  }
+  ctx.y -= 4;
+  drawWrapped(
+    ctx,
+    "Anything beyond this list is agreed with me first and billed at the agreed rate.",
+    MARGIN,
+    9,
+    MID,
+  );
+
+  for (const term of doc.terms) {
+    drawHeading(ctx, term.title);
+    const paragraphs = term.body.replace(/\*\*([^*]+)\*\*/g, "$1").split(/\n\n+/);
+    for (const paragraph of paragraphs) {
+      drawWrapped(ctx, paragraph, MARGIN, 9.5);
+      ctx.y -= 4;
+    }
+  }
+
+  ctx.y -= 6;
+  ensureSpace(ctx, ROW_H * 3);
+  drawWrapped(
+    ctx,
+    "By signing I confirm I have read the above, I authorise the work listed, and I am the owner of the equipment or have the owner's permission.",
+    MARGIN,
+    10,
+  );
+
+  await drawSignature(ctx, doc);
+
+  ctx.y -= 10;
+  drawAt(ctx, `Reference ${doc.id}`, MARGIN, 8, ctx.font, MID);
+
+  const bytes = await pdf.save();
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,173 @@
+// src/features/booking/lib/job-authorisation.server.ts
+/**
+ * @description Server side of job authorisations. The drawn signature is
+ * decoded and re-encoded with sharp (same reasoning as booking photos: nothing
+ * from the upload survives byte-for-byte), a blank pad is refused, and the
+ * signed PDF is rendered, written through the storage adapter and archived to
+ * Drive. The stored PDF is the record; a failed Drive upload only leaves the
+ * archive link empty.
+ */
+
+import {
+  authorisationTerms,
+  JOB_AUTHORISATION_LIMITS,
+  jobAuthorisationError,
+  normaliseScope,
+} from "@/features/booking/lib/job-authorisation";
+import { generateJobAuthorisationPdf } from "@/features/booking/lib/job-authorisation-pdf";
+import { uploadJobAuthorisationPdf } from "@/features/business/lib/google-drive";
+import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { parseObjectId } from "@/features/business/lib/validation";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { getStorage } from "@/shared/lib/storage/storage";
+import { nzDateKey } from "@/shared/lib/timezone-utils";
+import type { JobAuthorisation } from "@prisma/client";
+import { randomUUID } from "crypto";
+import "server-only";
+import sharp from "sharp";
+
+/** What the signing page posts. */
+export interface SignJobAuthorisationInput {
+  scope: string[];
+  signedName: string;
+  /** `data:image/png;base64,...` from the signature pad. */
+  signature: string;
+}
+
+const PNG_DATA_URL = "data:image/png;base64,";
+
+/**
+ * Decodes the signature pad's PNG and re-encodes it, trimmed to the ink.
+ * @param dataUrl - PNG data URL from the pad.
+ * @returns Clean PNG bytes, null for a blank pad, or a user-facing error.
+ */
+async function processSignature(dataUrl: string): Promise<Buffer | null | string> {
+  if (!dataUrl.startsWith(PNG_DATA_URL)) return null;
+  const input = Buffer.from(dataUrl.slice(PNG_DATA_URL.length), "base64");
+  if (input.length === 0) return null;
+  if (input.length > JOB_AUTHORISATION_LIMITS.maxSignatureBytes) {
+    return "The signature is too large - please clear it and sign again.";
+  }
+  try {
+    const image = sharp(input, { failOn: "error" });
+    const { format } = await image.metadata();
+    if (format !== "png") return "The signature couldn't be read - please sign again.";
+    // The pad draws ink on a transparent canvas: no opaque pixel, no signature.
+    const { channels } = await image.clone().ensureAlpha().stats();
+    if ((channels[3]?.max ?? 0) === 0) return null;
+    return await image.trim().png().toBuffer();
+  } catch (err) {
+    console.warn("[job-authorisation] Could not decode signature:", err);
+    return "The signature couldn't be read - please sign again.";
+  }
+}
+
+/**
+ * Records a signed authorisation on a booking: renders the PDF, stores it,
+ * archives it to Drive, and appends the row to `Booking.authorisations`.
+ * @param bookingId - Booking the visit belongs to.
+ * @param input - Scope, typed name and drawn signature.
+ * @returns The stored authorisation, or an error and HTTP status.
+ */
+export async function signJobAuthorisation(
+  bookingId: string,
+  input: SignJobAuthorisationInput,
+): Promise<
+  { ok: true; authorisation: JobAuthorisation } | { ok: false; error: string; status: number }
+> {
+  if (!parseObjectId(bookingId)) return { ok: false, error: "Booking not found.", status: 404 };
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      id: true,
+      name: true,
+      address: true,
+      unit: true,
+      startAt: true,
+      status: true,
+      technicianId: true,
+    },
+  });
+  if (!booking) return { ok: false, error: "Booking not found.", status: 404 };
+  if (booking.status !== "confirmed" && booking.status !== "completed") {
+    return { ok: false, error: "Only a confirmed booking can be authorised.", status: 409 };
+  }
+
+  const scope = normaliseScope(input.scope);
+  const signedName = input.signedName.trim().replace(/\s+/g, " ");
+  const signaturePng = await processSignature(input.signature);
+  if (typeof signaturePng === "string") return { ok: false, error: signaturePng, status: 400 };
+  const invalid = jobAuthorisationError({ scope, signedName, hasSignature: signaturePng !== null });
+  if (invalid || !signaturePng) {
+    return { ok: false, error: invalid ?? "Please sign in the box.", status: 400 };
+  }
+
+  const [policy, settings] = await Promise.all([getPolicy(), getSettings()]);
+  const technician = booking.technicianId
+    ? settings.availability.technicians.find((t) => t.id === booking.technicianId)
+    : undefined;
+  const id = randomUUID();
+  const signedAt = new Date();
+  const pdf = await generateJobAuthorisationPdf({
+    id,
+    customerName: booking.name,
+    address: booking.address ? [booking.unit, booking.address].filter(Boolean).join(", ") : null,
+    visitAt: booking.startAt,
+    technicianName: technician?.name ?? null,
+    scope,
+    terms: authorisationTerms(policy.WORKMANSHIP_WINDOW_DAYS),
+    signedName,
+    signedAt,
+    signaturePng,
+  });
+
+  const key = `bookings/${booking.id}/authorisation-${id}.pdf`;
+  await getStorage().put(key, pdf);
+
+  const dateKey = nzDateKey(signedAt);
+  const drive = await uploadJobAuthorisationPdf(
+    pdf,
+    `Job authorisation ${dateKey} ${booking.name}`,
+    dateKey.slice(0, 4),
+  ).catch((err: unknown) => {
+    console.error(`[job-authorisation] Drive upload failed for ${booking.id}:`, err);
+    return null;
+  });
+
+  const authorisation: JobAuthorisation = {
+    id,
+    key,
+    scope,
+    signedName,
+    signedAt,
+    sizeBytes: pdf.length,
+    driveFileId: drive?.fileId ?? null,
+    driveWebUrl: drive?.webUrl ?? null,
+  };
+  await prisma.booking.update({
+    where: { id: booking.id },
+    data: { authorisations: { push: authorisation } },
+  });
+  console.log(`[job-authorisation] Booking ${booking.id} authorised by ${signedName}.`);
+  return { ok: true, authorisation };
+}
+
+/**
+ * Removes a booking's signed PDFs from storage. Best effort: a failed delete
+ * is logged, never thrown, so it can't block deleting the booking itself. The
+ * Drive archive copies are kept.
+ * @param authorisations - The booking's authorisation rows.
+ */
+export async function deleteJobAuthorisationFiles(
+  authorisations: Pick<JobAuthorisation, "key">[],
+): Promise<void> {
+  const storage = getStorage();
+  await Promise.all(
+    authorisations.map((a) =>
+      storage
+        .delete(a.key)
+        .catch((err) => console.error(`[job-authorisation] Failed to delete ${a.key}:`, err)),
+    ),
+  );
+}
@@ -0,0 +1,99 @@
+// src/features/booking/lib/job-authorisation.ts
+/**
+ * @description The customer's written OK for a visit's work, signed on the
+ * technician's tablet before anything destructive starts. Limits, the default
+ * scope (the tasks the estimator quoted at booking) and the policy terms the
+ * document carries. Shared by the signing page (instant feedback) and the
+ * authorisation route (authoritative check), so the two can never disagree.
+ */
+
+import { dataLossCopy, partsCopy, workmanshipCopy } from "@/features/business/lib/pricing-policy";
+
+/** How much scope and signature one authorisation takes. */
+export const JOB_AUTHORISATION_LIMITS = {
+  maxScopeLines: 20,
+  maxLineLength: 200,
+  maxNameLength: 100,
+  /** Encoded PNG from the signature pad. */
+  maxSignatureBytes: 300 * 1024,
+} as const;
+
+/** One titled section of the terms printed under the scope. */
+export interface AuthorisationTerm {
+  title: string;
+  /** Policy copy; may carry `**…**` emphasis markers. */
+  body: string;
+}
+
+/**
+ * Scope the document starts from: the tasks the estimator quoted at booking,
+ * else what the customer typed into it. The technician edits it before handing
+ * the tablet over.
+ * @param booking - The booking's quote snapshot.
+ * @param booking.quotedTasksAtBooking - Tasks the AI split the quoted job into.
+ * @param booking.quotedDescriptionAtBooking - What the customer typed, if anything.
+ * @returns Scope lines, possibly empty.
+ */
+export function defaultScope(booking: {
+  quotedTasksAtBooking: ReadonlyArray<{ label: string }>;
+  quotedDescriptionAtBooking: string | null;
+}): string[] {
+  const tasks = booking.quotedTasksAtBooking.map((t) => t.label.trim()).filter(Boolean);
+  if (tasks.length > 0) return tasks.slice(0, JOB_AUTHORISATION_LIMITS.maxScopeLines);
+  const asked = booking.quotedDescriptionAtBooking?.trim();
+  return asked ? [asked.slice(0, JOB_AUTHORISATION_LIMITS.maxLineLength)] : [];
+}
+
+/**
+ * Trims scope lines and drops the blank ones.
+ * @param lines - Lines as typed.
+ * @returns Lines worth printing.
+ */
+export function normaliseScope(lines: ReadonlyArray<string>): string[] {
+  return lines.map((l) => l.trim().replace(/\s+/g, " ")).filter(Boolean);
+}
+
+/**
+ * Validates an authorisation against {@link JOB_AUTHORISATION_LIMITS}.
+ * @param input - What is about to be signed.
+ * @param input.scope - Normalised scope lines.
+ * @param input.signedName - Name the customer typed.
+ * @param input.hasSignature - Whether anything was drawn on the pad.
+ * @returns A user-facing error, or null when it can be signed.
+ */
+export function jobAuthorisationError(input: {
+  scope: ReadonlyArray<string>;
+  signedName: string;
+  hasSignature: boolean;
+}): string | null {
+  if (input.scope.length === 0) return "Add at least one line describing the work.";
+  if (input.scope.length > JOB_AUTHORISATION_LIMITS.maxScopeLines) {
+    return `Keep the work to ${JOB_AUTHORISATION_LIMITS.maxScopeLines} lines or fewer.`;
+  }
+  if (input.scope.some((l) => l.length > JOB_AUTHORISATION_LIMITS.maxLineLength)) {
+    return `Each line of work must be ${JOB_AUTHORISATION_LIMITS.maxLineLength} characters or fewer.`;
+  }
+  const name = input.signedName.trim();
+  if (name.length < 2 || name.length > JOB_AUTHORISATION_LIMITS.maxNameLength) {
+    return "Type your full name beside the signature.";
+  }
+  if (!input.hasSignature) return "Please sign in the box.";
+  return null;
+}
+
+/**
+ * The policy terms printed under the scope, from the same generators as the
+ * pricing page so the signed document never disagrees with it. Workmanship is
+ * left out when its window is 0, as it is everywhere else.
+ * @param workmanshipWindowDays - Live workmanship window.
+ * @returns Titled sections, data loss first.
+ */
+export function authorisationTerms(workmanshipWindowDays: number): AuthorisationTerm[] {
+  return [
+    { title: "Your data", body: dataLossCopy() },
+    { title: "Parts", body: partsCopy() },
+    ...(workmanshipWindowDays > 0
+      ? [{ title: "Workmanship", body: workmanshipCopy(workmanshipWindowDays) }]
+      : []),
+  ];
+}
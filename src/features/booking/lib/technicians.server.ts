@@ -0,0 +1,133 @@
+// src/features/booking/lib/technicians.server.ts
+/**
+ * @description Picks the technician for a booking from those free for its slot
+ * (the ids validateBookingRequest returns). Skills narrow the field first - a
+ * technician whose tags appear in the job text beats one whose don't - then the
+ * shortest drive from their base to the job, then the lightest load that day.
+ * Remote jobs, and drives Google can't price, go straight to load.
+ */
+
+import { activeTechnicians, type AvailabilityConfig } from "@/features/booking/lib/booking";
+import { lookupDriveRoundTrip } from "@/features/business/lib/travel-distance";
+import { prisma } from "@/shared/lib/prisma";
+import type { Technician } from "@/shared/lib/settings/types";
+import { nzDateParts, nzMidnightUtc } from "@/shared/lib/timezone-utils";
+
+/**
+ * Drives within the same band count as equally close, so a couple of minutes'
+ * difference doesn't outweigh a much lighter day.
+ */
+const DRIVE_BAND_MINS = 10;
+
+/** The booking being placed. */
+export interface AssignTechnicianInput {
+  /** Technicians free for the slot, in settings order. */
+  candidateIds: string[];
+  startAt: Date;
+  endAt: Date;
+  /** Job address for an in-person visit; null for remote. */
+  address: string | null;
+  /** What the customer asked for, matched against skills. */
+  jobText: string;
+  /** Booking to leave out of the day's load, when moving an existing one. */
+  excludeBookingId?: string;
+}
+
+/**
+ * Whether a skill tag appears as a word in the job text.
+ * @param text - Lowercased job text.
+ * @param skill - Skill tag.
+ * @returns True on a whole-word match.
+ */
+function mentions(text: string, skill: string): boolean {
+  const escaped = skill
+    .trim()
+    .toLowerCase()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return escaped !== "" && new RegExp(`\\b${escaped}\\b`).test(text);
+}
+
+/**
+ * Chooses who takes a booking.
+ * @param config - Availability config the candidates were validated against.
+ * @param input - The booking being placed.
+ * @returns The technician, or null in single-operator mode (no candidates).
+ */
+export async function assignTechnician(
+  config: AvailabilityConfig,
+  input: AssignTechnicianInput,
+): Promise<Technician | null> {
+  const candidates = activeTechnicians(config).filter((t) => input.candidateIds.includes(t.id));
+  if (candidates.length <= 1) return candidates[0] ?? null;
+
+  // Skills: keep only the best-matched technicians when anyone matches at all.
+  const text = input.jobText.toLowerCase();
+  const scores = candidates.map((t) => t.skills.filter((k) => mentions(text, k)).length);
+  const best = Math.max(...scores);
+  const pool = best > 0 ? candidates.filter((_, i) => scores[i] === best) : candidates;
+  if (pool.length === 1) return pool[0];
+
+  const [y, m, d] = nzDateParts(input.startAt);
+  const [dayBookings, drives] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        technicianId: { in: pool.map((t) => t.id) },
+        status: { in: ["held", "confirmed"] },
+        startAt: { gte: nzMidnightUtc(y, m, d), lt: nzMidnightUtc(y, m, d + 1) },
+        ...(input.excludeBookingId ? { id: { not: input.excludeBookingId } } : {}),
+      },
+      select: { technicianId: true, startAt: true, endAt: true },
+    }),
+    Promise.all(
+      pool.map(async (t): Promise<number | null> => {
+        if (!input.address) return null;
+        const drive = await lookupDriveRoundTrip(
+          input.address,
+          input.startAt,
+          input.endAt,
+          t.baseAddress,
+        ).catch(() => null);
+        return drive?.status === "ok" ? drive.data.there.durationMins : null;
+      }),
+    ),
+  ]);
+
+  const loadMins = new Map<string, number>();
+  for (const b of dayBookings) {
+    if (!b.technicianId) continue;
+    const mins = (b.endAt.getTime() - b.startAt.getTime()) / 60_000;
+    loadMins.set(b.technicianId, (loadMins.get(b.technicianId) ?? 0) + mins);
+  }
+
+  const ranked = pool.map((t, i) => {
+    const driveMins = drives[i];
+    return {
+      tech: t,
+      band: driveMins === null ? Infinity : Math.floor(driveMins / DRIVE_BAND_MINS),
+      load: loadMins.get(t.id) ?? 0,
+    };
+  });
+  // Stable sort keeps settings order as the final tie-break.
+  ranked.sort((a, b) => (a.band === b.band ? a.load - b.load : a.band - b.band));
+  return ranked[0].tech;
+}
+
+/**
+ * For a booking that is moving: keeps its technician when they're free at the
+ * new time, otherwise assigns afresh.
+ * @param config - Availability config the candidates were validated against.
+ * @param currentId - The booking's technician, if any.
+ * @param input - The booking at its new time.
+ * @returns The technician, or null in single-operator mode.
+ */
+export async function keepOrAssignTechnician(
+  config: AvailabilityConfig,
+  currentId: string | null,
+  input: AssignTechnicianInput,
+): Promise<Technician | null> {
+  const current = currentId && input.candidateIds.includes(currentId) ? currentId : null;
+  if (current) {
+    return activeTechnicians(config).find((t) => t.id === current) ?? null;
+  }
+  return assignTechnician(config, input);
+}
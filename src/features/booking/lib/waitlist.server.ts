@@ -0,0 +1,252 @@
+// src/features/booking/lib/waitlist.server.ts
+/**
+ * @description Waitlist for fully-booked days. A freed slot (customer cancel,
+ * lapsed hold) is offered to the oldest matching WaitlistEntry for that day as a
+ * short-lived `held` Booking on the same start, and the waitlister is emailed a
+ * confirm link. The hold blocks the slot like any other booking; if it lapses or
+ * is declined, the slot passes to the next entry in line.
+ */
+
+import { getAvailabilityConfig } from "@/features/booking/lib/availability-config.server";
+import {
+  activeSlotKeyFor,
+  hourLabel,
+  splitUnitFromAddress,
+  validateBookingRequest,
+  type AvailabilityConfig,
+  type SlotBlockingEvent,
+} from "@/features/booking/lib/booking";
+import { loadBlockingBookings } from "@/features/booking/lib/existing-bookings.server";
+import { assignTechnician } from "@/features/booking/lib/technicians.server";
+import { fetchAllSourceEvents } from "@/features/calendar/lib/calendar-sources";
+import { sendWaitlistOfferEmail } from "@/features/reviews/lib/email";
+import { prisma } from "@/shared/lib/prisma";
+import type { Technician } from "@/shared/lib/settings/types";
+import { getPacificAucklandOffset, nzDateKey } from "@/shared/lib/timezone-utils";
+import {
+  Prisma,
+  type MeetingType,
+  type WaitlistEntry,
+  type WaitlistTimeOfDay,
+} from "@prisma/client";
+import { randomUUID } from "crypto";
+
+/** The booking whose slot just came free. */
+export interface FreedSlot {
+  id: string;
+  startAt: Date;
+  /** Freed booking's modality; null on legacy rows (matches any waitlister). */
+  meetingType: MeetingType | null;
+}
+
+/**
+ * Whether a start hour falls in a waitlister's preferred part of the day.
+ * @param pref - The entry's time-of-day preference.
+ * @param hour - NZ start hour (0-23).
+ * @returns True when the hour suits the preference.
+ */
+function matchesTimeOfDay(pref: WaitlistTimeOfDay, hour: number): boolean {
+  if (pref === "morning") return hour < 12;
+  if (pref === "afternoon") return hour >= 12;
+  return true;
+}
+
+/**
+ * Creates the held booking for a waitlist offer and marks the entry offered.
+ * The slot's unique activeSlotKey decides any race: a P2002 means someone else
+ * took the slot first, and the entry stays waiting.
+ * @param entry - Waitlist entry being offered the slot.
+ * @param startAt - Slot start (UTC).
+ * @param timeLabel - Customer-facing start label, e.g. "10:30am".
+ * @param config - Live availability config.
+ * @param technician - Technician the hold is assigned to; null in single-operator mode.
+ * @param now - Current time.
+ * @returns The held booking, or null when the slot or entry was lost to a race.
+ */
+async function createOfferHold(
+  entry: WaitlistEntry,
+  startAt: Date,
+  timeLabel: string,
+  config: AvailabilityConfig,
+  technician: Technician | null,
+  now: Date,
+): Promise<{ id: string; cancelToken: string; holdExpiresAt: Date } | null> {
+  const durationMinutes =
+    entry.duration === "short" ? config.durations.short : config.durations.long;
+  const endAt = new Date(startAt.getTime() + durationMinutes * 60_000);
+  const holdExpiresAt = new Date(now.getTime() + config.waitlistHoldHours * 60 * 60_000);
+  const isRemote = entry.meetingType === "remote";
+
+  // Same notes layout the booking form writes, so parseBookingNotes and the
+  // admin views read a confirmed waitlist booking like any other.
+  let notes = `${entry.notes.trim()}\n\n`;
+  notes += `[${timeLabel} - ${entry.duration === "short" ? "Standard" : "Extended"} (${durationMinutes} min)]\n`;
+  notes += `Meeting type: ${isRemote ? "Remote" : "In-person"}\n`;
+  if (!isRemote && entry.address) notes += `Address: ${entry.address}\n`;
+  notes += "Booked from the waitlist\n";
+
+  let booking;
+  try {
+    booking = await prisma.booking.create({
+      data: {
+        name: entry.name,
+        email: entry.email,
+        phone: entry.phone,
+        notes,
+        startAt,
+        endAt,
+        status: "held",
+        holdExpiresAt,
+        cancelToken: randomUUID(),
+        reviewToken: randomUUID(),
+        technicianId: technician?.id ?? null,
+        activeSlotKey: activeSlotKeyFor(startAt, technician?.id),
+        bufferBeforeMin: 0,
+        bufferAfterMin: config.bookingBufferAfterMin,
+        address: entry.address ? splitUnitFromAddress(entry.address).rest : null,
+        unit: entry.address ? splitUnitFromAddress(entry.address).unit || null : null,
+        meetingType: entry.meetingType,
+        duration: entry.duration,
+      },
+      select: { id: true, cancelToken: true },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  }
+
+  // Guarded so an entry the operator removed in the meantime isn't resurrected.
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { id: entry.id, status: "waiting" },
+    data: { status: "offered", offeredBookingId: booking.id, offeredAt: now },
+  });
+  if (count === 0) {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { status: "cancelled", activeSlotKey: `released:${booking.id}` },
+    });
+    return null;
+  }
+
+  return { ...booking, holdExpiresAt };
+}
+
+/**
+ * Offers a freed slot to the first waitlister for its day whose meeting type,
+ * time-of-day preference and job length fit it. The slot is re-checked with the
+ * same validator the booking form goes through, so notice windows, daily caps
+ * and day clearances all still apply.
+ * @param freed - The booking whose slot came free (already released).
+ * @returns The held offer booking id, or null when nobody was offered the slot.
+ */
+export async function offerFreedSlot(freed: FreedSlot): Promise<string | null> {
+  const now = new Date();
+  if (freed.startAt <= now) return null;
+
+  const dateKey = nzDateKey(freed.startAt);
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { dateKey, status: "waiting" },
+    orderBy: { createdAt: "asc" },
+  });
+  if (entries.length === 0) return null;
+
+  const { config, acceptingBookings } = await getAvailabilityConfig();
+  if (!acceptingBookings) return null;
+
+  // Fail closed like the booking form: without the live calendar a manual entry
+  // could sit on the slot. The next freed slot on the day gets another go.
+  const maxDate = new Date(now.getTime() + config.maxAdvanceDays * 24 * 60 * 60 * 1000);
+  let calendarEvents: SlotBlockingEvent[];
+  try {
+    const rawEvents = await fetchAllSourceEvents(now, maxDate);
+    calendarEvents = rawEvents.map((e) => ({
+      id: e.id,
+      start: e.start,
+      end: e.end,
+      calendarEmail: e.calendarEmail,
+    }));
+  } catch (error) {
+    console.error("[waitlist] Failed to fetch calendar events:", error);
+    return null;
+  }
+  const existing = await loadBlockingBookings(now);
+
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const startHour = (freed.startAt.getUTCHours() + getPacificAucklandOffset(year, month, day)) % 24;
+  const startMinute = freed.startAt.getUTCMinutes();
+  const timeOfDay = hourLabel(startHour);
+  const timeLabel =
+    startMinute === 0
+      ? timeOfDay
+      : timeOfDay.replace(/(am|pm)$/i, `:${String(startMinute).padStart(2, "0")}$1`);
+
+  for (const entry of entries) {
+    if (freed.meetingType && entry.meetingType !== freed.meetingType) continue;
+    if (!matchesTimeOfDay(entry.timeOfDay, startHour)) continue;
+    const validation = validateBookingRequest(
+      dateKey,
+      timeOfDay,
+      startMinute,
+      entry.duration,
+      existing,
+      calendarEvents,
+      now,
+      config,
+    );
+    if (!validation.valid) continue;
+
+    const durationMinutes =
+      entry.duration === "short" ? config.durations.short : config.durations.long;
+    const technician = await assignTechnician(config, {
+      candidateIds: validation.technicianIds,
+      startAt: freed.startAt,
+      endAt: new Date(freed.startAt.getTime() + durationMinutes * 60_000),
+      address: entry.meetingType === "remote" ? null : entry.address,
+      jobText: entry.notes,
+    });
+    const hold = await createOfferHold(entry, freed.startAt, timeLabel, config, technician, now);
+    // A lost slot race ends the round; a lost entry race moves down the list.
+    if (!hold) {
+      const taken = await prisma.booking.findUnique({
+        where: { activeSlotKey: activeSlotKeyFor(freed.startAt, technician?.id) },
+        select: { id: true },
+      });
+      if (taken) return null;
+      continue;
+    }
+
+    await sendWaitlistOfferEmail({
+      id: hold.id,
+      name: entry.name,
+      email: entry.email,
+      startAt: freed.startAt,
+      cancelToken: hold.cancelToken,
+      holdExpiresAt: hold.holdExpiresAt,
+    });
+    console.log(`[waitlist] Offered ${freed.startAt.toISOString()} to entry ${entry.id}`);
+    return hold.id;
+  }
+
+  return null;
+}
+
+/**
+ * Hands a just-released slot on: lapses the waitlist offer it was holding (if it
+ * was one), then offers the slot to the next matching waitlister. Never throws -
+ * the waitlist must not fail the cancel or cron that freed the slot.
+ * @param freed - The booking whose slot came free.
+ * @returns Resolves once the slot has been offered on (or not).
+ */
+export async function passSlotToWaitlist(freed: FreedSlot): Promise<void> {
+  try {
+    await prisma.waitlistEntry.updateMany({
+      where: { offeredBookingId: freed.id, status: "offered" },
+      data: { status: "lapsed" },
+    });
+    await offerFreedSlot(freed);
+  } catch (error) {
+    console.error(`[waitlist] Failed to pass on the slot of booking ${freed.id}:`, error);
+  }
+}
@@ -0,0 +1,344 @@
+"use client";
+// src/features/business/components/BankImportView.tsx
+/**
+ * @description Bank statement import. The operator picks a CSV export, the
+ * server proposes a match per line, and nothing is written until "Record
+ * selected": ticked credits pay their chosen invoice, ticked debits become
+ * expenses (supplier, category and GST editable first). Confident invoice
+ * matches and subscription charges start ticked; lines already in the ledger
+ * start unticked and say so.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Card, CardHeader } from "@/features/admin/components/ui/Card";
+import { ADMIN_CONTROL_CLS } from "@/features/admin/components/ui/field-classes";
+import { StatusPill, type StatusTone } from "@/features/admin/components/ui/StatusPill";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import type { BankName } from "@/features/business/lib/bank-csv";
+import type {
+  BankImportResult,
+  BankProposal,
+  MatchConfidence,
+} from "@/features/business/lib/bank-reconcile";
+import { formatNZD } from "@/features/business/lib/business";
+import { EXPENSE_CATEGORIES } from "@/features/business/lib/constants";
+import { formatDateShort } from "@/shared/lib/date-format";
+import type React from "react";
+import { useState } from "react";
+
+/** A proposal plus the operator's tick and edits. */
+type Row = BankProposal & { selected: boolean };
+
+/** Preview response from POST /api/business/bank-import. */
+interface PreviewResponse {
+  ok: boolean;
+  error?: string;
+  bank?: BankName;
+  proposals?: BankProposal[];
+  errors?: string[];
+}
+
+const CONFIDENCE_TONE: Record<MatchConfidence, StatusTone> = {
+  high: "success",
+  medium: "info",
+  low: "warning",
+};
+
+/**
+ * Whether a proposal starts ticked: confident invoice matches and subscription
+ * charges, never a line the ledger already holds.
+ * @param p - The proposal.
+ * @returns True to pre-tick.
+ */
+function preselected(p: BankProposal): boolean {
+  if (p.duplicate) return false;
+  if (p.kind === "income") return p.invoiceId !== null && p.confidence !== "low";
+  return p.subscriptionId !== null;
+}
+
+/**
+ * Bank CSV upload, match review, and confirm.
+ * @returns Import view element.
+ */
+export function BankImportView(): React.ReactElement {
+  const { toast } = useToast();
+  const [bank, setBank] = useState<BankName | null>(null);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<BankImportResult | null>(null);
+
+  /**
+   * Reads the chosen file and fetches the proposals.
+   * @param file - The CSV file.
+   */
+  async function handleFile(file: File): Promise<void> {
+    setLoading(true);
+    setError(null);
+    setDone(null);
+    setRows([]);
+    try {
+      const res = await fetch("/api/business/bank-import", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ csv: await file.text() }),
+      });
+      const d = (await res.json()) as PreviewResponse;
+      if (!d.ok || !d.proposals) {
+        setError(d.error ?? "Couldn't read that file.");
+        return;
+      }
+      setBank(d.bank ?? null);
+      setParseErrors(d.errors ?? []);
+      setRows(d.proposals.map((p) => ({ ...p, selected: preselected(p) })));
+    } catch {
+      setError("Couldn't read that file. Check your connection and try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Applies an edit to one row.
+   * @param index - Row position.
+   * @param patch - Fields to change.
+   */
+  function updateRow(index: number, patch: Partial<Row>): void {
+    setRows((prev) => prev.map((r, i) => (i === index ? ({ ...r, ...patch } as Row) : r)));
+  }
+
+  /** Sends the ticked rows to the confirm route. */
+  async function handleConfirm(): Promise<void> {
+    const lines = rows
+      .filter((r) => r.selected)
+      .map((r) =>
+        r.kind === "income"
+          ? {
+              kind: "income",
+              date: r.transaction.date,
+              amount: r.transaction.amount,
+              invoiceId: r.invoiceId,
+              reference: r.transaction.reference,
+            }
+          : {
+              kind: "expense",
+              date: r.transaction.date,
+              amountIncl: -r.transaction.amount,
+              supplier: r.supplier,
+              description: r.description,
+              category: r.category,
+              gstRate: r.gstRate,
+              method: r.method,
+              subscriptionId: r.subscriptionId,
+              reference: r.transaction.reference,
+            },
+      );
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/business/bank-import/confirm", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ lines }),
+      });
+      const d = (await res.json()) as BankImportResult & { ok: boolean; error?: string };
+      if (!d.ok) {
+        setError(d.error ?? "Couldn't record the selected lines.");
+        return;
+      }
+      setDone(d);
+      setRows([]);
+      if (d.sheetSyncWarning) {
+        toast("Recorded, but some sheet updates didn't go through.", { tone: "warning" });
+      }
+    } catch {
+      setError("Couldn't record. Check your connection and try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const selectedCount = rows.filter((r) => r.selected).length;
+  const missingInvoice = rows.some((r) => r.selected && r.kind === "income" && !r.invoiceId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader
+          title="Upload a statement"
+          description="CSV export from ASB, ANZ, Kiwibank or BNZ internet banking. Nothing is saved until you confirm."
+        />
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          disabled={loading || saving}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleFile(file);
+            e.target.value = "";
+          }}
+          className="text-sm text-admin-text-secondary"
+        />
+        {loading && <p className="mt-3 text-sm text-admin-muted">Matching...</p>}
+        {error && <p className="mt-3 text-sm text-coquelicot-600">{error}</p>}
+        {done && (
+          <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+            <p className="font-medium">
+              Recorded {done.incomeRecorded} payment(s) and {done.expensesRecorded} expense(s).
+            </p>
+            {done.skipped.length > 0 && (
+              <ul className="mt-1 list-inside list-disc text-amber-700">
+                {done.skipped.map((s) => (
+                  <li key={s}>{s}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </Card>
+
+      {rows.length > 0 && (
+        <Card padding="none">
+          <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-4">
+            <p className="text-sm text-admin-text">
+              <span className="font-semibold">{bank}</span> statement - {rows.length} line(s),{" "}
+              {selectedCount} selected
+              {parseErrors.length > 0 && (
+                <span className="ml-2 text-amber-700">
+                  ({parseErrors.length} unreadable line(s) skipped)
+                </span>
+              )}
+            </p>
+            <AdminButton
+              busy={saving}
+              disabled={selectedCount === 0 || missingInvoice}
+              onClick={() => {
+                void handleConfirm();
+              }}
+            >
+              Record selected
+            </AdminButton>
+          </div>
+          <div className="overflow-x-auto border-t border-admin-border">
+            <table className="w-full text-sm">
+              <thead className="border-b border-admin-border bg-admin-bg">
+                <tr>
+                  <th className="px-4 py-3" />
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-admin-muted">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-admin-muted">
+                    Bank line
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-admin-muted">
+                    Amount
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-admin-muted">
+                    Record as
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-admin-border">
+                {rows.map((r, i) => (
+                  <tr key={r.transaction.index} className="align-top hover:bg-admin-bg">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        aria-label="Record this line"
+                        checked={r.selected}
+                        onChange={(e) => updateRow(i, { selected: e.target.checked })}
+                        className="h-4 w-4"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-xs whitespace-nowrap text-admin-muted">
+                      {formatDateShort(r.transaction.date)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-admin-text">{r.transaction.payee || "-"}</p>
+                      {r.transaction.reference && (
+                        <p className="text-xs text-admin-muted">{r.transaction.reference}</p>
+                      )}
+                      {r.duplicate && (
+                        <StatusPill tone="neutral" className="mt-1">
+                          Already in ledger
+                        </StatusPill>
+                      )}
+                    </td>
+                    <td
+                      className={
+                        r.transaction.amount > 0
+                          ? "px-4 py-3 text-right font-semibold whitespace-nowrap text-emerald-700"
+                          : "px-4 py-3 text-right whitespace-nowrap text-admin-text"
+                      }
+                    >
+                      {formatNZD(r.transaction.amount)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {r.kind === "income" ? (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            aria-label="Invoice"
+                            value={r.invoiceId ?? ""}
+                            onChange={(e) => updateRow(i, { invoiceId: e.target.value || null })}
+                            className={ADMIN_CONTROL_CLS}
+                          >
+                            <option value="">No invoice</option>
+                            {r.candidates.map((c) => (
+                              <option key={c.invoiceId} value={c.invoiceId}>
+                                {c.number} - {c.clientName} ({formatNZD(c.total)})
+                              </option>
+                            ))}
+                          </select>
+                          {r.invoiceId && r.confidence && (
+                            <StatusPill tone={CONFIDENCE_TONE[r.confidence]}>
+                              {r.confidence} match
+                            </StatusPill>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="grid gap-2 sm:grid-cols-3">
+                          <input
+                            aria-label="Supplier"
+                            value={r.supplier}
+                            onChange={(e) => updateRow(i, { supplier: e.target.value })}
+                            className={ADMIN_CONTROL_CLS}
+                          />
+                          <select
+                            aria-label="Category"
+                            value={r.category}
+                            onChange={(e) => updateRow(i, { category: e.target.value })}
+                            className={ADMIN_CONTROL_CLS}
+                          >
+                            {EXPENSE_CATEGORIES.map((c) => (
+                              <option key={c}>{c}</option>
+                            ))}
+                          </select>
+                          <select
+                            aria-label="GST rate"
+                            value={String(r.gstRate)}
+                            onChange={(e) => updateRow(i, { gstRate: Number(e.target.value) })}
+                            className={ADMIN_CONTROL_CLS}
+                          >
+                            <option value="0.15">15% GST</option>
+                            <option value="0">No GST</option>
+                          </select>
+                          {r.subscriptionId && (
+                            <p className="text-xs text-admin-muted sm:col-span-3">
+                              Subscription: {r.description}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -52,6 +52,7 @@ import type {
   ParseJobResponse,
   PartLine,
   RateConfig,
+  StockPartOption,
   TaskLine,
   TaskTemplate,
   TravelEntry,
@@ -303,6 +304,8 @@ interface CalculatorViewProps {
   initialRates: RateConfig[];
   /** Task templates resolved server-side, ordered by usage. */
   initialTaskTemplates: TaskTemplate[];
+  /** Active stock items for the parts picker, priced server-side. */
+  initialStockItems: StockPartOption[];
   /** Active promo resolved server-side; refined per job date by the job-context effect. */
   initialPromo: ActivePromo | null;
   /** Job prefill from a schedule event ("Bill in calculator"); null on a normal load. */
@@ -352,6 +355,7 @@ export interface EventPrefill {
  * @param props.cancellation - Live cancellation policy driving cancel mode.
  * @param props.initialRates - Server-resolved rate configs.
  * @param props.initialTaskTemplates - Server-resolved task templates.
+ * @param props.initialStockItems - Server-resolved stock items for the parts picker.
  * @param props.initialPromo - Server-resolved active promo, or null.
  * @param props.eventPrefill - Schedule-event job prefill, or null on a normal load.
  * @returns The rendered calculator view element.
@@ -362,6 +366,7 @@ export function CalculatorView({
   cancellation,
   initialRates,
   initialTaskTemplates,
+  initialStockItems,
   initialPromo,
   eventPrefill,
 }: CalculatorViewProps): React.ReactElement {
@@ -2274,6 +2279,7 @@ export function CalculatorView({
             <PartsSection
               parts={parts}
               onPartsChange={setParts}
+              stockItems={initialStockItems}
               show={showParts}
               onToggle={() => setShowParts((p) => !p)}
             />
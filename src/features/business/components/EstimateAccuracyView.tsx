@@ -0,0 +1,417 @@
+"use client";
+// src/features/business/components/EstimateAccuracyView.tsx
+/**
+ * @description Estimator accuracy report - headline figures, quoted against
+ * billed per category and per benchmark, the proposed benchmark and range
+ * changes with an apply-to-settings action, then the most recent billed jobs.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Modal } from "@/features/admin/components/ui/Modal";
+import { StatCard } from "@/features/admin/components/ui/StatCard";
+import { StatusPill, type StatusTone } from "@/features/admin/components/ui/StatusPill";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { formatMins, formatNZD } from "@/features/business/lib/business";
+import {
+  applyAccuracyProposals,
+  MIN_SAMPLES,
+  type AccuracyGroup,
+  type AccuracyReport,
+  type AccuracySample,
+} from "@/features/business/lib/estimate-accuracy";
+import { cn } from "@/shared/lib/cn";
+import { formatDateShort } from "@/shared/lib/date-format";
+import type { EstimatorSettings } from "@/shared/lib/settings/types";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+interface Props {
+  report: AccuracyReport;
+  /** Most recent billed jobs, newest first. */
+  recent: AccuracySample[];
+  /** Quoted bookings with no invoice yet. */
+  notInvoiced: number;
+  /** Invoiced quoted bookings with no labour lines. */
+  noLabour: number;
+  /** Live estimator settings the proposals are applied to. */
+  estimator: EstimatorSettings;
+}
+
+/**
+ * Pill tone for a billed/quoted ratio: near 1 is good, well off either way isn't.
+ * @param ratio - Median billed over quoted minutes.
+ * @returns Pill tone.
+ */
+function ratioTone(ratio: number): StatusTone {
+  const off = Math.abs(ratio - 1);
+  if (off <= 0.1) return "success";
+  return off <= 0.25 ? "warning" : "critical";
+}
+
+/**
+ * A factor pair as "0.85-1.20x".
+ * @param band - Low and high factors.
+ * @param band.lowFactor - Low end factor.
+ * @param band.highFactor - High end factor.
+ * @returns Display string.
+ */
+function formatBand(band: { lowFactor: number; highFactor: number }): string {
+  return `${band.lowFactor.toFixed(2)}-${band.highFactor.toFixed(2)}x`;
+}
+
+/**
+ * A share as a whole percentage.
+ * @param share - 0-1.
+ * @returns e.g. "75%".
+ */
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Quoted-against-billed table for a list of groups.
+ * @param props - Component props.
+ * @param props.title - Table heading.
+ * @param props.groups - Rows.
+ * @param props.empty - Shown when there are no rows.
+ * @param props.benchmarkMins - Benchmark minutes per row key, to show beside the quote.
+ * @returns Table element.
+ */
+function GroupTable({
+  title,
+  groups,
+  empty,
+  benchmarkMins,
+}: {
+  title: string;
+  groups: AccuracyGroup[];
+  empty: string;
+  benchmarkMins?: Map<string, number>;
+}): React.ReactElement {
+  return (
+    <div className="overflow-x-auto rounded-xl border border-admin-border bg-admin-surface shadow-sm">
+      <h2 className="border-b border-admin-border px-4 py-3 text-sm font-semibold text-russian-violet">
+        {title}
+      </h2>
+      {groups.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-admin-faint">{empty}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="bg-admin-bg text-xs text-admin-muted uppercase">
+            <tr>
+              <th className="px-4 py-2 text-left">Group</th>
+              <th className="px-4 py-2 text-right">Jobs</th>
+              {benchmarkMins && <th className="px-4 py-2 text-right">Benchmark</th>}
+              <th className="px-4 py-2 text-right">Quoted</th>
+              <th className="px-4 py-2 text-right">Billed</th>
+              <th className="px-4 py-2 text-right">Billed / quoted</th>
+              <th className="px-4 py-2 text-right">Under / in / over $</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-admin-border">
+            {groups.map((g) => (
+              <tr key={g.key}>
+                <td className={cn("px-4 py-2 text-admin-text", !benchmarkMins && "capitalize")}>
+                  {g.key}
+                </td>
+                <td className="px-4 py-2 text-right text-admin-text">{g.n}</td>
+                {benchmarkMins && (
+                  <td className="px-4 py-2 text-right text-admin-muted">
+                    {formatMins(benchmarkMins.get(g.key) ?? 0)}
+                  </td>
+                )}
+                <td className="px-4 py-2 text-right text-admin-text">{formatMins(g.quotedMins)}</td>
+                <td className="px-4 py-2 text-right text-admin-text">{formatMins(g.billedMins)}</td>
+                <td className="px-4 py-2 text-right">
+                  <StatusPill tone={ratioTone(g.ratio)}>{g.ratio.toFixed(2)}x</StatusPill>
+                </td>
+                <td className="px-4 py-2 text-right text-admin-muted">
+                  {g.under} / {g.within} / {g.over}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Estimator accuracy report with accept-able proposals.
+ * @param props - Component props.
+ * @param props.report - Built report.
+ * @param props.recent - Recent billed jobs.
+ * @param props.notInvoiced - Quoted bookings with no invoice yet.
+ * @param props.noLabour - Invoiced quoted bookings with no labour lines.
+ * @param props.estimator - Live estimator settings.
+ * @returns Accuracy view element.
+ */
+export function EstimateAccuracyView({
+  report,
+  recent,
+  notInvoiced,
+  noLabour,
+  estimator,
+}: Props): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [pickedBenchmarks, setPickedBenchmarks] = useState<Set<string>>(
+    () => new Set(report.benchmarkProposals.map((p) => p.label)),
+  );
+  const [pickedRanges, setPickedRanges] = useState<Set<string>>(
+    () => new Set(report.rangeProposals.map((p) => p.level)),
+  );
+  const [saving, setSaving] = useState(false);
+  const [warns, setWarns] = useState<string[]>([]);
+
+  const { overall } = report;
+  const banded = overall.under + overall.within + overall.over;
+  const pickedCount =
+    report.benchmarkProposals.filter((p) => pickedBenchmarks.has(p.label)).length +
+    report.rangeProposals.filter((p) => pickedRanges.has(p.level)).length;
+  const hasProposals = report.benchmarkProposals.length + report.rangeProposals.length > 0;
+  const benchmarkMins = new Map(report.byBenchmark.map((b) => [b.key, b.benchmarkMins]));
+
+  /**
+   * Adds or removes a key from a picked set.
+   * @param set - Current set.
+   * @param key - Key to toggle.
+   * @returns The new set.
+   */
+  function toggled(set: Set<string>, key: string): Set<string> {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  }
+
+  /**
+   * Writes the picked proposals into the estimator settings. Guardrail warnings
+   * come back as a 409 and open the confirm dialog; confirming resends.
+   * @param confirmWarnings - Whether the warnings have been confirmed.
+   */
+  async function apply(confirmWarnings = false): Promise<void> {
+    const value = applyAccuracyProposals(
+      estimator,
+      report.benchmarkProposals.filter((p) => pickedBenchmarks.has(p.label)),
+      report.rangeProposals.filter((p) => pickedRanges.has(p.level)),
+    );
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/settings/estimator", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ value, confirmWarnings }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        warns?: string[];
+        blocks?: string[];
+        fieldErrors?: { message: string }[];
+        error?: string;
+      };
+      if (res.status === 409) {
+        setWarns(data.warns ?? []);
+        return;
+      }
+      setWarns([]);
+      if (!res.ok) {
+        const reason = data.blocks?.[0] ?? data.fieldErrors?.[0]?.message ?? data.error;
+        toast(reason ?? "Couldn't update the estimator settings.", { tone: "error" });
+        return;
+      }
+      toast("Estimator settings updated.", { tone: "success" });
+      router.refresh();
+    } catch {
+      toast("Network error - please try again.", { tone: "error" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <StatCard label="Billed jobs" value={overall.n} />
+        <StatCard
+          label="Billed / quoted"
+          value={overall.n > 0 ? `${overall.ratio.toFixed(2)}x` : "-"}
+          sub="Median, by minutes"
+        />
+        <StatCard
+          label="Inside the quote"
+          value={banded > 0 ? formatPercent(overall.within / banded) : "-"}
+          sub={`${overall.under} under, ${overall.over} over`}
+        />
+        <StatCard
+          label="Awaiting invoice"
+          value={notInvoiced}
+          sub={noLabour > 0 ? `${noLabour} invoiced with no labour` : undefined}
+        />
+      </div>
+
+      <GroupTable
+        title="By category"
+        groups={report.byCategory}
+        empty="No quoted booking has been invoiced yet."
+      />
+      <GroupTable
+        title="By benchmark"
+        groups={report.byBenchmark}
+        benchmarkMins={benchmarkMins}
+        empty="No single-task quote has matched a benchmark yet."
+      />
+      {report.unmatchedSingleTask > 0 && (
+        <p className="text-xs text-admin-faint">
+          {report.unmatchedSingleTask} single-task{" "}
+          {report.unmatchedSingleTask === 1 ? "quote" : "quotes"} matched no benchmark label and
+          only count in the category figures.
+        </p>
+      )}
+
+      {/* Proposals */}
+      <div className="rounded-xl border border-admin-border bg-admin-surface p-4 shadow-sm sm:p-6">
+        <h2 className="text-sm font-semibold text-russian-violet">Proposed changes</h2>
+        <p className="mt-1 text-xs text-admin-muted">
+          Benchmarks are scaled by how far their jobs ran over or under; range factors are set so
+          about 80% of each confidence level&apos;s jobs land inside the band. Each needs at least{" "}
+          {MIN_SAMPLES} billed jobs.
+        </p>
+        {!hasProposals ? (
+          <p className="mt-4 text-sm text-admin-faint">
+            Nothing to propose - either the estimator is on target or there aren&apos;t enough
+            billed jobs yet.
+          </p>
+        ) : (
+          <>
+            <ul className="mt-4 divide-y divide-admin-border">
+              {report.benchmarkProposals.map((p) => (
+                <li key={`b-${p.label}`} className="py-2">
+                  <label className="flex items-center gap-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={pickedBenchmarks.has(p.label)}
+                      onChange={() => setPickedBenchmarks((s) => toggled(s, p.label))}
+                    />
+                    <span className="flex-1 text-admin-text">{p.label}</span>
+                    <span className="text-admin-muted">
+                      {formatMins(p.currentMins)} &rarr;{" "}
+                      <strong className="text-admin-text">{formatMins(p.proposedMins)}</strong>
+                    </span>
+                    <span className="w-24 text-right text-xs text-admin-faint">
+                      {p.n} jobs, {p.ratio.toFixed(2)}x
+                    </span>
+                  </label>
+                </li>
+              ))}
+              {report.rangeProposals.map((p) => (
+                <li key={`r-${p.level}`} className="py-2">
+                  <label className="flex items-center gap-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={pickedRanges.has(p.level)}
+                      onChange={() => setPickedRanges((s) => toggled(s, p.level))}
+                    />
+                    <span className="flex-1 text-admin-text capitalize">
+                      {p.level} confidence range
+                    </span>
+                    <span className="text-admin-muted">
+                      {formatBand(p.current)} &rarr;{" "}
+                      <strong className="text-admin-text">{formatBand(p.proposed)}</strong>
+                    </span>
+                    <span className="w-24 text-right text-xs text-admin-faint">
+                      {p.n} jobs, {formatPercent(p.currentCoverage)} &rarr;{" "}
+                      {formatPercent(p.proposedCoverage)}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="mt-4 flex justify-end">
+              <AdminButton onClick={() => void apply()} busy={saving} disabled={pickedCount === 0}>
+                Apply {pickedCount} to settings
+              </AdminButton>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Recent jobs */}
+      <div className="overflow-x-auto rounded-xl border border-admin-border bg-admin-surface shadow-sm">
+        <h2 className="border-b border-admin-border px-4 py-3 text-sm font-semibold text-russian-violet">
+          Recent billed jobs
+        </h2>
+        {recent.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-admin-faint">
+            Jobs appear here once a booking made from a quote is invoiced.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-admin-bg text-xs text-admin-muted uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Job</th>
+                <th className="px-4 py-2 text-left">Quoted tasks</th>
+                <th className="px-4 py-2 text-right">Quoted</th>
+                <th className="px-4 py-2 text-right">Billed</th>
+                <th className="px-4 py-2 text-right">Quoted labour</th>
+                <th className="px-4 py-2 text-right">Billed labour</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-admin-border">
+              {recent.map((s) => (
+                <tr key={s.bookingId}>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <p className="text-admin-text">{formatDateShort(s.jobDate)}</p>
+                    <p className="text-xs text-admin-faint">{s.invoiceNumbers.join(", ")}</p>
+                  </td>
+                  <td className="px-4 py-2 text-admin-text">
+                    {s.tasks.map((t) => t.label).join(", ") || "-"}
+                  </td>
+                  <td className="px-4 py-2 text-right text-admin-text">
+                    {formatMins(s.quotedMins)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-admin-text">
+                    {formatMins(s.billedMins)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-admin-muted">
+                    {s.quotedLow !== null && s.quotedHigh !== null
+                      ? `${formatNZD(s.quotedLow)}-${formatNZD(s.quotedHigh)}`
+                      : "-"}
+                  </td>
+                  <td className="px-4 py-2 text-right text-admin-text">
+                    {formatNZD(s.billedLabour)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal
+        open={warns.length > 0}
+        onClose={() => !saving && setWarns([])}
+        title="Apply anyway?"
+        description="The new estimator settings trip these checks."
+        footer={
+          <>
+            <AdminButton variant="secondary" onClick={() => setWarns([])} disabled={saving}>
+              Cancel
+            </AdminButton>
+            <AdminButton onClick={() => void apply(true)} busy={saving}>
+              Apply
+            </AdminButton>
+          </>
+        }
+      >
+        <ul className="list-disc space-y-1 pl-5 text-sm text-admin-text">
+          {warns.map((w) => (
+            <li key={w}>{w}</li>
+          ))}
+        </ul>
+      </Modal>
+    </div>
+  );
+}
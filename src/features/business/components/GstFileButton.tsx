@@ -0,0 +1,75 @@
+"use client";
+// src/features/business/components/GstFileButton.tsx
+/**
+ * @description "Mark as filed" for a finished GST period. Confirms first
+ * (filing freezes the figures), POSTs to the filing route and refreshes the
+ * page so it switches to the filed view.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { ConfirmDialog } from "@/features/admin/components/ui/ConfirmDialog";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+/**
+ * Files one GST period.
+ * @param props - Component props.
+ * @param props.periodKey - Period key ("YYYY-MM" of its first month).
+ * @param props.periodLabel - Human period label for the confirm dialog.
+ * @returns Button element.
+ */
+export function GstFileButton({
+  periodKey,
+  periodLabel,
+}: {
+  periodKey: string;
+  periodLabel: string;
+}): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  /** Files the period, then refreshes into the filed view. */
+  async function handleFile(): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/business/gst-return/file", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ period: periodKey }),
+      });
+      const d = (await res.json()) as { ok: boolean; error?: string };
+      if (!d.ok) {
+        toast(d.error ?? "Couldn't file this period.", { tone: "error" });
+        return;
+      }
+      toast("GST return marked as filed.", { tone: "success" });
+      router.refresh();
+    } catch {
+      toast("Couldn't file. Check your connection and try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+      setConfirming(false);
+    }
+  }
+
+  return (
+    <>
+      <AdminButton onClick={() => setConfirming(true)}>Mark as filed</AdminButton>
+      <ConfirmDialog
+        open={confirming}
+        title="Mark as filed?"
+        body={`Locks the ${periodLabel} figures as filed with IRD. Later edits inside the period show as changes instead of moving the filed boxes.`}
+        confirmLabel="Mark as filed"
+        busy={busy}
+        onConfirm={() => {
+          void handleFile();
+        }}
+        onCancel={() => setConfirming(false)}
+      />
+    </>
+  );
+}
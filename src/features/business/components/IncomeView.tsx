@@ -3,7 +3,8 @@
 /**
  * @description Records, edits, and lists income entries against
  * /api/business/income. The add form doubles as the edit form. The list has
- * search, date-range + financial-year + method filters, sortable columns, and
+ * search, date-range + financial-year + method (and, with technicians set up,
+ * technician) filters, sortable columns, and
  * filter-aware summary cards; rows created from an invoice link back to it. The
  * tax reserve lives on the business overview (single source), not here.
  */
@@ -30,9 +31,15 @@ type SortDir = "asc" | "desc";
 
 /**
  * Client component for recording, filtering, and displaying income entries.
+ * @param props - Component props.
+ * @param props.technicians - Technicians from availability settings; empty hides the filter.
  * @returns Income view element.
  */
-export function IncomeView(): React.ReactElement {
+export function IncomeView({
+  technicians,
+}: {
+  technicians: Array<{ id: string; name: string }>;
+}): React.ReactElement {
   const { toast } = useToast();
   const [entries, setEntries] = useState<IncomeEntry[]>([]);
   const [loading, setLoading] = useState(true);
@@ -59,6 +66,7 @@ export function IncomeView(): React.ReactElement {
   const [fromDate, setFromDate] = useState("");
   const [toDate, setToDate] = useState("");
   const [methodFilter, setMethodFilter] = useState("all");
+  const [technicianFilter, setTechnicianFilter] = useState("all");
   const [sortKey, setSortKey] = useState<SortKey>("date");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
@@ -189,12 +197,15 @@ export function IncomeView(): React.ReactElement {
       if (from && d < from) return false;
       if (to && d > to) return false;
       if (methodFilter !== "all" && e.method !== methodFilter) return false;
+      if (technicianFilter !== "all" && (e.technicianId ?? "none") !== technicianFilter) {
+        return false;
+      }
       if (q && !e.customer.toLowerCase().includes(q) && !e.description.toLowerCase().includes(q)) {
         return false;
       }
       return true;
     });
-  }, [entries, search, fyKey, fromDate, toDate, methodFilter, financialYears]);
+  }, [entries, search, fyKey, fromDate, toDate, methodFilter, technicianFilter, financialYears]);
 
   const sorted = useMemo(() => {
     const dir = sortDir === "asc" ? 1 : -1;
@@ -351,6 +362,24 @@ export function IncomeView(): React.ReactElement {
             ))}
           </select>
         </label>
+        {technicians.length > 0 && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">Technician</span>
+            <select
+              value={technicianFilter}
+              onChange={(e) => setTechnicianFilter(e.target.value)}
+              className={ADMIN_CONTROL_CLS}
+            >
+              <option value="all">All technicians</option>
+              {technicians.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+              <option value="none">Unassigned</option>
+            </select>
+          </label>
+        )}
         <label className="flex flex-col gap-1">
           <span className="text-xs font-medium text-admin-muted">From</span>
           <input
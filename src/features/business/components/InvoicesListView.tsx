@@ -17,7 +17,9 @@ import { PaymentDialog } from "@/features/business/components/invoice/PaymentDia
 import { formatNZD } from "@/features/business/lib/business";
 import {
   deriveInvoiceDisplayStatus,
+  invoiceBalanceDue,
   isInvoiceOverdue,
+  isPartiallyPaid,
 } from "@/features/business/lib/invoice-status";
 import type { Invoice } from "@/features/business/types/business";
 import { cn } from "@/shared/lib/cn";
@@ -27,8 +29,9 @@ import type React from "react";
 import { useEffect, useMemo, useState } from "react";
 import { FaCaretRight } from "react-icons/fa6";
 
-/** Status filter buckets (OVERDUE and QUOTE are derived, not stored statuses). */
-type FilterKey = "all" | "QUOTE" | "DRAFT" | "SENT" | "OVERDUE" | "PAID" | "VOIDED";
+/** Status filter buckets (OVERDUE, PARTIALLY_PAID and QUOTE are derived, not stored statuses). */
+type FilterKey =
+  "all" | "QUOTE" | "DRAFT" | "SENT" | "OVERDUE" | "PARTIALLY_PAID" | "PAID" | "VOIDED";
 /** Sortable column keys. */
 type SortKey = "number" | "client" | "issued" | "due" | "total" | "status";
 /** Sort direction. */
@@ -53,6 +56,7 @@ const FILTER_OPTIONS: { value: FilterKey; label: string }[] = [
   { value: "DRAFT", label: "Draft" },
   { value: "SENT", label: "Sent" },
   { value: "OVERDUE", label: "Overdue" },
+  { value: "PARTIALLY_PAID", label: "Part paid" },
   { value: "PAID", label: "Paid" },
   { value: "VOIDED", label: "Voided" },
 ];
@@ -216,9 +220,11 @@ export function InvoicesListView(): React.ReactElement {
         continue;
       }
       if (inv.status === "SENT") {
-        outstanding += inv.total;
+        // Part payments already in aren't owed any more.
+        const balance = invoiceBalanceDue(inv);
+        outstanding += balance;
         if (isInvoiceOverdue(inv, now)) {
-          overdue += inv.total;
+          overdue += balance;
           overdueCount += 1;
         }
       }
@@ -254,6 +260,8 @@ export function InvoicesListView(): React.ReactElement {
       }
       if (statusFilter === "OVERDUE") {
         if (!isInvoiceOverdue(inv, now)) return false;
+      } else if (statusFilter === "PARTIALLY_PAID") {
+        if (inv.isQuote || !isPartiallyPaid(inv)) return false;
       } else if (statusFilter === "QUOTE") {
         if (!inv.isQuote) return false;
       } else if (statusFilter !== "all" && (inv.status !== statusFilter || inv.isQuote)) {
@@ -486,6 +494,7 @@ export function InvoicesListView(): React.ReactElement {
                 <span>Issued {formatDateShort(inv.issueDate)}</span>
                 <span>Due {formatDateShort(inv.dueDate)}</span>
                 <span className="font-semibold text-admin-text">{formatNZD(inv.total)}</span>
+                {isPartiallyPaid(inv) && <span>{formatNZD(invoiceBalanceDue(inv))} still due</span>}
                 {inv.driveWebUrl ? (
                   <a
                     href={inv.driveWebUrl}
@@ -577,6 +586,11 @@ export function InvoicesListView(): React.ReactElement {
                   </td>
                   <td className="px-4 py-3 font-semibold whitespace-nowrap text-admin-text">
                     {formatNZD(inv.total)}
+                    {isPartiallyPaid(inv) && (
+                      <span className="block text-xs font-normal text-admin-muted">
+                        {formatNZD(invoiceBalanceDue(inv))} due
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     <InvoiceStatusBadge invoice={inv} />
@@ -673,6 +687,7 @@ export function InvoicesListView(): React.ReactElement {
             clientName: payTarget.clientName,
             status: payTarget.status,
             paidAt: payTarget.paidAt,
+            amountPaid: payTarget.amountPaid,
           }}
           onClose={(recorded) => {
             const id = payTarget.id;
@@ -355,6 +355,7 @@ export function PricingWizard({
         aiEstimatedMins: estimatedMins,
         aiExplanation: explanation,
         aiTasks: tasks,
+        aiConfidence: confidence,
         address: dest || null,
         travelMins,
         travelMinsBack,
@@ -0,0 +1,682 @@
+"use client";
+// src/features/business/components/StockView.tsx
+/**
+ * @description Admin stock manager - item form on top, stock table below with
+ * receive-from-expense and stock-count dialogs, then the per-part margin report.
+ */
+
+import type { StockExpenseOption, StockRow } from "@/app/admin/(shell)/business/stock/page";
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Modal } from "@/features/admin/components/ui/Modal";
+import { StatusPill } from "@/features/admin/components/ui/StatusPill";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { formatNZD } from "@/features/business/lib/business";
+import { isLowStock, stockSellPrice } from "@/features/business/lib/stock";
+import type { StockMarginRow } from "@/features/business/lib/stock-recording";
+import { cn } from "@/shared/lib/cn";
+import { formatDateShort } from "@/shared/lib/date-format";
+import type React from "react";
+import { useState } from "react";
+
+/** Shared classes for the stock form inputs. */
+const inputClass =
+  "rounded-lg border border-admin-border bg-admin-surface px-3 py-2 text-sm text-admin-text focus:ring-2 focus:ring-russian-violet/30 focus:outline-none";
+
+interface FormState {
+  name: string;
+  sku: string;
+  supplier: string;
+  unitCost: string;
+  markupPercent: string;
+  /** Fixed price; blank = priced from the markup. */
+  sellPrice: string;
+  reorderLevel: string;
+  /** Opening quantity; new items only. */
+  onHand: string;
+}
+
+/**
+ * Blank form with a 30% markup.
+ * @returns Default FormState.
+ */
+function emptyForm(): FormState {
+  return {
+    name: "",
+    sku: "",
+    supplier: "",
+    unitCost: "",
+    markupPercent: "30",
+    sellPrice: "",
+    reorderLevel: "",
+    onHand: "",
+  };
+}
+
+/** The receive dialog's state. */
+interface ReceiveState {
+  item: StockRow;
+  expenseId: string;
+  qty: string;
+  unitCost: string;
+}
+
+/** The count dialog's state. */
+interface CountState {
+  item: StockRow;
+  onHand: string;
+  note: string;
+}
+
+interface Props {
+  /** Initial server-fetched stock items. */
+  initial: StockRow[];
+  /** Recent expenses parts can be received from. */
+  expenses: StockExpenseOption[];
+  /** Margin per billed item. */
+  margins: StockMarginRow[];
+  /** Whether prices carry GST (and costs are ex-GST). */
+  gstRegistered: boolean;
+}
+
+/**
+ * Stock manager - add, edit, receive, count, retire.
+ * @param props - Component props.
+ * @param props.initial - Initial stock items.
+ * @param props.expenses - Recent expenses for the receive dialog.
+ * @param props.margins - Margin report rows.
+ * @param props.gstRegistered - Whether prices carry GST.
+ * @returns Stock view element.
+ */
+export function StockView({
+  initial,
+  expenses,
+  margins,
+  gstRegistered,
+}: Props): React.ReactElement {
+  const [items, setItems] = useState<StockRow[]>(initial);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receive, setReceive] = useState<ReceiveState | null>(null);
+  const [count, setCount] = useState<CountState | null>(null);
+  const { toast } = useToast();
+
+  const lowCount = items.filter(isLowStock).length;
+
+  /**
+   * Swaps an updated item into the list.
+   * @param next - The item as saved.
+   */
+  function replaceItem(next: StockRow): void {
+    setItems((prev) => prev.map((i) => (i.id === next.id ? next : i)));
+  }
+
+  /** Resets the form back to its blank state and exits edit mode. */
+  function resetForm(): void {
+    setForm(emptyForm());
+    setEditingId(null);
+    setError(null);
+  }
+
+  /**
+   * Loads an item into the form for editing.
+   * @param item - Stock row.
+   */
+  function startEdit(item: StockRow): void {
+    setEditingId(item.id);
+    setError(null);
+    setForm({
+      name: item.name,
+      sku: item.sku ?? "",
+      supplier: item.supplier ?? "",
+      unitCost: String(item.unitCost),
+      markupPercent: String(item.markupPercent),
+      sellPrice: item.sellPrice !== null ? String(item.sellPrice) : "",
+      reorderLevel: item.reorderLevel !== null ? String(item.reorderLevel) : "",
+      onHand: "",
+    });
+  }
+
+  /**
+   * POST/PATCH the form, swap into local state on success.
+   * @param e - Form submit event.
+   */
+  async function handleSubmit(e: React.SyntheticEvent<HTMLFormElement>): Promise<void> {
+    e.preventDefault();
+    setError(null);
+    const body = {
+      name: form.name.trim(),
+      sku: form.sku,
+      supplier: form.supplier,
+      unitCost: form.unitCost === "" ? 0 : Number(form.unitCost),
+      markupPercent: form.markupPercent === "" ? 0 : Number(form.markupPercent),
+      sellPrice: form.sellPrice === "" ? null : Number(form.sellPrice),
+      reorderLevel: form.reorderLevel === "" ? null : Number(form.reorderLevel),
+      ...(!editingId && form.onHand !== "" && { onHand: Number(form.onHand) }),
+    };
+
+    setBusy(true);
+    try {
+      const url = editingId ? `/api/business/stock/${editingId}` : "/api/business/stock";
+      const res = await fetch(url, {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const d = (await res.json().catch(() => ({}))) as { item?: StockRow; error?: string };
+      if (!res.ok || !d.item) {
+        setError(d.error ?? `Save failed (${res.status})`);
+        return;
+      }
+      const next = d.item;
+      setItems((prev) =>
+        editingId ? prev.map((i) => (i.id === editingId ? next : i)) : [next, ...prev],
+      );
+      resetForm();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Retires or restores an item. Retired items leave the calculator's picker
+   * but keep their margin history.
+   * @param item - Item to toggle.
+   */
+  async function toggleActive(item: StockRow): Promise<void> {
+    const res = await fetch(`/api/business/stock/${item.id}`, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ isActive: !item.isActive }),
+    });
+    const d = (await res.json().catch(() => ({}))) as { item?: StockRow };
+    if (!res.ok || !d.item) {
+      toast("Couldn't update the item.", { tone: "error" });
+      return;
+    }
+    replaceItem(d.item);
+  }
+
+  /** Receives the dialog's quantity from the chosen expense. */
+  async function submitReceive(): Promise<void> {
+    if (!receive) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/business/stock/${receive.item.id}/receive`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          expenseId: receive.expenseId,
+          qty: Number(receive.qty),
+          unitCost: receive.unitCost === "" ? null : Number(receive.unitCost),
+        }),
+      });
+      const d = (await res.json().catch(() => ({}))) as { item?: StockRow; error?: string };
+      if (!res.ok || !d.item) {
+        toast(d.error ?? "Couldn't receive the stock.", { tone: "error" });
+        return;
+      }
+      replaceItem(d.item);
+      setReceive(null);
+      toast(`Received ${receive.qty} x ${d.item.name}.`, { tone: "success" });
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Saves the dialog's stock count. */
+  async function submitCount(): Promise<void> {
+    if (!count) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/business/stock/${count.item.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ onHand: Number(count.onHand), note: count.note }),
+      });
+      const d = (await res.json().catch(() => ({}))) as { item?: StockRow; error?: string };
+      if (!res.ok || !d.item) {
+        toast(d.error ?? "Couldn't save the count.", { tone: "error" });
+        return;
+      }
+      replaceItem(d.item);
+      setCount(null);
+    } catch {
+      toast("Network error - try again.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Unit cost a receipt would record when the dialog leaves it blank.
+   * @param state - Receive dialog state.
+   * @returns Default unit cost, or null before an expense and quantity are chosen.
+   */
+  function defaultReceiveCost(state: ReceiveState): number | null {
+    const expense = expenses.find((e) => e.id === state.expenseId);
+    const qty = Number(state.qty);
+    if (!expense || !Number.isInteger(qty) || qty < 1) return null;
+    return (gstRegistered ? expense.amountExcl : expense.amountIncl) / qty;
+  }
+
+  const receiveCost = receive ? defaultReceiveCost(receive) : null;
+  const marginTotals = margins.reduce(
+    (t, m) => ({
+      revenue: t.revenue + m.revenue,
+      cost: t.cost + m.cost,
+      margin: t.margin + m.margin,
+    }),
+    { revenue: 0, cost: 0, margin: 0 },
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Inline form */}
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="space-y-3 rounded-xl border border-admin-border bg-admin-surface p-5 shadow-sm"
+      >
+        <h2 className="text-sm font-semibold text-russian-violet">
+          {editingId ? "Edit stock item" : "New stock item"}
+        </h2>
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <label className="flex flex-col gap-1 sm:col-span-2">
+            <span className="text-xs font-medium text-admin-muted">Name</span>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm((p) => ({ ...p, name: e.target.value }))}
+              placeholder="e.g. 1TB SATA SSD"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">SKU (optional)</span>
+            <input
+              type="text"
+              value={form.sku}
+              onChange={(e) => setForm((p) => ({ ...p, sku: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">Supplier (optional)</span>
+            <input
+              type="text"
+              value={form.supplier}
+              onChange={(e) => setForm((p) => ({ ...p, supplier: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">
+              Unit cost{gstRegistered ? " (excl GST)" : ""}
+            </span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.unitCost}
+              onChange={(e) => setForm((p) => ({ ...p, unitCost: e.target.value }))}
+              placeholder="Set by receiving"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">Markup (%)</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={form.markupPercent}
+              onChange={(e) => setForm((p) => ({ ...p, markupPercent: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">Fixed price (optional)</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.sellPrice}
+              onChange={(e) => setForm((p) => ({ ...p, sellPrice: e.target.value }))}
+              placeholder="Overrides the markup"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-admin-muted">Reorder at (optional)</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={form.reorderLevel}
+              onChange={(e) => setForm((p) => ({ ...p, reorderLevel: e.target.value }))}
+              placeholder="Flag when this low"
+              className={inputClass}
+            />
+          </label>
+          {!editingId && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-admin-muted">On the shelf now</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={form.onHand}
+                onChange={(e) => setForm((p) => ({ ...p, onHand: e.target.value }))}
+                placeholder="0"
+                className={inputClass}
+              />
+            </label>
+          )}
+        </div>
+
+        {error && (
+          <p className="rounded bg-coquelicot-500/10 px-3 py-2 text-xs text-coquelicot-500">
+            {error}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <AdminButton type="submit" busy={busy}>
+            {editingId ? "Update item" : "Add item"}
+          </AdminButton>
+          {editingId && (
+            <AdminButton type="button" variant="secondary" onClick={resetForm}>
+              Cancel
+            </AdminButton>
+          )}
+        </div>
+      </form>
+
+      {lowCount > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          <strong>Low stock:</strong> {lowCount} {lowCount === 1 ? "item is" : "items are"} at or
+          below the reorder level.
+        </div>
+      )}
+
+      {/* Stock list */}
+      {items.length === 0 ? (
+        <p className="rounded-xl border border-admin-border bg-admin-surface p-6 text-sm text-admin-faint">
+          No stock items yet. Add one above, then receive it from the expense that paid for it.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-admin-border bg-admin-surface shadow-sm">
+          <table className="w-full text-sm">
+            <thead className="bg-admin-bg text-xs text-admin-muted uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Item</th>
+                <th className="px-4 py-2 text-right">On hand</th>
+                <th className="px-4 py-2 text-right">Cost</th>
+                <th className="px-4 py-2 text-right">Price</th>
+                <th className="px-4 py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-admin-border">
+              {items.map((item) => {
+                const low = isLowStock(item);
+                return (
+                  <tr key={item.id} className={cn(!item.isActive && "opacity-60")}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-admin-text">{item.name}</p>
+                      <p className="text-xs text-admin-faint">
+                        {[item.sku, item.supplier].filter(Boolean).join(" · ") || "-"}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <span className="inline-flex items-center gap-2">
+                        {!item.isActive ? (
+                          <StatusPill tone="neutral">Retired</StatusPill>
+                        ) : (
+                          low && <StatusPill tone="warning">Low</StatusPill>
+                        )}
+                        <span className="font-medium text-admin-text">{item.onHand}</span>
+                      </span>
+                      {item.reorderLevel !== null && (
+                        <p className="text-xs text-admin-faint">reorder at {item.reorderLevel}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-admin-text">
+                      {formatNZD(item.unitCost)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <p className="text-admin-text">
+                        {formatNZD(stockSellPrice(item, gstRegistered))}
+                      </p>
+                      <p className="text-xs text-admin-faint">
+                        {item.sellPrice !== null ? "fixed" : `+${item.markupPercent}%`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right text-xs">
+                      <div className="flex justify-end gap-3">
+                        <button
+                          onClick={() =>
+                            setReceive({
+                              item,
+                              expenseId: expenses[0]?.id ?? "",
+                              qty: "1",
+                              unitCost: "",
+                            })
+                          }
+                          className="text-admin-muted hover:text-admin-text"
+                        >
+                          Receive
+                        </button>
+                        <button
+                          onClick={() => setCount({ item, onHand: String(item.onHand), note: "" })}
+                          className="text-admin-muted hover:text-admin-text"
+                        >
+                          Count
+                        </button>
+                        <button
+                          onClick={() => startEdit(item)}
+                          className="text-admin-muted hover:text-admin-text"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => void toggleActive(item)}
+                          className="text-admin-muted hover:text-admin-text"
+                        >
+                          {item.isActive ? "Retire" : "Restore"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Margin report */}
+      <div className="overflow-x-auto rounded-xl border border-admin-border bg-admin-surface shadow-sm">
+        <h2 className="border-b border-admin-border px-4 py-3 text-sm font-semibold text-russian-violet">
+          Margin by part
+          {gstRegistered && (
+            <span className="ml-2 text-xs font-normal text-admin-faint">excl GST</span>
+          )}
+        </h2>
+        {margins.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-admin-faint">
+            Nothing billed from stock yet. Margins appear once an invoice with stock parts is sent.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-admin-bg text-xs text-admin-muted uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Part</th>
+                <th className="px-4 py-2 text-right">Units</th>
+                <th className="px-4 py-2 text-right">Billed</th>
+                <th className="px-4 py-2 text-right">Cost</th>
+                <th className="px-4 py-2 text-right">Margin</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-admin-border">
+              {margins.map((m) => (
+                <tr key={m.stockItemId}>
+                  <td className="px-4 py-2 text-admin-text">{m.name}</td>
+                  <td className="px-4 py-2 text-right text-admin-text">{m.units}</td>
+                  <td className="px-4 py-2 text-right text-admin-text">{formatNZD(m.revenue)}</td>
+                  <td className="px-4 py-2 text-right text-admin-text">{formatNZD(m.cost)}</td>
+                  <td
+                    className={cn(
+                      "px-4 py-2 text-right font-medium",
+                      m.margin < 0 ? "text-coquelicot-500" : "text-admin-text",
+                    )}
+                  >
+                    {formatNZD(m.margin)}
+                    {m.revenue > 0 && (
+                      <span className="ml-1 text-xs font-normal text-admin-faint">
+                        ({Math.round((m.margin / m.revenue) * 100)}%)
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t border-admin-border font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-admin-text" colSpan={2}>
+                  Total
+                </td>
+                <td className="px-4 py-2 text-right text-admin-text">
+                  {formatNZD(marginTotals.revenue)}
+                </td>
+                <td className="px-4 py-2 text-right text-admin-text">
+                  {formatNZD(marginTotals.cost)}
+                </td>
+                <td className="px-4 py-2 text-right text-admin-text">
+                  {formatNZD(marginTotals.margin)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+
+      <Modal
+        open={receive !== null}
+        onClose={() => !busy && setReceive(null)}
+        title={receive ? `Receive ${receive.item.name}` : ""}
+        description="Pick the expense the parts were bought on. The unit cost defaults to that expense over the quantity; the item's cost becomes the average of what's on the shelf."
+        footer={
+          <>
+            <AdminButton variant="secondary" onClick={() => setReceive(null)} disabled={busy}>
+              Cancel
+            </AdminButton>
+            <AdminButton
+              onClick={() => void submitReceive()}
+              busy={busy}
+              disabled={!receive?.expenseId}
+            >
+              Receive
+            </AdminButton>
+          </>
+        }
+      >
+        {receive &&
+          (expenses.length === 0 ? (
+            <p className="text-sm text-admin-muted">
+              No recent expenses. Record the purchase under Expenses first.
+            </p>
+          ) : (
+            <div className="grid gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-admin-muted">Expense</span>
+                <select
+                  value={receive.expenseId}
+                  onChange={(e) => setReceive({ ...receive, expenseId: e.target.value })}
+                  className={inputClass}
+                >
+                  {expenses.map((e) => (
+                    <option key={e.id} value={e.id}>
+                      {formatDateShort(e.date)} - {e.supplier}: {e.description} (
+                      {formatNZD(e.amountIncl)})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-admin-muted">Quantity</span>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={receive.qty}
+                    onChange={(e) => setReceive({ ...receive, qty: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-admin-muted">Unit cost</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={receive.unitCost}
+                    onChange={(e) => setReceive({ ...receive, unitCost: e.target.value })}
+                    placeholder={receiveCost !== null ? receiveCost.toFixed(2) : ""}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            </div>
+          ))}
+      </Modal>
+
+      <Modal
+        open={count !== null}
+        onClose={() => !busy && setCount(null)}
+        title={count ? `Count ${count.item.name}` : ""}
+        description="Set how many are actually on the shelf. The difference is recorded against the item."
+        footer={
+          <>
+            <AdminButton variant="secondary" onClick={() => setCount(null)} disabled={busy}>
+              Cancel
+            </AdminButton>
+            <AdminButton onClick={() => void submitCount()} busy={busy}>
+              Save count
+            </AdminButton>
+          </>
+        }
+      >
+        {count && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-admin-muted">On hand</span>
+              <input
+                type="number"
+                step="1"
+                value={count.onHand}
+                onChange={(e) => setCount({ ...count, onHand: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-admin-muted">Reason (optional)</span>
+              <input
+                type="text"
+                value={count.note}
+                onChange={(e) => setCount({ ...count, note: e.target.value })}
+                placeholder="e.g. damaged, used for own gear"
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -3,9 +3,12 @@
 /**
  * @description Collapsible "Parts / materials" card. Each row is a description
  * + cost; cost pastes carrying "$"/commas route through {@link parseMoney}.
- * Collapsed with an empty list is the default - parts are opt-in per job.
+ * Parts can also be picked from stock, priced by the item's markup rule and
+ * linked so sending the invoice takes them off the shelf. Collapsed with an
+ * empty list is the default - parts are opt-in per job.
  */
-import type { PartLine } from "@/features/business/types/business";
+import { formatNZD } from "@/features/business/lib/business";
+import type { PartLine, StockPartOption } from "@/features/business/types/business";
 import { cn } from "@/shared/lib/cn";
 import { parseMoney } from "@/shared/lib/parse-money";
 import type React from "react";
@@ -13,6 +16,8 @@ import type React from "react";
 interface Props {
   parts: PartLine[];
   onPartsChange: (updater: (prev: PartLine[]) => PartLine[]) => void;
+  /** Active stock items offered by the picker. */
+  stockItems: StockPartOption[];
   show: boolean;
   onToggle: () => void;
 }
@@ -23,11 +28,38 @@ interface Props {
  * @param props - Component props.
  * @param props.parts - Current parts array.
  * @param props.onPartsChange - Functional setter that takes the previous parts list and returns the next.
+ * @param props.stockItems - Active stock items offered by the picker.
  * @param props.show - Whether the body is expanded.
  * @param props.onToggle - Click handler for the collapse/expand chevron.
  * @returns Parts section element.
  */
-export function PartsSection({ parts, onPartsChange, show, onToggle }: Props): React.ReactElement {
+export function PartsSection({
+  parts,
+  onPartsChange,
+  stockItems,
+  show,
+  onToggle,
+}: Props): React.ReactElement {
+  const stockById = new Map(stockItems.map((item) => [item.id, item]));
+
+  /**
+   * Appends a part picked from stock at the item's sell price.
+   * @param id - The stock item's id.
+   */
+  function addFromStock(id: string): void {
+    const item = stockById.get(id);
+    if (!item) return;
+    onPartsChange((p) => [
+      ...p,
+      {
+        description: item.name,
+        cost: item.sellPrice,
+        stockItemId: item.id,
+        unitCost: item.unitCost,
+      },
+    ]);
+  }
+
   return (
     <div className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
       <button
@@ -39,72 +71,98 @@ export function PartsSection({ parts, onPartsChange, show, onToggle }: Props): R
       </button>
       {show && (
         <div className="mt-3 space-y-2">
-          {parts.map((part, idx) => (
-            <div
-              key={idx}
-              className={cn(
-                "grid grid-cols-[minmax(0,1fr)_44px] items-center gap-2",
-                "sm:grid-cols-[minmax(0,1fr)_88px_28px]",
-              )}
+          {parts.map((part, idx) => {
+            const stock = part.stockItemId ? stockById.get(part.stockItemId) : undefined;
+            return (
+              <div
+                key={idx}
+                className={cn(
+                  "grid grid-cols-[minmax(0,1fr)_44px] items-center gap-2",
+                  "sm:grid-cols-[minmax(0,1fr)_88px_28px]",
+                )}
+              >
+                <input
+                  type="text"
+                  placeholder="Description"
+                  value={part.description}
+                  onChange={(e) =>
+                    onPartsChange((p) => {
+                      const n = [...p];
+                      n[idx] = { ...n[idx], description: e.target.value };
+                      return n;
+                    })
+                  }
+                  className="col-span-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none sm:col-span-1 sm:py-2 sm:text-xs"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Cost"
+                  value={part.cost || ""}
+                  onPaste={(e) => {
+                    // Only intercept when the clipboard carries a "$", commas, or
+                    // other junk; plain numeric pastes fall through to the native
+                    // number input so decimal entry stays unaffected.
+                    const text = e.clipboardData.getData("text");
+                    if (!/[^\d.]/.test(text)) return;
+                    const value = parseMoney(text);
+                    if (value === null) return;
+                    e.preventDefault();
+                    onPartsChange((p) => {
+                      const n = [...p];
+                      n[idx] = { ...n[idx], cost: value };
+                      return n;
+                    });
+                  }}
+                  onChange={(e) =>
+                    onPartsChange((p) => {
+                      const n = [...p];
+                      n[idx] = { ...n[idx], cost: parseFloat(e.target.value) || 0 };
+                      return n;
+                    })
+                  }
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none sm:py-2 sm:text-xs"
+                />
+                <button
+                  onClick={() => onPartsChange((p) => p.filter((_, i) => i !== idx))}
+                  aria-label="Remove part"
+                  className="inline-flex h-11 w-11 items-center justify-center rounded-lg text-xl leading-none text-slate-400 hover:bg-red-50 hover:text-red-500 sm:h-auto sm:w-auto sm:rounded-none sm:text-lg sm:hover:bg-transparent"
+                >
+                  ×
+                </button>
+                {part.stockItemId && (
+                  <p className="col-span-full text-[11px] text-slate-400">
+                    From stock
+                    {stock ? ` - ${stock.onHand} on hand, cost ${formatNZD(stock.unitCost)}` : ""}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => onPartsChange((p) => [...p, { description: "", cost: 0 }])}
+              className="inline-flex h-11 items-center text-sm text-slate-500 underline hover:text-russian-violet sm:h-auto sm:text-xs"
             >
-              <input
-                type="text"
-                placeholder="Description"
-                value={part.description}
-                onChange={(e) =>
-                  onPartsChange((p) => {
-                    const n = [...p];
-                    n[idx] = { ...n[idx], description: e.target.value };
-                    return n;
-                  })
-                }
-                className="col-span-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none sm:col-span-1 sm:py-2 sm:text-xs"
-              />
-              <input
-                type="number"
-                min="0"
-                step="0.01"
-                placeholder="Cost"
-                value={part.cost || ""}
-                onPaste={(e) => {
-                  // Only intercept when the clipboard carries a "$", commas, or
-                  // other junk; plain numeric pastes fall through to the native
-                  // number input so decimal entry stays unaffected.
-                  const text = e.clipboardData.getData("text");
-                  if (!/[^\d.]/.test(text)) return;
-                  const value = parseMoney(text);
-                  if (value === null) return;
-                  e.preventDefault();
-                  onPartsChange((p) => {
-                    const n = [...p];
-                    n[idx] = { ...n[idx], cost: value };
-                    return n;
-                  });
-                }}
-                onChange={(e) =>
-                  onPartsChange((p) => {
-                    const n = [...p];
-                    n[idx] = { ...n[idx], cost: parseFloat(e.target.value) || 0 };
-                    return n;
-                  })
-                }
-                className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-sm focus:ring-2 focus:ring-russian-violet/30 focus:outline-none sm:py-2 sm:text-xs"
-              />
-              <button
-                onClick={() => onPartsChange((p) => p.filter((_, i) => i !== idx))}
-                aria-label="Remove part"
-                className="inline-flex h-11 w-11 items-center justify-center rounded-lg text-xl leading-none text-slate-400 hover:bg-red-50 hover:text-red-500 sm:h-auto sm:w-auto sm:rounded-none sm:text-lg sm:hover:bg-transparent"
+              + Add part
+            </button>
+            {stockItems.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => addFromStock(e.target.value)}
+                aria-label="Add a part from stock"
+                className="rounded-lg border border-slate-200 bg-white px-3 py-2.5 text-sm text-slate-600 focus:ring-2 focus:ring-russian-violet/30 focus:outline-none sm:py-1.5 sm:text-xs"
               >
-                ×
-              </button>
-            </div>
-          ))}
-          <button
-            onClick={() => onPartsChange((p) => [...p, { description: "", cost: 0 }])}
-            className="inline-flex h-11 items-center text-sm text-slate-500 underline hover:text-russian-violet sm:h-auto sm:text-xs"
-          >
-            + Add part
-          </button>
+                <option value="">+ From stock...</option>
+                {stockItems.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name} - {formatNZD(item.sellPrice)} ({item.onHand} on hand)
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         </div>
       )}
     </div>
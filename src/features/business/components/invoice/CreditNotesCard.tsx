@@ -0,0 +1,353 @@
+"use client";
+// src/features/business/components/invoice/CreditNotesCard.tsx
+/**
+ * @description Credit notes rail card on the invoice detail page. Lists the
+ * credit notes issued against the invoice (PDF download, email to client) and,
+ * on a paid invoice with something left to credit, opens the issue dialog:
+ * credit chosen line items or a set amount, with a reason and refund method.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { Card, CardHeader } from "@/features/admin/components/ui/Card";
+import { ADMIN_INPUT_CLS } from "@/features/admin/components/ui/field-classes";
+import { Modal } from "@/features/admin/components/ui/Modal";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { formatNZD, todayISO } from "@/features/business/lib/business";
+import { INCOME_METHODS } from "@/features/business/lib/constants";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+/** One issued credit note, serialised for the client. */
+export interface CreditNoteSummary {
+  id: string;
+  number: string;
+  issueDate: string;
+  total: number;
+  reason: string;
+  sentAt: string | null;
+}
+
+/** Props for {@link CreditNotesCard}. */
+interface CreditNotesCardProps {
+  invoiceId: string;
+  invoiceNumber: string;
+  /** Original line items, in order (their positions are what gets credited). */
+  lineItems: { description: string; lineTotal: number }[];
+  /** Amount still creditable; 0 hides the issue button. */
+  remaining: number;
+  /** False on unpaid invoices and quotes. */
+  canCredit: boolean;
+  hasClientEmail: boolean;
+  creditNotes: CreditNoteSummary[];
+}
+
+/**
+ * Credit notes list plus the issue dialog.
+ * @param props - Component props.
+ * @param props.invoiceId - Original invoice id.
+ * @param props.invoiceNumber - Original invoice number.
+ * @param props.lineItems - Original line items.
+ * @param props.remaining - Amount still creditable.
+ * @param props.canCredit - Whether the invoice can take a credit note.
+ * @param props.hasClientEmail - Whether the client has an email to send to.
+ * @param props.creditNotes - Credit notes already issued.
+ * @returns Card element.
+ */
+export function CreditNotesCard({
+  invoiceId,
+  invoiceNumber,
+  lineItems,
+  remaining,
+  canCredit,
+  hasClientEmail,
+  creditNotes,
+}: CreditNotesCardProps): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<"lines" | "amount">("lines");
+  const [picked, setPicked] = useState<number[]>([]);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [method, setMethod] = useState<string>("Bank");
+  const [date, setDate] = useState(todayISO());
+  const [sendEmail, setSendEmail] = useState(hasClientEmail);
+  const [busy, setBusy] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const pickedTotal = picked.reduce((s, i) => s + (lineItems[i]?.lineTotal ?? 0), 0);
+  const creditTotal = mode === "lines" ? pickedTotal : Number(amount) || 0;
+
+  /**
+   * Ticks or unticks one original line.
+   * @param index - Line position.
+   * @param on - New state.
+   */
+  function toggleLine(index: number, on: boolean): void {
+    setPicked((prev) => (on ? [...prev, index] : prev.filter((i) => i !== index)));
+  }
+
+  /** Issues the credit note and refreshes the page. */
+  async function submit(): Promise<void> {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/business/invoices/${invoiceId}/credit-notes`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          ...(mode === "lines" ? { lineIndexes: picked } : { amount: Number(amount) }),
+          reason: reason.trim(),
+          method,
+          date,
+          sendEmail,
+        }),
+      });
+      const d = (await res.json()) as {
+        ok: boolean;
+        error?: string;
+        creditNote?: { number: string };
+        emailed?: boolean;
+        sheetSyncWarning?: boolean;
+      };
+      if (!d.ok || !d.creditNote) {
+        toast(d.error ?? "Couldn't issue the credit note.", { tone: "error" });
+        return;
+      }
+      if (sendEmail && !d.emailed) {
+        toast(`${d.creditNote.number} issued, but the email didn't send.`, { tone: "warning" });
+      } else if (d.sheetSyncWarning) {
+        toast(
+          `${d.creditNote.number} issued, but the refund didn't reach the Cashbook - check the income ledger.`,
+          { tone: "warning" },
+        );
+      } else {
+        toast(`${d.creditNote.number} issued.`, { tone: "success" });
+      }
+      setOpen(false);
+      setPicked([]);
+      setAmount("");
+      setReason("");
+      router.refresh();
+    } catch {
+      toast("Couldn't issue the credit note. Check your connection.", { tone: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Downloads a credit note's PDF.
+   * @param note - The credit note.
+   */
+  async function downloadPdf(note: CreditNoteSummary): Promise<void> {
+    try {
+      const res = await fetch(`/api/business/credit-notes/${note.id}/pdf`);
+      if (!res.ok) {
+        const d = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(d.error ?? "Could not download PDF");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Credit note ${note.number}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast(err instanceof Error ? err.message : "Could not download PDF", { tone: "error" });
+    }
+  }
+
+  /**
+   * Emails a credit note to the client.
+   * @param note - The credit note.
+   */
+  async function sendNote(note: CreditNoteSummary): Promise<void> {
+    setSendingId(note.id);
+    try {
+      const res = await fetch(`/api/business/credit-notes/${note.id}/send-email`, {
+        method: "POST",
+      });
+      const d = (await res.json()) as { ok: boolean; error?: string };
+      if (!d.ok) {
+        toast(d.error ?? "Couldn't send the credit note.", { tone: "error" });
+        return;
+      }
+      toast(`${note.number} emailed.`, { tone: "success" });
+      router.refresh();
+    } catch {
+      toast("Couldn't send. Check your connection.", { tone: "error" });
+    } finally {
+      setSendingId(null);
+    }
+  }
+
+  const valid =
+    reason.trim() !== "" && creditTotal > 0 && creditTotal <= remaining + 0.005 && !busy;
+
+  return (
+    <Card>
+      <CardHeader
+        title="Credit notes"
+        actions={
+          canCredit && remaining > 0 ? (
+            <AdminButton size="xs" variant="secondary" onClick={() => setOpen(true)}>
+              Issue
+            </AdminButton>
+          ) : undefined
+        }
+      />
+      {creditNotes.length === 0 ? (
+        <p className="text-sm text-admin-muted">None issued.</p>
+      ) : (
+        <ul className="space-y-3 text-sm">
+          {creditNotes.map((n) => (
+            <li key={n.id}>
+              <div className="flex justify-between gap-3">
+                <span className="font-mono font-medium text-admin-text">{n.number}</span>
+                <span className="font-medium text-admin-text">{formatNZD(-n.total)}</span>
+              </div>
+              <p className="text-xs text-admin-muted">
+                {formatDateShort(n.issueDate)} · {n.reason}
+                {n.sentAt && ` · emailed ${formatDateShort(n.sentAt)}`}
+              </p>
+              <div className="mt-1 flex gap-2">
+                <AdminButton size="xs" variant="ghost" onClick={() => void downloadPdf(n)}>
+                  PDF
+                </AdminButton>
+                {hasClientEmail && (
+                  <AdminButton
+                    size="xs"
+                    variant="ghost"
+                    busy={sendingId === n.id}
+                    onClick={() => void sendNote(n)}
+                  >
+                    {n.sentAt ? "Re-send" : "Email"}
+                  </AdminButton>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        open={open}
+        onClose={() => !busy && setOpen(false)}
+        title={`Credit note - ${invoiceNumber}`}
+        size="sm"
+        footer={
+          <>
+            <AdminButton variant="secondary" onClick={() => setOpen(false)} disabled={busy}>
+              Cancel
+            </AdminButton>
+            <AdminButton onClick={() => void submit()} busy={busy} disabled={!valid}>
+              Issue {creditTotal > 0 ? formatNZD(creditTotal) : ""} credit
+            </AdminButton>
+          </>
+        }
+      >
+        <div className="flex flex-col gap-4 text-sm">
+          <p className="text-admin-text-secondary">
+            Up to <span className="font-semibold text-admin-text">{formatNZD(remaining)}</span> left
+            to credit. The refund is recorded as negative income.
+          </p>
+
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "lines"} onChange={() => setMode("lines")} />
+              Line items
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "amount"} onChange={() => setMode("amount")} />
+              Amount
+            </label>
+          </div>
+
+          {mode === "lines" ? (
+            <div className="flex flex-col gap-2">
+              {lineItems.map((l, i) => (
+                <label key={i} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={picked.includes(i)}
+                    onChange={(e) => toggleLine(i, e.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span className="flex-1 text-admin-text">{l.description}</span>
+                  <span className="whitespace-nowrap text-admin-text">
+                    {formatNZD(l.lineTotal)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-admin-text">Amount (incl. GST)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={ADMIN_INPUT_CLS}
+              />
+            </label>
+          )}
+
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-admin-text">Reason</span>
+            <input
+              type="text"
+              value={reason}
+              maxLength={300}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. part returned unused"
+              className={ADMIN_INPUT_CLS}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-admin-text">Refunded by</span>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                className={ADMIN_INPUT_CLS}
+              >
+                {INCOME_METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-admin-text">Date</span>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={ADMIN_INPUT_CLS}
+              />
+            </label>
+          </div>
+
+          {hasClientEmail && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={sendEmail}
+                onChange={(e) => setSendEmail(e.target.checked)}
+              />
+              <span className="text-admin-text">Email the credit note to the client</span>
+            </label>
+          )}
+        </div>
+      </Modal>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 // src/features/business/components/invoice/InvoiceStatusBadge.tsx
 /**
  * @description Renders an invoice's DISPLAY status (a SENT invoice past due
- * surfaces as OVERDUE) as a tone-mapped {@link StatusPill}. Shared by the
+ * surfaces as OVERDUE, one with some payments in as PART PAID) as a
+ * tone-mapped {@link StatusPill}. Shared by the
  * invoices list and the detail page so the badge can't drift. Server-safe.
  */
 
@@ -18,6 +19,7 @@ const TONE: Record<string, StatusTone> = {
   SENT: "info",
   PAID: "success",
   OVERDUE: "critical",
+  PARTIALLY_PAID: "warning",
   VOIDED: "violet",
   // Quote states: violet matches the PDF's brand-coloured QUOTE treatment
   // (VOIDED shares the tone but never the text); EXPIRED warns without alarm.
@@ -25,9 +27,14 @@ const TONE: Record<string, StatusTone> = {
   EXPIRED: "warning",
 };
 
+/** Pill text where the status key doesn't read well as-is. */
+const LABEL: Record<string, string> = {
+  PARTIALLY_PAID: "PART PAID",
+};
+
 /** Props for {@link InvoiceStatusBadge}. */
 interface InvoiceStatusBadgeProps {
-  /** Invoice with `status` + `dueDate` (the display status is derived from these). */
+  /** Invoice with `status` + `dueDate` (+ `total` / `amountPaid`); the display status is derived from these. */
   invoice: OverdueCheckInput;
 }
 
@@ -39,5 +46,5 @@ interface InvoiceStatusBadgeProps {
  */
 export function InvoiceStatusBadge({ invoice }: InvoiceStatusBadgeProps): React.ReactElement {
   const status = deriveInvoiceDisplayStatus(invoice);
-  return <StatusPill tone={TONE[status] ?? "neutral"}>{status}</StatusPill>;
+  return <StatusPill tone={TONE[status] ?? "neutral"}>{LABEL[status] ?? status}</StatusPill>;
 }
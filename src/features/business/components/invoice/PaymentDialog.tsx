@@ -2,7 +2,8 @@
 // src/features/business/components/invoice/PaymentDialog.tsx
 /**
  * @description Records a payment against an invoice via POST /pay. Collects the
- * date, method (INCOME_METHODS), an optional reference, and whether to write an
+ * amount (the balance due by default; less records a part payment), date,
+ * method (INCOME_METHODS), an optional reference, and whether to write an
  * income-ledger entry. Shared by the invoices list and the invoice detail page.
  * Mount it fresh per payment (conditional render or key by invoice id) so the
  * form resets - it holds no reset effect.
@@ -13,6 +14,8 @@ import { Modal } from "@/features/admin/components/ui/Modal";
 import { useToast } from "@/features/admin/components/ui/Toast";
 import { formatNZD, todayISO } from "@/features/business/lib/business";
 import { INCOME_METHODS } from "@/features/business/lib/constants";
+import { invoiceBalanceDue } from "@/features/business/lib/invoice-status";
+import type { InvoiceStatus } from "@/features/business/types/business";
 import type React from "react";
 import { useState } from "react";
 
@@ -22,8 +25,10 @@ interface PaymentDialogInvoice {
   number: string;
   total: number;
   clientName: string;
-  status: string;
+  status: InvoiceStatus;
   paidAt?: string | null;
+  /** Payments received so far; null reads as 0. */
+  amountPaid?: number | null;
 }
 
 /** Props for {@link PaymentDialog}. */
@@ -34,8 +39,11 @@ interface PaymentDialogProps {
   invoice: PaymentDialogInvoice;
   /** Whether the invoice already has a linked income entry (affects the copy). */
   hasLinkedIncome?: boolean;
-  /** Called on close; `recorded` is true when a payment was recorded. */
-  onClose: (recorded: boolean) => void;
+  /**
+   * Called on close; `recorded` is true when a payment was recorded, and
+   * `fullyPaid` when it cleared the balance (false for a part payment).
+   */
+  onClose: (recorded: boolean, fullyPaid?: boolean) => void;
 }
 
 const INPUT_CLS =
@@ -58,6 +66,9 @@ export function PaymentDialog({
 }: PaymentDialogProps): React.ReactElement {
   const { toast } = useToast();
   const alreadyPaid = invoice.status === "PAID";
+  const balance = invoiceBalanceDue(invoice);
+  const paidSoFar = invoice.amountPaid ?? 0;
+  const [amount, setAmount] = useState(balance.toFixed(2));
   const [date, setDate] = useState(todayISO());
   const [method, setMethod] = useState<string>(INCOME_METHODS[0]);
   const [reference, setReference] = useState("");
@@ -77,6 +88,8 @@ export function PaymentDialog({
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
           paidAt: date,
+          // A legacy PAID backfill has no balance; the route stamps the total.
+          ...(!alreadyPaid && { amount: Number(amount) }),
           method,
           reference: reference.trim() || undefined,
           createIncome,
@@ -92,10 +105,12 @@ export function PaymentDialog({
         toast("Payment recorded, but the Cashbook sheet update didn't go through.", {
           tone: "warning",
         });
+      } else if (d.fullyPaid === false) {
+        toast(`Part payment recorded for ${invoice.number}.`, { tone: "success" });
       } else {
         toast(`Payment recorded for ${invoice.number}.`, { tone: "success" });
       }
-      onClose(true);
+      onClose(true, d.fullyPaid !== false);
     } catch {
       toast("Couldn't record the payment. Check your connection.", { tone: "error" });
       setBusy(false);
@@ -113,7 +128,11 @@ export function PaymentDialog({
           <AdminButton variant="secondary" onClick={() => onClose(false)} disabled={busy}>
             Cancel
           </AdminButton>
-          <AdminButton onClick={() => void submit()} busy={busy}>
+          <AdminButton
+            onClick={() => void submit()}
+            busy={busy}
+            disabled={!alreadyPaid && !(Number(amount) > 0 && Number(amount) <= balance + 0.005)}
+          >
             {busy ? "Recording payment and updating PDF..." : "Record payment"}
           </AdminButton>
         </>
@@ -123,8 +142,33 @@ export function PaymentDialog({
         <p className="text-admin-text-secondary">
           {invoice.clientName} -{" "}
           <span className="font-semibold text-admin-text">{formatNZD(invoice.total)}</span>
+          {paidSoFar > 0 && !alreadyPaid && (
+            <span className="block text-xs text-admin-muted">
+              {formatNZD(paidSoFar)} paid so far; {formatNZD(balance)} still due.
+            </span>
+          )}
         </p>
 
+        {!alreadyPaid && (
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-admin-text">Amount received</span>
+            <input
+              type="number"
+              min="0.01"
+              max={balance}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={INPUT_CLS}
+            />
+            {Number(amount) > 0 && Number(amount) < balance - 0.005 && (
+              <span className="text-xs text-admin-muted">
+                Part payment - {formatNZD(balance - Number(amount))} will still be due.
+              </span>
+            )}
+          </label>
+        )}
+
         <label className="flex flex-col gap-1">
           <span className="font-medium text-admin-text">Payment date</span>
           <input
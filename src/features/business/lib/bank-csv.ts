@@ -0,0 +1,277 @@
+// src/features/business/lib/bank-csv.ts
+/**
+ * @description Parser for NZ bank statement CSV exports. ASB, ANZ, Kiwibank and
+ * BNZ each use their own column layout (and ASB and BNZ put preamble lines above
+ * the header), so the layout is detected from the header row rather than
+ * chosen by the operator. Every layout lands in one {@link BankTransaction} shape:
+ * a signed amount (credit positive), the payee, and the particulars / code /
+ * reference fields the matcher searches for invoice numbers.
+ */
+
+/** Banks whose export layout is recognised. */
+export type BankName = "ASB" | "ANZ" | "Kiwibank" | "BNZ";
+
+/** One statement line, normalised across banks. */
+export interface BankTransaction {
+  /** 0-based position among the parsed lines; keys the review list. */
+  index: number;
+  /** Transaction date as YYYY-MM-DD (NZ calendar day, as the bank prints it). */
+  date: string;
+  /** Signed NZD amount: positive = money in, negative = money out. */
+  amount: number;
+  /** Other party as the bank names them (payee, OP name, or details). */
+  payee: string;
+  /** Particulars / code / reference / memo joined, for invoice-number search. */
+  reference: string;
+  /** Bank transaction type, e.g. "D/C", "Direct Credit", "POS"; "" when absent. */
+  type: string;
+}
+
+/** Result of {@link parseBankCsv}. */
+export interface ParsedBankStatement {
+  bank: BankName;
+  transactions: BankTransaction[];
+  /** Lines that looked like transactions but didn't parse, as "line N: reason". */
+  errors: string[];
+}
+
+/**
+ * Column names (lower-cased) each layout reads. `amount` is a single signed
+ * column; Kiwibank's separate credit/debit columns fall back to its signed
+ * "amount" column, which every Kiwibank export also carries.
+ */
+interface BankLayout {
+  bank: BankName;
+  /** Headers that must all be present to pick this layout. */
+  signature: string[];
+  date: string;
+  amount: string;
+  payee: string[];
+  reference: string[];
+  type: string | null;
+}
+
+// First match wins. The signatures overlap (BNZ and ASB both carry "payee" and
+// "tran type"; BNZ and ANZ share particulars/code/reference), so each names a
+// column only its own bank exports.
+const LAYOUTS: BankLayout[] = [
+  {
+    bank: "Kiwibank",
+    signature: ["account number", "memo/description", "op name", "amount"],
+    date: "date",
+    amount: "amount",
+    payee: ["op name", "memo/description"],
+    reference: ["tp ref", "tp part", "tp code", "op ref", "op part", "op code", "memo/description"],
+    type: "source code (payment type)",
+  },
+  {
+    bank: "BNZ",
+    signature: ["date", "amount", "payee", "particulars", "code", "reference", "tran type"],
+    date: "date",
+    amount: "amount",
+    payee: ["payee"],
+    reference: ["particulars", "code", "reference"],
+    type: "tran type",
+  },
+  {
+    bank: "ANZ",
+    signature: ["type", "details", "particulars", "code", "reference", "amount", "date"],
+    date: "date",
+    amount: "amount",
+    payee: ["details"],
+    reference: ["particulars", "code", "reference"],
+    type: "type",
+  },
+  {
+    bank: "ASB",
+    signature: ["date", "unique id", "tran type", "payee", "memo", "amount"],
+    date: "date",
+    amount: "amount",
+    payee: ["payee"],
+    reference: ["memo"],
+    type: "tran type",
+  },
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells (with "" escapes and
+ * embedded commas/newlines) and CRLF line endings.
+ * @param text - Raw CSV text.
+ * @returns Rows of raw cell strings.
+ */
+export function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parses a bank-printed date into YYYY-MM-DD. Accepts year-first (2025/03/07,
+ * 2025-03-07), NZ day-first (07/03/2025, 07-03-25) and Kiwibank's "07 Mar 2025".
+ * @param raw - Date cell.
+ * @returns The date key, or null when it isn't a real date.
+ */
+export function parseBankDate(raw: string): string | null {
+  const s = raw.trim();
+  let y: number;
+  let m: number;
+  let d: number;
+  const ymd = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(s);
+  const dmy = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/.exec(s);
+  const named = /^(\d{1,2})[ -]([A-Za-z]{3})[A-Za-z]*[ -](\d{2}|\d{4})$/.exec(s);
+  if (ymd) {
+    [y, m, d] = [Number(ymd[1]), Number(ymd[2]), Number(ymd[3])];
+  } else if (dmy) {
+    [d, m, y] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+  } else if (named && MONTHS[named[2].toLowerCase()]) {
+    [d, m, y] = [Number(named[1]), MONTHS[named[2].toLowerCase()], Number(named[3])];
+  } else {
+    return null;
+  }
+  if (y < 100) y += 2000;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a bank amount cell: strips "$" and thousands commas, and reads a
+ * trailing "CR"/"DR" or accounting-style parentheses as the sign.
+ * @param raw - Amount cell.
+ * @returns The signed amount, or null when it isn't a number.
+ */
+export function parseBankAmount(raw: string): number | null {
+  let s = raw.trim().replace(/[$,\s]/g, "");
+  let sign = 1;
+  if (/^\(.*\)$/.test(s)) {
+    sign = -1;
+    s = s.slice(1, -1);
+  } else if (/DR$/i.test(s)) {
+    sign = -1;
+    s = s.slice(0, -2);
+  } else if (/CR$/i.test(s)) {
+    s = s.slice(0, -2);
+  }
+  if (s === "" || !/^[+-]?\d*\.?\d+$/.test(s)) return null;
+  return Math.round(sign * Number(s) * 100) / 100;
+}
+
+/**
+ * Parses a bank CSV export. The header row is found by scanning for the first
+ * row that satisfies a known layout's signature, which skips ASB's and BNZ's
+ * account-summary preamble.
+ * @param text - Raw CSV text as exported from internet banking.
+ * @returns The detected bank, parsed transactions, and per-line errors.
+ * Throws when no row matches a known layout, naming the supported banks.
+ */
+export function parseBankCsv(text: string): ParsedBankStatement {
+  const rows = splitCsv(text.replace(/^\uFEFF/, ""));
+  let layout: BankLayout | null = null;
+  let headerRow = -1;
+  let columns = new Map<string, number>();
+  for (let r = 0; r < rows.length && !layout; r++) {
+    const headers = rows[r].map((c) => c.trim().toLowerCase());
+    const match = LAYOUTS.find((l) => l.signature.every((h) => headers.includes(h)));
+    if (match) {
+      layout = match;
+      headerRow = r;
+      columns = new Map(headers.map((h, i) => [h, i]));
+    }
+  }
+  if (!layout) {
+    throw new Error(
+      `Unrecognised CSV layout. Supported exports: ${LAYOUTS.map((l) => l.bank).join(", ")}.`,
+    );
+  }
+
+  /**
+   * One cell by header name; "" when the column is absent or the row is short.
+   * @param row - Data row.
+   * @param name - Lower-cased header.
+   * @returns Trimmed cell text.
+   */
+  const cellOf = (row: string[], name: string): string => {
+    const i = columns.get(name);
+    return i === undefined ? "" : (row[i] ?? "").trim();
+  };
+  /**
+   * Non-empty cells of several columns, de-duplicated and space-joined.
+   * @param row - Data row.
+   * @param names - Lower-cased headers.
+   * @returns Joined text.
+   */
+  const joined = (row: string[], names: string[]): string =>
+    Array.from(new Set(names.map((n) => cellOf(row, n)).filter(Boolean))).join(" ");
+
+  const transactions: BankTransaction[] = [];
+  const errors: string[] = [];
+  for (let r = headerRow + 1; r < rows.length; r++) {
+    const row = rows[r];
+    if (row.every((c) => c.trim() === "")) continue;
+    const date = parseBankDate(cellOf(row, layout.date));
+    const amount = parseBankAmount(cellOf(row, layout.amount));
+    if (!date || amount === null) {
+      errors.push(`line ${r + 1}: ${!date ? "unreadable date" : "unreadable amount"}`);
+      continue;
+    }
+    if (amount === 0) continue;
+    transactions.push({
+      index: transactions.length,
+      date,
+      amount,
+      payee: layout.payee.map((n) => cellOf(row, n)).find(Boolean) ?? "",
+      reference: joined(row, layout.reference),
+      type: layout.type ? cellOf(row, layout.type) : "",
+    });
+  }
+  return { bank: layout.bank, transactions, errors };
+}
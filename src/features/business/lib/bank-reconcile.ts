@@ -0,0 +1,490 @@
+// src/features/business/lib/bank-reconcile.ts
+/**
+ * @description Bank statement reconciliation. Credits are matched to open
+ * invoices on three signals - the invoice number in the particulars/reference
+ * fields, an exact amount (of the balance still due, so an instalment matches
+ * a part-paid invoice's remainder), and the client's name in the payee - and
+ * each open invoice is proposed for at most one credit. Debits are proposed as expense
+ * candidates, pre-filled from an active subscription when the payee names its
+ * supplier. Lines already in the ledger (same amount within a few days) are
+ * flagged so a re-imported statement doesn't double-count.
+ *
+ * Nothing is written until the operator confirms; confirmed lines go through
+ * the same writers as the rest of the ledger (recordInvoicePayment >
+ * recordIncome, recordSubscriptionPayment / recordExpense), so the Cashbook and
+ * Expenses sheets stay in sync.
+ */
+
+import type { BankTransaction } from "@/features/business/lib/bank-csv";
+import { recordExpense } from "@/features/business/lib/expense-recording";
+import { recordInvoicePayment } from "@/features/business/lib/invoice-payment";
+import { invoiceBalanceDue, NOT_A_QUOTE_FILTER } from "@/features/business/lib/invoice-status";
+import { GST_RATE } from "@/features/business/lib/pricing-policy";
+import { recordSubscriptionPayment } from "@/features/business/lib/subscription-recording";
+import { prisma } from "@/shared/lib/prisma";
+import type { Invoice, Subscription } from "@prisma/client";
+
+/** Income method stamped on bank-matched payments (an INCOME_METHODS value). */
+export const BANK_PAYMENT_METHOD = "Bank";
+
+/** Payment method for unmatched debits (a PAYMENT_METHODS value). */
+const DEFAULT_EXPENSE_METHOD = "Business Account";
+
+/** Days either side of the bank date an existing ledger row still counts as this line. */
+const DUPLICATE_WINDOW_DAYS = 3;
+
+// A subscription charge recorded with the bank line advances the subscription
+// only when its nextDue is this close - otherwise the cron already took (or
+// will take) that period and the line is a one-off at the same supplier.
+const SUBSCRIPTION_DUE_WINDOW_DAYS = 7;
+
+// Match signals. A number in the reference outranks an exact amount, which
+// outranks a name: customers mistype references far less often than two
+// invoices share a total.
+const SCORE_NUMBER = 3;
+const SCORE_AMOUNT = 2;
+const SCORE_NAME = 1;
+/** Below this a candidate isn't proposed at all (a name alone proves nothing). */
+const MIN_SCORE = SCORE_AMOUNT;
+
+/** How sure the matcher is about its proposed invoice. */
+export type MatchConfidence = "high" | "medium" | "low";
+
+/** One open invoice a credit could pay. */
+export interface InvoiceCandidate {
+  invoiceId: string;
+  number: string;
+  clientName: string;
+  /** Balance still due (the full total until a payment is in). */
+  total: number;
+  score: number;
+  /** Which signals hit, e.g. ["number", "amount"]. */
+  reasons: ("number" | "amount" | "name")[];
+}
+
+/** Proposal for a credit (money in). */
+export interface CreditProposal {
+  kind: "income";
+  transaction: BankTransaction;
+  /** Invoice proposed for this credit; null when nothing scored or a better credit took it. */
+  invoiceId: string | null;
+  confidence: MatchConfidence | null;
+  /** Every open invoice that scored, best first, for the operator to switch to. */
+  candidates: InvoiceCandidate[];
+  /** An income entry for this amount already sits within a few days of the date. */
+  duplicate: boolean;
+}
+
+/** Proposal for a debit (money out), pre-filled for recordExpense. */
+export interface DebitProposal {
+  kind: "expense";
+  transaction: BankTransaction;
+  /** Active subscription whose supplier the payee names, if any. */
+  subscriptionId: string | null;
+  supplier: string;
+  description: string;
+  category: string;
+  gstRate: number;
+  method: string;
+  /** An expense entry for this amount already sits within a few days of the date. */
+  duplicate: boolean;
+}
+
+export type BankProposal = CreditProposal | DebitProposal;
+
+/** Ledger state the matcher compares a statement against. */
+export interface ReconcileContext {
+  /** `total` is the balance still due, not the invoice total. */
+  openInvoices: Pick<Invoice, "id" | "number" | "clientName" | "total">[];
+  subscriptions: Pick<
+    Subscription,
+    "id" | "supplier" | "description" | "category" | "gstRate" | "method" | "amountIncl"
+  >[];
+  /** Existing income entries near the statement dates. */
+  income: { date: Date; amount: number }[];
+  /** Existing expense entries near the statement dates. */
+  expenses: { date: Date; amountIncl: number }[];
+}
+
+/**
+ * Upper-cases and drops everything but letters and digits, so "TTP-2627-0042",
+ * "ttp 2627 0042" and "TTP26270042" compare equal.
+ * @param value - Raw text.
+ * @returns Normalised text.
+ */
+function squash(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Name tokens worth matching: 3+ letters, so initials and "LTD"-length noise
+ * don't hit. Bank payees are usually "J SMITH" or "SMITH J & K".
+ * @param value - A name.
+ * @returns Upper-case tokens.
+ */
+function nameTokens(value: string): string[] {
+  const stop = new Set(["LTD", "LIMITED", "THE", "AND", "MRS", "MISS"]);
+  return value
+    .toUpperCase()
+    .split(/[^A-Z]+/)
+    .filter((t) => t.length >= 3 && !stop.has(t));
+}
+
+/**
+ * Whether the bank reference carries the invoice number - whole, or its
+ * year-and-sequence tail (customers often drop the prefix).
+ * @param reference - Squashed bank reference.
+ * @param number - Invoice number.
+ * @returns True on a hit.
+ */
+function referenceHasNumber(reference: string, number: string): boolean {
+  const full = squash(number);
+  const tail = squash(number.split("-").slice(1).join("-"));
+  return reference.includes(full) || (tail.length >= 6 && reference.includes(tail));
+}
+
+/**
+ * Scores one open invoice against one credit.
+ * @param tx - The credit.
+ * @param invoice - The open invoice.
+ * @returns The candidate, or null when it scored below the proposal floor.
+ */
+function scoreInvoice(
+  tx: BankTransaction,
+  invoice: ReconcileContext["openInvoices"][number],
+): InvoiceCandidate | null {
+  const reasons: InvoiceCandidate["reasons"] = [];
+  let score = 0;
+  if (referenceHasNumber(squash(`${tx.reference} ${tx.payee}`), invoice.number)) {
+    score += SCORE_NUMBER;
+    reasons.push("number");
+  }
+  if (Math.abs(tx.amount - invoice.total) < 0.005) {
+    score += SCORE_AMOUNT;
+    reasons.push("amount");
+  }
+  const payeeTokens = new Set(nameTokens(`${tx.payee} ${tx.reference}`));
+  if (nameTokens(invoice.clientName).some((t) => payeeTokens.has(t))) {
+    score += SCORE_NAME;
+    reasons.push("name");
+  }
+  if (score < MIN_SCORE) return null;
+  return {
+    invoiceId: invoice.id,
+    number: invoice.number,
+    clientName: invoice.clientName,
+    total: invoice.total,
+    score,
+    reasons,
+  };
+}
+
+/**
+ * Maps a winning score to a confidence. Number + amount (or better) is high;
+ * amount + name, or number alone, is medium; amount alone is low.
+ * @param score - The candidate's score.
+ * @returns The confidence.
+ */
+function confidenceOf(score: number): MatchConfidence {
+  if (score >= SCORE_NUMBER + SCORE_AMOUNT) return "high";
+  if (score >= SCORE_NUMBER) return "medium";
+  return "low";
+}
+
+/**
+ * Category guess for a debit with no subscription: bank fees are common enough
+ * (and GST-free) to spot; everything else waits for the operator.
+ * @param tx - The debit.
+ * @returns An EXPENSE_CATEGORIES value.
+ */
+function expenseCategoryFor(tx: BankTransaction): string {
+  const text = `${tx.type} ${tx.payee} ${tx.reference}`.toUpperCase();
+  return /\b(FEES?|CHARGES?)\b/.test(text) ? "Bank fees" : "Other";
+}
+
+/**
+ * Whether the payee names the subscription's supplier.
+ * @param tx - The debit.
+ * @param supplier - Subscription supplier.
+ * @returns True on a hit.
+ */
+function payeeNamesSupplier(tx: BankTransaction, supplier: string): boolean {
+  const haystack = squash(`${tx.payee} ${tx.reference}`);
+  const needle = squash(supplier);
+  return needle.length >= 3 && haystack.includes(needle);
+}
+
+/**
+ * Whether a ledger row with this amount sits within the duplicate window.
+ * @param date - Bank date, YYYY-MM-DD.
+ * @param amount - Unsigned amount.
+ * @param rows - Existing ledger dates and amounts.
+ * @returns True when one does.
+ */
+function alreadyInLedger(
+  date: string,
+  amount: number,
+  rows: { date: Date; amount: number }[],
+): boolean {
+  const at = new Date(`${date}T00:00:00.000Z`).getTime();
+  const window = DUPLICATE_WINDOW_DAYS * 86_400_000;
+  return rows.some(
+    (r) => Math.abs(r.amount - amount) < 0.005 && Math.abs(r.date.getTime() - at) <= window,
+  );
+}
+
+/**
+ * Builds the proposals for a parsed statement. Pure: every lookup comes from
+ * `ctx`. Credits compete for invoices best-score-first, so two credits of the
+ * same amount can't both claim one invoice.
+ * @param transactions - Parsed statement lines.
+ * @param ctx - Open invoices, active subscriptions, and nearby ledger rows.
+ * @returns One proposal per transaction, in statement order.
+ */
+export function matchTransactions(
+  transactions: BankTransaction[],
+  ctx: ReconcileContext,
+): BankProposal[] {
+  const income = ctx.income.map((r) => ({ date: r.date, amount: r.amount }));
+  const expenses = ctx.expenses.map((r) => ({ date: r.date, amount: r.amountIncl }));
+
+  const proposals: BankProposal[] = transactions.map((tx) => {
+    if (tx.amount > 0) {
+      const candidates = ctx.openInvoices
+        .map((inv) => scoreInvoice(tx, inv))
+        .filter((c): c is InvoiceCandidate => c !== null)
+        .sort((a, b) => b.score - a.score);
+      return {
+        kind: "income",
+        transaction: tx,
+        invoiceId: null,
+        confidence: null,
+        candidates,
+        duplicate: alreadyInLedger(tx.date, tx.amount, income),
+      };
+    }
+    const amount = -tx.amount;
+    // Several plans at one supplier: the closest price is the likeliest charge.
+    const sub = ctx.subscriptions
+      .filter((s) => payeeNamesSupplier(tx, s.supplier))
+      .sort((x, y) => Math.abs(x.amountIncl - amount) - Math.abs(y.amountIncl - amount))[0];
+    const category = sub?.category ?? expenseCategoryFor(tx);
+    return {
+      kind: "expense",
+      transaction: tx,
+      subscriptionId: sub?.id ?? null,
+      supplier: sub?.supplier ?? (tx.payee || "Unknown"),
+      description: sub?.description ?? (tx.reference || tx.payee || "Bank debit"),
+      category,
+      gstRate: sub?.gstRate ?? (category === "Bank fees" ? 0 : GST_RATE),
+      method: sub?.method ?? DEFAULT_EXPENSE_METHOD,
+      duplicate: alreadyInLedger(tx.date, amount, expenses),
+    };
+  });
+
+  // Assign invoices greedily, strongest pairing first.
+  const pairs = proposals
+    .flatMap((p, i) =>
+      p.kind === "income" && !p.duplicate ? p.candidates.map((c) => ({ i, c })) : [],
+    )
+    .sort((a, b) => b.c.score - a.c.score);
+  const takenInvoices = new Set<string>();
+  for (const { i, c } of pairs) {
+    const p = proposals[i] as CreditProposal;
+    if (p.invoiceId || takenInvoices.has(c.invoiceId)) continue;
+    p.invoiceId = c.invoiceId;
+    p.confidence = confidenceOf(c.score);
+    takenInvoices.add(c.invoiceId);
+  }
+  return proposals;
+}
+
+/**
+ * Loads the ledger state for a statement and runs {@link matchTransactions}.
+ * @param transactions - Parsed statement lines.
+ * @returns One proposal per transaction.
+ */
+export async function buildBankProposals(transactions: BankTransaction[]): Promise<BankProposal[]> {
+  if (transactions.length === 0) return [];
+  const times = transactions.map((t) => new Date(`${t.date}T00:00:00.000Z`).getTime());
+  const window = DUPLICATE_WINDOW_DAYS * 86_400_000;
+  const from = new Date(Math.min(...times) - window);
+  const to = new Date(Math.max(...times) + window);
+
+  const [invoices, subscriptions, income, expenses] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { status: { in: ["DRAFT", "SENT"] }, total: { gt: 0 }, ...NOT_A_QUOTE_FILTER },
+      select: {
+        id: true,
+        number: true,
+        clientName: true,
+        total: true,
+        status: true,
+        amountPaid: true,
+      },
+    }),
+    prisma.subscription.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        supplier: true,
+        description: true,
+        category: true,
+        gstRate: true,
+        method: true,
+        amountIncl: true,
+      },
+    }),
+    prisma.incomeEntry.findMany({
+      where: { date: { gte: from, lte: to } },
+      select: { date: true, amount: true },
+    }),
+    prisma.expenseEntry.findMany({
+      where: { date: { gte: from, lte: to } },
+      select: { date: true, amountIncl: true },
+    }),
+  ]);
+  const openInvoices = invoices.map((inv) => ({
+    id: inv.id,
+    number: inv.number,
+    clientName: inv.clientName,
+    total: invoiceBalanceDue(inv),
+  }));
+  return matchTransactions(transactions, { openInvoices, subscriptions, income, expenses });
+}
+
+/** A confirmed credit: pay this invoice from this bank line. */
+export interface ConfirmedIncome {
+  kind: "income";
+  /** Bank date as a UTC-midnight Date (ledger convention). */
+  date: Date;
+  amount: number;
+  invoiceId: string;
+  reference: string;
+}
+
+/** A confirmed debit, as edited by the operator. */
+export interface ConfirmedExpense {
+  kind: "expense";
+  date: Date;
+  amountIncl: number;
+  supplier: string;
+  description: string;
+  category: string;
+  gstRate: number;
+  method: string;
+  subscriptionId: string | null;
+  reference: string;
+}
+
+export type ConfirmedBankLine = ConfirmedIncome | ConfirmedExpense;
+
+/** Result of {@link recordBankLines}. */
+export interface BankImportResult {
+  incomeRecorded: number;
+  expensesRecorded: number;
+  /** Lines not written, as "<date> <amount>: reason". */
+  skipped: string[];
+  /** True when any write stood but its sheet mirror was skipped or failed. */
+  sheetSyncWarning: boolean;
+}
+
+/**
+ * Pays one invoice from a confirmed credit. Refuses an invoice that was paid,
+ * voided or converted since the preview; a credit short of the balance goes
+ * in as a part payment.
+ * @param line - The confirmed credit.
+ * @returns Null when recorded, else why not; plus the sheet warning.
+ */
+async function recordBankIncome(
+  line: ConfirmedIncome,
+): Promise<{ skipped: string | null; sheetSyncWarning: boolean }> {
+  const invoice = await prisma.invoice.findUnique({ where: { id: line.invoiceId } });
+  if (!invoice) return { skipped: "invoice not found", sheetSyncWarning: false };
+  if (invoice.status === "PAID" || invoice.status === "VOIDED" || invoice.isQuote) {
+    return { skipped: `${invoice.number} is no longer open`, sheetSyncWarning: false };
+  }
+  const { claimed, sheetSyncWarning } = await recordInvoicePayment(
+    invoice,
+    {
+      paidAt: line.date,
+      amount: line.amount,
+      method: BANK_PAYMENT_METHOD,
+      reference: line.reference || null,
+    },
+    "[bank-import]",
+  );
+  return {
+    skipped: claimed ? null : `${invoice.number} took another payment meanwhile`,
+    sheetSyncWarning,
+  };
+}
+
+/**
+ * Records one confirmed debit. A subscription whose period is due around the
+ * bank date is recorded through recordSubscriptionPayment, so its nextDue moves
+ * on and the cron doesn't record the same charge again; anything else is a
+ * plain recordExpense.
+ * @param line - The confirmed debit.
+ * @returns Null when recorded, else why not; plus the sheet warning.
+ */
+async function recordBankExpense(
+  line: ConfirmedExpense,
+): Promise<{ skipped: string | null; sheetSyncWarning: boolean }> {
+  const sub = line.subscriptionId
+    ? await prisma.subscription.findUnique({ where: { id: line.subscriptionId } })
+    : null;
+  const dueBy = line.date.getTime() + SUBSCRIPTION_DUE_WINDOW_DAYS * 86_400_000;
+  if (sub?.isActive && sub.nextDue.getTime() <= dueBy) {
+    const result = await recordSubscriptionPayment(sub, line.date, line.amountIncl);
+    if (result.claimed) return { skipped: null, sheetSyncWarning: result.sheetSyncWarning };
+    // Lost the nextDue race to the cron or a button press: that run wrote it.
+    return { skipped: `${sub.supplier} period already recorded`, sheetSyncWarning: false };
+  }
+  const { sheetSyncWarning } = await recordExpense({
+    date: line.date,
+    supplier: line.supplier,
+    description: line.description,
+    category: line.category,
+    amountIncl: line.amountIncl,
+    gstRate: line.gstRate,
+    method: line.method,
+    notes: line.reference || null,
+  });
+  return { skipped: null, sheetSyncWarning };
+}
+
+/**
+ * Writes the operator-confirmed lines, one at a time so each goes through its
+ * own claim. A line that fails is reported and the rest carry on.
+ * @param lines - Validated confirmed lines.
+ * @returns Counts, skipped lines, and a sync-warning flag.
+ */
+export async function recordBankLines(lines: ConfirmedBankLine[]): Promise<BankImportResult> {
+  const result: BankImportResult = {
+    incomeRecorded: 0,
+    expensesRecorded: 0,
+    skipped: [],
+    sheetSyncWarning: false,
+  };
+  for (const line of lines) {
+    const amount = line.kind === "income" ? line.amount : line.amountIncl;
+    const label = `${line.date.toISOString().slice(0, 10)} ${amount.toFixed(2)}`;
+    try {
+      const outcome =
+        line.kind === "income" ? await recordBankIncome(line) : await recordBankExpense(line);
+      result.sheetSyncWarning ||= outcome.sheetSyncWarning;
+      if (outcome.skipped) {
+        result.skipped.push(`${label}: ${outcome.skipped}`);
+      } else if (line.kind === "income") {
+        result.incomeRecorded++;
+      } else {
+        result.expensesRecorded++;
+      }
+    } catch (err) {
+      console.error(`[bank-import] Failed to record ${label}:`, err);
+      result.skipped.push(`${label}: write failed`);
+    }
+  }
+  return result;
+}
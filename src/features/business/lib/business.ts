@@ -11,6 +11,7 @@ import {
   GST_REGISTERED,
   MIN_BILLABLE_MINS,
 } from "@/features/business/lib/pricing-policy";
+import { parseObjectId } from "@/features/business/lib/validation";
 import type {
   JobCalculation,
   LineItem,
@@ -63,6 +64,15 @@ export function todayISO(): string {
   return nzTodayKey();
 }
 
+/**
+ * Rounds a money amount to cents.
+ * @param n - Amount in dollars.
+ * @returns Amount rounded to 2 decimal places.
+ */
+export function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
 /**
  * Extracts GST from a GST-inclusive amount.
  * @param amountIncl - Amount including GST
@@ -124,7 +134,15 @@ export function calcInvoiceTotals(
  * Rejecting here fails loudly as a 400 instead, and surfaces the mismatch in
  * local dev rather than in production.
  */
-const LINE_ITEM_FIELDS = new Set(["description", "qty", "unitPrice", "lineTotal", "minutes"]);
+const LINE_ITEM_FIELDS = new Set([
+  "description",
+  "qty",
+  "unitPrice",
+  "lineTotal",
+  "minutes",
+  "stockItemId",
+  "unitCost",
+]);
 
 /**
  * Validates one untrusted line-item payload before it reaches
@@ -132,12 +150,15 @@ const LINE_ITEM_FIELDS = new Set(["description", "qty", "unitPrice", "lineTotal"
  * descriptions, non-finite numerics (which would otherwise yield NaN totals or a
  * malformed persisted invoice), and any key outside {@link LINE_ITEM_FIELDS}.
  * @param item - Candidate line item from a request body.
- * @returns True when the item carries only known fields, a non-empty description, finite qty, unit price and line total, and minutes either absent or finite.
+ * @returns True when the item carries only known fields, a non-empty description, finite qty, unit price and line total, minutes and unit cost either absent or finite, and a stock item id either absent or an ObjectId.
  */
 export function isValidLineItem(item: unknown): item is LineItem {
   if (!item || typeof item !== "object") return false;
   if (!Object.keys(item).every((key) => LINE_ITEM_FIELDS.has(key))) return false;
-  const { description, qty, unitPrice, lineTotal, minutes } = item as Record<string, unknown>;
+  const { description, qty, unitPrice, lineTotal, minutes, stockItemId, unitCost } = item as Record<
+    string,
+    unknown
+  >;
   return (
     typeof description === "string" &&
     description.trim().length > 0 &&
@@ -147,7 +168,9 @@ export function isValidLineItem(item: unknown): item is LineItem {
     Number.isFinite(unitPrice) &&
     typeof lineTotal === "number" &&
     Number.isFinite(lineTotal) &&
-    (minutes == null || (typeof minutes === "number" && Number.isFinite(minutes)))
+    (minutes == null || (typeof minutes === "number" && Number.isFinite(minutes))) &&
+    (stockItemId == null || parseObjectId(stockItemId) !== null) &&
+    (unitCost == null || (typeof unitCost === "number" && Number.isFinite(unitCost)))
   );
 }
 
@@ -642,6 +665,8 @@ export function jobToLineItems(
       qty: 1,
       unitPrice: part.cost,
       lineTotal: part.cost,
+      // Stock picks keep their link so sending the invoice can take them off the shelf.
+      ...(part.stockItemId && { stockItemId: part.stockItemId, unitCost: part.unitCost ?? 0 }),
     });
   }
 
@@ -168,6 +168,7 @@ export async function createDraftCancellationInvoice(
       // Link the auto-draft to the booking it bills so the booking detail page
       // (Phase 9) can surface it. Legacy cancellation invoices stay unlinked.
       bookingId: booking.id,
+      technicianId: booking.technicianId,
     },
   });
   console.log(
@@ -210,6 +211,8 @@ async function sendCancellationInvoice(
 
     const ok = await sendInvoiceEmail({
       invoice: {
+        id: invoice.id,
+        contactId: invoice.contactId,
         number: invoice.number,
         clientName: invoice.clientName,
         clientEmail: invoice.clientEmail,
@@ -217,6 +220,8 @@ async function sendCancellationInvoice(
         dueDate: invoice.dueDate,
         total: invoice.total,
         driveWebUrl: invoice.driveWebUrl,
+        status: invoice.status,
+        payToken: invoice.payToken,
       },
       pdfBytes,
       reviewUrl: null,
@@ -36,4 +36,4 @@ export const EXPENSE_CATEGORIES = [
 
 export const PAYMENT_METHODS = ["Business Account", "Personal then Reimburse", "Cash"] as const;
 
-export const INCOME_METHODS = ["Cash", "Bank", "Mixed"] as const;
+export const INCOME_METHODS = ["Cash", "Bank", "Card", "Mixed"] as const;
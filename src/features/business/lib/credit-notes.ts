@@ -0,0 +1,307 @@
+// src/features/business/lib/credit-notes.ts
+/**
+ * @description Credit notes against paid invoices. A credit note credits
+ * chosen line items of the original (at their billed line totals) or a set
+ * amount, takes the next CN- number, and records the refund as a negative
+ * income entry linked to the invoice - so the Cashbook sheet, the tax planner
+ * and the GST return all net it off. The total credited across every note on
+ * an invoice can never exceed what was paid: each note first claims its share
+ * of the invoice's creditedAmount with a conditional write, so two concurrent
+ * issues can't both credit against the same remainder.
+ */
+
+import { calcGstFromInclusive, formatNZD, round2 } from "@/features/business/lib/business";
+import { recordIncome } from "@/features/business/lib/income-recording";
+import { getNextCreditNoteNumber } from "@/features/business/lib/invoice-numbering";
+import { generateInvoicePdf } from "@/features/business/lib/invoice-pdf";
+import { GST_RATE } from "@/features/business/lib/pricing-policy";
+import type { Invoice as InvoiceDto } from "@/features/business/types/business";
+import { sendInvoiceEmail } from "@/features/reviews/lib/email";
+import { prisma } from "@/shared/lib/prisma";
+import { Prisma, type CreditNote, type Invoice, type LineItem } from "@prisma/client";
+
+/** What to credit: whole line items of the original, or a set amount. */
+export type CreditSelection =
+  { kind: "lines"; lineIndexes: number[] } | { kind: "amount"; amount: number };
+
+/** Validated input for {@link issueCreditNote}. */
+export interface IssueCreditNoteInput {
+  selection: CreditSelection;
+  /** Why the credit was given; printed on the document. */
+  reason: string;
+  /** How the refund was paid (an INCOME_METHODS value). */
+  refundMethod: string;
+  /** Issue / refund date (ledger date, UTC midnight of the NZ day). */
+  date: Date;
+}
+
+/** Result of {@link issueCreditNote}. */
+export interface IssueCreditNoteResult {
+  creditNote: CreditNote;
+  /** True when the negative income entry or its sheet row wasn't recorded. */
+  sheetSyncWarning: boolean;
+}
+
+/**
+ * Sum already credited against an invoice.
+ * @param invoiceId - The original invoice id.
+ * @returns Total of its credit notes.
+ */
+export async function creditedTotal(invoiceId: string): Promise<number> {
+  const notes = await prisma.creditNote.findMany({
+    where: { invoiceId },
+    select: { total: true },
+  });
+  return round2(notes.reduce((s, n) => s + n.total, 0));
+}
+
+/**
+ * Why an invoice can't take a credit note, or null when it can. Only a paid
+ * invoice has money to give back: an unpaid one is corrected by voiding and
+ * re-issuing instead.
+ * @param invoice - The original invoice.
+ * @param credited - Sum already credited against it.
+ * @returns A user-facing reason, or null.
+ */
+export function creditableProblem(
+  invoice: Pick<Invoice, "status" | "isQuote" | "total">,
+  credited: number,
+): string | null {
+  if (invoice.isQuote) return "A quote can't be credited.";
+  if (invoice.status !== "PAID") {
+    return "Only a paid invoice can be credited; void and re-issue an unpaid one instead.";
+  }
+  if (credited >= invoice.total) return "This invoice has already been credited in full.";
+  return null;
+}
+
+/**
+ * Builds the credit note's line items for a selection.
+ * @param invoice - The original invoice.
+ * @param selection - What to credit.
+ * @param reason - Credit reason (names the single line of an amount credit).
+ * @param remaining - Amount still creditable on the invoice.
+ * @returns The lines and their total, or a user-facing error.
+ */
+export function buildCreditLines(
+  invoice: Pick<Invoice, "number" | "lineItems">,
+  selection: CreditSelection,
+  reason: string,
+  remaining: number,
+): { lineItems: LineItem[]; total: number } | string {
+  let lineItems: LineItem[];
+  if (selection.kind === "lines") {
+    const indexes = [...new Set(selection.lineIndexes)].sort((a, b) => a - b);
+    if (indexes.length === 0) return "Pick at least one line to credit.";
+    if (indexes.some((i) => !Number.isInteger(i) || i < 0 || i >= invoice.lineItems.length)) {
+      return "Invalid line selection.";
+    }
+    lineItems = indexes.map((i) => ({ ...invoice.lineItems[i] }));
+  } else {
+    if (!(selection.amount > 0)) return "Enter an amount to credit.";
+    const amount = round2(selection.amount);
+    lineItems = [
+      {
+        description: `Credit against ${invoice.number}: ${reason}`,
+        qty: 1,
+        unitPrice: amount,
+        lineTotal: amount,
+        minutes: null,
+        stockItemId: null,
+        unitCost: null,
+      },
+    ];
+  }
+  const total = round2(lineItems.reduce((s, l) => s + l.lineTotal, 0));
+  if (total <= 0) return "The credit must be more than $0.";
+  // Line credits are at the billed line price, which can exceed what was paid
+  // when the invoice carried a discount; the amount mode covers that case.
+  if (total > remaining + 0.005) {
+    return `That's more than the ${formatNZD(remaining)} left to credit on this invoice.`;
+  }
+  return { lineItems, total };
+}
+
+/**
+ * Hands back a claimed credit whose note was never written, so the amount
+ * stays creditable.
+ * @param invoiceId - The original invoice id.
+ * @param amount - The claimed credit total.
+ * @returns Resolves once the claim is released.
+ */
+async function releaseCreditClaim(invoiceId: string, amount: number): Promise<void> {
+  await prisma.invoice
+    .update({ where: { id: invoiceId }, data: { creditedAmount: { decrement: amount } } })
+    .catch((err) => console.error(`[credit-notes] Could not release claim on ${invoiceId}:`, err));
+}
+
+/**
+ * Issues a credit note: claims the amount against the invoice's
+ * creditedAmount, numbers the note (retrying on a number collision), stores
+ * it, and records the refund as a negative income entry linked to the
+ * original invoice. The caller has checked {@link creditableProblem}.
+ * @param invoice - The original (paid) invoice, as read by the caller.
+ * @param input - Validated request.
+ * @returns The credit note and a sheet-sync warning flag, or a user-facing error.
+ */
+export async function issueCreditNote(
+  invoice: Invoice,
+  input: IssueCreditNoteInput,
+): Promise<IssueCreditNoteResult | string> {
+  // Rows from before creditedAmount existed seed it from the notes' sum.
+  const before = invoice.creditedAmount ?? (await creditedTotal(invoice.id));
+  const remaining = round2(invoice.total - before);
+  const built = buildCreditLines(invoice, input.selection, input.reason, remaining);
+  if (typeof built === "string") return built;
+  // GST follows the original: a credit on a GST invoice reverses its share.
+  const gstAmount = invoice.gstAmount > 0 ? calcGstFromInclusive(built.total, GST_RATE) : 0;
+
+  // Claim: land only where creditedAmount still holds what was read. An unset
+  // value must match both null and the absent key, as Prisma's bare `null`
+  // filter skips a missing field.
+  const claim = await prisma.invoice.updateMany({
+    where: {
+      id: invoice.id,
+      status: "PAID",
+      ...(invoice.creditedAmount == null
+        ? { OR: [{ creditedAmount: null }, { creditedAmount: { isSet: false } }] }
+        : { creditedAmount: invoice.creditedAmount }),
+    },
+    data: { creditedAmount: round2(before + built.total) },
+  });
+  if (claim.count !== 1) {
+    return "Another credit note was issued on this invoice meanwhile. Reload and try again.";
+  }
+
+  let creditNote: CreditNote | null = null;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { number } = await getNextCreditNoteNumber();
+    try {
+      creditNote = await prisma.creditNote.create({
+        data: {
+          number,
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.number,
+          clientName: invoice.clientName,
+          clientEmail: invoice.clientEmail,
+          issueDate: input.date,
+          lineItems: built.lineItems,
+          subtotal: built.total,
+          gstAmount,
+          total: built.total,
+          reason: input.reason,
+          refundMethod: input.refundMethod,
+        },
+      });
+      break;
+    } catch (err) {
+      // P2002 = unique constraint (the number index): re-allocate and retry.
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002" &&
+        attempt < 4
+      ) {
+        console.warn(`[credit-notes] Credit note number ${number} collided; re-allocating.`);
+        continue;
+      }
+      await releaseCreditClaim(invoice.id, built.total);
+      throw err;
+    }
+  }
+  if (!creditNote) {
+    await releaseCreditClaim(invoice.id, built.total);
+    return "Could not allocate a unique credit note number.";
+  }
+
+  let sheetSyncWarning = false;
+  try {
+    const result = await recordIncome({
+      date: input.date,
+      customer: invoice.clientName,
+      description: `Credit note ${creditNote.number} (refund on ${invoice.number})`,
+      amount: -built.total,
+      method: input.refundMethod,
+      notes: input.reason,
+      invoiceId: invoice.id,
+    });
+    sheetSyncWarning = result.sheetSyncWarning;
+    creditNote = await prisma.creditNote.update({
+      where: { id: creditNote.id },
+      data: { incomeEntryId: result.entry.id },
+    });
+  } catch (err) {
+    // The credit note stands; the operator can add the refund to the ledger by hand.
+    console.error(`[credit-notes] Refund income record failed for ${creditNote.number}:`, err);
+    sheetSyncWarning = true;
+  }
+  return { creditNote, sheetSyncWarning };
+}
+
+/**
+ * Maps a credit note onto the {@link InvoiceDto} shape so `generateInvoicePdf`
+ * renders it; `creditNoteFor` switches the PDF to the credit-note layout.
+ * @param note - The credit note row.
+ * @returns The invoice-shaped DTO.
+ */
+export function serializeCreditNote(note: CreditNote): InvoiceDto {
+  return {
+    id: note.id,
+    number: note.number,
+    clientName: note.clientName,
+    clientEmail: note.clientEmail,
+    issueDate: note.issueDate.toISOString(),
+    dueDate: note.issueDate.toISOString(),
+    lineItems: note.lineItems,
+    gst: note.gstAmount > 0,
+    subtotal: note.subtotal,
+    gstAmount: note.gstAmount,
+    total: note.total,
+    status: "PAID",
+    notes: note.reason,
+    contactId: null,
+    paymentMethod: note.refundMethod,
+    creditNoteFor: note.invoiceNumber,
+    driveFileId: null,
+    driveWebUrl: null,
+    createdAt: note.createdAt.toISOString(),
+    updatedAt: note.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Emails a credit note to the client with its PDF attached, through the
+ * invoice email builder's credit-note variant, and stamps `sentAt` on success.
+ * Never throws on a send failure.
+ * @param note - The credit note.
+ * @param overrides - Optional operator greeting / intro replacement.
+ * @param overrides.greetingName - Greeting target.
+ * @param overrides.customBody - Intro paragraph replacement.
+ * @returns True when the email was accepted.
+ */
+export async function emailCreditNote(
+  note: CreditNote,
+  overrides: { greetingName?: string; customBody?: string } = {},
+): Promise<boolean> {
+  const pdfBytes = await generateInvoicePdf(serializeCreditNote(note));
+  const ok = await sendInvoiceEmail({
+    invoice: {
+      // Links the message to the credited invoice.
+      id: note.invoiceId,
+      number: note.number,
+      clientName: note.clientName,
+      clientEmail: note.clientEmail,
+      issueDate: note.issueDate,
+      dueDate: note.issueDate,
+      total: note.total,
+      creditNoteFor: note.invoiceNumber,
+    },
+    pdfBytes,
+    reviewUrl: null,
+    greetingName: overrides.greetingName,
+    customBody: overrides.customBody,
+  });
+  if (ok) {
+    await prisma.creditNote.update({ where: { id: note.id }, data: { sentAt: new Date() } });
+  }
+  return ok;
+}
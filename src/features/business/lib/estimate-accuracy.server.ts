@@ -0,0 +1,106 @@
+// src/features/business/lib/estimate-accuracy.server.ts
+/**
+ * @description Loads the estimator accuracy samples: every booking that kept a
+ * quote snapshot, beside the labour its invoices billed. Kept apart from
+ * estimate-accuracy.ts so the report maths stays importable by the client view.
+ */
+
+import {
+  billedLabour,
+  plausibleHourlyRates,
+  type AccuracySample,
+} from "@/features/business/lib/estimate-accuracy";
+import { NOT_A_QUOTE_FILTER } from "@/features/business/lib/invoice-status";
+import { prisma } from "@/shared/lib/prisma";
+import "server-only";
+
+/** The samples, and how many quoted bookings couldn't become one yet. */
+export interface AccuracySamples {
+  samples: AccuracySample[];
+  /** Quoted bookings with no invoice raised against them. */
+  notInvoiced: number;
+  /** Invoiced quoted bookings whose invoices carry no recognisable labour. */
+  noLabour: number;
+}
+
+/**
+ * Joins quoted bookings to their invoices. Voided invoices and quotes are left
+ * out; a job split over several invoices is summed. Labour minutes come from
+ * each line's recorded minutes, or its hourly rate on older lines (see
+ * {@link billedLabour}).
+ * @returns Samples plus the counts of bookings left out.
+ */
+export async function loadAccuracySamples(): Promise<AccuracySamples> {
+  const [bookings, rates] = await Promise.all([
+    prisma.booking.findMany({
+      where: { quotedMinsAtBooking: { gt: 0 }, status: { not: "cancelled" } },
+      orderBy: { startAt: "desc" },
+      select: {
+        id: true,
+        startAt: true,
+        quotedLowAtBooking: true,
+        quotedHighAtBooking: true,
+        quotedTravelAtBooking: true,
+        quotedMinsAtBooking: true,
+        quotedCategoryAtBooking: true,
+        quotedConfidenceAtBooking: true,
+        quotedTasksAtBooking: true,
+      },
+    }),
+    prisma.rateConfig.findMany({ select: { ratePerHour: true, hourlyDelta: true } }),
+  ]);
+  if (bookings.length === 0) return { samples: [], notInvoiced: 0, noLabour: 0 };
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      ...NOT_A_QUOTE_FILTER,
+      bookingId: { in: bookings.map((b) => b.id) },
+      status: { not: "VOIDED" },
+    },
+    select: { number: true, bookingId: true, lineItems: true },
+  });
+  const byBooking = new Map<string, typeof invoices>();
+  for (const inv of invoices) {
+    if (!inv.bookingId) continue;
+    byBooking.set(inv.bookingId, [...(byBooking.get(inv.bookingId) ?? []), inv]);
+  }
+
+  const hourlyRates = plausibleHourlyRates(rates);
+  const samples: AccuracySample[] = [];
+  let notInvoiced = 0;
+  let noLabour = 0;
+  for (const b of bookings) {
+    const billed = byBooking.get(b.id);
+    if (!billed) {
+      notInvoiced++;
+      continue;
+    }
+    const labour = billedLabour(
+      billed.flatMap((inv) => inv.lineItems),
+      hourlyRates,
+    );
+    if (labour.mins <= 0) {
+      noLabour++;
+      continue;
+    }
+    // The snapshot totals include travel; the labour band is what's left.
+    // Older bookings didn't split travel out, so their band is unknown.
+    const travel = b.quotedTravelAtBooking;
+    const hasBand =
+      travel !== null && b.quotedLowAtBooking !== null && b.quotedHighAtBooking !== null;
+    samples.push({
+      bookingId: b.id,
+      jobDate: b.startAt.toISOString(),
+      invoiceNumbers: billed.map((inv) => inv.number),
+      category: b.quotedCategoryAtBooking ?? "standard",
+      confidence: b.quotedConfidenceAtBooking,
+      quotedMins: b.quotedMinsAtBooking ?? 0,
+      quotedLow: hasBand ? (b.quotedLowAtBooking ?? 0) - travel : null,
+      quotedHigh: hasBand ? (b.quotedHighAtBooking ?? 0) - travel : null,
+      tasks: b.quotedTasksAtBooking.map((t) => ({ label: t.label, mins: t.mins })),
+      billedMins: labour.mins,
+      billedLabour: labour.dollars,
+    });
+  }
+  return { samples, notInvoiced, noLabour };
+}
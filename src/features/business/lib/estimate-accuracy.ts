@@ -0,0 +1,374 @@
+// src/features/business/lib/estimate-accuracy.ts
+/**
+ * @description How the public estimator's quotes held up against the invoices
+ * that billed the jobs. Each sample is one booked quote (the snapshot on the
+ * Booking, which outlives the 30-day estimate log) beside the labour its
+ * invoices billed. Reported overall, per AI category and per benchmark, with
+ * proposed benchmark minutes and range factors the operator can accept into
+ * the estimator settings.
+ *
+ * A quote counts towards a benchmark only when it was a single task carrying
+ * that benchmark's label verbatim - the estimator is told to reuse the labels,
+ * and anything looser (pairing invoice tags to benchmark labels by eye) proved
+ * confident nonsense in the old calibration script. Proposals need
+ * {@link MIN_SAMPLES} jobs behind them. Pure, so the admin page and its
+ * client view share it.
+ */
+
+import type { Benchmark, EstimateConfidence, EstimatorSettings } from "@/shared/lib/settings/types";
+
+/** Fewest jobs a proposal may rest on. */
+export const MIN_SAMPLES = 3;
+/** Share of jobs a proposed band's low and high ends each leave outside. */
+const RANGE_TAIL = 0.1;
+/** Range factors are proposed on this step. */
+const FACTOR_STEP = 0.05;
+
+/** One booked quote beside what was billed for the job. */
+export interface AccuracySample {
+  bookingId: string;
+  /** Booked start, ISO. */
+  jobDate: string;
+  invoiceNumbers: string[];
+  category: "standard" | "complex";
+  /** Null on quotes logged before confidence was recorded. */
+  confidence: EstimateConfidence | null;
+  quotedMins: number;
+  /** Quoted labour band in dollars (travel taken off); null when the travel slice is unknown. */
+  quotedLow: number | null;
+  quotedHigh: number | null;
+  tasks: { label: string; mins: number }[];
+  billedMins: number;
+  billedLabour: number;
+}
+
+/** How one slice of the samples fared. */
+export interface AccuracyGroup {
+  key: string;
+  n: number;
+  /** Medians across the slice. */
+  quotedMins: number;
+  billedMins: number;
+  /** Median billed / quoted minutes; 1 = spot on, above 1 = under-quoted. */
+  ratio: number;
+  /** Jobs whose billed labour fell below, inside and above the quoted band (dollars). */
+  under: number;
+  within: number;
+  over: number;
+}
+
+/** A benchmark with the jobs quoted on it. */
+export interface BenchmarkAccuracy extends AccuracyGroup {
+  benchmarkMins: number;
+}
+
+export interface BenchmarkProposal {
+  label: string;
+  currentMins: number;
+  proposedMins: number;
+  n: number;
+  ratio: number;
+}
+
+export interface RangeProposal {
+  level: EstimateConfidence;
+  n: number;
+  current: { lowFactor: number; highFactor: number };
+  proposed: { lowFactor: number; highFactor: number };
+  /** Share of the level's jobs billed inside the band, by minutes. */
+  currentCoverage: number;
+  proposedCoverage: number;
+}
+
+export interface AccuracyReport {
+  overall: AccuracyGroup;
+  byCategory: AccuracyGroup[];
+  byBenchmark: BenchmarkAccuracy[];
+  /** Single-task quotes whose label matched no benchmark. */
+  unmatchedSingleTask: number;
+  benchmarkProposals: BenchmarkProposal[];
+  rangeProposals: RangeProposal[];
+}
+
+/** The parts of an invoice line the labour split reads. */
+export interface LabourLineLike {
+  description: string;
+  qty: number;
+  unitPrice: number;
+  lineTotal: number;
+  minutes?: number | null;
+}
+
+/**
+ * Every hourly price a labour line could carry: each base rate, and each base
+ * with one modifier delta. Tells labour from parts on lines written before
+ * labour rows recorded their minutes.
+ * @param rates - Rate rows.
+ * @returns Sorted plausible hourly unit prices.
+ */
+export function plausibleHourlyRates(
+  rates: { ratePerHour: number | null; hourlyDelta: number | null }[],
+): number[] {
+  const bases = rates.map((r) => r.ratePerHour).filter((r): r is number => r !== null);
+  const deltas = rates.map((r) => r.hourlyDelta).filter((d): d is number => d !== null);
+  const out = new Set<number>(bases);
+  for (const b of bases) for (const d of deltas) out.add(b + d);
+  return [...out].sort((a, b) => a - b);
+}
+
+/**
+ * Labour an invoice billed. A line with `minutes` is labour by definition;
+ * an older line counts when it isn't travel and its unit price is a plausible
+ * hourly rate, since parts and hours otherwise look the same.
+ * @param lines - Invoice lines.
+ * @param hourlyRates - From {@link plausibleHourlyRates}.
+ * @returns Billed minutes and dollars.
+ */
+export function billedLabour(
+  lines: LabourLineLike[],
+  hourlyRates: number[],
+): { mins: number; dollars: number } {
+  let mins = 0;
+  let dollars = 0;
+  for (const line of lines) {
+    if (line.qty <= 0) continue;
+    if (line.minutes != null && line.minutes > 0) {
+      mins += line.minutes;
+    } else if (
+      !/^travel/i.test(line.description) &&
+      hourlyRates.some((r) => Math.abs(r - line.unitPrice) < 0.5)
+    ) {
+      mins += line.qty * 60;
+    } else {
+      continue;
+    }
+    dollars += line.lineTotal;
+  }
+  return { mins: Math.round(mins), dollars: Math.round(dollars * 100) / 100 };
+}
+
+/**
+ * Value at a quantile, interpolating between neighbours.
+ * @param xs - Values.
+ * @param q - Quantile, 0-1.
+ * @returns The value, or 0 for an empty list.
+ */
+function quantile(xs: number[], q: number): number {
+  if (xs.length === 0) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  const pos = (s.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return s[lo] + (s[hi] - s[lo]) * (pos - lo);
+}
+
+/**
+ * Median of a list.
+ * @param xs - Values.
+ * @returns The median, or 0 for an empty list.
+ */
+function median(xs: number[]): number {
+  return quantile(xs, 0.5);
+}
+
+/**
+ * Billed over quoted minutes for one job.
+ * @param s - Sample.
+ * @returns The ratio.
+ */
+function ratioOf(s: AccuracySample): number {
+  return s.billedMins / s.quotedMins;
+}
+
+/**
+ * Summarises one slice of samples.
+ * @param key - Slice name.
+ * @param samples - The slice.
+ * @returns The group's figures.
+ */
+function summarise(key: string, samples: AccuracySample[]): AccuracyGroup {
+  let under = 0;
+  let within = 0;
+  let over = 0;
+  for (const s of samples) {
+    if (s.quotedLow === null || s.quotedHigh === null) continue;
+    if (s.billedLabour < s.quotedLow) under++;
+    else if (s.billedLabour > s.quotedHigh) over++;
+    else within++;
+  }
+  return {
+    key,
+    n: samples.length,
+    quotedMins: Math.round(median(samples.map((s) => s.quotedMins))),
+    billedMins: Math.round(median(samples.map((s) => s.billedMins))),
+    ratio: Math.round(median(samples.map(ratioOf)) * 100) / 100,
+    under,
+    within,
+    over,
+  };
+}
+
+/**
+ * Comparison form of a task or benchmark label.
+ * @param label - Label text.
+ * @returns Lowercased, single-spaced, trimmed.
+ */
+function labelKey(label: string): string {
+  return label.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * The benchmark a quote was priced on, when it was a single task carrying a
+ * benchmark's label.
+ * @param sample - Sample.
+ * @param benchmarks - Live benchmarks.
+ * @returns The benchmark, or null.
+ */
+export function matchBenchmark(sample: AccuracySample, benchmarks: Benchmark[]): Benchmark | null {
+  if (sample.tasks.length !== 1) return null;
+  const key = labelKey(sample.tasks[0].label);
+  return benchmarks.find((b) => labelKey(b.label) === key) ?? null;
+}
+
+/**
+ * Share of samples whose billed minutes land inside a band of the quote.
+ * @param samples - Samples.
+ * @param band - Low and high factors.
+ * @param band.lowFactor - Low end as a fraction of the quoted minutes.
+ * @param band.highFactor - High end as a fraction of the quoted minutes.
+ * @returns 0-1.
+ */
+function coverage(
+  samples: AccuracySample[],
+  band: { lowFactor: number; highFactor: number },
+): number {
+  if (samples.length === 0) return 0;
+  const inside = samples.filter((s) => {
+    const r = ratioOf(s);
+    return r >= band.lowFactor - 1e-9 && r <= band.highFactor + 1e-9;
+  }).length;
+  return inside / samples.length;
+}
+
+/**
+ * Builds the report and its proposals.
+ * @param samples - Billed quotes.
+ * @param estimator - Live benchmarks and range.
+ * @param incrementMins - Billing increment; proposed minutes snap to it.
+ * @returns The report.
+ */
+export function buildAccuracyReport(
+  samples: AccuracySample[],
+  estimator: Pick<EstimatorSettings, "benchmarks" | "range">,
+  incrementMins: number,
+): AccuracyReport {
+  const step = incrementMins > 0 ? incrementMins : 5;
+
+  const categories = [...new Set(samples.map((s) => s.category))].sort();
+  const byCategory = categories.map((c) =>
+    summarise(
+      c,
+      samples.filter((s) => s.category === c),
+    ),
+  );
+
+  const perBenchmark = new Map<string, AccuracySample[]>();
+  let unmatchedSingleTask = 0;
+  for (const s of samples) {
+    const benchmark = matchBenchmark(s, estimator.benchmarks);
+    if (benchmark) {
+      perBenchmark.set(benchmark.label, [...(perBenchmark.get(benchmark.label) ?? []), s]);
+    } else if (s.tasks.length === 1) {
+      unmatchedSingleTask++;
+    }
+  }
+  const byBenchmark: BenchmarkAccuracy[] = estimator.benchmarks
+    .filter((b) => perBenchmark.has(b.label))
+    .map((b) => ({
+      ...summarise(b.label, perBenchmark.get(b.label) ?? []),
+      benchmarkMins: b.mins,
+    }))
+    .sort((a, b) => b.n - a.n);
+
+  // Scale the benchmark by how far its jobs ran over or under, rather than
+  // taking the billed median outright: a quote is the benchmark after the
+  // minimum and rounding, so the ratio is the signal that survives those.
+  const benchmarkProposals: BenchmarkProposal[] = byBenchmark
+    .filter((b) => b.n >= MIN_SAMPLES)
+    .map((b) => ({
+      label: b.key,
+      currentMins: b.benchmarkMins,
+      proposedMins: Math.max(step, Math.round((b.benchmarkMins * b.ratio) / step) * step),
+      n: b.n,
+      ratio: b.ratio,
+    }))
+    .filter((p) => p.proposedMins !== p.currentMins);
+
+  const rangeProposals: RangeProposal[] = [];
+  for (const level of ["high", "medium", "low"] as const) {
+    const slice = samples.filter((s) => s.confidence === level);
+    if (slice.length < MIN_SAMPLES) continue;
+    const ratios = slice.map(ratioOf);
+    const lowFactor = Math.min(
+      5,
+      Math.max(FACTOR_STEP, Math.floor(quantile(ratios, RANGE_TAIL) / FACTOR_STEP) * FACTOR_STEP),
+    );
+    const highFactor = Math.min(
+      5,
+      Math.max(lowFactor, Math.ceil(quantile(ratios, 1 - RANGE_TAIL) / FACTOR_STEP) * FACTOR_STEP),
+    );
+    const current = {
+      lowFactor: estimator.range[level].lowFactor,
+      highFactor: estimator.range[level].highFactor,
+    };
+    const proposed = {
+      lowFactor: Math.round(lowFactor * 100) / 100,
+      highFactor: Math.round(highFactor * 100) / 100,
+    };
+    if (proposed.lowFactor === current.lowFactor && proposed.highFactor === current.highFactor) {
+      continue;
+    }
+    rangeProposals.push({
+      level,
+      n: slice.length,
+      current,
+      proposed,
+      currentCoverage: coverage(slice, current),
+      proposedCoverage: coverage(slice, proposed),
+    });
+  }
+
+  return {
+    overall: summarise("All quoted jobs", samples),
+    byCategory,
+    byBenchmark,
+    unmatchedSingleTask,
+    benchmarkProposals,
+    rangeProposals,
+  };
+}
+
+/**
+ * The estimator settings with the accepted proposals written in.
+ * @param estimator - Current estimator settings.
+ * @param benchmarks - Accepted benchmark proposals.
+ * @param ranges - Accepted range proposals.
+ * @returns New estimator settings; the input is not modified.
+ */
+export function applyAccuracyProposals(
+  estimator: EstimatorSettings,
+  benchmarks: BenchmarkProposal[],
+  ranges: RangeProposal[],
+): EstimatorSettings {
+  const minsByLabel = new Map(benchmarks.map((p) => [p.label, p.proposedMins]));
+  const range = { ...estimator.range };
+  for (const p of ranges) range[p.level] = { ...p.proposed };
+  return {
+    ...estimator,
+    benchmarks: estimator.benchmarks.map((b) => ({
+      ...b,
+      mins: minsByLabel.get(b.label) ?? b.mins,
+    })),
+    range,
+  };
+}
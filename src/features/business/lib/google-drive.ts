@@ -2,7 +2,8 @@
 /**
  * @description Google Drive v3 helpers for invoice storage. Finds or creates the
  * "Invoices > {year}" folder tree (cached per yearCode), uploads/lists invoice
- * PDFs, and reads spreadsheets for the sheets importer.
+ * PDFs, archives signed job authorisations, and reads spreadsheets for the
+ * sheets importer.
  */
 import { getOAuth2Client } from "@/features/calendar/lib/google-calendar";
 import { google } from "googleapis";
@@ -151,6 +152,36 @@ export async function uploadInvoicePdf(
   return { fileId: res.data.id!, webUrl: res.data.webViewLink! };
 }
 
+/**
+ * Uploads a signed job-authorisation PDF to "Job authorisations > {year}".
+ * Always a fresh file - a signed document is never replaced. Unlike invoices
+ * it is NOT shared by link: it carries the customer's signature and is only
+ * ever opened by the operator.
+ * @param buffer - PDF content as a Buffer.
+ * @param fileName - Filename without extension.
+ * @param year - Calendar year of the signing, e.g. "2026".
+ * @returns Object with Drive file ID and web view URL.
+ */
+export async function uploadJobAuthorisationPdf(
+  buffer: Buffer,
+  fileName: string,
+  year: string,
+): Promise<{ fileId: string; webUrl: string }> {
+  const cacheKey = `authorisations:${year}`;
+  let folderId = folderCache.get(cacheKey);
+  if (!folderId) {
+    const parentId = await getOrCreateFolder("root", "Job authorisations");
+    folderId = await getOrCreateFolder(parentId, year);
+    folderCache.set(cacheKey, folderId);
+  }
+  const res = await getDriveClient().files.create({
+    requestBody: { name: `${fileName}.pdf`, mimeType: "application/pdf", parents: [folderId] },
+    media: { mimeType: "application/pdf", body: Readable.from(buffer) },
+    fields: "id,webViewLink",
+  });
+  return { fileId: res.data.id!, webUrl: res.data.webViewLink! };
+}
+
 /**
  * Searches all of Drive for PDFs matching the invoice filename convention (e.g. TTP-2627-0042.pdf).
  * Back-fills driveFileId/driveWebUrl on existing invoice records.
@@ -0,0 +1,213 @@
+// src/features/business/lib/gst-return-pdf.ts
+/**
+ * @description GST return worksheet as an A4 PDF: the GST101A boxes up top,
+ * then every sale and purchase behind them, so the figures keyed into myIR
+ * have their working attached. Plain pdf-lib text in the invoice PDF's
+ * palette; pages are added as the supporting lists run on.
+ */
+import { formatNZD } from "@/features/business/lib/business";
+import { GST101A_BOXES, type GstLine, type GstWorksheet } from "@/features/business/lib/gst-return";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "pdf-lib";
+
+// Same palette as invoice-pdf.ts.
+const BRAND = rgb(12 / 255, 10 / 255, 62 / 255); // russian-violet #0c0a3e
+const DARK = rgb(30 / 255, 41 / 255, 59 / 255); // slate-800 #1e293b
+const MID = rgb(100 / 255, 116 / 255, 139 / 255); // slate-500 #64748b
+const LIGHT = rgb(203 / 255, 213 / 255, 225 / 255); // slate-300 #cbd5e1
+
+const MARGIN = 42;
+const PAGE_W = 595.28;
+const PAGE_H = 841.89;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const ROW_H = 15;
+
+/** Drawing state threaded through the sections; `page` changes on overflow. */
+interface GstPdfCtx {
+  doc: PDFDocument;
+  page: PDFPage;
+  font: PDFFont;
+  bold: PDFFont;
+  y: number;
+}
+
+/**
+ * Replaces characters the standard (WinAnsi) fonts can't encode, so a stray
+ * emoji in a ledger description can't fail the whole export.
+ * @param text - Source text.
+ * @returns Encodable text.
+ */
+function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+/**
+ * Cuts text to a width, adding an ellipsis when it had to shorten it.
+ * @param text - Source text.
+ * @param maxW - Maximum width in PDF points.
+ * @param size - Font size.
+ * @param font - Font used to measure.
+ * @returns Text that fits.
+ */
+function fit(text: string, maxW: number, size: number, font: PDFFont): string {
+  let out = pdfSafe(text);
+  if (font.widthOfTextAtSize(out, size) <= maxW) return out;
+  while (out.length > 1 && font.widthOfTextAtSize(`${out}...`, size) > maxW) {
+    out = out.slice(0, -1);
+  }
+  return `${out}...`;
+}
+
+/**
+ * Starts a new page when fewer than `needed` points remain above the margin.
+ * @param ctx - PDF drawing context.
+ * @param needed - Height the next block needs.
+ */
+function ensureSpace(ctx: GstPdfCtx, needed: number): void {
+  if (ctx.y - needed >= MARGIN) return;
+  ctx.page = ctx.doc.addPage([PAGE_W, PAGE_H]);
+  ctx.y = PAGE_H - MARGIN;
+}
+
+/**
+ * Draws right-aligned text ending at `right`.
+ * @param ctx - PDF drawing context.
+ * @param text - Text to draw.
+ * @param right - Right edge x.
+ * @param size - Font size.
+ * @param font - Font.
+ */
+function drawRight(ctx: GstPdfCtx, text: string, right: number, size: number, font: PDFFont): void {
+  ctx.page.drawText(text, {
+    x: right - font.widthOfTextAtSize(text, size),
+    y: ctx.y,
+    size,
+    font,
+    color: DARK,
+  });
+}
+
+/**
+ * Draws the GST101A boxes as a two-column table.
+ * @param ctx - PDF drawing context.
+ * @param worksheet - The worksheet.
+ */
+function drawBoxes(ctx: GstPdfCtx, worksheet: GstWorksheet): void {
+  for (const { box, key, label } of GST101A_BOXES) {
+    const emphasis = box === 10 || box === 14 || box === 15;
+    const font = emphasis ? ctx.bold : ctx.font;
+    ctx.page.drawText(String(box), { x: MARGIN, y: ctx.y, size: 10, font: ctx.bold, color: MID });
+    ctx.page.drawText(label, { x: MARGIN + 28, y: ctx.y, size: 10, font, color: DARK });
+    drawRight(ctx, formatNZD(worksheet.boxes[key]), MARGIN + CONTENT_W, 10, font);
+    ctx.y -= ROW_H;
+  }
+}
+
+/**
+ * Draws one supporting-transaction list with its heading and total.
+ * @param ctx - PDF drawing context.
+ * @param title - Section heading.
+ * @param lines - Transactions to list.
+ */
+function drawLines(ctx: GstPdfCtx, title: string, lines: GstLine[]): void {
+  ensureSpace(ctx, ROW_H * 4);
+  ctx.y -= 10;
+  ctx.page.drawText(title, { x: MARGIN, y: ctx.y, size: 12, font: ctx.bold, color: BRAND });
+  ctx.y -= ROW_H + 2;
+  if (lines.length === 0) {
+    ctx.page.drawText("None in this period.", {
+      x: MARGIN,
+      y: ctx.y,
+      size: 9,
+      font: ctx.font,
+      color: MID,
+    });
+    ctx.y -= ROW_H;
+    return;
+  }
+  const partyX = MARGIN + 70;
+  const descX = MARGIN + 210;
+  for (const line of lines) {
+    ensureSpace(ctx, ROW_H);
+    /**
+     * Draws one cell of the row, cut to its column.
+     * @param text - Cell text.
+     * @param x - Column left edge.
+     * @param maxW - Column width.
+     */
+    const draw = (text: string, x: number, maxW: number): void => {
+      ctx.page.drawText(fit(text, maxW, 9, ctx.font), {
+        x,
+        y: ctx.y,
+        size: 9,
+        font: ctx.font,
+        color: DARK,
+      });
+    };
+    draw(formatDateShort(line.date), MARGIN, 66);
+    draw(line.party, partyX, 134);
+    draw(line.zeroRated ? `${line.description} (zero-rated)` : line.description, descX, 220);
+    drawRight(ctx, formatNZD(line.amount), MARGIN + CONTENT_W, 9, ctx.font);
+    ctx.y -= ROW_H - 2;
+  }
+  ensureSpace(ctx, ROW_H);
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: ctx.y + 9 },
+    end: { x: MARGIN + CONTENT_W, y: ctx.y + 9 },
+    thickness: 0.5,
+    color: LIGHT,
+  });
+  const total = lines.reduce((s, l) => s + l.amount, 0);
+  drawRight(ctx, formatNZD(total), MARGIN + CONTENT_W, 9, ctx.bold);
+  ctx.y -= ROW_H;
+}
+
+/**
+ * Renders a GST return worksheet.
+ * @param worksheet - The worksheet to render (live or as filed).
+ * @param filedAt - When the return was filed, or null for a draft.
+ * @returns PDF content as a Buffer.
+ */
+export async function generateGstReturnPdf(
+  worksheet: GstWorksheet,
+  filedAt: Date | null,
+): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const ctx: GstPdfCtx = {
+    doc,
+    page: doc.addPage([PAGE_W, PAGE_H]),
+    font: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    y: PAGE_H - MARGIN - 14,
+  };
+  const identity = await getIdentity();
+
+  ctx.page.drawText("GST RETURN WORKSHEET (GST101A)", {
+    x: MARGIN,
+    y: ctx.y,
+    size: 16,
+    font: ctx.bold,
+    color: BRAND,
+  });
+  ctx.y -= 22;
+  const meta = [
+    pdfSafe(identity.company || identity.name),
+    identity.gstNumber ? `GST number: ${identity.gstNumber}` : "GST number: not set",
+    `Period: ${worksheet.period.label}`,
+    `Basis: ${worksheet.basis}`,
+    filedAt ? `Filed ${formatDateShort(filedAt)}` : "Draft - not filed",
+  ];
+  for (const text of meta) {
+    ctx.page.drawText(text, { x: MARGIN, y: ctx.y, size: 10, font: ctx.font, color: MID });
+    ctx.y -= ROW_H - 1;
+  }
+  ctx.y -= 10;
+
+  drawBoxes(ctx, worksheet);
+  drawLines(ctx, "Sales and income", worksheet.sales);
+  drawLines(ctx, "Purchases and expenses", worksheet.purchases);
+
+  const bytes = await doc.save();
+  return Buffer.from(bytes);
+}
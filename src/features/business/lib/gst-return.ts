@@ -0,0 +1,593 @@
+// src/features/business/lib/gst-return.ts
+/**
+ * @description GST return (IRD GST101A) worksheet. Works out the return
+ * periods for the configured filing frequency, computes the boxes for one
+ * period from the ledger, and files it - freezing the boxes and the supporting
+ * transactions so a later edit inside a filed period shows up as a change on
+ * the worksheet.
+ *
+ * Periods line up with the 31 March balance date: two-monthly returns end in
+ * odd months (Jan, Mar, May, ...), six-monthly ones on 30 Sep and 31 Mar.
+ * Every date is bucketed by its NZ calendar day: ledger entries are stored as
+ * UTC midnight of that day, but an invoice's issue date can be a real instant
+ * (cancellation invoices stamp "now").
+ *
+ * Sales (boxes 5-6):
+ *   invoice basis  - invoices issued in the period (SENT or PAID; drafts,
+ *                    quotes and voids never count), plus income entries with
+ *                    no invoice behind them (cash sales), less credit notes
+ *                    issued in the period;
+ *   payments basis - every income entry received in the period (a credit
+ *                    note's refund is a negative entry, so it nets off here).
+ * A sale that carried no GST counts as zero-rated. Purchases (box 11) are the
+ * period's expenses with GST recorded on them; GST-free costs don't belong in
+ * the return. Boxes 8 and 12 are 3/23 of the GST-inclusive totals, as the form
+ * itself works them; the calculation-sheet adjustments (9, 13) are zero.
+ */
+
+import { round2 } from "@/features/business/lib/business";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { prisma } from "@/shared/lib/prisma";
+import type { GstBasis, GstFilingFrequency } from "@/shared/lib/settings/types";
+import { nzDateParts } from "@/shared/lib/timezone-utils";
+import { Prisma, type GstReturn, type GstReturnLine } from "@prisma/client";
+
+/** Index of April (0 = January): periods are counted from the start of the NZ tax year. */
+const APRIL = 3;
+
+/** Months per return period. */
+const PERIOD_MONTHS: Record<GstFilingFrequency, number> = {
+  monthly: 1,
+  "two-monthly": 2,
+  "six-monthly": 6,
+};
+
+/** The GST fraction of a GST-inclusive amount at 15%. */
+const GST_FRACTION = 3 / 23;
+
+/** One GST return period. */
+export interface GstPeriod {
+  /** "YYYY-MM" of the first month. */
+  key: string;
+  /** Inclusive; UTC midnight of the first NZ day. */
+  start: Date;
+  /** Exclusive; UTC midnight of the NZ day after the last. */
+  end: Date;
+  /** e.g. "1 Feb 2026 - 31 Mar 2026". */
+  label: string;
+}
+
+/** One transaction behind the return. */
+export interface GstLine {
+  kind: "invoice" | "credit-note" | "income" | "expense";
+  /** Id of the invoice / credit note / income / expense row. */
+  refId: string;
+  date: Date;
+  /** Customer or supplier. */
+  party: string;
+  description: string;
+  /** GST-inclusive amount counted (negative for a credit note). */
+  amount: number;
+  /** GST as recorded on the row (informational; the boxes use 3/23). */
+  gst: number;
+  zeroRated: boolean;
+}
+
+/** The GST101A boxes the worksheet fills. */
+export interface GstBoxes {
+  /** Box 5: total sales and income, GST-inclusive, zero-rated included. */
+  totalSales: number;
+  /** Box 6: zero-rated supplies included in box 5. */
+  zeroRated: number;
+  /** Box 7: box 5 less box 6. */
+  standardRated: number;
+  /** Box 8: box 7 x 3/23. */
+  gstOnSales: number;
+  /** Box 9: debit adjustments. */
+  salesAdjustments: number;
+  /** Box 10: total GST collected (8 + 9). */
+  outputGst: number;
+  /** Box 11: total purchases and expenses, GST-inclusive. */
+  purchases: number;
+  /** Box 12: box 11 x 3/23. */
+  gstOnPurchases: number;
+  /** Box 13: credit adjustments. */
+  purchaseAdjustments: number;
+  /** Box 14: total GST credit (12 + 13). */
+  inputGst: number;
+  /** Box 15: box 10 less box 14; negative is a refund. */
+  gstToPay: number;
+}
+
+/** Box number and form wording for each {@link GstBoxes} field, in form order. */
+export const GST101A_BOXES: { box: number; key: keyof GstBoxes; label: string }[] = [
+  { box: 5, key: "totalSales", label: "Total sales and income (incl. GST and zero-rated)" },
+  { box: 6, key: "zeroRated", label: "Zero-rated supplies included in box 5" },
+  { box: 7, key: "standardRated", label: "Box 5 less box 6" },
+  { box: 8, key: "gstOnSales", label: "Box 7 x 3 / 23" },
+  { box: 9, key: "salesAdjustments", label: "Adjustments (debit)" },
+  { box: 10, key: "outputGst", label: "Total GST collected on sales and income" },
+  { box: 11, key: "purchases", label: "Total purchases and expenses (incl. GST)" },
+  { box: 12, key: "gstOnPurchases", label: "Box 11 x 3 / 23" },
+  { box: 13, key: "purchaseAdjustments", label: "Credit adjustments" },
+  { box: 14, key: "inputGst", label: "Total GST credit for purchases and expenses" },
+  { box: 15, key: "gstToPay", label: "GST to pay (refund if negative)" },
+];
+
+/** A period's worksheet. */
+export interface GstWorksheet {
+  period: GstPeriod;
+  basis: GstBasis;
+  sales: GstLine[];
+  purchases: GstLine[];
+  boxes: GstBoxes;
+}
+
+/** Ledger rows {@link computeGstWorksheet} reads. */
+export interface GstLedger {
+  invoices: {
+    id: string;
+    number: string;
+    clientName: string;
+    issueDate: Date;
+    total: number;
+    gstAmount: number;
+    status: string;
+    isQuote: boolean | null;
+  }[];
+  creditNotes: {
+    id: string;
+    number: string;
+    invoiceNumber: string;
+    clientName: string;
+    issueDate: Date;
+    total: number;
+    gstAmount: number;
+  }[];
+  income: {
+    id: string;
+    date: Date;
+    customer: string;
+    description: string;
+    amount: number;
+    invoiceId: string | null;
+  }[];
+  expenses: {
+    id: string;
+    date: Date;
+    supplier: string;
+    description: string;
+    amountIncl: number;
+    gstAmount: number;
+  }[];
+}
+
+/** How one supporting transaction moved since filing. */
+export interface GstChange {
+  kind: GstLine["kind"];
+  refId: string;
+  change: "added" | "removed" | "changed";
+  /** Amount as filed (absent when added). */
+  filedAmount?: number;
+  /** Amount now (absent when removed). */
+  currentAmount?: number;
+}
+
+/**
+ * The NZ calendar day of an instant, as UTC midnight (the ledger's date shape).
+ * @param date - Any instant.
+ * @returns UTC midnight of its NZ day.
+ */
+function nzDay(date: Date): Date {
+  const [y, m, d] = nzDateParts(date);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+/**
+ * Builds the period starting `index` months after April of year 0.
+ * @param index - Month index counted from April (year * 12 + month - APRIL).
+ * @param months - Period length.
+ * @returns The period.
+ */
+function periodFromIndex(index: number, months: number): GstPeriod {
+  const abs = index + APRIL;
+  const year = Math.floor(abs / 12);
+  const month = abs - year * 12;
+  const start = new Date(Date.UTC(year, month, 1));
+  const end = new Date(Date.UTC(year, month + months, 1));
+  const lastDay = new Date(end.getTime() - 86_400_000);
+  return {
+    key: `${year}-${String(month + 1).padStart(2, "0")}`,
+    start,
+    end,
+    label: `${formatDateShort(start)} - ${formatDateShort(lastDay)}`,
+  };
+}
+
+/**
+ * The return period containing a date.
+ * @param date - Any instant (bucketed by its NZ day).
+ * @param frequency - Filing frequency.
+ * @returns The period.
+ */
+export function gstPeriodContaining(date: Date, frequency: GstFilingFrequency): GstPeriod {
+  const months = PERIOD_MONTHS[frequency];
+  const [year, month] = nzDateParts(date);
+  const index = year * 12 + month - 1 - APRIL;
+  return periodFromIndex(index - (((index % months) + months) % months), months);
+}
+
+/**
+ * Resolves a period key for a frequency, rejecting keys that don't start a
+ * period (e.g. "2026-03" under two-monthly, whose periods start in even months).
+ * @param key - "YYYY-MM".
+ * @param frequency - Filing frequency.
+ * @returns The period, or null when the key isn't a period start.
+ */
+export function gstPeriodFromKey(key: string, frequency: GstFilingFrequency): GstPeriod | null {
+  const m = /^(\d{4})-(\d{2})$/.exec(key);
+  if (!m) return null;
+  const period = gstPeriodContaining(
+    new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, 1)),
+    frequency,
+  );
+  return period.key === key ? period : null;
+}
+
+/**
+ * The most recent periods, newest first, starting with the one containing `now`.
+ * @param frequency - Filing frequency.
+ * @param now - Current time.
+ * @param count - How many periods.
+ * @returns Periods, newest first.
+ */
+export function recentGstPeriods(
+  frequency: GstFilingFrequency,
+  now: Date,
+  count: number = 12,
+): GstPeriod[] {
+  const periods = [gstPeriodContaining(now, frequency)];
+  while (periods.length < count) {
+    const previous = new Date(periods[periods.length - 1].start.getTime() - 86_400_000);
+    periods.push(gstPeriodContaining(previous, frequency));
+  }
+  return periods;
+}
+
+/**
+ * Computes one period's worksheet from ledger rows. Pure; rows outside the
+ * period are ignored, so callers may over-fetch.
+ * @param period - The return period.
+ * @param basis - Accounting basis.
+ * @param ledger - Invoices, credit notes, income and expenses (at least those in the period).
+ * @returns The worksheet.
+ */
+export function computeGstWorksheet(
+  period: GstPeriod,
+  basis: GstBasis,
+  ledger: GstLedger,
+): GstWorksheet {
+  /**
+   * Whether an instant's NZ day falls in the period.
+   * @param d - The instant.
+   * @returns True when inside.
+   */
+  const inPeriod = (d: Date): boolean => {
+    const day = nzDay(d);
+    return day >= period.start && day < period.end;
+  };
+  const invoicesById = new Map(ledger.invoices.map((inv) => [inv.id, inv]));
+
+  const sales: GstLine[] = [];
+  if (basis === "invoice") {
+    for (const inv of ledger.invoices) {
+      if (!inPeriod(inv.issueDate) || inv.isQuote) continue;
+      if (inv.status !== "SENT" && inv.status !== "PAID") continue;
+      sales.push({
+        kind: "invoice",
+        refId: inv.id,
+        date: inv.issueDate,
+        party: inv.clientName,
+        description: `Invoice ${inv.number}`,
+        amount: round2(inv.total),
+        gst: round2(inv.gstAmount),
+        zeroRated: inv.gstAmount === 0,
+      });
+    }
+    for (const cn of ledger.creditNotes) {
+      if (!inPeriod(cn.issueDate)) continue;
+      sales.push({
+        kind: "credit-note",
+        refId: cn.id,
+        date: cn.issueDate,
+        party: cn.clientName,
+        description: `Credit note ${cn.number} (on ${cn.invoiceNumber})`,
+        amount: -round2(cn.total),
+        gst: -round2(cn.gstAmount),
+        zeroRated: cn.gstAmount === 0,
+      });
+    }
+  }
+  for (const e of ledger.income) {
+    if (!inPeriod(e.date)) continue;
+    // On invoice basis an invoiced sale already counted when it was issued.
+    if (basis === "invoice" && e.invoiceId) continue;
+    const invoice = e.invoiceId ? invoicesById.get(e.invoiceId) : undefined;
+    const zeroRated = invoice ? invoice.gstAmount === 0 : false;
+    sales.push({
+      kind: "income",
+      refId: e.id,
+      date: e.date,
+      party: e.customer,
+      description: e.description,
+      amount: round2(e.amount),
+      gst: zeroRated ? 0 : round2(e.amount * GST_FRACTION),
+      zeroRated,
+    });
+  }
+
+  const purchases: GstLine[] = ledger.expenses
+    .filter((e) => inPeriod(e.date) && e.gstAmount > 0)
+    .map((e) => ({
+      kind: "expense",
+      refId: e.id,
+      date: e.date,
+      party: e.supplier,
+      description: e.description,
+      amount: round2(e.amountIncl),
+      gst: round2(e.gstAmount),
+      zeroRated: false,
+    }));
+
+  /**
+   * Oldest first.
+   * @param a - First line.
+   * @param b - Second line.
+   * @returns Sort order.
+   */
+  const byDate = (a: GstLine, b: GstLine): number => a.date.getTime() - b.date.getTime();
+  sales.sort(byDate);
+  purchases.sort(byDate);
+
+  const totalSales = round2(sales.reduce((s, l) => s + l.amount, 0));
+  const zeroRated = round2(sales.filter((l) => l.zeroRated).reduce((s, l) => s + l.amount, 0));
+  const standardRated = round2(totalSales - zeroRated);
+  const gstOnSales = round2(standardRated * GST_FRACTION);
+  const purchasesTotal = round2(purchases.reduce((s, l) => s + l.amount, 0));
+  const gstOnPurchases = round2(purchasesTotal * GST_FRACTION);
+  return {
+    period,
+    basis,
+    sales,
+    purchases,
+    boxes: {
+      totalSales,
+      zeroRated,
+      standardRated,
+      gstOnSales,
+      salesAdjustments: 0,
+      outputGst: gstOnSales,
+      purchases: purchasesTotal,
+      gstOnPurchases,
+      purchaseAdjustments: 0,
+      inputGst: gstOnPurchases,
+      gstToPay: round2(gstOnSales - gstOnPurchases),
+    },
+  };
+}
+
+/**
+ * Loads the ledger for a period and computes its worksheet.
+ * @param period - The return period.
+ * @param basis - Accounting basis.
+ * @returns The worksheet.
+ */
+export async function loadGstWorksheet(period: GstPeriod, basis: GstBasis): Promise<GstWorksheet> {
+  // A day of slack each side catches issue instants whose NZ day is inside the
+  // period but whose UTC date isn't; computeGstWorksheet does the exact cut.
+  const range = {
+    gte: new Date(period.start.getTime() - 86_400_000),
+    lt: new Date(period.end.getTime() + 86_400_000),
+  };
+  const [income, expenses, creditNotes] = await Promise.all([
+    prisma.incomeEntry.findMany({
+      where: { date: range },
+      select: {
+        id: true,
+        date: true,
+        customer: true,
+        description: true,
+        amount: true,
+        invoiceId: true,
+      },
+    }),
+    prisma.expenseEntry.findMany({
+      where: { date: range },
+      select: {
+        id: true,
+        date: true,
+        supplier: true,
+        description: true,
+        amountIncl: true,
+        gstAmount: true,
+      },
+    }),
+    basis === "invoice"
+      ? prisma.creditNote.findMany({
+          where: { issueDate: range },
+          select: {
+            id: true,
+            number: true,
+            invoiceNumber: true,
+            clientName: true,
+            issueDate: true,
+            total: true,
+            gstAmount: true,
+          },
+        })
+      : Promise.resolve([]),
+  ]);
+  // Invoices issued in the period (invoice basis), plus any an income entry
+  // points at (payments basis reads their GST to spot zero-rated sales).
+  const linkedIds = income.map((e) => e.invoiceId).filter((id): id is string => Boolean(id));
+  const invoices = await prisma.invoice.findMany({
+    where: { OR: [{ issueDate: range }, { id: { in: linkedIds } }] },
+    select: {
+      id: true,
+      number: true,
+      clientName: true,
+      issueDate: true,
+      total: true,
+      gstAmount: true,
+      status: true,
+      isQuote: true,
+    },
+  });
+  return computeGstWorksheet(period, basis, { invoices, creditNotes, income, expenses });
+}
+
+/**
+ * The filed return for a period, if any.
+ * @param period - The return period.
+ * @returns The filed row, or null.
+ */
+export async function getFiledGstReturn(period: GstPeriod): Promise<GstReturn | null> {
+  return prisma.gstReturn.findUnique({
+    where: { periodStart_periodEnd: { periodStart: period.start, periodEnd: period.end } },
+  });
+}
+
+/**
+ * Lists how the transactions behind a filed return have moved since: rows
+ * added to or removed from the period, and rows whose amount or zero-rating
+ * changed.
+ * @param filed - Lines frozen at filing.
+ * @param current - The worksheet's lines now.
+ * @returns Changes, empty when the period is as filed.
+ */
+export function diffFiledLines(filed: GstReturnLine[], current: GstLine[]): GstChange[] {
+  /**
+   * Identity of a line across filed and live sets.
+   * @param l - A line.
+   * @returns "kind:refId".
+   */
+  const keyOf = (l: GstLine | GstReturnLine): string => `${l.kind}:${l.refId}`;
+  const now = new Map(current.map((l) => [keyOf(l), l]));
+  const then = new Map(filed.map((l) => [keyOf(l), l]));
+  const changes: GstChange[] = [];
+  for (const [key, was] of then) {
+    const kind = was.kind as GstLine["kind"];
+    const cur = now.get(key);
+    if (!cur) {
+      changes.push({ kind, refId: was.refId, change: "removed", filedAmount: was.amount });
+    } else if (cur.amount !== was.amount || cur.zeroRated !== was.zeroRated) {
+      changes.push({
+        kind,
+        refId: was.refId,
+        change: "changed",
+        filedAmount: was.amount,
+        currentAmount: cur.amount,
+      });
+    }
+  }
+  for (const [key, cur] of now) {
+    if (!then.has(key)) {
+      changes.push({
+        kind: cur.kind,
+        refId: cur.refId,
+        change: "added",
+        currentAmount: cur.amount,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Files a worksheet: stores the boxes and the supporting lines as they stand.
+ * @param worksheet - The computed worksheet.
+ * @param frequency - Filing frequency in force.
+ * @returns The filed row, or null when the period was already filed.
+ */
+export async function fileGstReturn(
+  worksheet: GstWorksheet,
+  frequency: GstFilingFrequency,
+): Promise<GstReturn | null> {
+  const { period, boxes } = worksheet;
+  try {
+    return await prisma.gstReturn.create({
+      data: {
+        periodKey: period.key,
+        periodStart: period.start,
+        periodEnd: period.end,
+        frequency,
+        basis: worksheet.basis,
+        totalSales: boxes.totalSales,
+        zeroRated: boxes.zeroRated,
+        outputGst: boxes.outputGst,
+        purchases: boxes.purchases,
+        inputGst: boxes.inputGst,
+        gstToPay: boxes.gstToPay,
+        lines: [...worksheet.sales, ...worksheet.purchases].map((l) => ({
+          kind: l.kind,
+          refId: l.refId,
+          amount: l.amount,
+          zeroRated: l.zeroRated,
+        })),
+      },
+    });
+  } catch (err) {
+    // The unique period key lost a race with another filing.
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") return null;
+    throw err;
+  }
+}
+
+/**
+ * Rebuilds the full box set from a filed row (adjustment boxes are always 0).
+ * @param filed - The filed return.
+ * @returns Its boxes.
+ */
+export function filedGstBoxes(filed: GstReturn): GstBoxes {
+  return {
+    totalSales: filed.totalSales,
+    zeroRated: filed.zeroRated,
+    standardRated: round2(filed.totalSales - filed.zeroRated),
+    gstOnSales: filed.outputGst,
+    salesAdjustments: 0,
+    outputGst: filed.outputGst,
+    purchases: filed.purchases,
+    gstOnPurchases: filed.inputGst,
+    purchaseAdjustments: 0,
+    inputGst: filed.inputGst,
+    gstToPay: filed.gstToPay,
+  };
+}
+
+/** A period as the GST page and exports show it. */
+export interface GstReturnView {
+  /** Live lines; boxes are the filed ones once the period is filed. */
+  worksheet: GstWorksheet;
+  filed: GstReturn | null;
+  /** Movements since filing; always empty for an unfiled period. */
+  changes: GstChange[];
+}
+
+/**
+ * Loads a period for display. A filed period keeps its filed boxes and basis
+ * (a later basis switch doesn't rewrite history); its live lines are compared
+ * against the filed ones so edits made since show up as changes.
+ * @param period - The return period.
+ * @param basis - Basis from settings, used while the period is unfiled.
+ * @returns The view.
+ */
+export async function loadGstReturnView(
+  period: GstPeriod,
+  basis: GstBasis,
+): Promise<GstReturnView> {
+  const filed = await getFiledGstReturn(period);
+  const worksheet = await loadGstWorksheet(period, filed ? (filed.basis as GstBasis) : basis);
+  if (!filed) return { worksheet, filed, changes: [] };
+  const changes = diffFiledLines(filed.lines, [...worksheet.sales, ...worksheet.purchases]);
+  return { worksheet: { ...worksheet, boxes: filedGstBoxes(filed) }, filed, changes };
+}
@@ -31,6 +31,8 @@ export interface RecordIncomeInput {
   notes?: string | null;
   /** Optional linked invoice id. */
   invoiceId?: string | null;
+  /** Technician who did the work; defaults to the linked invoice's. */
+  technicianId?: string | null;
 }
 
 /** Result of {@link recordIncome}. */
@@ -53,6 +55,15 @@ export interface RecordIncomeResult {
  * @returns The created entry, its sheet row key, and a sync-warning flag.
  */
 export async function recordIncome(data: RecordIncomeInput): Promise<RecordIncomeResult> {
+  let technicianId = data.technicianId ?? null;
+  if (!technicianId && data.invoiceId) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: data.invoiceId },
+      select: { technicianId: true },
+    });
+    technicianId = invoice?.technicianId ?? null;
+  }
+
   const entry = await prisma.incomeEntry.create({
     data: {
       date: data.date,
@@ -62,6 +73,7 @@ export async function recordIncome(data: RecordIncomeInput): Promise<RecordIncom
       method: data.method,
       notes: data.notes ?? null,
       invoiceId: data.invoiceId ?? null,
+      technicianId,
     },
   });
 
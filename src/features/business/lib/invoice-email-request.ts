@@ -25,6 +25,8 @@ export interface InvoiceEmailOverrides {
 /** The invoice fields the email builders read. */
 export type InvoiceEmailPayload = Pick<
   Invoice,
+  | "id"
+  | "contactId"
   | "number"
   | "clientName"
   | "clientEmail"
@@ -34,6 +36,9 @@ export type InvoiceEmailPayload = Pick<
   | "driveWebUrl"
   | "isQuote"
   | "quoteValidUntil"
+  | "status"
+  | "payToken"
+  | "depositAmount"
 >;
 
 /**
@@ -68,6 +73,8 @@ export async function parseInvoiceEmailOverrides(
  */
 export function toInvoiceEmailPayload(invoice: Invoice): InvoiceEmailPayload {
   return {
+    id: invoice.id,
+    contactId: invoice.contactId,
     number: invoice.number,
     clientName: invoice.clientName,
     clientEmail: invoice.clientEmail,
@@ -77,6 +84,9 @@ export function toInvoiceEmailPayload(invoice: Invoice): InvoiceEmailPayload {
     driveWebUrl: invoice.driveWebUrl,
     isQuote: invoice.isQuote,
     quoteValidUntil: invoice.quoteValidUntil,
+    status: invoice.status,
+    payToken: invoice.payToken,
+    depositAmount: invoice.depositAmount,
   };
 }
 
@@ -3,7 +3,7 @@
  * @description Shared invoice-numbering helper. Both the admin invoice
  * create flow and the auto-drafted late-cancellation invoice flow have to
  * agree on the next number so they never collide on the unique
- * `Invoice.number` index. Sheets is the source of truth when reachable;
+ * `Invoice.number` index. Quotes and credit notes run their own sequences. Sheets is the source of truth when reachable;
  * Prisma is the fallback when it's not.
  */
 
@@ -109,6 +109,30 @@ export async function getNextQuoteNumber(): Promise<NextInvoiceNumber> {
   }
 }
 
+/**
+ * Fetches the next CREDIT NOTE number (CN-2627-0001). Credit notes have no
+ * Sheets counter, so the highest existing CN- number in the DB is the
+ * sequence; like the other two it runs on across financial years, with the
+ * year code marking the year of issue. `sheetNextCount` is always null.
+ * @returns Next CN- number.
+ */
+export async function getNextCreditNoteNumber(): Promise<NextInvoiceNumber> {
+  const last = await prisma.creditNote.findFirst({
+    orderBy: { number: "desc" },
+    select: { number: true },
+  });
+  const dbMatch = last?.number.match(/-(\d+)$/);
+  const dbNext = (dbMatch ? parseInt(dbMatch[1], 10) : 0) + 1;
+  const now = new Date();
+  const fy = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  const yearCode = String(fy) + String(fy + 1).slice(2);
+  return {
+    number: `CN-${yearCode}-${String(dbNext).padStart(4, "0")}`,
+    sheetNextCount: null,
+    sheetSyncWarning: false,
+  };
+}
+
 /**
  * Writes the just-used quote counter back to SETTINGS!B12. Same no-op /
  * swallow semantics as {@link writeBackInvoiceCounter}.
@@ -0,0 +1,145 @@
+// src/features/business/lib/invoice-payment.ts
+/**
+ * @description Records one payment against an invoice - from the admin pay
+ * dialog, a card checkout webhook or a matched bank statement line. Each
+ * payment is appended to the invoice's payment ledger with a conditional write
+ * on amountPaid (so two writers can't both land on the same balance), gets its
+ * own income entry via recordIncome (mirrored to the Cashbook sheet), and the
+ * payment that clears the balance stamps the invoice PAID (taking its picked
+ * parts off the shelf if it was still a draft). The PDF is re-synced
+ * to Drive either way, since it shows the balance due.
+ */
+
+import { round2 } from "@/features/business/lib/business";
+import { recordIncome } from "@/features/business/lib/income-recording";
+import { syncInvoicePdfToDriveById } from "@/features/business/lib/invoice-drive-sync";
+import { issueInvoiceStock } from "@/features/business/lib/stock-recording";
+import { prisma } from "@/shared/lib/prisma";
+import type { Invoice, InvoicePayment } from "@prisma/client";
+import { randomUUID } from "crypto";
+
+/** One payment to record on an invoice. */
+export interface InvoicePaymentInput {
+  /** When the money arrived. */
+  paidAt: Date;
+  /** Amount received, NZD. */
+  amount: number;
+  /** Income method (an INCOME_METHODS value). */
+  method: string;
+  /** Provider or bank reference, stored on the payment and as the income note. */
+  reference: string | null;
+  /** False when the operator already entered the income by hand. Defaults true. */
+  createIncome?: boolean;
+}
+
+/** Result of {@link recordInvoicePayment}. */
+export interface InvoicePaymentResult {
+  /** False when amountPaid moved (another payment landed first); nothing was written. */
+  claimed: boolean;
+  /** The ledger entry written, when claimed. */
+  payment: InvoicePayment | null;
+  /** True when this payment cleared the balance and stamped the invoice PAID. */
+  fullyPaid: boolean;
+  /** True when the payment stood but the income row or its sheet mirror didn't. */
+  sheetSyncWarning: boolean;
+}
+
+/**
+ * Records a payment against an invoice. Callers gate on status (voided /
+ * quote / already PAID) and on amount; this guarantees the write lands once
+ * against the balance they read, and reports `claimed: false` when it moved.
+ * @param invoice - The invoice row, as read by the caller.
+ * @param payment - The payment details.
+ * @param logTag - Log prefix of the caller, e.g. "[online-payment]".
+ * @returns Whether this call recorded the payment, and a sync-warning flag.
+ */
+export async function recordInvoicePayment(
+  invoice: Invoice,
+  payment: InvoicePaymentInput,
+  logTag: string,
+): Promise<InvoicePaymentResult> {
+  const before = invoice.amountPaid ?? 0;
+  const amount = round2(payment.amount);
+  const amountPaid = round2(before + amount);
+  const fullyPaid = amountPaid >= round2(invoice.total);
+  const entry: InvoicePayment = {
+    id: randomUUID(),
+    date: payment.paidAt,
+    amount,
+    method: payment.method,
+    reference: payment.reference,
+    incomeEntryId: null,
+    createdAt: new Date(),
+  };
+
+  // Claim: land only where amountPaid still holds what the caller read. A zero
+  // must also match null and the absent key - rows from before part payments
+  // have neither - as Prisma's bare `null` filter skips a missing field.
+  const claim = await prisma.invoice.updateMany({
+    where: {
+      id: invoice.id,
+      status: { in: ["DRAFT", "SENT"] },
+      ...(before === 0
+        ? { OR: [{ amountPaid: null }, { amountPaid: { isSet: false } }, { amountPaid: 0 }] }
+        : { amountPaid: before }),
+    },
+    data: {
+      amountPaid,
+      payments: { push: entry },
+      ...(fullyPaid && {
+        status: "PAID",
+        paidAt: payment.paidAt,
+        paymentMethod: payment.method,
+        paymentReference: payment.reference,
+      }),
+    },
+  });
+  if (claim.count !== 1) {
+    return { claimed: false, payment: null, fullyPaid: false, sheetSyncWarning: false };
+  }
+
+  let sheetSyncWarning = false;
+  if (payment.createIncome ?? true) {
+    // A one-go payment reads as before; instalments say which they were.
+    const description =
+      before === 0 && fullyPaid
+        ? `Invoice ${invoice.number}`
+        : `Invoice ${invoice.number} (${fullyPaid ? "final payment" : "part payment"})`;
+    try {
+      const result = await recordIncome({
+        date: payment.paidAt,
+        customer: invoice.clientName,
+        description,
+        amount,
+        method: payment.method,
+        notes: payment.reference,
+        invoiceId: invoice.id,
+      });
+      entry.incomeEntryId = result.entry.id;
+      sheetSyncWarning = result.sheetSyncWarning;
+      await prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          payments: {
+            updateMany: { where: { id: entry.id }, data: { incomeEntryId: result.entry.id } },
+          },
+        },
+      });
+    } catch (err) {
+      // The payment stands; the operator can add the ledger row from the invoice.
+      console.error(`${logTag} Income record failed for ${invoice.number}:`, err);
+      sheetSyncWarning = true;
+    }
+  }
+
+  // A draft paid outright never went through send, so its parts leave the
+  // shelf here. No-op when the send already issued them.
+  if (fullyPaid) {
+    await issueInvoiceStock(invoice.id).catch((err) =>
+      console.error(`${logTag} Stock issue failed for ${invoice.number}:`, err),
+    );
+  }
+
+  await syncInvoicePdfToDriveById(invoice.id, logTag);
+  return { claimed: true, payment: entry, fullyPaid, sheetSyncWarning };
+}
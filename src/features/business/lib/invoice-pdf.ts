@@ -5,7 +5,13 @@
  * InvoicePreviewPanel; keep the two layouts in sync.
  */
 import { formatNZD, lineItemQtyLabel } from "@/features/business/lib/business";
-import { isInvoiceOverdue } from "@/features/business/lib/invoice-status";
+import {
+  invoiceBalanceDue,
+  isInvoiceOverdue,
+  isPartiallyPaid,
+} from "@/features/business/lib/invoice-status";
+import { invoicePayUrl } from "@/features/business/lib/payment-provider";
+import { quotePageUrl } from "@/features/business/lib/quote-acceptance";
 import type { Invoice } from "@/features/business/types/business";
 import { getIdentity } from "@/shared/lib/business-identity.server";
 import { formatDateShort } from "@/shared/lib/date-format";
@@ -138,8 +144,16 @@ export function serializeInvoice(inv: PrismaInvoice): Invoice {
     paidAt: inv.paidAt?.toISOString() ?? null,
     paymentMethod: inv.paymentMethod,
     paymentReference: inv.paymentReference,
+    payments: inv.payments.map((p) => ({
+      ...p,
+      date: p.date.toISOString(),
+      createdAt: p.createdAt.toISOString(),
+    })),
+    amountPaid: inv.amountPaid,
     isQuote: inv.isQuote,
     quoteValidUntil: inv.quoteValidUntil?.toISOString() ?? null,
+    payToken: inv.payToken,
+    depositAmount: inv.depositAmount,
     driveFileId: inv.driveFileId,
     driveWebUrl: inv.driveWebUrl,
     createdAt: inv.createdAt.toISOString(),
@@ -154,6 +168,8 @@ export function serializeInvoice(inv: PrismaInvoice): Invoice {
  * @param invoice - Invoice being rendered.
  */
 function drawStatusWatermark(ctx: PdfCtx, invoice: Invoice): void {
+  // A credit note is a settled document in its own right; no stamp.
+  if (invoice.creditNoteFor) return;
   // Quotes short-circuit: a quote is never PAID/OVERDUE, and even a voided
   // quote reads better watermarked QUOTE with the VOID status line beside it.
   const isOverdue = !invoice.isQuote && isInvoiceOverdue(invoice);
@@ -215,8 +231,15 @@ function drawHeader(ctx: PdfCtx, invoice: Invoice, logoPaths: LogoPath[]): numbe
 
   const rightX = MARGIN + CONTENT_W;
   // IRD requires "Tax invoice" wording when GST-registered; a quote is never
-  // a tax document, so QUOTE wins regardless of registration.
-  const invTitle = invoice.isQuote ? "QUOTE" : ctx.identity.gstNumber ? "TAX INVOICE" : "INVOICE";
+  // a tax document, so QUOTE wins regardless of registration. A credit note
+  // carries its own title whether or not GST is involved.
+  const invTitle = invoice.creditNoteFor
+    ? "CREDIT NOTE"
+    : invoice.isQuote
+      ? "QUOTE"
+      : ctx.identity.gstNumber
+        ? "TAX INVOICE"
+        : "INVOICE";
   let rightY = HEADER_TOP - 20;
   ctx.page.drawText(invTitle, {
     x: rightX - ctx.bold.widthOfTextAtSize(invTitle, 20),
@@ -235,16 +258,20 @@ function drawHeader(ctx: PdfCtx, invoice: Invoice, logoPaths: LogoPath[]): numbe
   });
   rightY -= 16;
   // Quotes hide the DRAFT/SENT lifecycle (meaningless to the customer) and
-  // show the validity date instead; a voided quote still shows VOID.
-  const statusText = invoice.isQuote
-    ? invoice.status === "VOIDED"
-      ? "VOID"
-      : invoice.quoteValidUntil
-        ? `Valid until ${formatDateShort(invoice.quoteValidUntil)}`
-        : "QUOTE"
-    : invoice.status;
-  const statusColor =
-    invoice.status === "PAID"
+  // show the validity date instead; a voided quote still shows VOID. A credit
+  // note has no lifecycle to show.
+  const statusText = invoice.creditNoteFor
+    ? "CREDIT"
+    : invoice.isQuote
+      ? invoice.status === "VOIDED"
+        ? "VOID"
+        : invoice.quoteValidUntil
+          ? `Valid until ${formatDateShort(invoice.quoteValidUntil)}`
+          : "QUOTE"
+      : invoice.status;
+  const statusColor = invoice.creditNoteFor
+    ? BRAND
+    : invoice.status === "PAID"
       ? PAID_COLOR
       : invoice.status === "VOIDED"
         ? VOID_COLOR
@@ -331,7 +358,10 @@ function drawBillToBlock(ctx: PdfCtx, invoice: Invoice, y: number): number {
     });
   };
   drawDateRow("Issued:", formatDateShort(invoice.issueDate), 0);
-  if (invoice.isQuote) {
+  if (invoice.creditNoteFor) {
+    // IRD wants a credit note to identify the supply it corrects.
+    drawDateRow("Invoice:", invoice.creditNoteFor, -18);
+  } else if (invoice.isQuote) {
     // A quote has no payment due date - the second row shows how long the
     // quoted prices are honoured instead.
     if (invoice.quoteValidUntil) {
@@ -463,13 +493,13 @@ function drawLineItemsTable(ctx: PdfCtx, invoice: Invoice, y: number): number {
 }
 
 /**
- * Draws the totals block: Subtotal, optional promo line, optional GST, and a
- * bold final Total. Long labels are auto-truncated so they never overlap the
+ * Draws the totals block: Subtotal, optional promo line, optional GST, a bold
+ * final Total, and on a part-paid invoice the paid-to-date and balance rows. Long labels are auto-truncated so they never overlap the
  * right-aligned value column.
  * @param ctx - PDF drawing context.
  * @param invoice - Invoice being rendered.
  * @param y - Top of the block.
- * @returns Y coordinate below the Total row.
+ * @returns Y coordinate below the last row.
  */
 function drawTotalsBlock(ctx: PdfCtx, invoice: Invoice, y: number): number {
   // Label area widened (0.4 > 0.6 of CONTENT_W) so long promo titles fit.
@@ -545,15 +575,23 @@ function drawTotalsBlock(ctx: PdfCtx, invoice: Invoice, y: number): number {
   });
   // Push Total below the divider so 14pt bold doesn't overlap the line.
   y -= 12;
-  drawRow("Total", formatNZD(invoice.total), { isBold: true });
+  drawRow(invoice.creditNoteFor ? "Total credit" : "Total", formatNZD(invoice.total), {
+    isBold: true,
+  });
+  // Part paid: what's come in so far and what's still owed.
+  if (!invoice.creditNoteFor && isPartiallyPaid(invoice)) {
+    drawRow("Paid to date", `-${formatNZD(invoice.amountPaid ?? 0)}`);
+    drawRow("Balance due", formatNZD(invoiceBalanceDue(invoice)), { isBold: true });
+  }
 
   return y - 12;
 }
 
 /**
  * Draws the tinted "Bank transfer" call-out box with payee, account, reference,
- * and due date. Sized to its fixed 5-line content so callers don't need to know
- * its height up-front.
+ * and due date, plus the pay-by-card link while the invoice is still payable and
+ * online payment is on. Sized to its content so callers don't need to know its
+ * height up-front.
  * @param ctx - PDF drawing context.
  * @param invoice - Invoice being rendered.
  * @param y - Top of the block.
@@ -564,7 +602,11 @@ function drawPaymentCallout(ctx: PdfCtx, invoice: Invoice, y: number): number {
   const BOX_PAD_X = 14;
   const BOX_PAD_Y = 14;
   const lineH = 16;
-  const boxLines = 5; // heading + payee + account + reference + due-by
+  const payUrl =
+    invoice.status === "PAID" || invoice.status === "VOIDED"
+      ? null
+      : invoicePayUrl(invoice.payToken);
+  const boxLines = payUrl ? 6 : 5; // heading + payee + account + reference + due-by (+ card link)
   const BOX_H = BOX_PAD_Y * 2 + 22 + (boxLines - 1) * lineH; // heading taller than rows
   // Border-only so the diagonal status watermark shows through cleanly.
   ctx.page.drawRectangle({
@@ -619,12 +661,23 @@ function drawPaymentCallout(ctx: PdfCtx, invoice: Invoice, y: number): number {
       color: MID,
     },
   );
+  if (payUrl) {
+    by -= lineH;
+    ctx.page.drawText(`Or pay by card: ${payUrl}`, {
+      x: MARGIN + BOX_PAD_X,
+      y: by,
+      size: 11,
+      font: ctx.font,
+      color: BRAND,
+    });
+  }
   return boxTop - BOX_H - 14;
 }
 
 /**
- * Quote variant of the call-out box: how to accept, plus the validity line.
- * No bank details - payment comes with the invoice after acceptance.
+ * Quote variant of the call-out box: how to accept (with the online link and
+ * any deposit), plus the validity line. No bank details - payment comes with
+ * the invoice after acceptance.
  * @param ctx - PDF drawing context.
  * @param invoice - Quote being rendered.
  * @param y - Top of the block.
@@ -635,7 +688,9 @@ function drawQuoteCallout(ctx: PdfCtx, invoice: Invoice, y: number): number {
   const BOX_PAD_X = 14;
   const BOX_PAD_Y = 14;
   const lineH = 16;
-  const boxLines = 3; // heading + accept line + validity line
+  const acceptUrl = invoice.status === "VOIDED" ? null : quotePageUrl(invoice.payToken);
+  // heading + accept line + validity line (+ online link, + deposit line)
+  const boxLines = 3 + (acceptUrl ? 1 : 0) + (invoice.depositAmount ? 1 : 0);
   const BOX_H = BOX_PAD_Y * 2 + 22 + (boxLines - 1) * lineH;
   ctx.page.drawRectangle({
     x: MARGIN,
@@ -655,7 +710,88 @@ function drawQuoteCallout(ctx: PdfCtx, invoice: Invoice, y: number): number {
     color: BRAND,
   });
   by -= 22;
-  ctx.page.drawText(`Reply to the email or ring ${ctx.identity.phone} to go ahead.`, {
+  ctx.page.drawText(
+    acceptUrl
+      ? `Accept or decline online, reply to the email, or ring ${ctx.identity.phone}.`
+      : `Reply to the email or ring ${ctx.identity.phone} to go ahead.`,
+    {
+      x: MARGIN + BOX_PAD_X,
+      y: by,
+      size: 12,
+      font: ctx.font,
+      color: DARK,
+    },
+  );
+  by -= lineH;
+  if (acceptUrl) {
+    ctx.page.drawText(acceptUrl, {
+      x: MARGIN + BOX_PAD_X,
+      y: by,
+      size: 11,
+      font: ctx.font,
+      color: BRAND,
+    });
+    by -= lineH;
+  }
+  if (invoice.depositAmount) {
+    ctx.page.drawText(`A ${formatNZD(invoice.depositAmount)} deposit is due on acceptance.`, {
+      x: MARGIN + BOX_PAD_X,
+      y: by,
+      size: 12,
+      font: ctx.bold,
+      color: DARK,
+    });
+    by -= lineH;
+  }
+  ctx.page.drawText(
+    invoice.quoteValidUntil
+      ? `Prices are held until ${formatDateShort(invoice.quoteValidUntil)}.`
+      : "Prices may change if the scope does - anything extra is agreed first.",
+    {
+      x: MARGIN + BOX_PAD_X,
+      y: by,
+      size: 12,
+      font: ctx.font,
+      color: MID,
+    },
+  );
+  return boxTop - BOX_H - 14;
+}
+
+/**
+ * Credit-note variant of the call-out box: which invoice it credits and how
+ * the money went back. The reason prints below as the notes line.
+ * @param ctx - PDF drawing context.
+ * @param invoice - Credit note being rendered (invoice-shaped).
+ * @param y - Top of the block.
+ * @returns Y coordinate below the box, including the gap before notes.
+ */
+function drawCreditCallout(ctx: PdfCtx, invoice: Invoice, y: number): number {
+  const boxTop = y - 8;
+  const BOX_PAD_X = 14;
+  const BOX_PAD_Y = 14;
+  const lineH = 16;
+  const boxLines = 3; // heading + credits line + refund line
+  const BOX_H = BOX_PAD_Y * 2 + 22 + (boxLines - 1) * lineH;
+  ctx.page.drawRectangle({
+    x: MARGIN,
+    y: boxTop - BOX_H,
+    width: CONTENT_W,
+    height: BOX_H,
+    borderColor: LIGHT,
+    borderWidth: 0.8,
+  });
+
+  let by = boxTop - BOX_PAD_Y - 2;
+  ctx.page.drawText("Credit note", {
+    x: MARGIN + BOX_PAD_X,
+    y: by,
+    size: 14,
+    font: ctx.bold,
+    color: BRAND,
+  });
+  by -= 22;
+  ctx.page.drawText(`Credits invoice ${invoice.creditNoteFor ?? ""}.`, {
     x: MARGIN + BOX_PAD_X,
     y: by,
     size: 12,
@@ -664,9 +800,9 @@ function drawQuoteCallout(ctx: PdfCtx, invoice: Invoice, y: number): number {
   });
   by -= lineH;
   ctx.page.drawText(
-    invoice.quoteValidUntil
-      ? `Prices are held until ${formatDateShort(invoice.quoteValidUntil)}.`
-      : "Prices may change if the scope does - anything extra is agreed first.",
+    invoice.paymentMethod
+      ? `${formatNZD(invoice.total)} refunded by ${invoice.paymentMethod.toLowerCase()}.`
+      : `${formatNZD(invoice.total)} refunded.`,
     {
       x: MARGIN + BOX_PAD_X,
       y: by,
@@ -723,6 +859,7 @@ function drawFooter(ctx: PdfCtx): void {
 
 /**
  * Generates a clean professional A4 PDF for the given invoice using pdf-lib.
+ * Credit notes render through here too (see `creditNoteFor`).
  * Header is the wordmark logo on the left and the INVOICE/TAX INVOICE title,
  * number, status, and optional GST# on the right. The PAID/VOID/OVERDUE watermark
  * sits underneath as a functional status indicator.
@@ -743,7 +880,11 @@ export async function generateInvoicePdf(invoice: Invoice): Promise<Buffer> {
   y = drawBillToBlock(ctx, invoice, y);
   y = drawLineItemsTable(ctx, invoice, y);
   y = drawTotalsBlock(ctx, invoice, y);
-  y = invoice.isQuote ? drawQuoteCallout(ctx, invoice, y) : drawPaymentCallout(ctx, invoice, y);
+  y = invoice.creditNoteFor
+    ? drawCreditCallout(ctx, invoice, y)
+    : invoice.isQuote
+      ? drawQuoteCallout(ctx, invoice, y)
+      : drawPaymentCallout(ctx, invoice, y);
   drawNotes(ctx, invoice, y);
   drawFooter(ctx);
 
@@ -2,6 +2,7 @@
 // send-and-stamp shared by the daily cron and the manual action.
 
 import { generateInvoicePdf, serializeInvoice } from "@/features/business/lib/invoice-pdf";
+import { ensureInvoicePayToken } from "@/features/business/lib/online-payment";
 import { sendInvoiceReminderEmail } from "@/features/reviews/lib/email";
 import { prisma } from "@/shared/lib/prisma";
 import type { Invoice as PrismaInvoice } from "@prisma/client";
@@ -16,12 +17,14 @@ export interface ReminderSendResult {
 
 /**
  * Emails the nudge (OVERDUE-watermarked PDF attached) and stamps the reminder
- * fields ONLY after Resend accepts - stamping first would silently drop the
+ * fields ONLY once the email is queued - stamping first would silently drop the
  * chase forever on a transient send failure.
- * @param invoice - The full invoice row (must be SENT and past due; callers gate).
+ * @param row - The full invoice row (must be SENT and past due; callers gate).
  * @returns Whether the send happened and which reminder number it was.
  */
-export async function sendOverdueReminder(invoice: PrismaInvoice): Promise<ReminderSendResult> {
+export async function sendOverdueReminder(row: PrismaInvoice): Promise<ReminderSendResult> {
+  // Chasing an invoice from before pay links: give it one so the nudge carries it.
+  const invoice = await ensureInvoicePayToken(row);
   // Null reads as 0 (Mongo optional-field rule).
   const reminderNumber = (invoice.reminderCount ?? 0) + 1;
 
@@ -35,13 +38,17 @@ export async function sendOverdueReminder(invoice: PrismaInvoice): Promise<Remin
 
   const accepted = await sendInvoiceReminderEmail({
     invoice: {
+      id: invoice.id,
+      contactId: invoice.contactId,
       number: invoice.number,
       clientName: invoice.clientName,
       clientEmail: invoice.clientEmail,
       issueDate: invoice.issueDate,
       dueDate: invoice.dueDate,
       total: invoice.total,
+      amountPaid: invoice.amountPaid,
       driveWebUrl: invoice.driveWebUrl,
+      payToken: invoice.payToken,
     },
     pdfBytes,
     reminderNumber,
@@ -1,9 +1,10 @@
 // src/features/business/lib/invoice-status.ts
 /**
- * @description Single source of truth for the derived OVERDUE state of an
- * invoice. An invoice is overdue when it is SENT and its due date is before the
- * start of today. The PDF watermark, the list badges, and the reminder cron all
- * read from here so the definition can't drift.
+ * @description Single source of truth for the derived states of an invoice:
+ * the balance still owed, OVERDUE (SENT, money still owed, and due before the
+ * start of today) and PARTIALLY_PAID (some payments in, balance left). The PDF
+ * watermark, the list badges, and the reminder cron all read from here so the
+ * definitions can't drift.
  *
  * Timezone note: today is computed in the runtime's local zone. On Vercel that
  * is UTC, whereas a browser renders in NZ - so "overdue" can flip up to ~13h
@@ -24,10 +25,22 @@ export interface OverdueCheckInput {
   isQuote?: boolean | null;
   /** Quote validity end; past it the quote displays as EXPIRED. */
   quoteValidUntil?: string | Date | null;
+  /** Invoice total; omit to skip the balance checks. */
+  total?: number;
+  /** Sum of payments received so far; null reads as 0. */
+  amountPaid?: number | null;
+}
+
+/** The invoice shape the balance calculation needs. */
+export interface BalanceInput {
+  status: InvoiceStatus;
+  total: number;
+  amountPaid?: number | null;
 }
 
 /** What the admin UI shows on the pill: a stored status or a derived one. */
-export type InvoiceDisplayStatus = InvoiceStatus | "OVERDUE" | "QUOTE" | "EXPIRED";
+export type InvoiceDisplayStatus =
+  InvoiceStatus | "OVERDUE" | "PARTIALLY_PAID" | "QUOTE" | "EXPIRED";
 
 /**
  * Prisma where-fragment excluding quote rows. MUST be this OR shape: on the
@@ -43,16 +56,41 @@ export const NOT_A_QUOTE_FILTER = {
 };
 
 /**
- * Whether an invoice is overdue: SENT with a due date before the start of
- * `now`'s day. Quotes are never overdue - their dueDate is a schema
- * placeholder, not a payment deadline.
- * @param invoice - Invoice status + due date.
+ * What the client still owes. PAID and VOIDED owe nothing whatever the
+ * ledger says (legacy PAID rows have no payments recorded); otherwise the total
+ * less the payments received, never below zero.
+ * @param invoice - Status, total and amount paid.
+ * @returns Balance due in NZD, to the cent.
+ */
+export function invoiceBalanceDue(invoice: BalanceInput): number {
+  if (invoice.status === "PAID" || invoice.status === "VOIDED") return 0;
+  const balance = Math.round((invoice.total - (invoice.amountPaid ?? 0)) * 100) / 100;
+  return Math.max(0, balance);
+}
+
+/**
+ * Whether some but not all of an invoice has been paid.
+ * @param invoice - Status, total and amount paid.
+ * @returns True when payments are in and a balance remains.
+ */
+export function isPartiallyPaid(invoice: BalanceInput): boolean {
+  return (invoice.amountPaid ?? 0) > 0 && invoiceBalanceDue(invoice) > 0;
+}
+
+/**
+ * Whether an invoice is overdue: SENT with money still owed and a due date
+ * before the start of `now`'s day. Quotes are never overdue - their dueDate is
+ * a schema placeholder, not a payment deadline.
+ * @param invoice - Invoice status + due date (+ total and amount paid).
  * @param now - Reference instant (defaults to the current time).
- * @returns True when the invoice is SENT and past due.
+ * @returns True when the invoice is SENT, unpaid or part paid, and past due.
  */
 export function isInvoiceOverdue(invoice: OverdueCheckInput, now: Date = new Date()): boolean {
   if (invoice.isQuote) return false;
   if (invoice.status !== "SENT") return false;
+  if (invoice.total !== undefined && invoiceBalanceDue({ ...invoice, total: invoice.total }) <= 0) {
+    return false;
+  }
   const startOfToday = new Date(now);
   startOfToday.setHours(0, 0, 0, 0);
   return new Date(invoice.dueDate) < startOfToday;
@@ -60,9 +98,10 @@ export function isInvoiceOverdue(invoice: OverdueCheckInput, now: Date = new Dat
 
 /**
  * The status to DISPLAY for an invoice: the stored status, except a SENT
- * invoice past due surfaces as "OVERDUE", and a quote surfaces as "QUOTE"
- * (or "EXPIRED" once its validity date passes). A voided quote still shows
- * VOIDED - terminal states win.
+ * invoice past due surfaces as "OVERDUE", an unpaid one with payments in as
+ * "PARTIALLY_PAID", and a quote as "QUOTE" (or "EXPIRED" once its validity
+ * date passes). A voided quote still shows VOIDED - terminal states win, and
+ * OVERDUE outranks PARTIALLY_PAID since it's the one that needs chasing.
  * @param invoice - Invoice status + due date (+ quote fields).
  * @param now - Reference instant (defaults to the current time).
  * @returns The display status.
@@ -74,5 +113,9 @@ export function deriveInvoiceDisplayStatus(
   if (invoice.isQuote && invoice.status !== "VOIDED") {
     return invoice.quoteValidUntil && new Date(invoice.quoteValidUntil) < now ? "EXPIRED" : "QUOTE";
   }
-  return isInvoiceOverdue(invoice, now) ? "OVERDUE" : invoice.status;
+  if (isInvoiceOverdue(invoice, now)) return "OVERDUE";
+  if (invoice.total !== undefined && isPartiallyPaid({ ...invoice, total: invoice.total })) {
+    return "PARTIALLY_PAID";
+  }
+  return invoice.status;
 }
@@ -0,0 +1,108 @@
+// src/features/business/lib/llm-provider-openai.ts
+/**
+ * @description OpenAI's chat completions behind the {@link LlmProvider}
+ * interface, also used for local servers that speak the same API. The SDK's own
+ * retries are off so both backends share one policy: a 429 waits out
+ * Retry-After (or an exponential backoff), a 5xx or dropped connection backs
+ * off, and anything else - including a timeout, which would only burn the
+ * route's budget again - fails straight away.
+ */
+
+import type { LlmProvider, LlmRequest } from "@/features/business/lib/llm-provider";
+import OpenAI from "openai";
+
+/** First backoff wait; doubles after each retry. */
+const BASE_BACKOFF_MS = 1_000;
+/** Longest single wait, so a huge Retry-After can't outlive the route. */
+const MAX_BACKOFF_MS = 10_000;
+
+/**
+ * How long to wait before retrying a failed attempt.
+ * @param err - What the attempt threw.
+ * @param attempt - Zero-based attempt that failed.
+ * @returns Milliseconds to wait, or null when the failure isn't worth retrying.
+ */
+function retryDelayMs(err: unknown, attempt: number): number | null {
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  if (err instanceof OpenAI.APIConnectionTimeoutError) return null;
+  if (err instanceof OpenAI.APIConnectionError) return backoff;
+  if (err instanceof OpenAI.RateLimitError) {
+    // An exhausted quota is a 429 too, but no amount of waiting fixes it.
+    if (err.code === "insufficient_quota") return null;
+    const retryAfterMs = Number(err.headers?.get("retry-after-ms"));
+    if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+      return Math.min(MAX_BACKOFF_MS, retryAfterMs);
+    }
+    const retryAfterSecs = Number(err.headers?.get("retry-after"));
+    if (Number.isFinite(retryAfterSecs) && retryAfterSecs > 0) {
+      return Math.min(MAX_BACKOFF_MS, retryAfterSecs * 1000);
+    }
+    return backoff;
+  }
+  if (err instanceof OpenAI.APIError && (err.status ?? 0) >= 500) return backoff;
+  return null;
+}
+
+/**
+ * The request's output contract in the API's shape.
+ * @param request - Completion request.
+ * @returns The `response_format` parameter.
+ */
+function responseFormat(
+  request: LlmRequest,
+): OpenAI.Chat.Completions.ChatCompletionCreateParams["response_format"] {
+  const format = request.format;
+  return format.type === "json_schema"
+    ? {
+        type: "json_schema",
+        json_schema: { name: format.name, schema: format.schema, strict: true },
+      }
+    : { type: "json_object" };
+}
+
+/**
+ * Builds a provider over an OpenAI-compatible endpoint.
+ * @param name - Provider id for logs, e.g. "openai" or "local".
+ * @param options - SDK client options.
+ * @param options.apiKey - Bearer key; undefined leaves the SDK to complain.
+ * @param options.baseURL - Endpoint root including /v1; omitted for OpenAI itself.
+ * @returns The provider.
+ */
+export function createOpenAiLlmProvider(
+  name: string,
+  options: { apiKey: string | undefined; baseURL?: string },
+): LlmProvider {
+  const client = new OpenAI({ ...options, maxRetries: 0 });
+  return {
+    name,
+    /**
+     * Runs one completion, retrying rate limits and transient failures.
+     * @param request - Prompt, model and output contract.
+     * @returns The first choice's message content.
+     */
+    complete: async (request) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const completion = await client.chat.completions.create(
+            {
+              model: request.model,
+              max_tokens: request.maxTokens,
+              temperature: request.temperature,
+              response_format: responseFormat(request),
+              messages: request.messages,
+            },
+            { timeout: request.timeoutMs },
+          );
+          return completion.choices[0]?.message?.content ?? "";
+        } catch (err) {
+          const delayMs = attempt < request.retries ? retryDelayMs(err, attempt) : null;
+          if (delayMs === null) throw err;
+          console.warn(
+            `[llm] ${name} ${request.purpose} attempt ${attempt + 1} failed - retrying in ${delayMs}ms`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+      }
+    },
+  };
+}
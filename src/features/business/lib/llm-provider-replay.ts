@@ -0,0 +1,138 @@
+// src/features/business/lib/llm-provider-replay.ts
+/**
+ * @description Recorded-fixture {@link LlmProvider} for dev and the offline AI
+ * eval. A live provider wrapped by {@link withFixtureRecording} saves each
+ * answer as `<dir>/<purpose>/<hash of replayKey>.json`; replay serves it back
+ * for the same purpose and key without a network call. Fixtures also note a
+ * hash of the prompt they were recorded against, so after a prompt change the
+ * replay says which answers predate it - and the re-recorded files' git diff
+ * shows exactly how the model's output moved.
+ */
+
+import type { LlmProvider, LlmRequest } from "@/features/business/lib/llm-provider";
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+/** One recorded answer. */
+export interface LlmFixture {
+  purpose: string;
+  replayKey: string;
+  model: string;
+  /** Short hash of the static prompt (the first message) at recording time. */
+  promptHash: string;
+  recordedAt: string;
+  /** The answer, parsed when it was JSON so fixture diffs stay readable. */
+  response: unknown;
+}
+
+/**
+ * Where fixtures live: LLM_FIXTURES_DIR, else the eval harness's folder.
+ * @returns Absolute directory path.
+ */
+export function llmFixturesDir(): string {
+  const configured = process.env.LLM_FIXTURES_DIR?.trim();
+  return path.resolve(configured || path.join("scripts", "eval-ai", "fixtures"));
+}
+
+/**
+ * Short hex SHA-256 of a string.
+ * @param text - Input.
+ * @returns First 16 hex characters of the digest.
+ */
+function shortHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+/**
+ * The file a request's answer is recorded in.
+ * @param dir - Fixtures directory.
+ * @param request - Completion request.
+ * @returns Absolute file path.
+ */
+export function llmFixturePath(dir: string, request: LlmRequest): string {
+  return path.join(dir, request.purpose, `${shortHash(request.replayKey)}.json`);
+}
+
+/**
+ * Hash of the request's static prompt, for spotting stale fixtures.
+ * @param request - Completion request.
+ * @returns Short hex hash.
+ */
+export function llmPromptHash(request: LlmRequest): string {
+  return shortHash(request.messages[0]?.content ?? "");
+}
+
+/**
+ * Builds the replay provider.
+ * @param dir - Fixtures directory; defaults to {@link llmFixturesDir}.
+ * @returns The provider.
+ */
+export function createReplayLlmProvider(dir = llmFixturesDir()): LlmProvider {
+  return {
+    name: "replay",
+    /**
+     * Serves the recorded answer for the request.
+     * @param request - Completion request.
+     * @returns The recorded JSON text. Throws when nothing was recorded for it.
+     */
+    complete: async (request) => {
+      const file = llmFixturePath(dir, request);
+      const raw = await readFile(file, "utf8").catch(() => null);
+      if (raw === null) {
+        throw new Error(
+          `No recorded ${request.purpose} response for ${JSON.stringify(request.replayKey)} (${file}) - record one with npm run dev:record.`,
+        );
+      }
+      const fixture = JSON.parse(raw) as LlmFixture;
+      if (fixture.promptHash !== llmPromptHash(request)) {
+        console.warn(
+          `[llm] ${path.relative(process.cwd(), file)} was recorded against an older ${request.purpose} prompt - re-record to test the current one.`,
+        );
+      }
+      return typeof fixture.response === "string"
+        ? fixture.response
+        : JSON.stringify(fixture.response);
+    },
+  };
+}
+
+/**
+ * Wraps a live provider so every successful answer is also written as a
+ * fixture. A failed write is logged, never surfaced - recording is a side job.
+ * @param provider - Live provider.
+ * @param dir - Fixtures directory; defaults to {@link llmFixturesDir}.
+ * @returns The recording provider.
+ */
+export function withFixtureRecording(provider: LlmProvider, dir = llmFixturesDir()): LlmProvider {
+  return {
+    name: provider.name,
+    /**
+     * Runs the completion on the live provider and records the answer.
+     * @param request - Completion request.
+     * @returns The live answer.
+     */
+    complete: async (request) => {
+      const text = await provider.complete(request);
+      let response: unknown = text;
+      try {
+        response = JSON.parse(text);
+      } catch {
+        // Keep the raw text; the route will reject it the same way on replay.
+      }
+      const fixture: LlmFixture = {
+        purpose: request.purpose,
+        replayKey: request.replayKey,
+        model: request.model,
+        promptHash: llmPromptHash(request),
+        recordedAt: new Date().toISOString(),
+        response,
+      };
+      const file = llmFixturePath(dir, request);
+      await mkdir(path.dirname(file), { recursive: true })
+        .then(() => writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`))
+        .catch((err) => console.warn("[llm] Fixture write failed:", err));
+      return text;
+    },
+  };
+}
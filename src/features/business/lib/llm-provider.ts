@@ -0,0 +1,104 @@
+// src/features/business/lib/llm-provider.ts
+/**
+ * @description Pluggable chat-completion backend behind the admin job parser
+ * and the public duration estimator. Both send a static prompt plus per-call
+ * context and want one JSON object back; the provider owns the transport,
+ * retries and rate-limit backoff. Chosen by the estimator settings' `ai.provider`:
+ *
+ *   openai - OpenAI's API; needs OPENAI_API_KEY (the default).
+ *   local  - any OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio)
+ *            at `ai.localBaseUrl`; sends LOCAL_LLM_API_KEY if set.
+ *   replay - recorded responses from disk, no network (see
+ *            llm-provider-replay.ts); refused in production.
+ *
+ * LLM_PROVIDER overrides the setting, so the eval harness can run a dev server
+ * on replay without touching the stored settings. With LLM_RECORD_FIXTURES=1
+ * outside production, a live provider also records every answer for replay.
+ */
+
+import { createOpenAiLlmProvider } from "@/features/business/lib/llm-provider-openai";
+import {
+  createReplayLlmProvider,
+  withFixtureRecording,
+} from "@/features/business/lib/llm-provider-replay";
+import type { AiModelSettings } from "@/shared/lib/settings/types";
+import OpenAI from "openai";
+
+export interface LlmMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+/** Output contract: any JSON object, or one matching a JSON schema. */
+export type LlmResponseFormat =
+  { type: "json_object" } | { type: "json_schema"; name: string; schema: Record<string, unknown> };
+
+export interface LlmRequest {
+  /** Which call this is, e.g. "parse-job"; groups recorded fixtures. */
+  purpose: string;
+  model: string;
+  /** The first message is the static prompt; replay uses it to spot stale fixtures. */
+  messages: LlmMessage[];
+  format: LlmResponseFormat;
+  maxTokens: number;
+  temperature: number;
+  /** Per-attempt timeout. */
+  timeoutMs: number;
+  /** Attempts after the first on a rate limit or a transient upstream failure. */
+  retries: number;
+  /**
+   * What the answer depends on that changes between requests - the operator's
+   * text, not the live context around it. The messages themselves carry the
+   * time of day and live rates, so they would never match a recording twice.
+   */
+  replayKey: string;
+}
+
+export interface LlmProvider {
+  /** Short id, e.g. "openai", for logs and cache keys. */
+  name: string;
+  /**
+   * Runs one completion.
+   * @param request - Prompt, model and output contract.
+   * @returns The model's JSON text. Throws on failure - see {@link isLlmRateLimited}.
+   */
+  complete(request: LlmRequest): Promise<string>;
+}
+
+/**
+ * Whether a failed completion was a rate limit that outlasted the retries, so
+ * the route can answer 429 `retryable` instead of reading it as a bad parse.
+ * @param err - Error thrown by {@link LlmProvider.complete}.
+ * @returns True for an upstream 429.
+ */
+export function isLlmRateLimited(err: unknown): boolean {
+  return err instanceof OpenAI.RateLimitError;
+}
+
+/**
+ * The configured provider.
+ * @param ai - The estimator settings' AI model config.
+ * @returns A provider; unknown or unusable choices fall back to OpenAI.
+ */
+export function getLlmProvider(ai: AiModelSettings): LlmProvider {
+  const choice = process.env.LLM_PROVIDER?.trim().toLowerCase() || ai.provider;
+  const production = process.env.NODE_ENV === "production";
+  if (choice === "replay") {
+    // Canned answers would quote real customers from someone else's job.
+    if (!production) return createReplayLlmProvider();
+    console.warn("[llm] The replay provider is refused in production - using OpenAI.");
+  }
+
+  let live: LlmProvider;
+  if (choice === "local" && ai.localBaseUrl.trim()) {
+    live = createOpenAiLlmProvider("local", {
+      baseURL: ai.localBaseUrl.trim(),
+      // The SDK insists on a key; most local servers ignore it.
+      apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || "local",
+    });
+  } else {
+    if (choice === "local") console.warn("[llm] Local provider has no server URL - using OpenAI.");
+    live = createOpenAiLlmProvider("openai", { apiKey: process.env.OPENAI_API_KEY });
+  }
+  return !production && process.env.LLM_RECORD_FIXTURES === "1" ? withFixtureRecording(live) : live;
+}
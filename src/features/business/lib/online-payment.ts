@@ -0,0 +1,157 @@
+// src/features/business/lib/online-payment.ts
+/**
+ * @description Invoice side of online card payment: the per-invoice pay token
+ * behind the public /pay link, opening a checkout for it, and recording a
+ * provider-confirmed payment. Checkout charges the balance still due, so a
+ * part-paid invoice is settled by card for what's left - or, while a deposit
+ * asked for on quote acceptance is unpaid, just the deposit. Recording goes
+ * through recordInvoicePayment, the same claim-then-income-then-Drive path the
+ * bank import uses; a webhook redelivery finds its reference already in the
+ * ledger.
+ */
+
+import { recordInvoicePayment } from "@/features/business/lib/invoice-payment";
+import { invoiceBalanceDue } from "@/features/business/lib/invoice-status";
+import { getPaymentProvider, type PaymentEvent } from "@/features/business/lib/payment-provider";
+import { depositDue } from "@/features/business/lib/quote-acceptance";
+import { prisma } from "@/shared/lib/prisma";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import type { Invoice } from "@prisma/client";
+import { randomUUID } from "crypto";
+
+/** Income method stamped on card payments (an INCOME_METHODS value). */
+export const ONLINE_PAYMENT_METHOD = "Card";
+
+/** Why an invoice can't be paid online right now, or null when it can. */
+type PayableProblem = "paid" | "voided" | "quote" | "zero" | null;
+
+/**
+ * Whether an invoice can take an online payment.
+ * @param invoice - The invoice, narrowed to the fields checked.
+ * @returns Null when payable, else why not.
+ */
+export function payableProblem(
+  invoice: Pick<Invoice, "status" | "isQuote" | "total">,
+): PayableProblem {
+  if (invoice.status === "PAID") return "paid";
+  if (invoice.status === "VOIDED") return "voided";
+  if (invoice.isQuote) return "quote";
+  if (invoice.total <= 0) return "zero";
+  return null;
+}
+
+/**
+ * What a card checkout charges: the rest of the deposit while one is owed
+ * (an accepted quote that asked for one), else the balance.
+ * @param invoice - The invoice, narrowed to the fields read.
+ * @returns Amount in NZD, to the cent.
+ */
+export function cardAmountDue(
+  invoice: Pick<Invoice, "status" | "total" | "amountPaid" | "depositAmount">,
+): number {
+  return depositDue(invoice) || invoiceBalanceDue(invoice);
+}
+
+/**
+ * Returns the invoice with a pay token, creating one for rows issued before pay
+ * links existed (new rows get one on create). Never throws: a failed write just
+ * leaves this send without a pay link.
+ * @param invoice - The invoice row.
+ * @returns The same row, with payToken set when it could be.
+ */
+export async function ensureInvoicePayToken(invoice: Invoice): Promise<Invoice> {
+  if (invoice.payToken) return invoice;
+  try {
+    return await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { payToken: randomUUID() },
+    });
+  } catch (err) {
+    console.error(`[online-payment] Pay token write failed for ${invoice.number}:`, err);
+    return invoice;
+  }
+}
+
+/**
+ * Opens a provider checkout for the invoice behind a pay token.
+ * @param payToken - Invoice.payToken from the pay link.
+ * @returns The checkout URL, or an error message and HTTP status.
+ */
+export async function startInvoiceCheckout(
+  payToken: string,
+): Promise<{ ok: true; url: string } | { ok: false; error: string; status: number }> {
+  const provider = getPaymentProvider();
+  if (!provider) return { ok: false, error: "Online payment isn't available.", status: 503 };
+
+  const invoice = await prisma.invoice.findFirst({ where: { payToken } });
+  if (!invoice) return { ok: false, error: "Invoice not found.", status: 404 };
+  if (payableProblem(invoice)) {
+    return { ok: false, error: "This invoice can't be paid online.", status: 409 };
+  }
+
+  const back = `${getSiteUrl()}/pay?token=${encodeURIComponent(payToken)}`;
+  const session = await provider.createCheckoutSession({
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.number,
+    amount: cardAmountDue(invoice),
+    customerEmail: invoice.clientEmail || null,
+    successUrl: `${back}&status=success`,
+    cancelUrl: `${back}&status=cancelled`,
+  });
+  console.log(`[online-payment] ${provider.name} checkout ${session.id} for ${invoice.number}.`);
+  return { ok: true, url: session.url };
+}
+
+/**
+ * Records a provider-confirmed payment against the invoice's ledger with the
+ * provider's reference: the income entry, PAID once the balance is cleared, and
+ * the PDF re-synced to Drive. Idempotent - a redelivered event finds its
+ * reference already recorded and does nothing. A payment short of the balance
+ * is kept as a part payment and logged for the operator.
+ * @param event - Verified payment from the provider webhook.
+ * @returns What happened, for the webhook log.
+ */
+export async function recordOnlinePayment(
+  event: PaymentEvent,
+): Promise<"recorded" | "duplicate" | "short" | "not-payable" | "not-found"> {
+  const invoice = await prisma.invoice.findUnique({ where: { id: event.invoiceId } });
+  if (!invoice) {
+    console.error(`[online-payment] Paid session ${event.sessionId} names unknown invoice.`);
+    return "not-found";
+  }
+  // Rows paid before the ledger existed carry the reference on the invoice only.
+  const seen =
+    invoice.paymentReference === event.reference ||
+    invoice.payments.some((p) => p.reference === event.reference);
+  if (seen) return "duplicate";
+  if (invoice.status === "PAID" || invoice.status === "VOIDED") {
+    // Paid another way (or voided) while the checkout was open: the money still
+    // arrived, so it goes to the operator rather than disappearing.
+    console.error(
+      `[online-payment] ${invoice.number} is ${invoice.status} but ${event.reference} paid ${event.amount}; refund or reconcile by hand.`,
+    );
+    return "not-payable";
+  }
+
+  const { claimed, fullyPaid } = await recordInvoicePayment(
+    invoice,
+    {
+      paidAt: new Date(),
+      amount: event.amount,
+      method: ONLINE_PAYMENT_METHOD,
+      reference: event.reference,
+    },
+    "[online-payment]",
+  );
+  // Lost the claim to a concurrent write (a redelivery racing this one, or a
+  // bank import): the provider retries, and the reference check settles it.
+  if (!claimed) throw new Error(`Payment claim on ${invoice.number} lost a race; retry.`);
+  if (!fullyPaid) {
+    console.warn(
+      `[online-payment] ${invoice.number} part paid online: ${event.amount} (${event.reference}).`,
+    );
+    return "short";
+  }
+  console.log(`[online-payment] ${invoice.number} paid online (${event.reference}).`);
+  return "recorded";
+}
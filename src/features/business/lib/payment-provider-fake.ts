@@ -0,0 +1,127 @@
+// src/features/business/lib/payment-provider-fake.ts
+/**
+ * @description Local stand-in {@link PaymentProvider} for dev and tests. No card
+ * is taken: "checkout" sends the customer straight to the success URL, and a
+ * payment only lands when a webhook signed with the fake secret arrives -
+ * {@link buildFakeWebhook} produces one, so a script or test can drive the
+ * whole paid path (claim, income row, Drive) without a Stripe account.
+ * getPaymentProvider refuses this provider in production.
+ */
+
+import type {
+  CheckoutSession,
+  CheckoutSessionInput,
+  PaymentEvent,
+  PaymentProvider,
+  WebhookResult,
+} from "@/features/business/lib/payment-provider";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+/** Header the fake webhook signature travels in. */
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+/** Used when FAKE_PAYMENT_WEBHOOK_SECRET is unset; fine for a provider that never runs live. */
+const DEFAULT_FAKE_SECRET = "fake-payment-secret";
+
+/**
+ * HMAC of a webhook body under the fake secret.
+ * @param body - Raw body.
+ * @param secret - Signing secret.
+ * @returns Hex signature.
+ */
+function signFake(body: string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Builds a signed "paid" webhook for the fake provider, ready to POST to
+ * /api/pay/webhook.
+ * @param event - The payment to report.
+ * @param secret - FAKE_PAYMENT_WEBHOOK_SECRET, when one is set.
+ * @returns The body and the headers to send with it.
+ */
+export function buildFakeWebhook(
+  event: PaymentEvent,
+  secret: string = DEFAULT_FAKE_SECRET,
+): { body: string; headers: Record<string, string> } {
+  const body = JSON.stringify({ type: "payment.succeeded", ...event });
+  return {
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      [FAKE_SIGNATURE_HEADER]: signFake(body, secret),
+    },
+  };
+}
+
+/**
+ * Builds the fake provider.
+ * @param secret - FAKE_PAYMENT_WEBHOOK_SECRET, when one is set.
+ * @returns The provider.
+ */
+export function createFakePaymentProvider(secret: string = DEFAULT_FAKE_SECRET): PaymentProvider {
+  return {
+    name: "fake",
+
+    /**
+     * Skips the card step: "checkout" is the success URL with a fake session id.
+     * @param input - Checkout details.
+     * @returns The fake session.
+     */
+    createCheckoutSession(input: CheckoutSessionInput): Promise<CheckoutSession> {
+      const id = `fake_cs_${randomUUID()}`;
+      const url = new URL(input.successUrl);
+      url.searchParams.set("session", id);
+      return Promise.resolve({ id, url: url.toString() });
+    },
+
+    /**
+     * Verifies the fake HMAC and reads the {@link buildFakeWebhook} body.
+     * @param rawBody - Body exactly as received.
+     * @param headers - Request headers.
+     * @returns The parse outcome.
+     */
+    parseWebhook(rawBody: string, headers: Headers): Promise<WebhookResult> {
+      return Promise.resolve(parseFakeWebhook(rawBody, headers, secret));
+    },
+  };
+}
+
+/**
+ * Parses one fake webhook delivery.
+ * @param rawBody - Body exactly as received.
+ * @param headers - Request headers.
+ * @param secret - Signing secret.
+ * @returns The parse outcome.
+ */
+function parseFakeWebhook(rawBody: string, headers: Headers, secret: string): WebhookResult {
+  const given = Buffer.from(headers.get(FAKE_SIGNATURE_HEADER) ?? "", "hex");
+  const expected = Buffer.from(signFake(rawBody, secret), "hex");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { kind: "invalid", reason: "Signature mismatch." };
+  }
+  let body: Partial<PaymentEvent> & { type?: string };
+  try {
+    body = JSON.parse(rawBody) as typeof body;
+  } catch {
+    return { kind: "invalid", reason: "Body is not JSON." };
+  }
+  if (body.type !== "payment.succeeded") return { kind: "ignored" };
+  if (
+    typeof body.sessionId !== "string" ||
+    typeof body.invoiceId !== "string" ||
+    typeof body.amount !== "number" ||
+    typeof body.reference !== "string"
+  ) {
+    return { kind: "invalid", reason: "Missing payment fields." };
+  }
+  return {
+    kind: "paid",
+    event: {
+      sessionId: body.sessionId,
+      invoiceId: body.invoiceId,
+      amount: body.amount,
+      reference: body.reference,
+    },
+  };
+}
@@ -0,0 +1,170 @@
+// src/features/business/lib/payment-provider-stripe.ts
+/**
+ * @description Stripe Checkout behind the {@link PaymentProvider} interface,
+ * over Stripe's REST API with fetch (two calls don't justify the SDK). Sessions
+ * carry the invoice id as client_reference_id; the webhook acts only on
+ * `checkout.session.completed` once payment_status is "paid", after checking
+ * the Stripe-Signature HMAC and its timestamp.
+ */
+
+import type {
+  CheckoutSession,
+  CheckoutSessionInput,
+  PaymentProvider,
+  WebhookResult,
+} from "@/features/business/lib/payment-provider";
+import { createHmac, timingSafeEqual } from "crypto";
+
+const STRIPE_API = "https://api.stripe.com/v1";
+
+// Stripe's own default: reject deliveries signed more than 5 minutes ago so a
+// captured payload can't be replayed later.
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** The completed-session fields read from the webhook payload. */
+interface StripeSessionObject {
+  id: string;
+  payment_status?: string;
+  amount_total?: number | null;
+  client_reference_id?: string | null;
+  payment_intent?: string | null;
+}
+
+/**
+ * Checks a Stripe-Signature header (`t=...,v1=...`) against the raw body.
+ * @param rawBody - Body exactly as received.
+ * @param header - The Stripe-Signature header value.
+ * @param secret - The endpoint's whsec_ signing secret.
+ * @param nowSeconds - Current Unix time, seconds.
+ * @returns Null when valid, else the reason it isn't.
+ */
+function verifyStripeSignature(
+  rawBody: string,
+  header: string | null,
+  secret: string,
+  nowSeconds: number,
+): string | null {
+  if (!header) return "Missing Stripe-Signature header.";
+  const parts = header.split(",").map((p) => p.split("=", 2) as [string, string | undefined]);
+  const timestamp = Number(parts.find(([k]) => k === "t")?.[1]);
+  const signatures = parts.filter(([k, v]) => k === "v1" && v).map(([, v]) => v as string);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) return "Malformed signature header.";
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return "Signature timestamp outside tolerance.";
+  }
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest();
+  const match = signatures.some((sig) => {
+    const actual = Buffer.from(sig, "hex");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+  return match ? null : "Signature mismatch.";
+}
+
+/**
+ * Builds the Stripe provider.
+ * @param secretKey - STRIPE_SECRET_KEY.
+ * @param webhookSecret - STRIPE_WEBHOOK_SECRET (the endpoint's whsec_ value).
+ * @returns The provider.
+ */
+export function createStripePaymentProvider(
+  secretKey: string,
+  webhookSecret: string,
+): PaymentProvider {
+  return {
+    name: "stripe",
+
+    /**
+     * Opens a one-line NZD Checkout session for the invoice total.
+     * @param input - Checkout details.
+     * @returns The session id and hosted checkout URL.
+     */
+    async createCheckoutSession(input: CheckoutSessionInput): Promise<CheckoutSession> {
+      const form = new URLSearchParams({
+        mode: "payment",
+        success_url: input.successUrl,
+        cancel_url: input.cancelUrl,
+        client_reference_id: input.invoiceId,
+        "metadata[invoiceNumber]": input.invoiceNumber,
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": "nzd",
+        "line_items[0][price_data][unit_amount]": String(Math.round(input.amount * 100)),
+        "line_items[0][price_data][product_data][name]": `Invoice ${input.invoiceNumber}`,
+      });
+      if (input.customerEmail) form.set("customer_email", input.customerEmail);
+
+      const res = await fetch(`${STRIPE_API}/checkout/sessions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          // One session per invoice per minute: a double-submit reuses it.
+          "Idempotency-Key": `checkout-${input.invoiceId}-${Math.floor(Date.now() / 60_000)}`,
+        },
+        body: form.toString(),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        id?: string;
+        url?: string;
+        error?: { message?: string };
+      };
+      if (!res.ok || !data.id || !data.url) {
+        throw new Error(`Stripe checkout failed (${res.status}): ${data.error?.message ?? ""}`);
+      }
+      return { id: data.id, url: data.url };
+    },
+
+    /**
+     * Verifies the Stripe-Signature header and reads a completed session.
+     * @param rawBody - Body exactly as received.
+     * @param headers - Request headers.
+     * @returns The parse outcome.
+     */
+    parseWebhook(rawBody: string, headers: Headers): Promise<WebhookResult> {
+      return Promise.resolve(parseStripeWebhook(rawBody, headers, webhookSecret));
+    },
+  };
+}
+
+/**
+ * Parses one Stripe webhook delivery.
+ * @param rawBody - Body exactly as received.
+ * @param headers - Request headers.
+ * @param webhookSecret - The endpoint's whsec_ signing secret.
+ * @returns The parse outcome.
+ */
+function parseStripeWebhook(
+  rawBody: string,
+  headers: Headers,
+  webhookSecret: string,
+): WebhookResult {
+  const problem = verifyStripeSignature(
+    rawBody,
+    headers.get("stripe-signature"),
+    webhookSecret,
+    Math.floor(Date.now() / 1000),
+  );
+  if (problem) return { kind: "invalid", reason: problem };
+
+  let event: { type?: string; data?: { object?: StripeSessionObject } };
+  try {
+    event = JSON.parse(rawBody) as typeof event;
+  } catch {
+    return { kind: "invalid", reason: "Body is not JSON." };
+  }
+  const session = event.data?.object;
+  if (event.type !== "checkout.session.completed" || !session) return { kind: "ignored" };
+  // Delayed methods complete the session before the money lands; those
+  // arrive again as async_payment_succeeded, which this doesn't enable.
+  if (session.payment_status !== "paid" || !session.client_reference_id) {
+    return { kind: "ignored" };
+  }
+  return {
+    kind: "paid",
+    event: {
+      sessionId: session.id,
+      invoiceId: session.client_reference_id,
+      amount: (session.amount_total ?? 0) / 100,
+      reference: session.payment_intent ?? session.id,
+    },
+  };
+}
@@ -0,0 +1,105 @@
+// src/features/business/lib/payment-provider.ts
+/**
+ * @description Pluggable card-payment provider behind the public pay-invoice
+ * page. A provider opens a hosted checkout session for an invoice and turns its
+ * webhook calls into a verified "paid" event; everything invoice-side (claiming
+ * PAID, the income row, Drive) stays in online-payment.ts and never sees the
+ * provider. Chosen by PAYMENT_PROVIDER:
+ *
+ *   stripe - Stripe Checkout; needs STRIPE_SECRET_KEY + STRIPE_WEBHOOK_SECRET.
+ *   fake   - local stand-in for dev and tests (see payment-provider-fake.ts);
+ *            refused in production.
+ *
+ * Unset (or misconfigured) = online payment off: no pay links anywhere and the
+ * bank-transfer details stand alone, exactly as before.
+ */
+
+import { createFakePaymentProvider } from "@/features/business/lib/payment-provider-fake";
+import { createStripePaymentProvider } from "@/features/business/lib/payment-provider-stripe";
+import { getSiteUrl } from "@/shared/lib/site-url";
+
+/** What a provider needs to open checkout for one invoice. */
+export interface CheckoutSessionInput {
+  invoiceId: string;
+  invoiceNumber: string;
+  /** Amount to charge in NZD (GST-inclusive invoice total). */
+  amount: number;
+  customerEmail: string | null;
+  /** Where the provider sends the customer after paying. */
+  successUrl: string;
+  /** Where the provider sends the customer if they back out. */
+  cancelUrl: string;
+}
+
+/** A hosted checkout the customer is redirected to. */
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+/** A verified, completed payment reported by a provider webhook. */
+export interface PaymentEvent {
+  /** Provider session the payment came through. */
+  sessionId: string;
+  invoiceId: string;
+  /** Amount actually paid, NZD. */
+  amount: number;
+  /** Provider's payment id, stored as the invoice's paymentReference. */
+  reference: string;
+}
+
+/**
+ * Webhook parse outcome: `invalid` for a bad signature or body (reply 400 so the
+ * provider surfaces it), `ignored` for a genuine event this app doesn't act on.
+ */
+export type WebhookResult =
+  { kind: "invalid"; reason: string } | { kind: "ignored" } | { kind: "paid"; event: PaymentEvent };
+
+export interface PaymentProvider {
+  /** Short id, e.g. "stripe", for logs. */
+  name: string;
+  createCheckoutSession(input: CheckoutSessionInput): Promise<CheckoutSession>;
+  /**
+   * Verifies and parses one webhook delivery.
+   * @param rawBody - The request body exactly as received (signatures cover the bytes).
+   * @param headers - The request headers.
+   */
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookResult>;
+}
+
+/**
+ * The configured provider, or null when online payment is off.
+ * @returns A provider, or null.
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  const choice = process.env.PAYMENT_PROVIDER?.trim().toLowerCase();
+  if (choice === "stripe") {
+    const secretKey = process.env.STRIPE_SECRET_KEY?.trim();
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET?.trim();
+    if (!secretKey || !webhookSecret) {
+      console.warn("[payments] PAYMENT_PROVIDER=stripe but Stripe keys are missing - disabled.");
+      return null;
+    }
+    return createStripePaymentProvider(secretKey, webhookSecret);
+  }
+  if (choice === "fake") {
+    // Anyone holding the fake secret could mark invoices paid - never live.
+    if (process.env.NODE_ENV === "production") {
+      console.warn("[payments] The fake payment provider is refused in production.");
+      return null;
+    }
+    return createFakePaymentProvider(process.env.FAKE_PAYMENT_WEBHOOK_SECRET?.trim());
+  }
+  return null;
+}
+
+/**
+ * Public pay-this-invoice link, or null when online payment is off or the
+ * invoice has no token (rows from before pay links, until they're next sent).
+ * @param payToken - Invoice.payToken.
+ * @returns Absolute URL of the pay page, or null.
+ */
+export function invoicePayUrl(payToken: string | null | undefined): string | null {
+  if (!payToken || !getPaymentProvider()) return null;
+  return `${getSiteUrl()}/pay?token=${encodeURIComponent(payToken)}`;
+}
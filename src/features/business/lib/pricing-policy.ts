@@ -437,6 +437,23 @@ export function partsCopy(): string {
   );
 }
 
+/**
+ * Data-loss disclaimer (job authorisation). No settings input. Signed before
+ * any work that can destroy data - a drive wipe, a Windows reinstall - so it
+ * puts the backup on the customer's side in plain words.
+ * @returns Copy describing who is responsible for the customer's data.
+ */
+export function dataLossCopy(): string {
+  return (
+    `Some work - **wiping a drive, reinstalling Windows**, repairing a failing disk - ` +
+    `**can erase what is on the device**. I take care to keep your files safe, but ` +
+    `**keeping a backup is your responsibility**: tell me before I start if anything ` +
+    `on the device isn't backed up anywhere else.\n\n` +
+    `I am **not liable for data lost** during authorised work, or for data that was ` +
+    `already lost or unreadable before I started.`
+  );
+}
+
 /**
  * Travel-policy text. Caller passes the live Travel rate so the page always
  * quotes the figure the operator is actually billing.
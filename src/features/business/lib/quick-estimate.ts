@@ -186,6 +186,7 @@ export async function fetchQuickEstimate(input: QuickEstimateInput): Promise<Qui
         aiEstimatedMins: estimatedMins,
         aiExplanation: explanation,
         aiTasks: tasks,
+        aiConfidence: confidence,
         address: dest || null,
         travelMins,
         travelMinsBack,
@@ -0,0 +1,250 @@
+// src/features/business/lib/quote-acceptance.server.ts
+/**
+ * @description Writes behind the public quote page and the admin convert
+ * action. Each answer is a conditional write that only lands while the quote
+ * is still unanswered, so a double-submitted form or an accept racing a
+ * decline settles on whichever landed first. Acceptance converts the quote
+ * straight away; if conversion fails the signed acceptance still stands and
+ * the operator converts by hand.
+ */
+
+import { syncInvoicePdfToDriveById } from "@/features/business/lib/invoice-drive-sync";
+import {
+  getNextInvoiceNumber,
+  writeBackInvoiceCounter,
+} from "@/features/business/lib/invoice-numbering";
+import {
+  DECLINE_REASON_MAX_LENGTH,
+  quoteState,
+  SIGNATURE_MAX_LENGTH,
+  type QuoteState,
+} from "@/features/business/lib/quote-acceptance";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { Prisma, type Invoice } from "@prisma/client";
+import "server-only";
+
+/**
+ * Outcome of a quote write: the row as it now stands and the Q- number the
+ * customer answered (the row's number changes when acceptance converts it), or
+ * why not.
+ */
+export type QuoteWriteResult =
+  | { ok: true; invoice: Invoice; quoteNumber: string }
+  | { ok: false; error: string; status: number };
+
+/** Customer-facing reason an answer can't be taken, per state. */
+const STATE_ERRORS: Record<Exclude<QuoteState, "open">, string> = {
+  expired: "This quote has expired.",
+  accepted: "This quote has already been accepted.",
+  declined: "This quote has already been declined.",
+  voided: "This quote has been withdrawn.",
+  invoiced: "This quote has already been turned into an invoice.",
+};
+
+/**
+ * Where-fragment for a quote nobody has answered yet. Null-or-unset on each
+ * answer field, for the Mongo reason given on NOT_A_QUOTE_FILTER.
+ * @returns Fragments to spread into an AND.
+ */
+function unanswered(): Prisma.InvoiceWhereInput[] {
+  return [
+    { OR: [{ quoteAcceptedAt: null }, { quoteAcceptedAt: { isSet: false } }] },
+    { OR: [{ quoteDeclinedAt: null }, { quoteDeclinedAt: { isSet: false } }] },
+  ];
+}
+
+/**
+ * Loads the quote behind a public token and checks it can still be answered.
+ * @param payToken - Invoice.payToken from the quote link.
+ * @returns The open quote, or an error and HTTP status.
+ */
+async function loadOpenQuote(payToken: string): Promise<QuoteWriteResult> {
+  const invoice = await prisma.invoice.findFirst({ where: { payToken } });
+  if (!invoice) return { ok: false, error: "Quote not found.", status: 404 };
+  const state = quoteState(invoice);
+  if (state !== "open") return { ok: false, error: STATE_ERRORS[state], status: 409 };
+  return { ok: true, invoice, quoteNumber: invoice.number };
+}
+
+/**
+ * Promotes a quote to an invoice: allocates the next TTP number (quote counter
+ * untouched), clears the quote flag, restamps issue/due dates from today, and
+ * re-syncs the PDF to Drive under the new number. The row keeps its id, so
+ * links and history carry over.
+ * @param id - Invoice id.
+ * @param logPrefix - Log tag of the caller, e.g. "[invoices/convert]".
+ * @returns The converted invoice with its previous Q- number, or an error and HTTP status.
+ */
+export async function convertQuoteToInvoice(
+  id: string,
+  logPrefix: string,
+): Promise<
+  | { ok: true; invoice: Invoice; previousNumber: string; sheetSyncWarning: boolean }
+  | { ok: false; error: string; status: number }
+> {
+  let existing;
+  try {
+    existing = await prisma.invoice.findUnique({ where: { id } });
+  } catch {
+    // Malformed ObjectId throws P2023; treat as not found.
+    return { ok: false, error: "Invoice not found.", status: 404 };
+  }
+  if (!existing) return { ok: false, error: "Invoice not found.", status: 404 };
+  if (!existing.isQuote) return { ok: false, error: "This is already an invoice.", status: 409 };
+  if (existing.status === "VOIDED") {
+    return { ok: false, error: "A voided quote can't be converted.", status: 409 };
+  }
+
+  const previousNumber = existing.number;
+  const identity = await getIdentity();
+  const now = new Date();
+  const dueDate = new Date(now.getTime() + identity.paymentTermsDays * 24 * 60 * 60 * 1000);
+
+  // Allocate a real invoice number with the same collision-retry loop as
+  // creation; the quote counter is not touched.
+  let converted: Invoice | null = null;
+  let sheetNextCount: number | null = null;
+  let sheetSyncWarning = false;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const alloc = await getNextInvoiceNumber();
+    sheetNextCount = alloc.sheetNextCount;
+    sheetSyncWarning = alloc.sheetSyncWarning;
+    try {
+      converted = await prisma.invoice.update({
+        where: { id },
+        data: {
+          number: alloc.number,
+          isQuote: null,
+          quoteValidUntil: null,
+          // The customer's payment clock starts at conversion, not at the
+          // original quote date - restamp both dates from today.
+          issueDate: now,
+          dueDate,
+          // Back to DRAFT regardless of whether the quote was emailed: the
+          // operator reviews and sends the real invoice as its own step.
+          status: "DRAFT",
+          sentAt: null,
+        },
+      });
+      break;
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002" &&
+        attempt < 4
+      ) {
+        console.warn(`${logPrefix} Number ${alloc.number} collided; re-allocating.`);
+        continue;
+      }
+      throw err;
+    }
+  }
+  if (!converted) {
+    return { ok: false, error: "Could not allocate a unique invoice number", status: 500 };
+  }
+
+  await writeBackInvoiceCounter(sheetNextCount);
+  console.log(`${logPrefix} Quote ${previousNumber} converted to ${converted.number}.`);
+
+  // Re-render + re-upload the PDF under the new number (awaited; never throws).
+  await syncInvoicePdfToDriveById(id, logPrefix);
+
+  return { ok: true, invoice: converted, previousNumber, sheetSyncWarning };
+}
+
+/**
+ * Records the customer's signed acceptance, then converts the quote.
+ * @param payToken - Invoice.payToken from the quote link.
+ * @param signature - The typed name and where it was typed from.
+ * @param signature.name - Name typed as the signature.
+ * @param signature.ip - Client IP of the accepting request.
+ * @returns The invoice the quote became (or the accepted quote, if conversion failed).
+ */
+export async function acceptQuote(
+  payToken: string,
+  signature: { name: string; ip: string },
+): Promise<QuoteWriteResult> {
+  const name = signature.name.trim().replace(/\s+/g, " ");
+  if (name.length < 2 || name.length > SIGNATURE_MAX_LENGTH) {
+    return { ok: false, error: "Type your full name to sign.", status: 400 };
+  }
+  const loaded = await loadOpenQuote(payToken);
+  if (!loaded.ok) return loaded;
+
+  const { count } = await prisma.invoice.updateMany({
+    where: { id: loaded.invoice.id, isQuote: true, AND: unanswered() },
+    data: { quoteAcceptedAt: new Date(), quoteAcceptedName: name, quoteAcceptedIp: signature.ip },
+  });
+  if (count === 0) {
+    return { ok: false, error: "This quote has already been answered.", status: 409 };
+  }
+  console.log(`[quote] ${loaded.invoice.number} accepted online by ${name}.`);
+
+  const converted = await convertQuoteToInvoice(loaded.invoice.id, "[quote/accept]").catch(
+    (err: unknown) => {
+      console.error(`[quote] ${loaded.invoice.number} accepted but conversion threw:`, err);
+      return null;
+    },
+  );
+  const quoteNumber = loaded.quoteNumber;
+  if (converted?.ok) return { ok: true, invoice: converted.invoice, quoteNumber };
+  if (converted) {
+    console.error(
+      `[quote] ${loaded.invoice.number} accepted but not converted: ${converted.error}`,
+    );
+  }
+  const accepted = await prisma.invoice.findUnique({ where: { id: loaded.invoice.id } });
+  return accepted
+    ? { ok: true, invoice: accepted, quoteNumber }
+    : { ok: false, error: "Quote not found.", status: 404 };
+}
+
+/**
+ * Records the customer turning a quote down.
+ * @param payToken - Invoice.payToken from the quote link.
+ * @param reason - Optional free-text reason.
+ * @returns The declined quote, or why it couldn't be declined.
+ */
+export async function declineQuote(payToken: string, reason: string): Promise<QuoteWriteResult> {
+  const loaded = await loadOpenQuote(payToken);
+  if (!loaded.ok) return loaded;
+
+  const trimmed = reason.trim().slice(0, DECLINE_REASON_MAX_LENGTH);
+  const { count } = await prisma.invoice.updateMany({
+    where: { id: loaded.invoice.id, isQuote: true, AND: unanswered() },
+    data: { quoteDeclinedAt: new Date(), quoteDeclineReason: trimmed || null },
+  });
+  if (count === 0) {
+    return { ok: false, error: "This quote has already been answered.", status: 409 };
+  }
+  console.log(`[quote] ${loaded.invoice.number} declined online.`);
+  const declined = await prisma.invoice.findUnique({ where: { id: loaded.invoice.id } });
+  return declined
+    ? { ok: true, invoice: declined, quoteNumber: loaded.quoteNumber }
+    : { ok: false, error: "Quote not found.", status: 404 };
+}
+
+/**
+ * Records that the customer of an expired quote wants a fresh one.
+ * @param payToken - Invoice.payToken from the quote link.
+ * @returns The quote and whether this is the first ask (so the operator is told once).
+ */
+export async function requestFreshQuote(
+  payToken: string,
+): Promise<
+  { ok: true; invoice: Invoice; firstAsk: boolean } | { ok: false; error: string; status: number }
+> {
+  const invoice = await prisma.invoice.findFirst({ where: { payToken } });
+  if (!invoice) return { ok: false, error: "Quote not found.", status: 404 };
+  if (quoteState(invoice) !== "expired") {
+    return { ok: false, error: "Only an expired quote can be renewed.", status: 409 };
+  }
+  if (invoice.quoteRefreshRequestedAt) return { ok: true, invoice, firstAsk: false };
+  const updated = await prisma.invoice.update({
+    where: { id: invoice.id },
+    data: { quoteRefreshRequestedAt: new Date() },
+  });
+  console.log(`[quote] Fresh quote requested for expired ${invoice.number}.`);
+  return { ok: true, invoice: updated, firstAsk: true };
+}
@@ -0,0 +1,86 @@
+// src/features/business/lib/quote-acceptance.ts
+/**
+ * @description Customer side of a quote: the public /quote link (keyed on the
+ * same token as the /pay link, so one link follows the row from quote to paid
+ * invoice), where the customer stands with it, and what's left of any deposit.
+ * Pure - the PDF, the emails and the public page all read it. The writes live
+ * in quote-acceptance.server.ts.
+ */
+
+import { deriveInvoiceDisplayStatus } from "@/features/business/lib/invoice-status";
+import type { InvoiceStatus } from "@/features/business/types/business";
+import { getSiteUrl } from "@/shared/lib/site-url";
+
+/** Longest typed-name signature kept. */
+export const SIGNATURE_MAX_LENGTH = 100;
+/** Longest decline reason kept. */
+export const DECLINE_REASON_MAX_LENGTH = 500;
+
+/**
+ * Where the customer stands with a quote:
+ *   open     - awaiting an answer;
+ *   expired  - past its validity date, unanswered;
+ *   accepted - signed online (the row is then usually an invoice);
+ *   declined - turned down online;
+ *   voided   - withdrawn by the operator;
+ *   invoiced - converted by the operator without an online answer.
+ */
+export type QuoteState = "open" | "expired" | "accepted" | "declined" | "voided" | "invoiced";
+
+/** The invoice fields {@link quoteState} reads. */
+export interface QuoteStateInput {
+  status: InvoiceStatus;
+  dueDate: string | Date;
+  isQuote?: boolean | null;
+  quoteValidUntil?: string | Date | null;
+  quoteAcceptedAt?: string | Date | null;
+  quoteDeclinedAt?: string | Date | null;
+}
+
+/**
+ * Public accept-or-decline link for a quote.
+ * @param payToken - Invoice.payToken.
+ * @returns Absolute URL of the quote page, or null when the row has no token.
+ */
+export function quotePageUrl(payToken: string | null | undefined): string | null {
+  if (!payToken) return null;
+  return `${getSiteUrl()}/quote?token=${encodeURIComponent(payToken)}`;
+}
+
+/**
+ * Where the customer stands with a quote. Voided wins over everything, then an
+ * online answer; expiry reuses the admin list's EXPIRED rule.
+ * @param invoice - Quote (or the invoice it became).
+ * @param now - Reference instant (defaults to the current time).
+ * @returns The quote's state.
+ */
+export function quoteState(invoice: QuoteStateInput, now: Date = new Date()): QuoteState {
+  if (invoice.status === "VOIDED") return "voided";
+  if (invoice.quoteAcceptedAt) return "accepted";
+  if (!invoice.isQuote) return "invoiced";
+  if (invoice.quoteDeclinedAt) return "declined";
+  return deriveInvoiceDisplayStatus(invoice, now) === "EXPIRED" ? "expired" : "open";
+}
+
+/**
+ * What's still owed towards the deposit: the deposit (capped at the total)
+ * less payments so far. Paid and voided rows owe none.
+ * @param invoice - Deposit, total, status and payments so far.
+ * @param invoice.depositAmount - Deposit asked for; null = none.
+ * @param invoice.total - Invoice total.
+ * @param invoice.status - Stored status.
+ * @param invoice.amountPaid - Payments received so far; null reads as 0.
+ * @returns Deposit outstanding in NZD, to the cent; 0 when none.
+ */
+export function depositDue(invoice: {
+  depositAmount?: number | null;
+  total: number;
+  status: InvoiceStatus;
+  amountPaid?: number | null;
+}): number {
+  if (!invoice.depositAmount || invoice.status === "PAID" || invoice.status === "VOIDED") {
+    return 0;
+  }
+  const deposit = Math.min(invoice.depositAmount, invoice.total);
+  return Math.max(0, Math.round((deposit - (invoice.amountPaid ?? 0)) * 100) / 100);
+}
@@ -0,0 +1,323 @@
+// src/features/business/lib/retainer-billing.ts
+/**
+ * @description Monthly retainer billing. For each retainer contact, closes the
+ * NZ month just ended: settles the hours worked against the allowance (plus any
+ * carry-in), records the result as a RetainerPeriod, and raises one invoice with
+ * the retainer fee and any overage. The period row is written first and its
+ * unique (contact, month) key is the claim, so a re-run or a concurrent run
+ * never bills a month twice. Run by /api/cron/bill-retainers.
+ */
+
+import { billableMins, calcInvoiceTotals } from "@/features/business/lib/business";
+import { syncInvoicePdfToDrive } from "@/features/business/lib/invoice-drive-sync";
+import {
+  getNextInvoiceNumber,
+  writeBackInvoiceCounter,
+} from "@/features/business/lib/invoice-numbering";
+import { generateInvoicePdf, serializeInvoice } from "@/features/business/lib/invoice-pdf";
+import { getPolicy, getPublicPricing } from "@/features/business/lib/pricing-policy.server";
+import { issueInvoiceStock } from "@/features/business/lib/stock-recording";
+import type { LineItem } from "@/features/business/types/business";
+import { loadContact360 } from "@/features/contacts/lib/contact-360";
+import {
+  formatMonthKey,
+  monthHours,
+  nzMonthKey,
+  settleMonth,
+  shiftMonthKey,
+} from "@/features/contacts/lib/retainer-usage";
+import { sendInvoiceEmail } from "@/features/reviews/lib/email";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { Prisma, type Invoice, type RetainerPeriod } from "@prisma/client";
+
+/** Outcome of closing one contact's month. */
+type RetainerMonthOutcome = "billed" | "no-charge" | "skipped";
+
+/** Per-run tallies returned to the cron. */
+export interface RetainerBillingRun {
+  /** "YYYY-MM" that was closed. */
+  monthKey: string;
+  /** Invoice numbers raised. */
+  billed: string[];
+  /** Contacts whose month closed with nothing to charge. */
+  noCharge: string[];
+  /** Contacts already billed for the month, or whose retainer started later. */
+  skipped: string[];
+  errors: string[];
+}
+
+/**
+ * Formats hours for invoice copy: whole hours plain, otherwise up to two decimals.
+ * @param hours - Hours.
+ * @returns e.g. "4", "1.5".
+ */
+function hoursText(hours: number): string {
+  return String(Math.round(hours * 100) / 100);
+}
+
+/**
+ * Closes one contact's retainer month: works out the hours, writes the period,
+ * and raises the invoice (sent straight away when the settings say so).
+ * Re-running for a month already closed is a no-op. An invoice failure removes
+ * the period claim before rethrowing so the next run retries the month.
+ * @param contactId - The retainer contact.
+ * @param monthKey - Closed NZ month, "YYYY-MM".
+ * @param now - Current instant; the invoice issue date.
+ * @returns Whether an invoice was raised, the month closed with no charge, or it was skipped.
+ */
+export async function billRetainerMonth(
+  contactId: string,
+  monthKey: string,
+  now: Date,
+): Promise<{ outcome: RetainerMonthOutcome; invoiceNumber: string | null }> {
+  const skipped = { outcome: "skipped" as const, invoiceNumber: null };
+  const data = await loadContact360(contactId, now);
+  if (!data?.retainer) return skipped;
+  const { contact, bookings, invoices, retainer } = data;
+  // A retainer that started after this month has nothing to close yet.
+  if (contact.retainerSince && nzMonthKey(contact.retainerSince) > monthKey) return skipped;
+  if (retainer.periods.some((p) => p.monthKey === monthKey)) return skipped;
+
+  const [{ pricing }, { GST_REGISTERED, BILLING_INCREMENT_MINS }, { baseRate }] = await Promise.all(
+    [getSettings(), getPolicy(), getPublicPricing()],
+  );
+
+  const retainerInvoiceIds = new Set(
+    retainer.periods.flatMap((p) => (p.invoiceId ? [p.invoiceId] : [])),
+  );
+  const { usedHours } = monthHours(bookings, invoices, monthKey, now, retainerInvoiceIds);
+  const includedHours = contact.retainerHours ?? 0;
+  const carriedInHours =
+    retainer.periods.find((p) => p.monthKey === shiftMonthKey(monthKey, -1))?.carriedOutHours ?? 0;
+  const settlement = settleMonth({
+    includedHours,
+    carriedInHours,
+    usedHours,
+    carryUnused: pricing.retainer.carryUnusedHours,
+  });
+  const price = contact.retainerPrice ?? 0;
+  const overageRate = contact.retainerOverageRate ?? baseRate;
+
+  let period: RetainerPeriod;
+  try {
+    period = await prisma.retainerPeriod.create({
+      data: {
+        contactId,
+        monthKey,
+        includedHours,
+        carriedInHours,
+        usedHours,
+        ...settlement,
+        price,
+        overageRate,
+      },
+    });
+  } catch (err) {
+    // Lost the claim to a concurrent run - that run bills the month.
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return skipped;
+    }
+    throw err;
+  }
+
+  const label = formatMonthKey(monthKey);
+  const lineItems: LineItem[] = [];
+  if (price > 0) {
+    lineItems.push({
+      description: `Retainer - ${contact.retainerTier} (${label})`,
+      qty: 1,
+      unitPrice: price,
+      lineTotal: price,
+    });
+  }
+  const overageMinutes = billableMins(settlement.overageHours * 60, BILLING_INCREMENT_MINS);
+  if (overageMinutes > 0) {
+    const qty = overageMinutes / 60;
+    lineItems.push({
+      description: `Support beyond retainer hours (${label})`,
+      qty,
+      unitPrice: overageRate,
+      lineTotal: Math.round(qty * overageRate * 100) / 100,
+      minutes: overageMinutes,
+    });
+  }
+  if (lineItems.length === 0) {
+    console.log(`[retainer-billing] ${contactId} ${monthKey}: nothing to charge.`);
+    return { outcome: "no-charge", invoiceNumber: null };
+  }
+
+  let invoice: Invoice;
+  try {
+    const { number, sheetNextCount } = await getNextInvoiceNumber();
+    const { subtotal, gstAmount, total } = calcInvoiceTotals(lineItems, 0, GST_REGISTERED);
+    invoice = await prisma.invoice.create({
+      data: {
+        number,
+        clientName: contact.name,
+        clientEmail: contact.email ?? "",
+        issueDate: now,
+        dueDate: new Date(
+          now.getTime() + (await getIdentity()).paymentTermsDays * 24 * 60 * 60 * 1000,
+        ),
+        lineItems,
+        gst: gstAmount > 0,
+        subtotal,
+        gstAmount,
+        total,
+        status: "DRAFT",
+        notes: balanceNotes(label, {
+          includedHours,
+          carriedInHours,
+          usedHours,
+          ...settlement,
+        }),
+        contactId,
+      },
+    });
+    await writeBackInvoiceCounter(sheetNextCount);
+  } catch (err) {
+    // No invoice yet: release the claim so tomorrow's run tries the month again.
+    await prisma.retainerPeriod.delete({ where: { id: period.id } }).catch(() => undefined);
+    throw err;
+  }
+  await prisma.retainerPeriod.update({
+    where: { id: period.id },
+    data: { invoiceId: invoice.id },
+  });
+  console.log(`[retainer-billing] Raised ${invoice.number} for ${contactId} ${monthKey}.`);
+
+  if (pricing.retainer.autoSendInvoice) {
+    await sendRetainerInvoice(invoice, label);
+  }
+  return { outcome: "billed", invoiceNumber: invoice.number };
+}
+
+/**
+ * Customer-facing notes summarising the month's hours, printed on the invoice.
+ * @param label - Month label, e.g. "Oct 2026".
+ * @param hours - The month's figures.
+ * @param hours.includedHours - Monthly allowance.
+ * @param hours.carriedInHours - Carried in from the month before.
+ * @param hours.usedHours - Hours worked.
+ * @param hours.overageHours - Hours past what was available.
+ * @param hours.carriedOutHours - Carried into next month.
+ * @param hours.forfeitedHours - Lapsed unused.
+ * @returns The notes text.
+ */
+function balanceNotes(
+  label: string,
+  hours: {
+    includedHours: number;
+    carriedInHours: number;
+    usedHours: number;
+    overageHours: number;
+    carriedOutHours: number;
+    forfeitedHours: number;
+  },
+): string {
+  const available = hours.includedHours + hours.carriedInHours;
+  const parts = [
+    `${label} support: ${hoursText(hours.usedHours)}h used of ${hoursText(available)}h available` +
+      (hours.carriedInHours > 0
+        ? ` (incl. ${hoursText(hours.carriedInHours)}h carried over)`
+        : "") +
+      ".",
+  ];
+  if (hours.overageHours > 0) {
+    parts.push(`${hoursText(hours.overageHours)}h beyond the allowance is billed below.`);
+  }
+  if (hours.carriedOutHours > 0) {
+    parts.push(`${hoursText(hours.carriedOutHours)}h unused carries into next month.`);
+  }
+  if (hours.forfeitedHours > 0) {
+    parts.push(`${hoursText(hours.forfeitedHours)}h unused has lapsed.`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Emails a retainer invoice and flips it to SENT. Mirrors the operator send path
+ * (PDF > email > status > Drive sync) without the review-link ask. Swallows all
+ * errors: the invoice stands as a draft for the operator to send by hand.
+ * @param invoice - The DRAFT retainer invoice just created.
+ * @param label - Month label for the email body.
+ */
+async function sendRetainerInvoice(invoice: Invoice, label: string): Promise<void> {
+  if (!invoice.clientEmail) {
+    console.warn(`[retainer-billing] No client email on ${invoice.number}; left as draft.`);
+    return;
+  }
+
+  try {
+    const pdfBytes = await generateInvoicePdf(serializeInvoice(invoice));
+    const ok = await sendInvoiceEmail({
+      invoice: {
+        id: invoice.id,
+        contactId: invoice.contactId,
+        number: invoice.number,
+        clientName: invoice.clientName,
+        clientEmail: invoice.clientEmail,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        total: invoice.total,
+        driveWebUrl: invoice.driveWebUrl,
+        status: invoice.status,
+        payToken: invoice.payToken,
+      },
+      pdfBytes,
+      reviewUrl: null,
+      customBody: `Here's your retainer invoice for ${label}. The attached PDF shows the hours used this month and your balance.`,
+    });
+    if (!ok) {
+      console.warn(`[retainer-billing] Email send failed for ${invoice.number}; left as draft.`);
+      return;
+    }
+
+    const sentAt = new Date();
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { status: "SENT", sentAt },
+    });
+    console.log(`[retainer-billing] Auto-sent ${invoice.number}.`);
+    await issueInvoiceStock(invoice.id).catch((err) =>
+      console.error(`[retainer-billing] Stock issue failed for ${invoice.number}:`, err),
+    );
+
+    await syncInvoicePdfToDrive(invoice, pdfBytes, "[retainer-billing]");
+  } catch (err) {
+    console.error(`[retainer-billing] Auto-send failed for ${invoice.number}:`, err);
+  }
+}
+
+/**
+ * Closes the NZ month before `now` for every retainer contact. Safe to run
+ * daily: contacts already billed for that month are skipped, so later runs only
+ * pick up a contact whose earlier attempt failed.
+ * @param now - Current instant.
+ * @returns Invoices raised, no-charge closes, skips, and per-contact errors.
+ */
+export async function billRetainers(now: Date = new Date()): Promise<RetainerBillingRun> {
+  const monthKey = shiftMonthKey(nzMonthKey(now), -1);
+  const run: RetainerBillingRun = { monthKey, billed: [], noCharge: [], skipped: [], errors: [] };
+
+  // isSet guards rows created before the retainer fields existed.
+  const contacts = await prisma.contact.findMany({
+    where: { deletedAt: null, retainerTier: { isSet: true, not: null } },
+    select: { id: true, name: true },
+  });
+
+  for (const c of contacts) {
+    try {
+      const { outcome, invoiceNumber } = await billRetainerMonth(c.id, monthKey, now);
+      if (outcome === "billed" && invoiceNumber) run.billed.push(invoiceNumber);
+      else if (outcome === "no-charge") run.noCharge.push(c.id);
+      else run.skipped.push(c.id);
+    } catch (err) {
+      console.error(`[retainer-billing] Failed for ${c.id}:`, err);
+      run.errors.push(`${c.name}: ${String(err)}`);
+    }
+  }
+  return run;
+}
@@ -0,0 +1,289 @@
+// src/features/business/lib/statement-pdf.ts
+/**
+ * @description Customer statement of account as an A4 PDF: business and
+ * client details, the dated movements with a running balance, then the
+ * invoices still owing and how to pay. Plain pdf-lib text in the invoice PDF's
+ * palette; pages are added as the movement list runs on.
+ */
+import { formatNZD } from "@/features/business/lib/business";
+import type { Statement } from "@/features/business/lib/statement";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { formatDateShort } from "@/shared/lib/date-format";
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "pdf-lib";
+
+// Same palette as invoice-pdf.ts.
+const BRAND = rgb(12 / 255, 10 / 255, 62 / 255); // russian-violet #0c0a3e
+const DARK = rgb(30 / 255, 41 / 255, 59 / 255); // slate-800 #1e293b
+const MID = rgb(100 / 255, 116 / 255, 139 / 255); // slate-500 #64748b
+const LIGHT = rgb(203 / 255, 213 / 255, 225 / 255); // slate-300 #cbd5e1
+const OVERDUE_COLOR = rgb(0.78, 0.16, 0.16);
+
+const MARGIN = 42;
+const PAGE_W = 595.28;
+const PAGE_H = 841.89;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const ROW_H = 15;
+
+// Movement table columns: date, reference, description, then three
+// right-aligned money columns ending at these x positions.
+const REF_X = MARGIN + 66;
+const DESC_X = MARGIN + 140;
+const DEBIT_RIGHT = MARGIN + CONTENT_W - 150;
+const CREDIT_RIGHT = MARGIN + CONTENT_W - 75;
+const BALANCE_RIGHT = MARGIN + CONTENT_W;
+
+/** Drawing state threaded through the sections; `page` changes on overflow. */
+interface StatementPdfCtx {
+  doc: PDFDocument;
+  page: PDFPage;
+  font: PDFFont;
+  bold: PDFFont;
+  y: number;
+}
+
+/**
+ * Replaces characters the standard (WinAnsi) fonts can't encode, so a stray
+ * emoji in a client name can't fail the whole render.
+ * @param text - Source text.
+ * @returns Encodable text.
+ */
+function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+/**
+ * Cuts text to a width, adding an ellipsis when it had to shorten it.
+ * @param text - Source text.
+ * @param maxW - Maximum width in PDF points.
+ * @param size - Font size.
+ * @param font - Font used to measure.
+ * @returns Text that fits.
+ */
+function fit(text: string, maxW: number, size: number, font: PDFFont): string {
+  let out = pdfSafe(text);
+  if (font.widthOfTextAtSize(out, size) <= maxW) return out;
+  while (out.length > 1 && font.widthOfTextAtSize(`${out}...`, size) > maxW) {
+    out = out.slice(0, -1);
+  }
+  return `${out}...`;
+}
+
+/**
+ * Starts a new page when fewer than `needed` points remain above the margin.
+ * @param ctx - PDF drawing context.
+ * @param needed - Height the next block needs.
+ */
+function ensureSpace(ctx: StatementPdfCtx, needed: number): void {
+  if (ctx.y - needed >= MARGIN) return;
+  ctx.page = ctx.doc.addPage([PAGE_W, PAGE_H]);
+  ctx.y = PAGE_H - MARGIN;
+}
+
+/**
+ * Draws text at the current row.
+ * @param ctx - PDF drawing context.
+ * @param text - Text to draw.
+ * @param x - Left edge x.
+ * @param size - Font size.
+ * @param font - Font.
+ * @param color - Text colour (defaults to DARK).
+ */
+function drawAt(
+  ctx: StatementPdfCtx,
+  text: string,
+  x: number,
+  size: number,
+  font: PDFFont,
+  color = DARK,
+): void {
+  ctx.page.drawText(text, { x, y: ctx.y, size, font, color });
+}
+
+/**
+ * Draws right-aligned text ending at `right`.
+ * @param ctx - PDF drawing context.
+ * @param text - Text to draw.
+ * @param right - Right edge x.
+ * @param size - Font size.
+ * @param font - Font.
+ * @param color - Text colour (defaults to DARK).
+ */
+function drawRight(
+  ctx: StatementPdfCtx,
+  text: string,
+  right: number,
+  size: number,
+  font: PDFFont,
+  color = DARK,
+): void {
+  drawAt(ctx, text, right - font.widthOfTextAtSize(text, size), size, font, color);
+}
+
+/**
+ * Draws a thin full-width rule just above the current row.
+ * @param ctx - PDF drawing context.
+ */
+function drawRule(ctx: StatementPdfCtx): void {
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: ctx.y + 10 },
+    end: { x: MARGIN + CONTENT_W, y: ctx.y + 10 },
+    thickness: 0.5,
+    color: LIGHT,
+  });
+}
+
+/**
+ * Draws the dated movements with their running balance, bracketed by the
+ * opening and closing balance rows.
+ * @param ctx - PDF drawing context.
+ * @param statement - The statement.
+ */
+function drawMovements(ctx: StatementPdfCtx, statement: Statement): void {
+  drawAt(ctx, "Date", MARGIN, 9, ctx.bold, MID);
+  drawAt(ctx, "Reference", REF_X, 9, ctx.bold, MID);
+  drawAt(ctx, "Details", DESC_X, 9, ctx.bold, MID);
+  drawRight(ctx, "Charges", DEBIT_RIGHT, 9, ctx.bold, MID);
+  drawRight(ctx, "Payments", CREDIT_RIGHT, 9, ctx.bold, MID);
+  drawRight(ctx, "Balance", BALANCE_RIGHT, 9, ctx.bold, MID);
+  ctx.y -= ROW_H;
+  drawRule(ctx);
+
+  drawAt(ctx, formatDateShort(`${statement.fromKey}T12:00:00Z`), MARGIN, 9, ctx.font);
+  drawAt(ctx, "Opening balance", DESC_X, 9, ctx.bold);
+  drawRight(ctx, formatNZD(statement.openingBalance), BALANCE_RIGHT, 9, ctx.bold);
+  ctx.y -= ROW_H;
+
+  for (const line of statement.lines) {
+    ensureSpace(ctx, ROW_H);
+    drawAt(ctx, formatDateShort(`${line.dateKey}T12:00:00Z`), MARGIN, 9, ctx.font);
+    drawAt(ctx, fit(line.reference, DESC_X - REF_X - 6, 9, ctx.font), REF_X, 9, ctx.font);
+    drawAt(ctx, fit(line.description, DEBIT_RIGHT - DESC_X - 60, 9, ctx.font), DESC_X, 9, ctx.font);
+    if (line.debit) drawRight(ctx, formatNZD(line.debit), DEBIT_RIGHT, 9, ctx.font);
+    if (line.credit) drawRight(ctx, formatNZD(line.credit), CREDIT_RIGHT, 9, ctx.font);
+    drawRight(ctx, formatNZD(line.balance), BALANCE_RIGHT, 9, ctx.font);
+    ctx.y -= ROW_H - 2;
+  }
+
+  ensureSpace(ctx, ROW_H * 2);
+  ctx.y -= 2;
+  drawRule(ctx);
+  drawAt(ctx, formatDateShort(`${statement.toKey}T12:00:00Z`), MARGIN, 10, ctx.font);
+  drawAt(ctx, "Closing balance", DESC_X, 10, ctx.bold, BRAND);
+  drawRight(ctx, formatNZD(statement.closingBalance), BALANCE_RIGHT, 10, ctx.bold, BRAND);
+  ctx.y -= ROW_H;
+}
+
+/**
+ * Draws the invoices still owing, flagging the overdue ones.
+ * @param ctx - PDF drawing context.
+ * @param statement - The statement.
+ */
+function drawOpenInvoices(ctx: StatementPdfCtx, statement: Statement): void {
+  ensureSpace(ctx, ROW_H * 4);
+  ctx.y -= 14;
+  drawAt(ctx, "Invoices still owing", MARGIN, 12, ctx.bold, BRAND);
+  ctx.y -= ROW_H + 2;
+  if (statement.openInvoices.length === 0) {
+    drawAt(ctx, "Nothing owing - thank you.", MARGIN, 9, ctx.font, MID);
+    ctx.y -= ROW_H;
+    return;
+  }
+  for (const inv of statement.openInvoices) {
+    ensureSpace(ctx, ROW_H);
+    drawAt(ctx, inv.number, MARGIN, 9, ctx.font);
+    drawAt(
+      ctx,
+      `Issued ${formatDateShort(`${inv.issueDateKey}T12:00:00Z`)}, due ${formatDateShort(`${inv.dueDateKey}T12:00:00Z`)}`,
+      REF_X + 20,
+      9,
+      ctx.font,
+    );
+    if (inv.overdue) drawAt(ctx, "OVERDUE", DEBIT_RIGHT - 40, 9, ctx.bold, OVERDUE_COLOR);
+    drawRight(ctx, formatNZD(inv.total), CREDIT_RIGHT, 9, ctx.font, MID);
+    drawRight(ctx, formatNZD(inv.balance), BALANCE_RIGHT, 9, ctx.font);
+    ctx.y -= ROW_H - 2;
+  }
+  if (statement.overdueTotal > 0) {
+    ensureSpace(ctx, ROW_H);
+    ctx.y -= 2;
+    drawRule(ctx);
+    drawAt(ctx, "Overdue now", DESC_X, 9, ctx.bold, OVERDUE_COLOR);
+    drawRight(ctx, formatNZD(statement.overdueTotal), BALANCE_RIGHT, 9, ctx.bold, OVERDUE_COLOR);
+    ctx.y -= ROW_H;
+  }
+}
+
+/**
+ * Renders a customer statement of account.
+ * @param statement - The statement to render.
+ * @returns PDF content as a Buffer.
+ */
+export async function generateStatementPdf(statement: Statement): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const ctx: StatementPdfCtx = {
+    doc,
+    page: doc.addPage([PAGE_W, PAGE_H]),
+    font: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    y: PAGE_H - MARGIN - 14,
+  };
+  const identity = await getIdentity();
+
+  drawAt(ctx, "STATEMENT OF ACCOUNT", MARGIN, 16, ctx.bold, BRAND);
+  drawRight(ctx, pdfSafe(identity.company || identity.name), BALANCE_RIGHT, 11, ctx.bold, BRAND);
+  ctx.y -= 22;
+  const from = [
+    identity.email,
+    identity.phone,
+    identity.gstNumber ? `GST# ${identity.gstNumber}` : "",
+  ].filter(Boolean);
+  const to = [
+    statement.contact.name,
+    statement.contact.address ?? "",
+    statement.contact.email ?? "",
+  ]
+    .filter(Boolean)
+    .map(pdfSafe);
+  drawAt(ctx, "TO", MARGIN, 8, ctx.bold, MID);
+  ctx.y -= ROW_H - 2;
+  const top = ctx.y;
+  for (const text of to) {
+    drawAt(ctx, fit(text, CONTENT_W / 2, 10, ctx.font), MARGIN, 10, ctx.font);
+    ctx.y -= ROW_H - 1;
+  }
+  const bottom = ctx.y;
+  ctx.y = top;
+  for (const text of from) {
+    drawRight(ctx, pdfSafe(text), BALANCE_RIGHT, 9, ctx.font, MID);
+    ctx.y -= ROW_H - 2;
+  }
+  ctx.y = Math.min(bottom, ctx.y) - 6;
+  drawAt(
+    ctx,
+    `Period: ${formatDateShort(`${statement.fromKey}T12:00:00Z`)} - ${formatDateShort(`${statement.toKey}T12:00:00Z`)}`,
+    MARGIN,
+    10,
+    ctx.font,
+    MID,
+  );
+  ctx.y -= ROW_H + 10;
+
+  drawMovements(ctx, statement);
+  drawOpenInvoices(ctx, statement);
+
+  const owing = statement.openInvoices.reduce((s, i) => s + i.balance, 0);
+  if (owing > 0) {
+    ensureSpace(ctx, ROW_H * 4);
+    ctx.y -= 14;
+    drawAt(ctx, "Bank transfer", MARGIN, 11, ctx.bold, BRAND);
+    ctx.y -= ROW_H;
+    drawAt(ctx, pdfSafe(`Payee: ${identity.name}`), MARGIN, 9, ctx.font);
+    ctx.y -= ROW_H - 2;
+    drawAt(ctx, `Account: ${identity.bankAccount}`, MARGIN, 9, ctx.bold);
+    ctx.y -= ROW_H - 2;
+    drawAt(ctx, "Please use the invoice number as the reference.", MARGIN, 9, ctx.font, MID);
+  }
+
+  const bytes = await doc.save();
+  return Buffer.from(bytes);
+}
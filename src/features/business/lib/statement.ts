@@ -0,0 +1,336 @@
+// src/features/business/lib/statement.ts
+/**
+ * @description Customer statement of account: everything a contact has been
+ * invoiced, paid and credited over a date range, with a running balance. Built
+ * for business clients with several open invoices, so one email answers
+ * "what do we owe". Invoices match the contact by contactId or client email
+ * (the contact-360 rules); quotes, drafts and voided invoices never appear.
+ * Activity before the range rolls into the opening balance.
+ */
+
+import { round2 } from "@/features/business/lib/business";
+import {
+  invoiceBalanceDue,
+  isInvoiceOverdue,
+  NOT_A_QUOTE_FILTER,
+} from "@/features/business/lib/invoice-status";
+import { generateStatementPdf } from "@/features/business/lib/statement-pdf";
+import { sendStatementEmail } from "@/features/reviews/lib/email";
+import { prisma } from "@/shared/lib/prisma";
+import { nzDateKey } from "@/shared/lib/timezone-utils";
+import type { Contact, Invoice } from "@prisma/client";
+import type { NextRequest } from "next/server";
+
+/** What a statement line records. */
+export type StatementLineKind = "invoice" | "payment" | "credit-note" | "refund";
+
+/** One dated movement on the account. */
+export interface StatementLine {
+  /** NZ calendar date, YYYY-MM-DD. */
+  dateKey: string;
+  kind: StatementLineKind;
+  /** Invoice or credit note number the movement belongs to. */
+  reference: string;
+  description: string;
+  /** Amount added to what the client owes. */
+  debit: number;
+  /** Amount taken off what the client owes. */
+  credit: number;
+  /** Balance owed after this line. */
+  balance: number;
+}
+
+/** An invoice still owing at the statement date. */
+export interface StatementOpenInvoice {
+  number: string;
+  issueDateKey: string;
+  dueDateKey: string;
+  total: number;
+  balance: number;
+  overdue: boolean;
+}
+
+/** A contact's statement of account over a date range. */
+export interface Statement {
+  contact: Pick<Contact, "id" | "name" | "email" | "address">;
+  /** First day covered (YYYY-MM-DD, inclusive). */
+  fromKey: string;
+  /** Last day covered (YYYY-MM-DD, inclusive). */
+  toKey: string;
+  /** Balance owed before `fromKey`. */
+  openingBalance: number;
+  lines: StatementLine[];
+  /** Balance owed at the end of `toKey`. */
+  closingBalance: number;
+  /** Invoices still owing today, oldest first. */
+  openInvoices: StatementOpenInvoice[];
+  /** Sum of the open invoices' balances that are past due. */
+  overdueTotal: number;
+}
+
+/** Months a default statement looks back, counting the current one. */
+const DEFAULT_STATEMENT_MONTHS = 3;
+
+const DATE_KEY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The default statement range: the start of the NZ month two months back to
+ * today, so a monthly statement shows the current and two previous months.
+ * @param now - Current instant.
+ * @returns Inclusive YYYY-MM-DD bounds.
+ */
+export function defaultStatementRange(now: Date = new Date()): { fromKey: string; toKey: string } {
+  const toKey = nzDateKey(now);
+  const [y, m] = toKey.split("-").map(Number);
+  const start = new Date(Date.UTC(y, m - DEFAULT_STATEMENT_MONTHS, 1, 12));
+  return { fromKey: start.toISOString().slice(0, 10), toKey };
+}
+
+/**
+ * Validates a requested range, falling back to the default for a missing bound.
+ * @param from - Raw `from` value (YYYY-MM-DD), or null.
+ * @param to - Raw `to` value (YYYY-MM-DD), or null.
+ * @param now - Current instant.
+ * @returns Inclusive bounds, or a user-facing error.
+ */
+export function parseStatementRange(
+  from: string | null,
+  to: string | null,
+  now: Date = new Date(),
+): { fromKey: string; toKey: string } | string {
+  const fallback = defaultStatementRange(now);
+  const fromKey = from || fallback.fromKey;
+  const toKey = to || fallback.toKey;
+  if (!DATE_KEY_RE.test(fromKey) || !DATE_KEY_RE.test(toKey)) return "Invalid date range";
+  if (fromKey > toKey) return "The start date must be on or before the end date.";
+  return { fromKey, toKey };
+}
+
+/**
+ * Reads the statement email routes' body: the range plus the operator's
+ * greeting / intro overrides. Tolerates a missing or malformed body.
+ * @param request - The incoming request.
+ * @returns The range and overrides, or a user-facing range error.
+ */
+export async function parseStatementEmailRequest(request: NextRequest): Promise<
+  | {
+      range: { fromKey: string; toKey: string };
+      greetingName?: string;
+      customBody?: string;
+    }
+  | string
+> {
+  const body = (await request.json().catch(() => ({}))) as {
+    from?: unknown;
+    to?: unknown;
+    greetingName?: unknown;
+    customBody?: unknown;
+  };
+  const range = parseStatementRange(
+    typeof body.from === "string" ? body.from : null,
+    typeof body.to === "string" ? body.to : null,
+  );
+  if (typeof range === "string") return range;
+  return {
+    range,
+    greetingName: typeof body.greetingName === "string" ? body.greetingName : undefined,
+    customBody: typeof body.customBody === "string" ? body.customBody : undefined,
+  };
+}
+
+/**
+ * Payments on an invoice as dated amounts. A PAID invoice from before the
+ * payment ledger has no entries; it reads as one payment of the total on its
+ * paid date.
+ * @param invoice - The invoice row.
+ * @returns Payments, in ledger order.
+ */
+function invoicePayments(
+  invoice: Pick<
+    Invoice,
+    "status" | "total" | "payments" | "paidAt" | "updatedAt" | "paymentMethod"
+  >,
+): { date: Date; amount: number; method: string | null }[] {
+  if (invoice.payments.length > 0) {
+    return invoice.payments.map((p) => ({ date: p.date, amount: p.amount, method: p.method }));
+  }
+  if (invoice.status === "PAID") {
+    return [
+      {
+        date: invoice.paidAt ?? invoice.updatedAt,
+        amount: invoice.total,
+        method: invoice.paymentMethod,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Builds a contact's statement of account. Returns null when the contact is
+ * missing or soft-deleted.
+ * @param contactId - The contact's id.
+ * @param range - Inclusive YYYY-MM-DD bounds.
+ * @param range.fromKey - First day covered.
+ * @param range.toKey - Last day covered.
+ * @param now - Current instant; decides which open invoices are overdue.
+ * @returns The statement, or null.
+ */
+export async function buildStatement(
+  contactId: string,
+  range: { fromKey: string; toKey: string },
+  now: Date = new Date(),
+): Promise<Statement | null> {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, deletedAt: null },
+    select: { id: true, name: true, email: true, address: true, altEmails: true },
+  });
+  if (!contact) return null;
+
+  const emailKeys = new Set<string>();
+  if (contact.email) emailKeys.add(contact.email.toLowerCase());
+  for (const alt of contact.altEmails) emailKeys.add(alt.toLowerCase());
+  const emailMatch = [...emailKeys].map((e) => ({
+    clientEmail: { equals: e, mode: "insensitive" as const },
+  }));
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      AND: [
+        { OR: [{ contactId: contact.id }, ...emailMatch] },
+        NOT_A_QUOTE_FILTER,
+        { status: { in: ["SENT", "PAID"] } },
+      ],
+    },
+    orderBy: { issueDate: "asc" },
+  });
+  const creditNotes =
+    invoices.length > 0
+      ? await prisma.creditNote.findMany({
+          where: { invoiceId: { in: invoices.map((i) => i.id) } },
+          orderBy: { issueDate: "asc" },
+        })
+      : [];
+
+  // Every movement, unsorted and without balances yet. A credit note on this
+  // system always comes with its refund paid out, so it is paired with a
+  // refund line and nets the balance to zero - the client sees both sides.
+  const movements: Omit<StatementLine, "balance">[] = [];
+  for (const inv of invoices) {
+    movements.push({
+      dateKey: nzDateKey(inv.issueDate),
+      kind: "invoice",
+      reference: inv.number,
+      description: `Invoice ${inv.number}`,
+      debit: inv.total,
+      credit: 0,
+    });
+    for (const p of invoicePayments(inv)) {
+      movements.push({
+        dateKey: nzDateKey(p.date),
+        kind: "payment",
+        reference: inv.number,
+        description: p.method ? `Payment received (${p.method})` : "Payment received",
+        debit: 0,
+        credit: p.amount,
+      });
+    }
+  }
+  for (const note of creditNotes) {
+    const dateKey = nzDateKey(note.issueDate);
+    movements.push({
+      dateKey,
+      kind: "credit-note",
+      reference: note.number,
+      description: `Credit note against ${note.invoiceNumber}`,
+      debit: 0,
+      credit: note.total,
+    });
+    movements.push({
+      dateKey,
+      kind: "refund",
+      reference: note.number,
+      description: `Refund (${note.refundMethod})`,
+      debit: note.total,
+      credit: 0,
+    });
+  }
+
+  // Same-day order: what was billed, then what was paid against it.
+  const order: Record<StatementLineKind, number> = {
+    invoice: 0,
+    payment: 1,
+    "credit-note": 2,
+    refund: 3,
+  };
+  movements.sort((a, b) => a.dateKey.localeCompare(b.dateKey) || order[a.kind] - order[b.kind]);
+
+  let openingBalance = 0;
+  let balance = 0;
+  const lines: StatementLine[] = [];
+  for (const m of movements) {
+    if (m.dateKey > range.toKey) break;
+    balance = round2(balance + m.debit - m.credit);
+    if (m.dateKey < range.fromKey) {
+      openingBalance = balance;
+      continue;
+    }
+    lines.push({ ...m, balance });
+  }
+
+  const openInvoices: StatementOpenInvoice[] = invoices
+    .map((inv) => ({
+      number: inv.number,
+      issueDateKey: nzDateKey(inv.issueDate),
+      dueDateKey: nzDateKey(inv.dueDate),
+      total: inv.total,
+      balance: invoiceBalanceDue(inv),
+      overdue: isInvoiceOverdue(inv, now),
+    }))
+    .filter((i) => i.balance > 0);
+
+  return {
+    contact: {
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      address: contact.address,
+    },
+    fromKey: range.fromKey,
+    toKey: range.toKey,
+    openingBalance,
+    lines,
+    closingBalance: balance,
+    openInvoices,
+    overdueTotal: round2(openInvoices.filter((i) => i.overdue).reduce((s, i) => s + i.balance, 0)),
+  };
+}
+
+/**
+ * Emails a statement to the contact with its PDF attached and stamps
+ * `statementSentAt` on success. Never throws on a send failure.
+ * @param statement - The statement to send.
+ * @param overrides - Optional operator greeting / intro replacement.
+ * @param overrides.greetingName - Greeting target.
+ * @param overrides.customBody - Intro paragraph replacement.
+ * @returns True when the email was accepted.
+ */
+export async function emailStatement(
+  statement: Statement,
+  overrides: { greetingName?: string; customBody?: string } = {},
+): Promise<boolean> {
+  const pdfBytes = await generateStatementPdf(statement);
+  const ok = await sendStatementEmail({
+    statement,
+    pdfBytes,
+    greetingName: overrides.greetingName,
+    customBody: overrides.customBody,
+  });
+  if (ok) {
+    await prisma.contact.update({
+      where: { id: statement.contact.id },
+      data: { statementSentAt: new Date() },
+    });
+  }
+  return ok;
+}
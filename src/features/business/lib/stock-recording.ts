@@ -0,0 +1,221 @@
+// src/features/business/lib/stock-recording.ts
+/**
+ * @description Stock quantity writes and the margin report. Receiving links the
+ * ExpenseEntry that paid for the parts and re-averages the unit cost; issuing
+ * takes an invoice's stock-linked part lines off the shelf, once, when the
+ * invoice first leaves draft (sent, or paid outright); a count correction records the difference. Every
+ * change lands as a StockMovement, so the report reads what was billed
+ * against what it cost straight from the ledger.
+ */
+
+import { round2 } from "@/features/business/lib/business";
+import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { averageCostAfterReceipt, netUnitPrice } from "@/features/business/lib/stock";
+import { prisma } from "@/shared/lib/prisma";
+import type { StockItem } from "@prisma/client";
+
+/** Attempts at a quantity write before giving up on a busy item. */
+const CLAIM_ATTEMPTS = 3;
+
+/** Outcome of a receipt or a count correction. */
+export type StockWriteResult =
+  { ok: true; item: StockItem } | { ok: false; error: string; status: number };
+
+/** Receipt details from the stock page. */
+export interface ReceiveStockInput {
+  /** The purchase the parts came in on. */
+  expenseId: string;
+  /** Units received. */
+  qty: number;
+  /** Unit cost override; defaults to the expense amount over the quantity. */
+  unitCost?: number | null;
+}
+
+/** One stock item's line in the margin report. */
+export interface StockMarginRow {
+  stockItemId: string;
+  name: string;
+  units: number;
+  /** Net of GST, like the cost. */
+  revenue: number;
+  cost: number;
+  margin: number;
+}
+
+/**
+ * Receives parts into stock from an expense. The quantity and average cost are
+ * written with a claim on the values read, so two receipts can't average
+ * against the same starting point.
+ * @param stockItemId - The item received.
+ * @param input - Expense, quantity and optional unit cost.
+ * @returns The updated item, or an error with its HTTP status.
+ */
+export async function receiveStock(
+  stockItemId: string,
+  input: ReceiveStockInput,
+): Promise<StockWriteResult> {
+  const expense = await prisma.expenseEntry.findUnique({ where: { id: input.expenseId } });
+  if (!expense) return { ok: false, error: "Expense not found", status: 404 };
+  const already = await prisma.stockMovement.findFirst({
+    where: { stockItemId, expenseId: expense.id, kind: "receive" },
+    select: { id: true },
+  });
+  if (already) {
+    return { ok: false, error: "That expense is already received into this item.", status: 409 };
+  }
+
+  // GST-registered, the GST on the purchase comes back, so the cost is the
+  // exclusive amount; otherwise the whole amount paid is the cost.
+  const { GST_REGISTERED } = await getPolicy();
+  const paid = GST_REGISTERED ? expense.amountExcl : expense.amountIncl;
+  const receivedCost = round2(input.unitCost ?? paid / input.qty);
+
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+    const item = await prisma.stockItem.findUnique({ where: { id: stockItemId } });
+    if (!item) return { ok: false, error: "Stock item not found", status: 404 };
+    const claim = await prisma.stockItem.updateMany({
+      where: { id: item.id, onHand: item.onHand, unitCost: item.unitCost },
+      data: {
+        onHand: { increment: input.qty },
+        unitCost: averageCostAfterReceipt(item.onHand, item.unitCost, input.qty, receivedCost),
+      },
+    });
+    if (claim.count === 0) continue;
+    await prisma.stockMovement.create({
+      data: {
+        stockItemId: item.id,
+        kind: "receive",
+        qty: input.qty,
+        unitCost: receivedCost,
+        expenseId: expense.id,
+        note: `${expense.supplier}: ${expense.description}`,
+      },
+    });
+    const updated = await prisma.stockItem.findUniqueOrThrow({ where: { id: item.id } });
+    return { ok: true, item: updated };
+  }
+  return { ok: false, error: "Stock changed while saving - try again.", status: 409 };
+}
+
+/**
+ * Sets an item's quantity from a count, recording the difference.
+ * @param stockItemId - The item counted.
+ * @param onHand - Units actually on the shelf.
+ * @param note - Optional reason.
+ * @returns The updated item, or an error with its HTTP status.
+ */
+export async function adjustStockCount(
+  stockItemId: string,
+  onHand: number,
+  note: string | null,
+): Promise<StockWriteResult> {
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+    const item = await prisma.stockItem.findUnique({ where: { id: stockItemId } });
+    if (!item) return { ok: false, error: "Stock item not found", status: 404 };
+    if (item.onHand === onHand) return { ok: true, item };
+    const claim = await prisma.stockItem.updateMany({
+      where: { id: item.id, onHand: item.onHand },
+      data: { onHand },
+    });
+    if (claim.count === 0) continue;
+    await prisma.stockMovement.create({
+      data: {
+        stockItemId: item.id,
+        kind: "adjust",
+        qty: onHand - item.onHand,
+        unitCost: item.unitCost,
+        note,
+      },
+    });
+    return { ok: true, item: { ...item, onHand } };
+  }
+  return { ok: false, error: "Stock changed while saving - try again.", status: 409 };
+}
+
+/**
+ * Takes an invoice's stock-linked part lines off the shelf. Runs once per
+ * invoice: the stockIssuedAt stamp is claimed first, so a re-send (or a
+ * second tab) issues nothing, so every DRAFT -> SENT / PAID path can call it.
+ * Quotes never issue - their converted invoice does, when it is sent. Later
+ * edits to the lines don't re-issue.
+ * @param invoiceId - The invoice just sent or paid.
+ * @returns Units taken off the shelf (0 when already issued or nothing linked).
+ */
+export async function issueInvoiceStock(invoiceId: string): Promise<number> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    select: { id: true, number: true, gst: true, isQuote: true, lineItems: true },
+  });
+  if (!invoice || invoice.isQuote) return 0;
+  const lines = invoice.lineItems.filter((li) => li.stockItemId);
+  if (lines.length === 0) return 0;
+
+  // isSet: false covers invoices from before the field existed.
+  const claim = await prisma.invoice.updateMany({
+    where: { id: invoice.id, OR: [{ stockIssuedAt: null }, { stockIssuedAt: { isSet: false } }] },
+    data: { stockIssuedAt: new Date() },
+  });
+  if (claim.count === 0) return 0;
+
+  let units = 0;
+  for (const line of lines) {
+    const qty = Math.max(1, Math.round(line.qty));
+    const stockItemId = line.stockItemId!;
+    const item = await prisma.stockItem.findUnique({
+      where: { id: stockItemId },
+      select: { unitCost: true },
+    });
+    // A deleted item can't be decremented; the line still billed.
+    if (!item) continue;
+    await prisma.stockItem.update({
+      where: { id: stockItemId },
+      data: { onHand: { decrement: qty } },
+    });
+    await prisma.stockMovement.create({
+      data: {
+        stockItemId,
+        kind: "issue",
+        qty: -qty,
+        unitCost: line.unitCost ?? item.unitCost,
+        unitPrice: netUnitPrice(line.unitPrice, invoice.gst),
+        invoiceId: invoice.id,
+        note: invoice.number,
+      },
+    });
+    units += qty;
+  }
+  return units;
+}
+
+/**
+ * Units billed, revenue, cost and margin per stock item, from every issue.
+ * @returns One row per item that has been billed, best margin first.
+ */
+export async function stockMarginReport(): Promise<StockMarginRow[]> {
+  const [issues, items] = await Promise.all([
+    prisma.stockMovement.findMany({
+      where: { kind: "issue" },
+      select: { stockItemId: true, qty: true, unitCost: true, unitPrice: true },
+    }),
+    prisma.stockItem.findMany({ select: { id: true, name: true } }),
+  ]);
+  const names = new Map(items.map((i) => [i.id, i.name]));
+  const rows = new Map<string, StockMarginRow>();
+  for (const m of issues) {
+    const units = -m.qty;
+    const row = rows.get(m.stockItemId) ?? {
+      stockItemId: m.stockItemId,
+      name: names.get(m.stockItemId) ?? "(deleted item)",
+      units: 0,
+      revenue: 0,
+      cost: 0,
+      margin: 0,
+    };
+    row.units += units;
+    row.revenue = round2(row.revenue + units * (m.unitPrice ?? 0));
+    row.cost = round2(row.cost + units * m.unitCost);
+    row.margin = round2(row.revenue - row.cost);
+    rows.set(m.stockItemId, row);
+  }
+  return [...rows.values()].sort((a, b) => b.margin - a.margin);
+}
@@ -0,0 +1,180 @@
+// src/features/business/lib/stock.ts
+/**
+ * @description Pure stock helpers shared by the stock page, the calculator's
+ * parts picker and the dashboard: the sell price a markup rule gives, the
+ * low-stock test, and the weighted-average cost after a receipt. Costs and
+ * prices here are net of GST whenever the business is GST-registered (it
+ * claims the GST on the purchase back), so margins compare like with like.
+ */
+
+import { GST_RATE } from "@/features/business/lib/pricing-policy";
+
+/** The fields the pricing rule reads. */
+export interface StockPricing {
+  unitCost: number;
+  markupPercent: number;
+  /** Fixed price, GST included when registered; overrides the markup. */
+  sellPrice: number | null;
+}
+
+/** The fields the low-stock test reads. */
+export interface StockLevel {
+  onHand: number;
+  reorderLevel: number | null;
+  isActive: boolean;
+}
+
+/**
+ * Rounds to whole cents.
+ * @param amount - Dollar amount.
+ * @returns Amount to 2dp.
+ */
+function toCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The price a stock part bills at: its fixed price when set, otherwise cost
+ * plus markup, with GST on top when registered.
+ * @param item - Cost and markup rule.
+ * @param gstRegistered - Whether invoices carry GST.
+ * @returns Unit price for the invoice line.
+ */
+export function stockSellPrice(item: StockPricing, gstRegistered: boolean): number {
+  if (item.sellPrice != null) return toCents(item.sellPrice);
+  const net = item.unitCost * (1 + item.markupPercent / 100);
+  return toCents(gstRegistered ? net * (1 + GST_RATE) : net);
+}
+
+/**
+ * An invoice line's unit price with any GST taken out, for the margin report.
+ * @param unitPrice - Price as billed.
+ * @param gstIncluded - Whether the invoice carried GST.
+ * @returns Net unit price.
+ */
+export function netUnitPrice(unitPrice: number, gstIncluded: boolean): number {
+  return toCents(gstIncluded ? unitPrice / (1 + GST_RATE) : unitPrice);
+}
+
+/**
+ * Whether an item has run down to its reorder level. Retired items and items
+ * without a level never count.
+ * @param item - Quantity and threshold.
+ * @returns True when it should be reordered.
+ */
+export function isLowStock(item: StockLevel): boolean {
+  return item.isActive && item.reorderLevel != null && item.onHand <= item.reorderLevel;
+}
+
+/**
+ * Average unit cost after a receipt. Only stock actually on the shelf carries
+ * its old cost into the average; a negative count (parts billed before their
+ * purchase was received) takes the new cost outright.
+ * @param onHand - Quantity before the receipt.
+ * @param unitCost - Average cost before the receipt.
+ * @param qty - Units received.
+ * @param receivedCost - Unit cost of the receipt.
+ * @returns New average unit cost.
+ */
+export function averageCostAfterReceipt(
+  onHand: number,
+  unitCost: number,
+  qty: number,
+  receivedCost: number,
+): number {
+  const held = Math.max(0, onHand);
+  if (held + qty <= 0) return toCents(receivedCost);
+  return toCents((held * unitCost + qty * receivedCost) / (held + qty));
+}
+
+/** Editable stock item fields as a request body carries them. */
+export interface StockItemBody {
+  name?: unknown;
+  sku?: unknown;
+  supplier?: unknown;
+  unitCost?: unknown;
+  markupPercent?: unknown;
+  sellPrice?: unknown;
+  reorderLevel?: unknown;
+  isActive?: unknown;
+}
+
+/** Validated stock item fields; only those present in the body are set. */
+export interface StockItemFields {
+  name?: string;
+  sku?: string | null;
+  supplier?: string | null;
+  unitCost?: number;
+  markupPercent?: number;
+  sellPrice?: number | null;
+  reorderLevel?: number | null;
+  isActive?: boolean;
+}
+
+/** Largest markup accepted, as a percentage. */
+const MAX_MARKUP_PERCENT = 1000;
+
+/**
+ * Trims an optional text field to null when blank.
+ * @param value - Raw field.
+ * @returns Trimmed text or null.
+ */
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validates the fields present in a stock item body. Absent fields stay
+ * absent, so a PATCH only writes what it sent.
+ * @param body - Parsed request body.
+ * @returns The fields, or an error message.
+ */
+export function parseStockItemFields(
+  body: StockItemBody,
+): { ok: true; fields: StockItemFields } | { ok: false; error: string } {
+  const fields: StockItemFields = {};
+  if (body.name !== undefined) {
+    const name = optionalText(body.name);
+    if (!name) return { ok: false, error: "name is required" };
+    fields.name = name;
+  }
+  if (body.sku !== undefined) fields.sku = optionalText(body.sku);
+  if (body.supplier !== undefined) fields.supplier = optionalText(body.supplier);
+  if (body.unitCost !== undefined) {
+    const cost = typeof body.unitCost === "number" ? body.unitCost : Number(body.unitCost);
+    if (!Number.isFinite(cost) || cost < 0) return { ok: false, error: "Invalid unit cost" };
+    fields.unitCost = toCents(cost);
+  }
+  if (body.markupPercent !== undefined) {
+    const markup = Number(body.markupPercent);
+    if (!Number.isFinite(markup) || markup < 0 || markup > MAX_MARKUP_PERCENT) {
+      return { ok: false, error: `markupPercent must be between 0 and ${MAX_MARKUP_PERCENT}` };
+    }
+    fields.markupPercent = markup;
+  }
+  if (body.sellPrice !== undefined) {
+    if (body.sellPrice === null || body.sellPrice === "") {
+      fields.sellPrice = null;
+    } else {
+      const price = Number(body.sellPrice);
+      if (!Number.isFinite(price) || price < 0) return { ok: false, error: "Invalid sell price" };
+      fields.sellPrice = toCents(price);
+    }
+  }
+  if (body.reorderLevel !== undefined) {
+    if (body.reorderLevel === null || body.reorderLevel === "") {
+      fields.reorderLevel = null;
+    } else {
+      const level = Number(body.reorderLevel);
+      if (!Number.isInteger(level) || level < 0) {
+        return { ok: false, error: "reorderLevel must be a whole number" };
+      }
+      fields.reorderLevel = level;
+    }
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") return { ok: false, error: "Invalid isActive" };
+    fields.isActive = body.isActive;
+  }
+  return { ok: true, fields };
+}
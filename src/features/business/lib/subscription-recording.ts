@@ -34,11 +34,13 @@ export interface RecordSubscriptionResult {
  * cron fires at 8am NZ and UTC is still on the previous date.
  * @param sub - The subscription being recorded.
  * @param on - Overrides the payment date; defaults to today in NZ.
+ * @param amountIncl - Overrides the amount (e.g. the charge as it hit the bank); defaults to the subscription's.
  * @returns Whether the period was claimed, the expense, the new nextDue, and a sync-warning flag.
  */
 export async function recordSubscriptionPayment(
   sub: Subscription,
   on?: Date,
+  amountIncl: number = sub.amountIncl,
 ): Promise<RecordSubscriptionResult> {
   const date = on ?? new Date(`${nzTodayKey()}T00:00:00.000Z`);
   const nextDue = advanceNextDue(sub.nextDue, sub.frequency);
@@ -58,7 +60,7 @@ export async function recordSubscriptionPayment(
     supplier: sub.supplier,
     description: sub.description,
     category: sub.category,
-    amountIncl: sub.amountIncl,
+    amountIncl,
     gstRate: sub.gstRate,
     method: sub.method,
     notes: sub.notes,
@@ -10,6 +10,8 @@
  * whatever the active workbook has so the dashboard stays consistent.
  */
 
+import { round2 } from "@/features/business/lib/business";
+
 /**
  * Rates used by the planner. The first three come from `SETTINGS!B13:B15`
  * in the per-FY workbook; the GST output ratio is a fixed NZ constant.
@@ -102,12 +104,3 @@ export function computeTaxPlan(
     },
   };
 }
-
-/**
- * Rounds to 2 decimal places.
- * @param n - Value to round.
- * @returns Rounded value.
- */
-function round2(n: number): number {
-  return Math.round(n * 100) / 100;
-}
@@ -128,6 +128,8 @@ async function lookupLeg(
  * @param destination - Free-text destination address (1-100 chars).
  * @param departAt - Outbound departure time; omitted or past means now.
  * @param returnAt - Return departure time; omitted means departure + 60 min.
+ * @param base - Where the round trip starts and ends, e.g. a technician's own
+ *   base; omitted or blank means the business base address.
  * @returns Discriminated result so callers can tell misconfig (operator
  *   error, should surface) from a legitimate no-match (charge $0 travel).
  */
@@ -135,9 +137,10 @@ export async function lookupDriveRoundTrip(
   destination: string,
   departAt?: Date,
   returnAt?: Date,
+  base?: string,
 ): Promise<DriveRoundTripResult> {
   // Travel origin is the unified business base address (defaults to HOME_ADDRESS env).
-  const origin = (await getIdentity()).baseAddress.line || process.env.HOME_ADDRESS;
+  const origin = base?.trim() || (await getIdentity()).baseAddress.line || process.env.HOME_ADDRESS;
   // Server-only key, no fallback to GOOGLE_MAPS_API_KEY: next.config.ts
   // publishes that one to the browser, so falling back would spend a publicly
   // readable key on server-side quota.
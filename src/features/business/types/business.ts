@@ -36,10 +36,27 @@ export interface LineItem {
    * readers must treat the two the same.
    */
   minutes?: number | null;
+  /** StockItem a part line was picked from; absent on every other row. */
+  stockItemId?: string | null;
+  /** The part's unit cost when picked, for the margin report. */
+  unitCost?: number | null;
 }
 
 export type InvoiceStatus = "DRAFT" | "SENT" | "PAID" | "VOIDED";
 
+/** One payment received against an invoice (an entry in its payment ledger). */
+export interface InvoicePayment {
+  id: string;
+  date: string;
+  amount: number;
+  /** An INCOME_METHODS value. */
+  method: string;
+  reference: string | null;
+  /** Income entry written for this payment; null when the income was entered by hand. */
+  incomeEntryId: string | null;
+  createdAt: string;
+}
+
 export interface Invoice {
   id: string;
   number: string;
@@ -72,6 +89,10 @@ export interface Invoice {
   paymentMethod?: string | null;
   /** Optional operator reference/note recorded with the payment. */
   paymentReference?: string | null;
+  /** Payments received, oldest first. Empty on legacy rows. */
+  payments?: InvoicePayment[];
+  /** Sum of `payments`; null reads as 0. */
+  amountPaid?: number | null;
   /** When the most recent overdue reminder was emailed; null = never. */
   reminderLastSentAt?: string | null;
   /** How many overdue reminders have gone out; null reads as 0 (Mongo backfill rule). */
@@ -80,6 +101,12 @@ export interface Invoice {
   isQuote?: boolean | null;
   /** ISO date the quote's pricing is honoured until; null = no stated expiry. */
   quoteValidUntil?: string | null;
+  /** Secret behind the public pay-by-card and quote links; null on rows not yet re-sent. */
+  payToken?: string | null;
+  /** Deposit asked for when the quote is accepted; null = none. */
+  depositAmount?: number | null;
+  /** Set only on a credit note rendered through the invoice PDF: the number of the invoice it credits. */
+  creditNoteFor?: string | null;
   driveFileId: string | null;
   driveWebUrl: string | null;
   createdAt: string;
@@ -95,6 +122,8 @@ export interface IncomeEntry {
   method: string;
   notes: string | null;
   invoiceId: string | null;
+  /** Technician who did the work, copied from the invoice; null in single-operator mode. */
+  technicianId?: string | null;
   /** Sync ID shared with the matching sheet row (hidden column Z); null until first synced. */
   sheetRowKey?: string | null;
   createdAt: string;
@@ -160,6 +189,20 @@ export interface TaskLine {
 export interface PartLine {
   description: string;
   cost: number;
+  /** Set when the part was picked from stock; sending the invoice takes it off the shelf. */
+  stockItemId?: string;
+  /** The stock item's unit cost when picked. */
+  unitCost?: number;
+}
+
+/** A stock item as the calculator's parts picker offers it. */
+export interface StockPartOption {
+  id: string;
+  name: string;
+  onHand: number;
+  unitCost: number;
+  /** Price to bill, GST included when registered. */
+  sellPrice: number;
 }
 
 /**
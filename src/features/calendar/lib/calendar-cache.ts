@@ -1,9 +1,12 @@
 // src/features/calendar/lib/calendar-cache.ts
 /**
- * @description Background task to fetch and cache Google Calendar events.
+ * @description Background task to fetch and cache Google Calendar events, plus
+ * the ICS / CalDAV calendars from availability settings (see calendar-sources.ts).
  */
 
+import { fetchExternalSourceEvents } from "@/features/calendar/lib/calendar-sources";
 import {
+  fetchAccessibleCalendarIds,
   fetchAllCalendarEvents,
   getBookingCalendarId,
   type CalendarEvent,
@@ -22,7 +25,14 @@ interface RefreshResult {
 const TRAVEL_ROUND_INCREMENT_MIN = 5;
 
 // Forward window for chaining a travel-back leg into the next event's travel-to.
-const RETURN_CHAINING_LOOKAHEAD_MS = 2 * 60 * 60 * 1000;
+export const RETURN_CHAINING_LOOKAHEAD_MS = 2 * 60 * 60 * 1000;
+
+// Days of finished jobs that keep getting TravelBlocks (see getTravelWindowStart).
+const TRAVEL_RETENTION_DAYS = 7;
+
+// Cache row lifetimes: polling-only vs push sync live (see calendarCacheExpiry).
+const POLL_CACHE_TTL_MS = 30 * 60 * 1000;
+const PUSH_CACHE_TTL_MS = 26 * 60 * 60 * 1000;
 
 /**
  * Rounds raw Distance Matrix minutes up with a buffer absorbing job overrun
@@ -192,38 +202,90 @@ function findNextChainedEvent(
     : null;
 }
 
+/**
+ * Expiry for cache rows written now. While every configured calendar has a live
+ * push channel, changes arrive within seconds through the push sync, so rows
+ * only need to outlast the daily reconciliation run. Without push (not set up,
+ * or a channel lapsed) the polling cron is the only writer and the short TTL
+ * applies: it gives a 15-min cushion over the 15-min cron cadence, so one
+ * missed run won't push the booking page onto its slow live-API fallback.
+ * @param now - Current time.
+ * @returns When the rows should be treated as stale.
+ */
+export async function calendarCacheExpiry(now: Date): Promise<Date> {
+  const calendarIds = fetchAccessibleCalendarIds();
+  const live = await prisma.calendarSyncState.count({
+    where: { calendarId: { in: calendarIds }, channelExpiresAt: { gt: now } },
+  });
+  const ttlMs = live === calendarIds.length ? PUSH_CACHE_TTL_MS : POLL_CACHE_TTL_MS;
+  return new Date(now.getTime() + ttlMs);
+}
+
+/**
+ * Upserts one real (non-travel) event into the cache, travel inputs included.
+ * External ICS / CalDAV events have no push channel, so their rows are capped
+ * at the polling TTL whatever `expiresAt` says; a feed that stops answering
+ * drops out once they lapse.
+ * @param event - The event.
+ * @param now - Fetch time.
+ * @param expiresAt - Row expiry.
+ * @returns Promise that resolves when written.
+ */
+export async function upsertCachedEvent(
+  event: CalendarEvent,
+  now: Date,
+  expiresAt: Date,
+): Promise<void> {
+  const fields = {
+    startAt: new Date(event.start),
+    endAt: new Date(event.end),
+    summary: event.summary ?? null,
+    location: event.location ?? null,
+    recurringEventId: event.recurringEventId ?? null,
+    source: event.source ?? null,
+    fetchedAt: now,
+    expiresAt: event.source
+      ? new Date(Math.min(expiresAt.getTime(), now.getTime() + POLL_CACHE_TTL_MS))
+      : expiresAt,
+  };
+  await prisma.calendarEventCache.upsert({
+    where: {
+      eventId_calendarEmail: { eventId: event.id, calendarEmail: event.calendarEmail },
+    },
+    create: { eventId: event.id, calendarEmail: event.calendarEmail, ...fields },
+    update: fields,
+  });
+}
+
 /**
  * Fetches calendar events and stores them in the database cache.
  * This runs periodically in the background to avoid slow API calls during page loads.
+ * With push sync live it is the daily reconciliation pass behind the
+ * incremental updates; without it, the only thing keeping the cache current.
  * @returns Object with counts of cached and deleted events
  */
 export async function refreshCalendarCache(): Promise<RefreshResult> {
   const now = new Date();
 
-  // Live settings: the booking horizon + advanced travel-engine buffers.
+  // Live settings: the booking horizon.
   const settings = await getSettings();
   const maxDate = new Date(
     now.getTime() + settings.availability.maxAdvanceDays * 24 * 60 * 60 * 1000,
   );
-  // Also process jobs finished within the last few days so their travel bars stay
-  // on the schedule for the record (they'd otherwise be cleaned once the job passed).
-  // Past legs are priced at a near-future proxy inside calculateTravelMinutes.
-  const TRAVEL_RETENTION_DAYS = 7;
-  const travelWindowStart = new Date(now.getTime() - TRAVEL_RETENTION_DAYS * 24 * 60 * 60 * 1000);
-  const scheduling = settings.scheduling;
-  /**
-   * Rounds raw travel minutes using the live travel-round buffer.
-   * @param raw - Raw travel minutes.
-   * @returns Buffered + rounded minutes.
-   */
-  const roundTravel = (raw: number): number =>
-    roundTravelMinutes(raw, scheduling.travelRoundBufferMin);
+  const travelWindowStart = getTravelWindowStart(now);
 
-  // Fetch fresh calendar events
+  // Fetch fresh calendar events. External calendars never throw: one that
+  // can't be read just contributes nothing this run.
   let rawEvents: CalendarEvent[] = [];
+  let externalEvents: CalendarEvent[] = [];
   try {
-    rawEvents = await fetchAllCalendarEvents(travelWindowStart, maxDate);
-    console.log(`[refreshCalendarCache] Fetched ${rawEvents.length} calendar events`);
+    [rawEvents, externalEvents] = await Promise.all([
+      fetchAllCalendarEvents(travelWindowStart, maxDate),
+      fetchExternalSourceEvents(travelWindowStart, maxDate),
+    ]);
+    console.log(
+      `[refreshCalendarCache] Fetched ${rawEvents.length} calendar events (+${externalEvents.length} external)`,
+    );
   } catch (error) {
     console.error("[refreshCalendarCache] Failed to fetch calendar events:", error);
     // Don't throw - the stale cache covers the gap when the API fails
@@ -265,49 +327,123 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     }
   }
 
-  // 30-min TTL gives a 15-min cushion over the 15-min cron cadence - one missed
-  // run won't push the booking page onto its slow live-API fallback. Freshness
-  // is unaffected since every cron rewrites each entry.
-  const cacheExpiry = new Date(now.getTime() + 30 * 60 * 1000);
-  const upsertPromises = rawEvents
-    .filter((event) => !ignoredKeys.has(`${event.id}|${event.calendarEmail}`))
-    .map((event) =>
-      prisma.calendarEventCache.upsert({
-        where: {
-          eventId_calendarEmail: {
-            eventId: event.id,
-            calendarEmail: event.calendarEmail,
-          },
-        },
-        create: {
-          eventId: event.id,
-          calendarEmail: event.calendarEmail,
-          startAt: new Date(event.start),
-          endAt: new Date(event.end),
-          fetchedAt: now,
-          expiresAt: cacheExpiry,
-        },
-        update: {
-          startAt: new Date(event.start),
-          endAt: new Date(event.end),
-          fetchedAt: now,
-          expiresAt: cacheExpiry,
-        },
-      }),
-    );
-
-  await Promise.all(upsertPromises);
+  // Every row is rewritten on each run, so freshness doesn't depend on the TTL.
+  const cacheExpiry = await calendarCacheExpiry(now);
+  const cachedEvents = rawEvents.filter(
+    (event) => !ignoredKeys.has(`${event.id}|${event.calendarEmail}`),
+  );
+  await Promise.all(
+    [...cachedEvents, ...externalEvents].map((event) => upsertCachedEvent(event, now, cacheExpiry)),
+  );
 
   console.log(
-    `[refreshCalendarCache] Cached ${upsertPromises.length} events (${ignoredKeys.size} ignored), deleted ${deleteResult.count} expired entries`,
+    `[refreshCalendarCache] Cached ${cachedEvents.length + externalEvents.length} events (${ignoredKeys.size} ignored), deleted ${deleteResult.count} expired entries`,
+  );
+
+  // Only Google events get TravelBlocks: external calendars are someone
+  // else's time, not trips the business makes.
+  await syncTravelBlocks(rawEvents, { now, cacheExpiry, ignoredKeys });
+
+  return {
+    cachedCount: rawEvents.length + externalEvents.length,
+    deletedCount: deleteResult.count,
+  };
+}
+
+/** Shared inputs for one {@link syncTravelBlocks} pass. */
+export interface TravelSyncContext {
+  now: Date;
+  /** Expiry written onto the synthetic travel cache rows. */
+  cacheExpiry: Date;
+  /** `eventId|calendarEmail` keys the admin flagged "I have the car that day". */
+  ignoredKeys: Set<string>;
+}
+
+/**
+ * Start of the travel window. Jobs finished within the last few days are still
+ * processed so their travel bars stay on the schedule for the record (they'd
+ * otherwise be cleaned once the job passed). Past legs are priced at a
+ * near-future proxy inside calculateTravelMinutes.
+ * @param now - Current time.
+ * @returns Earliest event start that gets a TravelBlock.
+ */
+export function getTravelWindowStart(now: Date): Date {
+  return new Date(now.getTime() - TRAVEL_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Deletes an upcoming TravelBlock and its synthetic cache rows, once its
+ * source event is gone.
+ * @param block - The block to remove.
+ * @param block.id - TravelBlock id.
+ * @param block.sourceEventId - Source event id, for the log.
+ * @param block.beforeEventId - Synthetic travel-to cache id, if written.
+ * @param block.afterEventId - Synthetic travel-back cache id, if written.
+ * @returns Promise that resolves when removed (failures are logged, not thrown).
+ */
+export async function removeTravelBlock(block: {
+  id: string;
+  sourceEventId: string;
+  beforeEventId: string | null;
+  afterEventId: string | null;
+}): Promise<void> {
+  const staleIds = [block.beforeEventId, block.afterEventId].filter(
+    (id): id is string => id !== null,
   );
+  if (staleIds.length > 0) {
+    try {
+      await prisma.calendarEventCache.deleteMany({
+        where: { eventId: { in: staleIds } },
+      });
+    } catch (err) {
+      console.error("[refreshCalendarCache] Failed to delete stale travel cache entries:", err);
+    }
+  }
+
+  try {
+    await prisma.travelBlock.delete({ where: { id: block.id } });
+    console.log(`[refreshCalendarCache] Removed stale travel block for: ${block.sourceEventId}`);
+  } catch (err) {
+    console.error("[refreshCalendarCache] Failed to delete TravelBlock record:", err);
+  }
+}
+
+/**
+ * Creates, rebuilds, or refreshes the TravelBlock (and its synthetic
+ * travel-to / travel-back cache rows) for each located event in the window.
+ * Smart-origin and chaining look across every event passed in, so `rawEvents`
+ * must be the whole window even when only a few events are in `scope`.
+ * @param rawEvents - Every event in the travel window.
+ * @param ctx - Shared pass inputs.
+ * @param scope - When set, only these `eventId|calendarEmail` keys are
+ *   evaluated and stale cleanup is skipped; the push sync removes deleted
+ *   events' blocks itself.
+ * @returns Promise that resolves when the pass is done.
+ */
+export async function syncTravelBlocks(
+  rawEvents: CalendarEvent[],
+  ctx: TravelSyncContext,
+  scope?: Set<string>,
+): Promise<void> {
+  const { now, cacheExpiry, ignoredKeys } = ctx;
+  // Live settings: the advanced travel-engine buffers.
+  const settings = await getSettings();
+  const scheduling = settings.scheduling;
+  const travelWindowStart = getTravelWindowStart(now);
+  /**
+   * Rounds raw travel minutes using the live travel-round buffer.
+   * @param raw - Raw travel minutes.
+   * @returns Buffered + rounded minutes.
+   */
+  const roundTravel = (raw: number): number =>
+    roundTravelMinutes(raw, scheduling.travelRoundBufferMin);
 
   // Travel Block Management. Origin is the unified base address (settings),
   // falling back to the HOME_ADDRESS env until that var is retired.
   const homeAddress = settings.identity.baseAddress.line || process.env.HOME_ADDRESS;
   if (!homeAddress) {
     console.warn("[refreshCalendarCache] No base address set - skipping travel blocks");
-    return { cachedCount: rawEvents.length, deletedCount: deleteResult.count };
+    return;
   }
 
   const bookingCalId = getBookingCalendarId();
@@ -325,6 +461,42 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     ? rawEvents.filter((e) => e.calendarEmail !== carCalId)
     : rawEvents;
 
+  // With technicians, each event belongs to someone: a technician's own
+  // calendar to them, a booking-calendar event to the booking's technician,
+  // anything else to the shared base. Travel starts and ends at the owner's
+  // base, and smart-origin and chaining only look at the owner's other events.
+  const technicians = settings.availability.technicians.filter((t) => t.enabled);
+  const techById = new Map(technicians.map((t) => [t.id, t]));
+  const techByCalendar = new Map(technicians.flatMap((t) => t.calendarIds.map((id) => [id, t])));
+  const bookingEventIds = rawEvents
+    .filter((e) => e.calendarEmail === bookingCalId)
+    .map((e) => e.id);
+  const assignedBookings =
+    technicians.length > 0 && bookingEventIds.length > 0
+      ? await prisma.booking.findMany({
+          where: { calendarEventId: { in: bookingEventIds }, technicianId: { not: null } },
+          select: { calendarEventId: true, technicianId: true },
+        })
+      : [];
+  const techByBookingEvent = new Map(
+    assignedBookings.map((b) => [b.calendarEventId, techById.get(b.technicianId ?? "")]),
+  );
+  /**
+   * The technician an event belongs to.
+   * @param e - Calendar event.
+   * @returns Technician id, or "" for the shared base.
+   */
+  const ownerOf = (e: CalendarEvent): string =>
+    (
+      techByCalendar.get(e.calendarEmail) ??
+      (e.calendarEmail === bookingCalId ? techByBookingEvent.get(e.id) : undefined)
+    )?.id ?? "";
+  const candidatesByOwner = new Map<string, CalendarEvent[]>();
+  for (const e of travelRelevantEvents) {
+    const owner = ownerOf(e);
+    candidatesByOwner.set(owner, [...(candidatesByOwner.get(owner) ?? []), e]);
+  }
+
   if (isDev) {
     console.log(`[travel] HOME_ADDRESS: ${homeAddress}`);
     console.log(`[travel] BOOKING_CALENDAR_ID: ${bookingCalId}`);
@@ -345,7 +517,10 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
   // proxy time. Falls back to event.summary when no dedicated location field is set
   // (e.g. business name as the title).
   const eligibleEvents = rawEvents.filter(
-    (e) => (e.location ?? e.summary) && new Date(e.start) > travelWindowStart,
+    (e) =>
+      (e.location ?? e.summary) &&
+      new Date(e.start) > travelWindowStart &&
+      (!scope || scope.has(`${e.id}|${e.calendarEmail}`)),
   );
 
   if (isDev) {
@@ -428,6 +603,10 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     // no chaining, no overrides.
     const isCarEvent = carCalId !== "" && event.calendarEmail === carCalId;
 
+    const owner = ownerOf(event);
+    const eventHome = techById.get(owner)?.baseAddress.trim() || homeAddress;
+    const ownerEvents = candidatesByOwner.get(owner) ?? [];
+
     // Synthetic cache IDs - never written to Google Calendar
     const beforeId = `travel-before:${event.id}`;
     const afterId = `travel-after:${event.id}`;
@@ -443,18 +622,13 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     // Car events are also filtered out of travelRelevantEvents so they don't
     // pollute other events' smart-origin or chain candidate searches.
     const detectedOrigin = isCarEvent
-      ? homeAddress
-      : findSmartOrigin(
-          travelRelevantEvents,
-          event,
-          homeAddress,
-          scheduling.smartOriginLookaheadHours,
-        );
+      ? eventHome
+      : findSmartOrigin(ownerEvents, event, eventHome, scheduling.smartOriginLookaheadHours);
     // customOrigin (user override) takes precedence over auto-detection
     const effectiveOrigin = existing?.customOrigin ?? detectedOrigin;
 
     // Travel-back destination: admin override if set, otherwise home.
-    const effectiveBackDestination = existing?.customTravelBackDestination ?? homeAddress;
+    const effectiveBackDestination = existing?.customTravelBackDestination ?? eventHome;
     const hasCustomBackDestination = existing?.customTravelBackDestination != null;
 
     // Candidate next-event for chaining. Identity + start are stored on the
@@ -465,7 +639,7 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     const chained =
       hasCustomBackDestination || isCarEvent
         ? null
-        : findNextChainedEvent(travelRelevantEvents, event, departureForBack, new Set<string>());
+        : findNextChainedEvent(ownerEvents, event, departureForBack, new Set<string>());
     const currentChainedId = chained?.event.id ?? null;
     const currentChainedStart = chained?.startAt ?? null;
 
@@ -481,8 +655,7 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
 
       // Origin changes trigger a rebuild (only when no custom override, since custom overrides
       // are stable until explicitly changed via the admin API)
-      const existingEffectiveOrigin =
-        existing.customOrigin ?? existing.detectedOrigin ?? homeAddress;
+      const existingEffectiveOrigin = existing.customOrigin ?? existing.detectedOrigin ?? eventHome;
       const originChanged = effectiveOrigin !== existingEffectiveOrigin;
 
       // A shift in the chaining candidate invalidates the cached suppression decision.
@@ -694,7 +867,7 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
             mode: travelMode,
           }),
       chained
-        ? calculateTravelMinutes(homeAddress, chained.location, chained.startAt, {
+        ? calculateTravelMinutes(eventHome, chained.location, chained.startAt, {
             useArrivalTime: true,
             mode: travelMode,
           })
@@ -846,6 +1019,9 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     }
   }
 
+  // A scoped pass only saw part of the window, so absence proves nothing.
+  if (scope) return;
+
   // Delete stale blocks whose source event no longer exists
   for (const block of existingBlocks) {
     const key = `${block.sourceEventId}|${block.calendarEmail}`;
@@ -859,29 +1035,6 @@ export async function refreshCalendarCache(): Promise<RefreshResult> {
     // while still upcoming (cancelled or deleted) are cleaned up.
     if (block.eventEndAt < now) continue;
 
-    const staleIds = [block.beforeEventId, block.afterEventId].filter(
-      (id): id is string => id !== null,
-    );
-    if (staleIds.length > 0) {
-      try {
-        await prisma.calendarEventCache.deleteMany({
-          where: { eventId: { in: staleIds } },
-        });
-      } catch (err) {
-        console.error("[refreshCalendarCache] Failed to delete stale travel cache entries:", err);
-      }
-    }
-
-    try {
-      await prisma.travelBlock.delete({ where: { id: block.id } });
-      console.log(`[refreshCalendarCache] Removed stale travel block for: ${block.sourceEventId}`);
-    } catch (err) {
-      console.error("[refreshCalendarCache] Failed to delete TravelBlock record:", err);
-    }
+    await removeTravelBlock(block);
   }
-
-  return {
-    cachedCount: rawEvents.length,
-    deletedCount: deleteResult.count,
-  };
 }
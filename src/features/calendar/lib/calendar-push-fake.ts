@@ -0,0 +1,85 @@
+// src/features/calendar/lib/calendar-push-fake.ts
+/**
+ * @description Local stand-in for Google push notifications, for dev and tests.
+ * A real ping carries only headers and the receiver asks Google what changed;
+ * a fake ping carries the changed events in its body instead, so the whole
+ * notification > cache > TravelBlock path runs with no Google account and no
+ * network. {@link buildFakePushNotification} produces one (see
+ * scripts/fake-calendar-push.ts); channels are "opened" locally by
+ * {@link openFakeChannel}. calendar-sync.ts refuses fake mode in production.
+ */
+
+import type { CalendarEvent, CalendarWatchChannel } from "@/features/calendar/lib/google-calendar";
+
+/** The change set a fake ping delivers in place of a sync-token listing. */
+export interface FakePushChanges {
+  changed: CalendarEvent[];
+  removedIds: string[];
+}
+
+/**
+ * Stands in for events.watch: no Google call, just a plausible resource id and
+ * the requested expiry.
+ * @param calendarId - Calendar being "watched".
+ * @param ttlSeconds - Requested lifetime.
+ * @returns The fake channel.
+ */
+export function openFakeChannel(calendarId: string, ttlSeconds: number): CalendarWatchChannel {
+  return {
+    resourceId: `fake-resource:${calendarId}`,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+  };
+}
+
+/**
+ * Builds a fake push ping for a stored channel, ready to POST to
+ * /api/calendar/webhook. Headers mirror Google's, so the receiver's channel
+ * and token checks run exactly as they would live.
+ * @param channel - The channel as stored on CalendarSyncState.
+ * @param channel.channelId - Channel id.
+ * @param channel.channelToken - Channel secret.
+ * @param channel.resourceId - Watched resource id.
+ * @param changes - Events to report as changed or removed.
+ * @returns The body and the headers to send with it.
+ */
+export function buildFakePushNotification(
+  channel: { channelId: string; channelToken: string; resourceId: string },
+  changes: FakePushChanges,
+): { body: string; headers: Record<string, string> } {
+  return {
+    body: JSON.stringify(changes),
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Channel-ID": channel.channelId,
+      "X-Goog-Channel-Token": channel.channelToken,
+      "X-Goog-Resource-ID": channel.resourceId,
+      "X-Goog-Resource-State": "exists",
+    },
+  };
+}
+
+/**
+ * Reads the change set from a fake ping's body.
+ * @param rawBody - Body exactly as received.
+ * @returns The changes, or null when the body isn't a {@link FakePushChanges}.
+ */
+export function parseFakePushChanges(rawBody: string): FakePushChanges | null {
+  let body: Partial<FakePushChanges>;
+  try {
+    body = JSON.parse(rawBody) as Partial<FakePushChanges>;
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(body.changed) || !Array.isArray(body.removedIds)) return null;
+  const eventsOk = body.changed.every(
+    (e) =>
+      typeof e?.id === "string" &&
+      typeof e.start === "string" &&
+      typeof e.end === "string" &&
+      typeof e.calendarEmail === "string" &&
+      !Number.isNaN(Date.parse(e.start)) &&
+      !Number.isNaN(Date.parse(e.end)),
+  );
+  if (!eventsOk || !body.removedIds.every((id) => typeof id === "string")) return null;
+  return { changed: body.changed, removedIds: body.removedIds };
+}
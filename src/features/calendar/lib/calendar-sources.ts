@@ -0,0 +1,254 @@
+// src/features/calendar/lib/calendar-sources.ts
+/**
+ * @description Every calendar that blocks availability, behind one fetch. Google
+ * (via {@link fetchAllCalendarEvents}) is always read; the read-only ICS feeds
+ * and CalDAV collections listed in availability settings are read alongside it,
+ * expanded into concrete occurrences by the ics.ts parser, and returned as
+ * {@link CalendarEvent}s tagged with their source. Availability callers use
+ * {@link fetchAllSourceEvents} as a drop-in for the Google-only fetch.
+ */
+
+import {
+  expandIcsEvents,
+  type IcsOccurrence,
+  type ParsedIcsEvent,
+  parseIcs,
+} from "@/features/booking/lib/ics";
+import {
+  type CalendarEvent,
+  fetchAllCalendarEvents,
+} from "@/features/calendar/lib/google-calendar";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import type { ExternalCalendar } from "@/shared/lib/settings/types";
+
+// Per-request limit; a slow feed must not hold up the booking page for long.
+const SOURCE_TIMEOUT_MS = 10_000;
+
+/** One readable calendar, whatever protocol sits behind it. */
+export interface CalendarSource {
+  /** Stored as CalendarEventCache.calendarEmail, e.g. "ics:sam-icloud". */
+  tag: string;
+  /** Operator-facing name, for logs. */
+  label: string;
+  /**
+   * Events overlapping a window, recurring series already expanded.
+   * @param start - Window start.
+   * @param end - Window end.
+   * @returns The events; rejects when the calendar can't be read.
+   */
+  fetchEvents: (start: Date, end: Date) => Promise<CalendarEvent[]>;
+}
+
+/**
+ * The tag an external calendar's events carry in place of a Google calendar id.
+ * Kind-prefixed so it can never collide with a real calendar id.
+ * @param calendar - Settings entry.
+ * @returns `<kind>:<id>`.
+ */
+export function externalCalendarKey(calendar: ExternalCalendar): string {
+  return `${calendar.kind}:${calendar.id}`;
+}
+
+/**
+ * webcal:// is just a calendar-app hint for https.
+ * @param url - URL from settings.
+ * @returns The URL to fetch.
+ */
+function toFetchUrl(url: string): string {
+  return url.replace(/^webcal:\/\//i, "https://");
+}
+
+/**
+ * Maps occurrences onto {@link CalendarEvent}s, dropping all-day ones when the
+ * calendar isn't set to block them.
+ * @param occurrences - Expanded occurrences.
+ * @param calendar - Settings entry they came from.
+ * @returns Blocking events.
+ */
+function toCalendarEvents(
+  occurrences: IcsOccurrence[],
+  calendar: ExternalCalendar,
+): CalendarEvent[] {
+  const tag = externalCalendarKey(calendar);
+  return occurrences
+    .filter((o) => calendar.blockAllDay || !o.allDay)
+    .map((o) => ({
+      id: o.id,
+      start: o.start.toISOString(),
+      end: o.end.toISOString(),
+      summary: o.summary,
+      description: o.description,
+      location: o.location,
+      calendarEmail: tag,
+      recurringEventId: o.recurringUid,
+      source: calendar.kind,
+    }));
+}
+
+/**
+ * Downloads and parses a published ICS feed. Feeds are whole-calendar
+ * documents, so the window is applied at expansion, not in the request.
+ * @param calendar - Settings entry (kind "ics").
+ * @returns Parsed events.
+ */
+async function readIcsFeed(calendar: ExternalCalendar): Promise<ParsedIcsEvent[]> {
+  const res = await fetch(toFetchUrl(calendar.url), {
+    headers: { Accept: "text/calendar" },
+    signal: AbortSignal.timeout(SOURCE_TIMEOUT_MS),
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error(`ICS feed returned ${res.status}`);
+  return parseIcs(await res.text());
+}
+
+/**
+ * Decodes the XML escaping and CDATA wrapping a calendar-data element may use.
+ * @param xml - Element content.
+ * @returns The iCalendar text.
+ */
+function decodeXmlText(xml: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(xml);
+  if (cdata) return cdata[1];
+  return xml
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Reads a CalDAV collection with a calendar-query REPORT limited to the
+ * window. The server returns whole objects (recurring masters included), so
+ * expansion still happens here. The password comes from the env var the
+ * settings entry names, never from settings.
+ * @param calendar - Settings entry (kind "caldav").
+ * @param start - Window start.
+ * @param end - Window end.
+ * @returns Parsed events from every returned object.
+ */
+async function readCalDavCollection(
+  calendar: ExternalCalendar,
+  start: Date,
+  end: Date,
+): Promise<ParsedIcsEvent[]> {
+  const password = process.env[calendar.passwordEnv];
+  if (!password) throw new Error(`${calendar.passwordEnv} is not set`);
+
+  /**
+   * CalDAV time-range stamp (UTC basic format).
+   * @param date - Instant.
+   * @returns e.g. "20261102T090000Z".
+   */
+  const stamp = (date: Date): string =>
+    date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${stamp(start)}" end="${stamp(end)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+  const res = await fetch(toFetchUrl(calendar.url), {
+    method: "REPORT",
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${calendar.username}:${password}`).toString("base64")}`,
+      "Content-Type": "application/xml; charset=utf-8",
+      Depth: "1",
+    },
+    body,
+    signal: AbortSignal.timeout(SOURCE_TIMEOUT_MS),
+    cache: "no-store",
+  });
+  // 207 Multi-Status is the success answer to a REPORT.
+  if (!res.ok) throw new Error(`CalDAV REPORT returned ${res.status}`);
+
+  const xml = await res.text();
+  const events: ParsedIcsEvent[] = [];
+  // Namespace prefixes vary by server (cal:, C:, none), so match any.
+  const pattern = /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  for (const match of xml.matchAll(pattern)) {
+    events.push(...parseIcs(decodeXmlText(match[1])));
+  }
+  return events;
+}
+
+/**
+ * Wraps one settings entry as a {@link CalendarSource}.
+ * @param calendar - Settings entry.
+ * @returns The source.
+ */
+export function toCalendarSource(calendar: ExternalCalendar): CalendarSource {
+  return {
+    tag: externalCalendarKey(calendar),
+    label: calendar.label,
+    /**
+     * Reads the calendar and expands it over the window.
+     * @param start - Window start.
+     * @param end - Window end.
+     * @returns The blocking events.
+     */
+    fetchEvents: async (start, end) => {
+      const parsed =
+        calendar.kind === "caldav"
+          ? await readCalDavCollection(calendar, start, end)
+          : await readIcsFeed(calendar);
+      return toCalendarEvents(expandIcsEvents(parsed, start, end), calendar);
+    },
+  };
+}
+
+/**
+ * Reads every enabled external calendar concurrently. A failure is logged and
+ * skipped, never thrown: a broken feed must not take Google availability down
+ * with it, and its cached rows keep blocking until they expire.
+ * @param start - Window start.
+ * @param end - Window end.
+ * @returns Events from every external calendar that could be read.
+ */
+export async function fetchExternalSourceEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+  const settings = await getSettings();
+  const sources = settings.availability.externalCalendars
+    .filter((c) => c.enabled)
+    .map(toCalendarSource);
+
+  const results = await Promise.all(
+    sources.map(async (source): Promise<CalendarEvent[]> => {
+      try {
+        const events = await source.fetchEvents(start, end);
+        console.log(`[calendar] ${source.tag} (${source.label}): ${events.length} events`);
+        return events;
+      } catch (error) {
+        console.error(`[calendar] Failed to read ${source.tag} (${source.label}):`, error);
+        return [];
+      }
+    }),
+  );
+  return results.flat();
+}
+
+/**
+ * Google plus every external calendar, for availability. Same contract as
+ * {@link fetchAllCalendarEvents}: throws only when Google can't be read at
+ * all; an unreachable external calendar is logged and skipped.
+ * @param start - Window start.
+ * @param end - Window end.
+ * @returns Events from every calendar.
+ */
+export async function fetchAllSourceEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+  const [google, external] = await Promise.all([
+    fetchAllCalendarEvents(start, end),
+    fetchExternalSourceEvents(start, end),
+  ]);
+  return [...google, ...external];
+}
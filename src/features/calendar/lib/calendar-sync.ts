@@ -0,0 +1,438 @@
+// src/features/calendar/lib/calendar-sync.ts
+/**
+ * @description Push-driven incremental calendar sync. Google pings
+ * /api/calendar/webhook whenever a watched calendar changes; the ping only names
+ * the channel, so this lists what changed since the calendar's stored sync
+ * token, applies just that to CalendarEventCache, and re-evaluates TravelBlocks
+ * for the changed events and their neighbours rather than the whole window. The
+ * renewal cron keeps one channel open per calendar. Chosen by CALENDAR_PUSH:
+ *
+ *   google - real push channels; Google must be able to reach the site URL over HTTPS.
+ *   fake   - local stand-in for dev and tests (see calendar-push-fake.ts), where
+ *            pings carry their own changes; refused in production.
+ *
+ * Unset = push off: the refresh cron stays the only writer, exactly as before.
+ * With push on the refresh cron becomes a daily reconciliation pass.
+ */
+
+import {
+  calendarCacheExpiry,
+  getTravelWindowStart,
+  refreshCalendarCache,
+  removeTravelBlock,
+  RETURN_CHAINING_LOOKAHEAD_MS,
+  syncTravelBlocks,
+  upsertCachedEvent,
+} from "@/features/calendar/lib/calendar-cache";
+import {
+  openFakeChannel,
+  parseFakePushChanges,
+  type FakePushChanges,
+} from "@/features/calendar/lib/calendar-push-fake";
+import {
+  fetchAccessibleCalendarIds,
+  listCalendarChanges,
+  SCHEDULE_CALENDAR_TAG,
+  stopCalendarChannel,
+  watchCalendar,
+  type CalendarEvent,
+  type CalendarWatchChannel,
+} from "@/features/calendar/lib/google-calendar";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import type { CalendarSyncState } from "@prisma/client";
+import { randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { revalidateTag } from "next/cache";
+
+/** Lifetime requested for each channel; Google caps calendar channels near a week. */
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** A channel this close to expiry is replaced, so a missed daily renewal run is harmless. */
+const RENEW_BEFORE_MS = 2 * 24 * 60 * 60 * 1000;
+
+/** Counts from one sync of one calendar. */
+export interface CalendarSyncResult {
+  calendarId: string;
+  changed: number;
+  removed: number;
+  /** Events whose TravelBlocks were re-evaluated (changed events plus neighbours). */
+  reevaluated: number;
+  /** True when the sync token was missing or rejected and the whole window was refreshed. */
+  fullResync: boolean;
+}
+
+/** Outcome of one webhook delivery, mirroring the payment webhook's shape. */
+export type CalendarPushResult =
+  | { kind: "invalid"; reason: string }
+  | { kind: "ignored" }
+  | { kind: "synced"; result: CalendarSyncResult };
+
+/**
+ * The configured push mode, or null when push sync is off.
+ * @returns "google", "fake", or null.
+ */
+export function getCalendarPushMode(): "google" | "fake" | null {
+  const choice = process.env.CALENDAR_PUSH?.trim().toLowerCase();
+  if (choice === "google") return "google";
+  if (choice === "fake") {
+    // A fake ping writes whatever events it carries - never live.
+    if (process.env.NODE_ENV === "production") {
+      console.warn("[calendar-sync] Fake calendar push is refused in production.");
+      return null;
+    }
+    return "fake";
+  }
+  return null;
+}
+
+/**
+ * Constant-time comparison of the token on a ping with the stored one.
+ * @param given - X-Goog-Channel-Token from the request.
+ * @param expected - CalendarSyncState.channelToken.
+ * @returns True when they match.
+ */
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Verifies and acts on one push delivery: finds the channel it names, checks
+ * its token, and syncs that calendar. Google's initial "sync" ping (sent when a
+ * channel opens) and pings for channels we have since replaced are ignored.
+ * @param rawBody - Body as received; empty from Google, the changes from a fake ping.
+ * @param headers - Request headers.
+ * @returns The delivery outcome.
+ */
+export async function handleCalendarPush(
+  rawBody: string,
+  headers: Headers,
+): Promise<CalendarPushResult> {
+  const mode = getCalendarPushMode();
+  const channelId = headers.get("x-goog-channel-id");
+  const token = headers.get("x-goog-channel-token");
+  const state = headers.get("x-goog-resource-state");
+  if (!mode || !channelId || !token || !state) {
+    return { kind: "invalid", reason: "Missing channel headers." };
+  }
+
+  const sync = await prisma.calendarSyncState.findFirst({ where: { channelId } });
+  // A replaced channel can still ping until Google expires it; nothing to do.
+  if (!sync?.channelToken) return { kind: "ignored" };
+  if (!tokensMatch(token, sync.channelToken)) {
+    return { kind: "invalid", reason: "Channel token mismatch." };
+  }
+  if (state === "sync") return { kind: "ignored" };
+
+  let supplied: FakePushChanges | undefined;
+  if (mode === "fake") {
+    const parsed = parseFakePushChanges(rawBody);
+    if (!parsed) return { kind: "invalid", reason: "Fake ping body is not a change set." };
+    supplied = parsed;
+  }
+  return { kind: "synced", result: await syncCalendar(sync.calendarId, supplied) };
+}
+
+/**
+ * Brings one calendar current. Lists the changes since its sync token (or uses
+ * the ones a fake ping supplied) and applies them; with no usable token - first
+ * run, or Google expired it - runs the full refresh instead and stores a fresh
+ * token so the next ping is incremental again.
+ * @param calendarId - Calendar to sync.
+ * @param supplied - Changes delivered by a fake ping, in place of a listing.
+ * @returns What the sync did.
+ */
+export async function syncCalendar(
+  calendarId: string,
+  supplied?: FakePushChanges,
+): Promise<CalendarSyncResult> {
+  const now = new Date();
+  if (supplied) return applyCalendarChanges(calendarId, supplied, now);
+
+  const state = await prisma.calendarSyncState.findUnique({ where: { calendarId } });
+  const windowStart = getTravelWindowStart(now);
+  const listed = state?.syncToken
+    ? await listCalendarChanges(calendarId, state.syncToken, windowStart)
+    : null;
+
+  if (!listed) {
+    if (state?.syncToken) {
+      console.warn(`[calendar-sync] Sync token for ${calendarId} expired; full resync`);
+    }
+    // Take the baseline token first: anything that changes between the listing
+    // and the refresh is simply delivered again on the next ping.
+    const baseline = await listCalendarChanges(calendarId, null, windowStart);
+    if (!baseline) throw new Error(`Google rejected a token-less listing of ${calendarId}`);
+    const refreshed = await refreshCalendarCache();
+    await saveSyncState(calendarId, { syncToken: baseline.nextSyncToken, lastSyncedAt: now });
+    revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+    return {
+      calendarId,
+      changed: refreshed.cachedCount,
+      removed: refreshed.deletedCount,
+      reevaluated: 0,
+      fullResync: true,
+    };
+  }
+
+  const result = await applyCalendarChanges(calendarId, listed, now);
+  await saveSyncState(calendarId, { syncToken: listed.nextSyncToken, lastSyncedAt: now });
+  return result;
+}
+
+/**
+ * Applies one calendar's change set: removed events (and events that moved out
+ * of the window) leave the cache along with their upcoming TravelBlocks,
+ * changed events are upserted, and TravelBlocks are re-evaluated for every
+ * event close enough to a change that its smart origin or return chaining
+ * could have shifted. Neighbour detection works from the cache, which now
+ * carries each event's location and title.
+ * @param calendarId - Calendar the changes came from.
+ * @param changes - Changed and removed events.
+ * @param now - Sync time.
+ * @returns What the sync did.
+ */
+async function applyCalendarChanges(
+  calendarId: string,
+  changes: FakePushChanges,
+  now: Date,
+): Promise<CalendarSyncResult> {
+  const settings = await getSettings();
+  const scheduling = settings.scheduling;
+  const windowStart = getTravelWindowStart(now);
+  const windowEnd = new Date(
+    now.getTime() + settings.availability.maxAdvanceDays * 24 * 60 * 60 * 1000,
+  );
+
+  const ignoredRows = await prisma.travelBlock.findMany({
+    where: { ignored: true, calendarEmail: calendarId },
+    select: { sourceEventId: true, calendarEmail: true },
+  });
+  const ignoredKeys = new Set(ignoredRows.map((r) => `${r.sourceEventId}|${r.calendarEmail}`));
+  /**
+   * Whether the admin flagged this event "I have the car that day".
+   * @param e - Event.
+   * @returns True when ignored.
+   */
+  const isIgnored = (e: CalendarEvent): boolean => ignoredKeys.has(`${e.id}|${e.calendarEmail}`);
+
+  // Only this calendar's events can arrive on its channel.
+  const changed = changes.changed.filter((e) => e.calendarEmail === calendarId);
+  const inWindow = changed.filter(
+    (e) => new Date(e.end) > windowStart && new Date(e.start) < windowEnd,
+  );
+  const removedIds = [
+    ...changes.removedIds,
+    ...changed.filter((e) => !inWindow.includes(e)).map((e) => e.id),
+  ];
+
+  // Where the touched events sat before this change: a neighbour of the old
+  // slot may need its origin or chaining re-evaluated as much as one of the new.
+  const touchedIds = [...changed.map((e) => e.id), ...removedIds];
+  const previous = await prisma.calendarEventCache.findMany({
+    where: { calendarEmail: calendarId, eventId: { in: touchedIds } },
+    select: { startAt: true, endAt: true },
+  });
+
+  if (removedIds.length > 0) {
+    await prisma.calendarEventCache.deleteMany({
+      where: { calendarEmail: calendarId, eventId: { in: removedIds } },
+    });
+    // Matches the refresh's stale cleanup: finished events keep their blocks as
+    // the record, and an admin-ignored block carries the flag, so it stays too.
+    const staleBlocks = await prisma.travelBlock.findMany({
+      where: {
+        calendarEmail: calendarId,
+        sourceEventId: { in: removedIds },
+        ignored: false,
+        eventEndAt: { gte: now },
+      },
+      select: { id: true, sourceEventId: true, beforeEventId: true, afterEventId: true },
+    });
+    for (const block of staleBlocks) await removeTravelBlock(block);
+  }
+
+  const cacheExpiry = await calendarCacheExpiry(now);
+  const cached = inWindow.filter((e) => !isIgnored(e));
+  await Promise.all(cached.map((e) => upsertCachedEvent(e, now, cacheExpiry)));
+
+  // Everything smart-origin and chaining could reach from a touched slot.
+  const reachMs =
+    Math.max(scheduling.smartOriginLookaheadHours * 60 * 60 * 1000, RETURN_CHAINING_LOOKAHEAD_MS) +
+    scheduling.travelBackDepartureBufferMin * 60 * 1000;
+  const spans = [
+    ...previous.map((p) => ({ start: p.startAt.getTime(), end: p.endAt.getTime() })),
+    ...inWindow.map((e) => ({ start: Date.parse(e.start), end: Date.parse(e.end) })),
+  ];
+
+  let reevaluated = 0;
+  if (spans.length > 0) {
+    const windowEvents = await loadCachedWindowEvents(windowStart, windowEnd, now);
+    // An ignored event is skipped by the travel pass but still belongs in the
+    // window as a candidate, as it does on a full refresh.
+    windowEvents.push(...inWindow.filter(isIgnored));
+    const scope = new Set(
+      windowEvents
+        .filter((e) => {
+          const start = Date.parse(e.start);
+          const end = Date.parse(e.end);
+          return spans.some((s) => start <= s.end + reachMs && end >= s.start - reachMs);
+        })
+        .map((e) => `${e.id}|${e.calendarEmail}`),
+    );
+    reevaluated = scope.size;
+    if (scope.size > 0) {
+      await syncTravelBlocks(windowEvents, { now, cacheExpiry, ignoredKeys }, scope);
+    }
+  }
+
+  revalidateTag(SCHEDULE_CALENDAR_TAG, {});
+  console.log(
+    `[calendar-sync] ${calendarId}: ${inWindow.length} changed, ${removedIds.length} removed, ${reevaluated} re-evaluated`,
+  );
+  return {
+    calendarId,
+    changed: inWindow.length,
+    removed: removedIds.length,
+    reevaluated,
+    fullResync: false,
+  };
+}
+
+/**
+ * Rebuilds the window's real events from the cache for the travel pass. The
+ * synthetic travel-to / travel-back rows are left out; they are outputs of
+ * that pass, not inputs. So are ICS / CalDAV rows, which the full refresh
+ * never feeds into it either.
+ * @param windowStart - Travel window start.
+ * @param windowEnd - Booking horizon.
+ * @param now - Current time (expired rows are skipped).
+ * @returns Cached events as {@link CalendarEvent}s.
+ */
+async function loadCachedWindowEvents(
+  windowStart: Date,
+  windowEnd: Date,
+  now: Date,
+): Promise<CalendarEvent[]> {
+  const rows = await prisma.calendarEventCache.findMany({
+    where: {
+      startAt: { lt: windowEnd },
+      endAt: { gt: windowStart },
+      expiresAt: { gt: now },
+      NOT: [{ eventId: { startsWith: "travel-" } }, { source: { in: ["ics", "caldav"] } }],
+    },
+  });
+  return rows.map((r) => ({
+    id: r.eventId,
+    start: r.startAt.toISOString(),
+    end: r.endAt.toISOString(),
+    summary: r.summary ?? undefined,
+    location: r.location ?? undefined,
+    calendarEmail: r.calendarEmail,
+    recurringEventId: r.recurringEventId ?? undefined,
+  }));
+}
+
+/**
+ * Upserts one calendar's sync state.
+ * @param calendarId - Calendar.
+ * @param data - Fields to write.
+ * @returns Promise that resolves when saved.
+ */
+async function saveSyncState(
+  calendarId: string,
+  data: Partial<Omit<CalendarSyncState, "id" | "calendarId" | "createdAt" | "updatedAt">>,
+): Promise<void> {
+  await prisma.calendarSyncState.upsert({
+    where: { calendarId },
+    create: { calendarId, ...data },
+    update: data,
+  });
+}
+
+/** Counts from one renewal run. */
+export interface ChannelRenewalResult {
+  renewed: number;
+  kept: number;
+  failed: number;
+}
+
+/**
+ * Keeps one open push channel per configured calendar: opens a channel where
+ * there is none, replaces any within {@link RENEW_BEFORE_MS} of expiry (closing
+ * the old one so Google stops pinging it), and takes a baseline sync token
+ * for calendars that have never synced. No-op when push is off.
+ * @returns How many channels were opened, left alone, or failed.
+ */
+export async function renewCalendarChannels(): Promise<ChannelRenewalResult> {
+  const result: ChannelRenewalResult = { renewed: 0, kept: 0, failed: 0 };
+  const mode = getCalendarPushMode();
+  if (!mode) return result;
+
+  const now = new Date();
+  const address = `${getSiteUrl()}/api/calendar/webhook`;
+  for (const calendarId of fetchAccessibleCalendarIds()) {
+    const state = await prisma.calendarSyncState.findUnique({ where: { calendarId } });
+    if (
+      state?.channelExpiresAt &&
+      state.channelExpiresAt.getTime() - now.getTime() > RENEW_BEFORE_MS
+    ) {
+      result.kept++;
+      continue;
+    }
+
+    const channelId = randomUUID();
+    const token = randomBytes(24).toString("hex");
+    try {
+      const channel: CalendarWatchChannel =
+        mode === "fake"
+          ? openFakeChannel(calendarId, CHANNEL_TTL_SECONDS)
+          : await watchCalendar({
+              calendarId,
+              channelId,
+              token,
+              address,
+              ttlSeconds: CHANNEL_TTL_SECONDS,
+            });
+      await saveSyncState(calendarId, {
+        channelId,
+        channelToken: token,
+        resourceId: channel.resourceId,
+        channelExpiresAt: channel.expiresAt,
+        lastError: null,
+      });
+      result.renewed++;
+      console.log(
+        `[calendar-sync] Opened channel for ${calendarId} until ${channel.expiresAt.toISOString()}`,
+      );
+    } catch (err) {
+      console.error(`[calendar-sync] Failed to open channel for ${calendarId}:`, err);
+      await saveSyncState(calendarId, {
+        lastError: err instanceof Error ? err.message : "Failed to open channel",
+      });
+      result.failed++;
+      continue;
+    }
+
+    // Best effort: an unclosed channel only costs ignored pings until it expires.
+    if (mode === "google" && state?.channelId && state.resourceId) {
+      try {
+        await stopCalendarChannel({ channelId: state.channelId, resourceId: state.resourceId });
+      } catch (err) {
+        console.warn(`[calendar-sync] Failed to stop old channel for ${calendarId}:`, err);
+      }
+    }
+
+    // Without a token the first ping would full-resync anyway; take it now.
+    if (mode === "google" && !state?.syncToken) {
+      try {
+        await syncCalendar(calendarId);
+      } catch (err) {
+        console.error(`[calendar-sync] Baseline sync failed for ${calendarId}:`, err);
+      }
+    }
+  }
+  return result;
+}
@@ -7,7 +7,7 @@ import { google, type calendar_v3 } from "googleapis";
 import { unstable_cache } from "next/cache";
 
 import { requireEnv } from "@/shared/lib/env";
-import { getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
+import { addDaysToDateKey, getPacificAucklandOffset } from "@/shared/lib/timezone-utils";
 
 /**
  * Cache tag invalidated by routes that mutate bookings or blocked days so the
@@ -33,7 +33,7 @@ export function getBookingCalendarId(): string {
  * (Holidays, Birthdays, etc.) from unexpectedly blocking booking slots.
  * @returns Array of calendar ID strings.
  */
-function fetchAccessibleCalendarIds(): string[] {
+export function fetchAccessibleCalendarIds(): string[] {
   const ids = [
     process.env.BOOKING_CALENDAR_ID,
     // Car calendar (renamed from Work); fall back to the old env name during
@@ -85,6 +85,8 @@ export interface CalendarEvent {
   // Parent series ID when this event is a recurring instance (from Google Calendar
   // singleEvents expansion). Stable across all occurrences of the same series.
   recurringEventId?: string;
+  /** Set for events read from an external ICS / CalDAV calendar; absent for Google. */
+  source?: "ics" | "caldav";
 }
 
 /**
@@ -355,6 +357,119 @@ export async function listBlockedDayRanges(
     }));
 }
 
+/**
+ * Blocks one NZ day, merging with any contiguous block so adjacent days collapse
+ * into a single span instead of piling up separate one-day "Busy" events.
+ * Shared by the admin block-day route and the clear-day flow's final step.
+ * @param params - Block parameters.
+ * @param params.dateKey - NZ-local YYYY-MM-DD for the day to block.
+ * @param params.summary - Title used when a standalone block is created.
+ * @returns Id of the event that now covers the day.
+ */
+export async function blockDayMergingAdjacent(params: {
+  dateKey: string;
+  summary: string;
+}): Promise<{ eventId: string }> {
+  const { dateKey, summary } = params;
+  const nextKey = addDaysToDateKey(dateKey, 1);
+
+  // `before` ends exactly at D (its last covered day is D-1); `after` starts at
+  // D+1. Best effort: a failed adjacency lookup falls through to a standalone create.
+  let before: (BlockedDayRange & { eventId: string }) | null = null;
+  let after: (BlockedDayRange & { eventId: string }) | null = null;
+  try {
+    const nearby = await listBlockedDayRanges(
+      addDaysToDateKey(dateKey, -1),
+      addDaysToDateKey(dateKey, 2),
+    );
+    before = nearby.find((b) => b.endDateKey === dateKey) ?? null;
+    after = nearby.find((b) => b.startDateKey === nextKey) ?? null;
+  } catch (err) {
+    console.warn("[calendar] Adjacency lookup failed; creating standalone block:", err);
+  }
+
+  if (before && after) {
+    // Bridge the two blocks: stretch `before` through `after`'s end, drop `after`.
+    await patchBlockedDayRange({
+      eventId: before.eventId,
+      startDateKey: before.startDateKey,
+      endDateKey: after.endDateKey,
+    });
+    await deleteBookingEvent({ eventId: after.eventId });
+    return { eventId: before.eventId };
+  }
+  if (before) {
+    await patchBlockedDayRange({
+      eventId: before.eventId,
+      startDateKey: before.startDateKey,
+      endDateKey: nextKey,
+    });
+    return { eventId: before.eventId };
+  }
+  if (after) {
+    await patchBlockedDayRange({
+      eventId: after.eventId,
+      startDateKey: dateKey,
+      endDateKey: after.endDateKey,
+    });
+    return { eventId: after.eventId };
+  }
+  return createBlockedDayEvent({ dateKey, summary });
+}
+
+/**
+ * Normalises one Google event into a {@link CalendarEvent}, or null when it
+ * should not block time: cancelled, declined, or an all-day event on the
+ * personal calendar. Non-personal all-day events become full NZ-day blocks.
+ * Shared by the window fetch and the push-sync change feed so both agree on
+ * what counts as busy.
+ * @param event - Raw Google event.
+ * @param calendarId - Calendar the event came from.
+ * @param isPersonal - Whether that is the personal calendar.
+ * @returns The blocking event, or null.
+ */
+export function toCalendarEvent(
+  event: calendar_v3.Schema$Event,
+  calendarId: string,
+  isPersonal: boolean,
+): CalendarEvent | null {
+  // Skip cancelled events (organiser cancelled or event was deleted)
+  if (event.status === "cancelled" || !event.id) return null;
+
+  // Skip events the user has declined
+  const selfAttendee = event.attendees?.find((a) => a.self);
+  if (selfAttendee?.responseStatus === "declined") return null;
+
+  const details = {
+    id: event.id,
+    summary: event.summary || undefined,
+    description: event.description || undefined,
+    location: event.location || undefined,
+    calendarEmail: calendarId,
+    htmlLink: event.htmlLink || undefined,
+    recurringEventId: event.recurringEventId || undefined,
+  };
+
+  if (event.start?.dateTime && event.end?.dateTime) {
+    // Timed event - always block regardless of calendar
+    return { ...details, start: event.start.dateTime, end: event.end.dateTime };
+  }
+  if (event.start?.date && event.end?.date && !isPersonal) {
+    // All-day event from a non-personal calendar - block the full NZ day(s).
+    // All-day events use date strings ("YYYY-MM-DD"); end.date is exclusive.
+    // Convert NZ calendar midnight > UTC so slot checking works correctly.
+    const [sYear, sMonth, sDay] = event.start.date.split("-").map(Number);
+    const [eYear, eMonth, eDay] = event.end.date.split("-").map(Number);
+    const utcOffset = getPacificAucklandOffset(sYear, sMonth, sDay);
+    // NZ midnight = UTC hour 0 minus utcOffset (JS Date handles negative hour wrap)
+    const startAt = new Date(Date.UTC(sYear, sMonth - 1, sDay, -utcOffset, 0, 0));
+    const endAt = new Date(Date.UTC(eYear, eMonth - 1, eDay, -utcOffset, 0, 0));
+    return { ...details, start: startAt.toISOString(), end: endAt.toISOString() };
+  }
+  // All-day events from the personal calendar are intentionally skipped
+  return null;
+}
+
 /**
  * Fetches all calendar events from specified calendars (no list permission needed)
  * @param startDate - Start of range
@@ -399,55 +514,9 @@ export async function fetchAllCalendarEvents(
           pageToken = response.data.nextPageToken ?? undefined;
         } while (pageToken);
         const isPersonal = Boolean(personalCalendarId) && calendarId === personalCalendarId;
-        const processedEvents: CalendarEvent[] = [];
-
-        for (const event of events) {
-          // Skip cancelled events (organiser cancelled or event was deleted)
-          if (event.status === "cancelled") continue;
-
-          // Skip events the user has declined
-          const selfAttendee = event.attendees?.find((a) => a.self);
-          if (selfAttendee?.responseStatus === "declined") continue;
-
-          if (event.start?.dateTime && event.end?.dateTime) {
-            // Timed event - always block regardless of calendar
-            processedEvents.push({
-              id: event.id!,
-              start: event.start.dateTime,
-              end: event.end.dateTime,
-              summary: event.summary || undefined,
-              description: event.description || undefined,
-              location: event.location || undefined,
-              calendarEmail: calendarId,
-              htmlLink: event.htmlLink || undefined,
-              recurringEventId: event.recurringEventId || undefined,
-            });
-          } else if (event.start?.date && event.end?.date && !isPersonal) {
-            // All-day event from a non-personal calendar - block the full NZ day(s).
-            // All-day events use date strings ("YYYY-MM-DD"); end.date is exclusive.
-            // Convert NZ calendar midnight > UTC so slot checking works correctly.
-            const startDateStr = event.start.date;
-            const endDateStr = event.end.date;
-            const [sYear, sMonth, sDay] = startDateStr.split("-").map(Number);
-            const [eYear, eMonth, eDay] = endDateStr.split("-").map(Number);
-            const utcOffset = getPacificAucklandOffset(sYear, sMonth, sDay);
-            // NZ midnight = UTC hour 0 minus utcOffset (JS Date handles negative hour wrap)
-            const startAt = new Date(Date.UTC(sYear, sMonth - 1, sDay, -utcOffset, 0, 0));
-            const endAt = new Date(Date.UTC(eYear, eMonth - 1, eDay, -utcOffset, 0, 0));
-            processedEvents.push({
-              id: event.id!,
-              start: startAt.toISOString(),
-              end: endAt.toISOString(),
-              summary: event.summary || undefined,
-              description: event.description || undefined,
-              location: event.location || undefined,
-              calendarEmail: calendarId,
-              htmlLink: event.htmlLink || undefined,
-              recurringEventId: event.recurringEventId || undefined,
-            });
-          }
-          // All-day events from the personal calendar are intentionally skipped
-        }
+        const processedEvents = events
+          .map((event) => toCalendarEvent(event, calendarId, isPersonal))
+          .filter((event): event is CalendarEvent => event !== null);
 
         console.log(`[calendar] ${calendarId}: ${processedEvents.length} events`);
         return processedEvents;
@@ -496,3 +565,128 @@ export const getCachedScheduleEvents = unstable_cache(
   ["schedule-calendar-events"],
   { tags: [SCHEDULE_CALENDAR_TAG], revalidate: 30 },
 );
+
+/** One page-through of a calendar's change feed. */
+export interface CalendarChanges {
+  /** Events that exist and block time, new or edited since the token. */
+  changed: CalendarEvent[];
+  /** Ids of events deleted, cancelled, declined, or otherwise no longer blocking. */
+  removedIds: string[];
+  /** Token for the next incremental call. */
+  nextSyncToken: string;
+}
+
+/**
+ * Lists what changed on one calendar since `syncToken`, paging through every
+ * result. Without a token this is the initial full listing from `timeMin`,
+ * whose only real use is the token it ends with. Uses the same singleEvents
+ * expansion as {@link fetchAllCalendarEvents}, which Google requires to stay
+ * identical between the full and incremental calls.
+ * @param calendarId - Calendar to read.
+ * @param syncToken - Token from the previous call, or null for a full listing.
+ * @param timeMin - Lower bound for the full listing (ignored with a token, which Google forbids).
+ * @returns Changed and removed events plus the next token, or null when Google
+ *   answered 410 Gone for the token and the caller must full-resync.
+ */
+export async function listCalendarChanges(
+  calendarId: string,
+  syncToken: string | null,
+  timeMin: Date,
+): Promise<CalendarChanges | null> {
+  const calendar = getCalendarClient();
+  const isPersonal = calendarId === (process.env.PERSONAL_CALENDAR_ID ?? "");
+
+  const changed: CalendarEvent[] = [];
+  const removedIds: string[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null | undefined;
+  do {
+    let page: calendar_v3.Schema$Events;
+    try {
+      const response = await calendar.events.list({
+        calendarId,
+        singleEvents: true,
+        maxResults: 2500,
+        pageToken,
+        ...(syncToken ? { syncToken } : { timeMin: timeMin.toISOString() }),
+      });
+      page = response.data;
+    } catch (err) {
+      if ((err as { code?: number }).code === 410) return null;
+      throw err;
+    }
+    for (const item of page.items ?? []) {
+      if (!item.id) continue;
+      const event = toCalendarEvent(item, calendarId, isPersonal);
+      if (event) changed.push(event);
+      else removedIds.push(item.id);
+    }
+    pageToken = page.nextPageToken ?? undefined;
+    nextSyncToken = page.nextSyncToken;
+  } while (pageToken);
+
+  if (!nextSyncToken) {
+    throw new Error(`Google returned no sync token for ${calendarId}`);
+  }
+  return { changed, removedIds, nextSyncToken };
+}
+
+/** An open push channel, as Google confirmed it. */
+export interface CalendarWatchChannel {
+  resourceId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Opens a push channel: Google POSTs a ping to `address` whenever the
+ * calendar's events change, carrying `token` so the receiver can tell a real
+ * ping from a forged one.
+ * @param params - Watch parameters.
+ * @param params.calendarId - Calendar to watch.
+ * @param params.channelId - Our unique id for the channel.
+ * @param params.token - Secret Google echoes in X-Goog-Channel-Token.
+ * @param params.address - HTTPS webhook URL.
+ * @param params.ttlSeconds - Requested lifetime; Google may cap it shorter.
+ * @returns Google's resource id and the actual expiry.
+ */
+export async function watchCalendar(params: {
+  calendarId: string;
+  channelId: string;
+  token: string;
+  address: string;
+  ttlSeconds: number;
+}): Promise<CalendarWatchChannel> {
+  const calendar = getCalendarClient();
+  const res = await calendar.events.watch({
+    calendarId: params.calendarId,
+    requestBody: {
+      id: params.channelId,
+      type: "web_hook",
+      address: params.address,
+      token: params.token,
+      params: { ttl: String(params.ttlSeconds) },
+    },
+  });
+  if (!res.data.resourceId || !res.data.expiration) {
+    throw new Error(`Google did not confirm the watch on ${params.calendarId}`);
+  }
+  return { resourceId: res.data.resourceId, expiresAt: new Date(Number(res.data.expiration)) };
+}
+
+/**
+ * Closes a push channel. Google keeps pinging an unclosed channel until it
+ * expires, so a renewal closes the one it replaces.
+ * @param params - Channel to stop.
+ * @param params.channelId - Our id for the channel.
+ * @param params.resourceId - Google's resource id from {@link watchCalendar}.
+ * @returns Promise that resolves when stopped.
+ */
+export async function stopCalendarChannel(params: {
+  channelId: string;
+  resourceId: string;
+}): Promise<void> {
+  const calendar = getCalendarClient();
+  await calendar.channels.stop({
+    requestBody: { id: params.channelId, resourceId: params.resourceId },
+  });
+}
@@ -0,0 +1,115 @@
+// src/features/calendar/lib/travel-matrix.server.ts
+/**
+ * @description Drive-time matrix for the day planner: every ordered pair of a
+ * day's stops priced by the configured {@link TravelTimeProvider}, with
+ * TravelTimeCache in front so re-planning a day (or a day sharing addresses
+ * with one already planned) doesn't spend Distance Matrix quota again. Pairs
+ * are cached per departure bucket - weekday or weekend, and NZ hour - rather
+ * than per exact time, which is as fine as the traffic model is useful here.
+ */
+
+import {
+  getTravelTimeProvider,
+  type TravelTimeProvider,
+} from "@/features/calendar/lib/travel-time-provider";
+import { prisma } from "@/shared/lib/prisma";
+import { getPacificAucklandOffset, nzDateParts } from "@/shared/lib/timezone-utils";
+
+/** Cached drive times older than this are fetched again. */
+export const TRAVEL_CACHE_TTL_DAYS = 30;
+
+/** Every planner lookup is a drive; the mode is still part of the cache key. */
+const MODE = "driving";
+
+/**
+ * Cache key form of an address: trimmed, lowercased, single-spaced.
+ * @param address - Address text.
+ * @returns Normalised address.
+ */
+export function normaliseAddress(address: string): string {
+  return address.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * The cache bucket a departure falls in.
+ * @param departAt - Departure time.
+ * @returns e.g. "wd-09" for a weekday 9am NZ, "we-14" for a weekend 2pm.
+ */
+export function departureBucket(departAt: Date): string {
+  const [y, m, d] = nzDateParts(departAt);
+  const hour = (departAt.getUTCHours() + getPacificAucklandOffset(y, m, d)) % 24;
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  const kind = weekday === 0 || weekday === 6 ? "we" : "wd";
+  return `${kind}-${String(hour).padStart(2, "0")}`;
+}
+
+/**
+ * Prices every ordered pair of addresses. The diagonal, and any two entries
+ * that normalise to the same address, are 0 without a lookup.
+ * @param addresses - Points on the route, base first by convention.
+ * @param departAt - Representative departure for the day.
+ * @param provider - Drive-time source; defaults to the configured one.
+ * @returns `matrix[i][j]` = minutes from i to j, or null where unpriceable.
+ */
+export async function buildTravelMatrix(
+  addresses: string[],
+  departAt: Date,
+  provider: TravelTimeProvider = getTravelTimeProvider(),
+): Promise<(number | null)[][]> {
+  const keys = addresses.map(normaliseAddress);
+  const unique = [...new Set(keys)];
+  const bucket = departureBucket(departAt);
+  const known = new Map<string, number>();
+
+  /**
+   * Map key for one ordered pair.
+   * @param from - Normalised origin.
+   * @param to - Normalised destination.
+   * @returns Joined key.
+   */
+  const pairKey = (from: string, to: string): string => `${from}\n${to}`;
+
+  if (provider.cacheable && unique.length > 1) {
+    const cutoff = new Date(Date.now() - TRAVEL_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const rows = await prisma.travelTimeCache.findMany({
+      where: {
+        origin: { in: unique },
+        destination: { in: unique },
+        mode: MODE,
+        bucket,
+        fetchedAt: { gte: cutoff },
+      },
+      select: { origin: true, destination: true, minutes: true },
+    });
+    for (const row of rows) known.set(pairKey(row.origin, row.destination), row.minutes);
+  }
+
+  // One origin at a time, its destinations in parallel: bounded fan-out on a
+  // cold cache, which for a full day is still only a few dozen lookups.
+  for (const from of unique) {
+    const missing = unique.filter((to) => to !== from && !known.has(pairKey(from, to)));
+    await Promise.all(
+      missing.map(async (to) => {
+        const original = addresses[keys.indexOf(from)];
+        const target = addresses[keys.indexOf(to)];
+        const minutes = await provider.driveMinutes(original, target, departAt);
+        if (minutes === null) return;
+        known.set(pairKey(from, to), minutes);
+        if (!provider.cacheable) return;
+        await prisma.travelTimeCache
+          .upsert({
+            where: {
+              origin_destination_mode_bucket: { origin: from, destination: to, mode: MODE, bucket },
+            },
+            create: { origin: from, destination: to, mode: MODE, bucket, minutes },
+            update: { minutes, fetchedAt: new Date() },
+          })
+          .catch((err) => console.warn("[travel-matrix] Cache write failed:", err));
+      }),
+    );
+  }
+
+  return keys.map((from) =>
+    keys.map((to) => (from === to ? 0 : (known.get(pairKey(from, to)) ?? null))),
+  );
+}
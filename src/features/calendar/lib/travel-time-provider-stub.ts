@@ -0,0 +1,75 @@
+// src/features/calendar/lib/travel-time-provider-stub.ts
+/**
+ * @description Offline stand-in {@link TravelTimeProvider} for dev and the
+ * planner fixtures. Each address hashes to a fixed point on a 40 km square, and
+ * a drive is a few minutes' parking plus the straight-line distance at city
+ * speed - so times are stable across runs, symmetric, and zero between an
+ * address and itself, without a Maps key or network.
+ */
+
+import type { TravelTimeProvider } from "@/features/calendar/lib/travel-time-provider";
+
+/** Side of the square the stub scatters addresses over, in km. */
+const AREA_KM = 40;
+/** Minutes per straight-line km, roughly suburban driving. */
+const MINS_PER_KM = 1.6;
+/** Flat allowance for getting going and parking. */
+const OVERHEAD_MINS = 4;
+
+/**
+ * FNV-1a hash of a normalised address.
+ * @param address - Address text.
+ * @returns Unsigned 32-bit hash.
+ */
+function hashAddress(address: string): number {
+  let h = 0x811c9dc5;
+  for (const ch of address.trim().toLowerCase().replace(/\s+/g, " ")) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * The point an address stands at.
+ * @param address - Address text.
+ * @returns Coordinates in km.
+ */
+function stubPoint(address: string): { x: number; y: number } {
+  const h = hashAddress(address);
+  return {
+    x: ((h & 0xffff) / 0xffff) * AREA_KM,
+    y: ((h >>> 16) / 0xffff) * AREA_KM,
+  };
+}
+
+/**
+ * The stub's drive time between two addresses.
+ * @param origin - Starting address.
+ * @param destination - Destination address.
+ * @returns Whole minutes; 0 for the same address.
+ */
+export function stubDriveMinutes(origin: string, destination: string): number {
+  const a = stubPoint(origin);
+  const b = stubPoint(destination);
+  const km = Math.hypot(a.x - b.x, a.y - b.y);
+  return km === 0 ? 0 : Math.ceil(OVERHEAD_MINS + km * MINS_PER_KM);
+}
+
+/**
+ * Builds the stub provider. Nothing is cached - the numbers cost nothing.
+ * @returns The provider.
+ */
+export function createStubTravelTimeProvider(): TravelTimeProvider {
+  return {
+    name: "stub",
+    cacheable: false,
+    /**
+     * The stub's drive time; the departure doesn't matter to it.
+     * @param origin - Starting address.
+     * @param destination - Destination address.
+     * @returns Minutes.
+     */
+    driveMinutes: (origin, destination) => Promise.resolve(stubDriveMinutes(origin, destination)),
+  };
+}
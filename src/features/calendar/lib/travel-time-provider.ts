@@ -0,0 +1,63 @@
+// src/features/calendar/lib/travel-time-provider.ts
+/**
+ * @description Pluggable drive-time source behind the day planner's distance
+ * matrix. Chosen by TRAVEL_TIME_PROVIDER:
+ *
+ *   google - Distance Matrix via calculateTravelMinutes (the default); needs
+ *            GOOGLE_MAPS_SERVER_KEY.
+ *   stub   - deterministic offline stand-in for dev and fixture checks (see
+ *            travel-time-provider-stub.ts); refused in production.
+ *
+ * Travel blocks and quotes still call Distance Matrix directly - only the
+ * planner, which prices every pair of stops on a day, goes through here.
+ */
+
+import { calculateTravelMinutes } from "@/features/calendar/lib/travel-time";
+import { createStubTravelTimeProvider } from "@/features/calendar/lib/travel-time-provider-stub";
+
+export interface TravelTimeProvider {
+  /** Short id, e.g. "google", for logs. */
+  name: string;
+  /** Whether lookups spend quota, so results are worth keeping in TravelTimeCache. */
+  cacheable: boolean;
+  /**
+   * Drive time between two addresses.
+   * @param origin - Starting address.
+   * @param destination - Destination address.
+   * @param departAt - Departure time, for traffic.
+   * @returns Minutes, or null when the pair can't be priced.
+   */
+  driveMinutes(origin: string, destination: string, departAt: Date): Promise<number | null>;
+}
+
+const googleTravelTimeProvider: TravelTimeProvider = {
+  name: "google",
+  cacheable: true,
+  /**
+   * Google's driving time for the pair, at the given departure.
+   * @param origin - Starting address.
+   * @param destination - Destination address.
+   * @param departAt - Departure time.
+   * @returns Minutes, or null without a key or route.
+   */
+  driveMinutes: (origin, destination, departAt) =>
+    calculateTravelMinutes(origin, destination, departAt, { mode: "driving" }),
+};
+
+/**
+ * The configured provider. Unlike payments there is no "off": an unset or
+ * unknown choice is Google, which itself returns null without a key.
+ * @returns A provider.
+ */
+export function getTravelTimeProvider(): TravelTimeProvider {
+  const choice = process.env.TRAVEL_TIME_PROVIDER?.trim().toLowerCase();
+  if (choice === "stub") {
+    // Made-up drive times would quietly reorder real customers' days.
+    if (process.env.NODE_ENV === "production") {
+      console.warn("[travel-time] The stub travel-time provider is refused in production.");
+      return googleTravelTimeProvider;
+    }
+    return createStubTravelTimeProvider();
+  }
+  return googleTravelTimeProvider;
+}
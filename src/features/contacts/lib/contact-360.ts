@@ -4,16 +4,22 @@
 // contact-sync matchers in maintenance.ts exactly: email primary (lowercased,
 // incl. alts), phone fallback (normaliseContactPhone, mobile keys only - a
 // shared landline may be a household). Income is reached through the invoices.
+// Outbox messages match by contactId or by recipient against the same email keys,
+// so mail sent before the contact existed still shows.
+// Retainer hours are worked out from the same matched bookings and invoices, so
+// the page balance and the bill-retainers cron agree on what was used.
 
+import { monthHours, nzMonthKey, shiftMonthKey } from "@/features/contacts/lib/retainer-usage";
 import { isNZMobileKey, normaliseContactPhone } from "@/shared/lib/normalise-phone";
 import { prisma } from "@/shared/lib/prisma";
-import type { Contact } from "@prisma/client";
+import type { Contact, OutboundMessageStatus, RetainerPeriod } from "@prisma/client";
 
 /** A booking that matched this contact by email or mobile. */
 interface Contact360Booking {
   id: string;
   name: string;
   startAt: Date;
+  endAt: Date;
   status: string;
   address: string | null;
 }
@@ -25,6 +31,9 @@ interface Contact360Invoice {
   total: number;
   status: string;
   issueDate: Date;
+  bookingId: string | null;
+  isQuote: boolean | null;
+  lineItems: { minutes?: number | null }[];
 }
 
 /** An income entry reached through one of the contact's invoices. */
@@ -44,6 +53,35 @@ interface Contact360Review {
   createdAt: Date;
 }
 
+/** An outbox email sent (or queued) to this contact. */
+interface Contact360Message {
+  id: string;
+  template: string;
+  subject: string;
+  status: OutboundMessageStatus;
+  createdAt: Date;
+}
+
+/** The current NZ month's retainer hours against what's available. */
+interface Contact360RetainerBalance {
+  /** "YYYY-MM". */
+  monthKey: string;
+  includedHours: number;
+  /** Carried from last month's closed period; 0 until that month is billed. */
+  carriedInHours: number;
+  usedHours: number;
+  scheduledHours: number;
+  /** Included + carried-in less used. Negative = into overage. */
+  remainingHours: number;
+}
+
+/** A retainer contact's running balance and closed months. */
+interface Contact360Retainer {
+  current: Contact360RetainerBalance;
+  /** Closed, billed months, most recent first. */
+  periods: RetainerPeriod[];
+}
+
 /** Everything a contact touches, with rollup totals for the summary cards. */
 export interface Contact360 {
   contact: Contact;
@@ -51,6 +89,9 @@ export interface Contact360 {
   invoices: Contact360Invoice[];
   income: Contact360Income[];
   reviews: Contact360Review[];
+  messages: Contact360Message[];
+  /** Null when the contact isn't on a retainer. */
+  retainer: Contact360Retainer | null;
   totals: {
     bookings: number;
     invoices: number;
@@ -72,9 +113,13 @@ const PHONE_FALLBACK_SCAN_CAP = 1000;
  * contact-sync uses, for the customer-360 detail page. Returns null when the
  * contact is missing or soft-deleted (every reader excludes `deletedAt`).
  * @param contactId - The contact's id.
- * @returns The contact plus its linked bookings, invoices, income, and reviews, or null.
+ * @param now - Current instant; picks the retainer month and splits used from scheduled.
+ * @returns The contact plus its linked bookings, invoices, income, reviews, messages, and retainer balance, or null.
  */
-export async function loadContact360(contactId: string): Promise<Contact360 | null> {
+export async function loadContact360(
+  contactId: string,
+  now: Date = new Date(),
+): Promise<Contact360 | null> {
   const contact = await prisma.contact.findFirst({
     where: { id: contactId, deletedAt: null },
   });
@@ -92,7 +137,7 @@ export async function loadContact360(contactId: string): Promise<Contact360 | nu
     if (key && isNZMobileKey(key)) mobileKeys.add(key);
   }
 
-  const [bookings, invoices, reviews] = await Promise.all([
+  const [bookings, invoices, reviews, messages, periods] = await Promise.all([
     loadBookings(emailKeys, mobileKeys),
     loadInvoices(contact.id, emailKeys),
     prisma.review.findMany({
@@ -100,6 +145,18 @@ export async function loadContact360(contactId: string): Promise<Contact360 | nu
       select: { id: true, text: true, status: true, createdAt: true },
       orderBy: { createdAt: "desc" },
     }),
+    // Outbox `to` is stored lowercased, so the email keys match it directly.
+    prisma.outboundMessage.findMany({
+      where: { OR: [{ contactId: contact.id }, { to: { in: [...emailKeys] } }] },
+      select: { id: true, template: true, subject: true, status: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    contact.retainerTier
+      ? prisma.retainerPeriod.findMany({
+          where: { contactId: contact.id },
+          orderBy: { monthKey: "desc" },
+        })
+      : Promise.resolve([]),
   ]);
 
   // Income has no contact link - reach it through the contact's invoices.
@@ -113,12 +170,41 @@ export async function loadContact360(contactId: string): Promise<Contact360 | nu
         })
       : [];
 
+  let retainer: Contact360Retainer | null = null;
+  if (contact.retainerTier) {
+    const monthKey = nzMonthKey(now);
+    const lastMonth = periods.find((p) => p.monthKey === shiftMonthKey(monthKey, -1));
+    const retainerInvoiceIds = new Set(periods.flatMap((p) => (p.invoiceId ? [p.invoiceId] : [])));
+    const { usedHours, scheduledHours } = monthHours(
+      bookings,
+      invoices,
+      monthKey,
+      now,
+      retainerInvoiceIds,
+    );
+    const includedHours = contact.retainerHours ?? 0;
+    const carriedInHours = lastMonth?.carriedOutHours ?? 0;
+    retainer = {
+      current: {
+        monthKey,
+        includedHours,
+        carriedInHours,
+        usedHours,
+        scheduledHours,
+        remainingHours: Math.round((includedHours + carriedInHours - usedHours) * 100) / 100,
+      },
+      periods,
+    };
+  }
+
   return {
     contact,
     bookings,
     invoices,
     income,
     reviews,
+    messages,
+    retainer,
     totals: {
       bookings: bookings.length,
       invoices: invoices.length,
@@ -144,6 +230,7 @@ async function loadBookings(
     id: true,
     name: true,
     startAt: true,
+    endAt: true,
     status: true,
     address: true,
   } as const;
@@ -176,6 +263,7 @@ async function loadBookings(
         id: b.id,
         name: b.name,
         startAt: b.startAt,
+        endAt: b.endAt,
         status: b.status,
         address: b.address,
       }));
@@ -200,7 +288,16 @@ async function loadInvoices(
   }));
   return prisma.invoice.findMany({
     where: { OR: [{ contactId }, ...emailMatch] },
-    select: { id: true, number: true, total: true, status: true, issueDate: true },
+    select: {
+      id: true,
+      number: true,
+      total: true,
+      status: true,
+      issueDate: true,
+      bookingId: true,
+      isQuote: true,
+      lineItems: true,
+    },
     orderBy: { issueDate: "desc" },
   });
 }
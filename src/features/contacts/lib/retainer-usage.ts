@@ -0,0 +1,190 @@
+// src/features/contacts/lib/retainer-usage.ts
+/**
+ * @description Retainer hours per NZ calendar month, and how a month settles
+ * against the allowance. Hours are visit time: a visit that has finished
+ * (completed, or still confirmed after it ended) counts as used; one still to
+ * come counts as scheduled. Cancelled visits (no-shows included) and unconfirmed
+ * holds count as neither. Where a calculator invoice bills a visit, its labour
+ * minutes replace the booked length (the operator corrects those to actual
+ * time); labour on invoices with no booking of this contact's behind them counts
+ * in the month it was issued. Shared by the contact page balance and the
+ * bill-retainers cron so both read hours the same way.
+ */
+
+import { nzDateParts } from "@/shared/lib/timezone-utils";
+
+/** The booking fields usage is worked out from. */
+interface UsageBooking {
+  id: string;
+  startAt: Date;
+  endAt: Date;
+  status: string;
+}
+
+/** The invoice fields usage is worked out from. */
+interface UsageInvoice {
+  id: string;
+  bookingId: string | null;
+  issueDate: Date;
+  status: string;
+  isQuote: boolean | null;
+  lineItems: { minutes?: number | null }[];
+}
+
+/** Used and still-to-come hours in one month. */
+export interface MonthHours {
+  usedHours: number;
+  scheduledHours: number;
+}
+
+/** How a closed month settles against what was available. */
+export interface MonthSettlement {
+  /** Hours past the allowance plus carry-in, billed as overage. */
+  overageHours: number;
+  /** Unused allowance rolled into next month. */
+  carriedOutHours: number;
+  /** Carry-in and allowance that lapsed unused. */
+  forfeitedHours: number;
+}
+
+const MONTH_LABEL = new Intl.DateTimeFormat("en-NZ", {
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+/**
+ * Rounds hours to two decimals so float noise never reaches an invoice.
+ * @param hours - Raw hours.
+ * @returns Hours to the nearest hundredth.
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * NZ calendar month an instant falls in.
+ * @param date - Any instant.
+ * @returns The month as "YYYY-MM".
+ */
+export function nzMonthKey(date: Date): string {
+  const [year, month] = nzDateParts(date);
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * Steps a month key forwards or back.
+ * @param monthKey - "YYYY-MM".
+ * @param delta - Months to move (negative = earlier).
+ * @returns The shifted "YYYY-MM".
+ */
+export function shiftMonthKey(monthKey: string, delta: number): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1 + delta, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Short display label for a month.
+ * @param monthKey - "YYYY-MM".
+ * @returns e.g. "Oct 2026".
+ */
+export function formatMonthKey(monthKey: string): string {
+  return MONTH_LABEL.format(new Date(`${monthKey}-01T00:00:00.000Z`));
+}
+
+/**
+ * Labour minutes on an invoice that counts towards retainer hours. Voided
+ * invoices, quotes, and the retainer invoices themselves (which carry their own
+ * overage labour line) don't count.
+ * @param invoice - The invoice.
+ * @param excludeInvoiceIds - Retainer invoice ids.
+ * @returns Billed labour minutes, or 0 when the invoice doesn't count.
+ */
+function labourMinutes(invoice: UsageInvoice, excludeInvoiceIds: ReadonlySet<string>): number {
+  if (invoice.status === "VOIDED" || invoice.isQuote || excludeInvoiceIds.has(invoice.id)) {
+    return 0;
+  }
+  return invoice.lineItems.reduce((sum, line) => sum + (line.minutes ?? 0), 0);
+}
+
+/**
+ * Sums a contact's used and scheduled hours for one NZ month.
+ * @param bookings - The contact's bookings (any status).
+ * @param invoices - The contact's invoices (any status).
+ * @param monthKey - "YYYY-MM" to total.
+ * @param now - Current instant; splits used from scheduled.
+ * @param excludeInvoiceIds - Retainer invoice ids, whose lines aren't work done.
+ * @returns Hours used and still scheduled in the month.
+ */
+export function monthHours(
+  bookings: UsageBooking[],
+  invoices: UsageInvoice[],
+  monthKey: string,
+  now: Date,
+  excludeInvoiceIds: ReadonlySet<string> = new Set(),
+): MonthHours {
+  // Billed minutes per visit, from the calculator invoices linked to it.
+  const billedByBooking = new Map<string, number>();
+  const bookingIds = new Set(bookings.map((b) => b.id));
+  let usedHours = 0;
+  let scheduledHours = 0;
+
+  for (const inv of invoices) {
+    const minutes = labourMinutes(inv, excludeInvoiceIds);
+    if (minutes <= 0) continue;
+    if (inv.bookingId && bookingIds.has(inv.bookingId)) {
+      billedByBooking.set(inv.bookingId, (billedByBooking.get(inv.bookingId) ?? 0) + minutes);
+    } else if (nzMonthKey(inv.issueDate) === monthKey) {
+      usedHours += minutes / 60;
+    }
+  }
+
+  for (const b of bookings) {
+    if (nzMonthKey(b.startAt) !== monthKey) continue;
+    const billed = billedByBooking.get(b.id);
+    // A billed visit counts at its billed time even if the booking was
+    // cancelled after the fact - the invoice is what the work cost.
+    if (billed !== undefined) {
+      usedHours += billed / 60;
+      continue;
+    }
+    if (b.status !== "confirmed" && b.status !== "completed") continue;
+    const hours = (b.endAt.getTime() - b.startAt.getTime()) / 3_600_000;
+    if (b.status === "completed" || b.endAt <= now) usedHours += hours;
+    else scheduledHours += hours;
+  }
+
+  return { usedHours: roundHours(usedHours), scheduledHours: roundHours(scheduledHours) };
+}
+
+/**
+ * Settles a closed month. Carried-in hours are drawn first (they lapse at the
+ * end of this month), then the month's own allowance, and anything past both
+ * is overage. Unused allowance carries forward when `carryUnused` is on.
+ * @param input - The month's figures.
+ * @param input.includedHours - This month's allowance.
+ * @param input.carriedInHours - Unused allowance from the month before.
+ * @param input.usedHours - Hours worked in the month.
+ * @param input.carryUnused - Whether unused allowance rolls forward.
+ * @returns Overage, carry-out, and lapsed hours.
+ */
+export function settleMonth({
+  includedHours,
+  carriedInHours,
+  usedHours,
+  carryUnused,
+}: {
+  includedHours: number;
+  carriedInHours: number;
+  usedHours: number;
+  carryUnused: boolean;
+}): MonthSettlement {
+  const fromCarry = Math.min(usedHours, carriedInHours);
+  const fromIncluded = Math.min(usedHours - fromCarry, includedHours);
+  const unusedIncluded = includedHours - fromIncluded;
+  return {
+    overageHours: roundHours(usedHours - fromCarry - fromIncluded),
+    carriedOutHours: carryUnused ? roundHours(unusedIncluded) : 0,
+    forfeitedHours: roundHours(carriedInHours - fromCarry + (carryUnused ? 0 : unusedIncluded)),
+  };
+}
@@ -0,0 +1,66 @@
+"use client";
+// src/features/messaging/components/admin/MessageResendButton.tsx
+/**
+ * @description Resend button for the admin message detail page. Confirms first
+ * (the recipient gets a second copy), then opens the new message so its own
+ * delivery status is what the operator sees next.
+ */
+
+import { AdminButton } from "@/features/admin/components/ui/AdminButton";
+import { ConfirmDialog } from "@/features/admin/components/ui/ConfirmDialog";
+import { useToast } from "@/features/admin/components/ui/Toast";
+import { apiFetch } from "@/shared/lib/api-client";
+import { useRouter } from "next/navigation";
+import type React from "react";
+import { useState } from "react";
+
+/**
+ * Resend action for one outbox message.
+ * @param props - Component props.
+ * @param props.id - Message to resend.
+ * @param props.to - Recipient, shown in the confirm dialog.
+ * @returns Button plus its confirm dialog.
+ */
+export function MessageResendButton({ id, to }: { id: string; to: string }): React.ReactElement {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  /**
+   * Posts the resend and navigates to the new copy.
+   */
+  async function resend(): Promise<void> {
+    setBusy(true);
+    const res = await apiFetch<{ id: string; sent: boolean }>(`/api/admin/messages/${id}/resend`, {
+      method: "POST",
+    });
+    setBusy(false);
+    setConfirming(false);
+    if (!res.ok) {
+      toast(res.error, { tone: "error" });
+      return;
+    }
+    toast(res.data.sent ? "Message resent." : "Resend queued - delivery will be retried.", {
+      tone: res.data.sent ? "success" : "info",
+    });
+    router.push(`/admin/messages/${res.data.id}`);
+  }
+
+  return (
+    <>
+      <AdminButton variant="secondary" onClick={() => setConfirming(true)}>
+        Resend
+      </AdminButton>
+      <ConfirmDialog
+        open={confirming}
+        title="Resend this email?"
+        body={`A new copy goes to ${to}. The original stays in the log.`}
+        confirmLabel="Resend"
+        busy={busy}
+        onConfirm={() => void resend()}
+        onCancel={() => setConfirming(false)}
+      />
+    </>
+  );
+}
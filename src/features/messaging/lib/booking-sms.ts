@@ -0,0 +1,118 @@
+// src/features/messaging/lib/booking-sms.ts
+/**
+ * @description SMS variants of the customer booking messages: confirmation,
+ * day-before reminder and review request. A text only goes out when all three
+ * agree - the comms setting for that message is on, the customer ticked it
+ * on the booking form, and an SMS provider is configured. Every attempt is
+ * recorded on `Booking.smsDeliveries`. Never throws: SMS is a courtesy on
+ * top of the email, so a provider outage must not fail the calling flow.
+ */
+
+import { enabledSmsKinds, SMS_KIND_SETTING } from "@/features/messaging/lib/sms-opt-in";
+import { getSmsProvider } from "@/features/messaging/lib/sms-provider";
+import { getIdentity } from "@/shared/lib/business-identity.server";
+import { formatDateTimeShort } from "@/shared/lib/date-format";
+import { validatePhone } from "@/shared/lib/normalise-phone";
+import { prisma } from "@/shared/lib/prisma";
+import { getSettings } from "@/shared/lib/settings/get-settings";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import type { Booking, SmsMessageKind } from "@prisma/client";
+import "server-only";
+
+/** The booking fields the SMS helpers read. */
+export type BookingSmsTarget = Pick<
+  Booking,
+  "id" | "name" | "phone" | "startAt" | "cancelToken" | "reviewToken" | "smsOptIn"
+>;
+
+/** What happened to one SMS. "skipped" covers every reason nothing was sent. */
+export type SmsSendOutcome = "sent" | "failed" | "skipped";
+
+/**
+ * The texts the booking form should offer: enabled in comms settings, and a
+ * provider configured to send them.
+ * @returns Offered kinds, in form order (empty when SMS is off).
+ */
+export async function getOfferedSmsKinds(): Promise<SmsMessageKind[]> {
+  if (!getSmsProvider()) return [];
+  const { comms } = await getSettings();
+  return enabledSmsKinds(comms);
+}
+
+/**
+ * Composes the text for one booking message. Kept short: one SMS segment is
+ * 160 GSM characters and the links alone take a good share of that.
+ * @param kind - Which message.
+ * @param booking - The booking it is about.
+ * @returns Message text.
+ */
+async function bookingSmsText(kind: SmsMessageKind, booking: BookingSmsTarget): Promise<string> {
+  const identity = await getIdentity();
+  const siteUrl = getSiteUrl();
+  const firstName = booking.name.split(" ")[0];
+  const when = formatDateTimeShort(booking.startAt);
+  const manageUrl = `${siteUrl}/booking/edit?token=${encodeURIComponent(booking.cancelToken)}`;
+  switch (kind) {
+    case "confirmation":
+      return `Hi ${firstName}, you're booked with ${identity.company} Tech for ${when}. Change or cancel: ${manageUrl}`;
+    case "reminder":
+      return `Reminder: ${identity.company} Tech is booked for ${when}. Need to change it? ${manageUrl}`;
+    case "review_request":
+      return `Hi ${firstName}, thanks for having me! A quick review would really help: ${siteUrl}/review?token=${encodeURIComponent(booking.reviewToken)}`;
+  }
+}
+
+/**
+ * Sends one booking text if the setting, the customer's opt-in and the
+ * provider all allow it, and records the attempt on the booking.
+ * @param kind - Which message.
+ * @param booking - The booking it is about.
+ * @returns Whether it was sent, failed, or skipped.
+ */
+export async function sendBookingSms(
+  kind: SmsMessageKind,
+  booking: BookingSmsTarget,
+): Promise<SmsSendOutcome> {
+  try {
+    const { comms } = await getSettings();
+    if (!comms[SMS_KIND_SETTING[kind]] || !booking.smsOptIn.includes(kind)) return "skipped";
+    const phone = validatePhone(booking.phone ?? "");
+    if (phone.result !== "ok") return "skipped";
+    const provider = getSmsProvider();
+    if (!provider) {
+      console.warn(`[sms] No SMS provider configured - skipping ${kind} for ${booking.id}.`);
+      return "skipped";
+    }
+
+    const body = await bookingSmsText(kind, booking);
+    let providerMessageId: string | null = null;
+    let error: string | null = null;
+    try {
+      providerMessageId = (await provider.send(phone.e164, body)).id;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      console.error(`[sms] ${kind} for booking ${booking.id} failed:`, err);
+    }
+
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: {
+        smsDeliveries: {
+          push: {
+            kind,
+            to: phone.e164,
+            status: error ? "failed" : "sent",
+            provider: provider.name,
+            providerMessageId,
+            error,
+            createdAt: new Date(),
+          },
+        },
+      },
+    });
+    return error ? "failed" : "sent";
+  } catch (err) {
+    console.error(`[sms] ${kind} for booking ${booking.id} errored:`, err);
+    return "failed";
+  }
+}
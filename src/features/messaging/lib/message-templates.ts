@@ -0,0 +1,60 @@
+// src/features/messaging/lib/message-templates.ts
+/**
+ * @description Human labels for outbox template keys and delivery statuses,
+ * shared by the admin Messages pages and the contact timeline. An unknown
+ * template key (one added without a label) falls back to the raw key rather
+ * than hiding the message.
+ */
+
+import type { StatusTone } from "@/features/admin/components/ui/StatusPill";
+import type { OutboundMessageStatus } from "@prisma/client";
+
+/** Label per template key, as passed to `enqueueEmail`. */
+const TEMPLATE_LABELS: Record<string, string> = {
+  "booking-confirmation": "Booking confirmation",
+  "booking-rescheduled": "Booking rescheduled",
+  "booking-reminder": "Booking reminder",
+  "booking-manage-links": "Manage-booking links",
+  "reschedule-request": "Reschedule request",
+  "reschedule-proposal": "Route change proposal",
+  "waitlist-offer": "Waitlist offer",
+  "review-request": "Review request",
+  "past-client-review-request": "Past-client review request",
+  invoice: "Invoice",
+  quote: "Quote",
+  "credit-note": "Credit note",
+  "invoice-reminder": "Overdue reminder",
+  "invoice-void": "Void notice",
+  statement: "Statement",
+  "business-enquiry-ack": "Enquiry acknowledgement",
+  "owner-booking": "New booking (to me)",
+  "owner-booking-rescheduled": "Rescheduled booking (to me)",
+  "owner-review": "New review (to me)",
+  "owner-business-enquiry": "Business enquiry (to me)",
+  "owner-quote-response": "Quote answer (to me)",
+};
+
+/**
+ * Display label for a template key.
+ * @param template - The stored template key.
+ * @returns Its label, or the key itself when unlabelled.
+ */
+export function messageTemplateLabel(template: string): string {
+  return TEMPLATE_LABELS[template] ?? template;
+}
+
+/** Display label per delivery status. */
+export const MESSAGE_STATUS_LABEL: Record<OutboundMessageStatus, string> = {
+  pending: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+/** StatusPill tone per delivery status. */
+export const MESSAGE_STATUS_TONE: Record<OutboundMessageStatus, StatusTone> = {
+  pending: "warning",
+  sending: "info",
+  sent: "success",
+  failed: "critical",
+};
@@ -0,0 +1,291 @@
+// src/features/messaging/lib/outbox.ts
+/**
+ * @description Persistent email outbox. Every outgoing email is written as an
+ * `OutboundMessage` row and then dispatched from that row: once inline so
+ * normal mail still goes out immediately, then by the dispatch-outbox cron
+ * with exponential backoff until Resend accepts it or the attempt cap is hit.
+ * A row is claimed (pending -> sending) with a conditional update before each
+ * attempt, so the inline send and a concurrent cron run can never both send it.
+ */
+
+import { prisma } from "@/shared/lib/prisma";
+import type { OutboundMessage, Prisma } from "@prisma/client";
+import { Resend } from "resend";
+import "server-only";
+
+/** Attempts before a message is marked failed and left for a manual resend. */
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+/** First retry delay; doubles per attempt (2, 4, 8 ... minutes). */
+const BACKOFF_BASE_MS = 2 * 60 * 1000;
+
+/** Longest gap between retries. */
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+/** A "sending" row older than this is treated as a crashed attempt and retried. */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/** Rows dispatched per cron run, so one run stays inside the function timeout. */
+const DISPATCH_BATCH = 25;
+
+/** One file attached to an outgoing email. */
+export interface OutboxAttachment {
+  filename: string;
+  content: Buffer | Uint8Array;
+  contentType?: string;
+}
+
+/** Everything needed to write one email to the outbox. */
+export interface EnqueueEmailInput {
+  /** Send path that produced it, e.g. "booking-confirmation". */
+  template: string;
+  from: string;
+  to: string;
+  replyTo?: string | null;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: OutboxAttachment[];
+  /** Data the template was rendered from; stored as JSON for debugging. */
+  payload?: unknown;
+  bookingId?: string | null;
+  invoiceId?: string | null;
+  contactId?: string | null;
+}
+
+// Lazy singleton so module import never throws when RESEND_API_KEY is unset.
+let _resend: Resend | null = null;
+
+/**
+ * Returns the shared Resend client, initialising it on first call.
+ * @returns Resend client instance.
+ */
+function getResend(): Resend {
+  if (!_resend) _resend = new Resend(process.env.RESEND_API_KEY);
+  return _resend;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures.
+ * @param attempts - Failed attempts so far (1 after the first failure).
+ * @returns Milliseconds to wait.
+ */
+export function outboxBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Round-trips a payload through JSON so dates become strings and anything
+ * unserialisable drops out, leaving a value Prisma accepts for a Json field.
+ * @param payload - Arbitrary template data.
+ * @returns JSON-safe value, or undefined when there is nothing to store.
+ */
+function toJsonPayload(payload: unknown): Prisma.InputJsonValue | undefined {
+  if (payload === undefined || payload === null) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hands one message to Resend. Resend SDK v3+ reports API-level rejections
+ * (bad sender, rate limit) in `error` rather than throwing, so both are
+ * folded into one thrown error here.
+ * @param message - The stored message.
+ * @returns Resend's message id, or null when none was returned.
+ */
+async function deliver(
+  message: Pick<
+    OutboundMessage,
+    "from" | "to" | "replyTo" | "subject" | "html" | "text" | "attachments"
+  >,
+): Promise<string | null> {
+  if (!process.env.RESEND_API_KEY) throw new Error("RESEND_API_KEY is not set");
+  const result = await getResend().emails.send({
+    from: message.from,
+    to: message.to,
+    replyTo: message.replyTo ?? undefined,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    attachments:
+      message.attachments.length > 0
+        ? message.attachments.map((a) => ({
+            filename: a.filename,
+            content: Buffer.from(a.content),
+            contentType: a.contentType ?? undefined,
+          }))
+        : undefined,
+  });
+  if (result.error) throw new Error(result.error.message);
+  return result.data?.id ?? null;
+}
+
+/**
+ * Claims a due message and makes one delivery attempt, recording the outcome.
+ * Returns false without sending when another dispatcher holds the claim.
+ * @param id - Message id.
+ * @param options - Dispatch options.
+ * @param options.force - Ignore `nextAttemptAt` (inline first send, manual retry).
+ * @returns True when Resend accepted the message on this attempt.
+ */
+export async function dispatchMessage(id: string, options?: { force?: boolean }): Promise<boolean> {
+  const now = new Date();
+  const claim = await prisma.outboundMessage.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: "pending", ...(options?.force ? {} : { nextAttemptAt: { lte: now } }) },
+        { status: "sending", lastAttemptAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      ],
+    },
+    data: { status: "sending", lastAttemptAt: now, attempts: { increment: 1 } },
+  });
+  if (claim.count === 0) return false;
+
+  const message = await prisma.outboundMessage.findUnique({ where: { id } });
+  if (!message) return false;
+
+  try {
+    const providerMessageId = await deliver(message);
+    await prisma.outboundMessage.update({
+      where: { id },
+      data: { status: "sent", sentAt: new Date(), providerMessageId, lastError: null },
+    });
+    return true;
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const givingUp = message.attempts >= OUTBOX_MAX_ATTEMPTS;
+    console.error(
+      `[outbox] ${message.template} to ${message.to} failed (attempt ${message.attempts}${givingUp ? ", giving up" : ""}):`,
+      error,
+    );
+    await prisma.outboundMessage.update({
+      where: { id },
+      data: {
+        status: givingUp ? "failed" : "pending",
+        lastError,
+        nextAttemptAt: new Date(Date.now() + outboxBackoffMs(message.attempts)),
+      },
+    });
+    return false;
+  }
+}
+
+/**
+ * Writes an email to the outbox and makes the first delivery attempt inline.
+ * Never throws. A failed first attempt stays queued for the cron to retry, so
+ * the return value means "the email is in hand", not "it has been delivered".
+ * If the outbox row itself can't be written (database down) the email is sent
+ * directly instead, so an outbox problem never loses mail that Resend could
+ * have delivered.
+ * @param input - The rendered email plus its related records.
+ * @returns True when the message was queued (or sent directly); false when it was lost.
+ */
+export async function enqueueEmail(input: EnqueueEmailInput): Promise<boolean> {
+  const data = {
+    template: input.template,
+    from: input.from,
+    to: input.to.trim().toLowerCase(),
+    replyTo: input.replyTo ?? null,
+    subject: input.subject,
+    html: input.html,
+    text: input.text,
+    attachments: (input.attachments ?? []).map((a) => ({
+      filename: a.filename,
+      content: Buffer.from(a.content),
+      contentType: a.contentType ?? null,
+    })),
+    payload: toJsonPayload(input.payload),
+    bookingId: input.bookingId ?? null,
+    invoiceId: input.invoiceId ?? null,
+    contactId: input.contactId ?? null,
+  };
+
+  let id: string;
+  try {
+    ({ id } = await prisma.outboundMessage.create({ data, select: { id: true } }));
+  } catch (error) {
+    console.error(`[outbox] Could not queue ${input.template} - sending directly:`, error);
+    try {
+      await deliver(data);
+      return true;
+    } catch (sendError) {
+      console.error(`[outbox] Direct send of ${input.template} failed:`, sendError);
+      return false;
+    }
+  }
+
+  try {
+    await dispatchMessage(id, { force: true });
+  } catch (error) {
+    // The row is queued; the cron picks it up.
+    console.error(`[outbox] Inline dispatch of ${id} errored:`, error);
+  }
+  return true;
+}
+
+/**
+ * Copies a message into a new outbox row and sends it now. The original is
+ * left untouched so the log keeps both attempts.
+ * @param id - Message to resend.
+ * @returns The new message id and whether it went out, or null when the original is missing.
+ */
+export async function resendMessage(id: string): Promise<{ id: string; sent: boolean } | null> {
+  const original = await prisma.outboundMessage.findUnique({ where: { id } });
+  if (!original) return null;
+  const copy = await prisma.outboundMessage.create({
+    data: {
+      template: original.template,
+      from: original.from,
+      to: original.to,
+      replyTo: original.replyTo,
+      subject: original.subject,
+      html: original.html,
+      text: original.text,
+      attachments: original.attachments,
+      payload: original.payload ?? undefined,
+      bookingId: original.bookingId,
+      invoiceId: original.invoiceId,
+      contactId: original.contactId,
+      resendOfId: original.id,
+    },
+    select: { id: true },
+  });
+  const sent = await dispatchMessage(copy.id, { force: true });
+  return { id: copy.id, sent };
+}
+
+/**
+ * Dispatches every due message, oldest first, up to one batch. Called by the
+ * dispatch-outbox cron.
+ * @returns Counts of messages sent and still failing.
+ */
+export async function dispatchDueMessages(): Promise<{ sent: number; failed: number }> {
+  const now = new Date();
+  const due = await prisma.outboundMessage.findMany({
+    where: {
+      OR: [
+        { status: "pending", nextAttemptAt: { lte: now } },
+        { status: "sending", lastAttemptAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: DISPATCH_BATCH,
+  });
+
+  const results = { sent: 0, failed: 0 };
+  for (const { id } of due) {
+    try {
+      if (await dispatchMessage(id)) results.sent++;
+      else results.failed++;
+    } catch (error) {
+      results.failed++;
+      console.error(`[outbox] Dispatch of ${id} errored:`, error);
+    }
+  }
+  return results;
+}
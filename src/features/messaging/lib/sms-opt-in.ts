@@ -0,0 +1,51 @@
+// src/features/messaging/lib/sms-opt-in.ts
+/**
+ * @description The booking texts a customer can opt in to, with the labels
+ * the booking form shows. Shared by the form and the request route so the
+ * offered choices and the accepted values can't drift apart.
+ */
+
+import type { CommsSettings } from "@/shared/lib/settings/types";
+import type { SmsMessageKind } from "@prisma/client";
+
+/** Every SMS kind, in the order the form lists them. */
+export const SMS_MESSAGE_KINDS: readonly SmsMessageKind[] = [
+  "confirmation",
+  "reminder",
+  "review_request",
+];
+
+/** The comms toggle that gates each kind of text. */
+export const SMS_KIND_SETTING: Record<SmsMessageKind, keyof CommsSettings> = {
+  confirmation: "smsConfirmationEnabled",
+  reminder: "smsReminderEnabled",
+  review_request: "smsReviewRequestEnabled",
+};
+
+/** Checkbox label per kind on the booking form. */
+export const SMS_OPT_IN_LABELS: Record<SmsMessageKind, string> = {
+  confirmation: "Text me a booking confirmation",
+  reminder: "Text me a reminder the day before",
+  review_request: "Text me a review link after the job",
+};
+
+/**
+ * Reads the opt-in list from a request body, keeping only kinds that are
+ * currently offered.
+ * @param raw - The untrusted `smsOptIn` value.
+ * @param offered - Kinds the business currently sends by text.
+ * @returns De-duplicated opted-in kinds (empty for anything malformed).
+ */
+export function parseSmsOptIn(raw: unknown, offered: readonly SmsMessageKind[]): SmsMessageKind[] {
+  if (!Array.isArray(raw)) return [];
+  return SMS_MESSAGE_KINDS.filter((kind) => offered.includes(kind) && raw.includes(kind));
+}
+
+/**
+ * The kinds whose comms toggle is on.
+ * @param comms - Resolved comms settings.
+ * @returns Enabled kinds, in form order.
+ */
+export function enabledSmsKinds(comms: CommsSettings): SmsMessageKind[] {
+  return SMS_MESSAGE_KINDS.filter((kind) => comms[SMS_KIND_SETTING[kind]] === true);
+}
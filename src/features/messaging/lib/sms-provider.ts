@@ -0,0 +1,115 @@
+// src/features/messaging/lib/sms-provider.ts
+/**
+ * @description SMS provider adapters. `SMS_PROVIDER` picks one: "twilio" sends
+ * through Twilio's REST API (no SDK - one form POST), "fake" writes each text
+ * to a file under `SMS_FAKE_DIR` (default `.sms-outbox/`) so dev and preview
+ * deploys can exercise every SMS path without a paid account. Unset disables
+ * SMS entirely; callers treat that as "skip", never as a failure.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import "server-only";
+
+/** A configured SMS provider. */
+export interface SmsProvider {
+  /** Short provider name recorded on each delivery ("twilio", "fake"). */
+  name: string;
+  /**
+   * Hands one text to the provider. Throws when the provider rejects it.
+   * @param to - E.164 recipient number.
+   * @param body - Message text.
+   * @returns The provider's message id.
+   */
+  send(to: string, body: string): Promise<{ id: string }>;
+}
+
+/**
+ * Twilio adapter. Needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and either
+ * TWILIO_MESSAGING_SERVICE_SID or TWILIO_FROM_NUMBER.
+ * @returns The provider, or null when the credentials are incomplete.
+ */
+function createTwilioProvider(): SmsProvider | null {
+  const sid = process.env.TWILIO_ACCOUNT_SID?.trim();
+  const token = process.env.TWILIO_AUTH_TOKEN?.trim();
+  const service = process.env.TWILIO_MESSAGING_SERVICE_SID?.trim();
+  const from = process.env.TWILIO_FROM_NUMBER?.trim();
+  if (!sid || !token || (!service && !from)) return null;
+
+  return {
+    name: "twilio",
+    /**
+     * Sends through the Messages endpoint.
+     * @param to - E.164 recipient number.
+     * @param body - Message text.
+     * @returns The Twilio message SID.
+     */
+    async send(to, body) {
+      const form = new URLSearchParams({ To: to, Body: body });
+      if (service) form.set("MessagingServiceSid", service);
+      else form.set("From", from!);
+      const res = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(sid)}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${Buffer.from(`${sid}:${token}`).toString("base64")}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: form,
+        },
+      );
+      const data = (await res.json().catch(() => ({}))) as { sid?: string; message?: string };
+      if (!res.ok || !data.sid) {
+        throw new Error(data.message ?? `Twilio responded ${res.status}`);
+      }
+      return { id: data.sid };
+    },
+  };
+}
+
+/**
+ * File-writing fake: one text file per message, named so a directory listing
+ * reads in send order.
+ * @param dir - Directory to write into.
+ * @returns The provider.
+ */
+function createFakeSmsProvider(dir: string): SmsProvider {
+  return {
+    name: "fake",
+    /**
+     * Writes the message to a file.
+     * @param to - E.164 recipient number.
+     * @param body - Message text.
+     * @returns A generated id.
+     */
+    async send(to, body) {
+      const id = randomUUID();
+      await mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      await writeFile(path.join(dir, `${stamp}-${id}.txt`), `To: ${to}\n\n${body}\n`);
+      console.log(`[sms:fake] ${to}: ${body}`);
+      return { id };
+    },
+  };
+}
+
+/**
+ * The SMS provider selected by `SMS_PROVIDER`.
+ * @returns The provider, or null when SMS is off or misconfigured.
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const choice = process.env.SMS_PROVIDER?.trim().toLowerCase();
+  if (choice === "twilio") {
+    const twilio = createTwilioProvider();
+    if (!twilio) console.warn("[sms] SMS_PROVIDER=twilio but the Twilio vars are incomplete.");
+    return twilio;
+  }
+  if (choice === "fake") {
+    return createFakeSmsProvider(
+      process.env.SMS_FAKE_DIR?.trim() || path.join(process.cwd(), ".sms-outbox"),
+    );
+  }
+  return null;
+}
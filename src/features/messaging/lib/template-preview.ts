@@ -0,0 +1,221 @@
+// src/features/messaging/lib/template-preview.ts
+/**
+ * @description Renders an email template against a real booking or invoice for
+ * the settings panel's live preview. Goes through the same builders the send
+ * paths use, with the unsaved template passed in place of the saved one, so the
+ * preview is exactly what the customer would get. Never sends anything.
+ */
+
+import { calendarSequence, combineUnitAndAddress } from "@/features/booking/lib/booking";
+import { toInvoiceEmailPayload } from "@/features/business/lib/invoice-email-request";
+import { buildStatement, defaultStatementRange } from "@/features/business/lib/statement";
+import {
+  buildBookingConfirmationEmail,
+  buildBookingReminderEmail,
+  buildInvoiceEmail,
+  buildInvoiceReminderEmail,
+  buildPastClientReviewEmail,
+  buildRescheduleProposalEmail,
+  buildRescheduleRequestEmail,
+  buildReviewRequestEmail,
+  buildStatementEmail,
+  buildVoidEmail,
+  buildWaitlistOfferEmail,
+} from "@/features/reviews/lib/email";
+import { prisma } from "@/shared/lib/prisma";
+import {
+  EMAIL_TEMPLATE_SOURCE,
+  type EmailTemplateKey,
+} from "@/shared/lib/settings/email-templates";
+import type { EmailTemplate } from "@/shared/lib/settings/types";
+import { getSiteUrl } from "@/shared/lib/site-url";
+import type { Booking, Invoice } from "@prisma/client";
+import "server-only";
+
+/** A rendered preview, or the reason there's nothing to render against. */
+export type TemplatePreviewResult =
+  { ok: true; subject: string; html: string } | { ok: false; error: string; status: number };
+
+/**
+ * Loads the booking to preview against: the chosen one, or the latest.
+ * @param id - Chosen booking id, or undefined for the latest.
+ * @returns The booking, or null when there is none.
+ */
+async function previewBooking(id: string | undefined): Promise<Booking | null> {
+  return id
+    ? prisma.booking.findUnique({ where: { id } })
+    : prisma.booking.findFirst({ orderBy: { startAt: "desc" } });
+}
+
+/**
+ * Loads the invoice to preview against: the chosen one, or the latest of the
+ * matching kind (a quote template picks the latest quote).
+ * @param id - Chosen invoice id, or undefined for the latest.
+ * @param key - Template being previewed.
+ * @returns The invoice, or null when there is none.
+ */
+async function previewInvoice(
+  id: string | undefined,
+  key: EmailTemplateKey,
+): Promise<Invoice | null> {
+  if (id) return prisma.invoice.findUnique({ where: { id } });
+  return prisma.invoice.findFirst({
+    where: { isQuote: key === "quote" },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Renders a booking-sourced template.
+ * @param key - Template key.
+ * @param template - Unsaved template.
+ * @param booking - Booking to render against.
+ * @returns Subject + HTML.
+ */
+async function renderBookingTemplate(
+  key: EmailTemplateKey,
+  template: EmailTemplate,
+  booking: Booking,
+): Promise<{ subject: string; html: string }> {
+  const notification = {
+    id: booking.id,
+    name: booking.name,
+    email: booking.email,
+    notes: booking.notes ?? "",
+    startAt: booking.startAt,
+    endAt: booking.endAt,
+    cancelToken: booking.cancelToken,
+    promoTitleAtBooking: booking.promoTitleAtBooking,
+    address: combineUnitAndAddress(booking.unit ?? "", booking.address ?? ""),
+    meetingType: booking.meetingType,
+    calendarSequence: calendarSequence(booking),
+  };
+  switch (key) {
+    case "bookingRescheduled":
+      return buildBookingConfirmationEmail(notification, { kind: "rescheduled" }, template);
+    case "bookingReminder":
+      return buildBookingReminderEmail(notification, template);
+    case "rescheduleRequest":
+      return buildRescheduleRequestEmail({ ...notification, suggestedStarts: [] }, template);
+    case "rescheduleProposal":
+      return buildRescheduleProposalEmail(
+        {
+          ...notification,
+          // No real proposal to hand; an hour later is representative.
+          proposedStartAt: new Date(booking.startAt.getTime() + 60 * 60 * 1000),
+          token: "preview",
+        },
+        template,
+      );
+    case "waitlistOffer":
+      return buildWaitlistOfferEmail(
+        {
+          ...notification,
+          // A confirmed booking has no hold; show a plausible one.
+          holdExpiresAt: booking.holdExpiresAt ?? new Date(Date.now() + 4 * 60 * 60 * 1000),
+        },
+        template,
+      );
+    case "reviewRequest":
+      return buildReviewRequestEmail(
+        { ...notification, reviewToken: booking.reviewToken },
+        template,
+      );
+    case "pastClientReviewRequest":
+      return buildPastClientReviewEmail(
+        booking.name.split(" ")[0],
+        `${getSiteUrl()}/review?token=${encodeURIComponent(booking.reviewToken)}`,
+        template,
+      );
+    default:
+      return buildBookingConfirmationEmail(notification, { kind: "new" }, template);
+  }
+}
+
+/**
+ * Renders an invoice-sourced template. The chosen invoice stands in for the
+ * quote or credit note when the template needs one, so any invoice can preview
+ * any of them.
+ * @param key - Template key.
+ * @param template - Unsaved template.
+ * @param invoice - Invoice to render against.
+ * @returns Subject + HTML, or an error when the statement has no contact.
+ */
+async function renderInvoiceTemplate(
+  key: EmailTemplateKey,
+  template: EmailTemplate,
+  invoice: Invoice,
+): Promise<TemplatePreviewResult> {
+  const payload = { ...toInvoiceEmailPayload(invoice), amountPaid: invoice.amountPaid };
+  switch (key) {
+    case "quote":
+      return {
+        ok: true,
+        ...(await buildInvoiceEmail({
+          invoice: { ...payload, isQuote: true },
+          reviewUrl: null,
+          template,
+        })),
+      };
+    case "creditNote":
+      return {
+        ok: true,
+        ...(await buildInvoiceEmail({
+          invoice: { ...payload, isQuote: false, creditNoteFor: invoice.number },
+          reviewUrl: null,
+          template,
+        })),
+      };
+    case "invoiceReminder":
+      return {
+        ok: true,
+        ...(await buildInvoiceReminderEmail({ invoice: payload, reminderNumber: 1, template })),
+      };
+    case "invoiceVoid":
+      return { ok: true, ...(await buildVoidEmail({ invoice: payload, template })) };
+    case "statement": {
+      const statement = invoice.contactId
+        ? await buildStatement(invoice.contactId, defaultStatementRange())
+        : null;
+      if (!statement) {
+        return {
+          ok: false,
+          error: "That invoice isn't linked to a contact, so there's no statement to preview.",
+          status: 400,
+        };
+      }
+      return { ok: true, ...(await buildStatementEmail({ statement, template })) };
+    }
+    default:
+      return {
+        ok: true,
+        ...(await buildInvoiceEmail({
+          invoice: { ...payload, isQuote: false },
+          reviewUrl: null,
+          template,
+        })),
+      };
+  }
+}
+
+/**
+ * Renders one template against a real record.
+ * @param key - Template key.
+ * @param template - The unsaved subject + body from the editor.
+ * @param recordId - Booking or invoice to render against; the latest when omitted.
+ * @returns The rendered email, or why it couldn't be rendered.
+ */
+export async function renderTemplatePreview(
+  key: EmailTemplateKey,
+  template: EmailTemplate,
+  recordId?: string,
+): Promise<TemplatePreviewResult> {
+  if (EMAIL_TEMPLATE_SOURCE[key] === "booking") {
+    const booking = await previewBooking(recordId);
+    if (!booking) return { ok: false, error: "No booking to preview against yet.", status: 404 };
+    return { ok: true, ...(await renderBookingTemplate(key, template, booking)) };
+  }
+  const invoice = await previewInvoice(recordId, key);
+  if (!invoice) return { ok: false, error: "No invoice to preview against yet.", status: 404 };
+  return renderInvoiceTemplate(key, template, invoice);
+}
@@ -5,6 +5,12 @@
 
 "use client";
 
+import {
+  REVIEW_ASPECTS,
+  reviewRatingError,
+  type ReviewAspect,
+  type ReviewAspectRatings,
+} from "@/features/reviews/lib/validation";
 import { Button } from "@/shared/components/Button";
 import { EmailInput } from "@/shared/components/EmailInput";
 import { PhoneInput } from "@/shared/components/PhoneInput";
@@ -30,9 +36,74 @@ interface ReviewFormProtectedProps {
     firstName: string | null;
     lastName: string | null;
     isAnonymous: boolean;
+    rating: number | null;
+    aspectRatings: ReviewAspectRatings | null;
   };
 }
 
+/**
+ * Row of five tappable stars; tapping the current value again clears it.
+ * @param props - Component props.
+ * @param props.id - Element id (the error summary links to it).
+ * @param props.label - Accessible name for the group.
+ * @param props.value - Current stars, 0 for none.
+ * @param props.onChange - Called with the new stars (0 when cleared).
+ * @param props.disabled - Disables every star.
+ * @param props.invalid - Marks the group invalid for assistive tech.
+ * @param props.describedBy - Id of the element describing an error.
+ * @param props.size - Visual size: "lg" for the overall rating, "sm" for aspects.
+ * @returns Star picker element.
+ */
+function StarPicker({
+  id,
+  label,
+  value,
+  onChange,
+  disabled,
+  invalid,
+  describedBy,
+  size = "lg",
+}: {
+  id?: string;
+  label: string;
+  value: number;
+  onChange: (stars: number) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  describedBy?: string;
+  size?: "lg" | "sm";
+}): React.ReactElement {
+  return (
+    <div
+      id={id}
+      role="radiogroup"
+      aria-label={label}
+      aria-invalid={invalid || undefined}
+      aria-describedby={describedBy}
+      className="flex gap-1"
+    >
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          role="radio"
+          aria-checked={value === n}
+          aria-label={`${n} star${n === 1 ? "" : "s"}`}
+          disabled={disabled}
+          onClick={() => onChange(value === n ? 0 : n)}
+          className={cn(
+            "leading-none transition-colors disabled:opacity-50",
+            size === "lg" ? "text-3xl" : "text-xl",
+            n <= value ? "text-amber-500" : "text-rich-black/20 hover:text-amber-500/60",
+          )}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  );
+}
+
 /**
  * Protected review form with optional booking or contact verification.
  * @param props - Component props.
@@ -60,6 +131,7 @@ export default function ReviewFormProtected({
   const firstId = "review-first-name";
   const lastId = useId();
   const textId = "review-text";
+  const ratingId = "review-rating";
   const emailId = useId();
   const phoneId = "review-phone";
   const counterId = `${textId}-counter`;
@@ -86,6 +158,13 @@ export default function ReviewFormProtected({
   const [firstName, setFirstName] = useState(defaultFirst);
   const [lastName, setLastName] = useState(defaultLast);
   const [text, setText] = useState(existingReview?.text ?? "");
+  // 0 = not chosen yet; the overall rating is required, aspects are not.
+  const [rating, setRating] = useState(existingReview?.rating ?? 0);
+  const [aspects, setAspects] = useState<Record<ReviewAspect, number>>({
+    punctuality: existingReview?.aspectRatings?.punctuality ?? 0,
+    communication: existingReview?.aspectRatings?.communication ?? 0,
+    value: existingReview?.aspectRatings?.value ?? 0,
+  });
   // Contact details - pre-filled from booking/review request if available
   const [contactEmail, setContactEmail] = useState(prefillEmail ?? "");
   // Store raw phone digits internally; display formatted
@@ -126,6 +205,8 @@ export default function ReviewFormProtected({
     const l = lastName.trim();
 
     const fieldErrors: Record<string, string> = {};
+    const ratingErr = reviewRatingError(rating);
+    if (ratingErr) fieldErrors.rating = ratingErr;
     if (!t) {
       fieldErrors.text = "Please write a short review.";
     } else if (t.length < textMin) {
@@ -151,6 +232,8 @@ export default function ReviewFormProtected({
       // contact identifiers, edit (PATCH) adds the customer ref instead.
       const payload = {
         text: t,
+        rating,
+        aspectRatings: aspects,
         firstName: isAnonymous ? null : f,
         lastName: isAnonymous ? null : l || null,
         isAnonymous,
@@ -257,13 +340,15 @@ export default function ReviewFormProtected({
           <ul className="mt-1 list-disc space-y-0.5 pl-5">
             {errorEntries.map(([key, msg]) => {
               const anchor =
-                key === "text"
-                  ? textId
-                  : key === "firstName"
-                    ? firstId
-                    : key === "phone"
-                      ? phoneId
-                      : undefined;
+                key === "rating"
+                  ? ratingId
+                  : key === "text"
+                    ? textId
+                    : key === "firstName"
+                      ? firstId
+                      : key === "phone"
+                        ? phoneId
+                        : undefined;
               return (
                 <li key={key}>
                   {anchor ? (
@@ -439,6 +524,42 @@ export default function ReviewFormProtected({
 
       {/* Review */}
       <div className="rounded-xl border border-seasalt-200/80 bg-white/60 p-4">
+        <div className="mb-4">
+          <p className="mb-1 text-base font-semibold text-rich-black">
+            Overall rating <span className="text-coquelicot-500">*</span>
+          </p>
+          <StarPicker
+            id={ratingId}
+            label="Overall rating"
+            value={rating}
+            onChange={setRating}
+            disabled={loading}
+            invalid={!!errors.rating}
+            describedBy={errors.rating ? `${ratingId}-error` : undefined}
+          />
+          {errors.rating && (
+            <p id={`${ratingId}-error`} className="mt-1 text-base text-coquelicot-500">
+              {errors.rating}
+            </p>
+          )}
+          <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-3">
+            {REVIEW_ASPECTS.map(({ key, label }) => (
+              <div key={key}>
+                <p className="text-sm text-rich-black/70">
+                  {label} <span className="text-rich-black/40">(optional)</span>
+                </p>
+                <StarPicker
+                  label={label}
+                  value={aspects[key]}
+                  onChange={(stars) => setAspects((prev) => ({ ...prev, [key]: stars }))}
+                  disabled={loading}
+                  size="sm"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
         <div className="flex items-baseline justify-between gap-3">
           <label htmlFor={textId} className="block text-base font-semibold text-rich-black">
             Review <span className="text-coquelicot-500">*</span>
@@ -3,6 +3,7 @@
  * @description Reviews module with responsive rows (1-3 items) or marquee scroll (4+ items).
  */
 
+import { StarRating } from "@/features/reviews/components/StarRating";
 import { cn } from "@/shared/lib/cn";
 import Link from "next/link";
 import React from "react";
@@ -81,6 +82,7 @@ function ReviewCard({
         tabIndex={decorative ? -1 : undefined}
         className="flex h-full flex-col p-4 text-inherit no-underline sm:p-5"
       >
+        {r.rating != null && <StarRating rating={r.rating} className="mb-1 text-base sm:text-lg" />}
         <p className="line-clamp-4">
           <ReviewText text={r.text} />
         </p>
@@ -99,6 +101,8 @@ export interface ReviewItem {
   id: string;
   text: string;
   name: string;
+  /** Overall 1-5 stars; null/absent on a text-only review. */
+  rating?: number | null;
 }
 
 export interface ReviewsProps {
@@ -2,11 +2,14 @@
 // src/features/reviews/components/ReviewsList.tsx
 /**
  * @description Public reviews grid. Reveals a batch at a time rather than
- * rendering every approved review at once, with each review's date and name.
+ * rendering every approved review at once, with each review's stars (when it
+ * has a rating), date and name.
  */
 
+import { StarRating } from "@/features/reviews/components/StarRating";
 import { formatReviewerName } from "@/features/reviews/lib/formatting";
 import { splitReviewsIntoColumns } from "@/features/reviews/lib/gridColumns";
+import { REVIEW_ASPECTS, type ReviewAspectRatings } from "@/features/reviews/lib/validation";
 import { Button } from "@/shared/components/Button";
 import { formatDateShort } from "@/shared/lib/date-format";
 import type React from "react";
@@ -19,6 +22,10 @@ export interface PublicReview {
   firstName: string | null;
   lastName: string | null;
   isAnonymous: boolean;
+  /** Overall 1-5 stars; null on a text-only review from before ratings. */
+  rating: number | null;
+  /** Optional per-aspect stars; null when none were given. */
+  aspectRatings: ReviewAspectRatings | null;
   /** ISO timestamp - Date objects can't cross the server > client boundary. */
   createdAt: string;
 }
@@ -55,7 +62,16 @@ export function ReviewsList({ reviews }: { reviews: PublicReview[] }): React.Rea
                 style={{ order }}
                 className="flex flex-col rounded-lg border-2 border-seasalt-200/60 bg-white/80 p-4 sm:p-5"
               >
+                {r.rating !== null && <StarRating rating={r.rating} className="mb-2 text-lg" />}
                 <p className="text-base text-rich-black sm:text-lg">{r.text}</p>
+                {r.aspectRatings && (
+                  <p className="pt-2 text-sm text-rich-black/60">
+                    {REVIEW_ASPECTS.flatMap(({ key, label }) => {
+                      const stars = r.aspectRatings?.[key];
+                      return stars ? [`${label} ${stars}/5`] : [];
+                    }).join(" · ")}
+                  </p>
+                )}
                 <div className="flex flex-wrap items-baseline justify-between gap-x-3 gap-y-1 pt-3">
                   <span className="text-sm text-rich-black/60">{formatDateShort(r.createdAt)}</span>
                   <span className="text-base font-semibold text-russian-violet sm:text-lg">
@@ -0,0 +1,42 @@
+// src/features/reviews/components/StarRating.tsx
+/**
+ * @description Read-only 1-5 star display for a review's rating. No hooks, so
+ * it renders from both server and client components. Screen readers get the
+ * score as text instead of five decorative glyphs.
+ */
+
+import { cn } from "@/shared/lib/cn";
+import type React from "react";
+
+/**
+ * Five stars with the first `rating` filled.
+ * @param props - Component props.
+ * @param props.rating - Whole stars, 1-5.
+ * @param props.className - Extra classes (size, spacing).
+ * @returns Star row element.
+ */
+export function StarRating({
+  rating,
+  className,
+}: {
+  rating: number;
+  className?: string;
+}): React.ReactElement {
+  return (
+    <span
+      role="img"
+      aria-label={`${rating} out of 5 stars`}
+      className={cn("inline-flex tracking-tight", className)}
+    >
+      {[1, 2, 3, 4, 5].map((n) => (
+        <span
+          key={n}
+          aria-hidden="true"
+          className={n <= rating ? "text-amber-500" : "text-rich-black/20"}
+        >
+          ★
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -7,7 +7,9 @@
 import { ConfirmDialog } from "@/features/admin/components/ui/ConfirmDialog";
 import { StatusPill } from "@/features/admin/components/ui/StatusPill";
 import { useToast } from "@/features/admin/components/ui/Toast";
+import { StarRating } from "@/features/reviews/components/StarRating";
 import { formatReviewerName } from "@/features/reviews/lib/formatting";
+import { REVIEW_ASPECTS } from "@/features/reviews/lib/validation";
 import { SOFT_CARD } from "@/shared/components/PageLayout";
 import { cn } from "@/shared/lib/cn";
 import { formatDateShort } from "@/shared/lib/date-format";
@@ -112,6 +114,7 @@ export function ReviewCard({
       <div className="flex flex-wrap items-center gap-2">
         <span className="font-semibold text-russian-violet">{formatReviewerName(row)}</span>
         {row.verified && <StatusPill tone="success">Verified</StatusPill>}
+        {row.rating != null && <StarRating rating={row.rating} />}
         <span className="ml-auto shrink-0 text-xs text-slate-400">
           {formatDateShort(row.createdAt)}
         </span>
@@ -119,6 +122,14 @@ export function ReviewCard({
 
       {/* Review text */}
       <p className="leading-relaxed text-slate-700">{row.text}</p>
+      {row.aspectRatings && (
+        <p className="text-xs text-slate-500">
+          {REVIEW_ASPECTS.flatMap(({ key, label }) => {
+            const stars = row.aspectRatings?.[key];
+            return stars ? [`${label} ${stars}/5`] : [];
+          }).join(" · ")}
+        </p>
+      )}
 
       {/* Actions */}
       <div className="flex flex-wrap items-center gap-2">
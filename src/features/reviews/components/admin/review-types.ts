@@ -3,6 +3,8 @@
  * @description Shared types and utility functions for review moderation.
  */
 
+import type { ReviewAspectRatings } from "@/features/reviews/lib/validation";
+
 /**
  * A single review entry from the database.
  */
@@ -19,6 +21,10 @@ export interface ReviewRow {
   isAnonymous: boolean;
   /** Whether the review was verified via a booking token */
   verified?: boolean;
+  /** Overall 1-5 stars, or null for a text-only review */
+  rating?: number | null;
+  /** Optional per-aspect stars, or null when none were given */
+  aspectRatings?: ReviewAspectRatings | null;
   /** Review moderation status */
   status: string;
   /** Creation timestamp */
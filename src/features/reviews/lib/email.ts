@@ -1,23 +1,25 @@
 // src/features/reviews/lib/email.ts
 /**
- * @description Shared Resend utility for sending transactional emails.
+ * @description Transactional email templates. Each send renders its email and
+ * hands it to the outbox, which delivers through Resend and retries failures.
  */
 
 import { buildAppointmentDescription, parseBookingNotes } from "@/features/booking/lib/booking";
 import { buildIcs } from "@/features/booking/lib/ics";
 import { formatNZD } from "@/features/business/lib/business";
-import {
-  DEFAULT_INVOICE_EMAIL_BODY,
-  DEFAULT_QUOTE_EMAIL_BODY,
-  DEFAULT_VOID_EMAIL_BODY,
-} from "@/features/business/lib/invoice-email-defaults";
+import { invoiceBalanceDue } from "@/features/business/lib/invoice-status";
+import { invoicePayUrl } from "@/features/business/lib/payment-provider";
 import { cancellationCopy } from "@/features/business/lib/pricing-policy";
 import { getPolicy } from "@/features/business/lib/pricing-policy.server";
+import { quotePageUrl } from "@/features/business/lib/quote-acceptance";
+import type { Statement } from "@/features/business/lib/statement";
+import { enqueueEmail } from "@/features/messaging/lib/outbox";
 import { getIdentity } from "@/shared/lib/business-identity.server";
-import { formatDateShort, formatDateTimeLong } from "@/shared/lib/date-format";
+import { formatDateShort, formatDateTimeLong, formatDateTimeShort } from "@/shared/lib/date-format";
+import { type EmailTemplateKey, fillPlaceholders } from "@/shared/lib/settings/email-templates";
 import { getSettings } from "@/shared/lib/settings/get-settings";
+import type { EmailTemplate } from "@/shared/lib/settings/types";
 import { getSiteUrl } from "@/shared/lib/site-url";
-import { Resend } from "resend";
 
 /**
  * Escapes HTML so user-supplied values can be interpolated into email bodies.
@@ -260,17 +262,6 @@ ${bodyHtml}
 </html>`;
 }
 
-// Lazy singleton so module import never throws when RESEND_API_KEY is unset.
-let _resend: Resend | null = null;
-/**
- * Returns the shared Resend client, initialising it on first call.
- * @returns Resend client instance.
- */
-function getResend(): Resend {
-  if (!_resend) _resend = new Resend(process.env.RESEND_API_KEY);
-  return _resend;
-}
-
 /**
  * Names the given email env vars that are unset or blank, so a "not configured"
  * skip log says exactly which var to fix. The email layer deliberately skips
@@ -282,6 +273,111 @@ function missingEmailEnv(...names: string[]): string {
   return names.filter((n) => !process.env[n]?.trim()).join(", ");
 }
 
+/** What a template's placeholders are filled from for one render. */
+interface TemplateContext {
+  identity: Awaited<ReturnType<typeof getIdentity>>;
+  siteUrl: string;
+  /** The template's own variables as plain text (escaped here, not by callers). */
+  vars: Record<string, string>;
+}
+
+/**
+ * The copy for one customer email: the caller's override when previewing an
+ * unsaved edit from the settings panel, otherwise the saved template.
+ * @param key - Template key.
+ * @param override - Unsaved template from the preview route.
+ * @returns Subject + body source text.
+ */
+async function loadTemplate(
+  key: EmailTemplateKey,
+  override?: EmailTemplate,
+): Promise<EmailTemplate> {
+  if (override) return override;
+  const { templates } = await getSettings();
+  return templates[key];
+}
+
+/**
+ * Fills a template subject. Subjects can't carry markup, so identity values go
+ * in as plain text here rather than the anchors the body gets.
+ * @param subject - Subject source text.
+ * @param ctx - Placeholder values.
+ * @returns The subject line, whitespace collapsed.
+ */
+function renderTemplateSubject(subject: string, ctx: TemplateContext): string {
+  const { identity, siteUrl, vars } = ctx;
+  return fillPlaceholders(subject, {
+    name: identity.name,
+    company: brandName(identity),
+    phone: identity.phone,
+    email: identity.email,
+    website: siteUrl.replace(/^https?:\/\//, ""),
+    location: identity.location,
+    ...vars,
+  })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Renders template body text as inline HTML. Same order as the signature:
+ * escape and emphasise first, linkify the operator's own URLs, and only then
+ * substitute placeholders, so the anchors `{phone}`/`{email}`/`{website}`
+ * expand to survive while anything typed stays inert text.
+ * @param text - Body source text.
+ * @param ctx - Placeholder values.
+ * @returns Escaped HTML fragment; newlines are left for the caller to lay out.
+ */
+function renderTemplateHtml(text: string, ctx: TemplateContext): string {
+  const html = text
+    .split(/(\*\*[^*]+\*\*)/g)
+    .map((part) => {
+      const m = part.match(/^\*\*([^*]+)\*\*$/);
+      return m
+        ? `<strong>${linkifyEscaped(escapeHtml(m[1]))}</strong>`
+        : linkifyEscaped(escapeHtml(part));
+    })
+    .join("");
+  const vars = Object.fromEntries(
+    Object.entries(ctx.vars).map(([key, value]) => [key, escapeHtml(value)]),
+  );
+  return fillPlaceholders(html, { ...signaturePlaceholders(ctx.identity, ctx.siteUrl), ...vars });
+}
+
+/**
+ * Renders template body text as one `<p>` per blank-line-separated paragraph,
+ * with single newlines kept as line breaks.
+ * @param text - Body source text.
+ * @param ctx - Placeholder values.
+ * @param style - Inline style for each paragraph.
+ * @returns HTML paragraphs.
+ */
+function renderTemplateParagraphs(text: string, ctx: TemplateContext, style: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(
+      (para) =>
+        `<p style="${style}">${renderTemplateHtml(para.trim(), ctx).replace(/\n/g, "<br>")}</p>`,
+    )
+    .join("\n    ");
+}
+
+/**
+ * The booking variables shared by every appointment template.
+ * @param booking - Booking being emailed about.
+ * @param booking.name - Customer name.
+ * @param booking.startAt - Appointment start (UTC).
+ * @returns Plain-text template variables.
+ */
+function bookingTemplateVars(booking: { name: string; startAt: Date }): Record<string, string> {
+  return {
+    firstName: booking.name.split(" ")[0],
+    when: formatDateTimeLong(booking.startAt),
+    date: formatDateShort(booking.startAt),
+  };
+}
+
 /**
  * Review data used for owner notification emails.
  */
@@ -298,13 +394,15 @@ export interface ReviewNotificationData {
   isAnonymous: boolean;
   /** Whether the review was verified via a booking token */
   verified: boolean;
+  /** Overall 1-5 star rating; null/absent on a text-only review */
+  rating?: number | null;
 }
 
 /**
  * Sends the site owner a notification email when a new review is submitted.
  * Failures are caught and logged - never throws.
  * @param review - The newly submitted review.
- * @returns Promise that resolves when the email is sent (or silently fails).
+ * @returns Promise that resolves once the email is queued (or silently fails).
  */
 export async function sendOwnerReviewNotification(review: ReviewNotificationData): Promise<void> {
   const adminEmail = process.env.ADMIN_EMAIL;
@@ -326,6 +424,9 @@ export async function sendOwnerReviewNotification(review: ReviewNotificationData
   const adminUrl = `${siteUrl}/admin/reviews`;
   const safeDisplayName = escapeHtml(displayName);
   const safeReviewText = escapeHtml(review.text).replace(/\n/g, "<br>");
+  const stars = review.rating
+    ? `<p style="margin:0 0 8px;font-size:18px;color:#f59e0b">${"★".repeat(review.rating)}${"☆".repeat(5 - review.rating)}</p>`
+    : "";
 
   const html = renderNotificationEmail(`
     <h2 style="margin:0 0 8px;color:#0c0a3e;font-size:20px">New review submitted</h2>
@@ -333,6 +434,7 @@ export async function sendOwnerReviewNotification(review: ReviewNotificationData
 
     <div style="background:#f6f7f8;border-radius:8px;padding:16px;margin-bottom:20px">
       <p style="margin:0 0 8px;font-size:14px;color:#888"><strong style="color:#0c0a3e">${safeDisplayName}</strong></p>
+      ${stars}
       <p style="margin:0;color:#222;line-height:1.6;font-size:15px">${safeReviewText}</p>
     </div>
 
@@ -343,18 +445,16 @@ export async function sendOwnerReviewNotification(review: ReviewNotificationData
     }
 `);
 
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: adminEmail,
-      to: adminEmail,
-      subject: `New review - ${displayName} (${review.verified ? "verified" : "pending"})`,
-      html,
-      text: htmlToText(html),
-    });
-  } catch (error) {
-    console.error("[email] Failed to send owner review notification:", error);
-  }
+  await enqueueEmail({
+    template: "owner-review",
+    from,
+    replyTo: adminEmail,
+    to: adminEmail,
+    subject: `New review - ${displayName} (${review.verified ? "verified" : "pending"})`,
+    html,
+    text: htmlToText(html),
+    payload: review,
+  });
 }
 
 /**
@@ -387,8 +487,10 @@ export interface BookingNotificationData {
    * address ({@link onSiteAddress}); address and meetingType are written together.
    */
   meetingType?: "in_person" | "remote" | null;
-  /** How many times the booking has moved; becomes the calendar SEQUENCE. */
-  rescheduleCount?: number;
+  /** Customer plus operator moves (see calendarSequence); becomes the calendar SEQUENCE. */
+  calendarSequence?: number;
+  /** Photos the customer attached; the owner email links to them when > 0. */
+  photoCount?: number;
 }
 
 /**
@@ -429,6 +531,20 @@ function ownerMapHtml(booking: BookingNotificationData): string {
   )}" style="color:#43bccd;font-size:14px;font-weight:600">📍 Get directions</a></p>`;
 }
 
+/**
+ * Owner-email link to the customer's attached photos. The images sit behind
+ * admin auth, so the email links to the booking page rather than embedding them.
+ * @param booking - The booking being emailed about.
+ * @returns The link paragraph, or "" when nothing was attached.
+ */
+function ownerPhotosHtml(booking: BookingNotificationData): string {
+  const count = booking.photoCount ?? 0;
+  if (count === 0) return "";
+  return `<p style="margin:0 0 12px"><a href="${getSiteUrl()}/admin/bookings/${encodeURIComponent(
+    booking.id,
+  )}" style="color:#43bccd;font-size:14px;font-weight:600">📎 ${count} photo${count === 1 ? "" : "s"} attached - view booking</a></p>`;
+}
+
 /**
  * Builds the `.ics` attachment sent with the customer's booking emails.
  * @param booking - The booking being emailed about.
@@ -458,7 +574,7 @@ async function bookingIcsAttachment(
     }),
     location: address || undefined,
     url: `${siteUrl}/booking/edit?token=${encodeURIComponent(booking.cancelToken)}`,
-    sequence: booking.rescheduleCount ?? 0,
+    sequence: booking.calendarSequence ?? 0,
     organiserEmail: identity.email,
   });
 
@@ -472,7 +588,7 @@ async function bookingIcsAttachment(
  * @param options - Optional flags.
  * @param options.kind - "new" (default) for fresh bookings, "rescheduled" for edits.
  * @param options.previousStartAt - Original start time, shown in the body when rescheduled.
- * @returns Promise that resolves when the email is sent (or silently fails).
+ * @returns Promise that resolves once the email is queued (or silently fails).
  */
 export async function sendOwnerBookingNotification(
   booking: BookingNotificationData,
@@ -520,47 +636,48 @@ export async function sendOwnerBookingNotification(
       <p style="margin:0;font-size:14px;color:#444;line-height:1.6">${notesHtml}</p>
     </div>
 
+    ${ownerPhotosHtml(booking)}
     ${ownerMapHtml(booking)}
 `);
 
-  // Send via Resend
-  try {
-    await getResend().emails.send({
-      from,
-      // Reply goes to the customer who booked, not back to the owner inbox.
-      replyTo: booking.email,
-      to: adminEmail,
-      subject,
-      html,
-      text: htmlToText(html),
-    });
-  } catch (error) {
-    console.error("[email] Failed to send owner booking notification:", error);
-  }
+  // Queue via the outbox (first attempt is immediate)
+  await enqueueEmail({
+    template: kind === "rescheduled" ? "owner-booking-rescheduled" : "owner-booking",
+    from,
+    // Reply goes to the customer who booked, not back to the owner inbox.
+    replyTo: booking.email,
+    to: adminEmail,
+    subject,
+    html,
+    text: htmlToText(html),
+    payload: { ...booking, ...options },
+    bookingId: booking.id,
+  });
+}
+
+/** Flags for the booking confirmation / reschedule notification. */
+interface BookingConfirmationOptions {
+  /** "new" (default) for a fresh booking; "rescheduled" for an edit. */
+  kind?: "new" | "rescheduled";
+  /** Original start time, shown crossed-out when rescheduled. */
+  previousStartAt?: Date;
 }
 
 /**
- * Sends the customer a booking confirmation or reschedule notification.
- * Failures are caught and logged - never throws.
+ * Renders the customer booking confirmation or reschedule notification without
+ * sending. Shared by the send path and the template preview.
  * @param booking - The booking details.
  * @param options - Optional flags.
- * @param options.kind - "new" (default) for a fresh booking; "rescheduled" for an edit.
- * @param options.previousStartAt - Original start time, shown crossed-out when rescheduled.
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML body.
  */
-export async function sendCustomerBookingConfirmation(
+export async function buildBookingConfirmationEmail(
   booking: BookingNotificationData,
-  options?: { kind?: "new" | "rescheduled"; previousStartAt?: Date },
-): Promise<void> {
-  const from = process.env.EMAIL_FROM;
+  options?: BookingConfirmationOptions,
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
   const siteUrl = getSiteUrl();
 
-  if (!from || !process.env.RESEND_API_KEY) {
-    console.warn(
-      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping customer booking confirmation.`,
-    );
-    return;
-  }
-
   // Derive display fields
   const kind = options?.kind ?? "new";
   const firstName = booking.name.split(" ")[0];
@@ -589,17 +706,21 @@ export async function sendCustomerBookingConfirmation(
       ? `🔄 Appointment updated, ${safeFirstName}!`
       : `Booking confirmed, ${safeFirstName}!`;
   const identity = await getIdentity();
-  const intro =
-    kind === "rescheduled"
-      ? "Your appointment has been rescheduled. The Google Calendar invite has been updated to match."
-      : `Thanks for choosing ${escapeHtml(brandName(identity))} - I'm looking forward to helping you out.`;
-  const subject =
-    kind === "rescheduled" ? `🔄 Appointment updated - ${start}` : `Booking confirmed - ${start}`;
+  const copy = await loadTemplate(
+    kind === "rescheduled" ? "bookingRescheduled" : "bookingConfirmation",
+    template,
+  );
+  const ctx: TemplateContext = { identity, siteUrl, vars: bookingTemplateVars(booking) };
+  const intro = renderTemplateParagraphs(
+    copy.body,
+    ctx,
+    "margin:0 0 20px;color:#444;line-height:1.6",
+  );
+  const subject = renderTemplateSubject(copy.subject, ctx);
   const previousLine =
     kind === "rescheduled" && previous
       ? `<p style="margin:0 0 20px;color:#888;font-size:13px"><s>${escapeHtml(previous)}</s></p>`
       : "";
-  const attachments = await bookingIcsAttachment(booking);
   const promoLine = booking.promoTitleAtBooking
     ? `<div style="background:#fef3c7;border:1px solid #fbbf24;border-radius:8px;padding:12px 16px;margin-bottom:16px"><p style="margin:0 0 4px;font-size:13px;font-weight:600;color:#0c0a3e">🏷 Rate locked in: ${escapeHtml(booking.promoTitleAtBooking)}</p><p style="margin:0;font-size:13px;color:#444;line-height:1.5">This rate applies to your appointment even if the offer ends before your visit.</p></div>`
     : "";
@@ -607,7 +728,7 @@ export async function sendCustomerBookingConfirmation(
   // Render the email body
   const html = renderNotificationEmail(`
     <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">${heading}</h2>
-    <p style="margin:0 0 20px;color:#444;line-height:1.6">${intro}</p>
+    ${intro}
 
     <p style="margin:0 0 8px;color:#888;font-size:13px;text-transform:uppercase;letter-spacing:.05em;font-weight:600">Your appointment</p>
     <p style="margin:0 0 4px;font-size:16px;font-weight:600;color:#0c0a3e">${start}</p>
@@ -637,39 +758,61 @@ export async function sendCustomerBookingConfirmation(
 ${await buildEmailSignature(siteUrl)}
 `);
 
-  // Send via Resend
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: booking.email,
-      subject,
-      html,
-      text: htmlToText(html),
-      attachments,
-    });
-  } catch (error) {
-    console.error(`[email] Failed to send booking confirmation for booking ${booking.id}:`, error);
-  }
+  return { subject, html };
 }
 
 /**
- * Sends a "your appointment is tomorrow" reminder. Fired by the
- * /api/cron/send-booking-reminders cron. Failures are logged - never throws.
- * @param booking - Booking details (same shape as the confirmation helper).
- * @returns True if Resend accepted the message, false on misconfig / failure.
+ * Sends the customer a booking confirmation or reschedule notification.
+ * Failures are caught and logged - never throws.
+ * @param booking - The booking details.
+ * @param options - Optional flags.
+ * @param options.kind - "new" (default) for a fresh booking; "rescheduled" for an edit.
+ * @param options.previousStartAt - Original start time, shown crossed-out when rescheduled.
  */
-export async function sendBookingReminderEmail(booking: BookingNotificationData): Promise<boolean> {
+export async function sendCustomerBookingConfirmation(
+  booking: BookingNotificationData,
+  options?: BookingConfirmationOptions,
+): Promise<void> {
   const from = process.env.EMAIL_FROM;
-  const siteUrl = getSiteUrl();
 
   if (!from || !process.env.RESEND_API_KEY) {
     console.warn(
-      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping booking reminder email.`,
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping customer booking confirmation.`,
     );
-    return false;
+    return;
   }
 
+  const kind = options?.kind ?? "new";
+  const { subject, html } = await buildBookingConfirmationEmail(booking, options);
+  const attachments = await bookingIcsAttachment(booking);
+
+  // Queue via the outbox (first attempt is immediate)
+  await enqueueEmail({
+    template: kind === "rescheduled" ? "booking-rescheduled" : "booking-confirmation",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: booking.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    attachments,
+    payload: { ...booking, ...options },
+    bookingId: booking.id,
+  });
+}
+
+/**
+ * Renders the "your appointment is tomorrow" reminder without sending.
+ * @param booking - Booking details (same shape as the confirmation helper).
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML body.
+ */
+export async function buildBookingReminderEmail(
+  booking: BookingNotificationData,
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
+  const siteUrl = getSiteUrl();
+
   // Derive display fields
   const firstName = booking.name.split(" ")[0];
   const safeFirstName = escapeHtml(firstName);
@@ -689,16 +832,17 @@ export async function sendBookingReminderEmail(booking: BookingNotificationData)
         : "";
   const cancellationText = await liveCancellationCopy(booking);
   const identity = await getIdentity();
+  const copy = await loadTemplate("bookingReminder", template);
+  const ctx: TemplateContext = { identity, siteUrl, vars: bookingTemplateVars(booking) };
   const promoLine = booking.promoTitleAtBooking
     ? `<div style="background:#fef3c7;border:1px solid #fbbf24;border-radius:8px;padding:12px 16px;margin-bottom:16px"><p style="margin:0 0 4px;font-size:13px;font-weight:600;color:#0c0a3e">🏷 Rate locked in: ${escapeHtml(booking.promoTitleAtBooking)}</p><p style="margin:0;font-size:13px;color:#444;line-height:1.5">This rate applies to your appointment even if the offer ends before your visit.</p></div>`
     : "";
-  const attachments = await bookingIcsAttachment(booking);
 
   // Render the email body. The "tomorrow" wording assumes comms.reminderLeadHours
   // stays near 24h; revisit this copy if that lead time moves far from a day.
   const html = renderNotificationEmail(`
     <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${safeFirstName}, just a reminder</h2>
-    <p style="margin:0 0 20px;color:#444;line-height:1.6">Your appointment with ${escapeHtml(brandName(identity))} is coming up tomorrow.</p>
+    ${renderTemplateParagraphs(copy.body, ctx, "margin:0 0 20px;color:#444;line-height:1.6")}
 
     <p style="margin:0 0 8px;color:#888;font-size:13px;text-transform:uppercase;letter-spacing:.05em;font-weight:600">When</p>
     <p style="margin:0 0 4px;font-size:16px;font-weight:600;color:#0c0a3e">${start}</p>
@@ -727,22 +871,41 @@ export async function sendBookingReminderEmail(booking: BookingNotificationData)
 ${await buildEmailSignature(siteUrl)}
 `);
 
-  // Send via Resend
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: booking.email,
-      subject: `Reminder: appointment tomorrow - ${start}`,
-      html,
-      text: htmlToText(html),
-      attachments,
-    });
-    return true;
-  } catch (error) {
-    console.error(`[email] Failed to send reminder for booking ${booking.id}:`, error);
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
+}
+
+/**
+ * Sends a "your appointment is tomorrow" reminder. Fired by the
+ * /api/cron/send-booking-reminders cron. Failures are logged - never throws.
+ * @param booking - Booking details (same shape as the confirmation helper).
+ * @returns True once queued in the outbox, false on misconfig.
+ */
+export async function sendBookingReminderEmail(booking: BookingNotificationData): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping booking reminder email.`,
+    );
     return false;
   }
+
+  const { subject, html } = await buildBookingReminderEmail(booking);
+  const attachments = await bookingIcsAttachment(booking);
+
+  // Queue via the outbox (first attempt is immediate)
+  return enqueueEmail({
+    template: "booking-reminder",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: booking.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    attachments,
+    payload: booking,
+    bookingId: booking.id,
+  });
 }
 
 /** One upcoming booking listed in the manage-links email. */
@@ -758,7 +921,7 @@ export interface ManageLinksBooking {
  * address that owns the bookings, so carrying the tokens is safe.
  * @param to - Recipient address (the booking email).
  * @param bookings - Their upcoming bookings, soonest first.
- * @returns True if Resend accepted the message, false on misconfig / failure.
+ * @returns True once queued in the outbox, false on misconfig.
  */
 export async function sendBookingManageLinksEmail(
   to: string,
@@ -797,20 +960,270 @@ export async function sendBookingManageLinksEmail(
 ${await buildEmailSignature(siteUrl)}
 `);
 
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to,
-      subject: `Your upcoming ${plural}`,
-      html,
-      text: htmlToText(html),
-    });
-    return true;
-  } catch (error) {
-    console.error("[email] Failed to send manage-links email:", error);
+  return enqueueEmail({
+    template: "booking-manage-links",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to,
+    subject: `Your upcoming ${plural}`,
+    html,
+    text: htmlToText(html),
+    payload: { bookings },
+  });
+}
+
+/** A booking whose day is being cleared, plus the times offered in its place. */
+export interface RescheduleRequestData {
+  /** Booking ID (for logging). */
+  id: string;
+  /** Customer name. */
+  name: string;
+  /** Customer email address. */
+  email: string;
+  /** Current appointment start (UTC). */
+  startAt: Date;
+  /** Token behind the pick-a-time / cancel links. */
+  cancelToken: string;
+  /** Suggested replacement starts (UTC ISO), soonest first. May be empty. */
+  suggestedStarts: string[];
+}
+
+/**
+ * Renders the "can we move your appointment?" email without sending. Each
+ * suggested time is a one-tap link onto the pick-a-time page with that slot
+ * preselected; the page re-checks it live before anything moves.
+ * @param booking - The booking being moved and its suggested times.
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML body.
+ */
+export async function buildRescheduleRequestEmail(
+  booking: RescheduleRequestData,
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
+  const siteUrl = getSiteUrl();
+  const identity = await getIdentity();
+  const copy = await loadTemplate("rescheduleRequest", template);
+  const ctx: TemplateContext = { identity, siteUrl, vars: bookingTemplateVars(booking) };
+  const safeFirstName = escapeHtml(booking.name.split(" ")[0]);
+  const token = encodeURIComponent(booking.cancelToken);
+  const pickUrl = `${siteUrl}/booking/reschedule?token=${token}`;
+  const cancelUrl = `${siteUrl}/booking/cancel?token=${token}`;
+
+  const suggestionButtons = booking.suggestedStarts
+    .map(
+      (iso) =>
+        `<a href="${pickUrl}&amp;start=${encodeURIComponent(iso)}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 20px;border-radius:8px;font-size:13px;font-weight:600;margin:0 8px 10px 0">${formatDateTimeShort(iso)}</a>`,
+    )
+    .join("");
+  const suggestionsBlock = suggestionButtons
+    ? `<p style="margin:0 0 12px;color:#444;line-height:1.6">These times are free right now - tap one to grab it:</p>
+    <div style="margin-bottom:16px">${suggestionButtons}</div>`
+    : "";
+
+  const html = renderNotificationEmail(`
+    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${safeFirstName}, can we move your appointment?</h2>
+    ${renderTemplateParagraphs(copy.body, ctx, "margin:0 0 20px;color:#444;line-height:1.6")}
+    ${suggestionsBlock}
+    <a href="${pickUrl}" style="display:inline-block;background:#e8e8e8;color:#333;text-decoration:none;padding:12px 20px;border-radius:8px;font-size:13px;font-weight:600;margin:0 8px 10px 0">📅 See all available times</a>
+    <a href="${cancelUrl}" style="display:inline-block;background:#e8e8e8;color:#333;text-decoration:none;padding:12px 20px;border-radius:8px;font-size:13px;font-weight:600;margin:0 0 10px">❌ Cancel instead</a>
+    <p style="margin:20px 0 0;color:#444;font-size:14px;line-height:1.6">None of these work? Just reply to this email and we'll sort something out.</p>
+${await buildEmailSignature(siteUrl)}
+`);
+
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
+}
+
+/**
+ * Asks a customer to move their appointment because the operator can no longer
+ * make that day.
+ * @param booking - The booking being moved and its suggested times.
+ * @returns True once queued in the outbox, false on misconfig.
+ */
+export async function sendRescheduleRequestEmail(booking: RescheduleRequestData): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping reschedule request email.`,
+    );
+    return false;
+  }
+
+  const { subject, html } = await buildRescheduleRequestEmail(booking);
+  return enqueueEmail({
+    template: "reschedule-request",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: booking.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    payload: booking,
+    bookingId: booking.id,
+  });
+}
+
+/** A held waitlist offer awaiting the customer's confirmation. */
+export interface WaitlistOfferData {
+  /** Held booking ID (for logging). */
+  id: string;
+  /** Customer name. */
+  name: string;
+  /** Customer email address. */
+  email: string;
+  /** Offered start (UTC). */
+  startAt: Date;
+  /** Token behind the confirm / decline links. */
+  cancelToken: string;
+  /** When the hold lapses and the slot passes down the list. */
+  holdExpiresAt: Date;
+}
+
+/**
+ * Renders the waitlist offer email without sending.
+ * @param offer - The held offer.
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML body.
+ */
+export async function buildWaitlistOfferEmail(
+  offer: WaitlistOfferData,
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
+  const siteUrl = getSiteUrl();
+  const identity = await getIdentity();
+  const copy = await loadTemplate("waitlistOffer", template);
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: { ...bookingTemplateVars(offer), holdUntil: formatDateTimeShort(offer.holdExpiresAt) },
+  };
+  const safeFirstName = escapeHtml(offer.name.split(" ")[0]);
+  const offerUrl = `${siteUrl}/booking/waitlist?token=${encodeURIComponent(offer.cancelToken)}`;
+
+  const html = renderNotificationEmail(`
+    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${safeFirstName}, a time has opened up</h2>
+    ${renderTemplateParagraphs(copy.body, ctx, "margin:0 0 20px;color:#444;line-height:1.6")}
+    <a href="${offerUrl}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 20px;border-radius:8px;font-size:13px;font-weight:600;margin:0 8px 10px 0">✅ Confirm or decline</a>
+    <p style="margin:20px 0 0;color:#444;font-size:14px;line-height:1.6">Can't make it? Tap the link and decline, and I'll pass it on straight away.</p>
+${await buildEmailSignature(siteUrl)}
+`);
+
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
+}
+
+/**
+ * Tells a waitlisted customer a slot has opened on the day they wanted. The slot
+ * is held for them until `holdExpiresAt`; the link lands on the offer page where
+ * they confirm or turn it down.
+ * @param offer - The held offer.
+ * @returns True once queued in the outbox, false on misconfig.
+ */
+export async function sendWaitlistOfferEmail(offer: WaitlistOfferData): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping waitlist offer email.`,
+    );
+    return false;
+  }
+
+  const { subject, html } = await buildWaitlistOfferEmail(offer);
+  return enqueueEmail({
+    template: "waitlist-offer",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: offer.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    payload: offer,
+    bookingId: offer.id,
+  });
+}
+
+/** A proposed new time from the day planner, awaiting the customer's answer. */
+export interface RescheduleProposalData {
+  /** Booking ID (for logging and the outbox link). */
+  id: string;
+  /** Customer name. */
+  name: string;
+  /** Customer email address. */
+  email: string;
+  /** Current start (UTC). */
+  startAt: Date;
+  /** Proposed start (UTC). */
+  proposedStartAt: Date;
+  /** Token behind the accept / decline page. */
+  token: string;
+}
+
+/**
+ * Renders the "could I come at a different time?" email without sending.
+ * @param proposal - The booking and its proposed time.
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML body.
+ */
+export async function buildRescheduleProposalEmail(
+  proposal: RescheduleProposalData,
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
+  const siteUrl = getSiteUrl();
+  const identity = await getIdentity();
+  const copy = await loadTemplate("rescheduleProposal", template);
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: {
+      ...bookingTemplateVars(proposal),
+      newTime: formatDateTimeLong(proposal.proposedStartAt),
+    },
+  };
+  const safeFirstName = escapeHtml(proposal.name.split(" ")[0]);
+  const proposalUrl = `${siteUrl}/booking/proposal?token=${encodeURIComponent(proposal.token)}`;
+
+  const html = renderNotificationEmail(`
+    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${safeFirstName}, could I come at a different time?</h2>
+    ${renderTemplateParagraphs(copy.body, ctx, "margin:0 0 20px;color:#444;line-height:1.6")}
+    <a href="${proposalUrl}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 20px;border-radius:8px;font-size:13px;font-weight:600;margin:0 8px 10px 0">✅ Accept or keep my time</a>
+    <p style="margin:20px 0 0;color:#444;font-size:14px;line-height:1.6">Nothing changes unless you say yes - if I don't hear back, your booking stays as it is.</p>
+${await buildEmailSignature(siteUrl)}
+`);
+
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
+}
+
+/**
+ * Asks a customer whether their visit can move to the time the day planner
+ * proposed. The link lands on the proposal page where they accept or keep
+ * their current time.
+ * @param proposal - The booking and its proposed time.
+ * @returns True once queued in the outbox, false on misconfig.
+ */
+export async function sendRescheduleProposalEmail(
+  proposal: RescheduleProposalData,
+): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping reschedule proposal email.`,
+    );
     return false;
   }
+
+  const { subject, html } = await buildRescheduleProposalEmail(proposal);
+  return enqueueEmail({
+    template: "reschedule-proposal",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: proposal.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    payload: proposal,
+    bookingId: proposal.id,
+  });
 }
 
 /**
@@ -828,85 +1241,94 @@ export interface ReviewRequestData {
 }
 
 /**
- * Sends a review request email to a customer shortly after their appointment.
- * Failures are caught and logged - never throws.
+ * Renders the post-appointment review request without sending.
  * @param booking - Booking details for the customer.
- * @returns True when the email was sent (or intentionally skipped because Resend
- *   is not configured); false when the send failed and should be retried.
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML body.
  */
-export async function sendCustomerReviewRequest(booking: ReviewRequestData): Promise<boolean> {
-  const from = process.env.EMAIL_FROM;
+export async function buildReviewRequestEmail(
+  booking: ReviewRequestData,
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
   const siteUrl = getSiteUrl();
-
-  if (!from || !process.env.RESEND_API_KEY) {
-    console.warn(
-      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping customer review request.`,
-    );
-    return true;
-  }
-
   const identity = await getIdentity();
+  const copy = await loadTemplate("reviewRequest", template);
   const reviewUrl = `${siteUrl}/review?token=${encodeURIComponent(booking.reviewToken)}`;
   const firstName = booking.name.split(" ")[0];
-  const safeFirstName = escapeHtml(firstName);
+  const ctx: TemplateContext = { identity, siteUrl, vars: { firstName } };
 
   const html = renderNotificationEmail(`
-    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${safeFirstName}, how did everything go?</h2>
-    <p style="margin:0 0 12px;color:#444;line-height:1.6">It was great meeting you - I hope I managed to get everything sorted and left you feeling a bit less frustrated with technology!</p>
-    <p style="margin:0 0 12px;color:#444;line-height:1.6">If you have a spare moment, I'd love to hear how it went. A quick review makes a real difference for a small local business like mine, and helps other people find reliable tech support when they need it.</p>
-    <p style="margin:0 0 24px;color:#444;line-height:1.6">It only takes a minute, and honest feedback is always welcome.</p>
-    <a href="${reviewUrl}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 28px;border-radius:8px;font-weight:600;font-size:15px">Leave a review</a>
+    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${escapeHtml(firstName)}, how did everything go?</h2>
+    ${renderTemplateParagraphs(copy.body, ctx, "margin:0 0 12px;color:#444;line-height:1.6")}
+    <a href="${reviewUrl}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 28px;border-radius:8px;font-weight:600;font-size:15px;margin-top:12px">Leave a review</a>
 
     <p style="margin:28px 0 20px;color:#444;font-size:14px;line-height:1.6">Thanks again for choosing ${escapeHtml(brandName(identity))}. If you ever need a hand with anything else, don't hesitate to get in touch.</p>
 ${await buildEmailSignature(siteUrl)}
 `);
 
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: booking.email,
-      subject: `Thanks for having me, ${firstName} - how did everything go?`,
-      html,
-      text: htmlToText(html),
-    });
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
+}
+
+/**
+ * Sends a review request email to a customer shortly after their appointment.
+ * Failures are caught and logged - never throws.
+ * @param booking - Booking details for the customer.
+ * @returns True when the email was queued (or intentionally skipped because Resend
+ *   is not configured); false when it couldn't be queued and should be retried.
+ */
+export async function sendCustomerReviewRequest(booking: ReviewRequestData): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping customer review request.`,
+    );
     return true;
-  } catch (error) {
-    console.error(`[email] Failed to send review request for booking ${booking.id}:`, error);
-    return false;
   }
+
+  const { subject, html } = await buildReviewRequestEmail(booking);
+  return enqueueEmail({
+    template: "review-request",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: booking.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    payload: booking,
+    bookingId: booking.id,
+  });
 }
 
 /**
- * Builds the HTML body for a past-client review request email.
+ * Builds the subject and HTML body for a past-client review request email.
  * @param firstName - Customer's first name.
  * @param reviewUrl - The personalised review link URL.
- * @returns HTML string ready to send.
+ * @param template - Unsaved template to render instead of the saved one (preview).
+ * @returns Subject + HTML ready to send.
  */
-export async function buildPastClientReviewEmailHtml(
+export async function buildPastClientReviewEmail(
   firstName: string,
   reviewUrl: string,
-): Promise<string> {
+  template?: EmailTemplate,
+): Promise<{ subject: string; html: string }> {
   const siteUrl = getSiteUrl();
   const identity = await getIdentity();
-  const safeFirstName = escapeHtml(firstName);
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><meta name="color-scheme" content="light"><meta name="supported-color-schemes" content="light"></head>
-<body style="font-family:system-ui,sans-serif;background:#f6f7f8;margin:0;padding:24px">
-  <div style="max-width:560px;margin:0 auto;background:#fff;border-radius:12px;padding:32px;box-shadow:0 2px 8px rgba(0,0,0,.08)">
-    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${safeFirstName},</h2>
-    <p style="margin:0 0 12px;color:#444;line-height:1.6">It's ${escapeHtml(identity.name.split(" ")[0])} from ${escapeHtml(brandName(identity))} - thanks again for letting me help you out!</p>
-    <p style="margin:0 0 12px;color:#444;line-height:1.6">If you have a spare moment, a quick review would mean a lot - it really helps other people find reliable local tech support.</p>
-    <p style="margin:0 0 24px;color:#444;line-height:1.6">No pressure at all, but if you're happy to, I'd really appreciate it.</p>
-    <a href="${reviewUrl}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 28px;border-radius:8px;font-weight:600;font-size:15px">Leave a review</a>
+  const copy = await loadTemplate("pastClientReviewRequest", template);
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: { firstName, ownerFirstName: identity.name.split(" ")[0] },
+  };
+  const html = renderNotificationEmail(`
+    <h2 style="margin:0 0 12px;color:#0c0a3e;font-size:20px">Hi ${escapeHtml(firstName)},</h2>
+    ${renderTemplateParagraphs(copy.body, ctx, "margin:0 0 12px;color:#444;line-height:1.6")}
+    <a href="${reviewUrl}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 28px;border-radius:8px;font-weight:600;font-size:15px;margin-top:12px">Leave a review</a>
 
     <p style="margin:28px 0 20px;color:#444;font-size:14px;line-height:1.6">If you ever need a hand with anything else, don't hesitate to get in touch.</p>
 ${await buildEmailSignature(siteUrl)}
-  </div>
-</body>
-</html>`;
+`);
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
 }
 
 /**
@@ -914,8 +1336,8 @@ ${await buildEmailSignature(siteUrl)}
  * Tone is tailored for clients who were seen days/weeks ago, mentioning
  * the site update and asking for a review. Failures are caught and logged.
  * @param booking - Past client details.
- * @returns True when the email was sent (or intentionally skipped because Resend
- *   is not configured); false when the send failed.
+ * @returns True when the email was queued (or intentionally skipped because Resend
+ *   is not configured); false when it couldn't be queued.
  */
 export async function sendPastClientReviewRequest(booking: ReviewRequestData): Promise<boolean> {
   const from = process.env.EMAIL_FROM;
@@ -929,27 +1351,18 @@ export async function sendPastClientReviewRequest(booking: ReviewRequestData): P
   }
 
   const reviewUrl = `${siteUrl}/review?token=${encodeURIComponent(booking.reviewToken)}`;
-  const firstName = booking.name.split(" ")[0];
-  const identity = await getIdentity();
-  const html = await buildPastClientReviewEmailHtml(firstName, reviewUrl);
-
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: booking.email,
-      subject: `Hi ${firstName}, it's ${identity.name.split(" ")[0]} from ${brandName(identity)}`,
-      html,
-      text: htmlToText(html),
-    });
-    return true;
-  } catch (error) {
-    console.error(
-      `[email] Failed to send past client review request for request ${booking.id}:`,
-      error,
-    );
-    return false;
-  }
+  const { subject, html } = await buildPastClientReviewEmail(booking.name.split(" ")[0], reviewUrl);
+
+  return enqueueEmail({
+    template: "past-client-review-request",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: booking.email,
+    subject,
+    html,
+    text: htmlToText(html),
+    payload: booking,
+  });
 }
 
 /**
@@ -968,6 +1381,20 @@ export interface InvoiceEmailData {
   isQuote?: boolean | null;
   /** Quote validity end; shown in place of the due date. */
   quoteValidUntil?: Date | null;
+  /** Invoice status; a paid or voided invoice gets no pay link. */
+  status?: string;
+  /** Secret behind the public pay and quote links; null/absent = bank transfer only. */
+  payToken?: string | null;
+  /** Deposit asked for when a quote is accepted; null = none. */
+  depositAmount?: number | null;
+  /** Set on a credit note: the number of the invoice it credits. Switches to credit-note wording. */
+  creditNoteFor?: string | null;
+  /** Sum of payments received so far; null reads as 0. A reminder chases only the balance. */
+  amountPaid?: number | null;
+  /** Invoice row id; links the outbox message back to the invoice. */
+  id?: string;
+  /** Owning contact; lists the message on the contact's timeline. */
+  contactId?: string | null;
 }
 
 interface BuildInvoiceEmailArgs {
@@ -975,6 +1402,18 @@ interface BuildInvoiceEmailArgs {
   reviewUrl: string | null;
   greetingName?: string;
   customBody?: string;
+  /** Unsaved template to render instead of the saved one (settings preview). */
+  template?: EmailTemplate;
+}
+
+/**
+ * The "Pay by card" paragraph placed above the bank-transfer block.
+ * @param payUrl - Public pay link, or null when online payment is off.
+ * @returns HTML paragraph, or "" when there's no link.
+ */
+function payByCardHtml(payUrl: string | null): string {
+  if (!payUrl) return "";
+  return `<p style="margin:0 0 16px;font-size:14px;color:#333"><strong>Pay by card:</strong> <a href="${escapeHtml(payUrl)}" style="color:#43bccd">pay this invoice online</a>, or by bank transfer below.</p>`;
 }
 
 /**
@@ -985,6 +1424,7 @@ interface BuildInvoiceEmailArgs {
  * @param args.reviewUrl - Stable per-contact review URL, or null to omit.
  * @param args.greetingName - Optional greeting target (e.g. person inside a company).
  * @param args.customBody - Optional intro replacement (multi-line via pre-wrap).
+ * @param args.template - Unsaved template to render instead of the saved one.
  * @returns Subject + escaped HTML body.
  */
 export async function buildInvoiceEmail({
@@ -992,15 +1432,18 @@ export async function buildInvoiceEmail({
   reviewUrl,
   greetingName,
   customBody,
+  template,
 }: BuildInvoiceEmailArgs): Promise<{ subject: string; html: string }> {
   const siteUrl = getSiteUrl();
   const identity = await getIdentity();
   const isQuote = invoice.isQuote === true;
-  const defaultBody = isQuote ? DEFAULT_QUOTE_EMAIL_BODY : DEFAULT_INVOICE_EMAIL_BODY;
-  const bodyText = (customBody ?? defaultBody).trim();
-  // pre-wrap preserves line breaks the operator typed; escape first so the
-  // body can never inject markup, then linkify so a typed URL is clickable.
-  const safeBody = linkifyEscaped(escapeHtml(bodyText || defaultBody));
+  const creditNoteFor = invoice.creditNoteFor ?? null;
+  const docLabel = creditNoteFor ? "Credit note" : isQuote ? "Quote" : "Invoice";
+  const copy = await loadTemplate(
+    creditNoteFor ? "creditNote" : isQuote ? "quote" : "invoice",
+    template,
+  );
+  const bodyText = (customBody ?? copy.body).trim() || copy.body;
   // Greeting: caller-supplied override wins; otherwise fall back to the first
   // word of clientName. The Send modal lets the operator type the right name
   // per send, so there's no auto-detection of company vs person here.
@@ -1011,44 +1454,72 @@ export async function buildInvoiceEmail({
   const safeNumber = escapeHtml(invoice.number);
   const dueDate = escapeHtml(formatDateShort(invoice.dueDate));
   const totalLabel = escapeHtml(formatNZD(invoice.total));
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: {
+      firstName: greetingTarget,
+      number: invoice.number,
+      total: formatNZD(invoice.total),
+      dueDate: formatDateShort(invoice.dueDate),
+      creditedInvoice: creditNoteFor ?? "",
+    },
+  };
+  // pre-wrap preserves line breaks the operator typed; the template renderer
+  // escapes first so the body can never inject markup.
+  const safeBody = renderTemplateHtml(bodyText, ctx);
   const driveLink = invoice.driveWebUrl
-    ? `<p style="margin:0 0 16px;font-size:14px;color:#555">An online copy is also here: <a href="${escapeHtml(invoice.driveWebUrl)}" style="color:#43bccd">view ${isQuote ? "quote" : "invoice"}</a>.</p>`
+    ? `<p style="margin:0 0 16px;font-size:14px;color:#555">An online copy is also here: <a href="${escapeHtml(invoice.driveWebUrl)}" style="color:#43bccd">view ${docLabel.toLowerCase()}</a>.</p>`
     : "";
-  // No review ask on a quote - the job hasn't happened yet.
+  // No review ask on a quote - the job hasn't happened yet - nor on a refund.
   const reviewLine =
-    reviewUrl && !isQuote
+    reviewUrl && !isQuote && !creditNoteFor
       ? `<p style="margin:24px 0 0;font-size:14px;color:#555">If you've got a moment, I'd love to hear how it went - you can <a href="${escapeHtml(reviewUrl)}" style="color:#43bccd">leave a quick review here</a>. It's anonymous if you'd prefer.</p>`
       : "";
 
-  // Quote emails swap the due line for validity and drop the bank block -
-  // payment details come with the invoice after acceptance.
-  const dateLine = isQuote
-    ? invoice.quoteValidUntil
-      ? `<p style="margin:0"><strong>Valid until:</strong> ${escapeHtml(formatDateShort(invoice.quoteValidUntil))}</p>`
-      : ""
-    : `<p style="margin:0"><strong>Due:</strong> ${dueDate} (${identity.paymentTermsDays} days from issue)</p>`;
-  const paymentBlock = isQuote
+  // Quote emails swap the due line for validity and the bank block for the
+  // accept-online link - payment details come with the invoice after
+  // acceptance. A credit note
+  // names the invoice it credits and likewise asks for nothing.
+  const dateLine = creditNoteFor
+    ? `<p style="margin:0"><strong>Credits invoice:</strong> ${escapeHtml(creditNoteFor)}</p>`
+    : isQuote
+      ? invoice.quoteValidUntil
+        ? `<p style="margin:0"><strong>Valid until:</strong> ${escapeHtml(formatDateShort(invoice.quoteValidUntil))}</p>`
+        : ""
+      : `<p style="margin:0"><strong>Due:</strong> ${dueDate} (${identity.paymentTermsDays} days from issue)</p>`;
+  const payUrl =
+    !isQuote && !creditNoteFor && invoice.status !== "PAID" && invoice.status !== "VOIDED"
+      ? invoicePayUrl(invoice.payToken)
+      : null;
+  const cardLine = payByCardHtml(payUrl);
+  const quoteUrl = isQuote && invoice.status !== "VOIDED" ? quotePageUrl(invoice.payToken) : null;
+  const depositNote = invoice.depositAmount
+    ? ` A ${escapeHtml(formatNZD(invoice.depositAmount))} deposit is asked for when you accept.`
+    : "";
+  const acceptLine = quoteUrl
+    ? `<p style="margin:0 0 16px;font-size:14px;color:#333"><strong>Ready to go ahead?</strong> <a href="${escapeHtml(quoteUrl)}" style="color:#43bccd">Accept or decline this quote online</a>.${depositNote}</p>`
+    : "";
+  const paymentBlock = creditNoteFor
     ? ""
-    : `<p style="margin:0 0 8px;font-size:14px;color:#333"><strong>Bank transfer:</strong></p>
+    : isQuote
+      ? acceptLine
+      : `${cardLine}<p style="margin:0 0 8px;font-size:14px;color:#333"><strong>Bank transfer:</strong></p>
     <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333">
       Payee: ${escapeHtml(identity.name)}<br />
       Account: <strong>${escapeHtml(identity.bankAccount)}</strong><br />
       Reference: <strong>${safeNumber}</strong>
     </p>`;
 
-  // Append " Tech" to match the signature and body brand name, so the subject
-  // and the rest of the same email show one consistent business name.
-  const subject = isQuote
-    ? `Your quote from ${brandName(identity)} (${invoice.number})`
-    : `Your invoice from ${brandName(identity)} (${invoice.number})`;
+  const subject = renderTemplateSubject(copy.subject, ctx);
   const html = renderDocumentEmail(`
     <h1 style="margin:0 0 16px;font-size:20px;font-weight:700;color:#0c0a3e">Hi ${safeGreeting},</h1>
 
     <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333;white-space:pre-wrap">${safeBody}</p>
 
     <div style="margin:0 0 16px;padding:12px 16px;background:#f3f4f6;border-radius:8px;font-size:14px;color:#333">
-      <p style="margin:0 0 4px"><strong>${isQuote ? "Quote" : "Invoice"}:</strong> ${safeNumber}</p>
-      <p style="margin:0 0 4px"><strong>Total:</strong> ${totalLabel}</p>
+      <p style="margin:0 0 4px"><strong>${docLabel}:</strong> ${safeNumber}</p>
+      <p style="margin:0 0 4px"><strong>${creditNoteFor ? "Amount credited" : "Total"}:</strong> ${totalLabel}</p>
       ${dateLine}
     </div>
 
@@ -1075,7 +1546,7 @@ interface SendInvoiceEmailArgs {
 }
 
 /**
- * Sends the rendered invoice email via Resend with the PDF attached.
+ * Sends the rendered invoice email with the PDF attached.
  * Failures are caught and logged - never throws.
  * @param args - Send inputs.
  * @param args.invoice - Invoice row fields needed for the body.
@@ -1083,7 +1554,7 @@ interface SendInvoiceEmailArgs {
  * @param args.reviewUrl - Stable per-contact review URL, or null to omit the review line.
  * @param args.greetingName - Optional greeting target (forwarded to {@link buildInvoiceEmail}).
  * @param args.customBody - Optional intro replacement.
- * @returns True if the email was accepted by Resend, false on failure or misconfig.
+ * @returns True once queued in the outbox, false on misconfig.
  */
 export async function sendInvoiceEmail({
   invoice,
@@ -1110,85 +1581,98 @@ export async function sendInvoiceEmail({
     greetingName,
     customBody,
   });
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: invoice.clientEmail,
-      subject,
-      html,
-      text: htmlToText(html),
-      attachments: [
-        {
-          filename: `${invoice.isQuote ? "Quote" : "Invoice"} ${invoice.number}.pdf`,
-          content: Buffer.from(pdfBytes),
-        },
-      ],
-    });
-    return true;
-  } catch (error) {
-    console.error(`[email] Failed to send invoice ${invoice.number}:`, error);
-    return false;
-  }
+  return enqueueEmail({
+    template: invoice.creditNoteFor ? "credit-note" : invoice.isQuote ? "quote" : "invoice",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: invoice.clientEmail,
+    subject,
+    html,
+    text: htmlToText(html),
+    attachments: [
+      {
+        filename: `${invoice.creditNoteFor ? "Credit note" : invoice.isQuote ? "Quote" : "Invoice"} ${invoice.number}.pdf`,
+        content: Buffer.from(pdfBytes),
+      },
+    ],
+    payload: { number: invoice.number, reviewUrl, greetingName, customBody },
+    invoiceId: invoice.id,
+    contactId: invoice.contactId,
+  });
 }
 
-interface SendInvoiceReminderEmailArgs {
+interface BuildInvoiceReminderEmailArgs {
   invoice: InvoiceEmailData;
-  pdfBytes: Uint8Array;
   /** 1 for the first nudge, 2 for the second-and-final. Sets the tone. */
   reminderNumber: number;
+  /** Unsaved template to render instead of the saved one (settings preview). */
+  template?: EmailTemplate;
 }
 
 /**
- * Sends an overdue-invoice nudge with the PDF attached. No review-link
- * machinery - chasing money and asking for a review don't mix. Never throws.
- * @param args - Send inputs.
+ * Renders the overdue-invoice nudge without sending. No review-link
+ * machinery - chasing money and asking for a review don't mix.
+ * @param args - Render inputs.
  * @param args.invoice - Invoice row fields needed for the body.
- * @param args.pdfBytes - Raw PDF bytes (OVERDUE watermark already applied by the caller's generate).
  * @param args.reminderNumber - 1 or 2; the second says it's the last one.
- * @returns True if Resend accepted the message, false on failure or misconfig.
+ * @param args.template - Unsaved template to render instead of the saved one.
+ * @returns Subject + HTML body.
  */
-export async function sendInvoiceReminderEmail({
+export async function buildInvoiceReminderEmail({
   invoice,
-  pdfBytes,
   reminderNumber,
-}: SendInvoiceReminderEmailArgs): Promise<boolean> {
-  const from = process.env.EMAIL_FROM;
-  if (!from || !process.env.RESEND_API_KEY) {
-    console.warn(
-      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping invoice reminder.`,
-    );
-    return false;
-  }
-  if (!invoice.clientEmail) {
-    console.warn(`[email] Invoice ${invoice.number} has no clientEmail - skipping reminder.`);
-    return false;
-  }
-
+  template,
+}: BuildInvoiceReminderEmailArgs): Promise<{ subject: string; html: string }> {
   const siteUrl = getSiteUrl();
   const identity = await getIdentity();
   const { comms } = await getSettings();
-  const greeting = escapeHtml((invoice.clientName.split(" ")[0] || invoice.clientName).trim());
+  const copy = await loadTemplate("invoiceReminder", template);
+  const firstName = (invoice.clientName.split(" ")[0] || invoice.clientName).trim();
+  const greeting = escapeHtml(firstName);
   const safeNumber = escapeHtml(invoice.number);
   const dueDate = escapeHtml(formatDateShort(invoice.dueDate));
-  const totalLabel = escapeHtml(formatNZD(invoice.total));
+  const amountPaid = invoice.amountPaid ?? 0;
+  // A reminder is only ever sent while the invoice is unpaid, so read it as SENT.
+  const balance = formatNZD(
+    invoiceBalanceDue({ status: "SENT", total: invoice.total, amountPaid }),
+  );
+  const balanceLabel = escapeHtml(balance);
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: {
+      firstName,
+      number: invoice.number,
+      balance,
+      dueDate: formatDateShort(invoice.dueDate),
+    },
+  };
+  const paidSoFar =
+    amountPaid > 0
+      ? `<p style="margin:0 0 4px"><strong>Invoice total:</strong> ${escapeHtml(formatNZD(invoice.total))}</p>
+      <p style="margin:0 0 4px"><strong>Paid so far:</strong> ${escapeHtml(formatNZD(amountPaid))} - thank you</p>`
+      : "";
   const closing =
     reminderNumber >= comms.invoiceReminderMaxCount
       ? "This is the last automatic reminder I'll send. If something's holding payment up, just reply and we'll sort it out."
       : "If you've already paid in the last day or two, please ignore this - bank transfers can cross over.";
 
-  const subject = `Friendly reminder - invoice ${invoice.number} (${totalLabel})`;
+  const payUrl = invoicePayUrl(invoice.payToken);
+  const cardLine = payByCardHtml(payUrl);
+
   const html = renderDocumentEmail(`
     <h1 style="margin:0 0 16px;font-size:20px;font-weight:700;color:#0c0a3e">Hi ${greeting},</h1>
 
-    <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333">Just a friendly nudge - invoice ${safeNumber} was due on ${dueDate} and hasn't come through yet. A copy is attached.</p>
+    <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333;white-space:pre-wrap">${renderTemplateHtml(copy.body.trim(), ctx)}</p>
 
     <div style="margin:0 0 16px;padding:12px 16px;background:#f3f4f6;border-radius:8px;font-size:14px;color:#333">
       <p style="margin:0 0 4px"><strong>Invoice:</strong> ${safeNumber}</p>
-      <p style="margin:0 0 4px"><strong>Amount due:</strong> ${totalLabel}</p>
+      ${paidSoFar}
+      <p style="margin:0 0 4px"><strong>${amountPaid > 0 ? "Balance due" : "Amount due"}:</strong> ${balanceLabel}</p>
       <p style="margin:0"><strong>Was due:</strong> ${dueDate}</p>
     </div>
 
+    ${cardLine}
     <p style="margin:0 0 8px;font-size:14px;color:#333"><strong>Bank transfer:</strong></p>
     <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333">
       Payee: ${escapeHtml(identity.name)}<br />
@@ -1201,32 +1685,68 @@ export async function sendInvoiceReminderEmail({
     ${await buildEmailSignature(siteUrl)}
 `);
 
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: invoice.clientEmail,
-      subject,
-      html,
-      text: htmlToText(html),
-      attachments: [
-        {
-          filename: `Invoice ${invoice.number}.pdf`,
-          content: Buffer.from(pdfBytes),
-        },
-      ],
-    });
-    return true;
-  } catch (error) {
-    console.error(`[email] Failed to send reminder for invoice ${invoice.number}:`, error);
+  return { subject: renderTemplateSubject(copy.subject, ctx), html };
+}
+
+interface SendInvoiceReminderEmailArgs {
+  invoice: InvoiceEmailData;
+  pdfBytes: Uint8Array;
+  /** 1 for the first nudge, 2 for the second-and-final. Sets the tone. */
+  reminderNumber: number;
+}
+
+/**
+ * Sends an overdue-invoice nudge with the PDF attached. Never throws.
+ * @param args - Send inputs.
+ * @param args.invoice - Invoice row fields needed for the body.
+ * @param args.pdfBytes - Raw PDF bytes (OVERDUE watermark already applied by the caller's generate).
+ * @param args.reminderNumber - 1 or 2; the second says it's the last one.
+ * @returns True once queued in the outbox, false on misconfig.
+ */
+export async function sendInvoiceReminderEmail({
+  invoice,
+  pdfBytes,
+  reminderNumber,
+}: SendInvoiceReminderEmailArgs): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping invoice reminder.`,
+    );
+    return false;
+  }
+  if (!invoice.clientEmail) {
+    console.warn(`[email] Invoice ${invoice.number} has no clientEmail - skipping reminder.`);
     return false;
   }
+
+  const { subject, html } = await buildInvoiceReminderEmail({ invoice, reminderNumber });
+  return enqueueEmail({
+    template: "invoice-reminder",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: invoice.clientEmail,
+    subject,
+    html,
+    text: htmlToText(html),
+    attachments: [
+      {
+        filename: `Invoice ${invoice.number}.pdf`,
+        content: Buffer.from(pdfBytes),
+      },
+    ],
+    payload: { number: invoice.number, reminderNumber },
+    invoiceId: invoice.id,
+    contactId: invoice.contactId,
+  });
 }
 
 interface BuildVoidEmailArgs {
   invoice: InvoiceEmailData;
   greetingName?: string;
   customBody?: string;
+  /** Unsaved template to render instead of the saved one (settings preview). */
+  template?: EmailTemplate;
 }
 
 /**
@@ -1236,20 +1756,23 @@ interface BuildVoidEmailArgs {
  * @param args - Render inputs.
  * @param args.invoice - Invoice row fields needed for the body.
  * @param args.greetingName - Optional operator-typed greeting target.
- * @param args.customBody - Optional override; falls back to {@link DEFAULT_VOID_EMAIL_BODY}.
+ * @param args.customBody - Optional override; falls back to the invoiceVoid template.
+ * @param args.template - Unsaved template to render instead of the saved one.
  * @returns Subject + escaped HTML body.
  */
 export async function buildVoidEmail({
   invoice,
   greetingName,
   customBody,
+  template,
 }: BuildVoidEmailArgs): Promise<{
   subject: string;
   html: string;
 }> {
   const siteUrl = getSiteUrl();
-  const bodyText = (customBody ?? DEFAULT_VOID_EMAIL_BODY).trim();
-  const safeBody = linkifyEscaped(escapeHtml(bodyText || DEFAULT_VOID_EMAIL_BODY));
+  const identity = await getIdentity();
+  const copy = await loadTemplate("invoiceVoid", template);
+  const bodyText = (customBody ?? copy.body).trim() || copy.body;
   const trimmedOverride = greetingName?.trim();
   const greetingTarget =
     trimmedOverride || (invoice.clientName.split(" ")[0] || invoice.clientName).trim();
@@ -1257,8 +1780,14 @@ export async function buildVoidEmail({
   const safeNumber = escapeHtml(invoice.number);
   const issueDate = escapeHtml(formatDateShort(invoice.issueDate));
   const totalLabel = escapeHtml(formatNZD(invoice.total));
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: { firstName: greetingTarget, number: invoice.number, total: formatNZD(invoice.total) },
+  };
+  const safeBody = renderTemplateHtml(bodyText, ctx);
 
-  const subject = `Invoice ${invoice.number} - voided`;
+  const subject = renderTemplateSubject(copy.subject, ctx);
   const html = renderDocumentEmail(`
     <h1 style="margin:0 0 16px;font-size:20px;font-weight:700;color:#0c0a3e">Hi ${safeGreeting},</h1>
 
@@ -1294,7 +1823,7 @@ interface SendVoidNotificationArgs {
  * @param args.pdfBytes - PDF bytes (already VOID-stamped).
  * @param args.greetingName - Optional greeting target.
  * @param args.customBody - Optional intro replacement.
- * @returns True if Resend accepted the email, false otherwise.
+ * @returns True once queued in the outbox, false otherwise.
  */
 export async function sendVoidNotification({
   invoice,
@@ -1317,40 +1846,165 @@ export async function sendVoidNotification({
   }
 
   const { subject, html } = await buildVoidEmail({ invoice, greetingName, customBody });
-  try {
-    // Resend SDK v3+ returns { data, error } instead of throwing on API-level
-    // failures (invalid sender, rate limit, etc.). Check error explicitly so a
-    // rejected call isn't silently reported as "Client notified".
-    const result = await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: invoice.clientEmail,
-      subject,
-      html,
-      text: htmlToText(html),
-      attachments: [
-        {
-          filename: `Invoice ${invoice.number} VOIDED.pdf`,
-          content: Buffer.from(pdfBytes),
-        },
-      ],
-    });
-    if (result.error) {
-      console.error(
-        `[email] Resend rejected void notification for ${invoice.number}:`,
-        result.error,
-      );
-      return false;
-    }
-    console.log(
-      `[email] Void notification sent for ${invoice.number}:`,
-      result.data?.id ?? "(no id returned)",
+  return enqueueEmail({
+    template: "invoice-void",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: invoice.clientEmail,
+    subject,
+    html,
+    text: htmlToText(html),
+    attachments: [
+      {
+        filename: `Invoice ${invoice.number} VOIDED.pdf`,
+        content: Buffer.from(pdfBytes),
+      },
+    ],
+    payload: { number: invoice.number, greetingName, customBody },
+    invoiceId: invoice.id,
+    contactId: invoice.contactId,
+  });
+}
+
+interface BuildStatementEmailArgs {
+  statement: Statement;
+  greetingName?: string;
+  customBody?: string;
+  /** Unsaved template to render instead of the saved one (settings preview). */
+  template?: EmailTemplate;
+}
+
+/**
+ * Renders the statement-of-account email subject + body without sending.
+ * Shared by the preview modal, the send route and the monthly cron so the
+ * preview matches what's sent. Lists the invoices still owing; the bank block
+ * only appears when something is.
+ * @param args - Render inputs.
+ * @param args.statement - The built statement.
+ * @param args.greetingName - Optional greeting target (e.g. accounts person at a company).
+ * @param args.customBody - Optional intro replacement (multi-line via pre-wrap).
+ * @param args.template - Unsaved template to render instead of the saved one.
+ * @returns Subject + escaped HTML body.
+ */
+export async function buildStatementEmail({
+  statement,
+  greetingName,
+  customBody,
+  template,
+}: BuildStatementEmailArgs): Promise<{ subject: string; html: string }> {
+  const siteUrl = getSiteUrl();
+  const identity = await getIdentity();
+  const copy = await loadTemplate("statement", template);
+  const bodyText = (customBody ?? copy.body).trim() || copy.body;
+  const { contact } = statement;
+  const greetingTarget =
+    greetingName?.trim() || (contact.name.split(" ")[0] || contact.name).trim();
+  const owing = statement.openInvoices.reduce((s, i) => s + i.balance, 0);
+  const ctx: TemplateContext = {
+    identity,
+    siteUrl,
+    vars: { firstName: greetingTarget, balance: formatNZD(owing) },
+  };
+  const safeBody = renderTemplateHtml(bodyText, ctx);
+  const period = `${formatDateShort(`${statement.fromKey}T12:00:00Z`)} - ${formatDateShort(`${statement.toKey}T12:00:00Z`)}`;
+
+  const openRows = statement.openInvoices
+    .map(
+      (i) =>
+        `<p style="margin:0 0 4px">${escapeHtml(i.number)} - ${escapeHtml(formatNZD(i.balance))} (due ${escapeHtml(formatDateShort(`${i.dueDateKey}T12:00:00Z`))}${i.overdue ? ", <strong>overdue</strong>" : ""})</p>`,
+    )
+    .join("");
+  const overdueLine =
+    statement.overdueTotal > 0
+      ? `<p style="margin:4px 0 0"><strong>Overdue now:</strong> ${escapeHtml(formatNZD(statement.overdueTotal))}</p>`
+      : "";
+  const paymentBlock =
+    owing > 0
+      ? `<p style="margin:0 0 8px;font-size:14px;color:#333"><strong>Bank transfer:</strong></p>
+    <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333">
+      Payee: ${escapeHtml(identity.name)}<br />
+      Account: <strong>${escapeHtml(identity.bankAccount)}</strong><br />
+      Reference: the invoice number
+    </p>`
+      : "";
+
+  const subject = renderTemplateSubject(copy.subject, ctx);
+  const html = renderDocumentEmail(`
+    <h1 style="margin:0 0 16px;font-size:20px;font-weight:700;color:#0c0a3e">Hi ${escapeHtml(greetingTarget)},</h1>
+
+    <p style="margin:0 0 16px;font-size:14px;line-height:1.6;color:#333;white-space:pre-wrap">${safeBody}</p>
+
+    <div style="margin:0 0 16px;padding:12px 16px;background:#f3f4f6;border-radius:8px;font-size:14px;color:#333">
+      <p style="margin:0 0 4px"><strong>Period:</strong> ${escapeHtml(period)}</p>
+      <p style="margin:0 0 8px"><strong>Balance owing:</strong> ${escapeHtml(formatNZD(owing))}</p>
+      ${openRows || `<p style="margin:0">Nothing owing - thank you.</p>`}
+      ${overdueLine}
+    </div>
+
+    ${paymentBlock}
+
+    <p style="margin:0;font-size:14px;color:#333">If anything doesn't match your records, just reply and I'll take a look.</p>
+
+    ${await buildEmailSignature(siteUrl)}
+`);
+
+  return { subject, html };
+}
+
+interface SendStatementEmailArgs {
+  statement: Statement;
+  pdfBytes: Uint8Array;
+  greetingName?: string;
+  customBody?: string;
+}
+
+/**
+ * Sends the statement-of-account email with the statement PDF attached.
+ * Never throws.
+ * @param args - Send inputs.
+ * @param args.statement - The built statement.
+ * @param args.pdfBytes - Raw PDF bytes from `generateStatementPdf`.
+ * @param args.greetingName - Optional greeting target.
+ * @param args.customBody - Optional intro replacement.
+ * @returns True once queued in the outbox, false on failure or misconfig.
+ */
+export async function sendStatementEmail({
+  statement,
+  pdfBytes,
+  greetingName,
+  customBody,
+}: SendStatementEmailArgs): Promise<boolean> {
+  const from = process.env.EMAIL_FROM;
+  if (!from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("EMAIL_FROM", "RESEND_API_KEY")}) - skipping statement email.`,
     );
-    return true;
-  } catch (error) {
-    console.error(`[email] Failed to send void notification for ${invoice.number}:`, error);
     return false;
   }
+  const to = statement.contact.email;
+  if (!to) {
+    console.warn(`[email] Contact ${statement.contact.id} has no email - skipping statement.`);
+    return false;
+  }
+
+  const { subject, html } = await buildStatementEmail({ statement, greetingName, customBody });
+  return enqueueEmail({
+    template: "statement",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to,
+    subject,
+    html,
+    text: htmlToText(html),
+    attachments: [
+      {
+        filename: `Statement ${statement.toKey}.pdf`,
+        content: Buffer.from(pdfBytes),
+      },
+    ],
+    payload: { fromKey: statement.fromKey, toKey: statement.toKey, greetingName, customBody },
+    contactId: statement.contact.id,
+  });
 }
 
 /** Business enquiry data used for the operator notification + enquirer ack. */
@@ -1375,7 +2029,7 @@ export interface BusinessEnquiryData {
  * Sends the operator a notification email for a new business enquiry.
  * Failures are caught and logged - never throws.
  * @param enquiry - The enquiry details.
- * @returns Promise that resolves when the email is sent (or silently fails).
+ * @returns Promise that resolves once the email is queued (or silently fails).
  */
 export async function sendBusinessEnquiryNotification(enquiry: BusinessEnquiryData): Promise<void> {
   const adminEmail = process.env.ADMIN_EMAIL;
@@ -1419,28 +2073,26 @@ export async function sendBusinessEnquiryNotification(enquiry: BusinessEnquiryDa
     </div>
 `);
 
-  try {
-    await getResend().emails.send({
-      from,
-      // Reply goes straight back to the enquirer, not the owner inbox.
-      replyTo: enquiry.email,
-      to: adminEmail,
-      subject: enquiry.company
-        ? `Business enquiry - ${enquiry.company} (${enquiry.name})`
-        : `Business enquiry - ${enquiry.name} (personal)`,
-      html,
-      text: htmlToText(html),
-    });
-  } catch (error) {
-    console.error("[email] Failed to send business enquiry notification:", error);
-  }
+  await enqueueEmail({
+    template: "owner-business-enquiry",
+    from,
+    // Reply goes straight back to the enquirer, not the owner inbox.
+    replyTo: enquiry.email,
+    to: adminEmail,
+    subject: enquiry.company
+      ? `Business enquiry - ${enquiry.company} (${enquiry.name})`
+      : `Business enquiry - ${enquiry.name} (personal)`,
+    html,
+    text: htmlToText(html),
+    payload: enquiry,
+  });
 }
 
 /**
  * Sends the enquirer a short acknowledgement of their business enquiry.
  * Failures are caught and logged - never throws.
  * @param enquiry - The enquiry details.
- * @returns Promise that resolves when the email is sent (or silently fails).
+ * @returns Promise that resolves once the email is queued (or silently fails).
  */
 export async function sendBusinessEnquiryAck(enquiry: BusinessEnquiryData): Promise<void> {
   const from = process.env.EMAIL_FROM;
@@ -1473,16 +2125,104 @@ export async function sendBusinessEnquiryAck(enquiry: BusinessEnquiryData): Prom
     ${signature}
 `);
 
-  try {
-    await getResend().emails.send({
-      from,
-      replyTo: process.env.ADMIN_EMAIL,
-      to: enquiry.email,
-      subject: `Thanks for your enquiry - ${brandName(identity)}`,
-      html,
-      text: htmlToText(html),
-    });
-  } catch (error) {
-    console.error("[email] Failed to send business enquiry ack:", error);
+  await enqueueEmail({
+    template: "business-enquiry-ack",
+    from,
+    replyTo: process.env.ADMIN_EMAIL,
+    to: enquiry.email,
+    subject: `Thanks for your enquiry - ${brandName(identity)}`,
+    html,
+    text: htmlToText(html),
+    payload: enquiry,
+  });
+}
+
+/** A customer's online answer to a quote, for the owner notification. */
+export interface QuoteResponseData {
+  /** Invoice row id; links the admin button and the outbox row. */
+  invoiceId: string;
+  /** The quote's Q- number. */
+  quoteNumber: string;
+  /** Invoice number it became, when acceptance converted it. */
+  invoiceNumber: string | null;
+  clientName: string;
+  clientEmail: string;
+  total: number;
+  outcome: "accepted" | "declined" | "refresh";
+  /** Name typed as the signature (accepted only). */
+  signedName?: string | null;
+  /** Decline reason, if one was given. */
+  reason?: string | null;
+  /** Deposit asked for on acceptance; null = none. */
+  depositAmount?: number | null;
+}
+
+/**
+ * Tells the owner a customer accepted, declined or asked to renew a quote
+ * online. Failures are caught and logged - never throws.
+ * @param response - What the customer did, and to which quote.
+ * @returns Promise that resolves once the email is queued (or silently fails).
+ */
+export async function sendOwnerQuoteResponseNotification(
+  response: QuoteResponseData,
+): Promise<void> {
+  const adminEmail = process.env.ADMIN_EMAIL;
+  const from = process.env.EMAIL_FROM;
+  const siteUrl = getSiteUrl();
+
+  if (!adminEmail || !from || !process.env.RESEND_API_KEY) {
+    console.warn(
+      `[email] Not configured (${missingEmailEnv("ADMIN_EMAIL", "EMAIL_FROM", "RESEND_API_KEY")}) - skipping quote response notification.`,
+    );
+    return;
   }
+
+  const title =
+    response.outcome === "accepted"
+      ? `Quote ${response.quoteNumber} accepted`
+      : response.outcome === "declined"
+        ? `Quote ${response.quoteNumber} declined`
+        : `Fresh quote wanted for ${response.quoteNumber}`;
+  const detail =
+    response.outcome === "accepted"
+      ? `<p style="margin:0 0 8px;font-size:14px;color:#444">Signed by <strong>${escapeHtml(response.signedName ?? "")}</strong>. ${
+          response.invoiceNumber
+            ? `Converted to draft invoice <strong>${escapeHtml(response.invoiceNumber)}</strong> - review and send it when ready.`
+            : "It couldn't be converted automatically - convert it from the quote page."
+        }</p>${
+          response.depositAmount
+            ? `<p style="margin:0;font-size:14px;color:#444">They've been asked for a ${escapeHtml(formatNZD(response.depositAmount))} deposit.</p>`
+            : ""
+        }`
+      : response.outcome === "declined"
+        ? `<p style="margin:0;font-size:14px;color:#444;line-height:1.6">${
+            response.reason
+              ? escapeHtml(response.reason).replace(/\n/g, "<br>")
+              : "No reason given."
+          }</p>`
+        : `<p style="margin:0;font-size:14px;color:#444">The quote expired before they answered and they'd like an up-to-date one.</p>`;
+
+  const html = renderNotificationEmail(`
+    <h2 style="margin:0 0 16px;color:#0c0a3e;font-size:20px">${escapeHtml(title)}</h2>
+
+    <div style="background:#f6f7f8;border-radius:8px;padding:16px;margin-bottom:20px">
+      <p style="margin:0 0 4px;font-size:15px;color:#0c0a3e;font-weight:600">${escapeHtml(response.clientName)}</p>
+      <p style="margin:0 0 12px;font-size:14px;color:#444">${escapeHtml(response.clientEmail)} · ${escapeHtml(formatNZD(response.total))}</p>
+      ${detail}
+    </div>
+
+    <a href="${siteUrl}/admin/business/invoices/${response.invoiceId}" style="display:inline-block;background:#43bccd;color:#fff;text-decoration:none;padding:12px 24px;border-radius:8px;font-weight:600;font-size:14px">Open in admin</a>
+`);
+
+  await enqueueEmail({
+    template: "owner-quote-response",
+    from,
+    replyTo: response.clientEmail || adminEmail,
+    to: adminEmail,
+    subject: `${title} - ${response.clientName}`,
+    html,
+    text: htmlToText(html),
+    payload: response,
+    invoiceId: response.invoiceId,
+  });
 }
@@ -0,0 +1,89 @@
+// src/features/reviews/lib/review-schema.server.ts
+/**
+ * @description schema.org rating markup for the LocalBusiness JSON-LD. Only
+ * approved, verified reviews with a star rating count - a text-only review or
+ * an unverified one never feeds the aggregate search engines show.
+ */
+
+import { formatReviewerName } from "@/features/reviews/lib/formatting";
+import { prisma } from "@/shared/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { unstable_cache } from "next/cache";
+import "server-only";
+
+/** How many individual reviews ride along with the aggregate. */
+const SCHEMA_REVIEW_COUNT = 5;
+
+/** The `aggregateRating` + `review` properties to spread into the business JSON-LD. */
+export interface ReviewSchema {
+  aggregateRating: {
+    "@type": "AggregateRating";
+    ratingValue: number;
+    reviewCount: number;
+    bestRating: 5;
+    worstRating: 1;
+  };
+  review: {
+    "@type": "Review";
+    author: { "@type": "Person"; name: string };
+    reviewRating: { "@type": "Rating"; ratingValue: number; bestRating: 5; worstRating: 1 };
+    reviewBody: string;
+    datePublished: string;
+  }[];
+}
+
+/**
+ * Rating markup built from every approved, verified, star-rated review.
+ * Tagged "reviews" so revalidateReviewPaths() refreshes it with the lists.
+ * @returns The markup, or null when no review qualifies yet.
+ */
+export const getReviewSchema = unstable_cache(
+  async (): Promise<ReviewSchema | null> => {
+    const where: Prisma.ReviewWhereInput = {
+      status: "approved",
+      verified: true,
+      rating: { not: null },
+    };
+    const [stats, recent] = await Promise.all([
+      prisma.review.aggregate({ where, _avg: { rating: true }, _count: { _all: true } }),
+      prisma.review.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: SCHEMA_REVIEW_COUNT,
+        select: {
+          text: true,
+          firstName: true,
+          lastName: true,
+          isAnonymous: true,
+          rating: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+    const count = stats._count._all;
+    if (count === 0 || stats._avg.rating === null) return null;
+    return {
+      aggregateRating: {
+        "@type": "AggregateRating",
+        ratingValue: Math.round(stats._avg.rating * 10) / 10,
+        reviewCount: count,
+        bestRating: 5,
+        worstRating: 1,
+      },
+      review: recent.map((r) => ({
+        "@type": "Review",
+        author: { "@type": "Person", name: formatReviewerName(r) },
+        reviewRating: {
+          "@type": "Rating",
+          ratingValue: r.rating ?? 5,
+          bestRating: 5,
+          worstRating: 1,
+        },
+        reviewBody: r.text,
+        datePublished: r.createdAt.toISOString().slice(0, 10),
+      })),
+    };
+  },
+  ["review-schema"],
+  { tags: ["reviews"], revalidate: 86400 },
+);
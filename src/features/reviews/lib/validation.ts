@@ -1,9 +1,23 @@
 // src/features/reviews/lib/validation.ts
 /**
- * @description Shared review-text length validation (10-1000 characters) used
- * by both the public submission form and the server route.
+ * @description Shared review validation used by both the public submission
+ * form and the server routes: text length (10-1000 characters), the required
+ * 1-5 star rating, and the optional per-aspect ratings.
  */
 
+/** The optional per-aspect ratings a review can carry, in display order. */
+export const REVIEW_ASPECTS = [
+  { key: "punctuality", label: "Punctuality" },
+  { key: "communication", label: "Communication" },
+  { key: "value", label: "Value for money" },
+] as const;
+
+/** One of the per-aspect rating keys. */
+export type ReviewAspect = (typeof REVIEW_ASPECTS)[number]["key"];
+
+/** Per-aspect ratings as stored: each 1-5, or null when the reviewer skipped it. */
+export type ReviewAspectRatings = Record<ReviewAspect, number | null>;
+
 /**
  * Validates review text length constraints.
  * @param text - The trimmed review text to validate.
@@ -15,3 +29,44 @@ export function reviewTextError(text: string | undefined): string | null {
   if (t.length > 1000) return "Review must be 1000 characters or less.";
   return null;
 }
+
+/**
+ * Validates the overall star rating: a whole number of stars from 1 to 5.
+ * @param rating - The submitted rating.
+ * @returns An error message string if invalid, or null if valid.
+ */
+export function reviewRatingError(rating: unknown): string | null {
+  if (rating === undefined || rating === null || rating === 0)
+    return "Please choose a star rating.";
+  if (typeof rating !== "number" || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return "Rating must be from 1 to 5 stars.";
+  }
+  return null;
+}
+
+/**
+ * Validates and normalises the optional per-aspect ratings. Missing or null
+ * aspects are fine; any given must be 1-5 stars.
+ * @param value - The submitted `aspectRatings` object (or undefined).
+ * @returns The stored shape (null when nothing was rated), or an error message.
+ */
+export function parseAspectRatings(value: unknown): ReviewAspectRatings | null | string {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) return "Invalid aspect ratings.";
+  const raw = value as Record<string, unknown>;
+  const out = {} as ReviewAspectRatings;
+  let any = false;
+  for (const { key, label } of REVIEW_ASPECTS) {
+    const v = raw[key];
+    if (v === undefined || v === null || v === 0) {
+      out[key] = null;
+      continue;
+    }
+    if (typeof v !== "number" || !Number.isInteger(v) || v < 1 || v > 5) {
+      return `${label} must be from 1 to 5 stars.`;
+    }
+    out[key] = v;
+    any = true;
+  }
+  return any ? out : null;
+}
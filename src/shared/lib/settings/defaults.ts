@@ -44,6 +44,7 @@ export const DEFAULT_SETTINGS: Settings = {
     durations: { short: 60, long: 120 },
     maxJobsPerDay: null,
     maxBillableHoursPerDay: null,
+    waitlistHoldHours: 4,
     // Weekend lie-in: from Friday 18:00, Sat/Sun slots before noon are blocked.
     morningGuards: [
       {
@@ -55,6 +56,8 @@ export const DEFAULT_SETTINGS: Settings = {
         earliestHour: 12,
       },
     ],
+    externalCalendars: [],
+    technicians: [],
   },
 
   // Source: pricing-policy.ts + MIN_TRAVEL_CHARGE and the task-timing fallbacks
@@ -81,6 +84,8 @@ export const DEFAULT_SETTINGS: Settings = {
       autoSendCancellationInvoice: true,
     },
     reschedule: { cutoffHours: 0, maxReschedules: null },
+    // Drafts by default so the first automated run gets a look before it emails anyone.
+    retainer: { autoSendInvoice: false, carryUnusedHours: true },
   },
 
   // Source: the STANDALONE benchmarks hardcoded in the estimate-duration prompt.
@@ -113,6 +118,16 @@ export const DEFAULT_SETTINGS: Settings = {
     stackHandsOnFactor: 0.5,
     stackBackgroundFactor: 0.2,
     lowEndFloorFactor: 0.75,
+    // Source: the models hardcoded in the parse-job and estimate-duration routes.
+    // gpt-4.1 (not -mini) for the parser is deliberate: the 2026-07-24 eval showed
+    // mini obeying an injected negative-duration correction
+    // (parse-injection-negative) that 4.1 correctly ignores.
+    ai: {
+      provider: "openai",
+      parseJobModel: "gpt-4.1",
+      estimateModel: "gpt-4.1-mini",
+      localBaseUrl: "",
+    },
   },
 
   // Source: business-identity.ts + layout.tsx JSON-LD + HOME_ADDRESS env.
@@ -191,6 +206,9 @@ export const DEFAULT_SETTINGS: Settings = {
     incomeTax: 0.2,
     acc: 0.0146,
     kiwiSaver: 0.12,
+    // IRD's default for a small sole trader: two-monthly, payments basis.
+    gstFilingFrequency: "two-monthly",
+    gstBasis: "payments",
   },
 
   // Source: cron route literals + contact-review-token.ts.
@@ -205,6 +223,13 @@ export const DEFAULT_SETTINGS: Settings = {
     invoiceReminderFirstDays: 3,
     invoiceReminderSecondDays: 10,
     invoiceReminderMaxCount: 2,
+    // Opt-in: statements are a business-client courtesy, not a default nudge.
+    statementsEnabled: false,
+    statementDayOfMonth: 1,
+    // Off until an SMS provider is configured; each text costs money.
+    smsConfirmationEnabled: false,
+    smsReminderEnabled: false,
+    smsReviewRequestEnabled: false,
   },
 
   // Source: calendar-cache.ts travel-block heuristics + edit-window.ts + travel-time route.
@@ -224,4 +249,75 @@ export const DEFAULT_SETTINGS: Settings = {
     autoApproveVerified: false,
     invoiceReviewCooldownDays: 30,
   },
+
+  // Source: the copy once inlined in reviews/lib/email.ts and invoice-email-defaults.ts.
+  // Wording is unchanged except the overdue reminder, which now names the
+  // balance through {balance} instead of branching on part-payment in code.
+  templates: {
+    bookingConfirmation: {
+      subject: "Booking confirmed - {when}",
+      body: "Thanks for choosing {company} - I'm looking forward to helping you out.",
+    },
+    bookingRescheduled: {
+      subject: "🔄 Appointment updated - {when}",
+      body: "Your appointment has been rescheduled. The Google Calendar invite has been updated to match.",
+    },
+    bookingReminder: {
+      subject: "Reminder: appointment tomorrow - {when}",
+      body: "Your appointment with {company} is coming up tomorrow.",
+    },
+    rescheduleRequest: {
+      subject: "Can we move your appointment on {date}?",
+      body: "Sorry - something has come up and I can no longer make **{when}**. Your booking is still in place until you pick a new time, and there's no charge for moving it.",
+    },
+    rescheduleProposal: {
+      subject: "Could I come at a different time on {date}?",
+      body: "I'm planning my route for {date}, and if I could see you at **{newTime}** instead of **{when}** it would save a lot of driving between jobs. If that suits, let me know with the button below - if not, no problem at all and your booking stays exactly as it is.",
+    },
+    waitlistOffer: {
+      subject: "A spot opened up on {date}",
+      body: "You're on my waitlist, and a spot has just come free: **{when}**. I'm holding it for you until **{holdUntil}** - after that it goes to the next person in line.",
+    },
+    reviewRequest: {
+      subject: "Thanks for having me, {firstName} - how did everything go?",
+      body:
+        "It was great meeting you - I hope I managed to get everything sorted and left you feeling a bit less frustrated with technology!\n\n" +
+        "If you have a spare moment, I'd love to hear how it went. A quick review makes a real difference for a small local business like mine, and helps other people find reliable tech support when they need it.\n\n" +
+        "It only takes a minute, and honest feedback is always welcome.",
+    },
+    pastClientReviewRequest: {
+      subject: "Hi {firstName}, it's {ownerFirstName} from {company}",
+      body:
+        "It's {ownerFirstName} from {company} - thanks again for letting me help you out!\n\n" +
+        "If you have a spare moment, a quick review would mean a lot - it really helps other people find reliable local tech support.\n\n" +
+        "No pressure at all, but if you're happy to, I'd really appreciate it.",
+    },
+    invoice: {
+      subject: "Your invoice from {company} ({number})",
+      body: "Thanks so much for the work - I really appreciate you choosing me for your tech support. Your invoice is attached below.",
+    },
+    quote: {
+      subject: "Your quote from {company} ({number})",
+      body: "Thanks for getting in touch - your quote is attached. If you're happy with it, just reply to this email or give me a ring and I'll get it booked in.",
+    },
+    creditNote: {
+      subject: "Your credit note from {company} ({number})",
+      body: "As promised, here's your credit note - the refund is on its way back to you. The details are below and the credit note is attached.",
+    },
+    invoiceReminder: {
+      subject: "Friendly reminder - invoice {number} ({balance})",
+      body: "Just a friendly nudge - invoice {number} was due on {dueDate} and {balance} is still outstanding. A copy is attached.",
+    },
+    invoiceVoid: {
+      subject: "Invoice {number} - voided",
+      body:
+        "I'm writing to let you know that the invoice I sent you has been voided and should be disregarded. " +
+        "Please ignore the previous PDF and email. If you've already paid, please reply so I can sort out a refund. " +
+        "A corrected invoice will follow shortly. Sorry for the confusion - thanks for your patience.",
+    },
+    statement: {
+      subject: "Your statement of account from {company} ({balance} owing)",
+      body: "Here's your statement of account, listing your recent invoices and payments. A summary is below and the full statement is attached.",
+    },
+  },
 };
@@ -0,0 +1,148 @@
+// src/shared/lib/settings/email-templates.ts
+/**
+ * @description Catalogue of the editable customer email templates: which ones
+ * exist, what record each is previewed against, and which `{placeholder}`s each
+ * may use. Shared by the validator, the templates tab and the email layer, so a
+ * placeholder the editor offers is always one the renderer fills. Client-safe.
+ */
+
+/** Every editable template, in the order the templates tab lists them. */
+export const EMAIL_TEMPLATE_KEYS = [
+  "bookingConfirmation",
+  "bookingRescheduled",
+  "bookingReminder",
+  "rescheduleRequest",
+  "rescheduleProposal",
+  "waitlistOffer",
+  "reviewRequest",
+  "pastClientReviewRequest",
+  "invoice",
+  "quote",
+  "creditNote",
+  "invoiceReminder",
+  "invoiceVoid",
+  "statement",
+] as const;
+
+/** One editable template's key. */
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
+
+/**
+ * Placeholders every template (and the signature) can use, filled from the
+ * business identity. `{company}` is the customer-facing brand name.
+ */
+export const IDENTITY_PLACEHOLDERS = ["name", "company", "phone", "email", "website", "location"];
+
+const BOOKING_VARIABLES: Record<string, string> = {
+  firstName: "Customer's first name",
+  when: "Appointment day, date and time",
+  date: "Appointment date",
+};
+
+/**
+ * Per-template placeholders on top of {@link IDENTITY_PLACEHOLDERS}, each with
+ * the short description the editor shows beside it.
+ */
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateKey, Record<string, string>> = {
+  bookingConfirmation: BOOKING_VARIABLES,
+  bookingRescheduled: BOOKING_VARIABLES,
+  bookingReminder: BOOKING_VARIABLES,
+  rescheduleRequest: BOOKING_VARIABLES,
+  rescheduleProposal: { ...BOOKING_VARIABLES, newTime: "Proposed new day, date and time" },
+  waitlistOffer: { ...BOOKING_VARIABLES, holdUntil: "When the held slot is released" },
+  reviewRequest: { firstName: "Customer's first name" },
+  pastClientReviewRequest: {
+    firstName: "Customer's first name",
+    ownerFirstName: "Your first name",
+  },
+  invoice: {
+    firstName: "Greeting name (first name unless changed when sending)",
+    number: "Invoice number",
+    total: "Invoice total",
+    dueDate: "Due date",
+  },
+  quote: {
+    firstName: "Greeting name (first name unless changed when sending)",
+    number: "Quote number",
+    total: "Quote total",
+  },
+  creditNote: {
+    firstName: "Greeting name (first name unless changed when sending)",
+    number: "Credit note number",
+    total: "Amount credited",
+    creditedInvoice: "Number of the invoice being credited",
+  },
+  invoiceReminder: {
+    firstName: "Customer's first name",
+    number: "Invoice number",
+    balance: "Amount still owing",
+    dueDate: "Date it was due",
+  },
+  invoiceVoid: {
+    firstName: "Greeting name (first name unless changed when sending)",
+    number: "Voided invoice number",
+    total: "Original invoice total",
+  },
+  statement: {
+    firstName: "Greeting name (first name unless changed when sending)",
+    balance: "Total owing across open invoices",
+  },
+};
+
+/** The kind of real record a template is previewed against. */
+export type EmailTemplateSource = "booking" | "invoice";
+
+/**
+ * Which record each template previews against. The statement previews against
+ * an invoice's contact, so it shares the invoice picker.
+ */
+export const EMAIL_TEMPLATE_SOURCE: Record<EmailTemplateKey, EmailTemplateSource> = {
+  bookingConfirmation: "booking",
+  bookingRescheduled: "booking",
+  bookingReminder: "booking",
+  rescheduleRequest: "booking",
+  rescheduleProposal: "booking",
+  waitlistOffer: "booking",
+  reviewRequest: "booking",
+  pastClientReviewRequest: "booking",
+  invoice: "invoice",
+  quote: "invoice",
+  creditNote: "invoice",
+  invoiceReminder: "invoice",
+  invoiceVoid: "invoice",
+  statement: "invoice",
+};
+
+/**
+ * Every placeholder a template may use: identity ones plus its own.
+ * @param key - Template key.
+ * @returns Allowed placeholder names.
+ */
+export function templatePlaceholders(key: EmailTemplateKey): string[] {
+  return [...IDENTITY_PLACEHOLDERS, ...Object.keys(EMAIL_TEMPLATE_VARIABLES[key])];
+}
+
+/**
+ * The `{tokens}` in a text that aren't in the allowed list, de-duplicated.
+ * @param text - Template text.
+ * @param allowed - Placeholder names the text may use.
+ * @returns Unknown placeholder names, in first-seen order.
+ */
+export function unknownPlaceholders(text: string, allowed: readonly string[]): string[] {
+  const unknown = [...text.matchAll(/\{(\w+)\}/g)]
+    .map((m) => m[1])
+    .filter((key) => !allowed.includes(key));
+  return [...new Set(unknown)];
+}
+
+/**
+ * Replaces each `{token}` with its value. An unknown token is left visible
+ * rather than dropped, so a typo shows up in the email instead of silently
+ * blanking part of a sentence.
+ * @param text - Template text.
+ * @param values - Placeholder name to replacement.
+ * @returns The filled text.
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (whole, key: string) => values[key] ?? whole);
+}
@@ -7,6 +7,7 @@
  * tab is built; {@link GROUP_META} covers all groups so the tab bar can render.
  */
 
+import { EMAIL_TEMPLATE_KEYS, type EmailTemplateKey } from "@/shared/lib/settings/email-templates";
 import type { SettingsGroup } from "@/shared/lib/settings/types";
 
 /** Display metadata for one editable field, keyed by its dotted path in a group. */
@@ -29,12 +30,13 @@ export const GROUP_META: Record<SettingsGroup, { title: string; blurb: string }>
   },
   pricing: {
     title: "Pricing & cancellation",
-    blurb: "Cancellation policy, minimum charges, public-holiday surcharge, and GST status.",
+    blurb:
+      "Cancellation policy, minimum charges, public-holiday surcharge, retainer billing, and GST status.",
   },
   estimator: {
     title: "Price estimator",
     blurb:
-      "Task-duration benchmarks the public price estimator uses to gauge how long a job takes.",
+      "Task-duration benchmarks the public price estimator uses to gauge how long a job takes, and the AI model behind it.",
   },
   identity: {
     title: "Business identity",
@@ -42,7 +44,7 @@ export const GROUP_META: Record<SettingsGroup, { title: string; blurb: string }>
   },
   tax: {
     title: "Tax planner",
-    blurb: "Income-tax, ACC and KiwiSaver reserve rates.",
+    blurb: "Income-tax, ACC and KiwiSaver reserve rates, and how GST returns are filed.",
   },
   comms: {
     title: "Comms & automation",
@@ -56,6 +58,11 @@ export const GROUP_META: Record<SettingsGroup, { title: string; blurb: string }>
     title: "Reviews & reputation",
     blurb: "Homepage review count, auto-approval, and request pacing.",
   },
+  templates: {
+    title: "Email templates",
+    blurb:
+      "Subject and wording of every customer email, with a live preview against a real booking or invoice.",
+  },
 };
 
 /** Field metadata for the availability group's scalar fields, keyed by dotted path. */
@@ -117,11 +124,27 @@ export const AVAILABILITY_FIELD_META: Record<string, FieldMeta> = {
     unit: "hours",
     off: "Set 0 or leave blank for no daily limit.",
   },
+  waitlistHoldHours: {
+    title: "Waitlist offer hold",
+    description:
+      "When a slot frees up on a full day, how long the next person on the waitlist has to confirm it before it passes down the list.",
+    unit: "hours",
+  },
   morningGuards: {
     title: "Morning guards",
     description:
       "Protect early slots once the night-before arrives (e.g. from Friday evening, block Sat/Sun before noon). Slots stay bookable if reserved earlier in the week.",
   },
+  externalCalendars: {
+    title: "Other calendars",
+    description:
+      "Read-only iCloud, Fastmail or other calendars whose events block time like Google events do. Use a published ICS feed URL, or a CalDAV collection URL with an app password kept in an env var.",
+  },
+  technicians: {
+    title: "Technicians",
+    description:
+      "Leave empty to run as one operator. Add technicians to book each against their own hours and calendars: customers see every time at least one of them is free, and each booking goes to the best-matched free technician - skills first, then the closest, then the least busy that day.",
+  },
 };
 
 /** Field metadata for the comms group, keyed by field name. */
@@ -175,6 +198,31 @@ export const COMMS_FIELD_META: Record<string, FieldMeta> = {
     unit: "reminders",
     off: "Set 0 to never send an automatic reminder.",
   },
+  statementsEnabled: {
+    title: "Monthly statements",
+    description:
+      "Once a month, email a statement of account (PDF attached) to every contact with an overdue balance.",
+    off: "When off, statements only go out from the Statement button on a contact.",
+  },
+  statementDayOfMonth: {
+    title: "Statement day",
+    description:
+      "Day of the month the statements go out. A missed run catches up later that month.",
+    unit: "day of month",
+  },
+  smsConfirmationEnabled: {
+    title: "Booking confirmation text",
+    description:
+      "Text the confirmation to customers who ticked it on the booking form. Texts need an SMS provider configured (SMS_PROVIDER); without one they are skipped.",
+  },
+  smsReminderEnabled: {
+    title: "Appointment reminder text",
+    description: "Text the reminder (same lead time as the email) to customers who ticked it.",
+  },
+  smsReviewRequestEnabled: {
+    title: "Review-request text",
+    description: "Text the review link after the job to customers who ticked it.",
+  },
 };
 
 /** Field metadata for the reviews group, keyed by field name. */
@@ -297,6 +345,16 @@ export const TAX_FIELD_META: Record<string, FieldMeta> = {
     description: "Voluntary KiwiSaver contribution as a percent of profit.",
     unit: "%",
   },
+  gstFilingFrequency: {
+    title: "GST filing frequency",
+    description:
+      "How often you file a GST return. Sets the periods on the GST return worksheet; six-monthly periods end 30 September and 31 March.",
+  },
+  gstBasis: {
+    title: "GST accounting basis",
+    description:
+      "Invoice basis counts a sale when it's invoiced; payments basis counts it when the money arrives. Use the basis IRD has on file for you.",
+  },
 };
 
 /** Field metadata for the advanced scheduling group, keyed by dotted path. */
@@ -470,9 +528,19 @@ export const PRICING_FIELD_META: Record<string, FieldMeta> = {
     unit: "times",
     off: "Leave blank for no limit.",
   },
+  "retainer.autoSendInvoice": {
+    title: "Auto-send retainer invoices",
+    description:
+      "On the 1st of each month the retainer invoice for the month just ended is raised for every retainer client. Turn on to email it straight away; off leaves it as a draft for you to check and send.",
+  },
+  "retainer.carryUnusedHours": {
+    title: "Carry unused hours",
+    description:
+      "Included hours a client didn't use roll into the next month and are used first, lapsing if still unused then. Off means unused hours lapse at month end.",
+  },
 };
 
-/** Metadata for the estimator group's editable fields (benchmark list + range widths). */
+/** Metadata for the estimator group's editable fields (benchmark list, range widths, AI model). */
 export const ESTIMATOR_FIELD_META: Record<string, FieldMeta> = {
   benchmarks: {
     title: "Task-duration benchmarks",
@@ -540,8 +608,111 @@ export const ESTIMATOR_FIELD_META: Record<string, FieldMeta> = {
       "The advertised low price never drops below this share of straight-time cost (75 = 75%), so a vague job still quotes a fair minimum.",
     unit: "%",
   },
+  "ai.provider": {
+    title: "Model provider",
+    description:
+      "Where the estimator and the job parser send their prompts. Local is any OpenAI-compatible server; replay answers from recorded responses and only works outside production.",
+  },
+  "ai.parseJobModel": {
+    title: "Job parser model",
+    description:
+      "Model the calculator's job parser uses. Changing it can change how quotes are read - run the AI eval first.",
+  },
+  "ai.estimateModel": {
+    title: "Estimator model",
+    description: "Model the public price estimator uses.",
+  },
+  "ai.localBaseUrl": {
+    title: "Local server URL",
+    description:
+      "OpenAI-compatible endpoint of the local server, including /v1 (e.g. http://localhost:11434/v1 for Ollama). Only used with the local provider.",
+  },
 };
 
+/** Name and "when it sends" line for each customer email template. */
+export const EMAIL_TEMPLATE_META: Record<EmailTemplateKey, { title: string; description: string }> =
+  {
+    bookingConfirmation: {
+      title: "Booking confirmation",
+      description:
+        "Sent when a booking is made, with the appointment, change/cancel buttons and policy.",
+    },
+    bookingRescheduled: {
+      title: "Booking rescheduled",
+      description: "Sent when an appointment moves to a new time.",
+    },
+    bookingReminder: {
+      title: "Appointment reminder",
+      description: "Sent the day before, at the reminder lead time set under Comms.",
+    },
+    rescheduleRequest: {
+      title: "Reschedule request",
+      description: "Sent when you clear a day and ask the customer to pick a new time.",
+    },
+    rescheduleProposal: {
+      title: "Route change proposal",
+      description:
+        "Sent when the day planner proposes a new time for a visit, with accept / keep-my-time buttons.",
+    },
+    waitlistOffer: {
+      title: "Waitlist offer",
+      description: "Sent when a freed slot is held for the next person on the waitlist.",
+    },
+    reviewRequest: {
+      title: "Review request",
+      description: "Sent shortly after a job ends, with the review button.",
+    },
+    pastClientReviewRequest: {
+      title: "Past-client review request",
+      description: "Sent when you ask an earlier client for a review from the admin.",
+    },
+    invoice: {
+      title: "Invoice",
+      description: "Default wording of the invoice email; still editable per send.",
+    },
+    quote: {
+      title: "Quote",
+      description: "Default wording of the quote email; still editable per send.",
+    },
+    creditNote: {
+      title: "Credit note",
+      description: "Default wording of the credit-note email; still editable per send.",
+    },
+    invoiceReminder: {
+      title: "Overdue reminder",
+      description: "Sent automatically when an invoice passes the reminder thresholds.",
+    },
+    invoiceVoid: {
+      title: "Invoice voided",
+      description: "Default wording when a sent invoice is voided; still editable per send.",
+    },
+    statement: {
+      title: "Statement of account",
+      description: "Default wording of the statement email and the monthly statement run.",
+    },
+  };
+
+/**
+ * Field metadata for the templates group: a subject and a body entry per
+ * template, keyed by dotted path so search lands on the right input. The
+ * subject carries the "when it sends" line, since it heads each template.
+ */
+export const TEMPLATES_FIELD_META: Record<string, FieldMeta> = Object.fromEntries(
+  EMAIL_TEMPLATE_KEYS.flatMap((key) => {
+    const { title, description } = EMAIL_TEMPLATE_META[key];
+    return [
+      [`${key}.subject`, { title: `${title} subject`, description }],
+      [
+        `${key}.body`,
+        {
+          title: `${title} wording`,
+          description: "A blank line starts a new paragraph; **text** shows in bold.",
+        },
+      ],
+    ];
+  }),
+);
+
 /** Per-group field metadata, keyed by group - powers the settings search. */
 export const FIELD_META_BY_GROUP: Record<SettingsGroup, Record<string, FieldMeta>> = {
   availability: AVAILABILITY_FIELD_META,
@@ -552,4 +723,5 @@ export const FIELD_META_BY_GROUP: Record<SettingsGroup, Record<string, FieldMeta
   comms: COMMS_FIELD_META,
   scheduling: SCHEDULING_FIELD_META,
   reviews: REVIEWS_FIELD_META,
+  templates: TEMPLATES_FIELD_META,
 };
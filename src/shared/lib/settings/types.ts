@@ -7,6 +7,8 @@
  * disable-semantics table in the settings plan.
  */
 
+import type { EmailTemplateKey } from "@/shared/lib/settings/email-templates";
+
 /** One weekday's bookable window. `getUTCDay()` indexing: 0 = Sunday .. 6 = Saturday. */
 export interface DayWindow {
   /** When false the whole day is unavailable (no slots offered). */
@@ -44,6 +46,54 @@ export interface MorningGuard {
   earliestHour: number;
 }
 
+/**
+ * A read-only calendar outside Google (iCloud, Fastmail, ...) whose events
+ * block availability the same way Google events do. `ics` is a published feed
+ * URL; `caldav` is a calendar collection read with a REPORT query. The CalDAV
+ * password never lives in settings - `passwordEnv` names the env var holding it.
+ */
+export interface ExternalCalendar {
+  /** Stable slug; cached events are tagged `<kind>:<id>`, so renaming orphans them until the next refresh. */
+  id: string;
+  /** When false the calendar is not fetched. */
+  enabled: boolean;
+  /** Operator-friendly name, e.g. "Sam - iCloud". */
+  label: string;
+  kind: "ics" | "caldav";
+  /** Feed URL (ics) or collection URL (caldav). https only; webcal:// is accepted and rewritten. */
+  url: string;
+  /** CalDAV login. Unused for ics. */
+  username: string;
+  /** Name of the env var holding the CalDAV app password. Unused for ics. */
+  passwordEnv: string;
+  /** When false, all-day events (holidays, birthdays) don't block anything. */
+  blockAllDay: boolean;
+}
+
+/**
+ * Someone who takes bookings. With none enabled the site runs as a single
+ * operator on the shared weekly hours; with any enabled, each technician is
+ * booked against their own hours and calendars and customers see the union of
+ * their free slots.
+ */
+export interface Technician {
+  /** Stable slug stored on bookings, invoices and income; renaming detaches those records. */
+  id: string;
+  /** When false the technician is offered no new bookings. */
+  enabled: boolean;
+  name: string;
+  /** Hex colour for their jobs on the schedule, e.g. "#2563eb". */
+  color: string;
+  /** Calendars whose events block only this technician: Google calendar ids or `<kind>:<id>` external calendar keys. */
+  calendarIds: string[];
+  /** Own weekly hours; null works the shared schedule. */
+  schedule: WeeklySchedule | null;
+  /** Where their travel starts and ends. Blank = the business base address. */
+  baseAddress: string;
+  /** Lowercase tags matched against the job description when assigning, e.g. "apple", "networking". */
+  skills: string[];
+}
+
 export interface AvailabilitySettings {
   /** Master switch - when false the public booking flow is paused. */
   acceptingBookings: boolean;
@@ -68,8 +118,14 @@ export interface AvailabilitySettings {
   maxJobsPerDay: number | null;
   /** Max billable hours bookable per day. null/0 = unlimited. */
   maxBillableHoursPerDay: number | null;
+  /** How long a freed slot is held for a waitlister to confirm it (hours). */
+  waitlistHoldHours: number;
   /** Morning-protection rules (e.g. weekend lie-in). Empty = no guards. */
   morningGuards: MorningGuard[];
+  /** Extra ICS / CalDAV calendars read alongside Google. Empty = Google only. */
+  externalCalendars: ExternalCalendar[];
+  /** Technicians taking bookings. Empty = a single operator on `schedule`. */
+  technicians: Technician[];
 }
 
 interface CancellationSettings {
@@ -96,6 +152,13 @@ interface RescheduleSettings {
   maxReschedules: number | null;
 }
 
+interface RetainerBillingSettings {
+  /** When true the monthly retainer invoice is emailed as soon as the cron raises it, instead of waiting as a draft. */
+  autoSendInvoice: boolean;
+  /** When true a month's unused included hours carry into the next month (for one month only); when false they lapse. */
+  carryUnusedHours: boolean;
+}
+
 export interface PricingSettings {
   /** When true invoices show GST; requires a GST number to be set. */
   gstRegistered: boolean;
@@ -126,6 +189,7 @@ export interface PricingSettings {
   workmanshipWindowDays: number;
   cancellation: CancellationSettings;
   reschedule: RescheduleSettings;
+  retainer: RetainerBillingSettings;
 }
 
 /** Unified business base address - feeds the travel origin, JSON-LD, signatures. */
@@ -195,6 +259,23 @@ export interface EstimatorRange {
   minSpread: number;
 }
 
+/** Model backend for the AI job parser and the public estimator. */
+export type LlmProviderChoice = "openai" | "local" | "replay";
+
+/**
+ * Which model answers the AI job parser and the public duration estimator. API
+ * keys never live in settings - OPENAI_API_KEY / LOCAL_LLM_API_KEY stay in env.
+ */
+export interface AiModelSettings {
+  provider: LlmProviderChoice;
+  /** Model the admin job parser calls, e.g. "gpt-4.1". */
+  parseJobModel: string;
+  /** Model the public duration estimator calls, e.g. "gpt-4.1-mini". */
+  estimateModel: string;
+  /** OpenAI-compatible endpoint for "local", e.g. "http://localhost:11434/v1". Unused otherwise. */
+  localBaseUrl: string;
+}
+
 export interface EstimatorSettings {
   /**
    * Standalone task-duration baselines the public price estimator starts from
@@ -211,8 +292,16 @@ export interface EstimatorSettings {
   stackBackgroundFactor: number;
   /** The advertised low end never drops below this fraction of straight-time cost. */
   lowEndFloorFactor: number;
+  /** Model backend for the estimator and the admin job parser. */
+  ai: AiModelSettings;
 }
 
+/** How often a GST return is filed with IRD. */
+export type GstFilingFrequency = "monthly" | "two-monthly" | "six-monthly";
+
+/** GST accounting basis: supplies count when invoiced, or when paid. */
+export type GstBasis = "invoice" | "payments";
+
 export interface TaxSettings {
   /** Income-tax reserve rate (fraction). */
   incomeTax: number;
@@ -220,6 +309,10 @@ export interface TaxSettings {
   acc: number;
   /** KiwiSaver contribution rate (fraction). */
   kiwiSaver: number;
+  /** GST return period length (periods line up with the 31 March balance date). */
+  gstFilingFrequency: GstFilingFrequency;
+  /** GST accounting basis the returns are worked on. */
+  gstBasis: GstBasis;
 }
 
 export interface CommsSettings {
@@ -240,6 +333,16 @@ export interface CommsSettings {
   invoiceReminderSecondDays: number;
   /** Maximum number of automatic overdue reminders per invoice. */
   invoiceReminderMaxCount: number;
+  /** Monthly statement of account to every contact with an overdue balance. */
+  statementsEnabled: boolean;
+  /** NZ day of the month the monthly statements go out (1-28). */
+  statementDayOfMonth: number;
+  /** Text the booking confirmation to customers who opted in to it. */
+  smsConfirmationEnabled: boolean;
+  /** Text the appointment reminder to customers who opted in to it. */
+  smsReminderEnabled: boolean;
+  /** Text the review request to customers who opted in to it. */
+  smsReviewRequestEnabled: boolean;
 }
 
 export interface SchedulingSettings {
@@ -266,6 +369,20 @@ export interface ReviewsSettings {
   invoiceReviewCooldownDays: number;
 }
 
+/**
+ * One customer email's editable copy. Both fields take the identity
+ * placeholders plus the template's own variables (see `email-templates.ts`);
+ * the body also takes `**bold**`, and a blank line starts a new paragraph.
+ * Headings, appointment/invoice details blocks and buttons stay in code.
+ */
+export interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+/** Editable copy for every customer email, keyed by template. */
+export type EmailTemplatesSettings = Record<EmailTemplateKey, EmailTemplate>;
+
 export interface Settings {
   availability: AvailabilitySettings;
   pricing: PricingSettings;
@@ -275,6 +392,7 @@ export interface Settings {
   comms: CommsSettings;
   scheduling: SchedulingSettings;
   reviews: ReviewsSettings;
+  templates: EmailTemplatesSettings;
 }
 
 /** One of the top-level settings groups (also the `settings:<group>` key suffix). */
@@ -9,9 +9,16 @@
  * Hand-rolled to match the repo's existing manual-validation convention (no zod).
  */
 
+import {
+  EMAIL_TEMPLATE_KEYS,
+  IDENTITY_PLACEHOLDERS,
+  templatePlaceholders,
+  unknownPlaceholders,
+} from "@/shared/lib/settings/email-templates";
 import type {
   AvailabilitySettings,
   CommsSettings,
+  EmailTemplatesSettings,
   EstimatorSettings,
   IdentitySettings,
   PricingSettings,
@@ -20,6 +27,7 @@ import type {
   Settings,
   SettingsGroup,
   TaxSettings,
+  WeeklySchedule,
 } from "@/shared/lib/settings/types";
 
 /** A single rejected field plus the reason, surfaced inline by the form. */
@@ -90,6 +98,8 @@ function validateAvailability(a: AvailabilitySettings): FieldError[] {
       field: "maxBillableHoursPerDay",
       message: "Must be 0/blank (unlimited) or positive.",
     });
+  if (!inRange(a.waitlistHoldHours, 1, 72))
+    errors.push({ field: "waitlistHoldHours", message: "Must be between 1 and 72 hours." });
   if (!Array.isArray(a.subSlotMinutes) || a.subSlotMinutes.some((m) => !inRange(m, 0, 59)))
     errors.push({ field: "subSlotMinutes", message: "Each sub-slot offset must be 0-59." });
 
@@ -117,15 +127,94 @@ function validateAvailability(a: AvailabilitySettings): FieldError[] {
     });
   }
 
+  if (!Array.isArray(a.externalCalendars)) {
+    errors.push({ field: "externalCalendars", message: "Must be a list of calendars." });
+  } else {
+    const seen = new Set<string>();
+    a.externalCalendars.forEach((c, i) => {
+      /**
+       * Dotted error path for one field of this row.
+       * @param key - Row field name.
+       * @returns e.g. "externalCalendars.0.url".
+       */
+      const f = (key: string): string => `externalCalendars.${i}.${key}`;
+      if (typeof c?.id !== "string" || !/^[a-z0-9][a-z0-9-]{0,39}$/.test(c.id))
+        errors.push({ field: f("id"), message: "Use lowercase letters, digits and dashes." });
+      else if (seen.has(c.id)) errors.push({ field: f("id"), message: "Id is already used." });
+      else seen.add(c.id);
+      if (typeof c?.enabled !== "boolean" || typeof c?.blockAllDay !== "boolean")
+        errors.push({ field: f("enabled"), message: "Must be on or off." });
+      if (typeof c?.label !== "string" || !c.label.trim())
+        errors.push({ field: f("label"), message: "Required." });
+      if (c?.kind !== "ics" && c?.kind !== "caldav")
+        errors.push({ field: f("kind"), message: "Must be ICS feed or CalDAV." });
+      if (typeof c?.url !== "string" || !/^(https|webcal):\/\/[^\s/]+/i.test(c.url))
+        errors.push({ field: f("url"), message: "Must be an https:// or webcal:// URL." });
+      if (c?.kind === "caldav") {
+        if (typeof c.username !== "string" || !c.username.trim())
+          errors.push({ field: f("username"), message: "CalDAV needs a username." });
+        if (typeof c.passwordEnv !== "string" || !/^[A-Z][A-Z0-9_]*$/.test(c.passwordEnv))
+          errors.push({
+            field: f("passwordEnv"),
+            message: "Name of an env var, e.g. CALDAV_SAM_PASSWORD.",
+          });
+      }
+    });
+  }
+
+  if (!Array.isArray(a.technicians)) {
+    errors.push({ field: "technicians", message: "Must be a list of technicians." });
+  } else {
+    const seen = new Set<string>();
+    a.technicians.forEach((t, i) => {
+      /**
+       * Dotted error path for one field of this row.
+       * @param key - Row field name.
+       * @returns e.g. "technicians.0.name".
+       */
+      const f = (key: string): string => `technicians.${i}.${key}`;
+      if (typeof t?.id !== "string" || !/^[a-z0-9][a-z0-9-]{0,39}$/.test(t.id))
+        errors.push({ field: f("id"), message: "Use lowercase letters, digits and dashes." });
+      else if (seen.has(t.id)) errors.push({ field: f("id"), message: "Id is already used." });
+      else seen.add(t.id);
+      if (typeof t?.enabled !== "boolean")
+        errors.push({ field: f("enabled"), message: "Must be on or off." });
+      if (typeof t?.name !== "string" || !t.name.trim())
+        errors.push({ field: f("name"), message: "Required." });
+      if (typeof t?.color !== "string" || !/^#[0-9a-f]{6}$/i.test(t.color))
+        errors.push({ field: f("color"), message: "Must be a hex colour, e.g. #2563eb." });
+      if (!Array.isArray(t?.calendarIds) || t.calendarIds.some((c) => typeof c !== "string"))
+        errors.push({ field: f("calendarIds"), message: "Must be a list of calendar ids." });
+      if (typeof t?.baseAddress !== "string")
+        errors.push({ field: f("baseAddress"), message: "Must be text." });
+      if (!Array.isArray(t?.skills) || t.skills.some((k) => typeof k !== "string" || !k.trim()))
+        errors.push({ field: f("skills"), message: "Skills must be non-empty tags." });
+      if (t?.schedule !== null) errors.push(...validateSchedule(t?.schedule, f("schedule")));
+    });
+  }
+
+  errors.push(...validateSchedule(a.schedule, "schedule"));
+  return errors;
+}
+
+/**
+ * Validates a seven-day schedule: every day present, open before close, and
+ * any break inside the day's window.
+ * @param schedule - Proposed schedule.
+ * @param path - Dotted path prefix for errors, e.g. "schedule".
+ * @returns List of field errors (empty when valid).
+ */
+function validateSchedule(schedule: WeeklySchedule | undefined, path: string): FieldError[] {
+  const errors: FieldError[] = [];
   for (let day = 0; day <= 6; day++) {
-    const d = a.schedule?.[day];
+    const d = schedule?.[day];
     if (!d) {
-      errors.push({ field: `schedule.${day}`, message: "Missing day window." });
+      errors.push({ field: `${path}.${day}`, message: "Missing day window." });
       continue;
     }
     if (!d.enabled) continue;
     if (!inRange(d.open, 0, 23) || !inRange(d.close, 1, 24) || d.open >= d.close)
-      errors.push({ field: `schedule.${day}`, message: "Open must be before close (hours 0-24)." });
+      errors.push({ field: `${path}.${day}`, message: "Open must be before close (hours 0-24)." });
     if (d.break) {
       if (
         !inRange(d.break.start, d.open, d.close) ||
@@ -133,7 +222,7 @@ function validateAvailability(a: AvailabilitySettings): FieldError[] {
         d.break.start >= d.break.end
       )
         errors.push({
-          field: `schedule.${day}.break`,
+          field: `${path}.${day}.break`,
           message: "Break must sit inside the day's window.",
         });
     }
@@ -214,6 +303,10 @@ function validatePricing(p: PricingSettings): FieldError[] {
       field: "reschedule.maxReschedules",
       message: "Must be 0/blank (no limit) or positive.",
     });
+  if (typeof p.retainer?.autoSendInvoice !== "boolean")
+    errors.push({ field: "retainer.autoSendInvoice", message: "Must be on or off." });
+  if (typeof p.retainer?.carryUnusedHours !== "boolean")
+    errors.push({ field: "retainer.carryUnusedHours", message: "Must be on or off." });
   return errors;
 }
 
@@ -290,6 +383,29 @@ function validateEstimator(e: EstimatorSettings): FieldError[] {
     errors.push({ field: "stackBackgroundFactor", message: "Must be a fraction 0-1 (0.2 = 20%)." });
   if (!inRange(e.lowEndFloorFactor, 0, 1))
     errors.push({ field: "lowEndFloorFactor", message: "Must be a fraction 0-1 (0.75 = 75%)." });
+
+  // Model backend: the keys stay in env, so only the choice and names are checked here.
+  const ai = e.ai;
+  if (!ai || typeof ai !== "object") {
+    errors.push({ field: "ai", message: "AI model config is required." });
+    return errors;
+  }
+  if (!["openai", "local", "replay"].includes(ai.provider))
+    errors.push({ field: "ai.provider", message: "Pick OpenAI, a local server, or replay." });
+  for (const key of ["parseJobModel", "estimateModel"] as const) {
+    const model = typeof ai[key] === "string" ? ai[key].trim() : "";
+    if (!model || model.length > 100 || /\s/.test(model))
+      errors.push({
+        field: `ai.${key}`,
+        message: "Enter a model name (no spaces, under 100 characters).",
+      });
+  }
+  if (typeof ai.localBaseUrl !== "string") {
+    errors.push({ field: "ai.localBaseUrl", message: "Must be text." });
+  } else if (ai.provider === "local" && !/^https?:\/\/[^\s/]+/i.test(ai.localBaseUrl.trim())) {
+    // Plain http is allowed: a local server is usually on localhost or the LAN.
+    errors.push({ field: "ai.localBaseUrl", message: "Must be an http:// or https:// URL." });
+  }
   return errors;
 }
 
@@ -300,7 +416,14 @@ function validateEstimator(e: EstimatorSettings): FieldError[] {
  */
 function validateComms(c: CommsSettings): FieldError[] {
   const errors: FieldError[] = [];
-  for (const key of ["notifyConfirmation", "notifyReminder", "notifyReviewRequest"] as const) {
+  for (const key of [
+    "notifyConfirmation",
+    "notifyReminder",
+    "notifyReviewRequest",
+    "smsConfirmationEnabled",
+    "smsReminderEnabled",
+    "smsReviewRequestEnabled",
+  ] as const) {
     if (typeof c[key] !== "boolean") errors.push({ field: key, message: "Must be on or off." });
   }
   if (!inRange(c.reminderLeadHours, 1, 168))
@@ -322,6 +445,10 @@ function validateComms(c: CommsSettings): FieldError[] {
     });
   if (!inRange(c.invoiceReminderMaxCount, 0, 10))
     errors.push({ field: "invoiceReminderMaxCount", message: "Must be 0-10 reminders." });
+  if (typeof c.statementsEnabled !== "boolean")
+    errors.push({ field: "statementsEnabled", message: "Must be on or off." });
+  if (!Number.isInteger(c.statementDayOfMonth) || !inRange(c.statementDayOfMonth, 1, 28))
+    errors.push({ field: "statementDayOfMonth", message: "Must be a day from 1 to 28." });
   return errors;
 }
 
@@ -342,10 +469,14 @@ function validateReviews(r: ReviewsSettings): FieldError[] {
 }
 
 /**
- * Placeholders the email signature accepts. Kept in step with
- * `signaturePlaceholders` in the email layer, which is what actually expands them.
+ * Error message for `{tokens}` that aren't in the allowed list.
+ * @param unknown - Unknown placeholder names (non-empty).
+ * @param allowed - Placeholder names the field accepts.
+ * @returns Message naming both the offenders and the available set.
  */
-const SIGNATURE_PLACEHOLDERS = ["name", "company", "phone", "email", "website", "location"];
+function unknownPlaceholderMessage(unknown: string[], allowed: readonly string[]): string {
+  return `Unknown placeholder${unknown.length > 1 ? "s" : ""}: ${unknown.map((k) => `{${k}}`).join(", ")}. Available: ${allowed.map((k) => `{${k}}`).join(", ")}.`;
+}
 
 /**
  * Validates the business identity group's shape + bounds.
@@ -366,13 +497,11 @@ function validateIdentity(i: IdentitySettings): FieldError[] {
     errors.push({ field: "emailSignature", message: "Email signature cannot be empty." });
   // A misspelt placeholder renders as literal "{pone}" in a customer's inbox,
   // which no test would catch, so reject it at the point it is typed.
-  const unknownPlaceholders = [...i.emailSignature.matchAll(/\{(\w+)\}/g)]
-    .map((m) => m[1])
-    .filter((key) => !SIGNATURE_PLACEHOLDERS.includes(key));
-  if (unknownPlaceholders.length > 0)
+  const unknownSignature = unknownPlaceholders(i.emailSignature, IDENTITY_PLACEHOLDERS);
+  if (unknownSignature.length > 0)
     errors.push({
       field: "emailSignature",
-      message: `Unknown placeholder${unknownPlaceholders.length > 1 ? "s" : ""}: ${[...new Set(unknownPlaceholders)].map((k) => `{${k}}`).join(", ")}. Available: ${SIGNATURE_PLACEHOLDERS.map((k) => `{${k}}`).join(", ")}.`,
+      message: unknownPlaceholderMessage(unknownSignature, IDENTITY_PLACEHOLDERS),
     });
   if (i.baseAddress.lat !== null && !inRange(i.baseAddress.lat, -90, 90))
     errors.push({ field: "baseAddress.lat", message: "Latitude must be -90 to 90." });
@@ -381,6 +510,53 @@ function validateIdentity(i: IdentitySettings): FieldError[] {
   return errors;
 }
 
+/** Longest subject accepted; inbox previews truncate well before this anyway. */
+const MAX_SUBJECT_LENGTH = 200;
+
+/**
+ * Validates the email templates group. Same placeholder check as the signature,
+ * against each template's own variable set, so a variable that only exists on
+ * invoices can't be typed into a booking email and render literally.
+ * @param t - Proposed template settings.
+ * @returns List of field errors (empty when valid).
+ */
+function validateTemplates(t: EmailTemplatesSettings): FieldError[] {
+  const errors: FieldError[] = [];
+  for (const key of EMAIL_TEMPLATE_KEYS) {
+    const template = t[key];
+    if (typeof template?.subject !== "string" || typeof template.body !== "string") {
+      errors.push({ field: `${key}.subject`, message: "Template is missing its subject or body." });
+      continue;
+    }
+    const allowed = templatePlaceholders(key);
+    const subject = template.subject.trim();
+    if (!subject) errors.push({ field: `${key}.subject`, message: "Subject cannot be empty." });
+    else if (/[\r\n]/.test(subject))
+      errors.push({ field: `${key}.subject`, message: "Subject must be a single line." });
+    else if (subject.length > MAX_SUBJECT_LENGTH)
+      errors.push({
+        field: `${key}.subject`,
+        message: `Subject must be ${MAX_SUBJECT_LENGTH} characters or fewer.`,
+      });
+    else {
+      const unknown = unknownPlaceholders(subject, allowed);
+      if (unknown.length > 0)
+        errors.push({
+          field: `${key}.subject`,
+          message: unknownPlaceholderMessage(unknown, allowed),
+        });
+    }
+    if (!template.body.trim()) {
+      errors.push({ field: `${key}.body`, message: "Body cannot be empty." });
+      continue;
+    }
+    const unknown = unknownPlaceholders(template.body, allowed);
+    if (unknown.length > 0)
+      errors.push({ field: `${key}.body`, message: unknownPlaceholderMessage(unknown, allowed) });
+  }
+  return errors;
+}
+
 /**
  * Validates the tax-planner group's shape + bounds. Rates are fractions
  * (0.2 = 20%).
@@ -395,6 +571,13 @@ function validateTax(t: TaxSettings): FieldError[] {
     errors.push({ field: "acc", message: "Must be a fraction 0-1 (e.g. 0.0146 = 1.46%)." });
   if (!inRange(t.kiwiSaver, 0, 1))
     errors.push({ field: "kiwiSaver", message: "Must be a fraction 0-1 (e.g. 0.12 = 12%)." });
+  if (!["monthly", "two-monthly", "six-monthly"].includes(t.gstFilingFrequency))
+    errors.push({
+      field: "gstFilingFrequency",
+      message: "Must be monthly, two-monthly or six-monthly.",
+    });
+  if (!["invoice", "payments"].includes(t.gstBasis))
+    errors.push({ field: "gstBasis", message: "Must be invoice or payments basis." });
   return errors;
 }
 
@@ -450,6 +633,8 @@ export function validateGroup<G extends SettingsGroup>(group: G, value: Settings
       return validateTax(value as TaxSettings);
     case "scheduling":
       return validateScheduling(value as SchedulingSettings);
+    case "templates":
+      return validateTemplates(value as EmailTemplatesSettings);
     default:
       return [];
   }
@@ -507,6 +692,15 @@ export function checkGuardrails(s: Settings): GuardrailIssue[] {
     });
   }
 
+  // Technicians listed but all switched off fall back to the single-operator mode.
+  if (a.technicians.length > 0 && !a.technicians.some((t) => t.enabled)) {
+    issues.push({
+      level: "warn",
+      message:
+        "Every technician is switched off, so bookings fall back to one operator on the shared weekly hours.",
+    });
+  }
+
   // Longest duration that fits nowhere is silently unbookable.
   const longest = Math.max(a.durations.short, a.durations.long);
   const fitsAnywhere = [0, 1, 2, 3, 4, 5, 6].some((day) => {
@@ -533,7 +727,10 @@ export function checkGuardrails(s: Settings): GuardrailIssue[] {
 
   // The reminder window runs from (free-notice + 1h) up to the lead time; if the
   // lead time isn't beyond that lower bound, no reminder could ever send.
-  if (comms.notifyReminder && comms.reminderLeadHours <= p.cancellation.freeNoticeHours + 1) {
+  if (
+    (comms.notifyReminder || comms.smsReminderEnabled) &&
+    comms.reminderLeadHours <= p.cancellation.freeNoticeHours + 1
+  ) {
     issues.push({
       level: "block",
       message: `Reminder lead time (${comms.reminderLeadHours}h) must be more than the free-cancellation window + 1h (${p.cancellation.freeNoticeHours + 1}h), otherwise reminders would never send.`,
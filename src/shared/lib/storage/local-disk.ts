@@ -0,0 +1,66 @@
+// src/shared/lib/storage/local-disk.ts
+/**
+ * @description Local-disk {@link StorageAdapter}: each key is a file under one
+ * root directory. Keys are checked against a strict pattern so a crafted key
+ * can never escape the root.
+ */
+
+import type { StorageAdapter } from "@/shared/lib/storage/storage";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+/** Slash-separated segments of letters, digits, `_`, `-` and `.`; no `..`. */
+const KEY_RE = /^(?!.*\.\.)[A-Za-z0-9_.-]+(?:\/[A-Za-z0-9_.-]+)*$/;
+
+/**
+ * Resolves a key to its absolute path. Throws on a key outside the allowed
+ * pattern.
+ * @param root - Absolute storage root.
+ * @param key - Relative key.
+ * @returns Absolute file path.
+ */
+function keyPath(root: string, key: string): string {
+  if (!KEY_RE.test(key)) throw new Error(`Invalid storage key: ${key}`);
+  return path.join(root, ...key.split("/"));
+}
+
+/**
+ * Creates a storage adapter rooted at a directory. The directory (and any
+ * key sub-directories) are created on first write.
+ * @param root - Absolute directory to store files under.
+ * @returns The adapter.
+ */
+export function createLocalDiskStorage(root: string): StorageAdapter {
+  return {
+    /**
+     * Writes a file, creating its directory first.
+     * @param key - Relative key.
+     * @param data - File bytes.
+     */
+    async put(key, data) {
+      const file = keyPath(root, key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    /**
+     * Reads a file.
+     * @param key - Relative key.
+     * @returns The bytes, or null when the file doesn't exist.
+     */
+    async get(key) {
+      try {
+        return await readFile(keyPath(root, key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    /**
+     * Deletes a file; a missing one is fine.
+     * @param key - Relative key.
+     */
+    async delete(key) {
+      await rm(keyPath(root, key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// src/shared/lib/storage/storage.ts
+/**
+ * @description File storage behind a small adapter so uploads (booking photos
+ * today) don't care where bytes live. The local-disk adapter is the only
+ * implementation; a bucket-backed one slots in here without touching callers.
+ */
+
+import { createLocalDiskStorage } from "@/shared/lib/storage/local-disk";
+import path from "path";
+import "server-only";
+
+/** Where stored files live. Keys are slash-separated relative paths. */
+export interface StorageAdapter {
+  /**
+   * Writes (or overwrites) a file.
+   * @param key - Relative key, e.g. `bookings/<id>/<uuid>.jpg`.
+   * @param data - File bytes.
+   */
+  put(key: string, data: Buffer): Promise<void>;
+  /**
+   * Reads a file.
+   * @param key - Relative key.
+   * @returns The bytes, or null when nothing is stored under the key.
+   */
+  get(key: string): Promise<Buffer | null>;
+  /**
+   * Deletes a file. A missing key is not an error.
+   * @param key - Relative key.
+   */
+  delete(key: string): Promise<void>;
+}
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * The app's storage adapter: local disk under `UPLOAD_DIR`, defaulting to
+ * `.uploads/` in the project root.
+ * @returns The shared adapter instance.
+ */
+export function getStorage(): StorageAdapter {
+  storage ??= createLocalDiskStorage(
+    process.env.UPLOAD_DIR?.trim() || path.join(process.cwd(), ".uploads"),
+  );
+  return storage;
+}